@@ -0,0 +1,58 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { LoginAlertConfirmForm } from '@/components/auth/LoginAlertConfirmForm'
+
+// Next-Auth モック
+jest.mock('next-auth/react', () => ({
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({ data: null, status: 'unauthenticated' }),
+}))
+
+// Server Actionモック
+const mockReportUnrecognizedLogin = jest.fn()
+jest.mock('@/lib/actions/login-alert', () => ({
+  reportUnrecognizedLogin: (...args: unknown[]) => mockReportUnrecognizedLogin(...args),
+}))
+
+describe('LoginAlertConfirmForm', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  const getSubmitButton = () => screen.getByRole('button', { name: '心当たりがないログインを報告する' })
+
+  it('表示しただけでは報告しない', () => {
+    render(<LoginAlertConfirmForm token="alert-token" />)
+
+    expect(getSubmitButton()).toBeInTheDocument()
+    expect(mockReportUnrecognizedLogin).not.toHaveBeenCalled()
+  })
+
+  it('ボタンを押すと報告し、ログアウトしたことを表示する', async () => {
+    mockReportUnrecognizedLogin.mockResolvedValue({ success: true })
+
+    const user = userEvent.setup()
+    render(<LoginAlertConfirmForm token="alert-token" />)
+
+    await user.click(getSubmitButton())
+
+    await waitFor(() => {
+      expect(screen.getByText(/すべてのデバイスからログアウトしました/)).toBeInTheDocument()
+    })
+    expect(mockReportUnrecognizedLogin).toHaveBeenCalledWith('alert-token')
+  })
+
+  it('報告に失敗した場合はエラーを表示する', async () => {
+    mockReportUnrecognizedLogin.mockResolvedValue({ error: 'リンクが無効または期限切れです' })
+
+    const user = userEvent.setup()
+    render(<LoginAlertConfirmForm token="alert-token" />)
+
+    await user.click(getSubmitButton())
+
+    await waitFor(() => {
+      expect(screen.getByText('リンクが無効または期限切れです')).toBeInTheDocument()
+    })
+    expect(getSubmitButton()).not.toBeDisabled()
+  })
+})
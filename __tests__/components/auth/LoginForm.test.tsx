@@ -122,11 +122,32 @@ jest.mock('@/lib/actions/auth', () => ({
  * 2FAのチェックと検証をモック。
  * テストではデフォルトで2FAを無効にする。
  */
+const mockCheck2FARequired = jest.fn()
+const mockGetPasskey2FAOptions = jest.fn()
+const mockVerify2FAPasskey = jest.fn()
 jest.mock('@/lib/actions/two-factor', () => ({
-  // 2FAは不要として扱う
-  check2FARequired: jest.fn().mockResolvedValue({ required: false }),
+  // 2FAの要否はテストごとに設定
+  check2FARequired: (...args: unknown[]) => mockCheck2FARequired(...args),
   // 2FA検証は成功として扱う
   verify2FAToken: jest.fn().mockResolvedValue({ success: true }),
+  getPasskey2FAOptions: (...args: unknown[]) => mockGetPasskey2FAOptions(...args),
+  verify2FAPasskey: (...args: unknown[]) => mockVerify2FAPasskey(...args),
+}))
+
+/**
+ * パスキー関連のモック
+ * ----------------------------------------------------------------------------
+ * WebAuthnのブラウザAPI（navigator.credentials）はjsdomにないため、
+ * @simplewebauthn/browser とServer Actionをモック。
+ */
+const mockGetPasskeyLoginOptions = jest.fn()
+jest.mock('@/lib/actions/passkey', () => ({
+  getPasskeyLoginOptions: () => mockGetPasskeyLoginOptions(),
+}))
+
+const mockStartAuthentication = jest.fn()
+jest.mock('@simplewebauthn/browser', () => ({
+  startAuthentication: (...args: unknown[]) => mockStartAuthentication(...args),
 }))
 
 /**
@@ -159,6 +180,7 @@ describe('LoginForm', () => {
    */
   beforeEach(() => {
     jest.clearAllMocks()
+    mockCheck2FARequired.mockResolvedValue({ required: false })
   })
 
   // --------------------------------------------------------------------------
@@ -202,8 +224,8 @@ describe('LoginForm', () => {
 
     // screen.getByRole(): ARIA roleで要素を検索
     // 'button'は<button>要素やrole="button"の要素にマッチ
-    // { name: /ログイン/i } は正規表現でテキストを検索（iは大文字小文字を無視）
-    expect(screen.getByRole('button', { name: /ログイン/i })).toBeInTheDocument()
+    // { name: 'ログイン' } は完全一致で検索（「パスキーでログイン」とは区別される）
+    expect(screen.getByRole('button', { name: 'ログイン' })).toBeInTheDocument()
   })
 
   // --------------------------------------------------------------------------
@@ -264,7 +286,7 @@ describe('LoginForm', () => {
     await user.type(getPasswordInput(), 'password123')
 
     // ログインボタンをクリック
-    await user.click(screen.getByRole('button', { name: /ログイン/i }))
+    await user.click(screen.getByRole('button', { name: 'ログイン' }))
 
     // waitFor(): 非同期処理が完了するまで待機
     // コールバック内のアサーションが成功するまでリトライする
@@ -274,6 +296,7 @@ describe('LoginForm', () => {
       expect(mockSignIn).toHaveBeenCalledWith('credentials', expect.objectContaining({
         email: 'test@example.com',
         password: 'password123',
+        fingerprint: 'mock-fingerprint-123', // セッションをデバイスに結びつける
         redirect: false, // クライアント側でリダイレクトを制御
       }))
     })
@@ -291,7 +314,7 @@ describe('LoginForm', () => {
 
     await user.type(getEmailInput(), 'test@example.com')
     await user.type(getPasswordInput(), 'password123')
-    await user.click(screen.getByRole('button', { name: /ログイン/i }))
+    await user.click(screen.getByRole('button', { name: 'ログイン' }))
 
     await waitFor(() => {
       // /feedへのページ遷移を確認
@@ -323,7 +346,7 @@ describe('LoginForm', () => {
 
     await user.type(getEmailInput(), 'test@example.com')
     await user.type(getPasswordInput(), 'wrongpassword')
-    await user.click(screen.getByRole('button', { name: /ログイン/i }))
+    await user.click(screen.getByRole('button', { name: 'ログイン' }))
 
     // エラーメッセージが表示されることを確認
     await waitFor(() => {
@@ -331,6 +354,22 @@ describe('LoginForm', () => {
     })
   })
 
+  it('パスワードの再設定が必要なアカウントは再設定を案内する', async () => {
+    mockSignIn.mockResolvedValue({ ok: false, error: 'CredentialsSignin', code: 'password_reset_required' })
+
+    const user = userEvent.setup()
+    render(<LoginForm />)
+
+    await user.type(getEmailInput(), 'test@example.com')
+    await user.type(getPasswordInput(), 'password123')
+    await user.click(screen.getByRole('button', { name: 'ログイン' }))
+
+    await waitFor(() => {
+      expect(screen.getByText(/パスワードリセットからパスワードを再設定してください/)).toBeInTheDocument()
+    })
+    expect(screen.queryByText(/メールアドレスまたはパスワードが間違っています/)).not.toBeInTheDocument()
+  })
+
   // --------------------------------------------------------------------------
   // ローディング状態テスト
   // --------------------------------------------------------------------------
@@ -355,7 +394,7 @@ describe('LoginForm', () => {
 
     await user.type(getEmailInput(), 'test@example.com')
     await user.type(getPasswordInput(), 'password123')
-    await user.click(screen.getByRole('button', { name: /ログイン/i }))
+    await user.click(screen.getByRole('button', { name: 'ログイン' }))
 
     // ローディング中のボタンテキストを確認
     expect(screen.getByRole('button', { name: /ログイン中/i })).toBeInTheDocument()
@@ -433,6 +472,89 @@ describe('LoginForm', () => {
     expect(passwordInput).toHaveAttribute('type', 'password')
   })
 
+  // --------------------------------------------------------------------------
+  // パスキーテスト
+  // --------------------------------------------------------------------------
+  /**
+   * パスキーでのログイン
+   *
+   * メールアドレスとパスワードを入力せずに、
+   * passkeyプロバイダーでサインインすることを確認。
+   */
+  it('パスキーでログインできる', async () => {
+    mockGetPasskeyLoginOptions.mockResolvedValue({ options: { challenge: 'auth-challenge' } })
+    mockStartAuthentication.mockResolvedValue({ id: 'credential-1' })
+    mockSignIn.mockResolvedValue({ ok: true })
+    const user = userEvent.setup()
+    render(<LoginForm />)
+
+    await user.click(screen.getByRole('button', { name: 'パスキーでログイン' }))
+
+    await waitFor(() => {
+      expect(mockSignIn).toHaveBeenCalledWith('passkey', {
+        response: JSON.stringify({ id: 'credential-1' }),
+        fingerprint: 'mock-fingerprint-123',
+        redirect: false,
+      })
+      expect(mockPush).toHaveBeenCalledWith('/feed')
+    })
+    expect(mockStartAuthentication).toHaveBeenCalledWith({ challenge: 'auth-challenge' })
+  })
+
+  it('パスキーの選択をキャンセルした場合はエラーを表示する', async () => {
+    mockGetPasskeyLoginOptions.mockResolvedValue({ options: { challenge: 'auth-challenge' } })
+    mockStartAuthentication.mockRejectedValue(new Error('NotAllowedError'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const user = userEvent.setup()
+    render(<LoginForm />)
+
+    await user.click(screen.getByRole('button', { name: 'パスキーでログイン' }))
+
+    expect(await screen.findByText('パスキーでログインできませんでした')).toBeInTheDocument()
+    expect(mockSignIn).not.toHaveBeenCalled()
+  })
+
+  /**
+   * 2段階認証でのパスキー
+   *
+   * パスキーを登録しているユーザーは、
+   * 認証コードの代わりにパスキーで2段階認証を完了できることを確認。
+   */
+  it('2段階認証をパスキーで完了できる', async () => {
+    mockCheck2FARequired.mockResolvedValue({ required: true, userId: 'user-1', passkeyAvailable: true })
+    mockSignIn.mockResolvedValue({ ok: true })
+    mockGetPasskey2FAOptions.mockResolvedValue({ options: { challenge: '2fa-challenge' } })
+    mockStartAuthentication.mockResolvedValue({ id: 'credential-1' })
+    mockVerify2FAPasskey.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<LoginForm />)
+
+    await user.type(getEmailInput(), 'test@example.com')
+    await user.type(getPasswordInput(), 'password123')
+    await user.click(screen.getByRole('button', { name: 'ログイン' }))
+    await user.click(await screen.findByRole('button', { name: 'パスキーで認証' }))
+
+    await waitFor(() => {
+      expect(mockVerify2FAPasskey).toHaveBeenCalledWith('user-1', { id: 'credential-1' })
+      expect(mockPush).toHaveBeenCalledWith('/feed')
+    })
+    expect(mockGetPasskey2FAOptions).toHaveBeenCalledWith('user-1')
+  })
+
+  it('パスキー未登録の場合は2段階認証にパスキーのボタンを表示しない', async () => {
+    mockCheck2FARequired.mockResolvedValue({ required: true, userId: 'user-1', passkeyAvailable: false })
+    mockSignIn.mockResolvedValue({ ok: true })
+    const user = userEvent.setup()
+    render(<LoginForm />)
+
+    await user.type(getEmailInput(), 'test@example.com')
+    await user.type(getPasswordInput(), 'password123')
+    await user.click(screen.getByRole('button', { name: 'ログイン' }))
+
+    expect(await screen.findByText('2段階認証')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'パスキーで認証' })).not.toBeInTheDocument()
+  })
+
   // --------------------------------------------------------------------------
   // プレースホルダーテスト
   // --------------------------------------------------------------------------
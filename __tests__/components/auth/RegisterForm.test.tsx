@@ -181,6 +181,7 @@ describe('RegisterForm', () => {
       expect(mockSignIn).toHaveBeenCalledWith('credentials', {
         email: 'test@example.com',
         password: 'password123',
+        fingerprint: expect.any(String),
         redirect: false,
       })
     })
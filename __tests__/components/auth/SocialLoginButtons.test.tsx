@@ -0,0 +1,76 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons'
+
+// Next-Auth モック
+const mockSignIn = jest.fn()
+jest.mock('next-auth/react', () => ({
+  signIn: (...args: unknown[]) => mockSignIn(...args),
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({ data: null, status: 'unauthenticated' }),
+}))
+
+// フィンガープリントモック
+jest.mock('@/lib/fingerprint', () => ({
+  getFingerprintWithCache: jest.fn().mockResolvedValue('mock-fingerprint-123'),
+}))
+
+// Server Actionモック
+const mockPrepareSocialSignIn = jest.fn()
+jest.mock('@/lib/actions/social-login', () => ({
+  prepareSocialSignIn: (...args: unknown[]) => mockPrepareSocialSignIn(...args),
+}))
+
+const providers = [
+  { id: 'line', label: 'LINE' },
+  { id: 'google', label: 'Google' },
+]
+
+describe('SocialLoginButtons', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrepareSocialSignIn.mockResolvedValue({ success: true })
+  })
+
+  it('有効なプロバイダーのボタンを表示する', () => {
+    render(<SocialLoginButtons providers={providers} />)
+
+    expect(screen.getByRole('button', { name: 'LINEでログイン' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Googleでログイン' })).toBeInTheDocument()
+  })
+
+  it('有効なプロバイダーがない場合は何も表示しない', () => {
+    const { container } = render(<SocialLoginButtons providers={[]} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('デバイスを確認してからプロバイダーのログインへ移動する', async () => {
+    const user = userEvent.setup()
+    render(<SocialLoginButtons providers={providers} />)
+
+    await user.click(screen.getByRole('button', { name: 'LINEでログイン' }))
+
+    await waitFor(() => {
+      expect(mockSignIn).toHaveBeenCalledWith('line', { redirectTo: '/feed' })
+    })
+    expect(mockPrepareSocialSignIn).toHaveBeenCalledWith('mock-fingerprint-123')
+  })
+
+  it('ブラックリストのデバイスではログインへ移動しない', async () => {
+    const user = userEvent.setup()
+    mockPrepareSocialSignIn.mockResolvedValue({ error: 'このデバイスからのログインは許可されていません' })
+    render(<SocialLoginButtons providers={providers} />)
+
+    await user.click(screen.getByRole('button', { name: 'Googleでログイン' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('このデバイスからのログインは許可されていません')).toBeInTheDocument()
+    })
+    expect(mockSignIn).not.toHaveBeenCalled()
+  })
+
+  it('エラーコードのメッセージを表示する', () => {
+    render(<SocialLoginButtons providers={providers} errorCode="AccountSuspended" />)
+    expect(screen.getByText('このアカウントは停止されています')).toBeInTheDocument()
+  })
+})
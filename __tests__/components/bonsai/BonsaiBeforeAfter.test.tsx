@@ -0,0 +1,90 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { BonsaiBeforeAfter } from '@/components/bonsai/BonsaiBeforeAfter'
+
+// Next.js navigation モック
+const mockPush = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    refresh: jest.fn(),
+  }),
+}))
+
+// Server Actions モック
+const mockCreatePost = jest.fn()
+jest.mock('@/lib/actions/post', () => ({
+  createPost: (...args: unknown[]) => mockCreatePost(...args),
+}))
+
+const mockImages = [
+  { id: 'img-2', url: 'https://example.com/after.jpg', recordAt: new Date('2026-10-01') },
+  { id: 'img-1', url: 'https://example.com/before.jpg', recordAt: new Date('2026-03-20') },
+]
+
+describe('BonsaiBeforeAfter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('画像が2枚未満の場合は何も表示しない', () => {
+    const { container } = render(
+      <BonsaiBeforeAfter bonsaiId="bonsai-1" bonsaiName="黒松" images={[mockImages[0]]} isOwner={true} />
+    )
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('最も古い画像をビフォー、最も新しい画像をアフターとして表示する', () => {
+    render(<BonsaiBeforeAfter bonsaiId="bonsai-1" bonsaiName="黒松" images={mockImages} isOwner={false} />)
+
+    expect(screen.getByLabelText('ビフォー')).toHaveValue('img-1')
+    expect(screen.getByLabelText('アフター')).toHaveValue('img-2')
+    expect(screen.getByLabelText('比較位置')).toBeInTheDocument()
+  })
+
+  it('左右に並べる表示に切り替えられる', async () => {
+    const user = userEvent.setup()
+    render(<BonsaiBeforeAfter bonsaiId="bonsai-1" bonsaiName="黒松" images={mockImages} isOwner={false} />)
+
+    await user.click(screen.getByRole('button', { name: '左右に並べる' }))
+
+    expect(screen.queryByLabelText('比較位置')).not.toBeInTheDocument()
+    expect(screen.getByText(`ビフォー: ${new Date('2026-03-20').toLocaleDateString('ja-JP')}`)).toBeInTheDocument()
+  })
+
+  it('所有者でない場合は共有ボタンを表示しない', () => {
+    render(<BonsaiBeforeAfter bonsaiId="bonsai-1" bonsaiName="黒松" images={mockImages} isOwner={false} />)
+    expect(screen.queryByRole('button', { name: 'ビフォーアフターを投稿で共有' })).not.toBeInTheDocument()
+  })
+
+  it('盆栽に紐づけた投稿として共有し、投稿ページへ遷移する', async () => {
+    mockCreatePost.mockResolvedValue({ success: true, postId: 'post-1' })
+    const user = userEvent.setup()
+    render(<BonsaiBeforeAfter bonsaiId="bonsai-1" bonsaiName="黒松" images={mockImages} isOwner={true} />)
+
+    await user.click(screen.getByRole('button', { name: 'ビフォーアフターを投稿で共有' }))
+    expect(screen.getByLabelText('投稿の本文')).toHaveValue(
+      `黒松のビフォーアフター（${new Date('2026-03-20').toLocaleDateString('ja-JP')} → ${new Date('2026-10-01').toLocaleDateString('ja-JP')}）`
+    )
+    await user.click(screen.getByRole('button', { name: '投稿する' }))
+
+    await waitFor(() => {
+      expect(mockPush).toHaveBeenCalledWith('/posts/post-1')
+    })
+    const formData = mockCreatePost.mock.calls[0][0] as FormData
+    expect(formData.getAll('mediaUrls')).toEqual(['https://example.com/before.jpg', 'https://example.com/after.jpg'])
+    expect(formData.get('bonsaiId')).toBe('bonsai-1')
+  })
+
+  it('共有に失敗した場合はエラーを表示する', async () => {
+    mockCreatePost.mockResolvedValue({ error: '1日の投稿上限（20件）に達しました' })
+    const user = userEvent.setup()
+    render(<BonsaiBeforeAfter bonsaiId="bonsai-1" bonsaiName="黒松" images={mockImages} isOwner={true} />)
+
+    await user.click(screen.getByRole('button', { name: 'ビフォーアフターを投稿で共有' }))
+    await user.click(screen.getByRole('button', { name: '投稿する' }))
+
+    expect(await screen.findByText('1日の投稿上限（20件）に達しました')).toBeInTheDocument()
+    expect(mockPush).not.toHaveBeenCalled()
+  })
+})
@@ -31,6 +31,11 @@ jest.mock('@/lib/actions/bonsai', () => ({
   updateBonsai: (...args: unknown[]) => mockUpdateBonsai(...args),
 }))
 
+const mockSearchBonsaiSpecies = jest.fn()
+jest.mock('@/lib/actions/species', () => ({
+  searchBonsaiSpecies: (...args: unknown[]) => mockSearchBonsaiSpecies(...args),
+}))
+
 describe('BonsaiForm', () => {
   beforeEach(() => {
     jest.clearAllMocks()
@@ -73,19 +78,59 @@ describe('BonsaiForm', () => {
     expect(mockBack).toHaveBeenCalled()
   })
 
-  it('樹種選択に松柏類がある', () => {
+  it('樹種を入力すると樹種図鑑の候補を表示する', async () => {
+    mockSearchBonsaiSpecies.mockResolvedValue({
+      species: [
+        { id: 'species-kuromatsu', name: '黒松', nameKana: 'くろまつ', scientificName: 'Pinus thunbergii', category: 'conifer' },
+      ],
+    })
+    const user = userEvent.setup()
+    render(<BonsaiForm />)
+
+    await user.type(screen.getByLabelText(/樹種/), 'クロ')
+
+    expect(await screen.findByText('黒松')).toBeInTheDocument()
+    expect(screen.getByText('くろまつ・松柏')).toBeInTheDocument()
+    expect(mockSearchBonsaiSpecies).toHaveBeenLastCalledWith('クロ')
+  })
+
+  it('候補を選ぶと樹種名が入力され、登録時に送信される', async () => {
+    mockSearchBonsaiSpecies.mockResolvedValue({
+      species: [
+        { id: 'species-kuromatsu', name: '黒松', nameKana: 'くろまつ', scientificName: 'Pinus thunbergii', category: 'conifer' },
+      ],
+    })
+    mockCreateBonsai.mockResolvedValue({ bonsai: { id: 'new-bonsai-id' } })
+    const user = userEvent.setup()
     render(<BonsaiForm />)
-    const speciesSelect = screen.getByLabelText(/樹種/)
-    expect(speciesSelect).toBeInTheDocument()
-    // optgroup内のオプションを確認
-    expect(screen.getByText('黒松')).toBeInTheDocument()
-    expect(screen.getByText('五葉松')).toBeInTheDocument()
+
+    await user.type(screen.getByLabelText(/名前/), '新しい盆栽')
+    await user.type(screen.getByLabelText(/樹種/), 'クロ')
+    await user.click(await screen.findByRole('button', { name: /黒松/ }))
+
+    expect(screen.getByLabelText(/樹種/)).toHaveValue('黒松')
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '登録' }))
+
+    await waitFor(() => {
+      expect(mockCreateBonsai).toHaveBeenCalledWith(expect.objectContaining({ species: '黒松' }))
+    })
   })
 
-  it('樹種選択に雑木類がある', () => {
+  it('候補にない樹種も自由に入力できる', async () => {
+    mockSearchBonsaiSpecies.mockResolvedValue({ species: [] })
+    mockCreateBonsai.mockResolvedValue({ bonsai: { id: 'new-bonsai-id' } })
+    const user = userEvent.setup()
     render(<BonsaiForm />)
-    expect(screen.getByText('紅葉')).toBeInTheDocument()
-    expect(screen.getByText('欅')).toBeInTheDocument()
+
+    await user.type(screen.getByLabelText(/名前/), '新しい盆栽')
+    await user.type(screen.getByLabelText(/樹種/), '姫沙羅')
+    await user.click(screen.getByRole('button', { name: '登録' }))
+
+    await waitFor(() => {
+      expect(mockCreateBonsai).toHaveBeenCalledWith(expect.objectContaining({ species: '姫沙羅' }))
+    })
   })
 
   it('新規作成でServer Actionが呼ばれる', async () => {
@@ -0,0 +1,36 @@
+import { render, screen } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { BonsaiGrowthChart } from '@/components/bonsai/BonsaiGrowthChart'
+
+const mockRecords = [
+  { type: 'measurement', recordAt: new Date('2026-10-01'), heightCm: 34.5, trunkDiameterCm: 5 },
+  { type: 'general', recordAt: new Date('2026-06-01') },
+  { type: 'measurement', recordAt: new Date('2026-04-01'), heightCm: 30, trunkDiameterCm: null },
+]
+
+describe('BonsaiGrowthChart', () => {
+  it('最新の計測値と最初の計測からの増減を表示する', () => {
+    render(<BonsaiGrowthChart records={mockRecords} />)
+    expect(screen.getByText('34.5cm')).toBeInTheDocument()
+    expect(screen.getByText(/\+4\.5cm/)).toBeInTheDocument()
+  })
+
+  it('指標を切り替えられる', async () => {
+    const user = userEvent.setup()
+    render(<BonsaiGrowthChart records={mockRecords} />)
+
+    await user.click(screen.getByRole('button', { name: '幹径' }))
+
+    expect(screen.getByRole('button', { name: '幹径' })).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByText('5cm')).toBeInTheDocument()
+  })
+
+  it('計測値が2件未満の場合は案内を表示する', async () => {
+    const user = userEvent.setup()
+    render(<BonsaiGrowthChart records={mockRecords} />)
+
+    await user.click(screen.getByRole('button', { name: '根張り' }))
+
+    expect(screen.getByText(/2件以上になるとグラフが表示されます/)).toBeInTheDocument()
+  })
+})
@@ -70,7 +70,43 @@ describe('BonsaiRecordForm', () => {
     await waitFor(() => {
       expect(mockAddBonsaiRecord).toHaveBeenCalledWith({
         bonsaiId: 'bonsai-1',
+        type: 'general',
         content: '剪定を行いました',
+        details: undefined,
+        imageUrls: undefined,
+      })
+    })
+  })
+
+  it('記録の種類に応じた詳細項目を表示する', async () => {
+    const user = userEvent.setup()
+    render(<BonsaiRecordForm bonsaiId="bonsai-1" />)
+
+    expect(screen.queryByLabelText('用土')).not.toBeInTheDocument()
+
+    await user.selectOptions(screen.getByLabelText('記録の種類'), 'repotting')
+
+    expect(screen.getByLabelText('用土')).toBeInTheDocument()
+    expect(screen.getByLabelText('鉢')).toBeInTheDocument()
+  })
+
+  it('計測記録はテキストなしで数値を送信できる', async () => {
+    mockAddBonsaiRecord.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<BonsaiRecordForm bonsaiId="bonsai-1" />)
+
+    await user.selectOptions(screen.getByLabelText('記録の種類'), 'measurement')
+    expect(screen.getByRole('button', { name: '記録する' })).not.toBeDisabled()
+
+    await user.type(screen.getByLabelText('樹高（cm）'), '32.5')
+    await user.click(screen.getByRole('button', { name: '記録する' }))
+
+    await waitFor(() => {
+      expect(mockAddBonsaiRecord).toHaveBeenCalledWith({
+        bonsaiId: 'bonsai-1',
+        type: 'measurement',
+        content: undefined,
+        details: { heightCm: 32.5 },
         imageUrls: undefined,
       })
     })
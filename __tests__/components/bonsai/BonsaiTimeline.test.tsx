@@ -142,4 +142,52 @@ describe('BonsaiTimeline', () => {
       expect(modal).toBeInTheDocument()
     })
   })
+
+  describe('記録の種類', () => {
+    const typedRecords = [
+      {
+        id: 'record-2',
+        type: 'measurement',
+        content: null,
+        heightCm: 32.5,
+        trunkDiameterCm: null,
+        recordAt: new Date('2026-10-10'),
+        createdAt: new Date('2026-10-10'),
+        images: [],
+      },
+      {
+        id: 'record-3',
+        type: 'repotting',
+        content: '根を1/3整理',
+        soilMix: '赤玉土7・桐生砂3',
+        recordAt: new Date('2026-03-20'),
+        createdAt: new Date('2026-03-20'),
+        images: [],
+      },
+    ]
+
+    it('種類のラベルと作業の詳細を表示する', () => {
+      render(<BonsaiTimeline records={typedRecords} posts={[]} isOwner={false} />)
+      expect(screen.getByText('樹高: 32.5cm')).toBeInTheDocument()
+      expect(screen.getByText('用土: 赤玉土7・桐生砂3')).toBeInTheDocument()
+      expect(screen.queryByText(/幹径/)).not.toBeInTheDocument()
+    })
+
+    it('種類で絞り込むと該当する記録と最終実施日を表示する', async () => {
+      const user = userEvent.setup()
+      render(<BonsaiTimeline records={[...mockRecords, ...typedRecords]} posts={mockPosts} isOwner={false} />)
+
+      await user.click(screen.getByRole('button', { name: '植え替え' }))
+
+      expect(screen.getByText('根を1/3整理')).toBeInTheDocument()
+      expect(screen.queryByText('葉が色づいてきた')).not.toBeInTheDocument()
+      expect(screen.queryByText('今日の盆栽です')).not.toBeInTheDocument()
+      expect(screen.getByText(`最終: ${new Date('2026-03-20').toLocaleDateString('ja-JP')}`)).toBeInTheDocument()
+    })
+
+    it('種類が1つだけの場合は絞り込みを表示しない', () => {
+      render(<BonsaiTimeline records={mockRecords} posts={mockPosts} isOwner={false} />)
+      expect(screen.queryByRole('button', { name: 'すべて' })).not.toBeInTheDocument()
+    })
+  })
 })
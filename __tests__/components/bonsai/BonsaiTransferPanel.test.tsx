@@ -0,0 +1,100 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { BonsaiTransferPanel } from '@/components/bonsai/BonsaiTransferPanel'
+
+// Next.js navigation モック
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}))
+
+// Server Actions モック
+const mockOfferBonsaiTransfer = jest.fn()
+const mockCancelBonsaiTransfer = jest.fn()
+jest.mock('@/lib/actions/bonsai-transfer', () => ({
+  offerBonsaiTransfer: (...args: unknown[]) => mockOfferBonsaiTransfer(...args),
+  cancelBonsaiTransfer: (...args: unknown[]) => mockCancelBonsaiTransfer(...args),
+}))
+
+const mockGetShops = jest.fn()
+jest.mock('@/lib/actions/shop', () => ({
+  getShops: (...args: unknown[]) => mockGetShops(...args),
+}))
+
+const mockSearchMentionUsers = jest.fn()
+jest.mock('@/lib/actions/mention', () => ({
+  searchMentionUsers: (...args: unknown[]) => mockSearchMentionUsers(...args),
+}))
+
+// window.confirm モック
+const originalConfirm = window.confirm
+beforeAll(() => {
+  window.confirm = jest.fn(() => true)
+})
+afterAll(() => {
+  window.confirm = originalConfirm
+})
+
+describe('BonsaiTransferPanel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('譲渡先を選んで申し込める', async () => {
+    mockSearchMentionUsers.mockResolvedValue([{ id: 'user-2', nickname: '盆栽太郎', avatarUrl: null }])
+    mockOfferBonsaiTransfer.mockResolvedValue({ transfer: { id: 'transfer-1' } })
+    const user = userEvent.setup()
+    render(<BonsaiTransferPanel bonsaiId="bonsai-1" pendingTransfer={null} />)
+
+    await user.click(screen.getByRole('button', { name: 'この盆栽を譲る' }))
+    expect(screen.getByRole('button', { name: '譲渡を申し込む' })).toBeDisabled()
+
+    await user.type(screen.getByPlaceholderText('ユーザーを検索'), '盆栽')
+    await user.click(await screen.findByRole('button', { name: '盆栽太郎' }))
+    await user.type(screen.getByLabelText(/メモ/), '15年培養')
+    await user.click(screen.getByRole('button', { name: '譲渡を申し込む' }))
+
+    await waitFor(() => {
+      expect(mockOfferBonsaiTransfer).toHaveBeenCalledWith('bonsai-1', {
+        toUserId: 'user-2',
+        shopId: null,
+        note: '15年培養',
+      })
+    })
+    expect(mockRefresh).toHaveBeenCalled()
+  })
+
+  it('申し込みに失敗した場合はエラーを表示する', async () => {
+    mockSearchMentionUsers.mockResolvedValue([{ id: 'user-2', nickname: '盆栽太郎', avatarUrl: null }])
+    mockOfferBonsaiTransfer.mockResolvedValue({ error: 'この盆栽は既に譲渡を申し込み中です' })
+    const user = userEvent.setup()
+    render(<BonsaiTransferPanel bonsaiId="bonsai-1" pendingTransfer={null} />)
+
+    await user.click(screen.getByRole('button', { name: 'この盆栽を譲る' }))
+    await user.type(screen.getByPlaceholderText('ユーザーを検索'), '盆栽')
+    await user.click(await screen.findByRole('button', { name: '盆栽太郎' }))
+    await user.click(screen.getByRole('button', { name: '譲渡を申し込む' }))
+
+    expect(await screen.findByText('この盆栽は既に譲渡を申し込み中です')).toBeInTheDocument()
+  })
+
+  it('申し込み中の場合は譲渡先と取り消しボタンを表示する', async () => {
+    mockCancelBonsaiTransfer.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(
+      <BonsaiTransferPanel
+        bonsaiId="bonsai-1"
+        pendingTransfer={{ id: 'transfer-1', toUser: { id: 'user-2', nickname: '盆栽太郎' } }}
+      />
+    )
+
+    expect(screen.getByText('盆栽太郎')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: '申し込みを取り消す' }))
+
+    await waitFor(() => {
+      expect(mockCancelBonsaiTransfer).toHaveBeenCalledWith('transfer-1')
+    })
+  })
+})
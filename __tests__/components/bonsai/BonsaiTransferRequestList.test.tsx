@@ -0,0 +1,96 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { BonsaiTransferRequestList } from '@/components/bonsai/BonsaiTransferRequestList'
+
+// Next.js navigation モック
+const mockPush = jest.fn()
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    refresh: mockRefresh,
+  }),
+}))
+
+// Server Actions モック
+const mockAcceptBonsaiTransfer = jest.fn()
+const mockDeclineBonsaiTransfer = jest.fn()
+jest.mock('@/lib/actions/bonsai-transfer', () => ({
+  acceptBonsaiTransfer: (...args: unknown[]) => mockAcceptBonsaiTransfer(...args),
+  declineBonsaiTransfer: (...args: unknown[]) => mockDeclineBonsaiTransfer(...args),
+}))
+
+// window.confirm モック
+const originalConfirm = window.confirm
+beforeAll(() => {
+  window.confirm = jest.fn(() => true)
+})
+afterAll(() => {
+  window.confirm = originalConfirm
+})
+
+const mockTransfers = [
+  {
+    id: 'transfer-1',
+    note: '15年培養しました',
+    createdAt: new Date(),
+    bonsai: { id: 'bonsai-1', name: '黒松', species: '黒松', _count: { records: 42 } },
+    fromUser: { id: 'user-1', nickname: '盆栽花子' },
+    shop: { id: 'shop-1', name: '大宮盆栽園' },
+  },
+]
+
+describe('BonsaiTransferRequestList', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('申し込みがない場合は空状態メッセージを表示する', () => {
+    render(<BonsaiTransferRequestList transfers={[]} />)
+    expect(screen.getByText('届いている譲渡の申し込みはありません')).toBeInTheDocument()
+  })
+
+  it('申し込みの内容を表示する', () => {
+    render(<BonsaiTransferRequestList transfers={mockTransfers} />)
+    expect(screen.getByRole('link', { name: '盆栽花子' })).toHaveAttribute('href', '/users/user-1')
+    expect(screen.getByRole('link', { name: '大宮盆栽園' })).toHaveAttribute('href', '/shops/shop-1')
+    expect(screen.getByText(/成長記録42件/)).toBeInTheDocument()
+    expect(screen.getByText('15年培養しました')).toBeInTheDocument()
+  })
+
+  it('受け取ると盆栽の詳細ページへ遷移する', async () => {
+    mockAcceptBonsaiTransfer.mockResolvedValue({ success: true, bonsaiId: 'bonsai-1' })
+    const user = userEvent.setup()
+    render(<BonsaiTransferRequestList transfers={mockTransfers} />)
+
+    await user.click(screen.getByRole('button', { name: '受け取る' }))
+
+    await waitFor(() => {
+      expect(mockPush).toHaveBeenCalledWith('/bonsai/bonsai-1')
+    })
+    expect(mockAcceptBonsaiTransfer).toHaveBeenCalledWith('transfer-1')
+  })
+
+  it('辞退するとページを更新する', async () => {
+    mockDeclineBonsaiTransfer.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<BonsaiTransferRequestList transfers={mockTransfers} />)
+
+    await user.click(screen.getByRole('button', { name: '辞退する' }))
+
+    await waitFor(() => {
+      expect(mockRefresh).toHaveBeenCalled()
+    })
+  })
+
+  it('受け取りに失敗した場合はエラーを表示する', async () => {
+    mockAcceptBonsaiTransfer.mockResolvedValue({ error: 'この申し込みは無効になっています' })
+    const user = userEvent.setup()
+    render(<BonsaiTransferRequestList transfers={mockTransfers} />)
+
+    await user.click(screen.getByRole('button', { name: '受け取る' }))
+
+    expect(await screen.findByText('この申し込みは無効になっています')).toBeInTheDocument()
+    expect(mockPush).not.toHaveBeenCalled()
+  })
+})
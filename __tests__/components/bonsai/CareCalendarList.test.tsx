@@ -0,0 +1,52 @@
+import { render, screen } from '../../utils/test-utils'
+import { CareCalendarList, type CareCalendarItem } from '@/components/bonsai/CareCalendarList'
+
+// Next-Auth モック
+jest.mock('next-auth/react', () => ({
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({
+    data: { user: { id: 'test-user-id' } },
+    status: 'authenticated',
+  }),
+}))
+
+const items: CareCalendarItem[] = [
+  {
+    id: 'repotting',
+    label: '植え替え',
+    note: '芽が動き出す前が適期。',
+    start: new Date(2026, 2, 1),
+    end: new Date(2026, 3, 10),
+    bonsais: [
+      { id: 'bonsai-1', name: '真柏A', speciesName: '真柏' },
+      { id: 'bonsai-2', name: 'もみじ', speciesName: 'もみじ' },
+      { id: 'bonsai-3', name: '欅', speciesName: '欅' },
+    ],
+  },
+]
+
+describe('CareCalendarList', () => {
+  it('作業名・適期・ポイント・対象の盆栽へのリンクを表示する', () => {
+    render(<CareCalendarList items={items} />)
+
+    expect(screen.getByText('植え替え')).toBeInTheDocument()
+    expect(screen.getByText('3月1日〜4月10日')).toBeInTheDocument()
+    expect(screen.getByText('芽が動き出す前が適期。')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: '真柏A' })).toHaveAttribute('href', '/bonsai/bonsai-1')
+    expect(screen.getAllByRole('link')).toHaveLength(3)
+  })
+
+  it('compact 表示ではポイントを省略し、盆栽を絞って残りの数を表示する', () => {
+    render(<CareCalendarList items={items} compact />)
+
+    expect(screen.queryByText('芽が動き出す前が適期。')).not.toBeInTheDocument()
+    expect(screen.getAllByRole('link')).toHaveLength(2)
+    expect(screen.getByText(/ほか1鉢/)).toBeInTheDocument()
+  })
+
+  it('作業がない場合はメッセージを表示する', () => {
+    render(<CareCalendarList items={[]} />)
+
+    expect(screen.getByText('この時期に行う作業はありません')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,78 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { CareTaskForm } from '@/components/bonsai/CareTaskForm'
+
+// Next-Auth モック
+jest.mock('next-auth/react', () => ({
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({
+    data: { user: { id: 'test-user-id' } },
+    status: 'authenticated',
+  }),
+}))
+
+// Next.js navigation モック
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}))
+
+// Server Actions モック
+const mockCreateCareTask = jest.fn()
+jest.mock('@/lib/actions/care-task', () => ({
+  createCareTask: (...args: unknown[]) => mockCreateCareTask(...args),
+}))
+
+describe('CareTaskForm', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('作業・期日・繰り返しの入力欄を表示する', () => {
+    render(<CareTaskForm bonsaiId="bonsai-1" />)
+
+    expect(screen.getByLabelText('作業')).toBeInTheDocument()
+    expect(screen.getByLabelText('期日')).toBeInTheDocument()
+    expect(screen.getByLabelText('繰り返し')).toBeInTheDocument()
+    expect(screen.getByRole('option', { name: '針金外し' })).toBeInTheDocument()
+  })
+
+  it('入力内容でServer Actionが呼ばれる', async () => {
+    mockCreateCareTask.mockResolvedValue({ task: { id: 'task-1' } })
+    const onCreated = jest.fn()
+    const user = userEvent.setup()
+    render(<CareTaskForm bonsaiId="bonsai-1" onCreated={onCreated} />)
+
+    await user.selectOptions(screen.getByLabelText('作業'), 'fertilizing')
+    await user.clear(screen.getByLabelText('期日'))
+    await user.type(screen.getByLabelText('期日'), '2026-11-01')
+    await user.selectOptions(screen.getByLabelText('繰り返し'), '30')
+    await user.type(screen.getByLabelText('メモ'), '玉肥を4個')
+    await user.click(screen.getByLabelText('期日にメールでも知らせる'))
+    await user.click(screen.getByRole('button', { name: '予定を追加' }))
+
+    await waitFor(() => {
+      expect(mockCreateCareTask).toHaveBeenCalledWith('bonsai-1', {
+        type: 'fertilizing',
+        dueAt: new Date('2026-11-01T00:00:00'),
+        intervalDays: 30,
+        note: '玉肥を4個',
+        emailReminder: true,
+      })
+    })
+    expect(onCreated).toHaveBeenCalled()
+    expect(mockRefresh).toHaveBeenCalled()
+  })
+
+  it('エラー時にエラーメッセージを表示する', async () => {
+    mockCreateCareTask.mockResolvedValue({ error: 'お手入れ予定は1つの盆栽につき20件までです' })
+    const user = userEvent.setup()
+    render(<CareTaskForm bonsaiId="bonsai-1" />)
+
+    await user.click(screen.getByRole('button', { name: '予定を追加' }))
+
+    expect(await screen.findByText('お手入れ予定は1つの盆栽につき20件までです')).toBeInTheDocument()
+  })
+})
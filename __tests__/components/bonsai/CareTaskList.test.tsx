@@ -0,0 +1,124 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { CareTaskList } from '@/components/bonsai/CareTaskList'
+
+// Next-Auth モック
+jest.mock('next-auth/react', () => ({
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({
+    data: { user: { id: 'test-user-id' } },
+    status: 'authenticated',
+  }),
+}))
+
+// Next.js navigation モック
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}))
+
+// Server Actions モック
+const mockCompleteCareTask = jest.fn()
+const mockDeleteCareTask = jest.fn()
+jest.mock('@/lib/actions/care-task', () => ({
+  completeCareTask: (...args: unknown[]) => mockCompleteCareTask(...args),
+  deleteCareTask: (...args: unknown[]) => mockDeleteCareTask(...args),
+  createCareTask: jest.fn(),
+}))
+
+/**
+ * 今日から指定日数後の0時
+ */
+function daysFromToday(days: number) {
+  const date = new Date()
+  date.setHours(0, 0, 0, 0)
+  date.setDate(date.getDate() + days)
+  return date
+}
+
+const tasks = [
+  {
+    id: 'task-1',
+    type: 'wire_removal',
+    note: '一の枝の食い込みに注意',
+    intervalDays: null,
+    dueAt: daysFromToday(-2),
+    emailReminder: true,
+  },
+  {
+    id: 'task-2',
+    type: 'watering',
+    note: null,
+    intervalDays: 7,
+    dueAt: daysFromToday(1),
+    emailReminder: false,
+  },
+]
+
+describe('CareTaskList', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('予定を期日ラベル付きで表示する', () => {
+    render(<CareTaskList tasks={tasks} />)
+
+    expect(screen.getByText('針金外し')).toBeInTheDocument()
+    expect(screen.getByText(/2日遅れ/)).toBeInTheDocument()
+    expect(screen.getByText('一の枝の食い込みに注意')).toBeInTheDocument()
+    expect(screen.getByText('水やり')).toBeInTheDocument()
+    expect(screen.getByText(/明日/)).toBeInTheDocument()
+    expect(screen.getByText(/毎週/)).toBeInTheDocument()
+  })
+
+  it('予定がない場合はメッセージを表示する', () => {
+    render(<CareTaskList tasks={[]} />)
+
+    expect(screen.getByText('お手入れ予定はありません')).toBeInTheDocument()
+  })
+
+  it('完了ボタンでServer Actionが呼ばれる', async () => {
+    mockCompleteCareTask.mockResolvedValue({ record: { id: 'record-1' }, nextDueAt: null })
+    const user = userEvent.setup()
+    render(<CareTaskList tasks={tasks} />)
+
+    await user.click(screen.getAllByRole('button', { name: '完了' })[0])
+
+    await waitFor(() => {
+      expect(mockCompleteCareTask).toHaveBeenCalledWith('task-1')
+    })
+    expect(mockRefresh).toHaveBeenCalled()
+  })
+
+  it('確認後に予定を削除する', async () => {
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+    mockDeleteCareTask.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<CareTaskList tasks={tasks} />)
+
+    await user.click(screen.getByRole('button', { name: '水やりの予定を削除' }))
+
+    await waitFor(() => {
+      expect(mockDeleteCareTask).toHaveBeenCalledWith('task-2')
+    })
+  })
+
+  it('盆栽情報がある場合は盆栽詳細へのリンクを表示する', () => {
+    render(<CareTaskList tasks={[{ ...tasks[0], bonsai: { id: 'bonsai-1', name: '黒松' } }]} />)
+
+    expect(screen.getByRole('link', { name: '黒松' })).toHaveAttribute('href', '/bonsai/bonsai-1')
+  })
+
+  it('盆栽IDがある場合のみ追加フォームを開ける', async () => {
+    const user = userEvent.setup()
+    const { rerender } = render(<CareTaskList tasks={tasks} />)
+    expect(screen.queryByText('＋ お手入れ予定を追加')).not.toBeInTheDocument()
+
+    rerender(<CareTaskList tasks={tasks} bonsaiId="bonsai-1" />)
+    await user.click(screen.getByText('＋ お手入れ予定を追加'))
+
+    expect(screen.getByRole('button', { name: '予定を追加' })).toBeInTheDocument()
+  })
+})
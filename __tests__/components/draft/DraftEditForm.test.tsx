@@ -62,6 +62,7 @@ describe('DraftEditForm', () => {
     genres: [
       { genreId: 'genre-1', genre: { id: 'genre-1', name: '松柏類' } },
     ],
+    audience: 'public',
   }
 
   const mockGenres = {
@@ -162,6 +163,7 @@ describe('DraftEditForm', () => {
           content: 'テスト下書き',
           mediaUrls: [],
           genreIds: ['genre-1'],
+          audience: 'public',
         })
       })
     })
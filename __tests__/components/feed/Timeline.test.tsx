@@ -8,6 +8,7 @@ jest.mock('@/lib/db', () => ({
 // すべてのServer Actionsをモック
 jest.mock('@/lib/actions/feed', () => ({
   getTimeline: jest.fn().mockResolvedValue({ posts: [], nextCursor: undefined }),
+  getForYouFeed: jest.fn().mockResolvedValue({ posts: [], nextCursor: undefined }),
 }))
 jest.mock('@/lib/actions/post', () => ({
   createPost: jest.fn(),
@@ -30,6 +31,8 @@ jest.mock('@/components/report/ReportButton', () => ({
 }))
 
 import { Timeline } from '@/components/feed/Timeline'
+import userEvent from '@testing-library/user-event'
+import { useInfiniteQuery } from '@tanstack/react-query'
 
 // Next-Auth モック
 jest.mock('next-auth/react', () => ({
@@ -143,4 +146,33 @@ describe('Timeline', () => {
       expect(screen.getByText(/すべての投稿を表示しました/)).toBeInTheDocument()
     })
   })
+
+  it('初期表示では「フォロー中」タブが選択されている', () => {
+    render(<Timeline initialPosts={mockPosts} currentUserId="test-user-id" />)
+
+    expect(screen.getByRole('tab', { name: 'フォロー中' })).toHaveAttribute('aria-selected', 'true')
+    expect(screen.getByRole('tab', { name: 'おすすめ' })).toHaveAttribute('aria-selected', 'false')
+  })
+
+  it('「おすすめ」タブに切り替えると、おすすめフィードを取得する', async () => {
+    const user = userEvent.setup()
+    render(<Timeline initialPosts={mockPosts} currentUserId="test-user-id" />)
+
+    await user.click(screen.getByRole('tab', { name: 'おすすめ' }))
+
+    expect(screen.getByRole('tab', { name: 'おすすめ' })).toHaveAttribute('aria-selected', 'true')
+    expect(useInfiniteQuery).toHaveBeenLastCalledWith(
+      expect.objectContaining({ queryKey: ['timeline', 'forYou'], initialData: undefined })
+    )
+    expect(screen.getByText('おすすめできる投稿はまだありません')).toBeInTheDocument()
+  })
+
+  it('フォロー中の投稿がない場合、空状態から「おすすめ」に切り替えられる', async () => {
+    const user = userEvent.setup()
+    render(<Timeline initialPosts={[]} currentUserId="test-user-id" />)
+
+    await user.click(screen.getByRole('button', { name: 'おすすめの投稿を見る' }))
+
+    expect(screen.getByRole('tab', { name: 'おすすめ' })).toHaveAttribute('aria-selected', 'true')
+  })
 })
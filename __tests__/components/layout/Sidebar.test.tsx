@@ -190,6 +190,7 @@ describe('Sidebar', () => {
     expect(screen.getByRole('link', { name: /メッセージ/ })).toHaveAttribute('href', '/messages')
     expect(screen.getByRole('link', { name: /ブックマーク/ })).toHaveAttribute('href', '/bookmarks')
     expect(screen.getByRole('link', { name: /マイ盆栽/ })).toHaveAttribute('href', '/bonsai')
+    expect(screen.getByRole('link', { name: /樹種図鑑/ })).toHaveAttribute('href', '/species')
     expect(screen.getByRole('link', { name: /盆栽園マップ/ })).toHaveAttribute('href', '/shops')
     expect(screen.getByRole('link', { name: /イベント/ })).toHaveAttribute('href', '/events')
     expect(screen.getByRole('link', { name: /設定/ })).toHaveAttribute('href', '/settings')
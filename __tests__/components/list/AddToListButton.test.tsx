@@ -0,0 +1,83 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { AddToListButton } from '@/components/list/AddToListButton'
+
+// Server Action モック
+const mockGetListsForMember = jest.fn()
+const mockAddListMember = jest.fn()
+const mockRemoveListMember = jest.fn()
+jest.mock('@/lib/actions/list', () => ({
+  getListsForMember: (...args: unknown[]) => mockGetListsForMember(...args),
+  addListMember: (...args: unknown[]) => mockAddListMember(...args),
+  removeListMember: (...args: unknown[]) => mockRemoveListMember(...args),
+}))
+
+describe('AddToListButton', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('ボタンを押すと自分のリスト一覧を表示する', async () => {
+    mockGetListsForMember.mockResolvedValue({
+      lists: [
+        { id: 'list-1', name: '関西の盆栽園', isPublic: true, hasMember: false },
+        { id: 'list-2', name: '師匠たち', isPublic: false, hasMember: true },
+      ],
+    })
+    const user = userEvent.setup()
+    render(<AddToListButton userId="user-1" />)
+
+    await user.click(screen.getByRole('button', { name: 'リストに追加' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('関西の盆栽園')).toBeInTheDocument()
+    })
+    expect(mockGetListsForMember).toHaveBeenCalledWith('user-1')
+    expect(screen.getByText('非公開')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '追加' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '削除' })).toBeInTheDocument()
+  })
+
+  it('「追加」でリストに追加し、表示を切り替える', async () => {
+    mockGetListsForMember.mockResolvedValue({
+      lists: [{ id: 'list-1', name: '関西の盆栽園', isPublic: true, hasMember: false }],
+    })
+    mockAddListMember.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<AddToListButton userId="user-1" />)
+
+    await user.click(screen.getByRole('button', { name: 'リストに追加' }))
+    await user.click(await screen.findByRole('button', { name: '追加' }))
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: '削除' })).toBeInTheDocument()
+    })
+    expect(mockAddListMember).toHaveBeenCalledWith('list-1', 'user-1')
+  })
+
+  it('エラー時はメッセージを表示する', async () => {
+    mockGetListsForMember.mockResolvedValue({
+      lists: [{ id: 'list-1', name: '関西の盆栽園', isPublic: true, hasMember: false }],
+    })
+    mockAddListMember.mockResolvedValue({ error: 'このユーザーはリストに追加できません' })
+    const user = userEvent.setup()
+    render(<AddToListButton userId="user-1" />)
+
+    await user.click(screen.getByRole('button', { name: 'リストに追加' }))
+    await user.click(await screen.findByRole('button', { name: '追加' }))
+
+    expect(await screen.findByText('このユーザーはリストに追加できません')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '追加' })).toBeInTheDocument()
+  })
+
+  it('リストがない場合は作成を案内する', async () => {
+    mockGetListsForMember.mockResolvedValue({ lists: [] })
+    const user = userEvent.setup()
+    render(<AddToListButton userId="user-1" />)
+
+    await user.click(screen.getByRole('button', { name: 'リストに追加' }))
+
+    const link = await screen.findByRole('link', { name: 'リストを作成' })
+    expect(link).toHaveAttribute('href', '/lists')
+  })
+})
@@ -0,0 +1,75 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { ListFollowButton } from '@/components/list/ListFollowButton'
+
+// Server Action モック
+const mockFollowList = jest.fn()
+const mockUnfollowList = jest.fn()
+jest.mock('@/lib/actions/list', () => ({
+  followList: (...args: unknown[]) => mockFollowList(...args),
+  unfollowList: (...args: unknown[]) => mockUnfollowList(...args),
+}))
+
+// useRouter モック
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}))
+
+// useToast モック
+const mockToast = jest.fn()
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}))
+
+describe('ListFollowButton', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('未フォローのリストをフォローできる', async () => {
+    mockFollowList.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<ListFollowButton listId="list-1" initialIsFollowing={false} />)
+
+    await user.click(screen.getByRole('button', { name: 'リストをフォロー' }))
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'フォロー中' })).toBeInTheDocument()
+    })
+    expect(mockFollowList).toHaveBeenCalledWith('list-1')
+    expect(mockRefresh).toHaveBeenCalled()
+  })
+
+  it('フォロー中のリストのフォローを解除できる', async () => {
+    mockUnfollowList.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<ListFollowButton listId="list-1" initialIsFollowing />)
+
+    await user.click(screen.getByRole('button', { name: 'フォロー中' }))
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'リストをフォロー' })).toBeInTheDocument()
+    })
+    expect(mockUnfollowList).toHaveBeenCalledWith('list-1')
+  })
+
+  it('エラー時はトーストを表示し状態を変えない', async () => {
+    mockFollowList.mockResolvedValue({ error: 'リストが見つかりません' })
+    const user = userEvent.setup()
+    render(<ListFollowButton listId="list-1" initialIsFollowing={false} />)
+
+    await user.click(screen.getByRole('button', { name: 'リストをフォロー' }))
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith(
+        expect.objectContaining({ description: 'リストが見つかりません', variant: 'destructive' })
+      )
+    })
+    expect(screen.getByRole('button', { name: 'リストをフォロー' })).toBeInTheDocument()
+  })
+})
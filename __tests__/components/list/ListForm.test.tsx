@@ -0,0 +1,97 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { ListForm } from '@/components/list/ListForm'
+
+// Server Action モック
+const mockCreateList = jest.fn()
+const mockUpdateList = jest.fn()
+const mockDeleteList = jest.fn()
+jest.mock('@/lib/actions/list', () => ({
+  createList: (...args: unknown[]) => mockCreateList(...args),
+  updateList: (...args: unknown[]) => mockUpdateList(...args),
+  deleteList: (...args: unknown[]) => mockDeleteList(...args),
+}))
+
+// useRouter モック
+const mockPush = jest.fn()
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    refresh: mockRefresh,
+  }),
+}))
+
+describe('ListForm', () => {
+  const list = { id: 'list-1', name: '関西の盆栽園', description: null, isPublic: true }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('リスト名が空の場合は作成ボタンが無効', () => {
+    render(<ListForm />)
+
+    expect(screen.getByRole('button', { name: 'リストを作成' })).toBeDisabled()
+  })
+
+  it('リストを作成してリストのページへ移動する', async () => {
+    mockCreateList.mockResolvedValue({ listId: 'list-1' })
+    const user = userEvent.setup()
+    render(<ListForm />)
+
+    await user.type(screen.getByLabelText('リスト名'), '関西の盆栽園')
+    await user.click(screen.getByRole('switch'))
+    await user.click(screen.getByRole('button', { name: 'リストを作成' }))
+
+    await waitFor(() => {
+      expect(mockCreateList).toHaveBeenCalledWith({ name: '関西の盆栽園', description: '', isPublic: true })
+      expect(mockPush).toHaveBeenCalledWith('/lists/list-1')
+    })
+  })
+
+  it('編集時は保存してリストのページへ移動する', async () => {
+    mockUpdateList.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<ListForm list={list} />)
+
+    await user.click(screen.getByRole('button', { name: '保存' }))
+
+    await waitFor(() => {
+      expect(mockUpdateList).toHaveBeenCalledWith('list-1', { name: '関西の盆栽園', description: '', isPublic: true })
+      expect(mockPush).toHaveBeenCalledWith('/lists/list-1')
+    })
+  })
+
+  it('エラー時はメッセージを表示する', async () => {
+    mockCreateList.mockResolvedValue({ error: 'リストは20個まで作成できます' })
+    const user = userEvent.setup()
+    render(<ListForm />)
+
+    await user.type(screen.getByLabelText('リスト名'), 'リスト')
+    await user.click(screen.getByRole('button', { name: 'リストを作成' }))
+
+    expect(await screen.findByText('リストは20個まで作成できます')).toBeInTheDocument()
+    expect(mockPush).not.toHaveBeenCalled()
+  })
+
+  it('作成時は削除ボタンを表示しない', () => {
+    render(<ListForm />)
+
+    expect(screen.queryByRole('button', { name: 'リストを削除' })).not.toBeInTheDocument()
+  })
+
+  it('編集時は確認後にリストを削除する', async () => {
+    mockDeleteList.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<ListForm list={list} />)
+
+    await user.click(screen.getByRole('button', { name: 'リストを削除' }))
+    await user.click(await screen.findByRole('button', { name: '削除する' }))
+
+    await waitFor(() => {
+      expect(mockDeleteList).toHaveBeenCalledWith('list-1')
+      expect(mockPush).toHaveBeenCalledWith('/lists')
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { GroupConversationForm } from '@/components/message/GroupConversationForm'
+
+// Next.js navigation モック
+const mockPush = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+  }),
+}))
+
+// Server Actions モック
+const mockCreateGroupConversation = jest.fn()
+jest.mock('@/lib/actions/group-conversation', () => ({
+  createGroupConversation: (...args: unknown[]) => mockCreateGroupConversation(...args),
+}))
+
+const mockSearchMentionUsers = jest.fn()
+jest.mock('@/lib/actions/mention', () => ({
+  searchMentionUsers: (...args: unknown[]) => mockSearchMentionUsers(...args),
+}))
+
+/**
+ * ユーザーを検索して選択する
+ */
+async function selectUser(user: ReturnType<typeof userEvent.setup>, nickname: string) {
+  await user.type(screen.getByPlaceholderText('ユーザーを検索'), nickname)
+  await user.click(await screen.findByRole('button', { name: nickname }))
+}
+
+describe('GroupConversationForm', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSearchMentionUsers.mockImplementation((query: string) =>
+      Promise.resolve(
+        [
+          { id: 'user-2', nickname: '松田', avatarUrl: null },
+          { id: 'user-3', nickname: '梅木', avatarUrl: null },
+        ].filter((u) => u.nickname.includes(query))
+      )
+    )
+  })
+
+  it('メンバーが2人未満の場合は作成できない', async () => {
+    const user = userEvent.setup()
+    render(<GroupConversationForm />)
+
+    await user.type(screen.getByLabelText('グループ名'), '盆栽仲間')
+    await selectUser(user, '松田')
+
+    expect(screen.getByRole('button', { name: 'グループを作成' })).toBeDisabled()
+  })
+
+  it('グループを作成して会話画面へ遷移する', async () => {
+    mockCreateGroupConversation.mockResolvedValue({ conversationId: 'group-1' })
+
+    const user = userEvent.setup()
+    render(<GroupConversationForm />)
+
+    await user.type(screen.getByLabelText('グループ名'), '盆栽仲間')
+    await selectUser(user, '松田')
+    await selectUser(user, '梅木')
+    await user.click(screen.getByRole('button', { name: 'グループを作成' }))
+
+    await waitFor(() => {
+      expect(mockCreateGroupConversation).toHaveBeenCalledWith({
+        title: '盆栽仲間',
+        memberIds: ['user-2', 'user-3'],
+      })
+      expect(mockPush).toHaveBeenCalledWith('/messages/group-1')
+    })
+  })
+
+  it('作成に失敗した場合はエラーを表示する', async () => {
+    mockCreateGroupConversation.mockResolvedValue({
+      error: 'ブロック関係にあるユーザーは同じグループに参加できません',
+    })
+
+    const user = userEvent.setup()
+    render(<GroupConversationForm />)
+
+    await user.type(screen.getByLabelText('グループ名'), '盆栽仲間')
+    await selectUser(user, '松田')
+    await selectUser(user, '梅木')
+    await user.click(screen.getByRole('button', { name: 'グループを作成' }))
+
+    expect(
+      await screen.findByText('ブロック関係にあるユーザーは同じグループに参加できません')
+    ).toBeInTheDocument()
+    expect(mockPush).not.toHaveBeenCalled()
+  })
+
+  it('選択したメンバーを解除できる', async () => {
+    const user = userEvent.setup()
+    render(<GroupConversationForm />)
+
+    await selectUser(user, '松田')
+    await user.click(screen.getByRole('button', { name: '松田を選択解除' }))
+
+    expect(screen.queryByText('松田')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,124 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { GroupMemberManager } from '@/components/message/GroupMemberManager'
+
+// Next.js navigation モック
+const mockPush = jest.fn()
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    refresh: mockRefresh,
+  }),
+}))
+
+// Server Actions モック
+const mockUpdateGroupTitle = jest.fn()
+const mockAddGroupMembers = jest.fn()
+const mockRemoveGroupMember = jest.fn()
+const mockLeaveGroupConversation = jest.fn()
+const mockUpdateGroupMemberRole = jest.fn()
+jest.mock('@/lib/actions/group-conversation', () => ({
+  updateGroupTitle: (...args: unknown[]) => mockUpdateGroupTitle(...args),
+  addGroupMembers: (...args: unknown[]) => mockAddGroupMembers(...args),
+  removeGroupMember: (...args: unknown[]) => mockRemoveGroupMember(...args),
+  leaveGroupConversation: (...args: unknown[]) => mockLeaveGroupConversation(...args),
+  updateGroupMemberRole: (...args: unknown[]) => mockUpdateGroupMemberRole(...args),
+}))
+
+jest.mock('@/lib/actions/mention', () => ({
+  searchMentionUsers: jest.fn().mockResolvedValue([]),
+}))
+
+const members = [
+  { id: 'owner-user', nickname: 'オーナー', avatarUrl: null, role: 'owner' as const },
+  { id: 'admin-user', nickname: '管理者さん', avatarUrl: null, role: 'admin' as const },
+  { id: 'member-user', nickname: 'メンバーさん', avatarUrl: null, role: 'member' as const },
+]
+
+describe('GroupMemberManager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+  })
+
+  it('オーナーには管理操作を表示する', () => {
+    render(
+      <GroupMemberManager
+        conversationId="group-1"
+        title="盆栽仲間"
+        members={members}
+        currentUserId="owner-user"
+        myRole="owner"
+      />
+    )
+
+    expect(screen.getByLabelText('グループ名')).toHaveValue('盆栽仲間')
+    expect(screen.getByRole('button', { name: '管理者を解除' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '管理者にする' })).toBeInTheDocument()
+    expect(screen.getAllByRole('button', { name: '削除' })).toHaveLength(2)
+  })
+
+  it('一般メンバーには退出のみ表示する', () => {
+    render(
+      <GroupMemberManager
+        conversationId="group-1"
+        title="盆栽仲間"
+        members={members}
+        currentUserId="member-user"
+        myRole="member"
+      />
+    )
+
+    expect(screen.queryByLabelText('グループ名')).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: '削除' })).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'グループから退出' })).toBeInTheDocument()
+  })
+
+  it('管理者は一般メンバーのみ削除できる', async () => {
+    mockRemoveGroupMember.mockResolvedValue({ success: true })
+
+    const user = userEvent.setup()
+    render(
+      <GroupMemberManager
+        conversationId="group-1"
+        title="盆栽仲間"
+        members={members}
+        currentUserId="admin-user"
+        myRole="admin"
+      />
+    )
+
+    const removeButtons = screen.getAllByRole('button', { name: '削除' })
+    expect(removeButtons).toHaveLength(1)
+
+    await user.click(removeButtons[0])
+
+    await waitFor(() => {
+      expect(mockRemoveGroupMember).toHaveBeenCalledWith('group-1', 'member-user')
+      expect(mockRefresh).toHaveBeenCalled()
+    })
+  })
+
+  it('退出するとメッセージ一覧へ戻る', async () => {
+    mockLeaveGroupConversation.mockResolvedValue({ success: true })
+
+    const user = userEvent.setup()
+    render(
+      <GroupMemberManager
+        conversationId="group-1"
+        title="盆栽仲間"
+        members={members}
+        currentUserId="member-user"
+        myRole="member"
+      />
+    )
+
+    await user.click(screen.getByRole('button', { name: 'グループから退出' }))
+
+    await waitFor(() => {
+      expect(mockLeaveGroupConversation).toHaveBeenCalledWith('group-1')
+      expect(mockPush).toHaveBeenCalledWith('/messages')
+    })
+  })
+})
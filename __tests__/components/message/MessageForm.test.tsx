@@ -12,8 +12,12 @@ jest.mock('next/navigation', () => ({
 
 // Server Actions モック
 const mockSendMessage = jest.fn()
+const mockSendTypingIndicator = jest.fn().mockResolvedValue({ success: true })
+const mockUploadMessageImage = jest.fn()
 jest.mock('@/lib/actions/message', () => ({
   sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+  sendTypingIndicator: (...args: unknown[]) => mockSendTypingIndicator(...args),
+  uploadMessageImage: (...args: unknown[]) => mockUploadMessageImage(...args),
 }))
 
 describe('MessageForm', () => {
@@ -48,7 +52,7 @@ describe('MessageForm', () => {
 
   it('空のメッセージは送信できない', () => {
     render(<MessageForm conversationId="conv-1" />)
-    const submitButton = screen.getByRole('button')
+    const submitButton = screen.getByRole('button', { name: '送信' })
     expect(submitButton).toBeDisabled()
   })
 
@@ -60,10 +64,10 @@ describe('MessageForm', () => {
 
     const textarea = screen.getByPlaceholderText('メッセージを入力...')
     await user.type(textarea, 'テストメッセージ')
-    await user.click(screen.getByRole('button'))
+    await user.click(screen.getByRole('button', { name: '送信' }))
 
     await waitFor(() => {
-      expect(mockSendMessage).toHaveBeenCalledWith('conv-1', 'テストメッセージ')
+      expect(mockSendMessage).toHaveBeenCalledWith('conv-1', 'テストメッセージ', { imageUrls: [] })
     })
 
     await waitFor(() => {
@@ -79,7 +83,7 @@ describe('MessageForm', () => {
 
     const textarea = screen.getByPlaceholderText('メッセージを入力...')
     await user.type(textarea, 'テストメッセージ')
-    await user.click(screen.getByRole('button'))
+    await user.click(screen.getByRole('button', { name: '送信' }))
 
     await waitFor(() => {
       expect(textarea).toHaveValue('')
@@ -94,16 +98,76 @@ describe('MessageForm', () => {
 
     const textarea = screen.getByPlaceholderText('メッセージを入力...')
     await user.type(textarea, 'テストメッセージ')
-    await user.click(screen.getByRole('button'))
+    await user.click(screen.getByRole('button', { name: '送信' }))
 
     await waitFor(() => {
       expect(screen.getByText('送信に失敗しました')).toBeInTheDocument()
     })
   })
 
+  it('入力中であることを間引いて通知する', async () => {
+    const user = userEvent.setup()
+    render(<MessageForm conversationId="conv-1" />)
+
+    const textarea = screen.getByPlaceholderText('メッセージを入力...')
+    await user.type(textarea, 'こんにちは')
+
+    expect(mockSendTypingIndicator).toHaveBeenCalledTimes(1)
+    expect(mockSendTypingIndicator).toHaveBeenCalledWith('conv-1')
+  })
+
   it('最大1000文字まで入力できる', () => {
     render(<MessageForm conversationId="conv-1" />)
     const textarea = screen.getByPlaceholderText('メッセージを入力...')
     expect(textarea).toHaveAttribute('maxLength', '1000')
   })
+
+  describe('画像の添付', () => {
+    const imageFile = () => new File(['image'], 'bonsai.jpg', { type: 'image/jpeg' })
+
+    it('画像をアップロードして本文なしで送信できる', async () => {
+      mockUploadMessageImage.mockResolvedValue({ success: true, url: '/uploads/message-images/a.jpg' })
+      mockSendMessage.mockResolvedValue({ success: true })
+
+      const user = userEvent.setup()
+      render(<MessageForm conversationId="conv-1" />)
+
+      await user.upload(screen.getByLabelText('画像ファイルを選択'), imageFile())
+
+      expect(await screen.findByAltText('添付画像')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: '送信' }))
+
+      await waitFor(() => {
+        expect(mockSendMessage).toHaveBeenCalledWith('conv-1', '', {
+          imageUrls: ['/uploads/message-images/a.jpg'],
+        })
+      })
+      expect(screen.queryByAltText('添付画像')).not.toBeInTheDocument()
+    })
+
+    it('添付した画像を取り消せる', async () => {
+      mockUploadMessageImage.mockResolvedValue({ success: true, url: '/uploads/message-images/a.jpg' })
+
+      const user = userEvent.setup()
+      render(<MessageForm conversationId="conv-1" />)
+
+      await user.upload(screen.getByLabelText('画像ファイルを選択'), imageFile())
+      await user.click(await screen.findByRole('button', { name: '添付画像を取り消す' }))
+
+      expect(screen.queryByAltText('添付画像')).not.toBeInTheDocument()
+      expect(screen.getByRole('button', { name: '送信' })).toBeDisabled()
+    })
+
+    it('アップロードに失敗した場合はエラーを表示する', async () => {
+      mockUploadMessageImage.mockResolvedValue({ error: '画像は4MB以下にしてください' })
+
+      const user = userEvent.setup()
+      render(<MessageForm conversationId="conv-1" />)
+
+      await user.upload(screen.getByLabelText('画像ファイルを選択'), imageFile())
+
+      expect(await screen.findByText('画像は4MB以下にしてください')).toBeInTheDocument()
+    })
+  })
 })
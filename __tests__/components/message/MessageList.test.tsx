@@ -1,6 +1,35 @@
-import { render, screen } from '../../utils/test-utils'
+import { render, screen, act } from '../../utils/test-utils'
 import { MessageList } from '@/components/message/MessageList'
 
+// Server Actions モック
+const mockMarkAsRead = jest.fn()
+jest.mock('@/lib/actions/message', () => ({
+  markAsRead: (...args: unknown[]) => mockMarkAsRead(...args),
+}))
+
+// EventSource モック（jsdomには存在しない）
+class MockEventSource {
+  static instances: MockEventSource[] = []
+  url: string
+  listeners: Record<string, ((e: MessageEvent) => void)[]> = {}
+  close = jest.fn()
+
+  constructor(url: string) {
+    this.url = url
+    MockEventSource.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (e: MessageEvent) => void) {
+    this.listeners[type] = [...(this.listeners[type] || []), listener]
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners[type]?.forEach((listener) =>
+      listener({ data: JSON.stringify(data) } as MessageEvent)
+    )
+  }
+}
+
 // scrollIntoView モック
 Element.prototype.scrollIntoView = jest.fn()
 
@@ -137,4 +166,203 @@ describe('MessageList', () => {
     const timeElements = screen.getAllByText(/\d{2}:\d{2}/)
     expect(timeElements.length).toBeGreaterThan(0)
   })
+
+  describe('リアルタイム更新', () => {
+    beforeEach(() => {
+      MockEventSource.instances = []
+      ;(global as unknown as { EventSource: unknown }).EventSource = MockEventSource
+    })
+
+    afterEach(() => {
+      delete (global as unknown as { EventSource?: unknown }).EventSource
+    })
+
+    it('会話のストリームを購読する', () => {
+      render(
+        <MessageList
+          initialMessages={mockMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+        />
+      )
+      expect(MockEventSource.instances[0].url).toBe('/api/messages/conv-1/stream')
+    })
+
+    it('新着メッセージを追加して既読にする', () => {
+      render(
+        <MessageList
+          initialMessages={mockMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+        />
+      )
+
+      act(() => {
+        MockEventSource.instances[0].emit('message', {
+          type: 'message',
+          message: {
+            id: 'msg-3',
+            content: '届きました',
+            createdAt: new Date().toISOString(),
+            sender: { id: 'user-1', nickname: '相手ユーザー', avatarUrl: null },
+          },
+        })
+      })
+
+      expect(screen.getByText('届きました')).toBeInTheDocument()
+      expect(mockMarkAsRead).toHaveBeenCalledWith('conv-1')
+    })
+
+    it('同じメッセージを重複して追加しない', () => {
+      render(
+        <MessageList
+          initialMessages={mockMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+        />
+      )
+
+      act(() => {
+        MockEventSource.instances[0].emit('message', {
+          type: 'message',
+          message: { ...mockMessages[1], createdAt: new Date().toISOString() },
+        })
+      })
+
+      expect(screen.getAllByText('こんにちは！元気ですか？')).toHaveLength(1)
+      expect(mockMarkAsRead).not.toHaveBeenCalled()
+    })
+
+    it('相手の入力中を表示する', () => {
+      render(
+        <MessageList
+          initialMessages={mockMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+        />
+      )
+
+      act(() => {
+        MockEventSource.instances[0].emit('typing', {
+          type: 'typing',
+          userId: 'user-1',
+          nickname: '相手ユーザー',
+        })
+      })
+
+      expect(screen.getByText('相手ユーザーさんが入力中...')).toBeInTheDocument()
+    })
+
+    it('相手の既読を自分のメッセージに表示する', () => {
+      render(
+        <MessageList
+          initialMessages={mockMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+        />
+      )
+      expect(screen.queryByText('既読')).not.toBeInTheDocument()
+
+      act(() => {
+        MockEventSource.instances[0].emit('read', {
+          type: 'read',
+          userId: 'user-1',
+          lastReadAt: new Date(Date.now() + 1000).toISOString(),
+        })
+      })
+
+      expect(screen.getByText('既読')).toBeInTheDocument()
+    })
+
+    it('アンマウント時に購読を終了する', () => {
+      const { unmount } = render(
+        <MessageList
+          initialMessages={mockMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+        />
+      )
+      unmount()
+      expect(MockEventSource.instances[0].close).toHaveBeenCalled()
+    })
+  })
+
+  it('初期の既読時刻から既読を表示する', () => {
+    render(
+      <MessageList
+        initialMessages={mockMessages}
+        conversationId="conv-1"
+        currentUserId="current-user"
+        memberLastReadAts={{ 'user-1': new Date(Date.now() + 1000) }}
+      />
+    )
+    expect(screen.getByText('既読')).toBeInTheDocument()
+  })
+
+  describe('グループ会話', () => {
+    const groupMessages = [
+      {
+        id: 'sys-1',
+        type: 'system',
+        content: '現在のユーザーさんがグループ「盆栽仲間」を作成しました',
+        createdAt: new Date('2024-01-01T09:00:00'),
+        sender: { id: 'current-user', nickname: '現在のユーザー', avatarUrl: null },
+      },
+      {
+        id: 'msg-g1',
+        content: 'はじめまして',
+        createdAt: new Date('2024-01-01T10:00:00'),
+        sender: { id: 'user-1', nickname: '相手ユーザー', avatarUrl: null },
+      },
+      {
+        id: 'msg-g2',
+        content: 'よろしくお願いします',
+        createdAt: new Date('2024-01-01T10:05:00'),
+        sender: { id: 'current-user', nickname: '現在のユーザー', avatarUrl: null },
+      },
+    ]
+
+    it('システムメッセージを表示する', () => {
+      render(
+        <MessageList
+          initialMessages={groupMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+          isGroup
+        />
+      )
+      expect(
+        screen.getByText('現在のユーザーさんがグループ「盆栽仲間」を作成しました')
+      ).toBeInTheDocument()
+    })
+
+    it('相手のメッセージに送信者名を表示する', () => {
+      render(
+        <MessageList
+          initialMessages={groupMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+          isGroup
+        />
+      )
+      expect(screen.getByText('相手ユーザー')).toBeInTheDocument()
+    })
+
+    it('既読人数を表示する', () => {
+      render(
+        <MessageList
+          initialMessages={groupMessages}
+          conversationId="conv-1"
+          currentUserId="current-user"
+          isGroup
+          memberLastReadAts={{
+            'user-1': new Date('2024-01-01T10:10:00'),
+            'user-2': new Date('2024-01-01T10:10:00'),
+            'user-3': null,
+          }}
+        />
+      )
+      expect(screen.getByText('既読 2')).toBeInTheDocument()
+    })
+  })
 })
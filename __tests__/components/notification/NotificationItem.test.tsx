@@ -251,6 +251,88 @@ describe('NotificationItem', () => {
     expect(screen.getByRole('link')).toHaveAttribute('href', '/users/user-1')
   })
 
+  it('お手入れリマインダー通知を表示する', () => {
+    const notification = {
+      ...baseNotification,
+      type: 'care_reminder',
+      bonsai: { id: 'bonsai-1', name: '黒松' },
+    }
+    render(<NotificationItem notification={notification} />)
+
+    expect(screen.getByText('黒松')).toBeInTheDocument()
+    expect(screen.getByText(/のお手入れ予定日です/)).toBeInTheDocument()
+  })
+
+  it('保存した検索の通知は検索条件を表示し、投稿へのリンクを持つ', () => {
+    const notification = {
+      ...baseNotification,
+      type: 'saved_search',
+      post: { id: 'post-1', content: '五葉松を譲ります' },
+      savedSearch: { id: 'search-1', query: '五葉松', genreIds: [], hashtag: '譲ります' },
+    }
+    render(<NotificationItem notification={notification} />)
+
+    expect(screen.getByText('「五葉松 #譲ります」')).toBeInTheDocument()
+    expect(screen.getByText(/に一致する新しい投稿があります/)).toBeInTheDocument()
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/posts/post-1')
+  })
+
+  it('お手入れリマインダー通知は盆栽詳細ページへのリンクを持つ', () => {
+    const notification = {
+      ...baseNotification,
+      type: 'care_reminder',
+      bonsai: { id: 'bonsai-1', name: '黒松' },
+    }
+    render(<NotificationItem notification={notification} />)
+
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/bonsai/bonsai-1')
+  })
+
+  it('盆栽の譲渡の申し込み通知は申し込みページへのリンクを持つ', () => {
+    const notification = {
+      ...baseNotification,
+      type: 'bonsai_transfer',
+      bonsai: { id: 'bonsai-1', name: '黒松' },
+    }
+    render(<NotificationItem notification={notification} />)
+
+    expect(screen.getByText(/の譲渡の申し込みが届きました/)).toBeInTheDocument()
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/bonsai/transfers')
+  })
+
+  it('盆栽の受け取り通知は盆栽詳細ページへのリンクを持つ', () => {
+    const notification = {
+      ...baseNotification,
+      type: 'bonsai_transfer_accepted',
+      bonsai: { id: 'bonsai-1', name: '黒松' },
+    }
+    render(<NotificationItem notification={notification} />)
+
+    expect(screen.getByText(/を受け取りました/)).toBeInTheDocument()
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/bonsai/bonsai-1')
+  })
+
+  it('新しいデバイスからのログイン通知はデバイスの一覧へのリンクを持つ', () => {
+    const notification = {
+      ...baseNotification,
+      type: 'new_login',
+    }
+    render(<NotificationItem notification={notification} />)
+
+    expect(screen.getByText(/新しいデバイスからログインがありました/)).toBeInTheDocument()
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/settings/security/devices')
+  })
+
+  it('ログイン制限の通知を表示する', () => {
+    const notification = {
+      ...baseNotification,
+      type: 'login_lockout',
+    }
+    render(<NotificationItem notification={notification} />)
+
+    expect(screen.getByText(/ログインを一時的に制限しました/)).toBeInTheDocument()
+  })
+
   it('相対時間を表示する', () => {
     const notification = {
       ...baseNotification,
@@ -187,6 +187,27 @@ describe('PostCard', () => {
     expect(screen.getByText('3')).toBeInTheDocument()
   })
 
+  /**
+   * 公開範囲のラベル
+   *
+   * 全体公開の投稿にはラベルを表示せず、
+   * 親しい友達限定の投稿には専用の目印を表示することを確認。
+   */
+  it('全体公開の投稿には公開範囲のラベルを表示しない', () => {
+    render(<PostCard {...defaultProps} post={{ ...defaultProps.post, audience: 'public' }} />)
+    expect(screen.queryByText('全体公開')).not.toBeInTheDocument()
+  })
+
+  it('限定公開の投稿には公開範囲のラベルを表示する', () => {
+    render(<PostCard {...defaultProps} post={{ ...defaultProps.post, audience: 'followers' }} />)
+    expect(screen.getByText('フォロワーのみ')).toBeInTheDocument()
+  })
+
+  it('親しい友達限定の投稿には専用の目印を表示する', () => {
+    render(<PostCard {...defaultProps} post={{ ...defaultProps.post, audience: 'close_friends' }} />)
+    expect(screen.getByText('親しい友達')).toHaveClass('bg-green-600')
+  })
+
   /**
    * テストケース5: ジャンルタグの表示
    *
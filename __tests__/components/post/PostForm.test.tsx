@@ -96,6 +96,22 @@ describe('PostForm', () => {
     })
   })
 
+  it('選択した公開範囲を付けて投稿する', async () => {
+    mockCreatePost.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<PostForm genres={mockGenres} />)
+
+    await user.type(screen.getByPlaceholderText('いまどうしてる？ @でユーザーをメンション'), 'テスト投稿')
+    await user.selectOptions(screen.getByLabelText('公開範囲'), 'followers')
+    await user.click(screen.getByRole('button', { name: '投稿する' }))
+
+    await waitFor(() => {
+      expect(mockCreatePost).toHaveBeenCalled()
+    })
+    const formData = mockCreatePost.mock.calls[0][0] as FormData
+    expect(formData.get('audience')).toBe('followers')
+  })
+
   it('下書き保存ボタンが表示される', () => {
     render(<PostForm genres={mockGenres} />)
     expect(screen.getByRole('button', { name: '下書き保存' })).toBeInTheDocument()
@@ -143,6 +143,7 @@ describe('ScheduledPostForm', () => {
       scheduledAt: new Date('2026-12-01T10:00:00'),
       genreIds: ['genre-1'],
       media: [],
+      audience: 'public',
     }
 
     render(<ScheduledPostForm genres={mockGenres} limits={mockLimits} editData={editData} />)
@@ -157,6 +158,7 @@ describe('ScheduledPostForm', () => {
       scheduledAt: new Date('2026-12-01T10:00:00'),
       genreIds: ['genre-1'],
       media: [],
+      audience: 'public',
     }
 
     render(<ScheduledPostForm genres={mockGenres} limits={mockLimits} editData={editData} />)
@@ -214,6 +216,7 @@ describe('ScheduledPostForm', () => {
       scheduledAt: futureDate,
       genreIds: ['genre-1'],
       media: [{ url: '/image.jpg', type: 'image' }],
+      audience: 'public',
     }
 
     it('既存のメディアを表示する', () => {
@@ -266,6 +269,7 @@ describe('ScheduledPostForm', () => {
         scheduledAt: futureDate,
         genreIds: ['genre-1'],
         media: [],
+        audience: 'public',
       }
 
       render(<ScheduledPostForm genres={mockGenres} limits={mockLimits} editData={editData} />)
@@ -287,6 +291,7 @@ describe('ScheduledPostForm', () => {
         scheduledAt: futureDate,
         genreIds: ['genre-1'],
         media: [],
+        audience: 'public',
       }
 
       render(<ScheduledPostForm genres={mockGenres} limits={mockLimits} editData={editData} />)
@@ -338,6 +343,7 @@ describe('ScheduledPostForm', () => {
         scheduledAt: futureDate,
         genreIds: ['genre-1'],
         media: [],
+        audience: 'public',
       }
 
       render(<ScheduledPostForm genres={mockGenres} limits={mockLimits} editData={editData} />)
@@ -18,6 +18,14 @@ Object.defineProperty(navigator, 'clipboard', {
   configurable: true,
 })
 
+// メッセージ関連のServer Actionsをモック
+const mockGetConversations = jest.fn()
+const mockSendMessage = jest.fn()
+jest.mock('@/lib/actions/message', () => ({
+  getConversations: (...args: unknown[]) => mockGetConversations(...args),
+  sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+}))
+
 describe('ShareButtons', () => {
   const defaultProps = {
     url: 'https://example.com/posts/123',
@@ -134,4 +142,54 @@ describe('ShareButtons', () => {
       expect.any(String)
     )
   })
+
+  describe('DMで送る', () => {
+    it('postIdがない場合はDMボタンを表示しない', () => {
+      render(<ShareButtons {...defaultProps} />)
+      expect(screen.queryByRole('button', { name: 'DMで送る' })).not.toBeInTheDocument()
+    })
+
+    it('会話を選んで投稿を送信する', async () => {
+      mockGetConversations.mockResolvedValue({
+        conversations: [
+          { id: 'conv-1', isGroup: false, title: null, memberCount: 2, otherUser: { id: 'user-2', nickname: '松田', avatarUrl: null } },
+          { id: 'group-1', isGroup: true, title: '盆栽仲間', memberCount: 3, otherUser: null },
+        ],
+      })
+      mockSendMessage.mockResolvedValue({ success: true })
+
+      const user = userEvent.setup()
+      render(<ShareButtons {...defaultProps} postId="post-1" />)
+
+      await user.click(screen.getByRole('button', { name: 'DMで送る' }))
+
+      expect(await screen.findByText('松田')).toBeInTheDocument()
+      expect(screen.getByText('盆栽仲間 (3)')).toBeInTheDocument()
+
+      await user.type(screen.getByPlaceholderText('メッセージを添える（任意）'), '見てください')
+      await user.click(screen.getAllByRole('button', { name: '送信' })[1])
+
+      await waitFor(() => {
+        expect(mockSendMessage).toHaveBeenCalledWith('group-1', '見てください', { sharedPostId: 'post-1' })
+      })
+      expect(await screen.findByRole('button', { name: '送信済み' })).toBeDisabled()
+    })
+
+    it('送信に失敗した場合はエラーを表示する', async () => {
+      mockGetConversations.mockResolvedValue({
+        conversations: [
+          { id: 'conv-1', isGroup: false, title: null, memberCount: 2, otherUser: { id: 'user-2', nickname: '松田', avatarUrl: null } },
+        ],
+      })
+      mockSendMessage.mockResolvedValue({ error: 'この投稿は共有できません' })
+
+      const user = userEvent.setup()
+      render(<ShareButtons {...defaultProps} postId="post-1" />)
+
+      await user.click(screen.getByRole('button', { name: 'DMで送る' }))
+      await user.click(await screen.findByRole('button', { name: '送信' }))
+
+      expect(await screen.findByText('この投稿は共有できません')).toBeInTheDocument()
+    })
+  })
 })
@@ -0,0 +1,62 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { SaveSearchButton } from '@/components/search/SaveSearchButton'
+
+// Server Action モック
+const mockSaveSearch = jest.fn()
+jest.mock('@/lib/actions/saved-search', () => ({
+  saveSearch: (...args: unknown[]) => mockSaveSearch(...args),
+}))
+
+describe('SaveSearchButton', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('ボタンを押すと通知方法を選ぶダイアログを表示する', async () => {
+    const user = userEvent.setup()
+    render(<SaveSearchButton query="五葉松" />)
+
+    await user.click(screen.getByRole('button', { name: 'この検索を保存' }))
+
+    expect(screen.getByLabelText('すぐに通知')).toBeChecked()
+    expect(screen.getByLabelText('1日1回メールでまとめて')).not.toBeChecked()
+  })
+
+  it('選んだ通知方法で検索条件を保存する', async () => {
+    mockSaveSearch.mockResolvedValue({ savedSearchId: 'search-1' })
+    const user = userEvent.setup()
+    render(<SaveSearchButton query="五葉松" genreIds={['genre-1']} />)
+
+    await user.click(screen.getByRole('button', { name: 'この検索を保存' }))
+    await user.click(screen.getByLabelText('1日1回メールでまとめて'))
+    await user.click(screen.getByRole('button', { name: '保存' }))
+
+    await waitFor(() => {
+      expect(screen.getByRole('link', { name: '保存した検索' })).toHaveAttribute('href', '/settings/saved-searches')
+    })
+    expect(mockSaveSearch).toHaveBeenCalledWith({
+      query: '五葉松',
+      genreIds: ['genre-1'],
+      hashtag: undefined,
+      notifyMode: 'daily',
+    })
+
+    await user.click(screen.getByRole('button', { name: '閉じる' }))
+    expect(screen.getByRole('button', { name: '保存済み' })).toBeDisabled()
+  })
+
+  it('保存に失敗した場合はエラーを表示する', async () => {
+    mockSaveSearch.mockResolvedValue({ error: 'この検索は既に保存されています' })
+    const user = userEvent.setup()
+    render(<SaveSearchButton hashtag="盆栽" />)
+
+    await user.click(screen.getByRole('button', { name: 'この検索を保存' }))
+    await user.click(screen.getByRole('button', { name: '保存' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('この検索は既に保存されています')).toBeInTheDocument()
+    })
+    expect(screen.getByRole('button', { name: '保存' })).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,94 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { DeviceSessionList } from '@/components/settings/DeviceSessionList'
+
+// Next-Auth モック
+const mockSignOut = jest.fn()
+jest.mock('next-auth/react', () => ({
+  signOut: (...args: unknown[]) => mockSignOut(...args),
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({ data: { user: { id: 'test-user-id' } }, status: 'authenticated' }),
+}))
+
+// Server Actionモック
+const mockSignOutDevice = jest.fn()
+const mockSignOutEverywhere = jest.fn()
+jest.mock('@/lib/actions/user-session', () => ({
+  signOutDevice: (...args: unknown[]) => mockSignOutDevice(...args),
+  signOutEverywhere: () => mockSignOutEverywhere(),
+}))
+
+const lastSeenAt = new Date('2026-10-18T09:00:00Z')
+const devices = [
+  { id: 'device-1', name: 'Chrome / macOS', ipAddress: '203.0.113.1', lastSeenAt, signedOut: false, current: true },
+  { id: 'device-2', name: 'Safari / iOS', ipAddress: '203.0.113.2', lastSeenAt, signedOut: false, current: false },
+  { id: 'device-3', name: 'Firefox / Windows', ipAddress: null, lastSeenAt, signedOut: true, current: false },
+]
+
+describe('DeviceSessionList', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+  })
+
+  it('デバイスの一覧と状態を表示する', () => {
+    render(<DeviceSessionList devices={devices} />)
+
+    expect(screen.getByText('Safari / iOS')).toBeInTheDocument()
+    expect(screen.getByText('このデバイス')).toBeInTheDocument()
+    expect(screen.getByText('ログアウト済み')).toBeInTheDocument()
+    expect(screen.getByText(/IPアドレス不明/)).toBeInTheDocument()
+    // ログアウトボタンは現在のデバイス・ログアウト済みのデバイス以外にだけ表示
+    expect(screen.getAllByRole('button', { name: 'ログアウト' })).toHaveLength(1)
+  })
+
+  it('デバイスがない場合はメッセージを表示する', () => {
+    render(<DeviceSessionList devices={[]} />)
+
+    expect(screen.getByText('記録されたデバイスはありません。')).toBeInTheDocument()
+  })
+
+  it('指定したデバイスからログアウトさせる', async () => {
+    const user = userEvent.setup()
+    mockSignOutDevice.mockResolvedValue({ success: true })
+    render(<DeviceSessionList devices={devices} />)
+
+    await user.click(screen.getByRole('button', { name: 'ログアウト' }))
+
+    await waitFor(() => {
+      expect(mockSignOutDevice).toHaveBeenCalledWith('device-2')
+    })
+  })
+
+  it('ログアウトに失敗した場合はエラーを表示する', async () => {
+    const user = userEvent.setup()
+    mockSignOutDevice.mockResolvedValue({ error: 'デバイスが見つかりません' })
+    render(<DeviceSessionList devices={devices} />)
+
+    await user.click(screen.getByRole('button', { name: 'ログアウト' }))
+
+    expect(await screen.findByText('デバイスが見つかりません')).toBeInTheDocument()
+  })
+
+  it('すべてのデバイスからログアウトしてログイン画面へ移動する', async () => {
+    const user = userEvent.setup()
+    mockSignOutEverywhere.mockResolvedValue({ success: true })
+    render(<DeviceSessionList devices={devices} />)
+
+    await user.click(screen.getByRole('button', { name: 'すべてのデバイスからログアウト' }))
+
+    await waitFor(() => {
+      expect(mockSignOut).toHaveBeenCalledWith({ callbackUrl: '/login' })
+    })
+  })
+
+  it('確認でキャンセルした場合は何もしない', async () => {
+    const user = userEvent.setup()
+    jest.spyOn(window, 'confirm').mockReturnValue(false)
+    render(<DeviceSessionList devices={devices} />)
+
+    await user.click(screen.getByRole('button', { name: 'すべてのデバイスからログアウト' }))
+
+    expect(mockSignOutEverywhere).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * PasskeySettingsコンポーネントのテスト
+ */
+
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PasskeySettings } from '@/components/settings/PasskeySettings'
+
+// WebAuthnのブラウザAPIモック
+const mockStartRegistration = jest.fn()
+jest.mock('@simplewebauthn/browser', () => ({
+  startRegistration: (...args: unknown[]) => mockStartRegistration(...args),
+}))
+
+// Server Actionsモック
+const mockGetPasskeys = jest.fn()
+const mockGetPasskeyRegistrationOptions = jest.fn()
+const mockRegisterPasskey = jest.fn()
+const mockRenamePasskey = jest.fn()
+const mockDeletePasskey = jest.fn()
+
+jest.mock('@/lib/actions/passkey', () => ({
+  getPasskeys: () => mockGetPasskeys(),
+  getPasskeyRegistrationOptions: () => mockGetPasskeyRegistrationOptions(),
+  registerPasskey: (...args: unknown[]) => mockRegisterPasskey(...args),
+  renamePasskey: (...args: unknown[]) => mockRenamePasskey(...args),
+  deletePasskey: (...args: unknown[]) => mockDeletePasskey(...args),
+}))
+
+const passkeys = [
+  {
+    id: 'passkey-1',
+    name: 'iPhone',
+    backedUp: true,
+    lastUsedAt: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+  },
+]
+
+describe('PasskeySettings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetPasskeys.mockResolvedValue({ passkeys })
+  })
+
+  it('登録済みのパスキーを表示する', async () => {
+    render(<PasskeySettings twoFactorEnabled={false} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('iPhone')).toBeInTheDocument()
+    })
+    expect(screen.getByText(/同期済み/)).toBeInTheDocument()
+    expect(screen.queryByText(/認証コードの代わりに/)).not.toBeInTheDocument()
+  })
+
+  it('2FAが有効な場合は認証コードの代わりに使えることを表示する', async () => {
+    render(<PasskeySettings twoFactorEnabled />)
+
+    await waitFor(() => {
+      expect(screen.getByText(/認証コードの代わりにパスキーを使えます/)).toBeInTheDocument()
+    })
+  })
+
+  it('名前を付けてパスキーを追加する', async () => {
+    const user = userEvent.setup()
+    mockGetPasskeyRegistrationOptions.mockResolvedValue({ options: { challenge: 'reg-challenge' } })
+    mockStartRegistration.mockResolvedValue({ id: 'credential-2' })
+    mockRegisterPasskey.mockResolvedValue({ success: true })
+    render(<PasskeySettings twoFactorEnabled={false} />)
+
+    await user.click(await screen.findByText('パスキーを追加'))
+    await user.type(screen.getByLabelText('パスキーの名前'), '仕事用PC')
+    await user.click(screen.getByText('登録する'))
+
+    await waitFor(() => {
+      expect(mockRegisterPasskey).toHaveBeenCalledWith('仕事用PC', { id: 'credential-2' })
+    })
+    expect(mockStartRegistration).toHaveBeenCalledWith({ challenge: 'reg-challenge' })
+    expect(mockGetPasskeys).toHaveBeenCalledTimes(2)
+  })
+
+  it('パスキーの作成をキャンセルした場合はエラーを表示する', async () => {
+    const user = userEvent.setup()
+    mockGetPasskeyRegistrationOptions.mockResolvedValue({ options: { challenge: 'reg-challenge' } })
+    mockStartRegistration.mockRejectedValue(new Error('NotAllowedError'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    render(<PasskeySettings twoFactorEnabled={false} />)
+
+    await user.click(await screen.findByText('パスキーを追加'))
+    await user.type(screen.getByLabelText('パスキーの名前'), '仕事用PC')
+    await user.click(screen.getByText('登録する'))
+
+    expect(await screen.findByText('パスキーを作成できませんでした')).toBeInTheDocument()
+    expect(mockRegisterPasskey).not.toHaveBeenCalled()
+  })
+
+  it('パスキーの名前を変更する', async () => {
+    const user = userEvent.setup()
+    mockRenamePasskey.mockResolvedValue({ success: true })
+    render(<PasskeySettings twoFactorEnabled={false} />)
+
+    await user.click(await screen.findByText('名前を変更'))
+    const input = screen.getByLabelText('パスキーの名前')
+    await user.clear(input)
+    await user.type(input, '妻のiPhone')
+    await user.click(screen.getByText('保存'))
+
+    await waitFor(() => {
+      expect(mockRenamePasskey).toHaveBeenCalledWith('passkey-1', '妻のiPhone')
+    })
+  })
+
+  it('削除に失敗した場合はエラーを表示する', async () => {
+    const user = userEvent.setup()
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+    mockDeletePasskey.mockResolvedValue({ error: 'ほかにログインする方法がないため削除できません' })
+    render(<PasskeySettings twoFactorEnabled={false} />)
+
+    await user.click(await screen.findByText('削除'))
+
+    expect(
+      await screen.findByText('ほかにログインする方法がないため削除できません')
+    ).toBeInTheDocument()
+    expect(mockDeletePasskey).toHaveBeenCalledWith('passkey-1')
+  })
+})
@@ -0,0 +1,94 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { SocialAccountSettings } from '@/components/settings/SocialAccountSettings'
+
+// Next-Auth モック
+const mockSignIn = jest.fn()
+jest.mock('next-auth/react', () => ({
+  signIn: (...args: unknown[]) => mockSignIn(...args),
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({ data: { user: { id: 'test-user-id' } }, status: 'authenticated' }),
+}))
+
+// フィンガープリントモック
+jest.mock('@/lib/fingerprint', () => ({
+  getFingerprintWithCache: jest.fn().mockResolvedValue(null),
+}))
+
+// Server Actionモック
+const mockPrepareSocialSignIn = jest.fn()
+const mockUnlinkSocialAccount = jest.fn()
+jest.mock('@/lib/actions/social-login', () => ({
+  prepareSocialSignIn: (...args: unknown[]) => mockPrepareSocialSignIn(...args),
+  unlinkSocialAccount: (...args: unknown[]) => mockUnlinkSocialAccount(...args),
+}))
+
+const providers = [
+  { id: 'line', label: 'LINE' },
+  { id: 'google', label: 'Google' },
+]
+
+describe('SocialAccountSettings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrepareSocialSignIn.mockResolvedValue({ success: true })
+  })
+
+  it('プロバイダーごとの連携状態を表示する', () => {
+    render(<SocialAccountSettings providers={providers} linkedProviders={['line']} hasPassword />)
+
+    expect(screen.getByText('連携済み')).toBeInTheDocument()
+    expect(screen.getByText('未連携')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '連携を解除' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '連携する' })).toBeInTheDocument()
+  })
+
+  it('連携するとプロバイダーのログインへ移動する', async () => {
+    const user = userEvent.setup()
+    render(<SocialAccountSettings providers={providers} linkedProviders={['line']} hasPassword />)
+
+    await user.click(screen.getByRole('button', { name: '連携する' }))
+
+    await waitFor(() => {
+      expect(mockSignIn).toHaveBeenCalledWith('google', { redirectTo: '/settings/security' })
+    })
+    expect(mockPrepareSocialSignIn).toHaveBeenCalledWith(undefined)
+  })
+
+  it('連携を解除する', async () => {
+    const user = userEvent.setup()
+    mockUnlinkSocialAccount.mockResolvedValue({ success: true })
+    render(<SocialAccountSettings providers={providers} linkedProviders={['line']} hasPassword />)
+
+    await user.click(screen.getByRole('button', { name: '連携を解除' }))
+
+    await waitFor(() => {
+      expect(mockUnlinkSocialAccount).toHaveBeenCalledWith('line')
+    })
+  })
+
+  it('パスワード未設定で最後の連携は解除ボタンを無効にする', () => {
+    render(<SocialAccountSettings providers={providers} linkedProviders={['line']} hasPassword={false} />)
+
+    expect(screen.getByRole('button', { name: '連携を解除' })).toBeDisabled()
+    expect(screen.getByText(/最後の連携は解除できません/)).toBeInTheDocument()
+  })
+
+  it('連携に失敗したエラーコードのメッセージを表示する', () => {
+    render(
+      <SocialAccountSettings
+        providers={providers}
+        linkedProviders={[]}
+        hasPassword
+        errorCode="AccountAlreadyLinked"
+      />
+    )
+
+    expect(screen.getByText('このアカウントはすでに別のユーザーと連携されています')).toBeInTheDocument()
+  })
+
+  it('連携できるサービスがない場合はその旨を表示する', () => {
+    render(<SocialAccountSettings providers={[]} linkedProviders={[]} hasPassword />)
+    expect(screen.getByText('現在、連携できるサービスはありません。')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,100 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { CloseFriendList } from '@/components/user/CloseFriendList'
+
+// Server Action モック
+const mockAddCloseFriend = jest.fn()
+const mockRemoveCloseFriend = jest.fn()
+jest.mock('@/lib/actions/close-friend', () => ({
+  addCloseFriend: (...args: unknown[]) => mockAddCloseFriend(...args),
+  removeCloseFriend: (...args: unknown[]) => mockRemoveCloseFriend(...args),
+}))
+
+// useRouter モック
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}))
+
+// useToast モック
+const mockToast = jest.fn()
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}))
+
+describe('CloseFriendList', () => {
+  const mockUsers = [
+    {
+      id: 'user-1',
+      nickname: 'フォロワー1',
+      avatarUrl: 'https://example.com/avatar1.jpg',
+      bio: '自己紹介文1',
+    },
+    {
+      id: 'user-2',
+      nickname: 'フォロワー2',
+      avatarUrl: null,
+      bio: null,
+    },
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('ユーザー一覧を表示する', () => {
+    render(<CloseFriendList users={mockUsers} isCloseFriend />)
+
+    expect(screen.getByText('フォロワー1')).toBeInTheDocument()
+    expect(screen.getByText('フォロワー2')).toBeInTheDocument()
+    expect(screen.getAllByRole('button', { name: '削除' })).toHaveLength(2)
+  })
+
+  it('追加候補の「追加」ボタンで親しい友達に追加する', async () => {
+    mockAddCloseFriend.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<CloseFriendList users={mockUsers} isCloseFriend={false} />)
+
+    await user.click(screen.getAllByRole('button', { name: '追加' })[0])
+
+    await waitFor(() => {
+      expect(mockAddCloseFriend).toHaveBeenCalledWith('user-1')
+      expect(mockToast).toHaveBeenCalledWith(
+        expect.objectContaining({ title: '親しい友達に追加しました' })
+      )
+      expect(mockRefresh).toHaveBeenCalled()
+    })
+  })
+
+  it('「削除」ボタンで親しい友達から削除する', async () => {
+    mockRemoveCloseFriend.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<CloseFriendList users={mockUsers} isCloseFriend />)
+
+    await user.click(screen.getAllByRole('button', { name: '削除' })[1])
+
+    await waitFor(() => {
+      expect(mockRemoveCloseFriend).toHaveBeenCalledWith('user-2')
+    })
+  })
+
+  it('エラー時にエラートーストを表示する', async () => {
+    mockAddCloseFriend.mockResolvedValue({ error: 'フォロワーのみ親しい友達に追加できます' })
+    const user = userEvent.setup()
+    render(<CloseFriendList users={mockUsers} isCloseFriend={false} />)
+
+    await user.click(screen.getAllByRole('button', { name: '追加' })[0])
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith({
+        title: 'エラー',
+        description: 'フォロワーのみ親しい友達に追加できます',
+        variant: 'destructive',
+      })
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { DataExportSection } from '@/components/user/DataExportSection'
+
+// Server Actionモック
+const mockRequestDataExport = jest.fn()
+const mockGetDataExportDownloadUrl = jest.fn()
+jest.mock('@/lib/actions/data-export', () => ({
+  requestDataExport: (...args: unknown[]) => mockRequestDataExport(...args),
+  getDataExportDownloadUrl: (...args: unknown[]) => mockGetDataExportDownloadUrl(...args),
+}))
+
+const completedExport = {
+  id: 'export-1',
+  status: 'completed',
+  completedAt: new Date('2026-10-20T03:00:00Z'),
+  expiresAt: new Date('2026-10-27T03:00:00Z'),
+  createdAt: new Date('2026-10-20T02:00:00Z'),
+  parts: [{ partNumber: 1, fileSize: 2 * 1024 * 1024 }],
+}
+
+describe('DataExportSection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('申し込みボタンを表示する', () => {
+    render(<DataExportSection dataExports={[]} />)
+    expect(screen.getByRole('button', { name: 'データのエクスポートを申し込む' })).toBeInTheDocument()
+  })
+
+  it('申し込むと受付メッセージを表示する', async () => {
+    const user = userEvent.setup()
+    mockRequestDataExport.mockResolvedValue({ success: true })
+    render(<DataExportSection dataExports={[]} />)
+
+    await user.click(screen.getByRole('button', { name: 'データのエクスポートを申し込む' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('申し込みを受け付けました。準備ができたらお知らせします。')).toBeInTheDocument()
+    })
+  })
+
+  it('申し込みに失敗した場合はエラーを表示する', async () => {
+    const user = userEvent.setup()
+    mockRequestDataExport.mockResolvedValue({ error: 'データのエクスポートはすでに準備中です' })
+    render(<DataExportSection dataExports={[]} />)
+
+    await user.click(screen.getByRole('button', { name: 'データのエクスポートを申し込む' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('データのエクスポートはすでに準備中です')).toBeInTheDocument()
+    })
+  })
+
+  it('申し込みの処理状況を表示する', () => {
+    render(
+      <DataExportSection
+        dataExports={[{ ...completedExport, id: 'export-2', status: 'pending', completedAt: null, expiresAt: null, parts: [] }]}
+      />
+    )
+
+    expect(screen.getByText('準備中')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'ダウンロード' })).not.toBeInTheDocument()
+  })
+
+  it('ダウンロードできる申し込みにはサイズと期限を表示する', () => {
+    render(<DataExportSection dataExports={[completedExport]} />)
+
+    expect(screen.getByText('ダウンロードできます')).toBeInTheDocument()
+    expect(screen.getByText(/2 MB・/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'ダウンロード' })).toBeInTheDocument()
+  })
+
+  it('ダウンロードURLの発行に失敗した場合はエラーを表示する', async () => {
+    const user = userEvent.setup()
+    mockGetDataExportDownloadUrl.mockResolvedValue({ error: 'ダウンロードできるデータが見つかりません' })
+    render(<DataExportSection dataExports={[completedExport]} />)
+
+    await user.click(screen.getByRole('button', { name: 'ダウンロード' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('ダウンロードできるデータが見つかりません')).toBeInTheDocument()
+    })
+    expect(mockGetDataExportDownloadUrl).toHaveBeenCalledWith('export-1', 1)
+  })
+
+  it('複数のパートに分かれている場合はパートごとにダウンロードできる', async () => {
+    const user = userEvent.setup()
+    mockGetDataExportDownloadUrl.mockResolvedValue({ error: 'ダウンロードURLの発行に失敗しました' })
+    render(
+      <DataExportSection
+        dataExports={[{
+          ...completedExport,
+          parts: [
+            { partNumber: 1, fileSize: 1024 },
+            { partNumber: 2, fileSize: 1024 * 1024 },
+          ],
+        }]}
+      />
+    )
+
+    expect(screen.getByText(/2個のファイルに分かれています/)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'ダウンロード' })).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'パート2' }))
+
+    await waitFor(() => {
+      expect(mockGetDataExportDownloadUrl).toHaveBeenCalledWith('export-1', 2)
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { DeactivateAccountButton } from '@/components/user/DeactivateAccountButton'
+
+// Next-Auth モック
+const mockSignOut = jest.fn()
+jest.mock('next-auth/react', () => ({
+  signOut: (...args: unknown[]) => mockSignOut(...args),
+  SessionProvider: ({ children }: { children: React.ReactNode }) => children,
+  useSession: () => ({
+    data: { user: { id: 'test-user-id' } },
+    status: 'authenticated',
+  }),
+}))
+
+// Server Actionモック
+const mockDeactivateAccount = jest.fn()
+jest.mock('@/lib/actions/user', () => ({
+  deactivateAccount: () => mockDeactivateAccount(),
+}))
+
+describe('DeactivateAccountButton', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('一時停止ボタンと猶予期間を表示する', () => {
+    render(<DeactivateAccountButton graceDays={30} />)
+
+    expect(screen.getByRole('button', { name: 'アカウントを一時停止' })).toBeInTheDocument()
+    expect(screen.getByText(/30日以内にログインすると元に戻ります/)).toBeInTheDocument()
+  })
+
+  it('クリックで確認ダイアログを表示する', async () => {
+    const user = userEvent.setup()
+    render(<DeactivateAccountButton graceDays={30} />)
+
+    await user.click(screen.getByRole('button', { name: 'アカウントを一時停止' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('アカウントを一時停止しますか？')).toBeInTheDocument()
+    })
+  })
+
+  it('一時停止に成功したらサインアウトしてトップページへリダイレクトする', async () => {
+    mockDeactivateAccount.mockResolvedValue({ success: true })
+    mockSignOut.mockResolvedValue(undefined)
+
+    const user = userEvent.setup()
+    render(<DeactivateAccountButton graceDays={30} />)
+
+    await user.click(screen.getByRole('button', { name: 'アカウントを一時停止' }))
+    await user.click(await screen.findByRole('button', { name: '一時停止する' }))
+
+    await waitFor(() => {
+      expect(mockDeactivateAccount).toHaveBeenCalled()
+      expect(mockSignOut).toHaveBeenCalledWith({ callbackUrl: '/' })
+    })
+  })
+
+  it('エラー時はエラーメッセージを表示する', async () => {
+    mockDeactivateAccount.mockResolvedValue({ error: 'アカウントの一時停止に失敗しました' })
+
+    const user = userEvent.setup()
+    render(<DeactivateAccountButton graceDays={30} />)
+
+    await user.click(screen.getByRole('button', { name: 'アカウントを一時停止' }))
+    await user.click(await screen.findByRole('button', { name: '一時停止する' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('アカウントの一時停止に失敗しました')).toBeInTheDocument()
+    })
+    expect(mockSignOut).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,76 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { EmailSettingsSection } from '@/components/user/EmailSettingsSection'
+
+// Server Actionモック
+const mockResendVerificationEmail = jest.fn()
+const mockRequestEmailChange = jest.fn()
+const mockCancelEmailChange = jest.fn()
+jest.mock('@/lib/actions/email-verification', () => ({
+  resendVerificationEmail: () => mockResendVerificationEmail(),
+  requestEmailChange: (...args: unknown[]) => mockRequestEmailChange(...args),
+  cancelEmailChange: () => mockCancelEmailChange(),
+}))
+
+describe('EmailSettingsSection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('確認済みのメールアドレスを表示する', () => {
+    render(<EmailSettingsSection email="test@example.com" verified pendingEmail={null} />)
+
+    expect(screen.getByText('test@example.com')).toBeInTheDocument()
+    expect(screen.getByText('確認済み')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: '確認メールを再送' })).not.toBeInTheDocument()
+  })
+
+  it('未確認の場合は確認メールを再送できる', async () => {
+    const user = userEvent.setup()
+    mockResendVerificationEmail.mockResolvedValue({ success: true })
+    render(<EmailSettingsSection email="test@example.com" verified={false} pendingEmail={null} />)
+
+    expect(screen.getByText('未確認')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: '確認メールを再送' }))
+
+    expect(await screen.findByText(/確認メールを送信しました/)).toBeInTheDocument()
+  })
+
+  it('新しいメールアドレスへの変更を申請する', async () => {
+    const user = userEvent.setup()
+    mockRequestEmailChange.mockResolvedValue({ success: true })
+    render(<EmailSettingsSection email="test@example.com" verified pendingEmail={null} />)
+
+    await user.type(screen.getByLabelText('新しいメールアドレス'), 'new@example.com')
+    await user.click(screen.getByRole('button', { name: '変更する' }))
+
+    await waitFor(() => {
+      expect(mockRequestEmailChange).toHaveBeenCalledWith('new@example.com')
+    })
+    expect(await screen.findByText(/両方のリンクで確認すると変更が完了します/)).toBeInTheDocument()
+  })
+
+  it('申請に失敗した場合はエラーを表示する', async () => {
+    const user = userEvent.setup()
+    mockRequestEmailChange.mockResolvedValue({ error: 'このメールアドレスは既に登録されています' })
+    render(<EmailSettingsSection email="test@example.com" verified pendingEmail={null} />)
+
+    await user.type(screen.getByLabelText('新しいメールアドレス'), 'taken@example.com')
+    await user.click(screen.getByRole('button', { name: '変更する' }))
+
+    expect(await screen.findByText('このメールアドレスは既に登録されています')).toBeInTheDocument()
+  })
+
+  it('申請中の変更を取り消せる', async () => {
+    const user = userEvent.setup()
+    mockCancelEmailChange.mockResolvedValue({ success: true })
+    render(<EmailSettingsSection email="test@example.com" verified pendingEmail="new@example.com" />)
+
+    expect(screen.getByText('new@example.com')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: '取り消す' }))
+
+    await waitFor(() => {
+      expect(mockCancelEmailChange).toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { render, screen, waitFor } from '../../utils/test-utils'
+import userEvent from '@testing-library/user-event'
+import { PrivacySettingsSection } from '@/components/user/PrivacySettingsSection'
+
+// Server Action モック
+const mockUpdatePrivacySettings = jest.fn()
+jest.mock('@/lib/actions/user', () => ({
+  updatePrivacySettings: (...args: unknown[]) => mockUpdatePrivacySettings(...args),
+}))
+
+// useRouter モック
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}))
+
+const initialSettings = {
+  bonsaiVisibility: 'everyone',
+  likesVisibility: 'followers',
+  followsVisibility: 'everyone',
+  locationVisibility: 'only_me',
+  dmPermission: 'mutual',
+}
+
+describe('PrivacySettingsSection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('項目ごとの現在の設定を表示する', () => {
+    render(<PrivacySettingsSection initialSettings={initialSettings} />)
+
+    expect(screen.getByLabelText('盆栽コレクション')).toHaveValue('everyone')
+    expect(screen.getByLabelText('いいねした投稿')).toHaveValue('followers')
+    expect(screen.getByLabelText('フォロー・フォロワー一覧')).toHaveValue('everyone')
+    expect(screen.getByLabelText('居住地域')).toHaveValue('only_me')
+    expect(screen.getByLabelText('メッセージを受け付ける相手')).toHaveValue('mutual')
+  })
+
+  it('選択を変更すると、その項目だけを保存してページをリフレッシュする', async () => {
+    mockUpdatePrivacySettings.mockResolvedValue({ success: true })
+    const user = userEvent.setup()
+    render(<PrivacySettingsSection initialSettings={initialSettings} />)
+
+    await user.selectOptions(screen.getByLabelText('盆栽コレクション'), 'only_me')
+
+    await waitFor(() => {
+      expect(mockUpdatePrivacySettings).toHaveBeenCalledWith({ bonsaiVisibility: 'only_me' })
+      expect(mockRefresh).toHaveBeenCalled()
+    })
+  })
+
+  it('保存に失敗した場合、選択を元に戻してエラーメッセージを表示する', async () => {
+    mockUpdatePrivacySettings.mockResolvedValue({ error: 'メッセージを受け付ける相手が正しくありません' })
+    const user = userEvent.setup()
+    render(<PrivacySettingsSection initialSettings={initialSettings} />)
+
+    await user.selectOptions(screen.getByLabelText('メッセージを受け付ける相手'), 'nobody')
+
+    await waitFor(() => {
+      expect(screen.getByText('メッセージを受け付ける相手が正しくありません')).toBeInTheDocument()
+    })
+    expect(screen.getByLabelText('メッセージを受け付ける相手')).toHaveValue('mutual')
+    expect(mockRefresh).not.toHaveBeenCalled()
+  })
+})
@@ -32,6 +32,13 @@ jest.mock('@/lib/actions/follow-request', () => ({
   cancelFollowRequest: jest.fn().mockResolvedValue({ success: true }),
 }))
 
+// リスト Server Actions モック
+jest.mock('@/lib/actions/list', () => ({
+  getListsForMember: jest.fn().mockResolvedValue({ lists: [] }),
+  addListMember: jest.fn(),
+  removeListMember: jest.fn(),
+}))
+
 // hooks/use-toast モック
 jest.mock('@/hooks/use-toast', () => ({
   useToast: () => ({
@@ -116,6 +123,16 @@ describe('ProfileHeader', () => {
     expect(screen.getByRole('button', { name: /フォロー/i })).toBeInTheDocument()
   })
 
+  it('非オーナーの場合はリストに追加ボタンを表示する', () => {
+    render(<ProfileHeader user={mockUser} isOwner={false} />)
+    expect(screen.getByRole('button', { name: 'リストに追加' })).toBeInTheDocument()
+  })
+
+  it('オーナーの場合はリストに追加ボタンを表示しない', () => {
+    render(<ProfileHeader user={mockUser} isOwner={true} />)
+    expect(screen.queryByRole('button', { name: 'リストに追加' })).not.toBeInTheDocument()
+  })
+
   it('プレミアム会員の場合はバッジを表示する', () => {
     render(<ProfileHeader user={mockUser} isOwner={false} isPremium={true} />)
     expect(screen.getByText('Premium')).toBeInTheDocument()
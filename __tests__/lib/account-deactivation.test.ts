@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// Stripeモック
+const mockStripe = {
+  subscriptions: {
+    update: jest.fn(),
+  },
+}
+jest.mock('@/lib/stripe', () => ({
+  stripe: mockStripe,
+}))
+
+describe('Account Deactivation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  // ============================================================
+  // 猶予期間
+  // ============================================================
+
+  describe('getAccountDeletionDate', () => {
+    it('一時停止から猶予期間後の日時を返す', async () => {
+      const { getAccountDeletionDate, ACCOUNT_DEACTIVATION_GRACE_DAYS } = await import('@/lib/account-deactivation')
+      const deactivatedAt = new Date('2026-01-01T00:00:00Z')
+
+      const result = getAccountDeletionDate(deactivatedAt)
+
+      expect(result.getTime() - deactivatedAt.getTime()).toBe(ACCOUNT_DEACTIVATION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+    })
+  })
+
+  describe('getDeactivationCutoff', () => {
+    it('基準の日時から猶予期間前の日時を返す', async () => {
+      const { getDeactivationCutoff, ACCOUNT_DEACTIVATION_GRACE_DAYS } = await import('@/lib/account-deactivation')
+      const now = new Date('2026-03-01T00:00:00Z')
+
+      const result = getDeactivationCutoff(now)
+
+      expect(now.getTime() - result.getTime()).toBe(ACCOUNT_DEACTIVATION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+    })
+  })
+
+  describe('isDeactivationExpired', () => {
+    it('猶予期間を過ぎた一時停止のみ true を返す', async () => {
+      const { isDeactivationExpired, ACCOUNT_DEACTIVATION_GRACE_DAYS } = await import('@/lib/account-deactivation')
+      const now = new Date('2026-03-01T00:00:00Z')
+      const day = 24 * 60 * 60 * 1000
+
+      expect(isDeactivationExpired(null, now)).toBe(false)
+      expect(isDeactivationExpired(new Date(now.getTime() - (ACCOUNT_DEACTIVATION_GRACE_DAYS - 1) * day), now)).toBe(false)
+      expect(isDeactivationExpired(new Date(now.getTime() - (ACCOUNT_DEACTIVATION_GRACE_DAYS + 1) * day), now)).toBe(true)
+    })
+  })
+
+  // ============================================================
+  // 課金の一時停止・再開
+  // ============================================================
+
+  describe('pauseSubscriptionBilling', () => {
+    it('サブスクリプションの請求を一時停止する', async () => {
+      const { pauseSubscriptionBilling } = await import('@/lib/account-deactivation')
+
+      await pauseSubscriptionBilling('sub_123')
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        pause_collection: { behavior: 'void' },
+      })
+    })
+  })
+
+  describe('resumeSubscriptionBilling', () => {
+    it('サブスクリプションの請求を再開する', async () => {
+      const { resumeSubscriptionBilling } = await import('@/lib/account-deactivation')
+
+      await resumeSubscriptionBilling('sub_123')
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        pause_collection: '',
+      })
+    })
+  })
+
+  // ============================================================
+  // reactivateAccount
+  // ============================================================
+
+  describe('reactivateAccount', () => {
+    it('一時停止中でなければ何もしない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: null, stripeSubscriptionId: null })
+
+      const { reactivateAccount } = await import('@/lib/account-deactivation')
+      const result = await reactivateAccount('user-1')
+
+      expect(result).toBe(false)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('一時停止を解除する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: new Date(), stripeSubscriptionId: null })
+
+      const { reactivateAccount } = await import('@/lib/account-deactivation')
+      const result = await reactivateAccount('user-1')
+
+      expect(result).toBe(true)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { deactivatedAt: null },
+      })
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled()
+    })
+
+    it('有料会員の場合は課金を再開する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: new Date(), stripeSubscriptionId: 'sub_123' })
+
+      const { reactivateAccount } = await import('@/lib/account-deactivation')
+      await reactivateAccount('user-1')
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        pause_collection: '',
+      })
+      expect(mockPrisma.user.update).toHaveBeenCalled()
+    })
+
+    it('課金を再開できなかった場合は一時停止を解除しない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: new Date(), stripeSubscriptionId: 'sub_123' })
+      mockStripe.subscriptions.update.mockRejectedValueOnce(new Error('Stripe error'))
+
+      const { reactivateAccount } = await import('@/lib/account-deactivation')
+
+      await expect(reactivateAccount('user-1')).rejects.toThrow('Stripe error')
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('猶予期間を過ぎたアカウントは元に戻さない', async () => {
+      const { reactivateAccount, getDeactivationCutoff } = await import('@/lib/account-deactivation')
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        deactivatedAt: new Date(getDeactivationCutoff().getTime() - 60 * 1000),
+        stripeSubscriptionId: 'sub_123',
+      })
+
+      const result = await reactivateAccount('user-1')
+
+      expect(result).toBe(false)
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled()
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -20,6 +20,12 @@ jest.mock('next/cache', () => ({
   revalidatePath: jest.fn(),
 }))
 
+// セキュリティロガーモック
+const mockLogUnauthorizedAccess = jest.fn()
+jest.mock('@/lib/security-logger', () => ({
+  logUnauthorizedAccess: (...args: unknown[]) => mockLogUnauthorizedAccess(...args),
+}))
+
 const mockAdminUser = {
   id: 'admin-user-id',
   userId: mockUser.id,
@@ -76,6 +82,7 @@ describe('Admin Actions', () => {
 
       const { getAdminStats } = await import('@/lib/actions/admin')
       await expect(getAdminStats()).rejects.toThrow('管理者権限が必要です')
+      expect(mockLogUnauthorizedAccess).toHaveBeenCalledWith('admin_action', undefined, mockUser.id)
     })
   })
 
@@ -412,6 +419,98 @@ describe('Admin Actions', () => {
     })
   })
 
+  // ============================================================
+  // getSecurityEvents
+  // ============================================================
+
+  describe('getSecurityEvents', () => {
+    it('セキュリティイベントをユーザーのニックネーム付きで取得できる', async () => {
+      mockPrisma.securityEvent.findMany.mockResolvedValueOnce([
+        { id: 'event-1', type: 'LOGIN_FAILURE', userId: 'user-1', ip: '203.0.113.1', createdAt: new Date() },
+        { id: 'event-2', type: 'LOGIN_FAILURE', userId: 'deleted-user', ip: '203.0.113.1', createdAt: new Date() },
+        { id: 'event-3', type: 'RATE_LIMIT_EXCEEDED', userId: null, ip: '203.0.113.1', createdAt: new Date() },
+      ])
+      mockPrisma.securityEvent.count.mockResolvedValueOnce(3)
+      mockPrisma.user.findMany.mockResolvedValueOnce([{ id: 'user-1', nickname: 'テストユーザー' }])
+
+      const { getSecurityEvents } = await import('@/lib/actions/admin')
+      const result = await getSecurityEvents()
+
+      expect(result.total).toBe(3)
+      expect(result.events.map((event) => event.user)).toEqual([
+        { id: 'user-1', nickname: 'テストユーザー' },
+        null,
+        null,
+      ])
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['user-1', 'deleted-user'] } },
+        select: { id: true, nickname: true },
+      })
+    })
+
+    it('種類・重大度・ユーザー・IPアドレスでフィルターできる', async () => {
+      mockPrisma.securityEvent.findMany.mockResolvedValueOnce([])
+      mockPrisma.securityEvent.count.mockResolvedValueOnce(0)
+
+      const { getSecurityEvents } = await import('@/lib/actions/admin')
+      await getSecurityEvents({ type: 'LOGIN_FAILURE', severity: 'medium', userId: 'user-1', ip: '203.0.113.1' })
+
+      expect(mockPrisma.securityEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { type: 'LOGIN_FAILURE', severity: 'medium', userId: 'user-1', ip: '203.0.113.1' },
+        })
+      )
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled()
+    })
+
+    it('管理者でない場合、エラーを投げる', async () => {
+      mockPrisma.adminUser.findUnique.mockResolvedValueOnce(null)
+
+      const { getSecurityEvents } = await import('@/lib/actions/admin')
+      await expect(getSecurityEvents()).rejects.toThrow('管理者権限が必要です')
+      expect(mockPrisma.securityEvent.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getSecurityEventIpsForUser', () => {
+    it('ユーザーのIPアドレスをイベント数とともに集計する', async () => {
+      const lastSeenAt = new Date()
+      mockPrisma.securityEvent.groupBy.mockResolvedValueOnce([
+        { ip: '203.0.113.1', _count: { _all: 5 }, _max: { createdAt: lastSeenAt } },
+      ])
+
+      const { getSecurityEventIpsForUser } = await import('@/lib/actions/admin')
+      const result = await getSecurityEventIpsForUser('user-1')
+
+      expect(result).toEqual([{ ip: '203.0.113.1', count: 5, lastSeenAt }])
+      expect(mockPrisma.securityEvent.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          by: ['ip'],
+          where: { userId: 'user-1', ip: { not: null } },
+        })
+      )
+    })
+  })
+
+  describe('getSecurityEventUsersForIp', () => {
+    it('IPアドレスのユーザーをイベント数とともに集計する', async () => {
+      const lastSeenAt = new Date()
+      mockPrisma.securityEvent.groupBy.mockResolvedValueOnce([
+        { userId: 'user-1', _count: { _all: 3 }, _max: { createdAt: lastSeenAt } },
+        { userId: 'user-2', _count: { _all: 1 }, _max: { createdAt: lastSeenAt } },
+      ])
+      mockPrisma.user.findMany.mockResolvedValueOnce([{ id: 'user-1', nickname: 'テストユーザー' }])
+
+      const { getSecurityEventUsersForIp } = await import('@/lib/actions/admin')
+      const result = await getSecurityEventUsersForIp('203.0.113.1')
+
+      expect(result).toEqual([
+        { userId: 'user-1', user: { id: 'user-1', nickname: 'テストユーザー' }, count: 3, lastSeenAt },
+        { userId: 'user-2', user: null, count: 1, lastSeenAt },
+      ])
+    })
+  })
+
   // ============================================================
   // isAdmin
   // ============================================================
@@ -63,6 +63,7 @@ jest.mock('@/lib/security-logger', () => ({
   logRegisterSuccess: jest.fn(),
   logPasswordResetRequest: jest.fn(),
   logPasswordResetSuccess: jest.fn(),
+  logRateLimitExceeded: jest.fn(),
 }))
 
 // ログイントラッカーモック
@@ -126,6 +126,27 @@ jest.mock('@/lib/email', () => ({
   sendPasswordResetEmail: mockSendPasswordResetEmail,
 }))
 
+/**
+ * メールアドレスの確認メール送信のモック
+ * ----------------------------------------------------------------------------
+ * 登録直後に送る確認メールのモック。
+ * 送信できたかどうか（true/false）を返します。
+ */
+const mockSendEmailVerification = jest.fn().mockResolvedValue(true)
+jest.mock('@/lib/email-verification', () => ({
+  sendEmailVerification: (...args: unknown[]) => mockSendEmailVerification(...args),
+}))
+
+/**
+ * ログインの通知のモック
+ * ----------------------------------------------------------------------------
+ * ログインを制限したときに持ち主へ送る通知のモック。
+ */
+const mockNotifyLoginLockout = jest.fn().mockResolvedValue(true)
+jest.mock('@/lib/login-alert', () => ({
+  notifyLoginLockout: (...args: unknown[]) => mockNotifyLoginLockout(...args),
+}))
+
 /**
  * ロガーのモック
  * ----------------------------------------------------------------------------
@@ -374,6 +395,17 @@ describe('Auth Actions', () => {
 
       expect(result.locked).toBe(true)
       expect(result.message).toBe('アカウントがロックされました')
+      expect(mockNotifyLoginLockout).toHaveBeenCalledWith('test@example.com', '127.0.0.1')
+    })
+
+    /**
+     * テストケース3: ロックされていない失敗では通知しない
+     */
+    it('ロックアウトでなければ持ち主に通知しない', async () => {
+      const { recordLoginFailure } = await import('@/lib/actions/auth')
+      await recordLoginFailure('test@example.com')
+
+      expect(mockNotifyLoginLockout).not.toHaveBeenCalled()
     })
   })
 
@@ -472,6 +504,36 @@ describe('Auth Actions', () => {
           nickname: '新規ユーザー',
         },
       })
+
+      // 確認メールが送信されることを確認
+      expect(mockSendEmailVerification).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-user-id', email: 'newuser@example.com' })
+      )
+    })
+
+    /**
+     * テストケース: 確認メールの送信に失敗しても登録は完了する
+     *
+     * 確認メールはアカウント設定から再送できるため、
+     * 送信の失敗で登録をやり直させない
+     */
+    it('確認メールの送信に失敗しても登録できる', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(null)
+      mockPrisma.user.create.mockResolvedValueOnce({
+        id: 'new-user-id',
+        email: 'newuser@example.com',
+        nickname: '新規ユーザー',
+      })
+      mockSendEmailVerification.mockRejectedValueOnce(new Error('send failed'))
+
+      const { registerUser } = await import('@/lib/actions/auth')
+      const result = await registerUser({
+        email: 'newuser@example.com',
+        password: 'Password123',
+        nickname: '新規ユーザー',
+      })
+
+      expect(result).toEqual({ success: true, userId: 'new-user-id' })
     })
 
     /**
@@ -673,8 +735,11 @@ describe('Auth Actions', () => {
       // 成功を確認
       expect(result).toEqual({ success: true })
 
-      // パスワードが更新されたことを確認
-      expect(mockPrisma.user.update).toHaveBeenCalled()
+      // パスワードが更新され、パスワードでのログインの停止が解除されたことを確認
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { password: expect.any(String), passwordResetRequired: false },
+      })
 
       // トークンが削除されたことを確認
       expect(mockPrisma.passwordResetToken.deleteMany).toHaveBeenCalledWith({
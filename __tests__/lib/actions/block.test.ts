@@ -54,6 +54,38 @@ describe('Block Actions', () => {
       expect(mockPrisma.$transaction).toHaveBeenCalled()
     })
 
+    it('ブロック時に双方向の親しい友達リストから削除する', async () => {
+      mockPrisma.block.create.mockResolvedValue(mockBlock)
+
+      const { blockUser } = await import('@/lib/actions/block')
+      await blockUser('other-user-id')
+
+      expect(mockPrisma.closeFriend.deleteMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { userId: mockUser.id, friendId: 'other-user-id' },
+            { userId: 'other-user-id', friendId: mockUser.id },
+          ],
+        },
+      })
+    })
+
+    it('ブロック時に双方向のリストのメンバー・フォロワーから削除する', async () => {
+      mockPrisma.block.create.mockResolvedValue(mockBlock)
+
+      const { blockUser } = await import('@/lib/actions/block')
+      await blockUser('other-user-id')
+
+      const where = {
+        OR: [
+          { list: { ownerId: mockUser.id }, userId: 'other-user-id' },
+          { list: { ownerId: 'other-user-id' }, userId: mockUser.id },
+        ],
+      }
+      expect(mockPrisma.userListMember.deleteMany).toHaveBeenCalledWith({ where })
+      expect(mockPrisma.userListFollow.deleteMany).toHaveBeenCalledWith({ where })
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
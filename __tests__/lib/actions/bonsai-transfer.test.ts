@@ -0,0 +1,364 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser, mockBonsai } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// revalidatePathモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// rate-limitモック
+const mockCheckUserRateLimit = jest.fn()
+jest.mock('@/lib/rate-limit', () => ({
+  checkUserRateLimit: (...args: unknown[]) => mockCheckUserRateLimit(...args),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+/**
+ * テスト用の譲渡先ユーザーID
+ */
+const recipientId = 'user-2'
+
+/**
+ * テスト用の譲渡の申し込み
+ */
+const mockTransfer = {
+  id: 'transfer-1',
+  bonsaiId: mockBonsai.id,
+  fromUserId: mockUser.id,
+  toUserId: recipientId,
+  shopId: null,
+  note: null,
+  status: 'pending',
+  respondedAt: null,
+  createdAt: new Date('2026-10-01'),
+}
+
+describe('Bonsai Transfer Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+    mockCheckUserRateLimit.mockResolvedValue({ success: true })
+  })
+
+  // ============================================================
+  // offerBonsaiTransfer
+  // ============================================================
+
+  describe('offerBonsaiTransfer', () => {
+    it('譲渡を申し込み、譲渡先に通知する', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: recipientId, isSuspended: false })
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.bonsaiShop.findFirst.mockResolvedValueOnce({ id: 'shop-1' })
+      mockPrisma.bonsaiTransfer.create.mockResolvedValueOnce(mockTransfer)
+
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer(mockBonsai.id, {
+        toUserId: recipientId,
+        shopId: 'shop-1',
+        note: ' 10年培養 ',
+      })
+
+      expect(result.transfer).toEqual(mockTransfer)
+      expect(mockPrisma.bonsaiTransfer.create).toHaveBeenCalledWith({
+        data: {
+          bonsaiId: mockBonsai.id,
+          fromUserId: mockUser.id,
+          toUserId: recipientId,
+          shopId: 'shop-1',
+          note: '10年培養',
+        },
+      })
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: {
+          userId: recipientId,
+          actorId: mockUser.id,
+          type: 'bonsai_transfer',
+          bonsaiId: mockBonsai.id,
+        },
+      })
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer(mockBonsai.id, { toUserId: recipientId })
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('自分自身には譲渡できない', async () => {
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer(mockBonsai.id, { toUserId: mockUser.id })
+
+      expect(result).toEqual({ error: '自分自身には譲渡できません' })
+    })
+
+    it('他人の盆栽は譲渡できない', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(null)
+
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer('other-bonsai', { toUserId: recipientId })
+
+      expect(result).toEqual({ error: '盆栽が見つかりません' })
+      expect(mockPrisma.bonsaiTransfer.create).not.toHaveBeenCalled()
+    })
+
+    it('停止中のユーザーには譲渡できない', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: recipientId, isSuspended: true })
+
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer(mockBonsai.id, { toUserId: recipientId })
+
+      expect(result).toEqual({ error: '譲渡先のユーザーが見つかりません' })
+    })
+
+    it('ブロック関係がある場合はエラーを返す', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: recipientId, isSuspended: false })
+      mockPrisma.block.findFirst.mockResolvedValueOnce({ id: 'block-1' })
+
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer(mockBonsai.id, { toUserId: recipientId })
+
+      expect(result).toEqual({ error: 'このユーザーには譲渡を申し込めません' })
+    })
+
+    it('申し込み中の譲渡がある場合はエラーを返す', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: recipientId, isSuspended: false })
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce(mockTransfer)
+
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer(mockBonsai.id, { toUserId: recipientId })
+
+      expect(result).toEqual({ error: 'この盆栽は既に譲渡を申し込み中です' })
+    })
+
+    it('レート制限を超えた場合はエラーを返す', async () => {
+      mockCheckUserRateLimit.mockResolvedValueOnce({ success: false })
+
+      const { offerBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await offerBonsaiTransfer(mockBonsai.id, { toUserId: recipientId })
+
+      expect(result).toEqual({ error: '操作が多すぎます。しばらく待ってから再試行してください' })
+    })
+  })
+
+  // ============================================================
+  // acceptBonsaiTransfer
+  // ============================================================
+
+  describe('acceptBonsaiTransfer', () => {
+    beforeEach(() => {
+      mockAuth.mockResolvedValue({ user: { id: recipientId } })
+      // トランザクション内の操作もPrismaモックで確認する
+      mockPrisma.$transaction.mockImplementation(async (callbackOrArray) =>
+        Array.isArray(callbackOrArray) ? Promise.all(callbackOrArray) : callbackOrArray(mockPrisma)
+      )
+      mockPrisma.bonsaiTransfer.updateMany.mockResolvedValue({ count: 1 })
+      mockPrisma.bonsai.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    it('承諾すると所有者が変わり、前の所有者のお手入れ予定を削除する', async () => {
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce({
+        ...mockTransfer,
+        bonsai: { id: mockBonsai.id, userId: mockUser.id },
+      })
+
+      const { acceptBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await acceptBonsaiTransfer(mockTransfer.id)
+
+      expect(result).toEqual({ success: true, bonsaiId: mockBonsai.id })
+      expect(mockPrisma.bonsaiTransfer.updateMany).toHaveBeenCalledWith({
+        where: { id: mockTransfer.id, toUserId: recipientId, status: 'pending' },
+        data: { status: 'accepted', respondedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.bonsai.updateMany).toHaveBeenCalledWith({
+        where: { id: mockBonsai.id, userId: mockUser.id },
+        data: { userId: recipientId, acquiredAt: expect.any(Date) },
+      })
+      expect(mockPrisma.bonsaiCareTask.deleteMany).toHaveBeenCalledWith({
+        where: { bonsaiId: mockBonsai.id },
+      })
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: mockUser.id, type: 'bonsai_transfer_accepted' }),
+      })
+    })
+
+    it('自分宛てでない申し込みは承諾できない', async () => {
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce(null)
+
+      const { acceptBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await acceptBonsaiTransfer('other-transfer')
+
+      expect(result).toEqual({ error: '譲渡の申し込みが見つかりません' })
+      expect(mockPrisma.bonsai.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('申し込み後に所有者が変わっていた場合は承諾できない', async () => {
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce({
+        ...mockTransfer,
+        bonsai: { id: mockBonsai.id, userId: 'user-3' },
+      })
+
+      const { acceptBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await acceptBonsaiTransfer(mockTransfer.id)
+
+      expect(result).toEqual({ error: 'この申し込みは無効になっています' })
+      expect(mockPrisma.bonsai.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('確認後に申し込みが取り消されていた場合は所有者を変更しない', async () => {
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce({
+        ...mockTransfer,
+        bonsai: { id: mockBonsai.id, userId: mockUser.id },
+      })
+      mockPrisma.bonsaiTransfer.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const { acceptBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await acceptBonsaiTransfer(mockTransfer.id)
+
+      expect(result).toEqual({ error: 'この申し込みは無効になっています' })
+      expect(mockPrisma.bonsai.updateMany).not.toHaveBeenCalled()
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled()
+    })
+
+    it('確認後に所有者が変わっていた場合は承諾を取り消す', async () => {
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce({
+        ...mockTransfer,
+        bonsai: { id: mockBonsai.id, userId: mockUser.id },
+      })
+      mockPrisma.bonsai.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const { acceptBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await acceptBonsaiTransfer(mockTransfer.id)
+
+      // トランザクションを例外で中断し、承諾済みへの更新もロールバックさせる
+      await expect(mockPrisma.$transaction.mock.results[0].value).rejects.toThrow()
+      expect(result).toEqual({ error: 'この申し込みは無効になっています' })
+      expect(mockPrisma.bonsaiCareTask.deleteMany).not.toHaveBeenCalled()
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // declineBonsaiTransfer
+  // ============================================================
+
+  describe('declineBonsaiTransfer', () => {
+    it('辞退すると申し込みを辞退済みにする', async () => {
+      mockAuth.mockResolvedValue({ user: { id: recipientId } })
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce(mockTransfer)
+
+      const { declineBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await declineBonsaiTransfer(mockTransfer.id)
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.bonsaiTransfer.update).toHaveBeenCalledWith({
+        where: { id: mockTransfer.id },
+        data: { status: 'declined', respondedAt: expect.any(Date) },
+      })
+    })
+  })
+
+  // ============================================================
+  // cancelBonsaiTransfer
+  // ============================================================
+
+  describe('cancelBonsaiTransfer', () => {
+    it('取り消すと申し込みの通知も削除する', async () => {
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce(mockTransfer)
+
+      const { cancelBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await cancelBonsaiTransfer(mockTransfer.id)
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.bonsaiTransfer.update).toHaveBeenCalledWith({
+        where: { id: mockTransfer.id },
+        data: { status: 'cancelled', respondedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.notification.deleteMany).toHaveBeenCalledWith({
+        where: {
+          userId: recipientId,
+          actorId: mockUser.id,
+          type: 'bonsai_transfer',
+          bonsaiId: mockBonsai.id,
+        },
+      })
+    })
+
+    it('他人の申し込みは取り消せない', async () => {
+      mockPrisma.bonsaiTransfer.findFirst.mockResolvedValueOnce(null)
+
+      const { cancelBonsaiTransfer } = await import('@/lib/actions/bonsai-transfer')
+      const result = await cancelBonsaiTransfer('other-transfer')
+
+      expect(result).toEqual({ error: '譲渡の申し込みが見つかりません' })
+    })
+  })
+
+  // ============================================================
+  // getBonsaiProvenance
+  // ============================================================
+
+  describe('getBonsaiProvenance', () => {
+    it('承諾された譲渡を古い順に取得する', async () => {
+      mockPrisma.bonsaiTransfer.findMany.mockResolvedValueOnce([{ ...mockTransfer, status: 'accepted' }])
+
+      const { getBonsaiProvenance } = await import('@/lib/actions/bonsai-transfer')
+      const result = await getBonsaiProvenance(mockBonsai.id)
+
+      expect(result.transfers).toHaveLength(1)
+      expect(mockPrisma.bonsaiTransfer.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { bonsaiId: mockBonsai.id, status: 'accepted' },
+          orderBy: { respondedAt: 'asc' },
+        })
+      )
+    })
+  })
+
+  // ============================================================
+  // getReceivedBonsaiTransfers
+  // ============================================================
+
+  describe('getReceivedBonsaiTransfers', () => {
+    it('未認証の場合、空配列を返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getReceivedBonsaiTransfers } = await import('@/lib/actions/bonsai-transfer')
+      const result = await getReceivedBonsaiTransfers()
+
+      expect(result).toEqual({ transfers: [] })
+    })
+  })
+})
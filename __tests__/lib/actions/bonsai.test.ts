@@ -78,7 +78,34 @@ describe('Bonsai Actions', () => {
       expect(result.bonsais).toBeDefined()
       expect(mockPrisma.bonsai.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { userId: 'other-user-id' },
+          where: {
+            userId: 'other-user-id',
+            user: {
+              deactivatedAt: null,
+              OR: [
+                { id: mockUser.id },
+                { bonsaiVisibility: 'everyone' },
+                { bonsaiVisibility: 'followers', followers: { some: { followerId: mockUser.id } } },
+              ],
+            },
+          },
+        })
+      )
+    })
+
+    it('未ログインの場合、盆栽コレクションを全員に公開しているユーザーの盆栽のみを取得する', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+      mockPrisma.bonsai.findMany.mockResolvedValueOnce([])
+
+      const { getBonsais } = await import('@/lib/actions/bonsai')
+      await getBonsais('other-user-id')
+
+      expect(mockPrisma.bonsai.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'other-user-id',
+            user: { deactivatedAt: null, bonsaiVisibility: 'everyone' },
+          },
         })
       )
     })
@@ -164,6 +191,40 @@ describe('Bonsai Actions', () => {
       })
     })
 
+    it('樹種が樹種マスタと一致すれば紐付ける', async () => {
+      mockPrisma.bonsaiSpecies.findFirst.mockResolvedValueOnce({ id: 'species-kuromatsu' })
+      mockPrisma.bonsai.create.mockResolvedValueOnce(mockBonsai)
+
+      const { createBonsai } = await import('@/lib/actions/bonsai')
+      await createBonsai({ name: '一号', species: ' クロマツ ' })
+
+      expect(mockPrisma.bonsaiSpecies.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: expect.arrayContaining([
+              { name: { in: ['クロマツ', 'くろまつ'] } },
+              { aliases: { hasSome: ['クロマツ', 'くろまつ'] } },
+            ]),
+          },
+        })
+      )
+      expect(mockPrisma.bonsai.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ speciesId: 'species-kuromatsu' }),
+      })
+    })
+
+    it('樹種マスタに一致しない樹種は自由記述のみ保存する', async () => {
+      mockPrisma.bonsaiSpecies.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.bonsai.create.mockResolvedValueOnce(mockBonsai)
+
+      const { createBonsai } = await import('@/lib/actions/bonsai')
+      await createBonsai({ name: '一号', species: '姫沙羅' })
+
+      expect(mockPrisma.bonsai.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ species: '姫沙羅', speciesId: null }),
+      })
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
@@ -207,6 +268,34 @@ describe('Bonsai Actions', () => {
       expect(result).toEqual({ error: '認証が必要です' })
     })
 
+    it('樹種を変更した場合は樹種マスタと照合し直す', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.bonsaiSpecies.findFirst.mockResolvedValueOnce({ id: 'species-goyomatsu' })
+      mockPrisma.bonsai.update.mockResolvedValueOnce(mockBonsai)
+
+      const { updateBonsai } = await import('@/lib/actions/bonsai')
+      await updateBonsai(mockBonsai.id, { species: '五葉松' })
+
+      expect(mockPrisma.bonsai.update).toHaveBeenCalledWith({
+        where: { id: mockBonsai.id },
+        data: expect.objectContaining({ species: '五葉松', speciesId: 'species-goyomatsu' }),
+      })
+    })
+
+    it('樹種を変更しない場合は樹種マスタを照合しない', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.bonsai.update.mockResolvedValueOnce(mockBonsai)
+
+      const { updateBonsai } = await import('@/lib/actions/bonsai')
+      await updateBonsai(mockBonsai.id, { name: '更新後の名前' })
+
+      expect(mockPrisma.bonsaiSpecies.findFirst).not.toHaveBeenCalled()
+      expect(mockPrisma.bonsai.update).toHaveBeenCalledWith({
+        where: { id: mockBonsai.id },
+        data: expect.objectContaining({ speciesId: undefined }),
+      })
+    })
+
     it('盆栽が見つからない場合、エラーを返す', async () => {
       mockPrisma.bonsai.findFirst.mockResolvedValueOnce(null)
 
@@ -289,6 +378,49 @@ describe('Bonsai Actions', () => {
       expect(result.record).toBeDefined()
     })
 
+    it('種類と詳細を指定して記録を追加できる（種類に関係ない詳細は保存しない）', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.bonsaiRecord.create.mockResolvedValueOnce({ ...mockBonsaiRecord, images: [] })
+
+      const { addBonsaiRecord } = await import('@/lib/actions/bonsai')
+      const result = await addBonsaiRecord({
+        bonsaiId: mockBonsai.id,
+        type: 'repotting',
+        details: { soilMix: ' 赤玉土7・桐生砂3 ', potSize: '5号', heightCm: 30 },
+      })
+
+      expect(result.record).toBeDefined()
+      expect(mockPrisma.bonsaiRecord.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'repotting',
+            soilMix: '赤玉土7・桐生砂3',
+            potSize: '5号',
+            heightCm: null,
+          }),
+        })
+      )
+    })
+
+    it('不正な種類はエラーを返す', async () => {
+      const { addBonsaiRecord } = await import('@/lib/actions/bonsai')
+      const result = await addBonsaiRecord({ bonsaiId: mockBonsai.id, type: 'dancing' })
+
+      expect(result).toEqual({ error: '記録の種類が不正です' })
+      expect(mockPrisma.bonsaiRecord.create).not.toHaveBeenCalled()
+    })
+
+    it('不正な計測値はエラーを返す', async () => {
+      const { addBonsaiRecord } = await import('@/lib/actions/bonsai')
+      const result = await addBonsaiRecord({
+        bonsaiId: mockBonsai.id,
+        type: 'measurement',
+        details: { heightCm: -5 },
+      })
+
+      expect(result).toEqual({ error: '樹高は正しい数値で入力してください' })
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
@@ -347,6 +479,25 @@ describe('Bonsai Actions', () => {
 
       expect(result).toEqual({ error: '成長記録が見つかりません' })
     })
+
+    it('種類を変更すると前の種類の詳細をクリアする', async () => {
+      mockPrisma.bonsaiRecord.findFirst.mockResolvedValueOnce({
+        ...mockBonsaiRecord,
+        type: 'repotting',
+        soilMix: '赤玉土',
+        bonsai: { userId: mockUser.id },
+      })
+      mockPrisma.bonsaiRecord.update.mockResolvedValueOnce({ ...mockBonsaiRecord, images: [] })
+
+      const { updateBonsaiRecord } = await import('@/lib/actions/bonsai')
+      await updateBonsaiRecord(mockBonsaiRecord.id, { type: 'measurement', details: { heightCm: 30 } })
+
+      expect(mockPrisma.bonsaiRecord.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ type: 'measurement', heightCm: 30, soilMix: null }),
+        })
+      )
+    })
   })
 
   // ============================================================
@@ -461,6 +612,30 @@ describe('Bonsai Actions', () => {
       expect(result.bonsais).toHaveLength(1)
     })
 
+    it('樹種マスタの読み・別名でも検索する', async () => {
+      mockPrisma.bonsai.findMany.mockResolvedValueOnce([])
+
+      const { searchBonsais } = await import('@/lib/actions/bonsai')
+      await searchBonsais('クロマツ')
+
+      expect(mockPrisma.bonsai.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: expect.arrayContaining([
+              {
+                catalogSpecies: {
+                  OR: expect.arrayContaining([
+                    { nameKana: { contains: 'くろまつ' } },
+                    { aliases: { hasSome: ['クロマツ', 'くろまつ'] } },
+                  ]),
+                },
+              },
+            ]),
+          }),
+        })
+      )
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
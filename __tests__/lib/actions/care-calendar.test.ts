@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+const bonsais = [
+  {
+    id: 'bonsai-1',
+    name: '黒松の模様木',
+    catalogSpecies: { slug: 'kuromatsu', name: '黒松', category: 'conifer' },
+  },
+  {
+    id: 'bonsai-2',
+    name: '山もみじ',
+    catalogSpecies: { slug: 'momiji', name: 'もみじ', category: 'deciduous' },
+  },
+  { id: 'bonsai-3', name: '名前のわからない木', catalogSpecies: null },
+]
+
+describe('Care Calendar Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+  })
+
+  // ============================================================
+  // getMonthlyCareCalendar
+  // ============================================================
+
+  describe('getMonthlyCareCalendar', () => {
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getMonthlyCareCalendar } = await import('@/lib/actions/care-calendar')
+      const result = await getMonthlyCareCalendar({ year: 2026, month: 3 })
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('不正な月の場合、エラーを返す', async () => {
+      const { getMonthlyCareCalendar } = await import('@/lib/actions/care-calendar')
+      const result = await getMonthlyCareCalendar({ year: 2026, month: 13 })
+
+      expect(result).toEqual({ error: '月の指定が不正です' })
+      expect(mockPrisma.bonsai.findMany).not.toHaveBeenCalled()
+    })
+
+    it('居住地域の気候区分で作業と対象の盆栽を返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ location: '北海道' })
+      mockPrisma.bonsai.findMany.mockResolvedValueOnce(bonsais)
+
+      const { getMonthlyCareCalendar } = await import('@/lib/actions/care-calendar')
+      const result = await getMonthlyCareCalendar({ year: 2026, month: 7 })
+
+      if ('error' in result) throw new Error(result.error)
+      expect(result.zone).toEqual({ value: 'cold', label: '寒冷地' })
+      expect(result.location).toBe('北海道')
+      expect(result.unlinkedBonsaiCount).toBe(1)
+      expect(mockPrisma.bonsai.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: mockUser.id } })
+      )
+
+      // 寒冷地では芽切りが7月にずれ込む
+      const candleCutting = result.items.find((item) => item.id === 'candle-cutting')
+      expect(candleCutting?.bonsais).toEqual([{ id: 'bonsai-1', name: '黒松の模様木', speciesName: '黒松' }])
+      const leafCutting = result.items.find((item) => item.id === 'leaf-cutting')
+      expect(leafCutting?.bonsais.map((b) => b.id)).toEqual(['bonsai-2'])
+    })
+
+    it('居住地域が判定できない場合は温暖地として扱う', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ location: 'アメリカ' })
+      mockPrisma.bonsai.findMany.mockResolvedValueOnce(bonsais)
+
+      const { getMonthlyCareCalendar } = await import('@/lib/actions/care-calendar')
+      const result = await getMonthlyCareCalendar({ year: 2026, month: 3 })
+
+      if ('error' in result) throw new Error(result.error)
+      expect(result.zone).toEqual({ value: 'temperate', label: '温暖地' })
+      expect(result.location).toBeNull()
+      expect(result.items.map((item) => item.id)).toContain('repotting')
+    })
+
+    it('取得に失敗した場合、エラーを返す', async () => {
+      mockPrisma.user.findUnique.mockRejectedValueOnce(new Error('Database error'))
+
+      const { getMonthlyCareCalendar } = await import('@/lib/actions/care-calendar')
+      const result = await getMonthlyCareCalendar({ year: 2026, month: 3 })
+
+      expect(result).toEqual({ error: 'お手入れカレンダーの取得に失敗しました' })
+    })
+  })
+
+  // ============================================================
+  // getWeeklyCareCalendar
+  // ============================================================
+
+  describe('getWeeklyCareCalendar', () => {
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getWeeklyCareCalendar } = await import('@/lib/actions/care-calendar')
+      const result = await getWeeklyCareCalendar()
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('今日から7日間の作業を返す', async () => {
+      jest.useFakeTimers({ now: new Date(2026, 5, 20, 10, 0) })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ location: '東京都' })
+      mockPrisma.bonsai.findMany.mockResolvedValueOnce([bonsais[0]])
+
+      const { getWeeklyCareCalendar } = await import('@/lib/actions/care-calendar')
+      const result = await getWeeklyCareCalendar()
+      jest.useRealTimers()
+
+      if ('error' in result) throw new Error(result.error)
+      expect(result.items.map((item) => item.id)).toEqual(['candle-cutting'])
+    })
+  })
+})
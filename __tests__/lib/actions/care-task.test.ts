@@ -0,0 +1,338 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser, mockBonsai } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// revalidatePathモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+/**
+ * テスト用のお手入れ予定
+ */
+const mockCareTask = {
+  id: 'task-1',
+  bonsaiId: mockBonsai.id,
+  userId: mockUser.id,
+  type: 'watering',
+  note: null,
+  intervalDays: 3,
+  dueAt: new Date('2026-10-20T00:00:00'),
+  emailReminder: false,
+  isActive: true,
+  lastCompletedAt: null,
+  lastNotifiedAt: null,
+  createdAt: new Date('2026-10-01'),
+  updatedAt: new Date('2026-10-01'),
+}
+
+describe('Care Task Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+  })
+
+  // ============================================================
+  // getCareTasks
+  // ============================================================
+
+  describe('getCareTasks', () => {
+    it('自分の盆栽の有効な予定を期日順に取得する', async () => {
+      mockPrisma.bonsaiCareTask.findMany.mockResolvedValueOnce([mockCareTask])
+
+      const { getCareTasks } = await import('@/lib/actions/care-task')
+      const result = await getCareTasks(mockBonsai.id)
+
+      expect(result.tasks).toHaveLength(1)
+      expect(mockPrisma.bonsaiCareTask.findMany).toHaveBeenCalledWith({
+        where: { bonsaiId: mockBonsai.id, userId: mockUser.id, isActive: true },
+        orderBy: { dueAt: 'asc' },
+      })
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getCareTasks } = await import('@/lib/actions/care-task')
+      const result = await getCareTasks(mockBonsai.id)
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+  })
+
+  // ============================================================
+  // getUpcomingCareTasks
+  // ============================================================
+
+  describe('getUpcomingCareTasks', () => {
+    it('期日が近い予定を盆栽情報付きで取得する', async () => {
+      mockPrisma.bonsaiCareTask.findMany.mockResolvedValueOnce([
+        { ...mockCareTask, bonsai: { id: mockBonsai.id, name: mockBonsai.name } },
+      ])
+
+      const { getUpcomingCareTasks } = await import('@/lib/actions/care-task')
+      const result = await getUpcomingCareTasks()
+
+      expect(result.tasks).toHaveLength(1)
+      expect(mockPrisma.bonsaiCareTask.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: mockUser.id,
+            isActive: true,
+            dueAt: { lte: expect.any(Date) },
+          }),
+        })
+      )
+    })
+
+    it('未認証の場合、空配列を返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getUpcomingCareTasks } = await import('@/lib/actions/care-task')
+      const result = await getUpcomingCareTasks()
+
+      expect(result).toEqual({ tasks: [] })
+    })
+  })
+
+  // ============================================================
+  // createCareTask
+  // ============================================================
+
+  describe('createCareTask', () => {
+    const input = {
+      type: 'wire_removal',
+      dueAt: new Date('2026-11-01T00:00:00'),
+      note: ' 一の枝に注意 ',
+      emailReminder: true,
+    }
+
+    it('お手入れ予定を登録できる', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.bonsaiCareTask.count.mockResolvedValueOnce(0)
+      mockPrisma.bonsaiCareTask.create.mockResolvedValueOnce(mockCareTask)
+
+      const { createCareTask } = await import('@/lib/actions/care-task')
+      const result = await createCareTask(mockBonsai.id, input)
+
+      expect(result.task).toBeDefined()
+      expect(mockPrisma.bonsaiCareTask.create).toHaveBeenCalledWith({
+        data: {
+          bonsaiId: mockBonsai.id,
+          userId: mockUser.id,
+          type: 'wire_removal',
+          dueAt: input.dueAt,
+          intervalDays: null,
+          note: '一の枝に注意',
+          emailReminder: true,
+        },
+      })
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { createCareTask } = await import('@/lib/actions/care-task')
+      const result = await createCareTask(mockBonsai.id, input)
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('不正な作業種別はエラーを返す', async () => {
+      const { createCareTask } = await import('@/lib/actions/care-task')
+      const result = await createCareTask(mockBonsai.id, { ...input, type: 'dancing' })
+
+      expect(result).toEqual({ error: '作業の種類が不正です' })
+    })
+
+    it('不正な期日はエラーを返す', async () => {
+      const { createCareTask } = await import('@/lib/actions/care-task')
+      const result = await createCareTask(mockBonsai.id, { ...input, dueAt: new Date('invalid') })
+
+      expect(result).toEqual({ error: '期日を正しく入力してください' })
+    })
+
+    it('範囲外の繰り返し間隔はエラーを返す', async () => {
+      const { createCareTask } = await import('@/lib/actions/care-task')
+      const result = await createCareTask(mockBonsai.id, { ...input, intervalDays: 0 })
+
+      expect(result).toEqual({ error: '繰り返し間隔は1〜365日で指定してください' })
+    })
+
+    it('他人の盆栽にはエラーを返す', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(null)
+
+      const { createCareTask } = await import('@/lib/actions/care-task')
+      const result = await createCareTask('other-bonsai', input)
+
+      expect(result).toEqual({ error: '盆栽が見つかりません' })
+      expect(mockPrisma.bonsaiCareTask.create).not.toHaveBeenCalled()
+    })
+
+    it('予定の上限に達している場合、エラーを返す', async () => {
+      mockPrisma.bonsai.findFirst.mockResolvedValueOnce(mockBonsai)
+      mockPrisma.bonsaiCareTask.count.mockResolvedValueOnce(20)
+
+      const { createCareTask } = await import('@/lib/actions/care-task')
+      const result = await createCareTask(mockBonsai.id, input)
+
+      expect(result).toEqual({ error: 'お手入れ予定は1つの盆栽につき20件までです' })
+    })
+  })
+
+  // ============================================================
+  // updateCareTask
+  // ============================================================
+
+  describe('updateCareTask', () => {
+    it('期日を変更すると通知済みフラグをリセットする', async () => {
+      const dueAt = new Date('2026-11-08T00:00:00')
+      mockPrisma.bonsaiCareTask.findFirst.mockResolvedValueOnce(mockCareTask)
+      mockPrisma.bonsaiCareTask.update.mockResolvedValueOnce({ ...mockCareTask, dueAt })
+
+      const { updateCareTask } = await import('@/lib/actions/care-task')
+      const result = await updateCareTask(mockCareTask.id, { dueAt })
+
+      expect(result.task).toBeDefined()
+      expect(mockPrisma.bonsaiCareTask.update).toHaveBeenCalledWith({
+        where: { id: mockCareTask.id },
+        data: expect.objectContaining({ dueAt, lastNotifiedAt: null }),
+      })
+    })
+
+    it('他人の予定は更新できない', async () => {
+      mockPrisma.bonsaiCareTask.findFirst.mockResolvedValueOnce(null)
+
+      const { updateCareTask } = await import('@/lib/actions/care-task')
+      const result = await updateCareTask('other-task', { emailReminder: true })
+
+      expect(result).toEqual({ error: 'お手入れ予定が見つかりません' })
+    })
+  })
+
+  // ============================================================
+  // deleteCareTask
+  // ============================================================
+
+  describe('deleteCareTask', () => {
+    it('お手入れ予定を削除できる', async () => {
+      mockPrisma.bonsaiCareTask.findFirst.mockResolvedValueOnce(mockCareTask)
+      mockPrisma.bonsaiCareTask.delete.mockResolvedValueOnce(mockCareTask)
+
+      const { deleteCareTask } = await import('@/lib/actions/care-task')
+      const result = await deleteCareTask(mockCareTask.id)
+
+      expect(result).toEqual({ success: true })
+    })
+
+    it('他人の予定は削除できない', async () => {
+      mockPrisma.bonsaiCareTask.findFirst.mockResolvedValueOnce(null)
+
+      const { deleteCareTask } = await import('@/lib/actions/care-task')
+      const result = await deleteCareTask('other-task')
+
+      expect(result).toEqual({ error: 'お手入れ予定が見つかりません' })
+      expect(mockPrisma.bonsaiCareTask.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // completeCareTask
+  // ============================================================
+
+  describe('completeCareTask', () => {
+    it('完了すると成長記録を作成し、繰り返し予定は次回期日に更新する', async () => {
+      mockPrisma.bonsaiCareTask.findFirst.mockResolvedValueOnce(mockCareTask)
+      mockPrisma.bonsaiRecord.create.mockResolvedValueOnce({ id: 'record-1' })
+      mockPrisma.bonsaiCareTask.update.mockResolvedValueOnce({})
+
+      const { completeCareTask } = await import('@/lib/actions/care-task')
+      const result = await completeCareTask(mockCareTask.id, { comment: 'たっぷりと' })
+
+      expect(result.record).toEqual({ id: 'record-1' })
+      expect(result.nextDueAt).toBeInstanceOf(Date)
+      expect(mockPrisma.bonsaiRecord.create).toHaveBeenCalledWith({
+        data: {
+          bonsaiId: mockBonsai.id,
+          type: 'general',
+          content: '【水やり】たっぷりと',
+          recordAt: expect.any(Date),
+        },
+      })
+      expect(mockPrisma.bonsaiCareTask.update).toHaveBeenCalledWith({
+        where: { id: mockCareTask.id },
+        data: {
+          dueAt: result.nextDueAt,
+          lastCompletedAt: expect.any(Date),
+          lastNotifiedAt: null,
+        },
+      })
+    })
+
+    it('1回のみの予定は完了すると無効化する', async () => {
+      mockPrisma.bonsaiCareTask.findFirst.mockResolvedValueOnce({
+        ...mockCareTask,
+        type: 'wire_removal',
+        intervalDays: null,
+        note: '一の枝',
+      })
+      mockPrisma.bonsaiRecord.create.mockResolvedValueOnce({ id: 'record-1' })
+      mockPrisma.bonsaiCareTask.update.mockResolvedValueOnce({})
+
+      const { completeCareTask } = await import('@/lib/actions/care-task')
+      const result = await completeCareTask(mockCareTask.id)
+
+      expect(result.nextDueAt).toBeNull()
+      expect(mockPrisma.bonsaiRecord.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'wiring', content: '【針金外し】一の枝' }),
+      })
+      expect(mockPrisma.bonsaiCareTask.update).toHaveBeenCalledWith({
+        where: { id: mockCareTask.id },
+        data: { isActive: false, lastCompletedAt: expect.any(Date) },
+      })
+    })
+
+    it('完了済みの予定はエラーを返す', async () => {
+      mockPrisma.bonsaiCareTask.findFirst.mockResolvedValueOnce({ ...mockCareTask, isActive: false })
+
+      const { completeCareTask } = await import('@/lib/actions/care-task')
+      const result = await completeCareTask(mockCareTask.id)
+
+      expect(result).toEqual({ error: 'お手入れ予定が見つかりません' })
+      expect(mockPrisma.bonsaiRecord.create).not.toHaveBeenCalled()
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { completeCareTask } = await import('@/lib/actions/care-task')
+      const result = await completeCareTask(mockCareTask.id)
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+  })
+})
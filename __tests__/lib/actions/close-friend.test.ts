@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// revalidatePathモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('Close Friend Actions', () => {
+  const friend = { id: 'friend-id', nickname: '友達', avatarUrl: null, bio: null }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+  })
+
+  // ============================================================
+  // addCloseFriend
+  // ============================================================
+
+  describe('addCloseFriend', () => {
+    it('フォロワーを親しい友達に追加できる', async () => {
+      mockPrisma.follow.findUnique.mockResolvedValueOnce({ followerId: 'friend-id', followingId: mockUser.id })
+      mockPrisma.closeFriend.findUnique.mockResolvedValueOnce(null)
+      mockPrisma.closeFriend.count.mockResolvedValueOnce(0)
+      mockPrisma.closeFriend.create.mockResolvedValueOnce({})
+
+      const { addCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await addCloseFriend('friend-id')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.closeFriend.create).toHaveBeenCalledWith({
+        data: { userId: mockUser.id, friendId: 'friend-id' },
+      })
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { addCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await addCloseFriend('friend-id')
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('自分自身は追加できない', async () => {
+      const { addCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await addCloseFriend(mockUser.id)
+
+      expect(result).toEqual({ error: '自分自身を追加できません' })
+    })
+
+    it('フォロワーでないユーザーは追加できない', async () => {
+      mockPrisma.follow.findUnique.mockResolvedValueOnce(null)
+
+      const { addCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await addCloseFriend('friend-id')
+
+      expect(result).toEqual({ error: 'フォロワーのみ親しい友達に追加できます' })
+      expect(mockPrisma.closeFriend.create).not.toHaveBeenCalled()
+    })
+
+    it('追加済みの場合、エラーを返す', async () => {
+      mockPrisma.follow.findUnique.mockResolvedValueOnce({ followerId: 'friend-id', followingId: mockUser.id })
+      mockPrisma.closeFriend.findUnique.mockResolvedValueOnce({ userId: mockUser.id, friendId: 'friend-id' })
+
+      const { addCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await addCloseFriend('friend-id')
+
+      expect(result).toEqual({ error: '既に親しい友達に追加されています' })
+    })
+
+    it('上限に達している場合、エラーを返す', async () => {
+      mockPrisma.follow.findUnique.mockResolvedValueOnce({ followerId: 'friend-id', followingId: mockUser.id })
+      mockPrisma.closeFriend.findUnique.mockResolvedValueOnce(null)
+      mockPrisma.closeFriend.count.mockResolvedValueOnce(100)
+
+      const { addCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await addCloseFriend('friend-id')
+
+      expect(result).toEqual({ error: '親しい友達は100人まで追加できます' })
+    })
+  })
+
+  // ============================================================
+  // removeCloseFriend
+  // ============================================================
+
+  describe('removeCloseFriend', () => {
+    it('親しい友達から削除できる', async () => {
+      mockPrisma.closeFriend.deleteMany.mockResolvedValueOnce({ count: 1 })
+
+      const { removeCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await removeCloseFriend('friend-id')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.closeFriend.deleteMany).toHaveBeenCalledWith({
+        where: { userId: mockUser.id, friendId: 'friend-id' },
+      })
+    })
+
+    it('削除に失敗した場合、エラーを返す', async () => {
+      mockPrisma.closeFriend.deleteMany.mockRejectedValueOnce(new Error('Database error'))
+
+      const { removeCloseFriend } = await import('@/lib/actions/close-friend')
+      const result = await removeCloseFriend('friend-id')
+
+      expect(result).toEqual({ error: '親しい友達の削除に失敗しました' })
+    })
+  })
+
+  // ============================================================
+  // getCloseFriends
+  // ============================================================
+
+  describe('getCloseFriends', () => {
+    it('親しい友達の一覧を取得できる', async () => {
+      mockPrisma.closeFriend.findMany.mockResolvedValueOnce([{ friend }])
+
+      const { getCloseFriends } = await import('@/lib/actions/close-friend')
+      const result = await getCloseFriends()
+
+      expect(result.users).toEqual([friend])
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getCloseFriends } = await import('@/lib/actions/close-friend')
+      const result = await getCloseFriends()
+
+      expect(result).toEqual({ error: '認証が必要です', users: [] })
+    })
+  })
+
+  // ============================================================
+  // getCloseFriendCandidates
+  // ============================================================
+
+  describe('getCloseFriendCandidates', () => {
+    it('リストに含まれていないフォロワーを取得する', async () => {
+      mockPrisma.follow.findMany.mockResolvedValueOnce([{ followerId: 'friend-id', follower: friend }])
+
+      const { getCloseFriendCandidates } = await import('@/lib/actions/close-friend')
+      const result = await getCloseFriendCandidates()
+
+      expect(result.users).toEqual([friend])
+      expect(mockPrisma.follow.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            followingId: mockUser.id,
+            follower: { closeFriendOf: { none: { userId: mockUser.id } } },
+          },
+        })
+      )
+    })
+
+    it('取得に失敗した場合、エラーを返す', async () => {
+      mockPrisma.follow.findMany.mockRejectedValueOnce(new Error('Database error'))
+
+      const { getCloseFriendCandidates } = await import('@/lib/actions/close-friend')
+      const result = await getCloseFriendCandidates()
+
+      expect(result).toEqual({ error: '追加候補の取得に失敗しました', users: [] })
+    })
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// next/cacheモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// ストレージモック
+const mockGetSignedFileUrl = jest.fn()
+jest.mock('@/lib/storage', () => ({
+  getSignedFileUrl: (...args: unknown[]) => mockGetSignedFileUrl(...args),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('Data Export Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+  })
+
+  // ============================================================
+  // requestDataExport
+  // ============================================================
+
+  describe('requestDataExport', () => {
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { requestDataExport } = await import('@/lib/actions/data-export')
+      const result = await requestDataExport()
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('申し込みを作成する', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.dataExport.create.mockResolvedValueOnce({ id: 'export-1', status: 'pending' })
+
+      const { requestDataExport } = await import('@/lib/actions/data-export')
+      const { revalidatePath } = await import('next/cache')
+      const result = await requestDataExport()
+
+      expect(result).toEqual({ success: true, dataExport: { id: 'export-1', status: 'pending' } })
+      expect(mockPrisma.dataExport.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { userId: mockUser.id } })
+      )
+      expect(revalidatePath).toHaveBeenCalledWith('/settings/account')
+    })
+
+    it('準備中の申し込みがある場合、エラーを返す', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        status: 'processing',
+        createdAt: new Date(Date.now() - 48 * 60 * 60 * 1000),
+      })
+
+      const { requestDataExport } = await import('@/lib/actions/data-export')
+      const result = await requestDataExport()
+
+      expect(result).toEqual({ error: 'データのエクスポートはすでに準備中です' })
+      expect(mockPrisma.dataExport.create).not.toHaveBeenCalled()
+    })
+
+    it('前回の申し込みから24時間たっていない場合、エラーを返す', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        status: 'completed',
+        createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      })
+
+      const { requestDataExport } = await import('@/lib/actions/data-export')
+      const result = await requestDataExport()
+
+      expect(result).toEqual({ error: 'データのエクスポートは24時間に1回まで申し込めます' })
+      expect(mockPrisma.dataExport.create).not.toHaveBeenCalled()
+    })
+
+    it('前回の作成に失敗した場合は、すぐに申し込み直せる', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        status: 'failed',
+        createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      })
+      mockPrisma.dataExport.create.mockResolvedValueOnce({ id: 'export-2', status: 'pending' })
+
+      const { requestDataExport } = await import('@/lib/actions/data-export')
+      const result = await requestDataExport()
+
+      expect(result).toEqual(expect.objectContaining({ success: true }))
+    })
+
+    it('データベースエラー時はエラーを返す', async () => {
+      mockPrisma.dataExport.findFirst.mockRejectedValueOnce(new Error('DB error'))
+
+      const { requestDataExport } = await import('@/lib/actions/data-export')
+      const result = await requestDataExport()
+
+      expect(result).toEqual({ error: 'データのエクスポートの申し込みに失敗しました' })
+    })
+  })
+
+  // ============================================================
+  // getDataExports
+  // ============================================================
+
+  describe('getDataExports', () => {
+    it('未認証の場合、空配列を返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getDataExports } = await import('@/lib/actions/data-export')
+      const result = await getDataExports()
+
+      expect(result).toEqual({ dataExports: [] })
+      expect(mockPrisma.dataExport.findMany).not.toHaveBeenCalled()
+    })
+
+    it('自分の申し込みをストレージのキーを含めずに取得する', async () => {
+      mockPrisma.dataExport.findMany.mockResolvedValueOnce([{ id: 'export-1', status: 'completed' }])
+
+      const { getDataExports } = await import('@/lib/actions/data-export')
+      const result = await getDataExports()
+
+      expect(result.dataExports).toHaveLength(1)
+      const args = mockPrisma.dataExport.findMany.mock.calls[0][0]
+      expect(args.where).toEqual({ userId: mockUser.id })
+      expect(args.select.fileKey).toBeUndefined()
+    })
+  })
+
+  // ============================================================
+  // getDataExportDownloadUrl
+  // ============================================================
+
+  describe('getDataExportDownloadUrl', () => {
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getDataExportDownloadUrl } = await import('@/lib/actions/data-export')
+      const result = await getDataExportDownloadUrl('export-1')
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('ダウンロードできる申し込みがない場合、エラーを返す', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce(null)
+
+      const { getDataExportDownloadUrl } = await import('@/lib/actions/data-export')
+      const result = await getDataExportDownloadUrl('export-1')
+
+      expect(result).toEqual({ error: 'ダウンロードできるデータが見つかりません' })
+      expect(mockGetSignedFileUrl).not.toHaveBeenCalled()
+      const args = mockPrisma.dataExport.findFirst.mock.calls[0][0]
+      expect(args.where).toEqual(
+        expect.objectContaining({ id: 'export-1', userId: mockUser.id, status: 'completed' })
+      )
+    })
+
+    it('署名付きURLを発行する', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        completedAt: new Date('2026-10-20T03:00:00Z'),
+        parts: [{ partNumber: 1, fileKey: 'exports/user-1/export-1.zip' }],
+      })
+      mockGetSignedFileUrl.mockResolvedValueOnce({ success: true, url: 'https://example.com/signed' })
+
+      const { getDataExportDownloadUrl } = await import('@/lib/actions/data-export')
+      const result = await getDataExportDownloadUrl('export-1')
+
+      expect(result).toEqual({ url: 'https://example.com/signed' })
+      expect(mockGetSignedFileUrl).toHaveBeenCalledWith(
+        'exports/user-1/export-1.zip',
+        15 * 60,
+        'bon-log-export-20261020.zip'
+      )
+    })
+
+    it('複数のパートに分かれている場合、指定したパートのURLを発行する', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        completedAt: new Date('2026-10-20T03:00:00Z'),
+        parts: [
+          { partNumber: 1, fileKey: 'exports/user-1/export-1-1.zip' },
+          { partNumber: 2, fileKey: 'exports/user-1/export-1-2.zip' },
+        ],
+      })
+      mockGetSignedFileUrl.mockResolvedValueOnce({ success: true, url: 'https://example.com/signed' })
+
+      const { getDataExportDownloadUrl } = await import('@/lib/actions/data-export')
+      const result = await getDataExportDownloadUrl('export-1', 2)
+
+      expect(result).toEqual({ url: 'https://example.com/signed' })
+      expect(mockGetSignedFileUrl).toHaveBeenCalledWith(
+        'exports/user-1/export-1-2.zip',
+        15 * 60,
+        'bon-log-export-20261020-part2.zip'
+      )
+    })
+
+    it('存在しないパートの場合、エラーを返す', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        completedAt: new Date(),
+        parts: [{ partNumber: 1, fileKey: 'exports/user-1/export-1.zip' }],
+      })
+
+      const { getDataExportDownloadUrl } = await import('@/lib/actions/data-export')
+      const result = await getDataExportDownloadUrl('export-1', 3)
+
+      expect(result).toEqual({ error: 'ダウンロードできるデータが見つかりません' })
+      expect(mockGetSignedFileUrl).not.toHaveBeenCalled()
+    })
+
+    it('署名付きURLの発行に失敗した場合、エラーを返す', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        completedAt: new Date(),
+        parts: [{ partNumber: 1, fileKey: 'exports/user-1/export-1.zip' }],
+      })
+      mockGetSignedFileUrl.mockResolvedValueOnce({ success: false, error: 'failed' })
+
+      const { getDataExportDownloadUrl } = await import('@/lib/actions/data-export')
+      const result = await getDataExportDownloadUrl('export-1')
+
+      expect(result).toEqual({ error: 'ダウンロードURLの発行に失敗しました' })
+    })
+  })
+})
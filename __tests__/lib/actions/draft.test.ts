@@ -159,6 +159,27 @@ describe('Draft Actions', () => {
 
       expect(result).toEqual({ error: '認証が必要です' })
     })
+
+    it('公開範囲付きで作成できる', async () => {
+      mockPrisma.draftPost.create.mockResolvedValueOnce({ ...mockDraft, audience: 'followers', media: [], genres: [] })
+
+      const { saveDraft } = await import('@/lib/actions/draft')
+      await saveDraft({ content: '下書きの内容', audience: 'followers' })
+
+      expect(mockPrisma.draftPost.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ audience: 'followers' }),
+        })
+      )
+    })
+
+    it('公開範囲が不正な場合、エラーを返す', async () => {
+      const { saveDraft } = await import('@/lib/actions/draft')
+      const result = await saveDraft({ content: '下書きの内容', audience: 'everyone' })
+
+      expect(result).toEqual({ error: '公開範囲が正しくありません' })
+      expect(mockPrisma.draftPost.create).not.toHaveBeenCalled()
+    })
   })
 
   // ============================================================
@@ -235,6 +256,26 @@ describe('Draft Actions', () => {
       expect(result).toEqual({ postId: 'new-post-id' })
     })
 
+    it('下書きの公開範囲を投稿に引き継ぐ', async () => {
+      mockPrisma.draftPost.findFirst.mockResolvedValueOnce({
+        ...mockDraft,
+        audience: 'mutuals',
+        media: [],
+        genres: [],
+      })
+      mockPrisma.post.create.mockResolvedValueOnce({ id: 'new-post-id' })
+      mockPrisma.draftPost.delete.mockResolvedValueOnce(mockDraft)
+
+      const { publishDraft } = await import('@/lib/actions/draft')
+      await publishDraft(mockDraft.id)
+
+      expect(mockPrisma.post.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ audience: 'mutuals' }),
+        })
+      )
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
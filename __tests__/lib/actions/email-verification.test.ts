@@ -0,0 +1,334 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// next/cacheモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// レート制限モック
+const mockRateLimit = jest.fn()
+jest.mock('@/lib/rate-limit', () => ({
+  rateLimit: (...args: unknown[]) => mockRateLimit(...args),
+}))
+
+// メール送信モック
+const mockSendEmailChangeConfirmationEmail = jest.fn()
+jest.mock('@/lib/email', () => ({
+  sendEmailChangeConfirmationEmail: (...args: unknown[]) => mockSendEmailChangeConfirmationEmail(...args),
+}))
+
+// ブラックリストモック
+const mockIsEmailBlacklisted = jest.fn()
+jest.mock('@/lib/actions/blacklist', () => ({
+  isEmailBlacklisted: (...args: unknown[]) => mockIsEmailBlacklisted(...args),
+}))
+
+// 確認トークンモック
+const mockConsumeVerificationToken = jest.fn()
+const mockIssueVerificationToken = jest.fn()
+const mockSendEmailVerification = jest.fn()
+jest.mock('@/lib/email-verification', () => ({
+  VERIFICATION_TOKEN_TTL_MS: 24 * 60 * 60 * 1000,
+  buildVerificationUrl: (path: string, token: string) => `https://example.com${path}?token=${token}`,
+  consumeVerificationToken: (...args: unknown[]) => mockConsumeVerificationToken(...args),
+  issueVerificationToken: (...args: unknown[]) => mockIssueVerificationToken(...args),
+  sendEmailVerification: (...args: unknown[]) => mockSendEmailVerification(...args),
+}))
+
+// セキュリティログモック
+jest.mock('@/lib/security-logger', () => ({
+  logRateLimitExceeded: jest.fn(),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('Email Verification Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+    mockRateLimit.mockResolvedValue({ success: true })
+    mockIsEmailBlacklisted.mockResolvedValue(false)
+    mockSendEmailChangeConfirmationEmail.mockResolvedValue({ success: true })
+  })
+
+  // ============================================================
+  // resendVerificationEmail
+  // ============================================================
+
+  describe('resendVerificationEmail', () => {
+    it('確認済みの場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ ...mockUser, emailVerified: new Date() })
+
+      const { resendVerificationEmail } = await import('@/lib/actions/email-verification')
+      const result = await resendVerificationEmail()
+
+      expect(result).toEqual({ error: 'メールアドレスは確認済みです' })
+      expect(mockSendEmailVerification).not.toHaveBeenCalled()
+    })
+
+    it('未確認の場合は確認メールを再送する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ ...mockUser, emailVerified: null })
+      mockSendEmailVerification.mockResolvedValueOnce(true)
+
+      const { resendVerificationEmail } = await import('@/lib/actions/email-verification')
+      const result = await resendVerificationEmail()
+
+      expect(result).toEqual({ success: true })
+      expect(mockRateLimit).toHaveBeenCalledWith(`verify-email:${mockUser.id}`, expect.any(Object))
+    })
+
+    it('送信回数の上限に達した場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ ...mockUser, emailVerified: null })
+      mockRateLimit.mockResolvedValueOnce({ success: false })
+
+      const { resendVerificationEmail } = await import('@/lib/actions/email-verification')
+      const result = await resendVerificationEmail()
+
+      expect(result.error).toContain('確認メールの送信が多すぎます')
+      expect(mockSendEmailVerification).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // verifyEmail
+  // ============================================================
+
+  describe('verifyEmail', () => {
+    it('有効なトークンでメールアドレスを確認済みにする', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce({ purpose: 'verify-email', subjectId: mockUser.id })
+
+      const { verifyEmail } = await import('@/lib/actions/email-verification')
+      const result = await verifyEmail('token-1')
+
+      expect(result).toEqual({ success: true })
+      expect(mockConsumeVerificationToken).toHaveBeenCalledWith('token-1', ['verify-email'])
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { emailVerified: expect.any(Date) },
+      })
+    })
+
+    it('無効なトークンの場合はエラーを返す', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce(null)
+
+      const { verifyEmail } = await import('@/lib/actions/email-verification')
+      const result = await verifyEmail('invalid')
+
+      expect(result).toEqual({ error: '確認リンクが無効または期限切れです' })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // requestEmailChange
+  // ============================================================
+
+  describe('requestEmailChange', () => {
+    it('メールアドレスの形式が不正な場合はエラーを返す', async () => {
+      const { requestEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await requestEmailChange('invalid-email')
+
+      expect(result).toEqual({ error: '有効なメールアドレスを入力してください' })
+    })
+
+    it('現在と同じメールアドレスの場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(mockUser)
+
+      const { requestEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await requestEmailChange(mockUser.email.toUpperCase())
+
+      expect(result).toEqual({ error: '現在と同じメールアドレスです' })
+    })
+
+    it('ブラックリストのメールアドレスの場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(mockUser)
+      mockIsEmailBlacklisted.mockResolvedValueOnce(true)
+
+      const { requestEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await requestEmailChange('spam@example.com')
+
+      expect(result).toEqual({ error: 'このメールアドレスは利用できません' })
+      expect(mockPrisma.emailChangeRequest.upsert).not.toHaveBeenCalled()
+    })
+
+    it('他のユーザーが使用中の場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(mockUser)
+      mockPrisma.user.findFirst.mockResolvedValueOnce({ id: 'other-user' })
+
+      const { requestEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await requestEmailChange('taken@example.com')
+
+      expect(result).toEqual({ error: 'このメールアドレスは既に登録されています' })
+    })
+
+    it('変更前と変更後の両方のアドレスに確認メールを送信する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(mockUser)
+      mockPrisma.user.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.emailChangeRequest.upsert.mockResolvedValueOnce({ id: 'request-1' })
+      mockIssueVerificationToken.mockImplementation(async (purpose: string) => `${purpose}-token`)
+
+      const { requestEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await requestEmailChange(' new@example.com ')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.emailChangeRequest.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: mockUser.id },
+          update: expect.objectContaining({
+            newEmail: 'new@example.com',
+            oldConfirmedAt: null,
+            newConfirmedAt: null,
+          }),
+        })
+      )
+      expect(mockSendEmailChangeConfirmationEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.nickname,
+        'https://example.com/verify-email/change?token=email-change-old-token',
+        'new@example.com',
+        'current'
+      )
+      expect(mockSendEmailChangeConfirmationEmail).toHaveBeenCalledWith(
+        'new@example.com',
+        mockUser.nickname,
+        'https://example.com/verify-email/change?token=email-change-new-token',
+        'new@example.com',
+        'new'
+      )
+    })
+  })
+
+  // ============================================================
+  // confirmEmailChange
+  // ============================================================
+
+  describe('confirmEmailChange', () => {
+    const pendingRequest = {
+      id: 'request-1',
+      userId: mockUser.id,
+      newEmail: 'new@example.com',
+      oldConfirmedAt: null,
+      newConfirmedAt: null,
+      expires: new Date(Date.now() + 60 * 60 * 1000),
+    }
+
+    it('片方だけ確認した場合は変更しない', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce({ purpose: 'email-change-old', subjectId: 'request-1' })
+      mockPrisma.emailChangeRequest.findUnique.mockResolvedValueOnce(pendingRequest)
+      mockPrisma.emailChangeRequest.update.mockResolvedValueOnce({
+        ...pendingRequest,
+        oldConfirmedAt: new Date(),
+      })
+
+      const { confirmEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await confirmEmailChange('token-1')
+
+      expect(result).toEqual({ success: true, completed: false })
+      expect(mockPrisma.emailChangeRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-1' },
+        data: { oldConfirmedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('両方で確認した場合はメールアドレスを変更する', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce({ purpose: 'email-change-new', subjectId: 'request-1' })
+      mockPrisma.emailChangeRequest.findUnique.mockResolvedValueOnce(pendingRequest)
+      mockPrisma.emailChangeRequest.update.mockResolvedValueOnce({
+        ...pendingRequest,
+        oldConfirmedAt: new Date(),
+        newConfirmedAt: new Date(),
+      })
+      mockPrisma.user.findFirst.mockResolvedValueOnce(null)
+
+      const { confirmEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await confirmEmailChange('token-1')
+
+      expect(result).toEqual({ success: true, completed: true })
+      expect(mockIsEmailBlacklisted).toHaveBeenCalledWith('new@example.com')
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { email: 'new@example.com', emailVerified: expect.any(Date) },
+      })
+      expect(mockPrisma.emailChangeRequest.delete).toHaveBeenCalledWith({ where: { id: 'request-1' } })
+    })
+
+    it('変更時にブラックリストに登録されていれば変更しない', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce({ purpose: 'email-change-new', subjectId: 'request-1' })
+      mockPrisma.emailChangeRequest.findUnique.mockResolvedValueOnce(pendingRequest)
+      mockPrisma.emailChangeRequest.update.mockResolvedValueOnce({
+        ...pendingRequest,
+        oldConfirmedAt: new Date(),
+        newConfirmedAt: new Date(),
+      })
+      mockPrisma.user.findFirst.mockResolvedValueOnce(null)
+      mockIsEmailBlacklisted.mockResolvedValueOnce(true)
+
+      const { confirmEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await confirmEmailChange('token-1')
+
+      expect(result).toEqual({ error: 'このメールアドレスは利用できません' })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+      expect(mockPrisma.emailChangeRequest.delete).toHaveBeenCalledWith({ where: { id: 'request-1' } })
+    })
+
+    it('期限切れの申請の場合はエラーを返す', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce({ purpose: 'email-change-old', subjectId: 'request-1' })
+      mockPrisma.emailChangeRequest.findUnique.mockResolvedValueOnce({
+        ...pendingRequest,
+        expires: new Date(Date.now() - 1000),
+      })
+
+      const { confirmEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await confirmEmailChange('token-1')
+
+      expect(result).toEqual({ error: '確認リンクが無効または期限切れです' })
+      expect(mockPrisma.emailChangeRequest.update).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // cancelEmailChange
+  // ============================================================
+
+  describe('cancelEmailChange', () => {
+    it('申請とトークンを削除する', async () => {
+      mockPrisma.emailChangeRequest.findUnique.mockResolvedValueOnce({ id: 'request-1' })
+
+      const { cancelEmailChange } = await import('@/lib/actions/email-verification')
+      const result = await cancelEmailChange()
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: {
+          identifier: { in: ['email-change-old:request-1', 'email-change-new:request-1'] },
+        },
+      })
+      expect(mockPrisma.emailChangeRequest.delete).toHaveBeenCalledWith({ where: { id: 'request-1' } })
+    })
+  })
+})
@@ -18,7 +18,7 @@ jest.mock('@/lib/auth', () => ({
 // フィルターヘルパーモック
 const mockGetExcludedUserIds = jest.fn()
 jest.mock('@/lib/actions/filter-helper', () => ({
-  getExcludedUserIds: () => mockGetExcludedUserIds(),
+  getExcludedUserIds: (...args: unknown[]) => mockGetExcludedUserIds(...args),
 }))
 
 // キャッシュモック
@@ -108,6 +108,26 @@ describe('Feed Actions', () => {
       )
     })
 
+    it('閲覧できる公開範囲の投稿のみ取得する', async () => {
+      mockPrisma.follow.findMany.mockResolvedValueOnce([{ followingId: 'following-user-1' }])
+      mockPrisma.post.findMany.mockResolvedValueOnce([])
+
+      const { getTimeline } = await import('@/lib/actions/feed')
+      await getTimeline()
+
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: expect.arrayContaining([
+              { audience: 'public' },
+              { userId: mockUser.id },
+              { audience: 'followers', user: { followers: { some: { followerId: mockUser.id } } } },
+            ]),
+          }),
+        })
+      )
+    })
+
     it('カーソルを使用してページネーションできる', async () => {
       mockPrisma.follow.findMany.mockResolvedValueOnce([])
       mockPrisma.post.findMany.mockResolvedValueOnce([])
@@ -152,6 +172,144 @@ describe('Feed Actions', () => {
     })
   })
 
+  // ============================================================
+  // getForYouFeed
+  // ============================================================
+
+  describe('getForYouFeed', () => {
+    /**
+     * おすすめ候補の投稿のフィクスチャを作成
+     */
+    function candidatePost(id: string, overrides: Record<string, unknown> = {}) {
+      return {
+        id,
+        content: `${id}の内容`,
+        userId: 'author-1',
+        createdAt: new Date(),
+        user: { id: 'author-1', nickname: '投稿者', avatarUrl: null, location: '東京都', locationVisibility: 'everyone' },
+        media: [],
+        genres: [],
+        _count: { likes: 0, comments: 0, quotedBy: 0 },
+        quotePost: null,
+        ...overrides,
+      }
+    }
+
+    it('反応の多い投稿・好みのジャンルの投稿を上位に並べる', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ location: null })
+      mockPrisma.postGenre.findMany.mockResolvedValueOnce([{ genreId: 'genre-1' }])
+      mockPrisma.post.findMany.mockResolvedValueOnce([
+        candidatePost('plain'),
+        candidatePost('genre', { genres: [{ genreId: 'genre-1', genre: { id: 'genre-1', name: '黒松' } }] }),
+        candidatePost('popular', { _count: { likes: 30, comments: 5, quotedBy: 2 } }),
+      ])
+      mockPrisma.like.findMany.mockResolvedValueOnce([])
+      mockPrisma.bookmark.findMany.mockResolvedValueOnce([])
+
+      const { getForYouFeed } = await import('@/lib/actions/feed')
+      const result = await getForYouFeed()
+
+      expect(result.posts.map((p) => p.id)).toEqual(['popular', 'genre', 'plain'])
+      expect(result.posts[1].genres[0].name).toBe('黒松')
+      expect(result.nextCursor).toBeUndefined()
+    })
+
+    it('投稿者の居住地域を結果に含めない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ location: '東京都' })
+      mockPrisma.postGenre.findMany.mockResolvedValueOnce([])
+      mockPrisma.post.findMany.mockResolvedValueOnce([candidatePost('post-1')])
+      mockPrisma.like.findMany.mockResolvedValueOnce([])
+      mockPrisma.bookmark.findMany.mockResolvedValueOnce([])
+
+      const { getForYouFeed } = await import('@/lib/actions/feed')
+      const result = await getForYouFeed()
+
+      expect(result.posts[0].user).toEqual({ id: 'author-1', nickname: '投稿者', avatarUrl: null })
+    })
+
+    it('自分・除外ユーザーの投稿と閲覧できない公開範囲の投稿を候補から除外する', async () => {
+      mockGetExcludedUserIds.mockResolvedValueOnce(['blocked-user'])
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ location: null })
+      mockPrisma.postGenre.findMany.mockResolvedValueOnce([])
+      mockPrisma.post.findMany.mockResolvedValueOnce([])
+
+      const { getForYouFeed } = await import('@/lib/actions/feed')
+      await getForYouFeed()
+
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: { not: mockUser.id, notIn: ['blocked-user'] },
+            repostPostId: null,
+            isHidden: false,
+            OR: expect.arrayContaining([{ audience: 'public' }]),
+          }),
+        })
+      )
+      expect(mockGetExcludedUserIds).toHaveBeenCalledWith(
+        mockUser.id,
+        expect.objectContaining({ blocked: true, blockedBy: true, muted: true, deactivated: true })
+      )
+    })
+
+    it('前のページの最後の投稿をカーソルにしてページを分ける', async () => {
+      const candidates = [
+        candidatePost('first', { _count: { likes: 3, comments: 0, quotedBy: 0 } }),
+        candidatePost('second', { _count: { likes: 2, comments: 0, quotedBy: 0 } }),
+        candidatePost('third', { _count: { likes: 1, comments: 0, quotedBy: 0 } }),
+      ]
+      // 2ページ目の取得までに、上位に並ぶ投稿が候補に加わった場合
+      const secondCandidates = [
+        candidatePost('rising', { _count: { likes: 10, comments: 0, quotedBy: 0 } }),
+        ...candidates,
+      ]
+      for (const posts of [candidates, secondCandidates]) {
+        mockPrisma.user.findUnique.mockResolvedValueOnce({ location: null })
+        mockPrisma.postGenre.findMany.mockResolvedValueOnce([])
+        mockPrisma.post.findMany.mockResolvedValueOnce(posts)
+        mockPrisma.like.findMany.mockResolvedValueOnce([])
+        mockPrisma.bookmark.findMany.mockResolvedValueOnce([])
+      }
+
+      const { getForYouFeed } = await import('@/lib/actions/feed')
+      const firstPage = await getForYouFeed(undefined, 2)
+      const secondPage = await getForYouFeed(firstPage.nextCursor, 2)
+
+      expect(firstPage.posts.map((p) => p.id)).toEqual(['first', 'second'])
+      expect(firstPage.nextCursor).toEqual(expect.stringMatching(/:second$/))
+      // 1ページ目と重複せず、続きだけを返す
+      expect(secondPage.posts.map((p) => p.id)).toEqual(['third'])
+      expect(secondPage.nextCursor).toBeUndefined()
+
+      // 2ページ目は1ページ目と同じ時刻までの投稿を候補にする
+      const firstWhere = mockPrisma.post.findMany.mock.calls[0][0].where
+      const secondWhere = mockPrisma.post.findMany.mock.calls[1][0].where
+      expect(secondWhere.createdAt).toEqual(firstWhere.createdAt)
+    })
+
+    it('形式が正しくないカーソルは1ページ目として扱う', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ location: null })
+      mockPrisma.postGenre.findMany.mockResolvedValueOnce([])
+      mockPrisma.post.findMany.mockResolvedValueOnce([candidatePost('post-1')])
+      mockPrisma.like.findMany.mockResolvedValueOnce([])
+      mockPrisma.bookmark.findMany.mockResolvedValueOnce([])
+
+      const { getForYouFeed } = await import('@/lib/actions/feed')
+      const result = await getForYouFeed('2')
+
+      expect(result.posts.map((p) => p.id)).toEqual(['post-1'])
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getForYouFeed } = await import('@/lib/actions/feed')
+      const result = await getForYouFeed()
+
+      expect(result).toEqual({ error: '認証が必要です', posts: [], nextCursor: undefined })
+    })
+  })
+
   // ============================================================
   // getRecommendedUsers
   // ============================================================
@@ -12,6 +12,9 @@ const fhMockPrisma = {
   mute: {
     findMany: jest.fn(),
   },
+  user: {
+    findMany: jest.fn(),
+  },
 }
 
 jest.mock('@/lib/db', () => ({
@@ -269,6 +272,60 @@ describe('filter-helper', () => {
       })
     })
 
+    describe('一時停止中のユーザーの取得（deactivated: true）', () => {
+      it('一時停止中のユーザーを取得する', async () => {
+        fhMockPrisma.user.findMany.mockResolvedValue([
+          { id: 'deactivated-1' },
+        ])
+
+        const { getExcludedUserIds } = await import('@/lib/actions/filter-helper')
+
+        const result = await getExcludedUserIds('user-1', { deactivated: true })
+
+        expect(result).toEqual(['deactivated-1'])
+        expect(fhMockPrisma.user.findMany).toHaveBeenCalledWith({
+          where: { deactivatedAt: { not: null } },
+          select: { id: true },
+        })
+      })
+
+      it('未ログインの場合は一時停止中のユーザーのみを取得する', async () => {
+        fhMockPrisma.user.findMany.mockResolvedValue([
+          { id: 'deactivated-1' },
+        ])
+
+        const { getExcludedUserIds } = await import('@/lib/actions/filter-helper')
+
+        const result = await getExcludedUserIds(undefined, {
+          blocked: true,
+          blockedBy: true,
+          muted: true,
+          deactivated: true,
+        })
+
+        expect(result).toEqual(['deactivated-1'])
+        expect(fhMockPrisma.block.findMany).not.toHaveBeenCalled()
+        expect(fhMockPrisma.mute.findMany).not.toHaveBeenCalled()
+      })
+
+      it('ブロックと一時停止中のユーザーをまとめて取得する', async () => {
+        fhMockPrisma.block.findMany.mockResolvedValue([
+          { blockerId: 'user-1', blockedId: 'blocked-1' },
+        ])
+        fhMockPrisma.user.findMany.mockResolvedValue([
+          { id: 'deactivated-1' },
+        ])
+
+        const { getExcludedUserIds } = await import('@/lib/actions/filter-helper')
+
+        const result = await getExcludedUserIds('user-1', { blocked: true, deactivated: true })
+
+        expect(result).toHaveLength(2)
+        expect(result).toContain('blocked-1')
+        expect(result).toContain('deactivated-1')
+      })
+    })
+
     describe('並列クエリ実行', () => {
       it('ブロックとミュートのクエリを並列で実行する', async () => {
         const blockPromise = new Promise((resolve) =>
@@ -414,6 +471,29 @@ describe('filter-helper', () => {
     })
   })
 
+  // ============================================================
+  // getDeactivatedUserIds
+  // ============================================================
+
+  describe('getDeactivatedUserIds', () => {
+    it('一時停止中のユーザーIDの配列を返す', async () => {
+      fhMockPrisma.user.findMany.mockResolvedValue([
+        { id: 'deactivated-1' },
+        { id: 'deactivated-2' },
+      ])
+
+      const { getDeactivatedUserIds } = await import('@/lib/actions/filter-helper')
+
+      const result = await getDeactivatedUserIds()
+
+      expect(result).toEqual(['deactivated-1', 'deactivated-2'])
+      expect(fhMockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: { deactivatedAt: { not: null } },
+        select: { id: true },
+      })
+    })
+  })
+
   // ============================================================
   // FilterOptions 型
   // ============================================================
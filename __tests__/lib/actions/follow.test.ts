@@ -240,6 +240,10 @@ describe('Follow Actions', () => {
    * プロフィールページの「フォロワー」タブで使用。
    */
   describe('getFollowers', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ followsVisibility: 'everyone' })
+    })
+
     /**
      * テストケース: フォロワー一覧の取得
      *
@@ -267,6 +271,17 @@ describe('Follow Actions', () => {
       expect(result.users).toHaveLength(1)
       expect(result.users[0].id).toBe('follower-1')
     })
+
+    it('フォロー・フォロワー一覧がフォロワーのみに公開されている場合、フォローしていなければ取得しない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ followsVisibility: 'followers' })
+      mockPrisma.follow.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(null)
+
+      const { getFollowers } = await import('@/lib/actions/follow')
+      const result = await getFollowers('target-user-id')
+
+      expect(result).toEqual({ users: [], nextCursor: undefined, error: 'フォロワー一覧は非公開です' })
+      expect(mockPrisma.follow.findMany).not.toHaveBeenCalled()
+    })
   })
 
   // ============================================================
@@ -279,6 +294,10 @@ describe('Follow Actions', () => {
    * プロフィールページの「フォロー中」タブで使用。
    */
   describe('getFollowing', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ followsVisibility: 'everyone' })
+    })
+
     /**
      * テストケース: フォロー中一覧の取得
      */
@@ -0,0 +1,504 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// revalidatePathモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// リアルタイム配信モック
+const mockPublishConversationEvent = jest.fn()
+jest.mock('@/lib/realtime', () => ({
+  publishConversationEvent: (...args: unknown[]) => mockPublishConversationEvent(...args),
+}))
+
+/**
+ * グループの参加情報（getGroupParticipant の戻り値）を作成
+ */
+function groupParticipant(userId: string, role: 'owner' | 'admin' | 'member', nickname = userId) {
+  return {
+    conversationId: 'group-1',
+    userId,
+    role,
+    conversation: { id: 'group-1', isGroup: true, title: '盆栽仲間' },
+    user: { id: userId, nickname },
+  }
+}
+
+/**
+ * システムメッセージ作成のモック
+ */
+function mockSystemMessage() {
+  mockPrisma.message.create.mockImplementationOnce(({ data }: { data: { content: string } }) =>
+    Promise.resolve({
+      id: 'sys-msg',
+      type: 'system',
+      content: data.content,
+      createdAt: new Date('2024-01-01'),
+      sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: null },
+    })
+  )
+  mockPrisma.conversation.update.mockResolvedValueOnce({})
+}
+
+// メールアドレスの確認モック
+const mockIsEmailVerified = jest.fn()
+jest.mock('@/lib/email-verification', () => ({
+  EMAIL_NOT_VERIFIED_ERROR: 'メールアドレスの確認が必要です',
+  isEmailVerified: (...args: unknown[]) => mockIsEmailVerified(...args),
+}))
+
+describe('Group Conversation Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockIsEmailVerified.mockResolvedValue(true)
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+  })
+
+  // ============================================================
+  // createGroupConversation
+  // ============================================================
+
+  describe('createGroupConversation', () => {
+    it('グループを作成し、作成者をオーナーにする', async () => {
+      mockPrisma.user.findMany.mockResolvedValueOnce([
+        { id: 'user-2', nickname: 'ユーザー2', dmPermission: 'everyone' },
+        { id: 'user-3', nickname: 'ユーザー3', dmPermission: 'everyone' },
+      ])
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.conversation.create.mockResolvedValueOnce({ id: 'group-1' })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ nickname: mockUser.nickname })
+      mockSystemMessage()
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({
+        title: ' 盆栽仲間 ',
+        memberIds: ['user-2', 'user-3', 'user-2', mockUser.id],
+      })
+
+      expect(result).toEqual({ conversationId: 'group-1' })
+      expect(mockPrisma.conversation.create).toHaveBeenCalledWith({
+        data: {
+          isGroup: true,
+          title: '盆栽仲間',
+          participants: {
+            create: [
+              expect.objectContaining({ userId: mockUser.id, role: 'owner' }),
+              { userId: 'user-2', role: 'member' },
+              { userId: 'user-3', role: 'member' },
+            ],
+          },
+        },
+      })
+      expect(mockPrisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'system',
+            content: `${mockUser.nickname}さんがグループ「盆栽仲間」を作成しました`,
+          }),
+        })
+      )
+      expect(mockPrisma.notification.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user-2', actorId: mockUser.id, type: 'message' },
+          { userId: 'user-3', actorId: mockUser.id, type: 'message' },
+        ],
+      })
+    })
+
+    it('システムメッセージをリアルタイム配信する', async () => {
+      mockPrisma.user.findMany.mockResolvedValueOnce([
+        { id: 'user-2', nickname: 'ユーザー2', dmPermission: 'everyone' },
+        { id: 'user-3', nickname: 'ユーザー3', dmPermission: 'everyone' },
+      ])
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.conversation.create.mockResolvedValueOnce({ id: 'group-1' })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ nickname: mockUser.nickname })
+      mockSystemMessage()
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', 'user-3'] })
+
+      expect(mockPublishConversationEvent).toHaveBeenCalledWith(
+        'group-1',
+        expect.objectContaining({
+          type: 'message',
+          message: expect.objectContaining({ type: 'system' }),
+        })
+      )
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('メールアドレスが未確認の場合、エラーを返す', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(false)
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: 'メールアドレスの確認が必要です' })
+      expect(mockPrisma.conversation.create).not.toHaveBeenCalled()
+    })
+
+    it('グループ名が空の場合、エラーを返す', async () => {
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '  ', memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: 'グループ名を入力してください' })
+    })
+
+    it('グループ名が長すぎる場合、エラーを返す', async () => {
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: 'a'.repeat(51), memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: 'グループ名は50文字以内で入力してください' })
+    })
+
+    it('メンバーが2人未満の場合、エラーを返す', async () => {
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', mockUser.id] })
+
+      expect(result).toEqual({ error: 'グループには自分以外に2人以上のメンバーを選んでください' })
+    })
+
+    it('停止中・存在しないユーザーが含まれる場合、エラーを返す', async () => {
+      mockPrisma.user.findMany.mockResolvedValueOnce([{ id: 'user-2', nickname: 'ユーザー2', dmPermission: 'everyone' }])
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: '追加できないユーザーが含まれています' })
+      expect(mockPrisma.conversation.create).not.toHaveBeenCalled()
+    })
+
+    it('ブロック関係にあるユーザーが含まれる場合、エラーを返す', async () => {
+      mockPrisma.user.findMany.mockResolvedValueOnce([
+        { id: 'user-2', nickname: 'ユーザー2', dmPermission: 'everyone' },
+        { id: 'user-3', nickname: 'ユーザー3', dmPermission: 'everyone' },
+      ])
+      mockPrisma.block.findFirst.mockResolvedValueOnce({ blockerId: 'user-2', blockedId: 'user-3' })
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: 'ブロック関係にあるユーザーは同じグループに参加できません' })
+      expect(mockPrisma.conversation.create).not.toHaveBeenCalled()
+    })
+
+    it('一時停止中のユーザーは検索対象から除外する', async () => {
+      mockPrisma.user.findMany.mockResolvedValueOnce([{ id: 'user-2', nickname: 'ユーザー2', dmPermission: 'everyone' }])
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: '追加できないユーザーが含まれています' })
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ isSuspended: false, deactivatedAt: null }),
+        })
+      )
+    })
+
+    it('メッセージを受け付けていないユーザーが含まれる場合、エラーを返す', async () => {
+      mockPrisma.user.findMany.mockResolvedValueOnce([
+        { id: 'user-2', nickname: 'ユーザー2', dmPermission: 'followers' },
+        { id: 'user-3', nickname: 'ユーザー3', dmPermission: 'mutual' },
+      ])
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      // user-2 はフォローしている、user-3 は片方向のフォローのみ
+      mockPrisma.follow.findMany.mockResolvedValueOnce([
+        { followerId: mockUser.id, followingId: 'user-2' },
+        { followerId: mockUser.id, followingId: 'user-3' },
+      ])
+
+      const { createGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await createGroupConversation({ title: '盆栽仲間', memberIds: ['user-2', 'user-3'] })
+
+      expect(result).toEqual({ error: 'ユーザー3さんはメッセージを受け付けていません' })
+      expect(mockPrisma.conversation.create).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // updateGroupTitle
+  // ============================================================
+
+  describe('updateGroupTitle', () => {
+    it('管理者はグループ名を変更できる', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'admin', mockUser.nickname)
+      )
+      mockPrisma.conversation.update.mockResolvedValueOnce({})
+      mockSystemMessage()
+
+      const { updateGroupTitle } = await import('@/lib/actions/group-conversation')
+      const result = await updateGroupTitle('group-1', '関西盆栽クラブ')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.conversation.update).toHaveBeenCalledWith({
+        where: { id: 'group-1' },
+        data: { title: '関西盆栽クラブ' },
+      })
+    })
+
+    it('一般メンバーは変更できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'member')
+      )
+
+      const { updateGroupTitle } = await import('@/lib/actions/group-conversation')
+      const result = await updateGroupTitle('group-1', '関西盆栽クラブ')
+
+      expect(result).toEqual({ error: 'グループ名を変更する権限がありません' })
+    })
+
+    it('1対1の会話では変更できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        ...groupParticipant(mockUser.id, 'owner'),
+        conversation: { id: 'conv-1', isGroup: false, title: null },
+      })
+
+      const { updateGroupTitle } = await import('@/lib/actions/group-conversation')
+      const result = await updateGroupTitle('conv-1', '関西盆栽クラブ')
+
+      expect(result).toEqual({ error: 'この会話にアクセスする権限がありません' })
+    })
+  })
+
+  // ============================================================
+  // addGroupMembers
+  // ============================================================
+
+  describe('addGroupMembers', () => {
+    it('オーナーはメンバーを追加できる', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'owner', mockUser.nickname)
+      )
+      mockPrisma.conversationParticipant.findMany.mockResolvedValueOnce([
+        { userId: mockUser.id },
+        { userId: 'user-2' },
+        { userId: 'user-3' },
+      ])
+      mockPrisma.user.findMany.mockResolvedValueOnce([{ id: 'user-4', nickname: 'ユーザー4', dmPermission: 'everyone' }])
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockSystemMessage()
+
+      const { addGroupMembers } = await import('@/lib/actions/group-conversation')
+      const result = await addGroupMembers('group-1', ['user-4', 'user-2'])
+
+      expect(result).toEqual({ success: true, addedCount: 1 })
+      expect(mockPrisma.conversationParticipant.createMany).toHaveBeenCalledWith({
+        data: [{ conversationId: 'group-1', userId: 'user-4', role: 'member' }],
+      })
+      expect(mockPrisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            content: `${mockUser.nickname}さんがユーザー4さんを追加しました`,
+          }),
+        })
+      )
+    })
+
+    it('既存メンバーとブロック関係にあるユーザーは追加できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'owner')
+      )
+      mockPrisma.conversationParticipant.findMany.mockResolvedValueOnce([
+        { userId: mockUser.id },
+        { userId: 'user-2' },
+      ])
+      mockPrisma.user.findMany.mockResolvedValueOnce([{ id: 'user-4', nickname: 'ユーザー4', dmPermission: 'everyone' }])
+      mockPrisma.block.findFirst.mockResolvedValueOnce({ blockerId: 'user-2', blockedId: 'user-4' })
+
+      const { addGroupMembers } = await import('@/lib/actions/group-conversation')
+      const result = await addGroupMembers('group-1', ['user-4'])
+
+      expect(result).toEqual({ error: 'ブロック関係にあるユーザーは同じグループに参加できません' })
+      expect(mockPrisma.conversationParticipant.createMany).not.toHaveBeenCalled()
+    })
+
+    it('メッセージを受け付けていないユーザーは追加できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'owner')
+      )
+      mockPrisma.conversationParticipant.findMany.mockResolvedValueOnce([
+        { userId: mockUser.id },
+        { userId: 'user-2' },
+      ])
+      mockPrisma.user.findMany.mockResolvedValueOnce([{ id: 'user-4', nickname: 'ユーザー4', dmPermission: 'nobody' }])
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.follow.findMany.mockResolvedValueOnce([])
+
+      const { addGroupMembers } = await import('@/lib/actions/group-conversation')
+      const result = await addGroupMembers('group-1', ['user-4'])
+
+      expect(result).toEqual({ error: 'ユーザー4さんはメッセージを受け付けていません' })
+      expect(mockPrisma.conversationParticipant.createMany).not.toHaveBeenCalled()
+    })
+
+    it('メールアドレスが未確認の場合、エラーを返す', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(false)
+
+      const { addGroupMembers } = await import('@/lib/actions/group-conversation')
+      const result = await addGroupMembers('group-1', ['user-4'])
+
+      expect(result).toEqual({ error: 'メールアドレスの確認が必要です' })
+      expect(mockPrisma.conversationParticipant.createMany).not.toHaveBeenCalled()
+    })
+
+    it('一般メンバーは追加できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'member')
+      )
+
+      const { addGroupMembers } = await import('@/lib/actions/group-conversation')
+      const result = await addGroupMembers('group-1', ['user-4'])
+
+      expect(result).toEqual({ error: 'メンバーを追加する権限がありません' })
+    })
+  })
+
+  // ============================================================
+  // removeGroupMember
+  // ============================================================
+
+  describe('removeGroupMember', () => {
+    it('オーナーは管理者を削除できる', async () => {
+      mockPrisma.conversationParticipant.findUnique
+        .mockResolvedValueOnce(groupParticipant(mockUser.id, 'owner', mockUser.nickname))
+        .mockResolvedValueOnce(groupParticipant('user-2', 'admin', 'ユーザー2'))
+      mockSystemMessage()
+
+      const { removeGroupMember } = await import('@/lib/actions/group-conversation')
+      const result = await removeGroupMember('group-1', 'user-2')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.conversationParticipant.delete).toHaveBeenCalledWith({
+        where: { conversationId_userId: { conversationId: 'group-1', userId: 'user-2' } },
+      })
+    })
+
+    it('管理者は他の管理者を削除できない', async () => {
+      mockPrisma.conversationParticipant.findUnique
+        .mockResolvedValueOnce(groupParticipant(mockUser.id, 'admin'))
+        .mockResolvedValueOnce(groupParticipant('user-2', 'admin'))
+
+      const { removeGroupMember } = await import('@/lib/actions/group-conversation')
+      const result = await removeGroupMember('group-1', 'user-2')
+
+      expect(result).toEqual({ error: 'このメンバーを削除する権限がありません' })
+      expect(mockPrisma.conversationParticipant.delete).not.toHaveBeenCalled()
+    })
+
+    it('自分自身は削除できない', async () => {
+      const { removeGroupMember } = await import('@/lib/actions/group-conversation')
+      const result = await removeGroupMember('group-1', mockUser.id)
+
+      expect(result).toEqual({ error: '自分自身を削除することはできません' })
+    })
+  })
+
+  // ============================================================
+  // leaveGroupConversation
+  // ============================================================
+
+  describe('leaveGroupConversation', () => {
+    it('オーナーが退出すると管理者にオーナーを引き継ぐ', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'owner', mockUser.nickname)
+      )
+      mockPrisma.conversationParticipant.findMany.mockResolvedValueOnce([
+        { userId: 'user-2', role: 'member', user: { nickname: 'ユーザー2' } },
+        { userId: 'user-3', role: 'admin', user: { nickname: 'ユーザー3' } },
+      ])
+      mockSystemMessage()
+      mockSystemMessage()
+
+      const { leaveGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await leaveGroupConversation('group-1')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.conversationParticipant.update).toHaveBeenCalledWith({
+        where: { conversationId_userId: { conversationId: 'group-1', userId: 'user-3' } },
+        data: { role: 'owner' },
+      })
+    })
+
+    it('最後の1人が退出すると会話を削除する', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'owner')
+      )
+      mockPrisma.conversationParticipant.findMany.mockResolvedValueOnce([])
+
+      const { leaveGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await leaveGroupConversation('group-1')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.conversation.delete).toHaveBeenCalledWith({ where: { id: 'group-1' } })
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
+    it('参加していないグループからは退出できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(null)
+
+      const { leaveGroupConversation } = await import('@/lib/actions/group-conversation')
+      const result = await leaveGroupConversation('group-1')
+
+      expect(result).toEqual({ error: 'この会話にアクセスする権限がありません' })
+    })
+  })
+
+  // ============================================================
+  // updateGroupMemberRole
+  // ============================================================
+
+  describe('updateGroupMemberRole', () => {
+    it('オーナーはメンバーを管理者にできる', async () => {
+      mockPrisma.conversationParticipant.findUnique
+        .mockResolvedValueOnce(groupParticipant(mockUser.id, 'owner', mockUser.nickname))
+        .mockResolvedValueOnce(groupParticipant('user-2', 'member', 'ユーザー2'))
+      mockSystemMessage()
+
+      const { updateGroupMemberRole } = await import('@/lib/actions/group-conversation')
+      const result = await updateGroupMemberRole('group-1', 'user-2', 'admin')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.conversationParticipant.update).toHaveBeenCalledWith({
+        where: { conversationId_userId: { conversationId: 'group-1', userId: 'user-2' } },
+        data: { role: 'admin' },
+      })
+    })
+
+    it('管理者は役割を変更できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(
+        groupParticipant(mockUser.id, 'admin')
+      )
+
+      const { updateGroupMemberRole } = await import('@/lib/actions/group-conversation')
+      const result = await updateGroupMemberRole('group-1', 'user-2', 'admin')
+
+      expect(result).toEqual({ error: '役割を変更する権限がありません' })
+    })
+  })
+})
@@ -9,6 +9,18 @@ jest.mock('@/lib/db', () => ({
   prisma: mockPrisma,
 }))
 
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// キャッシュモック
+const mockGetCachedTrendingHashtags = jest.fn()
+jest.mock('@/lib/cache', () => ({
+  getCachedTrendingHashtags: (...args: unknown[]) => mockGetCachedTrendingHashtags(...args),
+}))
+
 // ロガーモック
 jest.mock('@/lib/logger', () => ({
   __esModule: true,
@@ -118,33 +130,34 @@ describe('Hashtag Actions', () => {
   // ============================================================
 
   describe('getTrendingHashtags', () => {
-    it('トレンドハッシュタグを取得できる', async () => {
+    it('集計済みのトレンドハッシュタグを取得できる', async () => {
       const mockHashtags = [
-        { id: 'hashtag-1', name: '盆栽', count: 100 },
-        { id: 'hashtag-2', name: '黒松', count: 50 },
+        { id: 'hashtag-1', name: '紅葉', recentCount: 12, velocity: 8.4, trend: 'rising' },
+        { id: 'hashtag-2', name: '盆栽', recentCount: 30, velocity: 1.1, trend: 'steady' },
       ]
-      mockPrisma.hashtag.findMany.mockResolvedValueOnce(mockHashtags)
+      mockGetCachedTrendingHashtags.mockResolvedValueOnce({ hashtags: mockHashtags })
 
       const { getTrendingHashtags } = await import('@/lib/actions/hashtag')
       const result = await getTrendingHashtags(5)
 
       expect(result).toHaveLength(2)
-      expect(result[0].name).toBe('盆栽')
+      expect(result[0].name).toBe('紅葉')
+      expect(mockGetCachedTrendingHashtags).toHaveBeenCalledWith(5)
+      // 累計の使用回数では並べない
+      expect(mockPrisma.hashtag.findMany).not.toHaveBeenCalled()
     })
 
     it('デフォルトで10件取得する', async () => {
-      mockPrisma.hashtag.findMany.mockResolvedValueOnce([])
+      mockGetCachedTrendingHashtags.mockResolvedValueOnce({ hashtags: [] })
 
       const { getTrendingHashtags } = await import('@/lib/actions/hashtag')
       await getTrendingHashtags()
 
-      expect(mockPrisma.hashtag.findMany).toHaveBeenCalledWith(
-        expect.objectContaining({ take: 10 })
-      )
+      expect(mockGetCachedTrendingHashtags).toHaveBeenCalledWith(10)
     })
 
     it('エラー時は空配列を返す', async () => {
-      mockPrisma.hashtag.findMany.mockRejectedValueOnce(new Error('Database error'))
+      mockGetCachedTrendingHashtags.mockRejectedValueOnce(new Error('Database error'))
 
       const { getTrendingHashtags } = await import('@/lib/actions/hashtag')
       const result = await getTrendingHashtags()
@@ -187,6 +200,20 @@ describe('Hashtag Actions', () => {
         expect.objectContaining({ take: 10 })
       )
     })
+
+    it('未ログインの場合、全体公開の投稿のみ取得する', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+      mockPrisma.post.findMany.mockResolvedValueOnce([])
+
+      const { getPostsByHashtag } = await import('@/lib/actions/hashtag')
+      await getPostsByHashtag('盆栽')
+
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ audience: 'public' }),
+        })
+      )
+    })
   })
 
   // ============================================================
@@ -489,6 +489,20 @@ describe('Like Actions', () => {
   })
 
   describe('getLikedPosts', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ likesVisibility: 'everyone' })
+    })
+
+    it('いいねした投稿の公開範囲外の場合、取得しない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ likesVisibility: 'only_me' })
+
+      const { getLikedPosts } = await import('@/lib/actions/like')
+      const result = await getLikedPosts('other-user-id')
+
+      expect(result).toEqual({ posts: [], nextCursor: undefined, error: 'いいねした投稿は非公開です' })
+      expect(mockPrisma.like.findMany).not.toHaveBeenCalled()
+    })
+
     it('ユーザーがいいねした投稿一覧を取得できる', async () => {
       const likeData = {
         id: 'like-1',
@@ -521,6 +535,9 @@ describe('Like Actions', () => {
             userId: mockUser.id,
             postId: { not: null },
             commentId: null,
+            post: expect.objectContaining({
+              OR: expect.arrayContaining([{ audience: 'public' }, { userId: mockUser.id }]),
+            }),
           },
         })
       )
@@ -0,0 +1,322 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// revalidatePathモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// フィルターヘルパーモック
+const mockGetExcludedUserIds = jest.fn()
+jest.mock('@/lib/actions/filter-helper', () => ({
+  getExcludedUserIds: () => mockGetExcludedUserIds(),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('List Actions', () => {
+  const myList = {
+    id: 'list-1',
+    ownerId: mockUser.id,
+    name: '関西の盆栽園',
+    description: null,
+    isPublic: true,
+  }
+  const otherList = { ...myList, id: 'list-2', ownerId: 'owner-id' }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+    mockGetExcludedUserIds.mockResolvedValue([])
+  })
+
+  // ============================================================
+  // createList
+  // ============================================================
+
+  describe('createList', () => {
+    it('リストを作成できる', async () => {
+      mockPrisma.userList.count.mockResolvedValueOnce(0)
+      mockPrisma.userList.create.mockResolvedValueOnce({ id: 'list-1' })
+
+      const { createList } = await import('@/lib/actions/list')
+      const result = await createList({ name: ' 関西の盆栽園 ', isPublic: true })
+
+      expect(result).toEqual({ listId: 'list-1' })
+      expect(mockPrisma.userList.create).toHaveBeenCalledWith({
+        data: { ownerId: mockUser.id, name: '関西の盆栽園', description: null, isPublic: true },
+      })
+    })
+
+    it('リスト名が空の場合はエラー', async () => {
+      const { createList } = await import('@/lib/actions/list')
+      const result = await createList({ name: '   ' })
+
+      expect(result).toEqual({ error: 'リスト名を入力してください' })
+      expect(mockPrisma.userList.create).not.toHaveBeenCalled()
+    })
+
+    it('リスト名が長すぎる場合はエラー', async () => {
+      const { createList } = await import('@/lib/actions/list')
+      const result = await createList({ name: 'a'.repeat(51) })
+
+      expect(result).toEqual({ error: 'リスト名は50文字以内で入力してください' })
+    })
+
+    it('作成上限に達している場合はエラー', async () => {
+      mockPrisma.userList.count.mockResolvedValueOnce(20)
+
+      const { createList } = await import('@/lib/actions/list')
+      const result = await createList({ name: 'リスト' })
+
+      expect(result).toEqual({ error: 'リストは20個まで作成できます' })
+      expect(mockPrisma.userList.create).not.toHaveBeenCalled()
+    })
+
+    it('未認証の場合はエラー', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { createList } = await import('@/lib/actions/list')
+      const result = await createList({ name: 'リスト' })
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+  })
+
+  // ============================================================
+  // updateList
+  // ============================================================
+
+  describe('updateList', () => {
+    it('非公開にするとフォローを解除する', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: mockUser.id })
+
+      const { updateList } = await import('@/lib/actions/list')
+      const result = await updateList('list-1', { name: 'リスト', isPublic: false })
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.userListFollow.deleteMany).toHaveBeenCalledWith({ where: { listId: 'list-1' } })
+    })
+
+    it('公開のままならフォローを解除しない', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: mockUser.id })
+
+      const { updateList } = await import('@/lib/actions/list')
+      await updateList('list-1', { name: 'リスト', isPublic: true })
+
+      expect(mockPrisma.userListFollow.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('他人のリストは編集できない', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: 'owner-id' })
+
+      const { updateList } = await import('@/lib/actions/list')
+      const result = await updateList('list-2', { name: 'リスト', isPublic: true })
+
+      expect(result).toEqual({ error: 'リストが見つかりません' })
+      expect(mockPrisma.userList.update).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // addListMember
+  // ============================================================
+
+  describe('addListMember', () => {
+    it('ユーザーをリストに追加できる', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: mockUser.id })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'member-id', deactivatedAt: null })
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.userListMember.findUnique.mockResolvedValueOnce(null)
+      mockPrisma.userListMember.count.mockResolvedValueOnce(0)
+      mockPrisma.userListMember.create.mockResolvedValueOnce({})
+
+      const { addListMember } = await import('@/lib/actions/list')
+      const result = await addListMember('list-1', 'member-id')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.userListMember.create).toHaveBeenCalledWith({
+        data: { listId: 'list-1', userId: 'member-id' },
+      })
+    })
+
+    it('他人のリストには追加できない', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: 'owner-id' })
+
+      const { addListMember } = await import('@/lib/actions/list')
+      const result = await addListMember('list-2', 'member-id')
+
+      expect(result).toEqual({ error: 'リストが見つかりません' })
+      expect(mockPrisma.userListMember.create).not.toHaveBeenCalled()
+    })
+
+    it('ブロック関係にあるユーザーは追加できない', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: mockUser.id })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'member-id', deactivatedAt: null })
+      mockPrisma.block.findFirst.mockResolvedValueOnce({ blockerId: 'member-id', blockedId: mockUser.id })
+
+      const { addListMember } = await import('@/lib/actions/list')
+      const result = await addListMember('list-1', 'member-id')
+
+      expect(result).toEqual({ error: 'このユーザーはリストに追加できません' })
+      expect(mockPrisma.userListMember.create).not.toHaveBeenCalled()
+    })
+
+    it('既に追加済みの場合はエラー', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: mockUser.id })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'member-id', deactivatedAt: null })
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.userListMember.findUnique.mockResolvedValueOnce({ listId: 'list-1', userId: 'member-id' })
+
+      const { addListMember } = await import('@/lib/actions/list')
+      const result = await addListMember('list-1', 'member-id')
+
+      expect(result).toEqual({ error: '既にリストに追加されています' })
+    })
+
+    it('メンバー上限に達している場合はエラー', async () => {
+      mockPrisma.userList.findUnique.mockResolvedValueOnce({ ownerId: mockUser.id })
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'member-id', deactivatedAt: null })
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.userListMember.findUnique.mockResolvedValueOnce(null)
+      mockPrisma.userListMember.count.mockResolvedValueOnce(500)
+
+      const { addListMember } = await import('@/lib/actions/list')
+      const result = await addListMember('list-1', 'member-id')
+
+      expect(result).toEqual({ error: 'リストには500人まで追加できます' })
+    })
+  })
+
+  // ============================================================
+  // followList
+  // ============================================================
+
+  describe('followList', () => {
+    it('他人の公開リストをフォローできる', async () => {
+      mockPrisma.userList.findFirst.mockResolvedValueOnce(otherList)
+      mockPrisma.userListFollow.findUnique.mockResolvedValueOnce(null)
+      mockPrisma.userListFollow.create.mockResolvedValueOnce({})
+
+      const { followList } = await import('@/lib/actions/list')
+      const result = await followList('list-2')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.userListFollow.create).toHaveBeenCalledWith({
+        data: { listId: 'list-2', userId: mockUser.id },
+      })
+    })
+
+    it('閲覧できないリストはフォローできない', async () => {
+      mockPrisma.userList.findFirst.mockResolvedValueOnce(null)
+
+      const { followList } = await import('@/lib/actions/list')
+      const result = await followList('list-2')
+
+      expect(result).toEqual({ error: 'リストが見つかりません' })
+      expect(mockPrisma.userListFollow.create).not.toHaveBeenCalled()
+    })
+
+    it('自分のリストはフォローできない', async () => {
+      mockPrisma.userList.findFirst.mockResolvedValueOnce(myList)
+
+      const { followList } = await import('@/lib/actions/list')
+      const result = await followList('list-1')
+
+      expect(result).toEqual({ error: '自分のリストはフォローできません' })
+    })
+
+    it('既にフォローしている場合はエラー', async () => {
+      mockPrisma.userList.findFirst.mockResolvedValueOnce(otherList)
+      mockPrisma.userListFollow.findUnique.mockResolvedValueOnce({ listId: 'list-2', userId: mockUser.id })
+
+      const { followList } = await import('@/lib/actions/list')
+      const result = await followList('list-2')
+
+      expect(result).toEqual({ error: '既にフォローしています' })
+    })
+  })
+
+  // ============================================================
+  // getListTimeline
+  // ============================================================
+
+  describe('getListTimeline', () => {
+    it('メンバーの投稿を除外ユーザーを除いて取得する', async () => {
+      mockPrisma.userList.findFirst.mockResolvedValueOnce(otherList)
+      mockPrisma.userListMember.findMany.mockResolvedValueOnce([
+        { userId: 'member-1' },
+        { userId: 'member-2' },
+      ])
+      mockGetExcludedUserIds.mockResolvedValueOnce(['member-2'])
+      mockPrisma.post.findMany.mockResolvedValueOnce([
+        {
+          id: 'post-1',
+          userId: 'member-1',
+          genres: [],
+          _count: { likes: 1, comments: 0 },
+        },
+      ])
+      mockPrisma.like.findMany.mockResolvedValueOnce([{ postId: 'post-1' }])
+      mockPrisma.bookmark.findMany.mockResolvedValueOnce([])
+
+      const { getListTimeline } = await import('@/lib/actions/list')
+      const result = await getListTimeline('list-2')
+
+      expect(result.posts).toHaveLength(1)
+      expect(result.posts[0]).toMatchObject({ likeCount: 1, isLiked: true, isBookmarked: false })
+      expect(result.nextCursor).toBeUndefined()
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: { in: ['member-1', 'member-2'], notIn: ['member-2'] },
+          }),
+        })
+      )
+    })
+
+    it('メンバーがいない場合は空を返す', async () => {
+      mockPrisma.userList.findFirst.mockResolvedValueOnce(myList)
+      mockPrisma.userListMember.findMany.mockResolvedValueOnce([])
+
+      const { getListTimeline } = await import('@/lib/actions/list')
+      const result = await getListTimeline('list-1')
+
+      expect(result).toEqual({ posts: [], nextCursor: undefined })
+      expect(mockPrisma.post.findMany).not.toHaveBeenCalled()
+    })
+
+    it('閲覧できないリストはエラー', async () => {
+      mockPrisma.userList.findFirst.mockResolvedValueOnce(null)
+
+      const { getListTimeline } = await import('@/lib/actions/list')
+      const result = await getListTimeline('list-2')
+
+      expect(result.error).toBe('リストが見つかりません')
+      expect(result.posts).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 確認トークンモック
+const mockConsumeVerificationToken = jest.fn()
+const mockFindVerificationToken = jest.fn()
+jest.mock('@/lib/email-verification', () => ({
+  consumeVerificationToken: (...args: unknown[]) => mockConsumeVerificationToken(...args),
+  findVerificationToken: (...args: unknown[]) => mockFindVerificationToken(...args),
+}))
+
+// セキュリティロガーモック
+jest.mock('@/lib/security-logger', () => ({
+  logSuspiciousActivity: jest.fn(),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('Login Alert Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('checkLoginAlertToken', () => {
+    it('トークンを使用済みにせずに有効か確認する', async () => {
+      mockFindVerificationToken.mockResolvedValueOnce({
+        purpose: 'login-alert',
+        subjectId: 'user-1',
+      })
+
+      const { checkLoginAlertToken } = await import('@/lib/actions/login-alert')
+      const result = await checkLoginAlertToken('alert-token')
+
+      expect(result).toEqual({ success: true })
+      expect(mockFindVerificationToken).toHaveBeenCalledWith('alert-token', ['login-alert'])
+      expect(mockConsumeVerificationToken).not.toHaveBeenCalled()
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('無効なトークンではエラーを返す', async () => {
+      mockFindVerificationToken.mockResolvedValueOnce(null)
+
+      const { checkLoginAlertToken } = await import('@/lib/actions/login-alert')
+
+      expect(await checkLoginAlertToken('invalid')).toEqual({ error: 'リンクが無効または期限切れです' })
+    })
+  })
+
+  describe('reportUnrecognizedLogin', () => {
+    it('すべてのデバイスからログアウトさせ、パスワードの再設定を必須にする', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce({
+        purpose: 'login-alert',
+        subjectId: 'user-1',
+      })
+
+      const { reportUnrecognizedLogin } = await import('@/lib/actions/login-alert')
+      const result = await reportUnrecognizedLogin('alert-token')
+
+      expect(result).toEqual({ success: true })
+      expect(mockConsumeVerificationToken).toHaveBeenCalledWith('alert-token', ['login-alert'])
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { tokenVersion: { increment: 1 }, passwordResetRequired: true },
+      })
+      expect(mockPrisma.userDevice.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', signedOutAt: null },
+        data: { signedOutAt: expect.any(Date) },
+      })
+      expect(mockPrisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: { identifier: 'login-alert:user-1' },
+      })
+    })
+
+    it('無効なトークンではエラーを返す', async () => {
+      mockConsumeVerificationToken.mockResolvedValueOnce(null)
+
+      const { reportUnrecognizedLogin } = await import('@/lib/actions/login-alert')
+      const result = await reportUnrecognizedLogin('invalid')
+
+      expect(result).toEqual({ error: 'リンクが無効または期限切れです' })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+})
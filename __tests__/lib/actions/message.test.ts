@@ -20,9 +20,41 @@ jest.mock('next/cache', () => ({
   revalidatePath: jest.fn(),
 }))
 
+// リアルタイム配信モック
+const mockPublishConversationEvent = jest.fn()
+jest.mock('@/lib/realtime', () => ({
+  publishConversationEvent: (...args: unknown[]) => mockPublishConversationEvent(...args),
+}))
+
+// レート制限モック
+jest.mock('@/lib/rate-limit', () => ({
+  checkUserRateLimit: jest.fn().mockResolvedValue({ success: true }),
+  checkDailyLimit: jest.fn().mockResolvedValue({ allowed: true, count: 0, limit: 50 }),
+}))
+
+// ストレージモック
+const mockUploadFile = jest.fn()
+const mockDeleteFile = jest.fn()
+jest.mock('@/lib/storage', () => ({
+  uploadFile: (...args: unknown[]) => mockUploadFile(...args),
+  deleteFile: (...args: unknown[]) => mockDeleteFile(...args),
+  getStorageKey: (url: string) =>
+    url.startsWith('https://cdn.example.com/') && !url.includes('..')
+      ? url.slice('https://cdn.example.com/'.length)
+      : null,
+}))
+
+// メールアドレスの確認モック
+const mockIsEmailVerified = jest.fn()
+jest.mock('@/lib/email-verification', () => ({
+  EMAIL_NOT_VERIFIED_ERROR: 'メールアドレスの確認が必要です',
+  isEmailVerified: (...args: unknown[]) => mockIsEmailVerified(...args),
+}))
+
 describe('Message Actions', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockIsEmailVerified.mockResolvedValue(true)
     mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
   })
 
@@ -33,6 +65,7 @@ describe('Message Actions', () => {
   describe('getOrCreateConversation', () => {
     it('既存の会話を取得できる', async () => {
       mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ dmPermission: 'everyone' })
       mockPrisma.conversation.findFirst.mockResolvedValueOnce(mockConversation)
 
       const { getOrCreateConversation } = await import('@/lib/actions/message')
@@ -43,6 +76,7 @@ describe('Message Actions', () => {
 
     it('新規会話を作成できる', async () => {
       mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ dmPermission: 'everyone' })
       mockPrisma.conversation.findFirst.mockResolvedValueOnce(null)
       mockPrisma.conversation.create.mockResolvedValueOnce({ id: 'new-conversation-id' })
 
@@ -68,6 +102,16 @@ describe('Message Actions', () => {
       expect(result).toEqual({ error: '自分自身にメッセージを送ることはできません' })
     })
 
+    it('メールアドレスが未確認の場合、エラーを返す', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(false)
+
+      const { getOrCreateConversation } = await import('@/lib/actions/message')
+      const result = await getOrCreateConversation('other-user-id')
+
+      expect(result).toEqual({ error: 'メールアドレスの確認が必要です' })
+      expect(mockPrisma.conversation.create).not.toHaveBeenCalled()
+    })
+
     it('ブロック関係がある場合、エラーを返す', async () => {
       mockPrisma.block.findFirst.mockResolvedValueOnce({ blockerId: 'other-user-id', blockedId: mockUser.id })
 
@@ -76,6 +120,81 @@ describe('Message Actions', () => {
 
       expect(result).toEqual({ error: 'このユーザーにはメッセージを送れません' })
     })
+
+    it('相手が存在しない場合、エラーを返す', async () => {
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce(null)
+
+      const { getOrCreateConversation } = await import('@/lib/actions/message')
+      const result = await getOrCreateConversation('other-user-id')
+
+      expect(result).toEqual({ error: 'ユーザーが見つかりません' })
+      expect(mockPrisma.conversation.create).not.toHaveBeenCalled()
+    })
+
+    it('相手がメッセージを受け付けていない場合、既存の会話も開けない', async () => {
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ dmPermission: 'nobody' })
+
+      const { getOrCreateConversation } = await import('@/lib/actions/message')
+      const result = await getOrCreateConversation('other-user-id')
+
+      expect(result).toEqual({ error: 'このユーザーはメッセージを受け付けていません' })
+      expect(mockPrisma.conversation.findFirst).not.toHaveBeenCalled()
+    })
+
+    it('フォロワーのみの相手は、フォローしていないとメッセージを送れない', async () => {
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ dmPermission: 'followers' })
+      mockPrisma.follow.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(null)
+
+      const { getOrCreateConversation } = await import('@/lib/actions/message')
+      const result = await getOrCreateConversation('other-user-id')
+
+      expect(result).toEqual({ error: 'このユーザーはメッセージを受け付けていません' })
+    })
+
+    it('フォロワーのみの相手は、フォローしていればメッセージを送れる', async () => {
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ dmPermission: 'followers' })
+      mockPrisma.follow.findUnique
+        .mockResolvedValueOnce({ followerId: mockUser.id, followingId: 'other-user-id' })
+        .mockResolvedValueOnce(null)
+      mockPrisma.conversation.findFirst.mockResolvedValueOnce(mockConversation)
+
+      const { getOrCreateConversation } = await import('@/lib/actions/message')
+      const result = await getOrCreateConversation('other-user-id')
+
+      expect(result).toEqual({ conversationId: mockConversation.id })
+    })
+
+    it('相互フォローのみの相手は、片方向のフォローではメッセージを送れない', async () => {
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ dmPermission: 'mutual' })
+      mockPrisma.follow.findUnique
+        .mockResolvedValueOnce({ followerId: mockUser.id, followingId: 'other-user-id' })
+        .mockResolvedValueOnce(null)
+
+      const { getOrCreateConversation } = await import('@/lib/actions/message')
+      const result = await getOrCreateConversation('other-user-id')
+
+      expect(result).toEqual({ error: 'このユーザーはメッセージを受け付けていません' })
+    })
+
+    it('相互フォローのみの相手は、相互フォローであればメッセージを送れる', async () => {
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ dmPermission: 'mutual' })
+      mockPrisma.follow.findUnique
+        .mockResolvedValueOnce({ followerId: mockUser.id, followingId: 'other-user-id' })
+        .mockResolvedValueOnce({ followerId: 'other-user-id', followingId: mockUser.id })
+      mockPrisma.conversation.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.conversation.create.mockResolvedValueOnce({ id: 'new-conversation-id' })
+
+      const { getOrCreateConversation } = await import('@/lib/actions/message')
+      const result = await getOrCreateConversation('other-user-id')
+
+      expect(result).toEqual({ conversationId: 'new-conversation-id' })
+    })
   })
 
   // ============================================================
@@ -83,10 +202,21 @@ describe('Message Actions', () => {
   // ============================================================
 
   describe('sendMessage', () => {
+    it('メールアドレスが未確認の場合、エラーを返す', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(false)
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, 'こんにちは')
+
+      expect(result).toEqual({ error: 'メールアドレスの確認が必要です' })
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
     it('メッセージを送信できる', async () => {
       mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
         conversationId: mockConversation.id,
         userId: mockUser.id,
+        conversation: { isGroup: false },
       })
       mockPrisma.message.count.mockResolvedValueOnce(5)
       mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce({
@@ -108,6 +238,237 @@ describe('Message Actions', () => {
       expect(result.message).toBeDefined()
     })
 
+    it('送信したメッセージをリアルタイム配信する', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        conversation: { isGroup: false },
+      })
+      mockPrisma.message.count.mockResolvedValueOnce(0)
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.message.create.mockResolvedValueOnce({
+        ...mockMessage,
+        sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: mockUser.avatarUrl },
+      })
+      mockPrisma.conversation.update.mockResolvedValueOnce(mockConversation)
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      await sendMessage(mockConversation.id, 'こんにちは！')
+
+      expect(mockPublishConversationEvent).toHaveBeenCalledWith(mockConversation.id, {
+        type: 'message',
+        message: {
+          id: mockMessage.id,
+          type: 'text',
+          content: mockMessage.content,
+          createdAt: mockMessage.createdAt.toISOString(),
+          sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: mockUser.avatarUrl },
+        },
+      })
+    })
+
+    it('グループ会話では自分以外の全メンバーに通知する', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: 'group-1',
+        userId: mockUser.id,
+        conversation: { isGroup: true },
+      })
+      mockPrisma.message.count.mockResolvedValueOnce(0)
+      mockPrisma.message.create.mockResolvedValueOnce({
+        ...mockMessage,
+        conversationId: 'group-1',
+        sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: mockUser.avatarUrl },
+      })
+      mockPrisma.conversation.update.mockResolvedValueOnce({})
+      mockPrisma.conversationParticipant.findMany.mockResolvedValueOnce([
+        { userId: 'user-2' },
+        { userId: 'user-3' },
+      ])
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage('group-1', 'こんにちは！')
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.conversationParticipant.findFirst).not.toHaveBeenCalled()
+      expect(mockPrisma.notification.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user-2', actorId: mockUser.id, type: 'message' },
+          { userId: 'user-3', actorId: mockUser.id, type: 'message' },
+        ],
+      })
+    })
+
+    it('画像を添付して送信できる（本文は省略可能）', async () => {
+      const imageUrl = `https://cdn.example.com/message-images/${mockUser.id}/photo.jpg`
+      mockPrisma.messageMedia.count.mockResolvedValueOnce(0)
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        conversation: { isGroup: false },
+      })
+      mockPrisma.message.count.mockResolvedValueOnce(0)
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.message.create.mockResolvedValueOnce({
+        ...mockMessage,
+        content: '',
+        sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: mockUser.avatarUrl },
+        media: [{ id: 'media-1', url: imageUrl, type: 'image' }],
+        sharedPost: null,
+      })
+      mockPrisma.conversation.update.mockResolvedValueOnce(mockConversation)
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', { imageUrls: [imageUrl] })
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            media: { create: [{ url: imageUrl, type: 'image', sortOrder: 0 }] },
+          }),
+        })
+      )
+    })
+
+    it('5枚以上の画像はエラーを返す', async () => {
+      const imageUrls = Array.from({ length: 5 }, (_, i) => `https://cdn.example.com/message-images/${i}.jpg`)
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', { imageUrls })
+
+      expect(result).toEqual({ error: '画像は4枚まで添付できます' })
+    })
+
+    it('DM用にアップロードされていない画像URLはエラーを返す', async () => {
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', {
+        imageUrls: ['https://evil.example.com/image.jpg'],
+      })
+
+      expect(result).toEqual({ error: '無効な画像が含まれています' })
+    })
+
+    it('パスに message-images を含むだけの外部URLはエラーを返す', async () => {
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', {
+        imageUrls: [`http://169.254.169.254/latest#/message-images/${mockUser.id}/a.jpg`],
+      })
+
+      expect(result).toEqual({ error: '無効な画像が含まれています' })
+    })
+
+    it('他のユーザーがアップロードした画像はエラーを返す', async () => {
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', {
+        imageUrls: ['https://cdn.example.com/message-images/other-user-id/photo.jpg'],
+      })
+
+      expect(result).toEqual({ error: '無効な画像が含まれています' })
+    })
+
+    it('.. を含む画像URLはエラーを返す', async () => {
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', {
+        imageUrls: [`https://cdn.example.com/message-images/${mockUser.id}/../../avatars/a.jpg`],
+      })
+
+      expect(result).toEqual({ error: '無効な画像が含まれています' })
+    })
+
+    it('他のメッセージに添付済みの画像はエラーを返す', async () => {
+      mockPrisma.messageMedia.count.mockResolvedValueOnce(1)
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', {
+        imageUrls: [`https://cdn.example.com/message-images/${mockUser.id}/photo.jpg`],
+      })
+
+      expect(result).toEqual({ error: '無効な画像が含まれています' })
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
+    it('投稿を共有できる', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        conversation: { isGroup: false },
+      })
+      mockPrisma.message.count.mockResolvedValueOnce(0)
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.post.findUnique.mockResolvedValueOnce({ id: 'post-1', userId: 'author-id', isHidden: false, audience: 'public' })
+      mockPrisma.block.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.message.create.mockResolvedValueOnce({
+        ...mockMessage,
+        content: '',
+        sharedPostId: 'post-1',
+        sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: mockUser.avatarUrl },
+        media: [],
+        sharedPost: null,
+      })
+      mockPrisma.conversation.update.mockResolvedValueOnce(mockConversation)
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', { sharedPostId: 'post-1' })
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ sharedPostId: 'post-1' }),
+        })
+      )
+    })
+
+    it('非表示の投稿は共有できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        conversation: { isGroup: false },
+      })
+      mockPrisma.message.count.mockResolvedValueOnce(0)
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.post.findUnique.mockResolvedValueOnce({ id: 'post-1', userId: 'author-id', isHidden: true })
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', { sharedPostId: 'post-1' })
+
+      expect(result).toEqual({ error: 'この投稿は共有できません' })
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
+    it('公開範囲が限定された投稿は共有できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        conversation: { isGroup: false },
+      })
+      mockPrisma.message.count.mockResolvedValueOnce(0)
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.post.findUnique.mockResolvedValueOnce({ id: 'post-1', userId: 'author-id', isHidden: false, audience: 'followers' })
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', { sharedPostId: 'post-1' })
+
+      expect(result).toEqual({ error: 'この投稿は共有できません' })
+      expect(mockPrisma.message.create).not.toHaveBeenCalled()
+    })
+
+    it('ブロック関係にあるユーザーの投稿は共有できない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        conversation: { isGroup: false },
+      })
+      mockPrisma.message.count.mockResolvedValueOnce(0)
+      mockPrisma.conversationParticipant.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.post.findUnique.mockResolvedValueOnce({ id: 'post-1', userId: 'author-id', isHidden: false, audience: 'public' })
+      mockPrisma.block.findFirst.mockResolvedValueOnce({ blockerId: 'author-id', blockedId: mockUser.id })
+
+      const { sendMessage } = await import('@/lib/actions/message')
+      const result = await sendMessage(mockConversation.id, '', { sharedPostId: 'post-1' })
+
+      expect(result).toEqual({ error: 'この投稿は共有できません' })
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
@@ -144,6 +505,7 @@ describe('Message Actions', () => {
       mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
         conversationId: mockConversation.id,
         userId: mockUser.id,
+        conversation: { isGroup: false },
       })
       mockPrisma.message.count.mockResolvedValueOnce(100)
 
@@ -198,12 +560,13 @@ describe('Message Actions', () => {
       mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
         conversationId: mockConversation.id,
         userId: mockUser.id,
+        role: 'member',
       })
       mockPrisma.conversation.findUnique.mockResolvedValueOnce({
         ...mockConversation,
         participants: [
-          { userId: mockUser.id, user: mockUser },
-          { userId: 'other-user-id', user: { id: 'other-user-id', nickname: '他のユーザー', avatarUrl: null } },
+          { userId: mockUser.id, role: 'member', joinedAt: new Date('2024-01-01'), lastReadAt: null, user: mockUser },
+          { userId: 'other-user-id', role: 'member', joinedAt: new Date('2024-01-01'), lastReadAt: null, user: { id: 'other-user-id', nickname: '他のユーザー', avatarUrl: null } },
         ],
       })
 
@@ -213,6 +576,34 @@ describe('Message Actions', () => {
       expect(result.conversation?.otherUser?.nickname).toBe('他のユーザー')
     })
 
+    it('グループ会話ではメンバー一覧と参加者ごとの既読時刻を返す', async () => {
+      const readAt = new Date('2024-01-02')
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: 'group-1',
+        userId: mockUser.id,
+        role: 'owner',
+      })
+      mockPrisma.conversation.findUnique.mockResolvedValueOnce({
+        id: 'group-1',
+        isGroup: true,
+        title: '盆栽仲間',
+        participants: [
+          { userId: 'user-2', role: 'member', joinedAt: new Date('2024-01-02'), lastReadAt: readAt, user: { id: 'user-2', nickname: 'ユーザー2', avatarUrl: null } },
+          { userId: mockUser.id, role: 'owner', joinedAt: new Date('2024-01-01'), lastReadAt: null, user: mockUser },
+          { userId: 'user-3', role: 'admin', joinedAt: new Date('2024-01-03'), lastReadAt: null, user: { id: 'user-3', nickname: 'ユーザー3', avatarUrl: null } },
+        ],
+      })
+
+      const { getConversation } = await import('@/lib/actions/message')
+      const result = await getConversation('group-1')
+
+      expect(result.conversation?.isGroup).toBe(true)
+      expect(result.conversation?.otherUser).toBeNull()
+      expect(result.conversation?.myRole).toBe('owner')
+      expect(result.conversation?.members.map((m) => m.id)).toEqual([mockUser.id, 'user-2', 'user-3'])
+      expect(result.conversation?.memberLastReadAts).toEqual({ 'user-2': readAt, 'user-3': null })
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
@@ -241,6 +632,7 @@ describe('Message Actions', () => {
       mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
         conversationId: mockConversation.id,
         userId: mockUser.id,
+        conversation: { isGroup: false },
       })
       mockPrisma.message.findMany.mockResolvedValueOnce([
         { ...mockMessage, sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: mockUser.avatarUrl } },
@@ -254,6 +646,64 @@ describe('Message Actions', () => {
       expect(result.currentUserId).toBe(mockUser.id)
     })
 
+    it('非表示になった共有投稿は表示しない', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        conversation: { isGroup: false },
+      })
+      mockPrisma.message.findMany.mockResolvedValueOnce([
+        {
+          ...mockMessage,
+          sender: { id: mockUser.id, nickname: mockUser.nickname, avatarUrl: mockUser.avatarUrl },
+          media: [],
+          sharedPost: {
+            id: 'post-1',
+            content: '投稿',
+            createdAt: new Date(),
+            isHidden: true,
+            user: { id: 'author-id', nickname: 'author', avatarUrl: null },
+            media: [],
+          },
+        },
+      ])
+      mockPrisma.block.findMany.mockResolvedValueOnce([])
+      mockPrisma.conversationParticipant.update.mockResolvedValueOnce({})
+
+      const { getMessages } = await import('@/lib/actions/message')
+      const result = await getMessages(mockConversation.id)
+
+      expect(result.messages?.[0].sharedPost).toBeNull()
+    })
+
+    it('グループ会話ではブロック関係にあるユーザーのメッセージを除外する', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: 'group-1',
+        userId: mockUser.id,
+        conversation: { isGroup: true },
+      })
+      mockPrisma.block.findMany.mockResolvedValueOnce([
+        { blockerId: mockUser.id, blockedId: 'blocked-user' },
+      ])
+      mockPrisma.message.findMany.mockResolvedValueOnce([])
+      mockPrisma.conversationParticipant.update.mockResolvedValueOnce({})
+
+      const { getMessages } = await import('@/lib/actions/message')
+      await getMessages('group-1')
+
+      expect(mockPrisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            conversationId: 'group-1',
+            OR: [
+              { senderId: { notIn: ['blocked-user'] } },
+              { type: 'system' },
+            ],
+          },
+        })
+      )
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
@@ -311,6 +761,18 @@ describe('Message Actions', () => {
       expect(result).toEqual({ success: true })
     })
 
+    it('既読をリアルタイム配信する', async () => {
+      mockPrisma.conversationParticipant.update.mockResolvedValueOnce({})
+
+      const { markAsRead } = await import('@/lib/actions/message')
+      await markAsRead(mockConversation.id)
+
+      expect(mockPublishConversationEvent).toHaveBeenCalledWith(
+        mockConversation.id,
+        expect.objectContaining({ type: 'read', userId: mockUser.id })
+      )
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
@@ -321,6 +783,50 @@ describe('Message Actions', () => {
     })
   })
 
+  // ============================================================
+  // sendTypingIndicator
+  // ============================================================
+
+  describe('sendTypingIndicator', () => {
+    it('入力中イベントを配信する', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce({
+        conversationId: mockConversation.id,
+        userId: mockUser.id,
+        user: { nickname: mockUser.nickname },
+      })
+
+      const { sendTypingIndicator } = await import('@/lib/actions/message')
+      const result = await sendTypingIndicator(mockConversation.id)
+
+      expect(result).toEqual({ success: true })
+      expect(mockPublishConversationEvent).toHaveBeenCalledWith(mockConversation.id, {
+        type: 'typing',
+        userId: mockUser.id,
+        nickname: mockUser.nickname,
+      })
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { sendTypingIndicator } = await import('@/lib/actions/message')
+      const result = await sendTypingIndicator(mockConversation.id)
+
+      expect(result).toEqual({ error: '認証が必要です' })
+      expect(mockPublishConversationEvent).not.toHaveBeenCalled()
+    })
+
+    it('参加者でない場合、エラーを返す', async () => {
+      mockPrisma.conversationParticipant.findUnique.mockResolvedValueOnce(null)
+
+      const { sendTypingIndicator } = await import('@/lib/actions/message')
+      const result = await sendTypingIndicator(mockConversation.id)
+
+      expect(result).toEqual({ error: 'この会話にアクセスする権限がありません' })
+      expect(mockPublishConversationEvent).not.toHaveBeenCalled()
+    })
+  })
+
   // ============================================================
   // deleteMessage
   // ============================================================
@@ -331,6 +837,48 @@ describe('Message Actions', () => {
         id: mockMessage.id,
         senderId: mockUser.id,
         conversationId: mockConversation.id,
+        media: [],
+      })
+      mockPrisma.message.delete.mockResolvedValueOnce(mockMessage)
+
+      const { deleteMessage } = await import('@/lib/actions/message')
+      const result = await deleteMessage(mockMessage.id)
+
+      expect(result).toEqual({ success: true })
+      expect(mockDeleteFile).not.toHaveBeenCalled()
+    })
+
+    it('添付画像をストレージから削除する', async () => {
+      mockPrisma.message.findUnique.mockResolvedValueOnce({
+        id: mockMessage.id,
+        senderId: mockUser.id,
+        conversationId: mockConversation.id,
+        media: [
+          { url: `https://cdn.example.com/message-images/${mockUser.id}/a.jpg` },
+          { url: `https://cdn.example.com/message-images/${mockUser.id}/b.jpg` },
+        ],
+      })
+      mockPrisma.message.delete.mockResolvedValueOnce(mockMessage)
+      mockDeleteFile.mockResolvedValueOnce({ success: true })
+      mockDeleteFile.mockResolvedValueOnce({ success: false, error: 'not found' })
+
+      const { deleteMessage } = await import('@/lib/actions/message')
+      const result = await deleteMessage(mockMessage.id)
+
+      expect(result).toEqual({ success: true })
+      expect(mockDeleteFile).toHaveBeenCalledWith(`https://cdn.example.com/message-images/${mockUser.id}/a.jpg`)
+      expect(mockDeleteFile).toHaveBeenCalledWith(`https://cdn.example.com/message-images/${mockUser.id}/b.jpg`)
+    })
+
+    it('送信者のフォルダ外の添付画像はストレージから削除しない', async () => {
+      mockPrisma.message.findUnique.mockResolvedValueOnce({
+        id: mockMessage.id,
+        senderId: mockUser.id,
+        conversationId: mockConversation.id,
+        media: [
+          { url: 'https://cdn.example.com/message-images/other-user-id/a.jpg' },
+          { url: '/uploads/avatars/../posts/b.jpg' },
+        ],
       })
       mockPrisma.message.delete.mockResolvedValueOnce(mockMessage)
 
@@ -338,6 +886,7 @@ describe('Message Actions', () => {
       const result = await deleteMessage(mockMessage.id)
 
       expect(result).toEqual({ success: true })
+      expect(mockDeleteFile).not.toHaveBeenCalled()
     })
 
     it('未認証の場合、エラーを返す', async () => {
@@ -371,4 +920,75 @@ describe('Message Actions', () => {
       expect(result).toEqual({ error: 'このメッセージを削除する権限がありません' })
     })
   })
+
+  // ============================================================
+  // uploadMessageImage
+  // ============================================================
+
+  describe('uploadMessageImage', () => {
+    /** JPEGのファイルシグネチャを持つ画像 */
+    const createImageFile = (type = 'image/jpeg', size?: number) => {
+      const bytes = new Uint8Array(size ?? 16)
+      bytes.set([0xff, 0xd8, 0xff, 0xe0])
+      return new File([bytes], 'photo.jpg', { type })
+    }
+
+    it('画像をアップロードできる', async () => {
+      mockUploadFile.mockResolvedValueOnce({
+        success: true,
+        url: 'https://cdn.example.com/message-images/photo.jpg',
+      })
+
+      const formData = new FormData()
+      formData.append('file', createImageFile())
+
+      const { uploadMessageImage } = await import('@/lib/actions/message')
+      const result = await uploadMessageImage(formData)
+
+      expect(result).toEqual({ success: true, url: 'https://cdn.example.com/message-images/photo.jpg' })
+      expect(mockUploadFile).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        expect.any(String),
+        'image/jpeg',
+        `message-images/${mockUser.id}`
+      )
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { uploadMessageImage } = await import('@/lib/actions/message')
+      const result = await uploadMessageImage(new FormData())
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('ファイルがない場合、エラーを返す', async () => {
+      const { uploadMessageImage } = await import('@/lib/actions/message')
+      const result = await uploadMessageImage(new FormData())
+
+      expect(result).toEqual({ error: 'ファイルが選択されていません' })
+    })
+
+    it('画像以外のファイルはエラーを返す', async () => {
+      const formData = new FormData()
+      formData.append('file', createImageFile('video/mp4'))
+
+      const { uploadMessageImage } = await import('@/lib/actions/message')
+      const result = await uploadMessageImage(formData)
+
+      expect(result).toEqual({ error: '画像ファイルを選択してください' })
+    })
+
+    it('4MBを超える画像はエラーを返す', async () => {
+      const formData = new FormData()
+      formData.append('file', createImageFile('image/jpeg', 4 * 1024 * 1024 + 1))
+
+      const { uploadMessageImage } = await import('@/lib/actions/message')
+      const result = await uploadMessageImage(formData)
+
+      expect(result).toEqual({ error: '画像は4MB以下にしてください' })
+      expect(mockUploadFile).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,260 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// next/cacheモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// パスキーユーティリティモック
+const mockCreateRegistrationOptions = jest.fn()
+const mockVerifyRegistration = jest.fn()
+const mockCreateAuthenticationOptions = jest.fn()
+jest.mock('@/lib/passkey', () => ({
+  MAX_PASSKEYS_PER_USER: 10,
+  createRegistrationOptions: (...args: unknown[]) => mockCreateRegistrationOptions(...args),
+  verifyRegistration: (...args: unknown[]) => mockVerifyRegistration(...args),
+  createAuthenticationOptions: (...args: unknown[]) => mockCreateAuthenticationOptions(...args),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('Passkey Actions', () => {
+  const response = { id: 'credential-1' } as never
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+  })
+
+  // ============================================================
+  // getPasskeys
+  // ============================================================
+
+  describe('getPasskeys', () => {
+    it('未認証の場合はエラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getPasskeys } = await import('@/lib/actions/passkey')
+      const result = await getPasskeys()
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('自分のパスキーを登録順に返す', async () => {
+      const passkeys = [{ id: 'passkey-1', name: 'iPhone' }]
+      mockPrisma.passkey.findMany.mockResolvedValueOnce(passkeys)
+
+      const { getPasskeys } = await import('@/lib/actions/passkey')
+      const result = await getPasskeys()
+
+      expect(result).toEqual({ passkeys })
+      expect(mockPrisma.passkey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: mockUser.id },
+          orderBy: { createdAt: 'asc' },
+        })
+      )
+    })
+  })
+
+  // ============================================================
+  // 登録
+  // ============================================================
+
+  describe('getPasskeyRegistrationOptions', () => {
+    it('登録オプションを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        id: mockUser.id,
+        email: mockUser.email,
+        nickname: mockUser.nickname,
+        _count: { passkeys: 1 },
+      })
+      mockCreateRegistrationOptions.mockResolvedValueOnce({ challenge: 'reg-challenge' })
+
+      const { getPasskeyRegistrationOptions } = await import('@/lib/actions/passkey')
+      const result = await getPasskeyRegistrationOptions()
+
+      expect(result).toEqual({ options: { challenge: 'reg-challenge' } })
+    })
+
+    it('上限に達している場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        id: mockUser.id,
+        email: mockUser.email,
+        nickname: mockUser.nickname,
+        _count: { passkeys: 10 },
+      })
+
+      const { getPasskeyRegistrationOptions } = await import('@/lib/actions/passkey')
+      const result = await getPasskeyRegistrationOptions()
+
+      expect(result).toEqual({ error: 'パスキーは10個まで登録できます' })
+      expect(mockCreateRegistrationOptions).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('registerPasskey', () => {
+    const credential = {
+      credentialId: 'credential-1',
+      publicKey: Buffer.from([1]),
+      counter: 0,
+      transports: ['internal'],
+      deviceType: 'multiDevice',
+      backedUp: true,
+    }
+
+    it('名前が空の場合はエラーを返す', async () => {
+      const { registerPasskey } = await import('@/lib/actions/passkey')
+      const result = await registerPasskey('  ', response)
+
+      expect(result).toEqual({ error: '名前を入力してください' })
+      expect(mockVerifyRegistration).not.toHaveBeenCalled()
+    })
+
+    it('検証に失敗した場合はエラーを返す', async () => {
+      mockVerifyRegistration.mockResolvedValueOnce(null)
+
+      const { registerPasskey } = await import('@/lib/actions/passkey')
+      const result = await registerPasskey('iPhone', response)
+
+      expect(result).toEqual({ error: 'パスキーを確認できませんでした。もう一度お試しください。' })
+      expect(mockPrisma.passkey.create).not.toHaveBeenCalled()
+    })
+
+    it('名前を付けてパスキーを保存する', async () => {
+      mockVerifyRegistration.mockResolvedValueOnce(credential)
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce(null)
+
+      const { registerPasskey } = await import('@/lib/actions/passkey')
+      const result = await registerPasskey(' iPhone ', response)
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.passkey.create).toHaveBeenCalledWith({
+        data: { userId: mockUser.id, name: 'iPhone', ...credential },
+      })
+    })
+
+    it('登録済みのパスキーはエラーを返す', async () => {
+      mockVerifyRegistration.mockResolvedValueOnce(credential)
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce({ id: 'passkey-1' })
+
+      const { registerPasskey } = await import('@/lib/actions/passkey')
+      const result = await registerPasskey('iPhone', response)
+
+      expect(result).toEqual({ error: 'このパスキーは既に登録されています' })
+    })
+  })
+
+  // ============================================================
+  // 名前変更・削除
+  // ============================================================
+
+  describe('renamePasskey', () => {
+    it('他人のパスキーは変更できない', async () => {
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce({ userId: 'other-user' })
+
+      const { renamePasskey } = await import('@/lib/actions/passkey')
+      const result = await renamePasskey('passkey-1', '仕事用PC')
+
+      expect(result).toEqual({ error: 'パスキーが見つかりません' })
+      expect(mockPrisma.passkey.update).not.toHaveBeenCalled()
+    })
+
+    it('名前を変更する', async () => {
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce({ userId: mockUser.id })
+
+      const { renamePasskey } = await import('@/lib/actions/passkey')
+      const result = await renamePasskey('passkey-1', '仕事用PC')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.passkey.update).toHaveBeenCalledWith({
+        where: { id: 'passkey-1' },
+        data: { name: '仕事用PC' },
+      })
+    })
+  })
+
+  describe('deletePasskey', () => {
+    it('パスキーを削除する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: 'hashed',
+        passkeys: [{ id: 'passkey-1' }],
+        _count: { accounts: 0 },
+      })
+
+      const { deletePasskey } = await import('@/lib/actions/passkey')
+      const result = await deletePasskey('passkey-1')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.passkey.delete).toHaveBeenCalledWith({ where: { id: 'passkey-1' } })
+    })
+
+    it('自分のパスキーでなければエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: 'hashed',
+        passkeys: [{ id: 'passkey-1' }],
+        _count: { accounts: 0 },
+      })
+
+      const { deletePasskey } = await import('@/lib/actions/passkey')
+      const result = await deletePasskey('passkey-2')
+
+      expect(result).toEqual({ error: 'パスキーが見つかりません' })
+      expect(mockPrisma.passkey.delete).not.toHaveBeenCalled()
+    })
+
+    it('ほかにログイン方法がない場合は最後のパスキーを削除できない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: null,
+        passkeys: [{ id: 'passkey-1' }],
+        _count: { accounts: 0 },
+      })
+
+      const { deletePasskey } = await import('@/lib/actions/passkey')
+      const result = await deletePasskey('passkey-1')
+
+      expect(result).toEqual({ error: 'ほかにログインする方法がないため削除できません' })
+      expect(mockPrisma.passkey.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // ログイン
+  // ============================================================
+
+  describe('getPasskeyLoginOptions', () => {
+    it('ログイン用の認証オプションを返す', async () => {
+      mockCreateAuthenticationOptions.mockResolvedValueOnce({ challenge: 'auth-challenge' })
+
+      const { getPasskeyLoginOptions } = await import('@/lib/actions/passkey')
+      const result = await getPasskeyLoginOptions()
+
+      expect(result).toEqual({ options: { challenge: 'auth-challenge' } })
+      expect(mockCreateAuthenticationOptions).toHaveBeenCalledWith('login')
+    })
+  })
+})
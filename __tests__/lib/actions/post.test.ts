@@ -73,9 +73,19 @@ jest.mock('@/lib/logger', () => ({
   },
 }))
 
+// メールアドレスの確認モック
+const mockIsEmailVerified = jest.fn()
+jest.mock('@/lib/email-verification', () => ({
+  EMAIL_NOT_VERIFIED_ERROR: 'メールアドレスの確認が必要です',
+  isEmailVerified: (...args: unknown[]) => mockIsEmailVerified(...args),
+}))
+
 describe('Post Actions', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockIsEmailVerified.mockResolvedValue(true)
+    // 一時停止中のユーザーの取得用
+    mockPrisma.user.findMany.mockResolvedValue([])
     mockAuth.mockResolvedValue({
       user: { id: mockUser.id },
     })
@@ -146,6 +156,37 @@ describe('Post Actions', () => {
       expect(result.postId).toBeDefined()
       expect(mockPrisma.post.create).toHaveBeenCalled()
     })
+
+    it('公開範囲を指定して投稿できる', async () => {
+      mockPrisma.post.count.mockResolvedValue(0)
+      mockPrisma.post.create.mockResolvedValue({ ...mockPost, id: 'new-post-id' })
+
+      const { createPost } = await import('@/lib/actions/post')
+      const formData = new FormData()
+      formData.append('content', 'テスト投稿')
+      formData.append('audience', 'followers')
+
+      const result = await createPost(formData)
+
+      expect(result.success).toBe(true)
+      expect(mockPrisma.post.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ audience: 'followers' }),
+        })
+      )
+    })
+
+    it('不正な公開範囲はエラーを返す', async () => {
+      const { createPost } = await import('@/lib/actions/post')
+      const formData = new FormData()
+      formData.append('content', 'テスト投稿')
+      formData.append('audience', 'everyone')
+
+      const result = await createPost(formData)
+
+      expect(result).toEqual({ error: '公開範囲が正しくありません' })
+      expect(mockPrisma.post.create).not.toHaveBeenCalled()
+    })
   })
 
   describe('deletePost', () => {
@@ -221,6 +262,79 @@ describe('Post Actions', () => {
 
       expect(result.error).toBe('投稿が見つかりません')
     })
+
+    it('フォロワー限定の投稿は、フォローしていないユーザーには見つからない投稿として扱う', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'viewer-id' } })
+      mockPrisma.post.findUnique.mockResolvedValue({
+        ...mockPost,
+        audience: 'followers',
+        _count: { likes: 0, comments: 0 },
+        genres: [],
+      })
+      mockPrisma.follow.findUnique.mockResolvedValue(null)
+
+      const { getPost } = await import('@/lib/actions/post')
+      const result = await getPost('post-id')
+
+      expect(result).toEqual({ error: '投稿が見つかりません' })
+    })
+
+    it('フォロワー限定の投稿は、フォロワーなら閲覧できる', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'viewer-id' } })
+      mockPrisma.post.findUnique.mockResolvedValue({
+        ...mockPost,
+        audience: 'followers',
+        _count: { likes: 0, comments: 0 },
+        genres: [],
+      })
+      mockPrisma.follow.findUnique
+        .mockResolvedValueOnce({ followerId: 'viewer-id', followingId: mockPost.userId })
+        .mockResolvedValueOnce(null)
+
+      const { getPost } = await import('@/lib/actions/post')
+      const result = await getPost('post-id')
+
+      expect(result.post?.id).toBe(mockPost.id)
+    })
+
+    it('親しい友達限定の投稿は、リストに含まれていないフォロワーには見つからない投稿として扱う', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'viewer-id' } })
+      mockPrisma.post.findUnique.mockResolvedValue({
+        ...mockPost,
+        audience: 'close_friends',
+        _count: { likes: 0, comments: 0 },
+        genres: [],
+      })
+      mockPrisma.follow.findUnique
+        .mockResolvedValueOnce({ followerId: 'viewer-id', followingId: mockPost.userId })
+        .mockResolvedValueOnce(null)
+      mockPrisma.closeFriend.findUnique.mockResolvedValueOnce(null)
+
+      const { getPost } = await import('@/lib/actions/post')
+      const result = await getPost('post-id')
+
+      expect(result).toEqual({ error: '投稿が見つかりません' })
+    })
+
+    it('親しい友達限定の投稿は、リストに含まれているユーザーなら閲覧できる', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'viewer-id' } })
+      mockPrisma.post.findUnique.mockResolvedValue({
+        ...mockPost,
+        audience: 'close_friends',
+        _count: { likes: 0, comments: 0 },
+        genres: [],
+      })
+      mockPrisma.follow.findUnique.mockResolvedValue(null)
+      mockPrisma.closeFriend.findUnique.mockResolvedValueOnce({ userId: mockPost.userId, friendId: 'viewer-id' })
+
+      const { getPost } = await import('@/lib/actions/post')
+      const result = await getPost('post-id')
+
+      expect(result.post?.id).toBe(mockPost.id)
+      expect(mockPrisma.closeFriend.findUnique).toHaveBeenCalledWith({
+        where: { userId_friendId: { userId: mockPost.userId, friendId: 'viewer-id' } },
+      })
+    })
   })
 
   describe('getPosts (フィード)', () => {
@@ -300,6 +414,20 @@ describe('Post Actions', () => {
       expect(result).toEqual({ error: 'アカウントが停止されています' })
     })
 
+    it('メールアドレスが未確認の場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
+      mockIsEmailVerified.mockResolvedValue(false)
+
+      const { createPost } = await import('@/lib/actions/post')
+      const formData = new FormData()
+      formData.append('content', 'テスト投稿')
+
+      const result = await createPost(formData)
+
+      expect(result).toEqual({ error: 'メールアドレスの確認が必要です' })
+      expect(mockPrisma.post.create).not.toHaveBeenCalled()
+    })
+
     it('レート制限に達した場合はエラーを返す', async () => {
       mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
       mockCheckUserRateLimit.mockResolvedValueOnce({ success: false })
@@ -421,6 +549,20 @@ describe('Post Actions', () => {
       expect(result).toEqual({ error: 'アカウントが停止されています' })
     })
 
+    it('メールアドレスが未確認の場合はエラーを返す', async () => {
+      mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
+      mockIsEmailVerified.mockResolvedValue(false)
+
+      const { createQuotePost } = await import('@/lib/actions/post')
+      const formData = new FormData()
+      formData.append('content', '引用コメント')
+
+      const result = await createQuotePost(formData, 'post-id')
+
+      expect(result).toEqual({ error: 'メールアドレスの確認が必要です' })
+    })
+
     it('引用コメントが空の場合はエラーを返す', async () => {
       mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
       mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
@@ -466,7 +608,7 @@ describe('Post Actions', () => {
       mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
       mockPrisma.post.count.mockResolvedValue(0)
       mockPrisma.post.create.mockResolvedValue({ ...mockPost, id: 'quote-post-id' })
-      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id' })
+      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id', audience: 'public', isHidden: false })
       mockPrisma.notification.create.mockResolvedValue({})
 
       const { createQuotePost } = await import('@/lib/actions/post')
@@ -485,7 +627,7 @@ describe('Post Actions', () => {
       mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
       mockPrisma.post.count.mockResolvedValue(0)
       mockPrisma.post.create.mockResolvedValue({ ...mockPost, id: 'quote-post-id' })
-      mockPrisma.post.findUnique.mockResolvedValue({ userId: mockUser.id })
+      mockPrisma.post.findUnique.mockResolvedValue({ userId: mockUser.id, audience: 'public', isHidden: false })
 
       const { createQuotePost } = await import('@/lib/actions/post')
       const formData = new FormData()
@@ -497,6 +639,38 @@ describe('Post Actions', () => {
       expect(mockPrisma.notification.create).not.toHaveBeenCalled()
     })
 
+    it('公開範囲が限定された投稿は引用できない', async () => {
+      mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
+      mockPrisma.post.count.mockResolvedValue(0)
+      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id', audience: 'followers', isHidden: false })
+
+      const { createQuotePost } = await import('@/lib/actions/post')
+      const formData = new FormData()
+      formData.append('content', '引用コメント')
+
+      const result = await createQuotePost(formData, 'post-id')
+
+      expect(result).toEqual({ error: '公開範囲が限定された投稿は引用できません' })
+      expect(mockPrisma.post.create).not.toHaveBeenCalled()
+    })
+
+    it('存在しない投稿は引用できない', async () => {
+      mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
+      mockPrisma.post.count.mockResolvedValue(0)
+      mockPrisma.post.findUnique.mockResolvedValue(null)
+
+      const { createQuotePost } = await import('@/lib/actions/post')
+      const formData = new FormData()
+      formData.append('content', '引用コメント')
+
+      const result = await createQuotePost(formData, 'post-id')
+
+      expect(result).toEqual({ error: '引用元の投稿が見つかりません' })
+      expect(mockPrisma.post.create).not.toHaveBeenCalled()
+    })
+
     it('レート制限に達した場合はエラーを返す', async () => {
       mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
       mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
@@ -563,7 +737,7 @@ describe('Post Actions', () => {
       mockPrisma.post.findFirst.mockResolvedValue(null)
       mockPrisma.post.count.mockResolvedValue(0)
       mockPrisma.post.create.mockResolvedValue({ id: 'repost-id' })
-      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id' })
+      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id', audience: 'public', isHidden: false })
       mockPrisma.notification.findFirst.mockResolvedValue(null)
       mockPrisma.notification.create.mockResolvedValue({})
 
@@ -574,13 +748,27 @@ describe('Post Actions', () => {
       expect(mockPrisma.notification.create).toHaveBeenCalled()
     })
 
+    it('公開範囲が限定された投稿はリポストできない', async () => {
+      mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
+      mockPrisma.post.findFirst.mockResolvedValue(null)
+      mockPrisma.post.count.mockResolvedValue(0)
+      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id', audience: 'mutuals', isHidden: false })
+
+      const { createRepost } = await import('@/lib/actions/post')
+      const result = await createRepost('post-id')
+
+      expect(result).toEqual({ error: '公開範囲が限定された投稿はリポストできません' })
+      expect(mockPrisma.post.create).not.toHaveBeenCalled()
+    })
+
     it('自分の投稿をリポストした場合は通知が作成されない', async () => {
       mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
       mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
       mockPrisma.post.findFirst.mockResolvedValue(null)
       mockPrisma.post.count.mockResolvedValue(0)
       mockPrisma.post.create.mockResolvedValue({ id: 'repost-id' })
-      mockPrisma.post.findUnique.mockResolvedValue({ userId: mockUser.id })
+      mockPrisma.post.findUnique.mockResolvedValue({ userId: mockUser.id, audience: 'public', isHidden: false })
 
       const { createRepost } = await import('@/lib/actions/post')
       const result = await createRepost('post-id')
@@ -595,7 +783,7 @@ describe('Post Actions', () => {
       mockPrisma.post.findFirst.mockResolvedValue(null)
       mockPrisma.post.count.mockResolvedValue(0)
       mockPrisma.post.create.mockResolvedValue({ id: 'repost-id' })
-      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id' })
+      mockPrisma.post.findUnique.mockResolvedValue({ userId: 'other-user-id', audience: 'public', isHidden: false })
       mockPrisma.notification.findFirst.mockResolvedValue({ id: 'existing-notification' })
 
       const { createRepost } = await import('@/lib/actions/post')
@@ -790,6 +978,7 @@ describe('Post Actions', () => {
 
   describe('getPostsByBonsai', () => {
     it('盆栽に関連する投稿を取得できる', async () => {
+      mockAuth.mockResolvedValue(null)
       mockPrisma.post.findMany.mockResolvedValue([
         {
           ...mockPost,
@@ -805,7 +994,7 @@ describe('Post Actions', () => {
       expect(result.posts).toHaveLength(1)
       expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { bonsaiId: 'bonsai-1' },
+          where: { bonsaiId: 'bonsai-1', audience: 'public' },
         })
       )
     })
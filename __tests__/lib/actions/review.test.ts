@@ -274,7 +274,7 @@ describe('Review Actions', () => {
       expect(mockPrisma.shopReview.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           take: 10,
-          where: { shopId: 'test-shop-id' },
+          where: { shopId: 'test-shop-id', user: { deactivatedAt: null } },
         })
       )
     })
@@ -0,0 +1,240 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// revalidatePathモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('Saved Search Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+  })
+
+  // ============================================================
+  // saveSearch
+  // ============================================================
+
+  describe('saveSearch', () => {
+    it('検索条件を正規化して保存できる', async () => {
+      mockPrisma.genre.count.mockResolvedValueOnce(2)
+      mockPrisma.savedSearch.count.mockResolvedValueOnce(0)
+      mockPrisma.savedSearch.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.savedSearch.create.mockResolvedValueOnce({ id: 'search-1' })
+
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      const result = await saveSearch({
+        query: '  五葉松   譲ります ',
+        genreIds: ['g2', 'g1', 'g2'],
+        hashtag: '#Bonsai',
+        notifyMode: 'daily',
+      })
+
+      expect(result).toEqual({ savedSearchId: 'search-1' })
+      expect(mockPrisma.savedSearch.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUser.id,
+          query: '五葉松 譲ります',
+          hashtag: 'bonsai',
+          genreIds: ['g1', 'g2'],
+          notifyMode: 'daily',
+        },
+      })
+    })
+
+    it('通知方法の省略時はすぐに通知', async () => {
+      mockPrisma.savedSearch.count.mockResolvedValueOnce(0)
+      mockPrisma.savedSearch.findFirst.mockResolvedValueOnce(null)
+      mockPrisma.savedSearch.create.mockResolvedValueOnce({ id: 'search-1' })
+
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      await saveSearch({ query: '五葉松' })
+
+      expect(mockPrisma.savedSearch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ notifyMode: 'instant', hashtag: null, genreIds: [] }),
+      })
+    })
+
+    it('キーワードもハッシュタグもない場合はエラー', async () => {
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      const result = await saveSearch({ query: '  ', hashtag: '#', genreIds: ['g1'] })
+
+      expect(result).toEqual({ error: 'キーワードまたはハッシュタグを指定してください' })
+      expect(mockPrisma.savedSearch.create).not.toHaveBeenCalled()
+    })
+
+    it('無効な通知方法はエラー', async () => {
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      const result = await saveSearch({ query: '五葉松', notifyMode: 'weekly' })
+
+      expect(result).toEqual({ error: '通知方法が正しくありません' })
+    })
+
+    it('存在しないジャンルはエラー', async () => {
+      mockPrisma.genre.count.mockResolvedValueOnce(1)
+
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      const result = await saveSearch({ query: '五葉松', genreIds: ['g1', 'unknown'] })
+
+      expect(result).toEqual({ error: 'ジャンルが見つかりません' })
+      expect(mockPrisma.savedSearch.create).not.toHaveBeenCalled()
+    })
+
+    it('保存数の上限に達している場合はエラー', async () => {
+      mockPrisma.savedSearch.count.mockResolvedValueOnce(20)
+
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      const result = await saveSearch({ query: '五葉松' })
+
+      expect(result).toEqual({ error: '検索は20件まで保存できます' })
+    })
+
+    it('同じ条件が保存済みの場合はエラー', async () => {
+      mockPrisma.savedSearch.count.mockResolvedValueOnce(1)
+      mockPrisma.savedSearch.findFirst.mockResolvedValueOnce({ id: 'search-1' })
+
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      const result = await saveSearch({ query: '五葉松' })
+
+      expect(result).toEqual({ error: 'この検索は既に保存されています' })
+      expect(mockPrisma.savedSearch.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: mockUser.id,
+          query: '五葉松',
+          hashtag: null,
+          genreIds: { equals: [] },
+        },
+      })
+    })
+
+    it('未認証の場合はエラー', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { saveSearch } = await import('@/lib/actions/saved-search')
+      const result = await saveSearch({ query: '五葉松' })
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+  })
+
+  // ============================================================
+  // updateSavedSearchNotifyMode
+  // ============================================================
+
+  describe('updateSavedSearchNotifyMode', () => {
+    it('自分の保存した検索の通知方法を変更できる', async () => {
+      mockPrisma.savedSearch.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const { updateSavedSearchNotifyMode } = await import('@/lib/actions/saved-search')
+      const result = await updateSavedSearchNotifyMode('search-1', 'daily')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.savedSearch.updateMany).toHaveBeenCalledWith({
+        where: { id: 'search-1', userId: mockUser.id },
+        data: { notifyMode: 'daily' },
+      })
+    })
+
+    it('他人の保存した検索は変更できない', async () => {
+      mockPrisma.savedSearch.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const { updateSavedSearchNotifyMode } = await import('@/lib/actions/saved-search')
+      const result = await updateSavedSearchNotifyMode('search-2', 'daily')
+
+      expect(result).toEqual({ error: '保存した検索が見つかりません' })
+    })
+
+    it('無効な通知方法はエラー', async () => {
+      const { updateSavedSearchNotifyMode } = await import('@/lib/actions/saved-search')
+      const result = await updateSavedSearchNotifyMode('search-1', 'never')
+
+      expect(result).toEqual({ error: '通知方法が正しくありません' })
+      expect(mockPrisma.savedSearch.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // deleteSavedSearch
+  // ============================================================
+
+  describe('deleteSavedSearch', () => {
+    it('自分の保存した検索を削除できる', async () => {
+      mockPrisma.savedSearch.deleteMany.mockResolvedValueOnce({ count: 1 })
+
+      const { deleteSavedSearch } = await import('@/lib/actions/saved-search')
+      const result = await deleteSavedSearch('search-1')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.savedSearch.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'search-1', userId: mockUser.id },
+      })
+    })
+
+    it('見つからない場合はエラー', async () => {
+      mockPrisma.savedSearch.deleteMany.mockResolvedValueOnce({ count: 0 })
+
+      const { deleteSavedSearch } = await import('@/lib/actions/saved-search')
+      const result = await deleteSavedSearch('search-2')
+
+      expect(result).toEqual({ error: '保存した検索が見つかりません' })
+    })
+  })
+
+  // ============================================================
+  // getSavedSearches
+  // ============================================================
+
+  describe('getSavedSearches', () => {
+    it('表示名と検索ページのURLを付けて返す', async () => {
+      const createdAt = new Date('2026-11-01T00:00:00Z')
+      mockPrisma.savedSearch.findMany.mockResolvedValueOnce([
+        { id: 'search-1', query: '黒松', genreIds: ['g1'], hashtag: null, notifyMode: 'instant', createdAt },
+        { id: 'search-2', query: '', genreIds: [], hashtag: '盆栽', notifyMode: 'daily', createdAt },
+      ])
+      mockPrisma.genre.findMany.mockResolvedValueOnce([{ id: 'g1', name: '松柏類' }])
+
+      const { getSavedSearches } = await import('@/lib/actions/saved-search')
+      const result = await getSavedSearches()
+
+      expect(result.searches).toEqual([
+        { id: 'search-1', label: '黒松（松柏類）', url: '/search?q=%E9%BB%92%E6%9D%BE&genre=g1', notifyMode: 'instant', createdAt },
+        { id: 'search-2', label: '#盆栽', url: '/search?tab=tags&q=%E7%9B%86%E6%A0%BD', notifyMode: 'daily', createdAt },
+      ])
+    })
+
+    it('未認証の場合は空配列', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getSavedSearches } = await import('@/lib/actions/saved-search')
+      const result = await getSavedSearches()
+
+      expect(result).toEqual({ error: '認証が必要です', searches: [] })
+    })
+  })
+})
@@ -39,9 +39,17 @@ jest.mock('@/lib/logger', () => ({
   },
 }))
 
+// メールアドレスの確認モック
+const mockIsEmailVerified = jest.fn()
+jest.mock('@/lib/email-verification', () => ({
+  EMAIL_NOT_VERIFIED_ERROR: 'メールアドレスの確認が必要です',
+  isEmailVerified: (...args: unknown[]) => mockIsEmailVerified(...args),
+}))
+
 describe('Scheduled Post Actions', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockIsEmailVerified.mockResolvedValue(true)
     mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
     mockIsPremiumUser.mockResolvedValue(true)
     mockGetMembershipLimits.mockResolvedValue({
@@ -99,6 +107,19 @@ describe('Scheduled Post Actions', () => {
       expect(result).toEqual({ error: '予約投稿は有料会員限定の機能です' })
     })
 
+    it('メールアドレスが未確認の場合、エラーを返す', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(false)
+
+      const formData = new FormData()
+      formData.set('content', 'テスト')
+      formData.set('scheduledAt', new Date().toISOString())
+
+      const { createScheduledPost } = await import('@/lib/actions/scheduled-post')
+      const result = await createScheduledPost(formData)
+
+      expect(result).toEqual({ error: 'メールアドレスの確認が必要です' })
+    })
+
     it('予約日時が指定されていない場合、エラーを返す', async () => {
       const formData = new FormData()
       formData.set('content', 'テスト')
@@ -198,6 +219,20 @@ describe('Scheduled Post Actions', () => {
       expect(result).toEqual({ error: 'ジャンルは3つまで選択できます' })
     })
 
+    it('公開範囲が不正な場合、エラーを返す', async () => {
+      const formData = new FormData()
+      formData.set('content', 'テスト')
+      const futureDate = new Date()
+      futureDate.setDate(futureDate.getDate() + 1)
+      formData.set('scheduledAt', futureDate.toISOString())
+      formData.set('audience', 'everyone')
+
+      const { createScheduledPost } = await import('@/lib/actions/scheduled-post')
+      const result = await createScheduledPost(formData)
+
+      expect(result).toEqual({ error: '公開範囲が正しくありません' })
+    })
+
     it('画像枚数が上限を超える場合、エラーを返す', async () => {
       mockGetMembershipLimits.mockResolvedValueOnce({
         maxPostLength: 2000,
@@ -42,6 +42,11 @@ jest.mock('next/headers', () => ({
   }),
 }))
 
+// セキュリティログモック
+jest.mock('@/lib/security-logger', () => ({
+  logRateLimitExceeded: jest.fn(),
+}))
+
 // キャッシュモック（unstable_cacheはテスト環境で動作しないため）
 jest.mock('@/lib/cache', () => ({
   getCachedGenres: jest.fn().mockImplementation(async () => {
@@ -94,6 +99,8 @@ describe('Search Actions', () => {
     mockAuth.mockResolvedValue({
       user: { id: mockUser.id },
     })
+    // 一時停止中のユーザーの取得用
+    mockPrisma.user.findMany.mockResolvedValue([])
   })
 
   describe('searchPosts', () => {
@@ -177,6 +184,22 @@ describe('Search Actions', () => {
         })
       )
     })
+
+    it('未ログインの場合、全体公開の投稿のみ検索する', async () => {
+      mockAuth.mockResolvedValue(null)
+      mockPrisma.post.findMany.mockResolvedValue([])
+
+      const { searchPosts } = await import('@/lib/actions/search')
+      await searchPosts('テスト')
+
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: expect.arrayContaining([{ audience: 'public' }]),
+          }),
+        })
+      )
+    })
   })
 
   describe('searchUsers', () => {
@@ -343,7 +366,19 @@ describe('Search Actions', () => {
       const result = await searchPosts('テスト')
 
       expect(result.posts).toHaveLength(2)
-      expect(mockFulltextSearchPosts).toHaveBeenCalledWith('テスト', expect.any(Object))
+      expect(mockFulltextSearchPosts).toHaveBeenCalledWith(
+        'テスト',
+        expect.objectContaining({ viewerId: mockUser.id })
+      )
+      // 取得時にも閲覧できる公開範囲の投稿に絞り込む
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { in: ['post-1', 'post-2'] },
+            OR: expect.arrayContaining([{ audience: 'public' }, { userId: mockUser.id }]),
+          }),
+        })
+      )
     })
 
     it('bigmモードで結果がない場合は空を返す', async () => {
@@ -666,6 +701,43 @@ describe('Search Actions', () => {
       expect(result.posts[1].id).toBe('post-1')
       expect(result.posts[2].id).toBe('post-3')
     })
+    it('LIKEモードでも演算子を含む検索は全文検索で実行する', async () => {
+      mockFulltextSearchPosts.mockResolvedValue(['post-1'])
+      mockPrisma.block.findMany.mockResolvedValue([])
+      mockPrisma.mute.findMany.mockResolvedValue([])
+      mockPrisma.post.findMany.mockResolvedValue([
+        { ...mockPost, id: 'post-1', _count: { likes: 12, comments: 0 }, genres: [] },
+      ])
+      mockPrisma.like.findMany.mockResolvedValue([])
+      mockPrisma.bookmark.findMany.mockResolvedValue([])
+
+      const { searchPosts } = await import('@/lib/actions/search')
+      const result = await searchPosts('黒松 from:@太郎 min_likes:10', ['genre-1'])
+
+      expect(result.posts).toHaveLength(1)
+      expect(mockFulltextSearchPosts).toHaveBeenCalledWith(
+        '黒松 from:@太郎 min_likes:10',
+        expect.objectContaining({ viewerId: mockUser.id, genreIds: ['genre-1'] })
+      )
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { in: ['post-1'] } }),
+        })
+      )
+    })
+
+    it('LIKEモードで複数のキーワードはAND検索として全文検索で実行する', async () => {
+      mockFulltextSearchPosts.mockResolvedValue([])
+      mockPrisma.block.findMany.mockResolvedValue([])
+      mockPrisma.mute.findMany.mockResolvedValue([])
+
+      const { searchPosts } = await import('@/lib/actions/search')
+      const result = await searchPosts('黒松 剪定')
+
+      expect(result.posts).toEqual([])
+      expect(mockFulltextSearchPosts).toHaveBeenCalledWith('黒松 剪定', expect.any(Object))
+      expect(mockPrisma.post.findMany).not.toHaveBeenCalled()
+    })
   })
 
   describe('searchUsers - 追加テスト', () => {
@@ -0,0 +1,203 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// next/cacheモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// Cookieモック
+const mockCookieSet = jest.fn()
+jest.mock('next/headers', () => ({
+  cookies: async () => ({ set: (...args: unknown[]) => mockCookieSet(...args) }),
+}))
+
+// ブラックリストモック
+const mockIsDeviceBlacklisted = jest.fn()
+jest.mock('@/lib/actions/blacklist', () => ({
+  isDeviceBlacklisted: (...args: unknown[]) => mockIsDeviceBlacklisted(...args),
+}))
+
+// プロバイダー設定モック
+jest.mock('@/lib/social-login', () => ({
+  getEnabledSocialProviders: () => [
+    { id: 'line', label: 'LINE' },
+    { id: 'google', label: 'Google' },
+  ],
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('Social Login Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+    mockIsDeviceBlacklisted.mockResolvedValue(false)
+  })
+
+  // ============================================================
+  // prepareSocialSignIn
+  // ============================================================
+
+  describe('prepareSocialSignIn', () => {
+    it('フィンガープリントをCookieに保存する', async () => {
+      const { prepareSocialSignIn } = await import('@/lib/actions/social-login')
+      const result = await prepareSocialSignIn('fp-1')
+
+      expect(result).toEqual({ success: true })
+      expect(mockCookieSet).toHaveBeenCalledWith(
+        'bonlog.social-login-device',
+        'fp-1',
+        expect.objectContaining({ httpOnly: true, maxAge: 600 })
+      )
+    })
+
+    it('ブラックリストのデバイスはエラーを返す', async () => {
+      mockIsDeviceBlacklisted.mockResolvedValueOnce(true)
+
+      const { prepareSocialSignIn } = await import('@/lib/actions/social-login')
+      const result = await prepareSocialSignIn('fp-1')
+
+      expect(result).toEqual({ error: 'このデバイスからのログインは許可されていません' })
+      expect(mockCookieSet).not.toHaveBeenCalled()
+    })
+
+    it('フィンガープリントがない場合は何もしない', async () => {
+      const { prepareSocialSignIn } = await import('@/lib/actions/social-login')
+      const result = await prepareSocialSignIn()
+
+      expect(result).toEqual({ success: true })
+      expect(mockCookieSet).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // getSocialAccounts
+  // ============================================================
+
+  describe('getSocialAccounts', () => {
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getSocialAccounts } = await import('@/lib/actions/social-login')
+      const result = await getSocialAccounts()
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('連携状況を返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: null,
+        accounts: [{ provider: 'line' }],
+      })
+
+      const { getSocialAccounts } = await import('@/lib/actions/social-login')
+      const result = await getSocialAccounts()
+
+      expect(result).toEqual({
+        providers: [
+          { id: 'line', label: 'LINE' },
+          { id: 'google', label: 'Google' },
+        ],
+        linkedProviders: ['line'],
+        hasPassword: false,
+      })
+    })
+  })
+
+  // ============================================================
+  // unlinkSocialAccount
+  // ============================================================
+
+  describe('unlinkSocialAccount', () => {
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { unlinkSocialAccount } = await import('@/lib/actions/social-login')
+      const result = await unlinkSocialAccount('line')
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('連携を解除する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: 'hashed',
+        accounts: [{ id: 'account-1', provider: 'line' }],
+      })
+      mockPrisma.account.delete.mockResolvedValueOnce({})
+
+      const { unlinkSocialAccount } = await import('@/lib/actions/social-login')
+      const { revalidatePath } = await import('next/cache')
+      const result = await unlinkSocialAccount('line')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.account.delete).toHaveBeenCalledWith({ where: { id: 'account-1' } })
+      expect(revalidatePath).toHaveBeenCalledWith('/settings/security')
+    })
+
+    it('連携していないプロバイダーはエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: 'hashed',
+        accounts: [{ id: 'account-1', provider: 'line' }],
+      })
+
+      const { unlinkSocialAccount } = await import('@/lib/actions/social-login')
+      const result = await unlinkSocialAccount('google')
+
+      expect(result).toEqual({ error: '連携しているアカウントが見つかりません' })
+      expect(mockPrisma.account.delete).not.toHaveBeenCalled()
+    })
+
+    it('パスワード未設定で最後の連携は解除できない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: null,
+        accounts: [{ id: 'account-1', provider: 'line' }],
+      })
+
+      const { unlinkSocialAccount } = await import('@/lib/actions/social-login')
+      const result = await unlinkSocialAccount('line')
+
+      expect(result.error).toContain('ほかにログインする方法がないため解除できません')
+      expect(mockPrisma.account.delete).not.toHaveBeenCalled()
+    })
+
+    it('パスワード未設定でも他の連携があれば解除できる', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        password: null,
+        accounts: [
+          { id: 'account-1', provider: 'line' },
+          { id: 'account-2', provider: 'google' },
+        ],
+      })
+      mockPrisma.account.delete.mockResolvedValueOnce({})
+
+      const { unlinkSocialAccount } = await import('@/lib/actions/social-login')
+      const result = await unlinkSocialAccount('line')
+
+      expect(result).toEqual({ success: true })
+    })
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser, mockPost } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// フィルターヘルパーモック
+const mockGetExcludedUserIds = jest.fn()
+jest.mock('@/lib/actions/filter-helper', () => ({
+  getExcludedUserIds: (...args: unknown[]) => mockGetExcludedUserIds(...args),
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+const mockSpecies = {
+  id: 'species-kuromatsu',
+  slug: 'kuromatsu',
+  name: '黒松',
+  nameKana: 'くろまつ',
+  scientificName: 'Pinus thunbergii',
+  aliases: ['クロマツ', '雄松'],
+  category: 'conifer',
+}
+
+describe('Species Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id } })
+    mockGetExcludedUserIds.mockResolvedValue([])
+  })
+
+  // ============================================================
+  // searchBonsaiSpecies
+  // ============================================================
+
+  describe('searchBonsaiSpecies', () => {
+    it('和名・読み・学名・別名で樹種の候補を検索する', async () => {
+      mockPrisma.bonsaiSpecies.findMany.mockResolvedValueOnce([mockSpecies])
+
+      const { searchBonsaiSpecies } = await import('@/lib/actions/species')
+      const result = await searchBonsaiSpecies('クロ')
+
+      expect(result.species).toHaveLength(1)
+      expect(mockPrisma.bonsaiSpecies.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [
+              { name: { contains: 'クロ' } },
+              { nameKana: { contains: 'くろ' } },
+              { scientificName: { contains: 'クロ', mode: 'insensitive' } },
+              { aliases: { hasSome: ['クロ', 'くろ'] } },
+            ],
+          },
+          take: 8,
+        })
+      )
+    })
+
+    it('空のキーワードでは検索しない', async () => {
+      const { searchBonsaiSpecies } = await import('@/lib/actions/species')
+      const result = await searchBonsaiSpecies('  ')
+
+      expect(result).toEqual({ species: [] })
+      expect(mockPrisma.bonsaiSpecies.findMany).not.toHaveBeenCalled()
+    })
+
+    it('検索に失敗した場合は空配列を返す', async () => {
+      mockPrisma.bonsaiSpecies.findMany.mockRejectedValueOnce(new Error('Database error'))
+
+      const { searchBonsaiSpecies } = await import('@/lib/actions/species')
+      const result = await searchBonsaiSpecies('黒')
+
+      expect(result).toEqual({ species: [] })
+    })
+  })
+
+  // ============================================================
+  // getBonsaiSpeciesList
+  // ============================================================
+
+  describe('getBonsaiSpeciesList', () => {
+    it('公開された盆栽の数とあわせて樹種一覧を取得する', async () => {
+      mockPrisma.bonsaiSpecies.findMany.mockResolvedValueOnce([{ ...mockSpecies, _count: { bonsais: 3 } }])
+
+      const { getBonsaiSpeciesList } = await import('@/lib/actions/species')
+      const result = await getBonsaiSpeciesList()
+
+      expect(result.species[0]._count.bonsais).toBe(3)
+      expect(mockPrisma.bonsaiSpecies.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          select: expect.objectContaining({
+            _count: {
+              select: { bonsais: { where: { user: { isPublic: true, isSuspended: false, deactivatedAt: null, bonsaiVisibility: 'everyone' } } } },
+            },
+          }),
+          orderBy: { sortOrder: 'asc' },
+        })
+      )
+    })
+  })
+
+  // ============================================================
+  // getBonsaiSpecies
+  // ============================================================
+
+  describe('getBonsaiSpecies', () => {
+    it('スラッグで樹種を取得する', async () => {
+      mockPrisma.bonsaiSpecies.findUnique.mockResolvedValueOnce(mockSpecies)
+
+      const { getBonsaiSpecies } = await import('@/lib/actions/species')
+      const result = await getBonsaiSpecies('kuromatsu')
+
+      expect(result.species).toEqual(mockSpecies)
+      expect(mockPrisma.bonsaiSpecies.findUnique).toHaveBeenCalledWith({ where: { slug: 'kuromatsu' } })
+    })
+
+    it('樹種が見つからない場合、エラーを返す', async () => {
+      mockPrisma.bonsaiSpecies.findUnique.mockResolvedValueOnce(null)
+
+      const { getBonsaiSpecies } = await import('@/lib/actions/species')
+      const result = await getBonsaiSpecies('unknown')
+
+      expect(result).toEqual({ error: '樹種が見つかりません' })
+    })
+  })
+
+  // ============================================================
+  // getSpeciesBonsais
+  // ============================================================
+
+  describe('getSpeciesBonsais', () => {
+    it('公開アカウントの盆栽のみ取得し、ブロックしたユーザーを除外する', async () => {
+      mockGetExcludedUserIds.mockResolvedValueOnce(['blocked-user'])
+      mockPrisma.bonsai.findMany.mockResolvedValueOnce([])
+
+      const { getSpeciesBonsais } = await import('@/lib/actions/species')
+      await getSpeciesBonsais('species-kuromatsu')
+
+      expect(mockGetExcludedUserIds).toHaveBeenCalledWith(mockUser.id, {
+        blocked: true,
+        blockedBy: true,
+        deactivated: true,
+      })
+      expect(mockPrisma.bonsai.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            speciesId: 'species-kuromatsu',
+            user: { isPublic: true, isSuspended: false, bonsaiVisibility: 'everyone' },
+            userId: { notIn: ['blocked-user'] },
+          },
+        })
+      )
+    })
+
+    it('未ログインでも取得できる', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+      mockPrisma.bonsai.findMany.mockResolvedValueOnce([])
+
+      const { getSpeciesBonsais } = await import('@/lib/actions/species')
+      const result = await getSpeciesBonsais('species-kuromatsu')
+
+      expect(result).toEqual({ bonsais: [] })
+      // 未ログインでも一時停止中のユーザーは除外する
+      expect(mockGetExcludedUserIds).toHaveBeenCalledWith(undefined, expect.objectContaining({ deactivated: true }))
+    })
+  })
+
+  // ============================================================
+  // getSpeciesPosts
+  // ============================================================
+
+  describe('getSpeciesPosts', () => {
+    it('樹種の盆栽に紐づく投稿を取得し、いいね・ブックマーク状態を付ける', async () => {
+      mockPrisma.post.findMany.mockResolvedValueOnce([
+        { ...mockPost, genres: [], _count: { likes: 2, comments: 1 } },
+      ])
+      mockPrisma.like.findMany.mockResolvedValueOnce([{ postId: mockPost.id }])
+      mockPrisma.bookmark.findMany.mockResolvedValueOnce([])
+
+      const { getSpeciesPosts } = await import('@/lib/actions/species')
+      const result = await getSpeciesPosts('species-kuromatsu')
+
+      expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            isHidden: false,
+            bonsai: { speciesId: 'species-kuromatsu' },
+            user: { isPublic: true, isSuspended: false },
+            OR: expect.arrayContaining([{ audience: 'public' }, { userId: mockUser.id }]),
+          },
+        })
+      )
+      expect(result.posts[0]).toEqual(
+        expect.objectContaining({ likeCount: 2, commentCount: 1, isLiked: true, isBookmarked: false })
+      )
+    })
+
+    it('取得に失敗した場合は空配列を返す', async () => {
+      mockPrisma.post.findMany.mockRejectedValueOnce(new Error('Database error'))
+
+      const { getSpeciesPosts } = await import('@/lib/actions/species')
+      const result = await getSpeciesPosts('species-kuromatsu')
+
+      expect(result).toEqual({ posts: [], nextCursor: undefined })
+    })
+  })
+})
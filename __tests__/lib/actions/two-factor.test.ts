@@ -19,6 +19,12 @@ jest.mock('@/lib/db', () => ({
   prisma: mockPrisma,
 }))
 
+// セキュリティログのモック
+const mockLogTwoFactorChange = jest.fn()
+jest.mock('@/lib/security-logger', () => ({
+  logTwoFactorChange: (...args: unknown[]) => mockLogTwoFactorChange(...args),
+}))
+
 // bcryptのモック
 jest.mock('bcryptjs', () => ({
   compare: jest.fn(),
@@ -51,6 +57,15 @@ jest.mock('@/lib/two-factor', () => ({
   formatTOTPCode: (code: string) => mockFormatTOTPCode(code),
 }))
 
+// パスキーユーティリティのモック
+const mockCreateAuthenticationOptions = jest.fn()
+const mockVerifyAuthentication = jest.fn()
+
+jest.mock('@/lib/passkey', () => ({
+  createAuthenticationOptions: (...args: unknown[]) => mockCreateAuthenticationOptions(...args),
+  verifyAuthentication: (...args: unknown[]) => mockVerifyAuthentication(...args),
+}))
+
 import bcrypt from 'bcryptjs'
 
 describe('Two-Factor Actions', () => {
@@ -188,6 +203,7 @@ describe('Two-Factor Actions', () => {
           twoFactorBackupCodes: ['hash_CODE1', 'hash_CODE2'],
         },
       })
+      expect(mockLogTwoFactorChange).toHaveBeenCalledWith('user-123', 'enabled')
     })
   })
 
@@ -271,6 +287,7 @@ describe('Two-Factor Actions', () => {
           twoFactorBackupCodes: [],
         },
       })
+      expect(mockLogTwoFactorChange).toHaveBeenCalledWith('user-123', 'disabled')
     })
   })
 
@@ -523,6 +540,24 @@ describe('Two-Factor Actions', () => {
       mockPrisma.user.findUnique.mockResolvedValueOnce({
         id: 'user-123',
         twoFactorEnabled: true,
+        _count: { passkeys: 0 },
+      })
+
+      const { check2FARequired } = await import('@/lib/actions/two-factor')
+      const result = await check2FARequired('user@example.com')
+
+      expect(result).toEqual({
+        required: true,
+        userId: 'user-123',
+        passkeyAvailable: false,
+      })
+    })
+
+    it('パスキーを登録している場合はpasskeyAvailable: trueを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        id: 'user-123',
+        twoFactorEnabled: true,
+        _count: { passkeys: 2 },
       })
 
       const { check2FARequired } = await import('@/lib/actions/two-factor')
@@ -531,6 +566,7 @@ describe('Two-Factor Actions', () => {
       expect(result).toEqual({
         required: true,
         userId: 'user-123',
+        passkeyAvailable: true,
       })
     })
 
@@ -546,4 +582,72 @@ describe('Two-Factor Actions', () => {
       expect(result).toEqual({ required: false })
     })
   })
+
+  // ============================================================
+  // パスキーによる2FA
+  // ============================================================
+
+  describe('getPasskey2FAOptions', () => {
+    it('2FAが無効な場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        twoFactorEnabled: false,
+        _count: { passkeys: 1 },
+      })
+
+      const { getPasskey2FAOptions } = await import('@/lib/actions/two-factor')
+      const result = await getPasskey2FAOptions('user-123')
+
+      expect(result).toEqual({ error: '2段階認証が有効ではありません' })
+      expect(mockCreateAuthenticationOptions).not.toHaveBeenCalled()
+    })
+
+    it('パスキーが未登録の場合はエラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        twoFactorEnabled: true,
+        _count: { passkeys: 0 },
+      })
+
+      const { getPasskey2FAOptions } = await import('@/lib/actions/two-factor')
+      const result = await getPasskey2FAOptions('user-123')
+
+      expect(result).toEqual({ error: 'パスキーが登録されていません' })
+    })
+
+    it('本人のパスキーに限定した認証オプションを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        twoFactorEnabled: true,
+        _count: { passkeys: 1 },
+      })
+      mockCreateAuthenticationOptions.mockResolvedValueOnce({ challenge: 'challenge-123' })
+
+      const { getPasskey2FAOptions } = await import('@/lib/actions/two-factor')
+      const result = await getPasskey2FAOptions('user-123')
+
+      expect(result).toEqual({ options: { challenge: 'challenge-123' } })
+      expect(mockCreateAuthenticationOptions).toHaveBeenCalledWith('2fa', 'user-123')
+    })
+  })
+
+  describe('verify2FAPasskey', () => {
+    const response = { id: 'credential-1' } as never
+
+    it('検証に成功した場合はsuccessを返す', async () => {
+      mockVerifyAuthentication.mockResolvedValueOnce('user-123')
+
+      const { verify2FAPasskey } = await import('@/lib/actions/two-factor')
+      const result = await verify2FAPasskey('user-123', response)
+
+      expect(result).toEqual({ success: true })
+      expect(mockVerifyAuthentication).toHaveBeenCalledWith('2fa', response, 'user-123')
+    })
+
+    it('検証に失敗した場合はエラーを返す', async () => {
+      mockVerifyAuthentication.mockResolvedValueOnce(null)
+
+      const { verify2FAPasskey } = await import('@/lib/actions/two-factor')
+      const result = await verify2FAPasskey('user-123', response)
+
+      expect(result).toEqual({ error: 'パスキーで認証できませんでした' })
+    })
+  })
 })
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient, mockUser } from '../../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 認証モック
+const mockAuth = jest.fn()
+jest.mock('@/lib/auth', () => ({
+  auth: () => mockAuth(),
+}))
+
+// next/cacheモック
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+// ユーザーエージェントの表示名はそのまま返す
+jest.mock('@/lib/user-session', () => ({
+  describeUserAgent: (userAgent: string | null) => userAgent ?? '不明なデバイス',
+}))
+
+// ロガーモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('User Session Actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: mockUser.id }, deviceId: 'device-1' })
+  })
+
+  // ============================================================
+  // getMyDevices
+  // ============================================================
+
+  describe('getMyDevices', () => {
+    it('未認証の場合はエラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { getMyDevices } = await import('@/lib/actions/user-session')
+      const result = await getMyDevices()
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('現在のデバイスとログアウト済みのデバイスを区別して返す', async () => {
+      const lastSeenAt = new Date('2026-10-18T09:00:00Z')
+      mockPrisma.userDevice.findMany.mockResolvedValueOnce([
+        {
+          id: 'device-1',
+          userAgent: 'Chrome / Android',
+          ipAddress: '203.0.113.1',
+          lastSeenAt,
+          createdAt: lastSeenAt,
+          signedOutAt: null,
+        },
+        {
+          id: 'device-2',
+          userAgent: null,
+          ipAddress: null,
+          lastSeenAt,
+          createdAt: lastSeenAt,
+          signedOutAt: new Date(),
+        },
+      ])
+
+      const { getMyDevices } = await import('@/lib/actions/user-session')
+      const result = await getMyDevices()
+
+      expect(mockPrisma.userDevice.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: mockUser.id },
+          orderBy: { lastSeenAt: 'desc' },
+        })
+      )
+      expect(result).toEqual({
+        devices: [
+          expect.objectContaining({ id: 'device-1', name: 'Chrome / Android', current: true, signedOut: false }),
+          expect.objectContaining({ id: 'device-2', name: '不明なデバイス', current: false, signedOut: true }),
+        ],
+      })
+    })
+  })
+
+  // ============================================================
+  // signOutDevice
+  // ============================================================
+
+  describe('signOutDevice', () => {
+    it('他人のデバイスはログアウトさせられない', async () => {
+      mockPrisma.userDevice.findUnique.mockResolvedValueOnce({ userId: 'other-user' })
+
+      const { signOutDevice } = await import('@/lib/actions/user-session')
+      const result = await signOutDevice('device-2')
+
+      expect(result).toEqual({ error: 'デバイスが見つかりません' })
+      expect(mockPrisma.userDevice.update).not.toHaveBeenCalled()
+    })
+
+    it('デバイスのsessionVersionを増やしてログアウトさせる', async () => {
+      mockPrisma.userDevice.findUnique.mockResolvedValueOnce({ userId: mockUser.id })
+
+      const { signOutDevice } = await import('@/lib/actions/user-session')
+      const result = await signOutDevice('device-2')
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.userDevice.update).toHaveBeenCalledWith({
+        where: { id: 'device-2' },
+        data: { sessionVersion: { increment: 1 }, signedOutAt: expect.any(Date) },
+      })
+    })
+  })
+
+  // ============================================================
+  // signOutEverywhere
+  // ============================================================
+
+  describe('signOutEverywhere', () => {
+    it('未認証の場合はエラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { signOutEverywhere } = await import('@/lib/actions/user-session')
+      const result = await signOutEverywhere()
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+
+    it('tokenVersionを増やしてすべてのデバイスをログアウト済みにする', async () => {
+      const { signOutEverywhere } = await import('@/lib/actions/user-session')
+      const result = await signOutEverywhere()
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { tokenVersion: { increment: 1 } },
+      })
+      expect(mockPrisma.userDevice.updateMany).toHaveBeenCalledWith({
+        where: { userId: mockUser.id, signedOutAt: null },
+        data: { signedOutAt: expect.any(Date) },
+      })
+      expect(mockPrisma.$transaction).toHaveBeenCalled()
+    })
+  })
+})
@@ -22,8 +22,21 @@ jest.mock('next/cache', () => ({
 
 // ストレージモック
 const mockUploadFile = jest.fn()
+const mockDeletePrivateFile = jest.fn()
 jest.mock('@/lib/storage', () => ({
   uploadFile: mockUploadFile,
+  deletePrivateFile: (...args: unknown[]) => mockDeletePrivateFile(...args),
+}))
+
+// Stripeモック
+const mockStripe = {
+  subscriptions: {
+    update: jest.fn(),
+    cancel: jest.fn(),
+  },
+}
+jest.mock('@/lib/stripe', () => ({
+  stripe: mockStripe,
 }))
 
 // ファイル検証モック
@@ -71,6 +84,53 @@ describe('User Actions', () => {
 
       expect(result).toEqual({ error: 'ユーザーが見つかりません' })
     })
+
+    it('一時停止中のユーザーは見つからないものとして扱う', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...mockUser,
+        deactivatedAt: new Date(),
+        _count: { posts: 0, followers: 0, following: 0 },
+      })
+
+      const { getUser } = await import('@/lib/actions/user')
+      const result = await getUser(mockUser.id)
+
+      expect(result).toEqual({ error: 'ユーザーが見つかりません' })
+    })
+
+    it('居住地域の公開範囲外の場合、居住地域を返さない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...mockUser,
+        id: 'other-user-id',
+        location: '東京都',
+        locationVisibility: 'followers',
+        _count: { posts: 0, followers: 0, following: 0 },
+      })
+      mockPrisma.follow.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(null)
+
+      const { getUser } = await import('@/lib/actions/user')
+      const result = await getUser('other-user-id')
+
+      expect(result.user?.location).toBeNull()
+    })
+
+    it('居住地域がフォロワーのみに公開されている場合、フォロワーには居住地域を返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...mockUser,
+        id: 'other-user-id',
+        location: '東京都',
+        locationVisibility: 'followers',
+        _count: { posts: 0, followers: 0, following: 0 },
+      })
+      mockPrisma.follow.findUnique
+        .mockResolvedValueOnce({ followerId: mockUser.id, followingId: 'other-user-id' })
+        .mockResolvedValueOnce(null)
+
+      const { getUser } = await import('@/lib/actions/user')
+      const result = await getUser('other-user-id')
+
+      expect(result.user?.location).toBe('東京都')
+    })
   })
 
   // ============================================================
@@ -199,6 +259,50 @@ describe('User Actions', () => {
     })
   })
 
+  // ============================================================
+  // updatePrivacySettings
+  // ============================================================
+
+  describe('updatePrivacySettings', () => {
+    it('変更した項目だけを更新できる', async () => {
+      mockPrisma.user.update.mockResolvedValueOnce(mockUser)
+
+      const { updatePrivacySettings } = await import('@/lib/actions/user')
+      const result = await updatePrivacySettings({ bonsaiVisibility: 'only_me', dmPermission: 'mutual' })
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { bonsaiVisibility: 'only_me', dmPermission: 'mutual' },
+      })
+    })
+
+    it('公開範囲が正しくない場合、エラーを返す', async () => {
+      const { updatePrivacySettings } = await import('@/lib/actions/user')
+      const result = await updatePrivacySettings({ likesVisibility: 'mutual' })
+
+      expect(result).toEqual({ error: '公開範囲が正しくありません' })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('メッセージを受け付ける相手が正しくない場合、エラーを返す', async () => {
+      const { updatePrivacySettings } = await import('@/lib/actions/user')
+      const result = await updatePrivacySettings({ dmPermission: 'only_me' })
+
+      expect(result).toEqual({ error: 'メッセージを受け付ける相手が正しくありません' })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { updatePrivacySettings } = await import('@/lib/actions/user')
+      const result = await updatePrivacySettings({ bonsaiVisibility: 'only_me' })
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+  })
+
   // ============================================================
   // uploadAvatar
   // ============================================================
@@ -296,11 +400,85 @@ describe('User Actions', () => {
     })
   })
 
+  // ============================================================
+  // deactivateAccount
+  // ============================================================
+
+  describe('deactivateAccount', () => {
+    it('アカウントを一時停止してすべてのデバイスからログアウトさせる', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: null, stripeSubscriptionId: null })
+      mockPrisma.$transaction.mockResolvedValueOnce([])
+
+      const { deactivateAccount } = await import('@/lib/actions/user')
+      const result = await deactivateAccount()
+
+      expect(result).toEqual({ success: true })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          deactivatedAt: expect.any(Date),
+          tokenVersion: { increment: 1 },
+        },
+      })
+      expect(mockPrisma.userDevice.updateMany).toHaveBeenCalledWith({
+        where: { userId: mockUser.id, signedOutAt: null },
+        data: { signedOutAt: expect.any(Date) },
+      })
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled()
+    })
+
+    it('有料会員の場合は課金を一時停止する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: null, stripeSubscriptionId: 'sub_123' })
+      mockPrisma.$transaction.mockResolvedValueOnce([])
+
+      const { deactivateAccount } = await import('@/lib/actions/user')
+      const result = await deactivateAccount()
+
+      expect(result).toEqual({ success: true })
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        pause_collection: { behavior: 'void' },
+      })
+    })
+
+    it('課金を一時停止できない場合は一時停止しない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: null, stripeSubscriptionId: 'sub_123' })
+      mockStripe.subscriptions.update.mockRejectedValueOnce(new Error('Stripe error'))
+
+      const { deactivateAccount } = await import('@/lib/actions/user')
+      const result = await deactivateAccount()
+
+      expect(result).toEqual({ error: 'アカウントの一時停止に失敗しました' })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('すでに一時停止している場合、エラーを返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ deactivatedAt: new Date(), stripeSubscriptionId: null })
+
+      const { deactivateAccount } = await import('@/lib/actions/user')
+      const result = await deactivateAccount()
+
+      expect(result).toEqual({ error: 'アカウントはすでに一時停止しています' })
+    })
+
+    it('未認証の場合、エラーを返す', async () => {
+      mockAuth.mockResolvedValueOnce(null)
+
+      const { deactivateAccount } = await import('@/lib/actions/user')
+      const result = await deactivateAccount()
+
+      expect(result).toEqual({ error: '認証が必要です' })
+    })
+  })
+
   // ============================================================
   // deleteAccount
   // ============================================================
 
   describe('deleteAccount', () => {
+    beforeEach(() => {
+      mockPrisma.dataExportPart.findMany.mockResolvedValue([])
+    })
+
     it('アカウントを削除できる', async () => {
       mockPrisma.$transaction.mockImplementationOnce(async (callback) => {
         const tx = {
@@ -319,6 +497,29 @@ describe('User Actions', () => {
       expect(result).toEqual({ success: true })
     })
 
+    it('エクスポートしたZIPのファイルも削除する', async () => {
+      mockPrisma.dataExportPart.findMany.mockResolvedValueOnce([{ fileKey: 'exports/user-1/export-1.zip' }])
+      mockPrisma.$transaction.mockResolvedValueOnce(undefined)
+      mockDeletePrivateFile.mockResolvedValueOnce({ success: true })
+
+      const { deleteAccount } = await import('@/lib/actions/user')
+      const result = await deleteAccount()
+
+      expect(result).toEqual({ success: true })
+      expect(mockDeletePrivateFile).toHaveBeenCalledWith('exports/user-1/export-1.zip')
+    })
+
+    it('有料会員の場合はサブスクリプションを解約する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ stripeSubscriptionId: 'sub_123' })
+      mockPrisma.$transaction.mockResolvedValueOnce(undefined)
+
+      const { deleteAccount } = await import('@/lib/actions/user')
+      const result = await deleteAccount()
+
+      expect(result).toEqual({ success: true })
+      expect(mockStripe.subscriptions.cancel).toHaveBeenCalledWith('sub_123')
+    })
+
     it('未認証の場合、エラーを返す', async () => {
       mockAuth.mockResolvedValueOnce(null)
 
@@ -366,6 +567,7 @@ describe('User Actions', () => {
           },
         },
       ]
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ followsVisibility: 'only_me' })
       mockPrisma.follow.findMany.mockResolvedValueOnce(mockFollowers)
 
       const { getFollowers } = await import('@/lib/actions/user')
@@ -374,6 +576,16 @@ describe('User Actions', () => {
       expect(result.followers).toHaveLength(2)
       expect(result.followers[0].nickname).toBe('フォロワー1')
     })
+
+    it('フォロー・フォロワー一覧の公開範囲外の場合、取得しない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ followsVisibility: 'only_me' })
+
+      const { getFollowers } = await import('@/lib/actions/user')
+      const result = await getFollowers('other-user-id')
+
+      expect(result).toEqual({ followers: [], error: 'フォロワー一覧は非公開です' })
+      expect(mockPrisma.follow.findMany).not.toHaveBeenCalled()
+    })
   })
 
   // ============================================================
@@ -404,6 +616,7 @@ describe('User Actions', () => {
           },
         },
       ]
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ followsVisibility: 'everyone' })
       mockPrisma.follow.findMany.mockResolvedValueOnce(mockFollowing)
 
       const { getFollowing } = await import('@/lib/actions/user')
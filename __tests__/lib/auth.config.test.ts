@@ -44,7 +44,14 @@ describe('auth.config', () => {
     })
 
     describe('公開ページ', () => {
-      const publicPaths = ['/', '/login', '/register', '/password-reset', '/verify-email']
+      const publicPaths = [
+        '/',
+        '/login',
+        '/register',
+        '/password-reset',
+        '/verify-email',
+        '/login-alert',
+      ]
 
       publicPaths.forEach((path) => {
         it(`${path} は未ログインでもアクセス可能`, () => {
@@ -29,6 +29,7 @@ describe('Cache Module', () => {
       expect(CACHE_TAGS.GENRES).toBe('genres')
       expect(CACHE_TAGS.TRENDING_GENRES).toBe('trending-genres')
       expect(CACHE_TAGS.POPULAR_TAGS).toBe('popular-tags')
+      expect(CACHE_TAGS.TRENDING_HASHTAGS).toBe('trending-hashtags')
     })
   })
 
@@ -204,6 +205,42 @@ describe('Cache Module', () => {
     })
   })
 
+  describe('getCachedTrendingHashtags', () => {
+    it('集計済みのトレンドハッシュタグをスコア順に返す', async () => {
+      mockPrisma.trendingHashtag.findMany.mockResolvedValueOnce([
+        { hashtagId: 'tag-1', score: 40, recentCount: 12.4, baselineCount: 0, velocity: 70, hashtag: { name: '紅葉' } },
+        { hashtagId: 'tag-2', score: 35, recentCount: 30, baselineCount: 200, velocity: 1.26, hashtag: { name: '盆栽' } },
+        { hashtagId: 'tag-3', score: 20, recentCount: 8, baselineCount: 10, velocity: 5.6, hashtag: { name: '黒松' } },
+      ])
+
+      const { getCachedTrendingHashtags } = await import('@/lib/cache')
+      const result = await getCachedTrendingHashtags(5)
+
+      expect(mockPrisma.trendingHashtag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ score: 'desc' }, { hashtagId: 'asc' }],
+          take: 5,
+        })
+      )
+      expect(result.hashtags).toEqual([
+        { id: 'tag-1', name: '紅葉', recentCount: 12, velocity: 70, trend: 'new' },
+        { id: 'tag-2', name: '盆栽', recentCount: 30, velocity: 1.3, trend: 'steady' },
+        { id: 'tag-3', name: '黒松', recentCount: 8, velocity: 5.6, trend: 'rising' },
+      ])
+    })
+
+    it('デフォルトのlimit値（10）を使用する', async () => {
+      mockPrisma.trendingHashtag.findMany.mockResolvedValueOnce([])
+
+      const { getCachedTrendingHashtags } = await import('@/lib/cache')
+      await getCachedTrendingHashtags()
+
+      expect(mockPrisma.trendingHashtag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 10 })
+      )
+    })
+  })
+
   describe('revalidateGenresCache', () => {
     it('ジャンルキャッシュを無効化する', async () => {
       const { revalidateGenresCache, CACHE_TAGS } = await import('@/lib/cache')
@@ -230,4 +267,13 @@ describe('Cache Module', () => {
       expect(mockRevalidateTag).toHaveBeenCalledWith(CACHE_TAGS.POPULAR_TAGS, { expire: 0 })
     })
   })
+
+  describe('revalidateTrendingHashtagsCache', () => {
+    it('トレンドハッシュタグキャッシュを無効化する', async () => {
+      const { revalidateTrendingHashtagsCache, CACHE_TAGS } = await import('@/lib/cache')
+      revalidateTrendingHashtagsCache()
+
+      expect(mockRevalidateTag).toHaveBeenCalledWith(CACHE_TAGS.TRENDING_HASHTAGS, { expire: 0 })
+    })
+  })
 })
@@ -0,0 +1,92 @@
+/**
+ * 成長記録の種類の定数（bonsai-record.ts）のテスト
+ *
+ * @jest-environment node
+ */
+
+import {
+  BONSAI_RECORD_TYPES,
+  BONSAI_RECORD_DETAIL_FIELDS,
+  BONSAI_RECORD_DETAIL_KEYS,
+  isBonsaiRecordType,
+  getBonsaiRecordTypeLabel,
+  formatBonsaiRecordDetails,
+  buildBonsaiGrowthSeries,
+} from '@/lib/constants/bonsai-record'
+
+describe('Bonsai Record Constants', () => {
+  describe('BONSAI_RECORD_TYPES', () => {
+    it('先頭は従来の成長記録（general）', () => {
+      expect(BONSAI_RECORD_TYPES[0]).toEqual({ value: 'general', label: '成長記録' })
+    })
+
+    it('全ての種類に詳細項目の定義がある', () => {
+      BONSAI_RECORD_TYPES.forEach((t) => {
+        expect(BONSAI_RECORD_DETAIL_FIELDS[t.value]).toBeDefined()
+      })
+    })
+
+    it('詳細項目のキーは全て BONSAI_RECORD_DETAIL_KEYS に含まれる', () => {
+      Object.values(BONSAI_RECORD_DETAIL_FIELDS).flat().forEach((field) => {
+        expect(BONSAI_RECORD_DETAIL_KEYS).toContain(field.key)
+      })
+    })
+  })
+
+  describe('isBonsaiRecordType', () => {
+    it('定義済みの種類は true を返す', () => {
+      expect(isBonsaiRecordType('measurement')).toBe(true)
+    })
+
+    it('未定義の種類は false を返す', () => {
+      expect(isBonsaiRecordType('unknown')).toBe(false)
+    })
+  })
+
+  describe('getBonsaiRecordTypeLabel', () => {
+    it('種類のラベルを返す', () => {
+      expect(getBonsaiRecordTypeLabel('wiring')).toBe('針金かけ')
+    })
+
+    it('未知の種類は「成長記録」を返す', () => {
+      expect(getBonsaiRecordTypeLabel('unknown')).toBe('成長記録')
+    })
+  })
+
+  describe('formatBonsaiRecordDetails', () => {
+    it('値がある項目のみ単位付きで整形する', () => {
+      expect(
+        formatBonsaiRecordDetails('measurement', { heightCm: 32.5, trunkDiameterCm: null, nebariWidthCm: 8 })
+      ).toEqual(['樹高: 32.5cm', '根張り: 8cm'])
+    })
+
+    it('種類に関係ない項目は含めない', () => {
+      expect(formatBonsaiRecordDetails('wiring', { wireGauge: '銅 1.5mm', soilMix: '赤玉土' })).toEqual([
+        '針金: 銅 1.5mm',
+      ])
+    })
+
+    it('未知の種類は空配列を返す', () => {
+      expect(formatBonsaiRecordDetails('unknown', { heightCm: 10 })).toEqual([])
+    })
+  })
+
+  describe('buildBonsaiGrowthSeries', () => {
+    it('計測記録のみを古い順に並べる', () => {
+      const series = buildBonsaiGrowthSeries([
+        { type: 'measurement', recordAt: '2026-10-01', heightCm: 34 },
+        { type: 'general', recordAt: '2026-08-01' },
+        { type: 'measurement', recordAt: '2026-04-01', heightCm: 30, trunkDiameterCm: 4.2 },
+      ])
+
+      expect(series).toEqual([
+        { recordAt: new Date('2026-04-01'), heightCm: 30, trunkDiameterCm: 4.2, nebariWidthCm: null },
+        { recordAt: new Date('2026-10-01'), heightCm: 34, trunkDiameterCm: null, nebariWidthCm: null },
+      ])
+    })
+
+    it('計測値が1つもない記録は除外する', () => {
+      expect(buildBonsaiGrowthSeries([{ type: 'measurement', recordAt: '2026-10-01' }])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * 樹種マスタの定数（bonsai-species.ts）のテスト
+ *
+ * @jest-environment node
+ */
+
+import {
+  BONSAI_SPECIES_CATEGORIES,
+  BONSAI_SPECIES_CARE_SEASONS,
+  getBonsaiSpeciesCategoryLabel,
+  toHiragana,
+  toKatakana,
+  normalizeSpeciesName,
+  buildSpeciesNameVariants,
+} from '@/lib/constants/bonsai-species'
+
+describe('Bonsai Species Constants', () => {
+  // ============================================================
+  // 分類
+  // ============================================================
+
+  describe('BONSAI_SPECIES_CATEGORIES', () => {
+    it('松柏・雑木・花もの・実ものの4分類が定義されている', () => {
+      expect(BONSAI_SPECIES_CATEGORIES.map((c) => c.label)).toEqual(['松柏', '雑木', '花もの', '実もの'])
+    })
+  })
+
+  describe('getBonsaiSpeciesCategoryLabel', () => {
+    it('分類の表示ラベルを返す', () => {
+      expect(getBonsaiSpeciesCategoryLabel('conifer')).toBe('松柏')
+      expect(getBonsaiSpeciesCategoryLabel('fruiting')).toBe('実もの')
+    })
+
+    it('未知の分類はそのまま返す', () => {
+      expect(getBonsaiSpeciesCategoryLabel('unknown')).toBe('unknown')
+    })
+  })
+
+  describe('BONSAI_SPECIES_CARE_SEASONS', () => {
+    it('春夏秋冬の順に定義されている', () => {
+      expect(BONSAI_SPECIES_CARE_SEASONS.map((s) => s.label)).toEqual(['春', '夏', '秋', '冬'])
+    })
+  })
+
+  // ============================================================
+  // 表記の正規化
+  // ============================================================
+
+  describe('toHiragana / toKatakana', () => {
+    it('カタカナをひらがなに変換する', () => {
+      expect(toHiragana('クロマツ')).toBe('くろまつ')
+    })
+
+    it('ひらがなをカタカナに変換する', () => {
+      expect(toKatakana('さつき')).toBe('サツキ')
+    })
+
+    it('漢字や英字は変換しない', () => {
+      expect(toHiragana('黒松 Pinus')).toBe('黒松 Pinus')
+      expect(toKatakana('黒松 Pinus')).toBe('黒松 Pinus')
+    })
+  })
+
+  describe('normalizeSpeciesName', () => {
+    it('半角カタカナ・全角英字と空白を揃える', () => {
+      expect(normalizeSpeciesName(' ｸﾛﾏﾂ ')).toBe('クロマツ')
+      expect(normalizeSpeciesName('Ｐｉｎｕｓ　 thunbergii')).toBe('Pinus thunbergii')
+    })
+  })
+
+  describe('buildSpeciesNameVariants', () => {
+    it('ひらがな・カタカナ表記の候補を重複なく返す', () => {
+      expect(buildSpeciesNameVariants('クロマツ')).toEqual(['クロマツ', 'くろまつ'])
+      expect(buildSpeciesNameVariants('くろまつ')).toEqual(['くろまつ', 'クロマツ'])
+      expect(buildSpeciesNameVariants('黒松')).toEqual(['黒松'])
+    })
+
+    it('空文字の場合は空配列を返す', () => {
+      expect(buildSpeciesNameVariants('  ')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * 季節のお手入れカレンダーの定数（care-calendar.ts）のテスト
+ *
+ * @jest-environment node
+ */
+
+import {
+  CARE_CALENDAR_ENTRIES,
+  CARE_CLIMATE_ZONES,
+  DEFAULT_CARE_CLIMATE_ZONE,
+  getCareClimateZone,
+  isCareEntryForSpecies,
+  getCareWindow,
+  getCareEntriesInPeriod,
+  formatCareWindow,
+} from '@/lib/constants/care-calendar'
+
+const getEntry = (id: string) => CARE_CALENDAR_ENTRIES.find((entry) => entry.id === id)!
+const getZone = (value: string) => CARE_CLIMATE_ZONES.find((zone) => zone.value === value)!
+
+const kuromatsu = { slug: 'kuromatsu', category: 'conifer' }
+const momiji = { slug: 'momiji', category: 'deciduous' }
+const ume = { slug: 'ume', category: 'flowering' }
+
+describe('Care Calendar Constants', () => {
+  // ============================================================
+  // 気候区分
+  // ============================================================
+
+  describe('getCareClimateZone', () => {
+    it('地方ブロック名・都道府県から気候区分を返す', () => {
+      expect(getCareClimateZone('北海道')?.label).toBe('寒冷地')
+      expect(getCareClimateZone('宮城県')?.label).toBe('冷涼地')
+      expect(getCareClimateZone('東京都')?.label).toBe('温暖地')
+      expect(getCareClimateZone('福岡県')?.label).toBe('暖地')
+    })
+
+    it('地方ブロックと異なる都道府県・地域は個別に判定する', () => {
+      expect(getCareClimateZone('長野県')?.label).toBe('冷涼地')
+      expect(getCareClimateZone('北陸')?.label).toBe('冷涼地')
+      expect(getCareClimateZone('沖縄県')?.label).toBe('亜熱帯')
+      expect(getCareClimateZone('沖縄')?.label).toBe('亜熱帯')
+      expect(getCareClimateZone('九州')?.label).toBe('暖地')
+    })
+
+    it('海外や未設定の場合は null を返す', () => {
+      expect(getCareClimateZone('アメリカ')).toBeNull()
+      expect(getCareClimateZone('')).toBeNull()
+      expect(getCareClimateZone(null)).toBeNull()
+    })
+
+    it('既定の気候区分は温暖地', () => {
+      expect(DEFAULT_CARE_CLIMATE_ZONE.value).toBe('temperate')
+    })
+  })
+
+  // ============================================================
+  // 作業の適期
+  // ============================================================
+
+  describe('isCareEntryForSpecies', () => {
+    it('分類・樹種の指定と除外を判定する', () => {
+      expect(isCareEntryForSpecies(getEntry('candle-cutting'), kuromatsu)).toBe(true)
+      expect(isCareEntryForSpecies(getEntry('candle-cutting'), momiji)).toBe(false)
+      expect(isCareEntryForSpecies(getEntry('pinching-conifer'), kuromatsu)).toBe(false)
+      expect(isCareEntryForSpecies(getEntry('repotting'), momiji)).toBe(true)
+      expect(isCareEntryForSpecies(getEntry('repotting'), ume)).toBe(false)
+    })
+  })
+
+  describe('getCareWindow', () => {
+    it('温暖地では基準の適期を返す', () => {
+      const window = getCareWindow(getEntry('repotting'), getZone('temperate'), 2026)
+      expect(window.start).toEqual(new Date(2026, 2, 1))
+      expect(window.end).toEqual(new Date(2026, 3, 10))
+    })
+
+    it('寒冷地では春の作業を4週間遅らせる', () => {
+      const window = getCareWindow(getEntry('repotting'), getZone('cold'), 2026)
+      expect(window.start).toEqual(new Date(2026, 2, 29))
+      expect(window.end).toEqual(new Date(2026, 4, 8))
+    })
+
+    it('暖地では春の作業を2週間早める', () => {
+      const window = getCareWindow(getEntry('repotting'), getZone('warm'), 2026)
+      expect(window.start).toEqual(new Date(2026, 1, 15))
+    })
+
+    it('寒冷地では秋冬の作業を早め、年をまたぐ適期は翌年に終わる', () => {
+      const window = getCareWindow(getEntry('winter-protection'), getZone('cold'), 2026)
+      expect(window.start).toEqual(new Date(2026, 10, 3))
+      expect(window.end).toEqual(new Date(2027, 0, 31))
+    })
+  })
+
+  describe('getCareEntriesInPeriod', () => {
+    it('樹種に当てはまり期間と重なる作業を開始日順に返す', () => {
+      const results = getCareEntriesInPeriod(
+        new Date(2026, 5, 20),
+        new Date(2026, 5, 26),
+        getZone('temperate'),
+        [kuromatsu]
+      )
+      expect(results.map((r) => r.entry.id)).toEqual(['candle-cutting'])
+    })
+
+    it('年をまたぐ作業は前年から続く適期を返す', () => {
+      const results = getCareEntriesInPeriod(
+        new Date(2026, 0, 10),
+        new Date(2026, 0, 16),
+        getZone('temperate'),
+        [momiji]
+      )
+      const winterPruning = results.find((r) => r.entry.id === 'winter-pruning')
+      expect(winterPruning?.start).toEqual(new Date(2025, 11, 1))
+    })
+
+    it('気候区分によって同じ週の作業が変わる', () => {
+      const from = new Date(2026, 2, 2)
+      const to = new Date(2026, 2, 8)
+      const ids = (zone: string) =>
+        getCareEntriesInPeriod(from, to, getZone(zone), [momiji]).map((r) => r.entry.id)
+
+      expect(ids('temperate')).toContain('repotting')
+      expect(ids('cold')).not.toContain('repotting')
+    })
+
+    it('樹種がない場合は空配列を返す', () => {
+      expect(getCareEntriesInPeriod(new Date(2026, 0, 1), new Date(2026, 11, 31), getZone('temperate'), [])).toEqual([])
+    })
+  })
+
+  describe('formatCareWindow', () => {
+    it('月日の範囲を表示する', () => {
+      expect(formatCareWindow(new Date(2026, 2, 1), new Date(2026, 3, 10))).toBe('3月1日〜4月10日')
+    })
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * お手入れ予定の定数（care-task.ts）のテスト
+ *
+ * @jest-environment node
+ */
+
+import {
+  CARE_TASK_TYPES,
+  CARE_TASK_TYPE_LABELS,
+  CARE_TASK_RECORD_TYPES,
+  isCareTaskType,
+  getCareTaskIntervalLabel,
+  calculateNextDueAt,
+  getDaysUntilDue,
+  getDueLabel,
+} from '@/lib/constants/care-task'
+import { BONSAI_RECORD_TYPES } from '@/lib/constants/bonsai-record'
+
+describe('Care Task Constants', () => {
+  // ============================================================
+  // CARE_TASK_TYPES
+  // ============================================================
+
+  describe('CARE_TASK_TYPES', () => {
+    it('6つの作業種別が定義されている', () => {
+      expect(CARE_TASK_TYPES.map((t) => t.value)).toEqual([
+        'watering',
+        'fertilizing',
+        'repotting',
+        'wire_removal',
+        'pruning',
+        'pest_control',
+      ])
+    })
+
+    it('全ての種別にラベルがある', () => {
+      CARE_TASK_TYPES.forEach((t) => {
+        expect(CARE_TASK_TYPE_LABELS[t.value]).toBe(t.label)
+      })
+    })
+  })
+
+  describe('isCareTaskType', () => {
+    it('定義済みの種別は true を返す', () => {
+      expect(isCareTaskType('wire_removal')).toBe(true)
+    })
+
+    it('未定義の種別は false を返す', () => {
+      expect(isCareTaskType('unknown')).toBe(false)
+    })
+  })
+
+  describe('CARE_TASK_RECORD_TYPES', () => {
+    it('全ての種別が成長記録の種類に対応している', () => {
+      const recordTypes = BONSAI_RECORD_TYPES.map((t) => t.value as string)
+      CARE_TASK_TYPES.forEach((t) => {
+        expect(recordTypes).toContain(CARE_TASK_RECORD_TYPES[t.value])
+      })
+    })
+  })
+
+  // ============================================================
+  // 繰り返し間隔
+  // ============================================================
+
+  describe('getCareTaskIntervalLabel', () => {
+    it('プリセットの間隔はラベルを返す', () => {
+      expect(getCareTaskIntervalLabel(7)).toBe('毎週')
+      expect(getCareTaskIntervalLabel(null)).toBe('繰り返さない')
+    })
+
+    it('プリセット以外の間隔は日数で表示する', () => {
+      expect(getCareTaskIntervalLabel(10)).toBe('10日ごと')
+    })
+  })
+
+  // ============================================================
+  // 期日の計算
+  // ============================================================
+
+  describe('calculateNextDueAt', () => {
+    it('完了日から間隔日数後を返す', () => {
+      const completedAt = new Date('2026-10-19T09:00:00')
+      expect(calculateNextDueAt(completedAt, 3)).toEqual(new Date('2026-10-22T09:00:00'))
+    })
+
+    it('繰り返さない場合は null を返す', () => {
+      expect(calculateNextDueAt(new Date(), null)).toBeNull()
+    })
+  })
+
+  describe('getDaysUntilDue', () => {
+    const now = new Date('2026-10-19T15:00:00')
+
+    it('当日は0を返す', () => {
+      expect(getDaysUntilDue(new Date('2026-10-19T00:00:00'), now)).toBe(0)
+    })
+
+    it('未来の期日は残り日数を返す', () => {
+      expect(getDaysUntilDue(new Date('2026-10-22T00:00:00'), now)).toBe(3)
+    })
+
+    it('期限切れは負の値を返す', () => {
+      expect(getDaysUntilDue(new Date('2026-10-17T23:00:00'), now)).toBe(-2)
+    })
+  })
+
+  describe('getDueLabel', () => {
+    const now = new Date('2026-10-19T15:00:00')
+
+    it('期日に応じたラベルを返す', () => {
+      expect(getDueLabel(new Date('2026-10-19T00:00:00'), now)).toBe('今日')
+      expect(getDueLabel(new Date('2026-10-20T00:00:00'), now)).toBe('明日')
+      expect(getDueLabel(new Date('2026-10-25T00:00:00'), now)).toBe('6日後')
+      expect(getDueLabel(new Date('2026-10-16T00:00:00'), now)).toBe('3日遅れ')
+    })
+  })
+})
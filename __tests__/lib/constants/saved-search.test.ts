@@ -0,0 +1,89 @@
+/**
+ * 保存した検索の定数（saved-search.ts）のテスト
+ *
+ * @jest-environment node
+ */
+
+import {
+  SAVED_SEARCH_NOTIFY_MODES,
+  isSavedSearchNotifyMode,
+  formatSavedSearchLabel,
+  buildSavedSearchUrl,
+} from '@/lib/constants/saved-search'
+
+describe('Saved Search Constants', () => {
+  // ============================================================
+  // SAVED_SEARCH_NOTIFY_MODES
+  // ============================================================
+
+  describe('SAVED_SEARCH_NOTIFY_MODES', () => {
+    it('すぐに通知と1日1回のメールが定義されている', () => {
+      expect(SAVED_SEARCH_NOTIFY_MODES.map((m) => m.value)).toEqual(['instant', 'daily'])
+    })
+  })
+
+  describe('isSavedSearchNotifyMode', () => {
+    it('定義された通知方法はtrue', () => {
+      expect(isSavedSearchNotifyMode('instant')).toBe(true)
+      expect(isSavedSearchNotifyMode('daily')).toBe(true)
+    })
+
+    it('未定義の値はfalse', () => {
+      expect(isSavedSearchNotifyMode('weekly')).toBe(false)
+      expect(isSavedSearchNotifyMode('')).toBe(false)
+    })
+  })
+
+  // ============================================================
+  // formatSavedSearchLabel
+  // ============================================================
+
+  describe('formatSavedSearchLabel', () => {
+    it('キーワードとハッシュタグを空白区切りで並べる', () => {
+      expect(formatSavedSearchLabel({ query: '五葉松 譲ります', genreIds: [], hashtag: '盆栽' })).toBe(
+        '五葉松 譲ります #盆栽'
+      )
+    })
+
+    it('ハッシュタグのみの場合', () => {
+      expect(formatSavedSearchLabel({ query: '', genreIds: [], hashtag: '盆栽' })).toBe('#盆栽')
+    })
+
+    it('ジャンル名を括弧で添える', () => {
+      expect(
+        formatSavedSearchLabel({ query: '黒松', genreIds: ['g1', 'g2'], hashtag: null }, ['松柏類', '雑木類'])
+      ).toBe('黒松（松柏類・雑木類）')
+    })
+  })
+
+  // ============================================================
+  // buildSavedSearchUrl
+  // ============================================================
+
+  describe('buildSavedSearchUrl', () => {
+    it('キーワードとジャンルを投稿タブのURLにする', () => {
+      const url = buildSavedSearchUrl({ query: '五葉松', genreIds: ['g1', 'g2'], hashtag: null })
+      const params = new URLSearchParams(url.split('?')[1])
+
+      expect(url.startsWith('/search?')).toBe(true)
+      expect(params.get('q')).toBe('五葉松')
+      expect(params.getAll('genre')).toEqual(['g1', 'g2'])
+      expect(params.get('tab')).toBeNull()
+    })
+
+    it('キーワードがある場合はハッシュタグもキーワードに含める', () => {
+      const url = buildSavedSearchUrl({ query: '五葉松', genreIds: [], hashtag: '譲ります' })
+      const params = new URLSearchParams(url.split('?')[1])
+
+      expect(params.get('q')).toBe('五葉松 #譲ります')
+    })
+
+    it('ハッシュタグのみの場合はタグタブのURLにする', () => {
+      const url = buildSavedSearchUrl({ query: '', genreIds: [], hashtag: '盆栽' })
+      const params = new URLSearchParams(url.split('?')[1])
+
+      expect(params.get('tab')).toBe('tags')
+      expect(params.get('q')).toBe('盆栽')
+    })
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto'
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// メール送信モック
+const mockSendVerificationEmail = jest.fn()
+jest.mock('@/lib/email', () => ({
+  sendVerificationEmail: (...args: unknown[]) => mockSendVerificationEmail(...args),
+}))
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+describe('Email Verification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  // ============================================================
+  // issueVerificationToken
+  // ============================================================
+
+  describe('issueVerificationToken', () => {
+    it('既存のトークンを削除してハッシュ化したトークンを保存する', async () => {
+      const { issueVerificationToken } = await import('@/lib/email-verification')
+      const token = await issueVerificationToken('verify-email', 'user-1')
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/)
+      expect(mockPrisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: { identifier: 'verify-email:user-1' },
+      })
+      expect(mockPrisma.verificationToken.create).toHaveBeenCalledWith({
+        data: {
+          identifier: 'verify-email:user-1',
+          token: hash(token),
+          expires: expect.any(Date),
+        },
+      })
+    })
+
+    it('keepExistingを指定すると発行済みのトークンを残す', async () => {
+      const { issueVerificationToken } = await import('@/lib/email-verification')
+      const before = Date.now()
+      await issueVerificationToken('login-alert', 'user-1', {
+        ttlMs: 60 * 1000,
+        keepExisting: true,
+      })
+
+      expect(mockPrisma.verificationToken.deleteMany).not.toHaveBeenCalled()
+      const { expires } = mockPrisma.verificationToken.create.mock.calls[0][0].data
+      expect(expires.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 1000)
+      expect(expires.getTime()).toBeGreaterThanOrEqual(before + 60 * 1000)
+    })
+  })
+
+  // ============================================================
+  // findVerificationToken
+  // ============================================================
+
+  describe('findVerificationToken', () => {
+    it('有効なトークンを使用済みにせずに用途と対象を返す', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'login-alert:user-1',
+        token: hash('token-1'),
+        expires: new Date(Date.now() + 60 * 1000),
+      })
+
+      const { findVerificationToken } = await import('@/lib/email-verification')
+      const result = await findVerificationToken('token-1', ['login-alert'])
+
+      expect(result).toEqual({ purpose: 'login-alert', subjectId: 'user-1' })
+      expect(mockPrisma.verificationToken.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('期限切れ・用途が異なるトークンは無効', async () => {
+      mockPrisma.verificationToken.findUnique
+        .mockResolvedValueOnce({
+          identifier: 'login-alert:user-1',
+          token: hash('token-1'),
+          expires: new Date(Date.now() - 60 * 1000),
+        })
+        .mockResolvedValueOnce({
+          identifier: 'verify-email:user-1',
+          token: hash('token-1'),
+          expires: new Date(Date.now() + 60 * 1000),
+        })
+
+      const { findVerificationToken } = await import('@/lib/email-verification')
+
+      expect(await findVerificationToken('token-1', ['login-alert'])).toBeNull()
+      expect(await findVerificationToken('token-1', ['login-alert'])).toBeNull()
+    })
+  })
+
+  // ============================================================
+  // consumeVerificationToken
+  // ============================================================
+
+  describe('consumeVerificationToken', () => {
+    it('有効なトークンを使用済みにして用途と対象を返す', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'email-change-new:request-1',
+        token: hash('token-1'),
+        expires: new Date(Date.now() + 60 * 1000),
+      })
+      mockPrisma.verificationToken.deleteMany.mockResolvedValueOnce({ count: 1 })
+
+      const { consumeVerificationToken } = await import('@/lib/email-verification')
+      const result = await consumeVerificationToken('token-1', ['email-change-old', 'email-change-new'])
+
+      expect(result).toEqual({ purpose: 'email-change-new', subjectId: 'request-1' })
+      expect(mockPrisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: { token: hash('token-1') },
+      })
+    })
+
+    it('用途が異なるトークンは無効', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'email-change-new:request-1',
+        token: hash('token-1'),
+        expires: new Date(Date.now() + 60 * 1000),
+      })
+
+      const { consumeVerificationToken } = await import('@/lib/email-verification')
+      const result = await consumeVerificationToken('token-1', ['verify-email'])
+
+      expect(result).toBeNull()
+      expect(mockPrisma.verificationToken.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('期限切れのトークンは削除して無効とする', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'verify-email:user-1',
+        token: hash('token-1'),
+        expires: new Date(Date.now() - 60 * 1000),
+      })
+      mockPrisma.verificationToken.deleteMany.mockResolvedValueOnce({ count: 1 })
+
+      const { consumeVerificationToken } = await import('@/lib/email-verification')
+      const result = await consumeVerificationToken('token-1', ['verify-email'])
+
+      expect(result).toBeNull()
+      expect(mockPrisma.verificationToken.deleteMany).toHaveBeenCalled()
+    })
+
+    it('同時に使われて削除済みのトークンは無効', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'verify-email:user-1',
+        token: hash('token-1'),
+        expires: new Date(Date.now() + 60 * 1000),
+      })
+      mockPrisma.verificationToken.deleteMany.mockResolvedValueOnce({ count: 0 })
+
+      const { consumeVerificationToken } = await import('@/lib/email-verification')
+
+      expect(await consumeVerificationToken('token-1', ['verify-email'])).toBeNull()
+    })
+
+    it('存在しないトークンは無効', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce(null)
+
+      const { consumeVerificationToken } = await import('@/lib/email-verification')
+
+      expect(await consumeVerificationToken('unknown', ['verify-email'])).toBeNull()
+    })
+  })
+
+  // ============================================================
+  // sendEmailVerification
+  // ============================================================
+
+  describe('sendEmailVerification', () => {
+    it('確認リンクを含むメールを送信する', async () => {
+      mockSendVerificationEmail.mockResolvedValueOnce({ success: true })
+
+      const { sendEmailVerification } = await import('@/lib/email-verification')
+      const sent = await sendEmailVerification({
+        id: 'user-1',
+        email: 'test@example.com',
+        nickname: 'テストユーザー',
+      })
+
+      expect(sent).toBe(true)
+      expect(mockSendVerificationEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'テストユーザー',
+        expect.stringMatching(/\/verify-email\?token=[0-9a-f]{64}$/)
+      )
+    })
+  })
+
+  // ============================================================
+  // isEmailVerified
+  // ============================================================
+
+  describe('isEmailVerified', () => {
+    it('確認日時があれば確認済み', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ emailVerified: new Date() })
+
+      const { isEmailVerified } = await import('@/lib/email-verification')
+
+      expect(await isEmailVerified('user-1')).toBe(true)
+    })
+
+    it('確認日時がなければ未確認', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ emailVerified: null })
+
+      const { isEmailVerified } = await import('@/lib/email-verification')
+
+      expect(await isEmailVerified('user-1')).toBe(false)
+    })
+  })
+})
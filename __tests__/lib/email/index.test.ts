@@ -268,6 +268,169 @@ describe('Email Module', () => {
     })
   })
 
+  describe('sendCareReminderEmail', () => {
+    it('お手入れリマインダーメールを送信する', async () => {
+      const { sendCareReminderEmail } = await import('@/lib/email')
+
+      const result = await sendCareReminderEmail('test@example.com', 'TestUser', [
+        { bonsaiName: '黒松', taskLabel: '針金外し', dueAt: new Date(), note: '一の枝' },
+        { bonsaiName: '真柏', taskLabel: '水やり', dueAt: new Date() },
+      ])
+
+      expect(result.success).toBe(true)
+    })
+
+    it('盆栽名をHTMLエスケープする', async () => {
+      const logger = (await import('@/lib/logger')).default
+      const { sendCareReminderEmail } = await import('@/lib/email')
+
+      await sendCareReminderEmail('test@example.com', 'TestUser', [
+        { bonsaiName: '<b>黒松</b> & 真柏', taskLabel: '水やり', dueAt: new Date() },
+      ])
+
+      const htmlLog = (logger.log as jest.Mock).mock.calls
+        .map((call) => String(call[0]))
+        .find((line) => line.startsWith('HTML:'))
+      expect(htmlLog).toContain('黒松 &amp; 真柏')
+      expect(htmlLog).not.toContain('<b>黒松</b>')
+    })
+  })
+
+  describe('sendSavedSearchDigestEmail', () => {
+    const searches = [
+      {
+        label: '五葉松 #譲ります',
+        path: '/search?q=%E4%BA%94%E8%91%89%E6%9D%BE',
+        count: 20,
+        hasMore: true,
+        posts: [{ id: 'post-1', authorName: '作者', excerpt: '五葉松を譲ります' }],
+      },
+    ]
+
+    it('保存した検索の新着まとめメールを送信する', async () => {
+      const { sendSavedSearchDigestEmail } = await import('@/lib/email')
+
+      const result = await sendSavedSearchDigestEmail('test@example.com', 'TestUser', searches)
+
+      expect(result.success).toBe(true)
+    })
+
+    it('投稿の本文をHTMLエスケープする', async () => {
+      const logger = (await import('@/lib/logger')).default
+      const { sendSavedSearchDigestEmail } = await import('@/lib/email')
+
+      await sendSavedSearchDigestEmail('test@example.com', 'TestUser', [
+        { ...searches[0], posts: [{ id: 'post-1', authorName: '作者', excerpt: '<script>x</script> & 真柏' }] },
+      ])
+
+      const htmlLog = (logger.log as jest.Mock).mock.calls
+        .map((call) => String(call[0]))
+        .find((line) => line.startsWith('HTML:'))
+      expect(htmlLog).toContain('&amp; 真柏')
+      expect(htmlLog).not.toContain('<script>')
+      expect(htmlLog).toContain('新着20件以上')
+    })
+  })
+
+  describe('sendDataExportReadyEmail', () => {
+    it('データのエクスポートの準備完了メールを送信する', async () => {
+      const logger = (await import('@/lib/logger')).default
+      const { sendDataExportReadyEmail } = await import('@/lib/email')
+
+      const result = await sendDataExportReadyEmail('test@example.com', 'TestUser', new Date())
+
+      expect(result.success).toBe(true)
+      const htmlLog = (logger.log as jest.Mock).mock.calls
+        .map((call) => String(call[0]))
+        .find((line) => line.startsWith('HTML:'))
+      expect(htmlLog).toContain('/settings/account')
+    })
+  })
+
+  describe('sendVerificationEmail', () => {
+    it('メールアドレスの確認メールを送信する', async () => {
+      const logger = (await import('@/lib/logger')).default
+      const { sendVerificationEmail } = await import('@/lib/email')
+
+      const result = await sendVerificationEmail(
+        'test@example.com',
+        'TestUser',
+        'https://example.com/verify-email?token=abc'
+      )
+
+      expect(result.success).toBe(true)
+      const htmlLog = (logger.log as jest.Mock).mock.calls
+        .map((call) => String(call[0]))
+        .find((line) => line.startsWith('HTML:'))
+      expect(htmlLog).toContain('https://example.com/verify-email?token=abc')
+    })
+  })
+
+  describe('sendEmailChangeConfirmationEmail', () => {
+    it('変更前のアドレスには心当たりがない場合の案内を含める', async () => {
+      const logger = (await import('@/lib/logger')).default
+      const { sendEmailChangeConfirmationEmail } = await import('@/lib/email')
+
+      const result = await sendEmailChangeConfirmationEmail(
+        'old@example.com',
+        'TestUser',
+        'https://example.com/verify-email/change?token=abc',
+        'new@example.com',
+        'current'
+      )
+
+      expect(result.success).toBe(true)
+      const htmlLog = (logger.log as jest.Mock).mock.calls
+        .map((call) => String(call[0]))
+        .find((line) => line.startsWith('HTML:'))
+      expect(htmlLog).toContain('new@example.com')
+      expect(htmlLog).toContain('パスワードを変更してください')
+    })
+  })
+
+  describe('sendLoginAlertEmail', () => {
+    it('ログインの詳細と心当たりがない場合のリンクを含める', async () => {
+      const logger = (await import('@/lib/logger')).default
+      const { sendLoginAlertEmail } = await import('@/lib/email')
+
+      const result = await sendLoginAlertEmail(
+        'test@example.com',
+        'TestUser',
+        {
+          type: 'new_login',
+          ipAddress: '203.0.113.1',
+          device: 'Chrome / Android',
+          occurredAt: new Date('2026-10-01T00:00:00Z'),
+        },
+        'https://example.com/login-alert?token=abc'
+      )
+
+      expect(result.success).toBe(true)
+      const htmlLog = (logger.log as jest.Mock).mock.calls
+        .map((call) => String(call[0]))
+        .find((line) => line.startsWith('HTML:'))
+      expect(htmlLog).toContain('新しいデバイスからのログイン')
+      expect(htmlLog).toContain('203.0.113.1')
+      expect(htmlLog).toContain('Chrome / Android')
+      expect(htmlLog).toContain('https://example.com/login-alert?token=abc')
+    })
+
+    it('ロックの通知では件名を変える', async () => {
+      const logger = (await import('@/lib/logger')).default
+      const { sendLoginAlertEmail } = await import('@/lib/email')
+
+      await sendLoginAlertEmail(
+        'test@example.com',
+        'TestUser',
+        { type: 'login_lockout', ipAddress: null, device: null, occurredAt: new Date() },
+        'https://example.com/login-alert?token=abc'
+      )
+
+      const logLines = (logger.log as jest.Mock).mock.calls.map((call) => String(call[0]))
+      expect(logLines.some((line) => line.includes('ログインを一時的に制限しました'))).toBe(true)
+    })
+  })
+
   describe('プロバイダーのシングルトン', () => {
     it('同じプロバイダーインスタンスを再利用する', async () => {
       const { sendEmail } = await import('@/lib/email')
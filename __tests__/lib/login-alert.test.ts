@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// メール送信モック
+const mockSendLoginAlertEmail = jest.fn()
+jest.mock('@/lib/email', () => ({
+  sendLoginAlertEmail: (...args: unknown[]) => mockSendLoginAlertEmail(...args),
+}))
+
+// レート制限モック
+const mockRateLimit = jest.fn()
+jest.mock('@/lib/rate-limit', () => ({
+  rateLimit: (...args: unknown[]) => mockRateLimit(...args),
+}))
+
+// 確認トークンモック
+const mockIssueVerificationToken = jest.fn()
+jest.mock('@/lib/email-verification', () => ({
+  buildVerificationUrl: (path: string, token: string) => `https://example.com${path}?token=${token}`,
+  issueVerificationToken: (...args: unknown[]) => mockIssueVerificationToken(...args),
+}))
+
+const user = { id: 'user-1', email: 'test@example.com', nickname: 'テストユーザー' }
+
+describe('Login Alert', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockIssueVerificationToken.mockResolvedValue('alert-token')
+    mockSendLoginAlertEmail.mockResolvedValue({ success: true })
+    mockRateLimit.mockResolvedValue({ success: true })
+  })
+
+  // ============================================================
+  // notifyIfNewLogin
+  // ============================================================
+
+  describe('notifyIfNewLogin', () => {
+    it('初めてのログインでは通知しない', async () => {
+      mockPrisma.userDevice.findMany.mockResolvedValueOnce([])
+
+      const { notifyIfNewLogin } = await import('@/lib/login-alert')
+      const notified = await notifyIfNewLogin('user-1', { fingerprint: 'fp-1', ipAddress: '203.0.113.1' })
+
+      expect(notified).toBe(false)
+      expect(mockSendLoginAlertEmail).not.toHaveBeenCalled()
+    })
+
+    it('記録済みのデバイス・IPアドレスからのログインでは通知しない', async () => {
+      mockPrisma.userDevice.findMany.mockResolvedValueOnce([
+        { fingerprint: 'fp-1', ipAddress: '203.0.113.1' },
+      ])
+
+      const { notifyIfNewLogin } = await import('@/lib/login-alert')
+      const notified = await notifyIfNewLogin('user-1', { fingerprint: 'fp-1', ipAddress: '203.0.113.1' })
+
+      expect(notified).toBe(false)
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled()
+    })
+
+    it('新しいデバイスからのログインをメールとアプリ内通知で知らせる', async () => {
+      mockPrisma.userDevice.findMany.mockResolvedValueOnce([
+        { fingerprint: 'fp-1', ipAddress: '203.0.113.1' },
+      ])
+      mockPrisma.user.findUnique.mockResolvedValueOnce(user)
+
+      const { notifyIfNewLogin, LOGIN_ALERT_TOKEN_TTL_MS } = await import('@/lib/login-alert')
+      const notified = await notifyIfNewLogin('user-1', {
+        fingerprint: 'fp-2',
+        ipAddress: '203.0.113.1',
+        device: 'Chrome / Android',
+      })
+
+      expect(notified).toBe(true)
+      expect(mockIssueVerificationToken).toHaveBeenCalledWith('login-alert', 'user-1', {
+        ttlMs: LOGIN_ALERT_TOKEN_TTL_MS,
+        keepExisting: true,
+      })
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', actorId: 'user-1', type: 'new_login' },
+      })
+      expect(mockSendLoginAlertEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'テストユーザー',
+        expect.objectContaining({
+          type: 'new_login',
+          ipAddress: '203.0.113.1',
+          device: 'Chrome / Android',
+        }),
+        'https://example.com/login-alert?token=alert-token'
+      )
+    })
+
+    it('新しいIPアドレスからのログインも通知する', async () => {
+      mockPrisma.userDevice.findMany.mockResolvedValueOnce([
+        { fingerprint: 'fp-1', ipAddress: '203.0.113.1' },
+      ])
+      mockPrisma.user.findUnique.mockResolvedValueOnce(user)
+
+      const { notifyIfNewLogin } = await import('@/lib/login-alert')
+
+      expect(
+        await notifyIfNewLogin('user-1', { fingerprint: 'fp-1', ipAddress: '198.51.100.7' })
+      ).toBe(true)
+    })
+  })
+
+  // ============================================================
+  // notifyLoginLockout
+  // ============================================================
+
+  describe('notifyLoginLockout', () => {
+    it('登録されていないメールアドレスでは何もしない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(null)
+
+      const { notifyLoginLockout } = await import('@/lib/login-alert')
+
+      expect(await notifyLoginLockout('unknown@example.com', '203.0.113.1')).toBe(false)
+      expect(mockRateLimit).not.toHaveBeenCalled()
+      expect(mockSendLoginAlertEmail).not.toHaveBeenCalled()
+    })
+
+    it('ログインの制限を通知する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(user)
+
+      const { notifyLoginLockout } = await import('@/lib/login-alert')
+
+      expect(await notifyLoginLockout('test@example.com', '203.0.113.1')).toBe(true)
+      expect(mockRateLimit).toHaveBeenCalledWith('login-alert:lockout:user-1', expect.any(Object))
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', actorId: 'user-1', type: 'login_lockout' },
+      })
+      expect(mockSendLoginAlertEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'テストユーザー',
+        expect.objectContaining({ type: 'login_lockout', ipAddress: '203.0.113.1' }),
+        'https://example.com/login-alert?token=alert-token'
+      )
+    })
+
+    it('直近に通知済みの場合は通知しない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(user)
+      mockRateLimit.mockResolvedValueOnce({ success: false })
+
+      const { notifyLoginLockout } = await import('@/lib/login-alert')
+
+      expect(await notifyLoginLockout('test@example.com', '203.0.113.1')).toBe(false)
+      expect(mockSendLoginAlertEmail).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,334 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// Cookieモック
+const cookieJar = new Map<string, string>()
+const mockCookieSet = jest.fn((name: string, value: string, _options?: unknown) => cookieJar.set(name, value))
+jest.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string, options: unknown) => mockCookieSet(name, value, options),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}))
+
+// Redisモック
+const redisStore = new Map<string, string>()
+jest.mock('@/lib/redis', () => ({
+  getRedisClient: () => ({
+    set: async (key: string, value: string) => {
+      redisStore.set(key, value)
+    },
+    getdel: async (key: string) => {
+      const value = redisStore.get(key) ?? null
+      redisStore.delete(key)
+      return value
+    },
+  }),
+}))
+
+// SimpleWebAuthnモック
+const mockGenerateRegistrationOptions = jest.fn()
+const mockVerifyRegistrationResponse = jest.fn()
+const mockGenerateAuthenticationOptions = jest.fn()
+const mockVerifyAuthenticationResponse = jest.fn()
+jest.mock('@simplewebauthn/server', () => ({
+  generateRegistrationOptions: (...args: unknown[]) => mockGenerateRegistrationOptions(...args),
+  verifyRegistrationResponse: (...args: unknown[]) => mockVerifyRegistrationResponse(...args),
+  generateAuthenticationOptions: (...args: unknown[]) => mockGenerateAuthenticationOptions(...args),
+  verifyAuthenticationResponse: (...args: unknown[]) => mockVerifyAuthenticationResponse(...args),
+}))
+
+const CHALLENGE_COOKIE = 'bonlog.webauthn-challenge'
+
+/**
+ * チャレンジを保存済みの状態にする（CookieにID、Redisに値）
+ */
+function storeChallenge(value: string) {
+  cookieJar.set(CHALLENGE_COOKIE, 'challenge-id')
+  redisStore.set('webauthn-challenge:challenge-id', value)
+}
+
+/**
+ * CookieのIDに対応する保存済みのチャレンジを取得する
+ */
+function getStoredChallenge() {
+  const challengeId = cookieJar.get(CHALLENGE_COOKIE)
+  return challengeId ? redisStore.get(`webauthn-challenge:${challengeId}`) : undefined
+}
+
+describe('Passkey Utilities', () => {
+  const originalAppUrl = process.env.NEXT_PUBLIC_APP_URL
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    cookieJar.clear()
+    redisStore.clear()
+    process.env.NEXT_PUBLIC_APP_URL = 'https://bon-log.com'
+  })
+
+  afterAll(() => {
+    process.env.NEXT_PUBLIC_APP_URL = originalAppUrl
+  })
+
+  // ============================================================
+  // getRelyingParty
+  // ============================================================
+
+  describe('getRelyingParty', () => {
+    it('NEXT_PUBLIC_APP_URL からRP IDとオリジンを取得する', async () => {
+      process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000'
+
+      const { getRelyingParty } = await import('@/lib/passkey')
+
+      expect(getRelyingParty()).toEqual({ rpID: 'localhost', origin: 'http://localhost:3000' })
+    })
+  })
+
+  // ============================================================
+  // consumeChallenge
+  // ============================================================
+
+  describe('consumeChallenge', () => {
+    it('用途が一致するチャレンジを返して破棄する', async () => {
+      storeChallenge('login:abc')
+
+      const { consumeChallenge } = await import('@/lib/passkey')
+
+      expect(await consumeChallenge('login')).toBe('abc')
+      expect(cookieJar.has(CHALLENGE_COOKIE)).toBe(false)
+    })
+
+    it('用途が異なる場合はnullを返す', async () => {
+      storeChallenge('register:abc')
+
+      const { consumeChallenge } = await import('@/lib/passkey')
+
+      expect(await consumeChallenge('2fa')).toBeNull()
+      expect(cookieJar.has(CHALLENGE_COOKIE)).toBe(false)
+    })
+
+    it('同じチャレンジは2回使えない', async () => {
+      storeChallenge('login:abc')
+
+      const { consumeChallenge } = await import('@/lib/passkey')
+
+      expect(await consumeChallenge('login')).toBe('abc')
+      cookieJar.set(CHALLENGE_COOKIE, 'challenge-id')
+      expect(await consumeChallenge('login')).toBeNull()
+    })
+
+    it('Cookieにチャレンジを直接指定してもnullを返す', async () => {
+      cookieJar.set(CHALLENGE_COOKIE, 'login:abc')
+
+      const { consumeChallenge } = await import('@/lib/passkey')
+
+      expect(await consumeChallenge('login')).toBeNull()
+    })
+  })
+
+  // ============================================================
+  // 登録
+  // ============================================================
+
+  describe('createRegistrationOptions', () => {
+    it('登録済みのパスキーを除外してチャレンジを保存する', async () => {
+      mockPrisma.passkey.findMany.mockResolvedValueOnce([
+        { credentialId: 'AQID', transports: ['internal'] },
+      ])
+      mockGenerateRegistrationOptions.mockResolvedValueOnce({ challenge: 'reg-challenge' })
+
+      const { createRegistrationOptions } = await import('@/lib/passkey')
+      const options = await createRegistrationOptions({
+        id: 'user-1',
+        email: 'user@example.com',
+        nickname: '盆栽太郎',
+      })
+
+      expect(options).toEqual({ challenge: 'reg-challenge' })
+      expect(mockGenerateRegistrationOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rpID: 'bon-log.com',
+          userID: 'user-1',
+          userName: 'user@example.com',
+          userDisplayName: '盆栽太郎',
+          excludeCredentials: [
+            { id: new Uint8Array([1, 2, 3]), type: 'public-key', transports: ['internal'] },
+          ],
+        })
+      )
+      expect(getStoredChallenge()).toBe('register:reg-challenge')
+    })
+  })
+
+  describe('verifyRegistration', () => {
+    const response = { id: 'AQID', response: { transports: ['internal'] } } as never
+
+    it('チャレンジがない場合はnullを返す', async () => {
+      const { verifyRegistration } = await import('@/lib/passkey')
+
+      expect(await verifyRegistration(response)).toBeNull()
+      expect(mockVerifyRegistrationResponse).not.toHaveBeenCalled()
+    })
+
+    it('検証に成功した場合は保存する認証器の情報を返す', async () => {
+      storeChallenge('register:reg-challenge')
+      mockVerifyRegistrationResponse.mockResolvedValueOnce({
+        verified: true,
+        registrationInfo: {
+          credentialID: new Uint8Array([1, 2, 3]),
+          credentialPublicKey: new Uint8Array([9, 9]),
+          counter: 0,
+          credentialDeviceType: 'multiDevice',
+          credentialBackedUp: true,
+        },
+      })
+
+      const { verifyRegistration } = await import('@/lib/passkey')
+      const result = await verifyRegistration(response)
+
+      expect(mockVerifyRegistrationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expectedChallenge: 'reg-challenge',
+          expectedOrigin: 'https://bon-log.com',
+          expectedRPID: 'bon-log.com',
+          requireUserVerification: true,
+        })
+      )
+      expect(result).toEqual({
+        credentialId: 'AQID',
+        publicKey: Buffer.from([9, 9]),
+        counter: 0,
+        transports: ['internal'],
+        deviceType: 'multiDevice',
+        backedUp: true,
+      })
+    })
+
+    it('検証で例外が発生した場合はnullを返す', async () => {
+      storeChallenge('register:reg-challenge')
+      mockVerifyRegistrationResponse.mockRejectedValueOnce(new Error('Unexpected origin'))
+
+      const { verifyRegistration } = await import('@/lib/passkey')
+
+      expect(await verifyRegistration(response)).toBeNull()
+    })
+  })
+
+  // ============================================================
+  // 認証
+  // ============================================================
+
+  describe('createAuthenticationOptions', () => {
+    it('ユーザーを指定しない場合は allowCredentials を空にする', async () => {
+      mockGenerateAuthenticationOptions.mockResolvedValueOnce({ challenge: 'auth-challenge' })
+
+      const { createAuthenticationOptions } = await import('@/lib/passkey')
+      await createAuthenticationOptions('login')
+
+      expect(mockPrisma.passkey.findMany).not.toHaveBeenCalled()
+      expect(mockGenerateAuthenticationOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ allowCredentials: [], userVerification: 'required' })
+      )
+      expect(getStoredChallenge()).toBe('login:auth-challenge')
+    })
+
+    it('ユーザーを指定した場合はそのユーザーのパスキーに限定する', async () => {
+      mockPrisma.passkey.findMany.mockResolvedValueOnce([
+        { credentialId: 'AQID', transports: ['hybrid'] },
+      ])
+      mockGenerateAuthenticationOptions.mockResolvedValueOnce({ challenge: 'auth-challenge' })
+
+      const { createAuthenticationOptions } = await import('@/lib/passkey')
+      await createAuthenticationOptions('2fa', 'user-1')
+
+      expect(mockPrisma.passkey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user-1' } })
+      )
+      expect(mockGenerateAuthenticationOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          allowCredentials: [
+            { id: new Uint8Array([1, 2, 3]), type: 'public-key', transports: ['hybrid'] },
+          ],
+        })
+      )
+      expect(getStoredChallenge()).toBe('2fa:auth-challenge')
+    })
+  })
+
+  describe('verifyAuthentication', () => {
+    const response = { id: 'AQID' } as never
+    const storedPasskey = {
+      id: 'passkey-1',
+      userId: 'user-1',
+      credentialId: 'AQID',
+      publicKey: Buffer.from([9, 9]),
+      counter: 3,
+      transports: ['internal'],
+    }
+
+    it('検証に成功した場合はカウンターを更新してユーザーIDを返す', async () => {
+      storeChallenge('login:auth-challenge')
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce(storedPasskey)
+      mockVerifyAuthenticationResponse.mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: { newCounter: 4 },
+      })
+
+      const { verifyAuthentication } = await import('@/lib/passkey')
+      const result = await verifyAuthentication('login', response)
+
+      expect(result).toBe('user-1')
+      expect(mockVerifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expectedChallenge: 'auth-challenge',
+          authenticator: expect.objectContaining({ counter: 3 }),
+          requireUserVerification: true,
+        })
+      )
+      expect(mockPrisma.passkey.update).toHaveBeenCalledWith({
+        where: { id: 'passkey-1' },
+        data: { counter: 4, lastUsedAt: expect.any(Date) },
+      })
+    })
+
+    it('別のユーザーのパスキーは受け付けない', async () => {
+      storeChallenge('2fa:auth-challenge')
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce(storedPasskey)
+
+      const { verifyAuthentication } = await import('@/lib/passkey')
+      const result = await verifyAuthentication('2fa', response, 'user-2')
+
+      expect(result).toBeNull()
+      expect(mockVerifyAuthenticationResponse).not.toHaveBeenCalled()
+    })
+
+    it('登録されていないパスキーは受け付けない', async () => {
+      storeChallenge('login:auth-challenge')
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce(null)
+
+      const { verifyAuthentication } = await import('@/lib/passkey')
+
+      expect(await verifyAuthentication('login', response)).toBeNull()
+    })
+
+    it('検証に失敗した場合はカウンターを更新しない', async () => {
+      storeChallenge('login:auth-challenge')
+      mockPrisma.passkey.findUnique.mockResolvedValueOnce(storedPasskey)
+      mockVerifyAuthenticationResponse.mockResolvedValueOnce({ verified: false })
+
+      const { verifyAuthentication } = await import('@/lib/passkey')
+
+      expect(await verifyAuthentication('login', response)).toBeNull()
+      expect(mockPrisma.passkey.update).not.toHaveBeenCalled()
+    })
+  })
+})
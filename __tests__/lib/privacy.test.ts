@@ -0,0 +1,267 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+describe('Privacy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  // ============================================================
+  // getViewerRelationship
+  // ============================================================
+
+  describe('getViewerRelationship', () => {
+    it('未ログインの場合、本人でもフォロワーでもない', async () => {
+      const { getViewerRelationship } = await import('@/lib/privacy')
+
+      const result = await getViewerRelationship('owner-id', undefined)
+
+      expect(result).toEqual({ isOwner: false, isFollower: false, isFollowedBy: false })
+      expect(mockPrisma.follow.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('本人の場合、フォロー関係を確認しない', async () => {
+      const { getViewerRelationship } = await import('@/lib/privacy')
+
+      const result = await getViewerRelationship('owner-id', 'owner-id')
+
+      expect(result.isOwner).toBe(true)
+      expect(mockPrisma.follow.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('双方向のフォロー関係を返す', async () => {
+      mockPrisma.follow.findUnique
+        .mockResolvedValueOnce({ followerId: 'viewer-id', followingId: 'owner-id' })
+        .mockResolvedValueOnce(null)
+      const { getViewerRelationship } = await import('@/lib/privacy')
+
+      const result = await getViewerRelationship('owner-id', 'viewer-id')
+
+      expect(result).toEqual({ isOwner: false, isFollower: true, isFollowedBy: false })
+    })
+  })
+
+  // ============================================================
+  // isCloseFriendOf
+  // ============================================================
+
+  describe('isCloseFriendOf', () => {
+    it('未ログイン・本人の場合、リストを確認しない', async () => {
+      const { isCloseFriendOf } = await import('@/lib/privacy')
+
+      expect(await isCloseFriendOf('owner-id', undefined)).toBe(false)
+      expect(await isCloseFriendOf('owner-id', 'owner-id')).toBe(false)
+      expect(mockPrisma.closeFriend.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('親しい友達リストに含まれているかを返す', async () => {
+      mockPrisma.closeFriend.findUnique.mockResolvedValueOnce({ userId: 'owner-id', friendId: 'viewer-id' })
+      const { isCloseFriendOf } = await import('@/lib/privacy')
+
+      const result = await isCloseFriendOf('owner-id', 'viewer-id')
+
+      expect(result).toBe(true)
+    })
+  })
+
+  // ============================================================
+  // canViewArea
+  // ============================================================
+
+  describe('canViewArea', () => {
+    const stranger = { isOwner: false, isFollower: false, isFollowedBy: false }
+    const follower = { isOwner: false, isFollower: true, isFollowedBy: false }
+    const owner = { isOwner: true, isFollower: false, isFollowedBy: false }
+
+    it('全員に公開されている場合、誰でも閲覧できる', async () => {
+      const { canViewArea } = await import('@/lib/privacy')
+
+      expect(canViewArea('everyone', stranger)).toBe(true)
+    })
+
+    it('フォロワーのみに公開されている場合、フォロワーだけが閲覧できる', async () => {
+      const { canViewArea } = await import('@/lib/privacy')
+
+      expect(canViewArea('followers', stranger)).toBe(false)
+      expect(canViewArea('followers', follower)).toBe(true)
+    })
+
+    it('自分のみの場合、本人だけが閲覧できる', async () => {
+      const { canViewArea } = await import('@/lib/privacy')
+
+      expect(canViewArea('only_me', follower)).toBe(false)
+      expect(canViewArea('only_me', owner)).toBe(true)
+    })
+
+    it('未知の公開範囲は自分のみとして扱う', async () => {
+      const { canViewArea } = await import('@/lib/privacy')
+
+      expect(canViewArea('unknown', follower)).toBe(false)
+    })
+  })
+
+  // ============================================================
+  // canSendMessage
+  // ============================================================
+
+  describe('canSendMessage', () => {
+    const stranger = { isOwner: false, isFollower: false, isFollowedBy: false }
+    const follower = { isOwner: false, isFollower: true, isFollowedBy: false }
+    const mutual = { isOwner: false, isFollower: true, isFollowedBy: true }
+
+    it('設定ごとにメッセージを送れる相手を判定する', async () => {
+      const { canSendMessage } = await import('@/lib/privacy')
+
+      expect(canSendMessage('everyone', stranger)).toBe(true)
+      expect(canSendMessage('followers', stranger)).toBe(false)
+      expect(canSendMessage('followers', follower)).toBe(true)
+      expect(canSendMessage('mutual', follower)).toBe(false)
+      expect(canSendMessage('mutual', mutual)).toBe(true)
+      expect(canSendMessage('nobody', mutual)).toBe(false)
+    })
+  })
+
+  // ============================================================
+  // isPostAudience
+  // ============================================================
+
+  describe('isPostAudience', () => {
+    it('投稿の公開範囲の選択肢だけを受け付ける', async () => {
+      const { isPostAudience } = await import('@/lib/privacy')
+
+      expect(isPostAudience('public')).toBe(true)
+      expect(isPostAudience('mutuals')).toBe(true)
+      expect(isPostAudience('everyone')).toBe(false)
+      expect(isPostAudience(null)).toBe(false)
+    })
+  })
+
+  // ============================================================
+  // canViewPost
+  // ============================================================
+
+  describe('canViewPost', () => {
+    const stranger = { isOwner: false, isFollower: false, isFollowedBy: false }
+    const follower = { isOwner: false, isFollower: true, isFollowedBy: false }
+    const mutual = { isOwner: false, isFollower: true, isFollowedBy: true }
+    const owner = { isOwner: true, isFollower: false, isFollowedBy: false }
+
+    it('公開範囲ごとに投稿を閲覧できる相手を判定する', async () => {
+      const { canViewPost } = await import('@/lib/privacy')
+
+      expect(canViewPost('public', stranger)).toBe(true)
+      expect(canViewPost('followers', stranger)).toBe(false)
+      expect(canViewPost('followers', follower)).toBe(true)
+      expect(canViewPost('mutuals', follower)).toBe(false)
+      expect(canViewPost('mutuals', mutual)).toBe(true)
+      expect(canViewPost('private', mutual)).toBe(false)
+      expect(canViewPost('private', owner)).toBe(true)
+    })
+
+    it('親しい友達限定の投稿は、リストに含まれているユーザーだけが閲覧できる', async () => {
+      const { canViewPost } = await import('@/lib/privacy')
+
+      expect(canViewPost('close_friends', mutual)).toBe(false)
+      expect(canViewPost('close_friends', { ...stranger, isCloseFriend: true })).toBe(true)
+    })
+
+    it('未知の公開範囲は自分のみとして扱う', async () => {
+      const { canViewPost } = await import('@/lib/privacy')
+
+      expect(canViewPost('unknown', mutual)).toBe(false)
+    })
+  })
+
+  // ============================================================
+  // buildVisiblePostWhere
+  // ============================================================
+
+  describe('buildVisiblePostWhere', () => {
+    it('未ログインの場合、全体公開の投稿に絞り込む', async () => {
+      const { buildVisiblePostWhere } = await import('@/lib/privacy')
+
+      expect(buildVisiblePostWhere(undefined)).toEqual({ audience: 'public' })
+    })
+
+    it('ログイン中の場合、全体公開・本人・フォロー関係に応じた限定公開の投稿に絞り込む', async () => {
+      const { buildVisiblePostWhere } = await import('@/lib/privacy')
+
+      expect(buildVisiblePostWhere('viewer-id')).toEqual({
+        OR: [
+          { audience: 'public' },
+          { userId: 'viewer-id' },
+          { audience: 'followers', user: { followers: { some: { followerId: 'viewer-id' } } } },
+          {
+            audience: 'mutuals',
+            user: {
+              followers: { some: { followerId: 'viewer-id' } },
+              following: { some: { followingId: 'viewer-id' } },
+            },
+          },
+          { audience: 'close_friends', user: { closeFriends: { some: { friendId: 'viewer-id' } } } },
+        ],
+      })
+    })
+  })
+
+  // ============================================================
+  // buildVisibleUserWhere
+  // ============================================================
+
+  describe('buildVisibleUserWhere', () => {
+    it('未ログインの場合、全員に公開しているユーザーに絞り込む', async () => {
+      const { buildVisibleUserWhere } = await import('@/lib/privacy')
+
+      expect(buildVisibleUserWhere('bonsaiVisibility', undefined)).toEqual({ bonsaiVisibility: 'everyone' })
+    })
+
+    it('ログイン中の場合、本人・全員に公開・フォロー中のフォロワー限定公開のユーザーに絞り込む', async () => {
+      const { buildVisibleUserWhere } = await import('@/lib/privacy')
+
+      expect(buildVisibleUserWhere('bonsaiVisibility', 'viewer-id')).toEqual({
+        OR: [
+          { id: 'viewer-id' },
+          { bonsaiVisibility: 'everyone' },
+          { bonsaiVisibility: 'followers', followers: { some: { followerId: 'viewer-id' } } },
+        ],
+      })
+    })
+  })
+
+  // ============================================================
+  // canViewUserArea
+  // ============================================================
+
+  describe('canViewUserArea', () => {
+    it('ユーザーが存在しない場合、閲覧できない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(null)
+      const { canViewUserArea } = await import('@/lib/privacy')
+
+      const result = await canViewUserArea('owner-id', 'likesVisibility', 'viewer-id')
+
+      expect(result).toBe(false)
+    })
+
+    it('ユーザーの項目の公開範囲で判定する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        bonsaiVisibility: 'only_me',
+        likesVisibility: 'everyone',
+        followsVisibility: 'everyone',
+        locationVisibility: 'everyone',
+      })
+      const { canViewUserArea } = await import('@/lib/privacy')
+
+      const result = await canViewUserArea('owner-id', 'bonsaiVisibility', undefined)
+
+      expect(result).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * リアルタイムイベント配信のテスト
+ *
+ * @jest-environment node
+ */
+
+// loggerのモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+describe('realtime', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    jest.resetModules()
+    process.env = { ...originalEnv }
+    delete process.env.UPSTASH_REDIS_REST_URL
+    delete process.env.UPSTASH_REDIS_REST_TOKEN
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('publishConversationEvent / getConversationEventsSince', () => {
+    it('配信したイベントを連番付きで取得できる', async () => {
+      const { publishConversationEvent, getConversationEventsSince } = await import('@/lib/realtime')
+
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'テスト' })
+      await publishConversationEvent('conv-1', { type: 'read', userId: 'user-2', lastReadAt: '2024-01-01T00:00:00.000Z' })
+
+      const result = await getConversationEventsSince('conv-1', 0)
+
+      expect(result.lastSeq).toBe(2)
+      expect(result.events).toEqual([
+        { seq: 1, event: { type: 'typing', userId: 'user-1', nickname: 'テスト' } },
+        { seq: 2, event: { type: 'read', userId: 'user-2', lastReadAt: '2024-01-01T00:00:00.000Z' } },
+      ])
+    })
+
+    it('指定した連番より後のイベントのみ返す', async () => {
+      const { publishConversationEvent, getConversationEventsSince } = await import('@/lib/realtime')
+
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'A' })
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'B' })
+
+      const result = await getConversationEventsSince('conv-1', 1)
+
+      expect(result.events).toHaveLength(1)
+      expect(result.events[0].seq).toBe(2)
+    })
+
+    it('新着がない場合は空配列を返す', async () => {
+      const { publishConversationEvent, getConversationEventsSince } = await import('@/lib/realtime')
+
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'A' })
+
+      const result = await getConversationEventsSince('conv-1', 1)
+
+      expect(result).toEqual({ events: [], lastSeq: 1 })
+    })
+
+    it('会話ごとにイベントが分離される', async () => {
+      const { publishConversationEvent, getConversationEventsSince } = await import('@/lib/realtime')
+
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'A' })
+
+      const result = await getConversationEventsSince('conv-2', 0)
+
+      expect(result).toEqual({ events: [], lastSeq: 0 })
+    })
+
+    it('カウンターがリセットされた場合は先頭から読み直す', async () => {
+      const { publishConversationEvent, getConversationEventsSince } = await import('@/lib/realtime')
+
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'A' })
+
+      const result = await getConversationEventsSince('conv-1', 10)
+
+      expect(result.events).toHaveLength(1)
+      expect(result.lastSeq).toBe(1)
+    })
+
+    it('本体が保存中の連番があれば、その手前で止めて次回読み直す', async () => {
+      const { getRedisClient } = await import('@/lib/redis')
+      const { publishConversationEvent, getConversationEventsSince } = await import('@/lib/realtime')
+
+      // 連番1を発行したが本体はまだ保存していない状態
+      await getRedisClient().incr('realtime:conv:conv-1:seq')
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'B' })
+
+      expect(await getConversationEventsSince('conv-1', 0)).toEqual({ events: [], lastSeq: 0 })
+
+      await getRedisClient().set(
+        'realtime:conv:conv-1:event:1',
+        JSON.stringify({ publishedAt: Date.now(), event: { type: 'typing', userId: 'user-1', nickname: 'A' } })
+      )
+      const result = await getConversationEventsSince('conv-1', 0)
+
+      expect(result.lastSeq).toBe(2)
+      expect(result.events.map((e) => e.seq)).toEqual([1, 2])
+    })
+
+    it('後の連番のイベントが十分古ければ、本体のない連番はスキップする', async () => {
+      const { getRedisClient } = await import('@/lib/redis')
+      const { publishConversationEvent, getConversationEventsSince } = await import('@/lib/realtime')
+      const now = Date.now()
+      const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(now)
+
+      // 連番1の本体の保存に失敗した状態
+      await getRedisClient().incr('realtime:conv:conv-1:seq')
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'B' })
+
+      dateNowSpy.mockReturnValue(now + 6 * 1000)
+      const result = await getConversationEventsSince('conv-1', 0)
+      dateNowSpy.mockRestore()
+
+      expect(result.lastSeq).toBe(2)
+      expect(result.events.map((e) => e.seq)).toEqual([2])
+    })
+  })
+
+  describe('getLatestConversationSequence', () => {
+    it('イベントがない場合は0を返す', async () => {
+      const { getLatestConversationSequence } = await import('@/lib/realtime')
+
+      expect(await getLatestConversationSequence('conv-1')).toBe(0)
+    })
+
+    it('最新の連番を返す', async () => {
+      const { publishConversationEvent, getLatestConversationSequence } = await import('@/lib/realtime')
+
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'A' })
+      await publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'A' })
+
+      expect(await getLatestConversationSequence('conv-1')).toBe(2)
+    })
+  })
+
+  describe('エラー処理', () => {
+    it('配信に失敗しても例外を投げない', async () => {
+      jest.doMock('@/lib/redis', () => ({
+        getRedisClient: () => ({
+          incr: jest.fn().mockRejectedValue(new Error('connection error')),
+        }),
+      }))
+      const { publishConversationEvent } = await import('@/lib/realtime')
+
+      await expect(
+        publishConversationEvent('conv-1', { type: 'typing', userId: 'user-1', nickname: 'A' })
+      ).resolves.toBeUndefined()
+    })
+  })
+})
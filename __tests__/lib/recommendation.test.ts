@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+import {
+  buildGenreAffinity,
+  engagementScore,
+  freshnessFactor,
+  genreScore,
+  rankForYouCandidates,
+  regionScore,
+  scoreForYouCandidate,
+  type ForYouCandidate,
+  type ForYouViewer,
+} from '@/lib/recommendation'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+/**
+ * 投稿のフィクスチャを作成
+ */
+function candidate(overrides: Partial<ForYouCandidate> = {}): ForYouCandidate {
+  return {
+    id: 'post-1',
+    createdAt: now,
+    likeCount: 0,
+    commentCount: 0,
+    quoteCount: 0,
+    genreIds: [],
+    authorLocation: null,
+    ...overrides,
+  }
+}
+
+const viewer: ForYouViewer = {
+  genreAffinity: new Map([['kuromatsu', 1], ['momiji', 0.5]]),
+  location: '東京都世田谷区',
+}
+
+describe('Recommendation', () => {
+  // ============================================================
+  // buildGenreAffinity
+  // ============================================================
+
+  describe('buildGenreAffinity', () => {
+    it('最も多いジャンルを1として正規化する', () => {
+      const affinity = buildGenreAffinity(['kuromatsu', 'kuromatsu', 'kuromatsu', 'kuromatsu', 'momiji', 'momiji'])
+
+      expect(affinity.get('kuromatsu')).toBe(1)
+      expect(affinity.get('momiji')).toBe(0.5)
+    })
+
+    it('履歴がない場合は空になる', () => {
+      expect(buildGenreAffinity([]).size).toBe(0)
+    })
+  })
+
+  // ============================================================
+  // スコアの要素
+  // ============================================================
+
+  describe('engagementScore', () => {
+    it('コメント・引用をいいねより重く数える', () => {
+      expect(engagementScore(candidate({ likeCount: 3 }))).toBeCloseTo(Math.log1p(3))
+      expect(engagementScore(candidate({ commentCount: 1, quoteCount: 1 }))).toBeCloseTo(Math.log1p(5))
+    })
+  })
+
+  describe('genreScore', () => {
+    it('投稿のジャンルのうち最も好みの高いものを採用する', () => {
+      expect(genreScore(candidate({ genreIds: ['momiji', 'kuromatsu'] }), viewer)).toBe(1)
+      expect(genreScore(candidate({ genreIds: ['momiji'] }), viewer)).toBe(0.5)
+      expect(genreScore(candidate({ genreIds: ['satsuki'] }), viewer)).toBe(0)
+    })
+  })
+
+  describe('regionScore', () => {
+    it('同じ都道府県は1、同じ地方は0.5、それ以外は0', () => {
+      expect(regionScore(candidate({ authorLocation: '東京都八王子市' }), viewer)).toBe(1)
+      expect(regionScore(candidate({ authorLocation: '埼玉県' }), viewer)).toBe(0.5)
+      expect(regionScore(candidate({ authorLocation: '大阪府' }), viewer)).toBe(0)
+    })
+
+    it('居住地域が不明な場合は0', () => {
+      expect(regionScore(candidate({ authorLocation: null }), viewer)).toBe(0)
+      expect(regionScore(candidate({ authorLocation: '東京都' }), { ...viewer, location: null })).toBe(0)
+      expect(regionScore(candidate({ authorLocation: '海外' }), viewer)).toBe(0)
+    })
+  })
+
+  describe('freshnessFactor', () => {
+    it('24時間ごとに半分になる', () => {
+      expect(freshnessFactor(candidate(), now)).toBe(1)
+      expect(freshnessFactor(candidate({ createdAt: new Date('2026-10-18T12:00:00Z') }), now)).toBeCloseTo(0.5)
+      expect(freshnessFactor(candidate({ createdAt: new Date('2026-10-17T12:00:00Z') }), now)).toBeCloseTo(0.25)
+    })
+  })
+
+  // ============================================================
+  // scoreForYouCandidate
+  // ============================================================
+
+  describe('scoreForYouCandidate', () => {
+    it('要素の重み付き合計に新しさを掛ける', () => {
+      const post = candidate({
+        createdAt: new Date('2026-10-18T12:00:00Z'),
+        likeCount: 2,
+        genreIds: ['kuromatsu'],
+        authorLocation: '東京都',
+      })
+
+      // (1 + log1p(2) + 2 × 1 + 1 × 1) × 0.5
+      expect(scoreForYouCandidate(post, viewer, now)).toBeCloseTo((4 + Math.log1p(2)) * 0.5)
+    })
+  })
+
+  // ============================================================
+  // rankForYouCandidates
+  // ============================================================
+
+  describe('rankForYouCandidates', () => {
+    it('スコアの高い順に並べる', () => {
+      const fixtures = [
+        candidate({ id: 'plain' }),
+        candidate({ id: 'popular', likeCount: 20 }),
+        candidate({ id: 'favorite-genre', genreIds: ['kuromatsu'] }),
+        candidate({ id: 'old-popular', likeCount: 20, createdAt: new Date('2026-10-14T12:00:00Z') }),
+      ]
+
+      const ranked = rankForYouCandidates(fixtures, viewer, now)
+
+      expect(ranked.map((c) => c.id)).toEqual(['popular', 'favorite-genre', 'plain', 'old-popular'])
+    })
+
+    it('スコアが同じ場合は新しい順、さらに同じ場合はIDの降順で並べる', () => {
+      const fixtures = [
+        candidate({ id: 'a' }),
+        candidate({ id: 'c' }),
+        candidate({ id: 'b' }),
+      ]
+
+      const ranked = rankForYouCandidates(fixtures, { genreAffinity: new Map(), location: null }, now)
+
+      expect(ranked.map((c) => c.id)).toEqual(['c', 'b', 'a'])
+    })
+
+    it('並べ替えた投稿にスコアを付ける', () => {
+      const [ranked] = rankForYouCandidates([candidate({ id: 'a', likeCount: 5 })], viewer, now)
+
+      expect(ranked.score).toBe(scoreForYouCandidate(candidate({ id: 'a', likeCount: 5 }), viewer, now))
+    })
+
+    it('元の配列を変更しない', () => {
+      const fixtures = [candidate({ id: 'a' }), candidate({ id: 'b', likeCount: 5 })]
+
+      rankForYouCandidates(fixtures, viewer, now)
+
+      expect(fixtures.map((c) => c.id)).toEqual(['a', 'b'])
+    })
+  })
+})
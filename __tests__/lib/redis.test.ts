@@ -8,6 +8,7 @@
 const mockRedisGet = jest.fn()
 const mockRedisSet = jest.fn()
 const mockRedisDel = jest.fn()
+const mockRedisGetdel = jest.fn()
 const mockRedisIncr = jest.fn()
 const mockRedisExpire = jest.fn()
 const mockRedisTtl = jest.fn()
@@ -17,6 +18,7 @@ jest.mock('@upstash/redis', () => ({
     get: mockRedisGet,
     set: mockRedisSet,
     del: mockRedisDel,
+    getdel: mockRedisGetdel,
     incr: mockRedisIncr,
     expire: mockRedisExpire,
     ttl: mockRedisTtl,
@@ -131,6 +133,20 @@ describe('redis', () => {
       })
     })
 
+    describe('getdel', () => {
+      it('値を取得して削除する（2回目はnull）', async () => {
+        const { getRedisClient } = await import('@/lib/redis')
+        const client = getRedisClient()
+
+        await client.set('getdel-key', 'value', { ex: 60 })
+        const [first, second] = await Promise.all([client.getdel('getdel-key'), client.getdel('getdel-key')])
+
+        expect(first).toBe('value')
+        expect(second).toBeNull()
+        expect(await client.get('getdel-key')).toBeNull()
+      })
+    })
+
     describe('incr', () => {
       it('存在しないキーは0から開始して1を返す', async () => {
         const { getRedisClient } = await import('@/lib/redis')
@@ -320,6 +336,20 @@ describe('redis', () => {
       })
     })
 
+    describe('getdel', () => {
+      it('Redis.getdelを呼び出す', async () => {
+        mockRedisGetdel.mockResolvedValueOnce('redis-value')
+
+        const { getRedisClient } = await import('@/lib/redis')
+        const client = getRedisClient()
+
+        const result = await client.getdel('redis-key')
+
+        expect(result).toBe('redis-value')
+        expect(mockRedisGetdel).toHaveBeenCalledWith('redis-key')
+      })
+    })
+
     describe('incr', () => {
       it('Redis.incrを呼び出す', async () => {
         mockRedisIncr.mockResolvedValueOnce(5)
@@ -0,0 +1,218 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// 全文検索モック
+const mockFulltextSearchPosts = jest.fn()
+jest.mock('@/lib/search/fulltext', () => ({
+  fulltextSearchPosts: (...args: unknown[]) => mockFulltextSearchPosts(...args),
+}))
+
+// フィルターヘルパーモック
+const mockGetExcludedUserIds = jest.fn()
+jest.mock('@/lib/actions/filter-helper', () => ({
+  getExcludedUserIds: () => mockGetExcludedUserIds(),
+}))
+
+// メールモック
+const mockSendSavedSearchDigestEmail = jest.fn()
+jest.mock('@/lib/email', () => ({
+  sendSavedSearchDigestEmail: (...args: unknown[]) => mockSendSavedSearchDigestEmail(...args),
+}))
+
+const now = new Date('2026-11-15T12:00:00Z')
+const lastCheckedAt = new Date('2026-11-15T11:45:00Z')
+
+describe('Saved Search', () => {
+  const search = {
+    id: 'search-1',
+    userId: 'user-1',
+    query: '五葉松',
+    genreIds: ['g1'],
+    hashtag: '譲ります',
+    notifyMode: 'instant',
+    lastCheckedAt,
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetExcludedUserIds.mockResolvedValue(['blocked-user'])
+  })
+
+  // ============================================================
+  // findNewSavedSearchMatches
+  // ============================================================
+
+  describe('findNewSavedSearchMatches', () => {
+    it('前回の判定より後の投稿を、自分と除外ユーザーを除いて検索する', async () => {
+      mockFulltextSearchPosts.mockResolvedValueOnce(['post-1'])
+
+      const { findNewSavedSearchMatches, SAVED_SEARCH_MATCH_LIMIT } = await import('@/lib/saved-search')
+      const result = await findNewSavedSearchMatches(search, now)
+
+      expect(result).toEqual(['post-1'])
+      expect(mockFulltextSearchPosts).toHaveBeenCalledWith('五葉松', {
+        excludedUserIds: ['blocked-user', 'user-1'],
+        viewerId: 'user-1',
+        genreIds: ['g1'],
+        hashtag: '譲ります',
+        createdAfter: lastCheckedAt,
+        createdBefore: now,
+        limit: SAVED_SEARCH_MATCH_LIMIT,
+      })
+    })
+  })
+
+  // ============================================================
+  // notifySavedSearchMatches
+  // ============================================================
+
+  describe('notifySavedSearchMatches', () => {
+    it('新着があった検索ごとに最新の投稿の通知を作成する', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValueOnce([
+        search,
+        { ...search, id: 'search-2', query: '真柏' },
+      ])
+      mockFulltextSearchPosts
+        .mockResolvedValueOnce(['post-1', 'post-2'])
+        .mockResolvedValueOnce([])
+      mockPrisma.post.findFirst.mockResolvedValueOnce({ id: 'post-2', userId: 'author-1' })
+
+      const { notifySavedSearchMatches } = await import('@/lib/saved-search')
+      const result = await notifySavedSearchMatches(now)
+
+      expect(result).toEqual({ checkedCount: 2, notifiedCount: 1 })
+      expect(mockPrisma.post.findFirst).toHaveBeenCalledWith({
+        where: { id: { in: ['post-1', 'post-2'] } },
+        select: { id: true, userId: true },
+        orderBy: { createdAt: 'desc' },
+      })
+      expect(mockPrisma.notification.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user-1',
+            actorId: 'author-1',
+            type: 'saved_search',
+            postId: 'post-2',
+            savedSearchId: 'search-1',
+          },
+        ],
+      })
+      expect(mockPrisma.savedSearch.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['search-1', 'search-2'] } },
+        data: { lastCheckedAt: now },
+      })
+    })
+
+    it('すぐに通知の検索のみを対象にする', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValueOnce([])
+
+      const { notifySavedSearchMatches } = await import('@/lib/saved-search')
+      const result = await notifySavedSearchMatches(now)
+
+      expect(result).toEqual({ checkedCount: 0, notifiedCount: 0 })
+      expect(mockPrisma.savedSearch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            notifyMode: 'instant',
+            lastCheckedAt: { lt: now },
+            user: { isSuspended: false, deactivatedAt: null },
+          },
+        })
+      )
+      expect(mockPrisma.savedSearch.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('新着がない場合は通知を作成せず判定日時のみ更新する', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValueOnce([search])
+      mockFulltextSearchPosts.mockResolvedValueOnce([])
+
+      const { notifySavedSearchMatches } = await import('@/lib/saved-search')
+      const result = await notifySavedSearchMatches(now)
+
+      expect(result).toEqual({ checkedCount: 1, notifiedCount: 0 })
+      expect(mockPrisma.notification.createMany).not.toHaveBeenCalled()
+      expect(mockPrisma.savedSearch.updateMany).toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // sendSavedSearchDigests
+  // ============================================================
+
+  describe('sendSavedSearchDigests', () => {
+    const user = { email: 'user@example.com', nickname: '盆栽太郎' }
+
+    it('新着があった検索をユーザーごとに1通のメールにまとめる', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValueOnce([
+        { ...search, notifyMode: 'daily', user },
+        { ...search, id: 'search-2', query: '', genreIds: [], hashtag: '盆栽', notifyMode: 'daily', user },
+      ])
+      mockPrisma.genre.findMany.mockResolvedValueOnce([{ id: 'g1', name: '松柏類' }])
+      mockFulltextSearchPosts
+        .mockResolvedValueOnce(['post-1'])
+        .mockResolvedValueOnce(Array.from({ length: 20 }, (_, i) => `post-${i + 10}`))
+      mockPrisma.post.findMany
+        .mockResolvedValueOnce([{ id: 'post-1', content: '五葉松を\n譲ります', user: { nickname: '作者1' } }])
+        .mockResolvedValueOnce([{ id: 'post-10', content: null, user: { nickname: '作者2' } }])
+      mockSendSavedSearchDigestEmail.mockResolvedValueOnce({ success: true })
+
+      const { sendSavedSearchDigests } = await import('@/lib/saved-search')
+      const result = await sendSavedSearchDigests(now)
+
+      expect(result).toEqual({ checkedCount: 2, emailsSent: 1, emailsFailed: 0 })
+      expect(mockSendSavedSearchDigestEmail).toHaveBeenCalledTimes(1)
+      expect(mockSendSavedSearchDigestEmail).toHaveBeenCalledWith('user@example.com', '盆栽太郎', [
+        {
+          label: '五葉松 #譲ります（松柏類）',
+          path: expect.stringContaining('/search?'),
+          count: 1,
+          hasMore: false,
+          posts: [{ id: 'post-1', authorName: '作者1', excerpt: '五葉松を 譲ります' }],
+        },
+        {
+          label: '#盆栽',
+          path: expect.stringContaining('tab=tags'),
+          count: 20,
+          hasMore: true,
+          posts: [{ id: 'post-10', authorName: '作者2', excerpt: '（画像のみの投稿）' }],
+        },
+      ])
+      expect(mockPrisma.savedSearch.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['search-1', 'search-2'] } },
+        data: { lastCheckedAt: now },
+      })
+    })
+
+    it('新着がない場合はメールを送らない', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValueOnce([{ ...search, genreIds: [], notifyMode: 'daily', user }])
+      mockFulltextSearchPosts.mockResolvedValueOnce([])
+
+      const { sendSavedSearchDigests } = await import('@/lib/saved-search')
+      const result = await sendSavedSearchDigests(now)
+
+      expect(result).toEqual({ checkedCount: 1, emailsSent: 0, emailsFailed: 0 })
+      expect(mockSendSavedSearchDigestEmail).not.toHaveBeenCalled()
+      expect(mockPrisma.savedSearch.updateMany).toHaveBeenCalled()
+    })
+
+    it('送信に失敗したメールを数える', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValueOnce([{ ...search, genreIds: [], notifyMode: 'daily', user }])
+      mockFulltextSearchPosts.mockResolvedValueOnce(['post-1'])
+      mockPrisma.post.findMany.mockResolvedValueOnce([{ id: 'post-1', content: '五葉松', user: { nickname: '作者1' } }])
+      mockSendSavedSearchDigestEmail.mockRejectedValueOnce(new Error('SMTP error'))
+
+      const { sendSavedSearchDigests } = await import('@/lib/saved-search')
+      const result = await sendSavedSearchDigests(now)
+
+      expect(result).toEqual({ checkedCount: 1, emailsSent: 0, emailsFailed: 1 })
+    })
+  })
+})
@@ -257,6 +257,177 @@ describe('Fulltext Search Module', () => {
       // SQL実行時にエラーが発生しないことを確認
       expect(mockQueryRaw).toHaveBeenCalled()
     })
+
+    it('閲覧者を指定しない場合、全体公開の投稿のみ検索する', async () => {
+      mockQueryRaw.mockResolvedValueOnce([])
+
+      const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+      await fulltextSearchPosts('盆栽')
+
+      // タグ付きテンプレートに埋め込まれた公開範囲の条件を取り出す
+      const condition = mockQueryRaw.mock.calls[0].find(
+        (value: unknown) => String((value as { sql?: unknown })?.sql ?? '').includes('audience')
+      )
+      expect(condition.sql).toContain("p.audience = 'public'")
+      expect(condition.sql).not.toContain('follows')
+    })
+
+    it('閲覧者を指定した場合、フォロー関係に応じた限定公開の投稿も検索する', async () => {
+      mockQueryRaw.mockResolvedValueOnce([])
+
+      const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+      await fulltextSearchPosts('盆栽', { viewerId: 'viewer-id' })
+
+      const condition = mockQueryRaw.mock.calls[0].find(
+        (value: unknown) => String((value as { sql?: unknown })?.sql ?? '').includes('audience')
+      )
+      expect(condition.sql).toContain("p.audience = 'mutuals'")
+      expect(condition.sql).toContain("p.audience = 'close_friends'")
+      expect(condition.values).toContain('viewer-id')
+    })
+
+    it('ハッシュタグを指定した場合はキーワードが空でも検索する', async () => {
+      process.env.SEARCH_MODE = 'like'
+      mockQueryRaw.mockResolvedValueOnce([{ id: 'post-1' }])
+
+      const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+      const result = await fulltextSearchPosts('', { hashtag: 'Bonsai' })
+
+      expect(result).toEqual(['post-1'])
+      const condition = mockQueryRaw.mock.calls[0].find(
+        (value: unknown) => String((value as { sql?: unknown })?.sql ?? '').includes('post_hashtags')
+      )
+      expect(condition.values).toContain('bonsai')
+    })
+
+    it('投稿日時の範囲を指定できる', async () => {
+      process.env.SEARCH_MODE = 'bigm'
+      mockQueryRaw.mockResolvedValueOnce([])
+      const createdAfter = new Date('2026-11-15T11:45:00Z')
+      const createdBefore = new Date('2026-11-15T12:00:00Z')
+
+      const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+      await fulltextSearchPosts('盆栽', { createdAfter, createdBefore })
+
+      const condition = mockQueryRaw.mock.calls[0].find(
+        (value: unknown) => String((value as { sql?: unknown })?.sql ?? '').includes('p.created_at >')
+      )
+      expect(condition.sql).toContain('p.created_at <=')
+      expect(condition.values).toEqual([createdAfter, createdBefore])
+    })
+
+    describe('検索演算子', () => {
+      /**
+       * タグ付きテンプレートに埋め込まれたSQL断片から、指定した文字列を含むものを取り出す
+       */
+      const findFragment = (text: string) =>
+        mockQueryRaw.mock.calls[0].find(
+          (value: unknown) => String((value as { sql?: unknown })?.sql ?? '').includes(text)
+        )
+
+      it.each([
+        ['bigm', "p.content LIKE '%'", "NOT LIKE '%'"],
+        ['trgm', 'p.content %', "NOT ILIKE '%'"],
+        ['like', "p.content ILIKE '%'", "NOT ILIKE '%'"],
+      ])('%sモードでキーワード・フレーズ・除外キーワードを条件にする', async (mode, termSql, excludeSql) => {
+        process.env.SEARCH_MODE = mode
+        mockQueryRaw.mockResolvedValueOnce([])
+
+        const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+        await fulltextSearchPosts('黒松 剪定 "寒樹 黒松" -販売')
+
+        const keywords = findFragment('p.content')
+        expect(keywords.sql).toContain(termSql)
+        expect(keywords.sql).toContain(excludeSql)
+        expect(keywords.values).toEqual(expect.arrayContaining(['黒松', '剪定', '寒樹 黒松', '販売']))
+      })
+
+      it('バインド値はクォートをエスケープせず、LIKEのワイルドカードをエスケープする', async () => {
+        process.env.SEARCH_MODE = 'like'
+        mockQueryRaw.mockResolvedValueOnce([])
+
+        const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+        await fulltextSearchPosts('"rock\'n roll" 100% -my_tree')
+
+        const keywords = findFragment('p.content')
+        expect(keywords.values).toEqual(expect.arrayContaining(["rock'n roll", '100\\%', 'my\\_tree']))
+      })
+
+      it('trgmモードではキーワードとフレーズの類似度で並べ替える', async () => {
+        process.env.SEARCH_MODE = 'trgm'
+        mockQueryRaw.mockResolvedValueOnce([])
+
+        const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+        await fulltextSearchPosts('黒松 from:@太郎')
+
+        const order = findFragment('ORDER BY')
+        expect(order.sql).toContain('similarity')
+        expect(order.values).toEqual(['黒松'])
+      })
+
+      it('キーワードがなくても絞り込み条件があれば検索する', async () => {
+        process.env.SEARCH_MODE = 'trgm'
+        mockQueryRaw.mockResolvedValueOnce([{ id: 'post-1' }])
+
+        const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+        const result = await fulltextSearchPosts('from:@太郎')
+
+        expect(result).toEqual(['post-1'])
+        expect(findFragment('ORDER BY').sql).not.toContain('similarity')
+      })
+
+      it('除外キーワードのみの場合は空配列を返す', async () => {
+        const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+        const result = await fulltextSearchPosts('-販売')
+
+        expect(result).toEqual([])
+        expect(mockQueryRaw).not.toHaveBeenCalled()
+      })
+
+      it('絞り込み条件をSQLの条件にする', async () => {
+        process.env.SEARCH_MODE = 'bigm'
+        mockQueryRaw.mockResolvedValueOnce([])
+
+        const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+        await fulltextSearchPosts(
+          '黒松 from:@太郎 since:2026-01-01 until:2026-01-31 has:image min_likes:10 pref:東京 species:黒松'
+        )
+
+        const filters = findFragment('lower(u.nickname)')
+        expect(filters.sql).toContain('p.created_at >=')
+        expect(filters.sql).toContain('p.created_at <')
+        expect(filters.sql).toContain('post_media')
+        expect(filters.sql).toContain('FROM likes')
+        expect(filters.sql).toContain("u.location_visibility = 'everyone'")
+        expect(filters.sql).toContain('bonsai_species')
+        expect(filters.values).toEqual(
+          expect.arrayContaining([
+            '太郎',
+            new Date('2026-01-01T00:00:00+09:00'),
+            new Date('2026-02-01T00:00:00+09:00'),
+            'image',
+            10,
+            '東京都',
+            '黒松',
+          ])
+        )
+      })
+
+      it('LIKE検索へのフォールバックでも演算子を条件にする', async () => {
+        process.env.SEARCH_MODE = 'bigm'
+        mockQueryRaw.mockRejectedValueOnce(new Error('Extension not found'))
+        mockQueryRaw.mockResolvedValueOnce([])
+
+        const { fulltextSearchPosts } = await import('@/lib/search/fulltext')
+        await fulltextSearchPosts('黒松 has:video')
+
+        const fallbackFragments = mockQueryRaw.mock.calls[1].map((value: unknown) =>
+          String((value as { sql?: unknown })?.sql ?? '')
+        )
+        expect(fallbackFragments.some((sql: string) => sql.includes("p.content ILIKE '%'"))).toBe(true)
+        expect(fallbackFragments.some((sql: string) => sql.includes('post_media'))).toBe(true)
+      })
+    })
   })
 
   describe('fulltextSearchUsers', () => {
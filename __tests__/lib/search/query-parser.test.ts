@@ -0,0 +1,157 @@
+/**
+ * 投稿検索クエリの解析（query-parser.ts）のテスト
+ *
+ * @jest-environment node
+ */
+
+import {
+  parseSearchQuery,
+  hasSearchKeywords,
+  hasSearchFilters,
+  isPlainKeywordQuery,
+} from '@/lib/search/query-parser'
+
+describe('Search Query Parser', () => {
+  // ============================================================
+  // キーワード・フレーズ・除外
+  // ============================================================
+
+  describe('parseSearchQuery - キーワード', () => {
+    it('空白区切りのキーワードに分割する', () => {
+      const parsed = parseSearchQuery('黒松　剪定  #盆栽')
+
+      expect(parsed.terms).toEqual(['黒松', '剪定', '#盆栽'])
+      expect(parsed.phrases).toEqual([])
+    })
+
+    it('引用符で囲んだフレーズは空白を含めてそのまま扱う', () => {
+      const parsed = parseSearchQuery('"寒樹 黒松" 剪定 “五葉松 譲ります”')
+
+      expect(parsed.phrases).toEqual(['寒樹 黒松', '五葉松 譲ります'])
+      expect(parsed.terms).toEqual(['剪定'])
+    })
+
+    it('閉じ引用符がない場合は末尾までをフレーズにする', () => {
+      expect(parseSearchQuery('"寒樹 黒松').phrases).toEqual(['寒樹 黒松'])
+    })
+
+    it('先頭に - を付けたキーワード・フレーズを除外する', () => {
+      const parsed = parseSearchQuery('黒松 -販売 -"苗木 販売"')
+
+      expect(parsed.terms).toEqual(['黒松'])
+      expect(parsed.excludedTerms).toEqual(['販売', '苗木 販売'])
+    })
+  })
+
+  // ============================================================
+  // 演算子
+  // ============================================================
+
+  describe('parseSearchQuery - 演算子', () => {
+    it('from: で投稿者のニックネームを指定できる', () => {
+      expect(parseSearchQuery('from:@盆栽太郎 黒松').fromNickname).toBe('盆栽太郎')
+      expect(parseSearchQuery('from:"盆栽 太郎"').fromNickname).toBe('盆栽 太郎')
+    })
+
+    it('since: / until: を日本時間の日付の範囲として扱う（until: はその日を含む）', () => {
+      const parsed = parseSearchQuery('since:2026-01-01 until:2026/3/31')
+
+      expect(parsed.since).toEqual(new Date('2026-01-01T00:00:00+09:00'))
+      expect(parsed.until).toEqual(new Date('2026-04-01T00:00:00+09:00'))
+    })
+
+    it('has: で画像・動画付きの投稿を指定できる', () => {
+      expect(parseSearchQuery('has:image has:VIDEO has:image').mediaTypes).toEqual(['image', 'video'])
+    })
+
+    it('min_likes: でいいね数の下限を指定できる', () => {
+      expect(parseSearchQuery('min_likes:10').minLikes).toBe(10)
+    })
+
+    it('min_likes: の値が大きすぎる場合はキーワードとして扱う', () => {
+      const parsed = parseSearchQuery('min_likes:99999999999999999999')
+      expect(parsed.minLikes).toBeNull()
+      expect(parsed.terms).toEqual(['min_likes:99999999999999999999'])
+    })
+
+    it('region: は地方名とその地方の都道府県に一致させる', () => {
+      const parsed = parseSearchQuery('region:関東')
+
+      expect(parsed.locations).toEqual(['関東', '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県'])
+    })
+
+    it('region: は地方ブロックの一部の名前も受け付ける', () => {
+      const parsed = parseSearchQuery('region:九州')
+
+      expect(parsed.locations).toEqual(expect.arrayContaining(['九州', '沖縄', '福岡県', '沖縄県']))
+      expect(parsed.locations).not.toContain('九州・沖縄')
+    })
+
+    it('pref: は都府県を省略した名前を正規化する', () => {
+      expect(parseSearchQuery('pref:東京').locations).toEqual(['東京都'])
+      expect(parseSearchQuery('pref:北海道').locations).toEqual(['北海道'])
+      expect(parseSearchQuery('pref:アメリカ').locations).toEqual(['アメリカ'])
+    })
+
+    it('species: で樹種を指定できる', () => {
+      expect(parseSearchQuery('species:黒松 植え替え').species).toBe('黒松')
+    })
+
+    it('同じ演算子は後に指定したものを優先する', () => {
+      expect(parseSearchQuery('from:@太郎 from:@花子').fromNickname).toBe('花子')
+    })
+
+    it('演算子名の大文字小文字を区別しない', () => {
+      expect(parseSearchQuery('FROM:@太郎').fromNickname).toBe('太郎')
+    })
+
+    it('値が正しくない演算子はキーワードとして扱う', () => {
+      const parsed = parseSearchQuery('since:昨日 has:audio min_likes:たくさん until:2026-02-30')
+
+      expect(parsed.terms).toEqual(['since:昨日', 'has:audio', 'min_likes:たくさん', 'until:2026-02-30'])
+      expect(hasSearchFilters(parsed)).toBe(false)
+    })
+
+    it('未知の演算子やURLはキーワードとして扱う', () => {
+      expect(parseSearchQuery('https://example.com lang:ja').terms).toEqual(['https://example.com', 'lang:ja'])
+    })
+
+    it('除外された演算子は除外キーワードとして扱う', () => {
+      const parsed = parseSearchQuery('黒松 -from:@太郎')
+
+      expect(parsed.fromNickname).toBeNull()
+      expect(parsed.excludedTerms).toEqual(['from:@太郎'])
+    })
+  })
+
+  // ============================================================
+  // 判定
+  // ============================================================
+
+  describe('hasSearchKeywords / hasSearchFilters', () => {
+    it('キーワード・フレーズがあればtrue', () => {
+      expect(hasSearchKeywords(parseSearchQuery('黒松'))).toBe(true)
+      expect(hasSearchKeywords(parseSearchQuery('"寒樹 黒松"'))).toBe(true)
+      expect(hasSearchKeywords(parseSearchQuery('-販売 has:image'))).toBe(false)
+    })
+
+    it('除外キーワードは絞り込み条件に含めない', () => {
+      expect(hasSearchFilters(parseSearchQuery('-販売'))).toBe(false)
+      expect(hasSearchFilters(parseSearchQuery('has:image'))).toBe(true)
+    })
+  })
+
+  describe('isPlainKeywordQuery', () => {
+    it('キーワード1つのみの場合はtrue', () => {
+      expect(isPlainKeywordQuery(parseSearchQuery('黒松'))).toBe(true)
+      expect(isPlainKeywordQuery(parseSearchQuery(''))).toBe(true)
+    })
+
+    it('複数のキーワードや演算子を含む場合はfalse', () => {
+      expect(isPlainKeywordQuery(parseSearchQuery('黒松 剪定'))).toBe(false)
+      expect(isPlainKeywordQuery(parseSearchQuery('"寒樹 黒松"'))).toBe(false)
+      expect(isPlainKeywordQuery(parseSearchQuery('黒松 -販売'))).toBe(false)
+      expect(isPlainKeywordQuery(parseSearchQuery('黒松 min_likes:5'))).toBe(false)
+    })
+  })
+})
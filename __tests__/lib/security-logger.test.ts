@@ -1,6 +1,24 @@
 /**
  * @jest-environment node
  */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// after モック（登録された処理をすぐに実行する）
+const mockAfter = jest.fn((task: () => unknown) => task())
+jest.mock('next/server', () => ({
+  after: (task: () => unknown) => mockAfter(task),
+}))
+
+/**
+ * データベースへの保存（非同期）が終わるのを待つ
+ */
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve))
 
 describe('Security Logger Module', () => {
   let consoleLogSpy: jest.SpyInstance
@@ -177,6 +195,90 @@ describe('Security Logger Module', () => {
     })
   })
 
+  describe('logTwoFactorChange', () => {
+    it('2段階認証の無効化を高い重大度で記録する', async () => {
+      const { logTwoFactorChange } = await import('@/lib/security-logger')
+      logTwoFactorChange('user-123', 'disabled')
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/\[SECURITY\].*TWO_FACTOR_CHANGE.*disabled/)
+      )
+    })
+
+    it('2段階認証の有効化を記録する', async () => {
+      const { logTwoFactorChange } = await import('@/lib/security-logger')
+      logTwoFactorChange('user-123', 'enabled')
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/\[SECURITY\].*TWO_FACTOR_CHANGE.*enabled/)
+      )
+    })
+  })
+
+  describe('データベースへの保存', () => {
+    it('イベントをSecurityEventテーブルに保存する', async () => {
+      const { logLoginSuccess } = await import('@/lib/security-logger')
+      logLoginSuccess('user-123', '192.168.1.1', 'Mozilla/5.0')
+      await flushPromises()
+
+      expect(mockPrisma.securityEvent.create).toHaveBeenCalledWith({
+        data: {
+          type: 'LOGIN_SUCCESS',
+          severity: 'low',
+          userId: 'user-123',
+          ip: '192.168.1.1',
+          userAgent: 'Mozilla/5.0',
+          details: undefined,
+          createdAt: expect.any(Date),
+        },
+      })
+    })
+
+    it('保存はレスポンスの送信後に行うよう after に登録する', async () => {
+      mockAfter.mockImplementationOnce(() => undefined)
+
+      const { logLoginSuccess } = await import('@/lib/security-logger')
+      logLoginSuccess('user-123')
+      await flushPromises()
+
+      expect(mockAfter).toHaveBeenCalledWith(expect.any(Function))
+      expect(mockPrisma.securityEvent.create).not.toHaveBeenCalled()
+    })
+
+    it('ログイン失敗は登録済みのメールアドレスからユーザーを特定して保存する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ id: 'user-123' })
+
+      const { logLoginFailure } = await import('@/lib/security-logger')
+      logLoginFailure('testuser@example.com', '192.168.1.1', 'invalid_credentials')
+      await flushPromises()
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({
+        where: { email: 'testuser@example.com' },
+        select: { id: true },
+      })
+      expect(mockPrisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'LOGIN_FAILURE',
+          userId: 'user-123',
+          details: { email: 't******r@example.com', reason: 'invalid_credentials' },
+        }),
+      })
+    })
+
+    it('保存に失敗しても例外を投げない', async () => {
+      mockPrisma.securityEvent.create.mockRejectedValueOnce(new Error('DB error'))
+
+      const { logLoginSuccess } = await import('@/lib/security-logger')
+      expect(() => logLoginSuccess('user-123')).not.toThrow()
+      await flushPromises()
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '[SECURITY] Failed to persist security event:',
+        expect.any(Error)
+      )
+    })
+  })
+
   describe('Email Masking', () => {
     it('短いローカル部（2文字以下）は完全にマスキングする', async () => {
       const { logLoginFailure } = await import('@/lib/security-logger')
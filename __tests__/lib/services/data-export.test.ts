@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+
+// Prismaモック
+jest.mock('@/lib/db', () => ({
+  prisma: {},
+}))
+
+// ストレージモック
+const mockDownloadFile = jest.fn()
+jest.mock('@/lib/storage', () => ({
+  downloadFile: (...args: unknown[]) => mockDownloadFile(...args),
+  getStorageKey: jest.fn(),
+}))
+
+// ZIPモック（格納したファイルを確認する）
+const mockCreateZip = jest.fn()
+jest.mock('@/lib/zip', () => ({
+  createZip: (...args: unknown[]) => mockCreateZip(...args),
+}))
+
+const mediaFile = (n: number) => ({ url: `https://cdn.example.com/${n}.jpg`, file: `media/posts/p/${n}.jpg` })
+
+describe('Data Export Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockCreateZip.mockReturnValue(Buffer.from('zip'))
+  })
+
+  describe('buildDataExportMediaPart', () => {
+    it('続きのメディアを取得し、すべて格納したら取得できなかったメディアの一覧を含める', async () => {
+      mockDownloadFile.mockResolvedValueOnce(Buffer.from('image-2')).mockResolvedValueOnce(null)
+
+      const { buildDataExportMediaPart } = await import('@/lib/services/data-export')
+      const result = await buildDataExportMediaPart({
+        media: [mediaFile(1), mediaFile(2), mediaFile(3)],
+        cursor: 1,
+        missing: [],
+      })
+
+      expect(mockDownloadFile).toHaveBeenCalledTimes(2)
+      expect(result.done).toBe(true)
+      expect(result.progress.cursor).toBe(3)
+      expect(result.progress.missing).toEqual([mediaFile(3)])
+
+      const entries = mockCreateZip.mock.calls[0][0]
+      expect(entries.map((e: { path: string }) => e.path)).toEqual(['media/posts/p/2.jpg', 'missing_media.json'])
+      expect(JSON.parse(entries[1].data)).toEqual([mediaFile(3)])
+    })
+
+    it('合計サイズが上限を超えたら残りを次のパートに回す', async () => {
+      const { buildDataExportMediaPart, DATA_EXPORT_PART_MAX_BYTES } = await import('@/lib/services/data-export')
+      const large = Buffer.alloc(0)
+      Object.defineProperty(large, 'length', { value: DATA_EXPORT_PART_MAX_BYTES })
+      mockDownloadFile.mockResolvedValue(large)
+
+      const media = Array.from({ length: 12 }, (_, i) => mediaFile(i + 1))
+      const result = await buildDataExportMediaPart({ media, cursor: 0, missing: [] })
+
+      // 同時に取得する5件で上限に達する
+      expect(mockDownloadFile).toHaveBeenCalledTimes(5)
+      expect(result.done).toBe(false)
+      expect(result.progress.cursor).toBe(5)
+
+      const entries = mockCreateZip.mock.calls[0][0]
+      expect(entries.some((e: { path: string }) => e.path === 'missing_media.json')).toBe(false)
+    })
+  })
+})
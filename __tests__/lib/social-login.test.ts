@@ -0,0 +1,323 @@
+/**
+ * ソーシャルログイン（social-login.ts）のテスト
+ *
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// Cookieモック
+const mockCookieGet = jest.fn()
+jest.mock('next/headers', () => ({
+  cookies: async () => ({ get: (...args: unknown[]) => mockCookieGet(...args) }),
+}))
+
+// ブラックリストモック
+const mockIsEmailBlacklisted = jest.fn()
+const mockIsDeviceBlacklisted = jest.fn()
+jest.mock('@/lib/actions/blacklist', () => ({
+  isEmailBlacklisted: (...args: unknown[]) => mockIsEmailBlacklisted(...args),
+  isDeviceBlacklisted: (...args: unknown[]) => mockIsDeviceBlacklisted(...args),
+}))
+
+// Auth.js プロバイダーモック
+jest.mock('next-auth/providers/line', () => ({
+  __esModule: true,
+  default: (options: Record<string, unknown>) => ({ id: 'line', ...options }),
+}))
+jest.mock('next-auth/providers/google', () => ({
+  __esModule: true,
+  default: (options: Record<string, unknown>) => ({ id: 'google', ...options }),
+}))
+jest.mock('next-auth/providers/apple', () => ({
+  __esModule: true,
+  default: (options: Record<string, unknown>) => ({ id: 'apple', ...options }),
+}))
+
+const ENV_KEYS = [
+  'AUTH_LINE_ID', 'AUTH_LINE_SECRET',
+  'AUTH_GOOGLE_ID', 'AUTH_GOOGLE_SECRET',
+  'AUTH_APPLE_ID', 'AUTH_APPLE_SECRET',
+  'AUTH_OIDC_ISSUER', 'AUTH_OIDC_ID', 'AUTH_OIDC_SECRET', 'AUTH_OIDC_NAME',
+]
+
+const signInParams = {
+  provider: 'google',
+  providerAccountId: 'google-sub-1',
+  email: 'user@example.com',
+  emailVerified: true,
+  currentUserId: null,
+}
+
+describe('Social Login', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ENV_KEYS.forEach((key) => delete process.env[key])
+    mockCookieGet.mockReturnValue(undefined)
+    mockIsEmailBlacklisted.mockResolvedValue(false)
+    mockIsDeviceBlacklisted.mockResolvedValue(false)
+    mockPrisma.account.findUnique.mockResolvedValue(null)
+    mockPrisma.user.findUnique.mockResolvedValue(null)
+  })
+
+  // ============================================================
+  // プロバイダー設定
+  // ============================================================
+
+  describe('getEnabledSocialProviders', () => {
+    it('環境変数が未設定の場合は空配列を返す', async () => {
+      const { getEnabledSocialProviders } = await import('@/lib/social-login')
+
+      expect(getEnabledSocialProviders()).toEqual([])
+    })
+
+    it('IDとシークレットを設定したプロバイダーだけを返す', async () => {
+      const { getEnabledSocialProviders } = await import('@/lib/social-login')
+
+      process.env.AUTH_LINE_ID = 'line-id'
+      process.env.AUTH_LINE_SECRET = 'line-secret'
+      process.env.AUTH_GOOGLE_ID = 'google-id'
+
+      expect(getEnabledSocialProviders()).toEqual([{ id: 'line', label: 'LINE' }])
+    })
+
+    it('OIDCは表示名を環境変数で指定できる', async () => {
+      const { getEnabledSocialProviders } = await import('@/lib/social-login')
+
+      process.env.AUTH_OIDC_ISSUER = 'http://localhost:8080/default'
+      process.env.AUTH_OIDC_ID = 'bon-log'
+      process.env.AUTH_OIDC_SECRET = 'secret'
+      process.env.AUTH_OIDC_NAME = 'モックOIDC'
+
+      expect(getEnabledSocialProviders()).toEqual([{ id: 'oidc', label: 'モックOIDC' }])
+    })
+  })
+
+  describe('buildSocialProviders', () => {
+    it('有効なプロバイダーの設定を作成する', async () => {
+      const { buildSocialProviders } = await import('@/lib/social-login')
+
+      process.env.AUTH_GOOGLE_ID = 'google-id'
+      process.env.AUTH_GOOGLE_SECRET = 'google-secret'
+      process.env.AUTH_OIDC_ISSUER = 'http://localhost:8080/default'
+      process.env.AUTH_OIDC_ID = 'bon-log'
+      process.env.AUTH_OIDC_SECRET = 'secret'
+
+      const providers = buildSocialProviders() as unknown as Record<string, unknown>[]
+
+      expect(providers).toEqual([
+        expect.objectContaining({ id: 'google', clientId: 'google-id', clientSecret: 'google-secret' }),
+        expect.objectContaining({
+          id: 'oidc',
+          type: 'oidc',
+          issuer: 'http://localhost:8080/default',
+          clientId: 'bon-log',
+        }),
+      ])
+    })
+  })
+
+  // ============================================================
+  // ユーザー作成
+  // ============================================================
+
+  describe('toSocialNickname', () => {
+    it('表示名をニックネームにする', async () => {
+      const { toSocialNickname } = await import('@/lib/social-login')
+
+      expect(toSocialNickname('盆栽 太郎', 'taro@example.com')).toBe('盆栽 太郎')
+    })
+
+    it('表示名がない場合はメールアドレスの@より前を使う', async () => {
+      const { toSocialNickname } = await import('@/lib/social-login')
+
+      expect(toSocialNickname(null, 'taro@example.com')).toBe('taro')
+      expect(toSocialNickname('  ', 'taro@example.com')).toBe('taro')
+    })
+
+    it('50文字に切り詰める', async () => {
+      const { toSocialNickname } = await import('@/lib/social-login')
+
+      expect(toSocialNickname('松'.repeat(60), 'taro@example.com')).toHaveLength(50)
+    })
+  })
+
+  describe('createSocialUser', () => {
+    it('name/image を nickname/avatarUrl に変換して作成する', async () => {
+      const { createSocialUser } = await import('@/lib/social-login')
+
+      mockPrisma.user.create.mockResolvedValueOnce({
+        id: 'new-user',
+        email: 'taro@example.com',
+        emailVerified: null,
+        nickname: '盆栽太郎',
+        avatarUrl: 'https://example.com/a.jpg',
+      })
+
+      const user = await createSocialUser({
+        id: 'provider-sub',
+        email: 'taro@example.com',
+        emailVerified: null,
+        name: '盆栽太郎',
+        image: 'https://example.com/a.jpg',
+      })
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: {
+          email: 'taro@example.com',
+          emailVerified: null,
+          nickname: '盆栽太郎',
+          avatarUrl: 'https://example.com/a.jpg',
+        },
+      })
+      expect(user).toEqual(expect.objectContaining({ id: 'new-user', name: '盆栽太郎' }))
+    })
+  })
+
+  // ============================================================
+  // サインイン時のチェック
+  // ============================================================
+
+  describe('isProfileEmailVerified', () => {
+    it('真偽値と文字列の email_verified を扱う', async () => {
+      const { isProfileEmailVerified } = await import('@/lib/social-login')
+
+      expect(isProfileEmailVerified({ email_verified: true })).toBe(true)
+      expect(isProfileEmailVerified({ email_verified: 'true' })).toBe(true)
+      expect(isProfileEmailVerified({ email_verified: false })).toBe(false)
+      expect(isProfileEmailVerified({})).toBe(false)
+      expect(isProfileEmailVerified(undefined)).toBe(false)
+    })
+  })
+
+  describe('markSocialEmailVerified', () => {
+    it('確認済みのメールアドレスが一致すればアカウントを確認済みにする', async () => {
+      const { markSocialEmailVerified } = await import('@/lib/social-login')
+      await markSocialEmailVerified('user-1', { email: 'user@example.com', email_verified: true })
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', email: 'user@example.com', emailVerified: null },
+        data: { emailVerified: expect.any(Date) },
+      })
+    })
+
+    it('プロバイダーが確認していない場合は更新しない', async () => {
+      const { markSocialEmailVerified } = await import('@/lib/social-login')
+      await markSocialEmailVerified('user-1', { email: 'user@example.com', email_verified: false })
+      await markSocialEmailVerified('user-1', { email_verified: true })
+      await markSocialEmailVerified(undefined, { email: 'user@example.com', email_verified: true })
+
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('checkSocialSignIn', () => {
+    it('新規ユーザーのログインを許可する', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      await expect(checkSocialSignIn(signInParams)).resolves.toBe(true)
+    })
+
+    it('ブラックリストのデバイスからは拒否する', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockCookieGet.mockReturnValue({ value: 'fp-1' })
+      mockIsDeviceBlacklisted.mockResolvedValue(true)
+
+      await expect(checkSocialSignIn(signInParams)).resolves.toBe('/login?error=DeviceBlocked')
+      expect(mockIsDeviceBlacklisted).toHaveBeenCalledWith('fp-1')
+    })
+
+    it('ブラックリストのメールアドレスは拒否する', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockIsEmailBlacklisted.mockResolvedValue(true)
+
+      await expect(checkSocialSignIn(signInParams)).resolves.toBe('/login?error=EmailBlocked')
+    })
+
+    it('連携済みのアカウントでログインできる', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockPrisma.account.findUnique.mockResolvedValue({ user: { id: 'user-1', isSuspended: false } })
+
+      await expect(checkSocialSignIn({ ...signInParams, emailVerified: false })).resolves.toBe(true)
+    })
+
+    it('停止中のアカウントは拒否する', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockPrisma.account.findUnique.mockResolvedValue({ user: { id: 'user-1', isSuspended: true } })
+
+      await expect(checkSocialSignIn(signInParams)).resolves.toBe('/login?error=AccountSuspended')
+    })
+
+    it('一時停止の猶予期間を過ぎたアカウントは拒否する', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockPrisma.account.findUnique.mockResolvedValue({
+        user: { id: 'user-1', isSuspended: false, deactivatedAt: new Date('2020-01-01T00:00:00Z') },
+      })
+
+      await expect(checkSocialSignIn(signInParams)).resolves.toBe('/login?error=AccountDeactivationExpired')
+    })
+
+    it('メールアドレスを取得できない新規ユーザーは拒否する', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      await expect(checkSocialSignIn({ ...signInParams, email: null })).resolves.toBe(
+        '/login?error=EmailRequired'
+      )
+    })
+
+    it('確認済みのメールアドレスなら既存のアカウントに連携する', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
+
+      await expect(checkSocialSignIn(signInParams)).resolves.toBe(true)
+    })
+
+    it('未確認のメールアドレスでは既存のアカウントに連携しない', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: false })
+
+      await expect(checkSocialSignIn({ ...signInParams, emailVerified: false })).resolves.toBe(
+        '/login?error=OAuthAccountNotLinked'
+      )
+    })
+
+    it('同じメールアドレスの停止中のアカウントには連携しない', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockPrisma.user.findUnique.mockResolvedValue({ isSuspended: true })
+
+      await expect(checkSocialSignIn(signInParams)).resolves.toBe('/login?error=AccountSuspended')
+    })
+
+    it('ログイン中はメールアドレスが未確認でも連携できる', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      await expect(
+        checkSocialSignIn({ ...signInParams, email: null, emailVerified: false, currentUserId: 'user-1' })
+      ).resolves.toBe(true)
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('別のユーザーに連携済みのアカウントは連携できない', async () => {
+      const { checkSocialSignIn } = await import('@/lib/social-login')
+
+      mockPrisma.account.findUnique.mockResolvedValue({ user: { id: 'user-2', isSuspended: false } })
+
+      await expect(checkSocialSignIn({ ...signInParams, currentUserId: 'user-1' })).resolves.toBe(
+        '/settings/security?error=AccountAlreadyLinked'
+      )
+    })
+  })
+})
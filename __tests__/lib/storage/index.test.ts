@@ -6,11 +6,13 @@
 const mockMkdir = jest.fn()
 const mockWriteFile = jest.fn()
 const mockUnlink = jest.fn()
+const mockReadFile = jest.fn()
 
 jest.mock('fs/promises', () => ({
   mkdir: (...args: unknown[]) => mockMkdir(...args),
   writeFile: (...args: unknown[]) => mockWriteFile(...args),
   unlink: (...args: unknown[]) => mockUnlink(...args),
+  readFile: (...args: unknown[]) => mockReadFile(...args),
 }))
 
 // Logger mock
@@ -149,6 +151,24 @@ describe('Storage Module', () => {
       expect(result.error).toBe('File not found')
     })
 
+    it('uploads ディレクトリの外を指すURLは削除しない', async () => {
+      const { deleteFile } = await import('@/lib/storage')
+      const result = await deleteFile('/uploads/message-images/../../../package.json')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Invalid')
+      expect(mockUnlink).not.toHaveBeenCalled()
+    })
+
+    it('公開URLからファイルのキーを取得できる', async () => {
+      const { getStorageKey } = await import('@/lib/storage')
+
+      expect(getStorageKey('/uploads/message-images/user-1/1-abc.jpg')).toBe('message-images/user-1/1-abc.jpg')
+      expect(getStorageKey('/uploads/avatars/../posts/a.jpg')).toBeNull()
+      expect(getStorageKey('/uploads/avatars/%2e%2e/a.jpg')).toBeNull()
+      expect(getStorageKey('https://evil.example.com/uploads/avatars/a.jpg')).toBeNull()
+    })
+
     it('PNG画像の拡張子を正しく処理する', async () => {
       mockMkdir.mockResolvedValue(undefined)
       mockWriteFile.mockResolvedValue(undefined)
@@ -214,6 +234,100 @@ describe('Storage Module', () => {
     })
   })
 
+  describe('Local Private Files', () => {
+    beforeEach(() => {
+      process.env.STORAGE_PROVIDER = 'local'
+    })
+
+    it('非公開ファイルを公開ディレクトリの外に保存する', async () => {
+      mockMkdir.mockResolvedValue(undefined)
+      mockWriteFile.mockResolvedValue(undefined)
+
+      const { uploadPrivateFile } = await import('@/lib/storage')
+      const result = await uploadPrivateFile(
+        Buffer.from('zip'),
+        'exports/user-1/export-1.zip',
+        'application/zip'
+      )
+
+      expect(result).toEqual({ success: true, key: 'exports/user-1/export-1.zip' })
+      const savedPath = String(mockWriteFile.mock.calls[0][0])
+      expect(savedPath).toContain('private-uploads')
+      expect(savedPath).not.toContain('public')
+    })
+
+    it('不正なキーは保存しない', async () => {
+      const { uploadPrivateFile } = await import('@/lib/storage')
+      const result = await uploadPrivateFile(
+        Buffer.from('zip'),
+        '../secret.zip',
+        'application/zip'
+      )
+
+      expect(result.success).toBe(false)
+      expect(mockWriteFile).not.toHaveBeenCalled()
+    })
+
+    it('署名付きURLで非公開ファイルを読み込める', async () => {
+      mockReadFile.mockResolvedValue(Buffer.from('zip'))
+
+      const { getSignedFileUrl, readLocalPrivateFile } = await import('@/lib/storage')
+      const result = await getSignedFileUrl('exports/user-1/export-1.zip', 900, 'export.zip')
+
+      expect(result.success).toBe(true)
+      const url = new URL(result.url!, 'http://localhost')
+      expect(url.pathname).toBe('/api/storage/private')
+
+      const params = {
+        key: url.searchParams.get('key')!,
+        expires: url.searchParams.get('expires')!,
+        name: url.searchParams.get('name')!,
+        signature: url.searchParams.get('signature')!,
+      }
+      const file = await readLocalPrivateFile(params)
+      expect(file?.toString()).toBe('zip')
+    })
+
+    it('署名が一致しない場合は読み込まない', async () => {
+      const { getSignedFileUrl, readLocalPrivateFile } = await import('@/lib/storage')
+      const result = await getSignedFileUrl('exports/user-1/export-1.zip', 900, 'export.zip')
+      const url = new URL(result.url!, 'http://localhost')
+
+      const file = await readLocalPrivateFile({
+        key: 'exports/user-2/export-2.zip',
+        expires: url.searchParams.get('expires')!,
+        name: url.searchParams.get('name')!,
+        signature: url.searchParams.get('signature')!,
+      })
+
+      expect(file).toBeNull()
+      expect(mockReadFile).not.toHaveBeenCalled()
+    })
+
+    it('期限切れのURLでは読み込まない', async () => {
+      const { readLocalPrivateFile } = await import('@/lib/storage')
+      const file = await readLocalPrivateFile({
+        key: 'exports/user-1/export-1.zip',
+        expires: String(Math.floor(Date.now() / 1000) - 60),
+        name: 'export.zip',
+        signature: '00',
+      })
+
+      expect(file).toBeNull()
+      expect(mockReadFile).not.toHaveBeenCalled()
+    })
+
+    it('非公開ファイルを削除できる', async () => {
+      mockUnlink.mockResolvedValue(undefined)
+
+      const { deletePrivateFile } = await import('@/lib/storage')
+      const result = await deletePrivateFile('exports/user-1/export-1.zip')
+
+      expect(result.success).toBe(true)
+      expect(String(mockUnlink.mock.calls[0][0])).toContain('private-uploads')
+    })
+  })
+
   describe('Azure Blob Storage Provider', () => {
     beforeEach(() => {
       process.env.STORAGE_PROVIDER = 'azure'
@@ -252,6 +366,21 @@ describe('Storage Module', () => {
       )
 
       expect(result.success).toBe(true)
+      expect(mockGetBlockBlobClient).toHaveBeenCalledWith('avatars/test.jpg')
+    })
+
+    it('設定されたコンテナ以外のURLや .. を含むURLは削除しない', async () => {
+      const { deleteFile } = await import('@/lib/storage')
+
+      for (const url of [
+        'https://other.blob.core.windows.net/testcontainer/avatars/test.jpg',
+        'https://testaccount.blob.core.windows.net/testcontainer/avatars/../../other/test.jpg',
+      ]) {
+        const result = await deleteFile(url)
+        expect(result.success).toBe(false)
+        expect(result.error).toContain('Invalid')
+      }
+      expect(mockAzureDelete).not.toHaveBeenCalled()
     })
 
     it('認証情報が未設定の場合はエラーを返す', async () => {
@@ -369,6 +498,16 @@ describe('Storage Module', () => {
       expect(result.error).toContain('Invalid')
     })
 
+    it('別のバケットのURLは削除しない', async () => {
+      const { deleteFile } = await import('@/lib/storage')
+      const result = await deleteFile(
+        'https://test.supabase.co/storage/v1/object/public/otherbucket/avatars/test.jpg'
+      )
+
+      expect(result.success).toBe(false)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
     it('削除失敗時はエラーを返す', async () => {
       mockFetch.mockResolvedValue({
         ok: false,
@@ -435,6 +574,24 @@ describe('Storage Module', () => {
       expect(result.success).toBe(true)
     })
 
+    it('公開URL以外のURLは削除しない', async () => {
+      const { deleteFile } = await import('@/lib/storage')
+      const result = await deleteFile('https://evil.example.com/avatars/test.jpg')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Invalid')
+      expect(mockS3Send).not.toHaveBeenCalled()
+    })
+
+    it('公開URLからキーを取得できる', async () => {
+      const { getStorageKey } = await import('@/lib/storage')
+
+      expect(getStorageKey('https://cdn.example.com/message-images/user-1/1-abc.jpg')).toBe(
+        'message-images/user-1/1-abc.jpg'
+      )
+      expect(getStorageKey('https://cdn.example.com.evil.com/avatars/a.jpg')).toBeNull()
+    })
+
     it('認証情報が未設定の場合はエラーを返す', async () => {
       delete process.env.R2_ACCESS_KEY_ID
 
@@ -510,4 +667,59 @@ describe('Storage Module', () => {
       expect(result.url).toMatch(/^\/uploads\//)
     })
   })
+
+  describe('downloadFile', () => {
+    it('ローカルの公開ファイルを読み込める', async () => {
+      process.env.STORAGE_PROVIDER = 'local'
+      mockReadFile.mockResolvedValue(Buffer.from('image'))
+
+      const { downloadFile } = await import('@/lib/storage')
+      const result = await downloadFile('/uploads/posts/1-abc.jpg')
+
+      expect(result).toEqual(Buffer.from('image'))
+      expect(mockReadFile).toHaveBeenCalledWith(expect.stringMatching(/public[/\\]uploads[/\\]posts[/\\]1-abc\.jpg$/))
+    })
+
+    it('ローカルで uploads の外を指すURLは読み込まない', async () => {
+      process.env.STORAGE_PROVIDER = 'local'
+
+      const { downloadFile } = await import('@/lib/storage')
+      const result = await downloadFile('/uploads/../.env')
+
+      expect(result).toBeNull()
+      expect(mockReadFile).not.toHaveBeenCalled()
+    })
+
+    it('設定されたプロバイダーの公開URLはHTTPで取得する', async () => {
+      process.env.STORAGE_PROVIDER = 'r2'
+      process.env.R2_PUBLIC_URL = 'https://cdn.example.com'
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new TextEncoder().encode('image').buffer),
+      })
+
+      const { downloadFile } = await import('@/lib/storage')
+      const result = await downloadFile('https://cdn.example.com/posts/1-abc.jpg')
+
+      expect(result).toEqual(Buffer.from('image'))
+      expect(mockFetch).toHaveBeenCalledWith('https://cdn.example.com/posts/1-abc.jpg')
+    })
+
+    it('ストレージ以外のURLは取得しない', async () => {
+      process.env.STORAGE_PROVIDER = 'r2'
+      process.env.R2_PUBLIC_URL = 'https://cdn.example.com'
+
+      const { downloadFile } = await import('@/lib/storage')
+
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data#/message-images/a.jpg',
+        'https://evil.example.com/posts/a.jpg',
+        'https://cdn.example.com.evil.com/posts/a.jpg',
+        '/uploads/posts/a.jpg',
+      ]) {
+        expect(await downloadFile(url)).toBeNull()
+      }
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
 })
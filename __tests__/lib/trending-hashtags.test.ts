@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+import type { HashtagUsage } from '@/lib/trending-hashtags'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+const now = new Date('2026-11-15T12:00:00Z')
+
+/**
+ * 現在から指定時間前の使用を作成
+ */
+function usage(hashtagId: string, userId: string, hoursAgo: number): HashtagUsage {
+  return {
+    hashtagId,
+    userId,
+    createdAt: new Date(now.getTime() - hoursAgo * 60 * 60 * 1000),
+  }
+}
+
+describe('Trending Hashtags', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  // ============================================================
+  // スコアの要素
+  // ============================================================
+
+  describe('dampenedUsage', () => {
+    it('1回目は1、繰り返しの使用は対数で減衰する', async () => {
+      const { dampenedUsage } = await import('@/lib/trending-hashtags')
+
+      expect(dampenedUsage(0)).toBe(0)
+      expect(dampenedUsage(1)).toBe(1)
+      expect(dampenedUsage(10)).toBeCloseTo(1 + Math.log(10))
+    })
+  })
+
+  describe('sumDampenedUsage', () => {
+    it('同じユーザーの連投はまとめて減衰させる', async () => {
+      const { sumDampenedUsage } = await import('@/lib/trending-hashtags')
+
+      const spam = Array.from({ length: 20 }, () => usage('tag', 'spammer', 1))
+      const organic = Array.from({ length: 5 }, (_, i) => usage('tag', `user-${i}`, 1))
+
+      expect(sumDampenedUsage(spam)).toBeLessThan(sumDampenedUsage(organic))
+      expect(sumDampenedUsage(organic)).toBe(5)
+    })
+  })
+
+  describe('computeVelocity', () => {
+    it('比較期間と同じペースの場合は1になる', async () => {
+      const { computeVelocity } = await import('@/lib/trending-hashtags')
+
+      // 24時間で10件、7日間で70件
+      expect(computeVelocity(10, 70)).toBeCloseTo(1)
+    })
+
+    it('比較期間に使われていない場合も有限の値になる', async () => {
+      const { computeVelocity } = await import('@/lib/trending-hashtags')
+
+      expect(computeVelocity(10, 0)).toBeCloseTo(computeVelocity(10, 1))
+      expect(Number.isFinite(computeVelocity(10, 0))).toBe(true)
+    })
+  })
+
+  describe('scoreTrendingHashtag', () => {
+    it('伸び率が高いほどスコアが高くなる', async () => {
+      const { scoreTrendingHashtag } = await import('@/lib/trending-hashtags')
+
+      expect(scoreTrendingHashtag(10, 8)).toBeGreaterThan(scoreTrendingHashtag(10, 1))
+      expect(scoreTrendingHashtag(0, 8)).toBe(0)
+    })
+  })
+
+  describe('getTrendDirection', () => {
+    it('伸び率と比較期間の使用数から勢いを判定する', async () => {
+      const { getTrendDirection } = await import('@/lib/trending-hashtags')
+
+      expect(getTrendDirection(20, 0)).toBe('new')
+      expect(getTrendDirection(2, 5)).toBe('rising')
+      expect(getTrendDirection(1.2, 50)).toBe('steady')
+    })
+  })
+
+  // ============================================================
+  // rankTrendingHashtags
+  // ============================================================
+
+  describe('rankTrendingHashtags', () => {
+    it('累計で多い定番のタグより、急に使われ始めたタグを上位にする', async () => {
+      const { rankTrendingHashtags } = await import('@/lib/trending-hashtags')
+
+      const usages = [
+        // 盆栽: 毎日同じペースで使われている
+        ...Array.from({ length: 70 }, (_, i) => usage('bonsai', `user-${i}`, 25 + i * 2)),
+        ...Array.from({ length: 10 }, (_, i) => usage('bonsai', `user-${i}`, 1)),
+        // 紅葉: 直近で急に使われ始めた
+        ...Array.from({ length: 8 }, (_, i) => usage('koyo', `user-${i}`, 2)),
+      ]
+
+      const result = rankTrendingHashtags(usages, now)
+
+      expect(result.map((r) => r.hashtagId)).toEqual(['koyo', 'bonsai'])
+      expect(result[0].baselineCount).toBe(0)
+      expect(result[1].velocity).toBeCloseTo(1)
+    })
+
+    it('直近の使用者が少ないタグは対象にしない', async () => {
+      const { rankTrendingHashtags } = await import('@/lib/trending-hashtags')
+
+      const usages = Array.from({ length: 30 }, () => usage('spam', 'spammer', 1))
+
+      expect(rankTrendingHashtags(usages, now)).toEqual([])
+    })
+
+    it('スコアが同じ場合はハッシュタグIDの昇順で並べる', async () => {
+      const { rankTrendingHashtags } = await import('@/lib/trending-hashtags')
+
+      const usages = [
+        usage('b', 'user-1', 1),
+        usage('b', 'user-2', 1),
+        usage('a', 'user-1', 1),
+        usage('a', 'user-2', 1),
+      ]
+
+      expect(rankTrendingHashtags(usages, now).map((r) => r.hashtagId)).toEqual(['a', 'b'])
+    })
+  })
+
+  // ============================================================
+  // computeTrendingHashtags
+  // ============================================================
+
+  describe('computeTrendingHashtags', () => {
+    it('全体公開の投稿のハッシュタグを集計して保存し直す', async () => {
+      const { computeTrendingHashtags } = await import('@/lib/trending-hashtags')
+
+      mockPrisma.postHashtag.findMany.mockResolvedValueOnce([
+        { hashtagId: 'koyo', post: { userId: 'user-1', createdAt: new Date('2026-11-15T10:00:00Z') } },
+        { hashtagId: 'koyo', post: { userId: 'user-2', createdAt: new Date('2026-11-15T11:00:00Z') } },
+      ])
+
+      const count = await computeTrendingHashtags(now)
+
+      expect(count).toBe(1)
+      expect(mockPrisma.postHashtag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            post: {
+              createdAt: { gte: new Date('2026-11-07T12:00:00Z'), lte: now },
+              isHidden: false,
+              audience: 'public',
+            },
+          },
+        })
+      )
+      expect(mockPrisma.trendingHashtag.deleteMany).toHaveBeenCalledWith({})
+      expect(mockPrisma.trendingHashtag.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            hashtagId: 'koyo',
+            recentCount: 2,
+            baselineCount: 0,
+            computedAt: now,
+          }),
+        ],
+      })
+    })
+  })
+})
@@ -0,0 +1,264 @@
+/**
+ * @jest-environment node
+ */
+import { createMockPrismaClient } from '../utils/test-utils'
+
+// Prismaモック
+const mockPrisma = createMockPrismaClient()
+jest.mock('@/lib/db', () => ({
+  prisma: mockPrisma,
+}))
+
+// リクエストヘッダーモック
+const mockHeaders = new Map<string, string>()
+jest.mock('next/headers', () => ({
+  headers: async () => ({ get: (name: string) => mockHeaders.get(name) ?? null }),
+}))
+
+// ログインの通知モック
+const mockNotifyIfNewLogin = jest.fn()
+jest.mock('@/lib/login-alert', () => ({
+  notifyIfNewLogin: (...args: unknown[]) => mockNotifyIfNewLogin(...args),
+}))
+
+// アカウントの一時停止モック
+const mockReactivateAccount = jest.fn()
+jest.mock('@/lib/account-deactivation', () => ({
+  reactivateAccount: (...args: unknown[]) => mockReactivateAccount(...args),
+}))
+
+// セキュリティログモック
+jest.mock('@/lib/security-logger', () => ({
+  logLoginSuccess: jest.fn(),
+}))
+
+// Loggerモック
+jest.mock('@/lib/logger', () => ({
+  __esModule: true,
+  default: { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}))
+
+describe('User Session', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockHeaders.clear()
+  })
+
+  // ============================================================
+  // describeUserAgent
+  // ============================================================
+
+  describe('describeUserAgent', () => {
+    it.each([
+      [
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        'Safari / iOS',
+      ],
+      [
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+        'Chrome / Android',
+      ],
+      [
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+        'Edge / Windows',
+      ],
+      [
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Safari Line/13.20.0',
+        'LINE / iOS',
+      ],
+      [
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.0; rv:121.0) Gecko/20100101 Firefox/121.0',
+        'Firefox / macOS',
+      ],
+    ])('%s を判定する', async (userAgent, expected) => {
+      const { describeUserAgent } = await import('@/lib/user-session')
+      expect(describeUserAgent(userAgent)).toBe(expected)
+    })
+
+    it('判定できない場合は不明なデバイスとする', async () => {
+      const { describeUserAgent } = await import('@/lib/user-session')
+      expect(describeUserAgent(null)).toBe('不明なデバイス')
+      expect(describeUserAgent('curl/8.0')).toBe('不明なデバイス')
+    })
+  })
+
+  // ============================================================
+  // startUserSession
+  // ============================================================
+
+  describe('startUserSession', () => {
+    it('フィンガープリントがない場合はtokenVersionのみ返す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 2 })
+
+      const { startUserSession } = await import('@/lib/user-session')
+      const result = await startUserSession('user-1')
+
+      expect(result).toEqual({ tokenVersion: 2 })
+      expect(mockPrisma.userDevice.upsert).not.toHaveBeenCalled()
+    })
+
+    it('デバイスを記録してセッションに結びつける', async () => {
+      mockHeaders.set('x-forwarded-for', '203.0.113.1, 10.0.0.1')
+      mockHeaders.set('user-agent', 'Mozilla/5.0')
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 0 })
+      mockPrisma.userDevice.upsert.mockResolvedValueOnce({ id: 'device-1', sessionVersion: 3 })
+
+      const { startUserSession } = await import('@/lib/user-session')
+      const result = await startUserSession('user-1', 'fp-1')
+
+      expect(result).toEqual({ tokenVersion: 0, deviceId: 'device-1', deviceSessionVersion: 3 })
+      expect(mockPrisma.userDevice.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_fingerprint: { userId: 'user-1', fingerprint: 'fp-1' } },
+          create: {
+            userId: 'user-1',
+            fingerprint: 'fp-1',
+            userAgent: 'Mozilla/5.0',
+            ipAddress: '203.0.113.1',
+          },
+          update: expect.objectContaining({ signedOutAt: null }),
+        })
+      )
+    })
+
+    it('デバイスを記録する前にログインの通知を確認する', async () => {
+      mockHeaders.set('x-forwarded-for', '203.0.113.1')
+      mockHeaders.set(
+        'user-agent',
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+      )
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 0 })
+      mockPrisma.userDevice.upsert.mockImplementationOnce(async () => {
+        expect(mockNotifyIfNewLogin).toHaveBeenCalled()
+        return { id: 'device-1', sessionVersion: 0 }
+      })
+
+      const { startUserSession } = await import('@/lib/user-session')
+      await startUserSession('user-1', 'fp-1')
+
+      expect(mockNotifyIfNewLogin).toHaveBeenCalledWith('user-1', {
+        fingerprint: 'fp-1',
+        ipAddress: '203.0.113.1',
+        device: 'Chrome / Android',
+      })
+    })
+
+    it('通知に失敗してもログインを続ける', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 1 })
+      mockNotifyIfNewLogin.mockRejectedValueOnce(new Error('SMTP error'))
+
+      const { startUserSession } = await import('@/lib/user-session')
+
+      expect(await startUserSession('user-1')).toEqual({ tokenVersion: 1 })
+    })
+
+    it('一時停止中のアカウントを元に戻す', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 2 })
+
+      const { startUserSession } = await import('@/lib/user-session')
+      await startUserSession('user-1')
+
+      expect(mockReactivateAccount).toHaveBeenCalledWith('user-1')
+    })
+
+    it('元に戻せなかった場合もログインを続ける', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 2 })
+      mockReactivateAccount.mockRejectedValueOnce(new Error('Stripe error'))
+
+      const { startUserSession } = await import('@/lib/user-session')
+
+      expect(await startUserSession('user-1')).toEqual({ tokenVersion: 2 })
+    })
+  })
+
+  // ============================================================
+  // validateUserSession
+  // ============================================================
+
+  describe('validateUserSession', () => {
+    it('tokenVersionが一致しない場合は無効', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 1 })
+
+      const { validateUserSession } = await import('@/lib/user-session')
+
+      expect(await validateUserSession({ id: 'user-1', tokenVersion: 0 })).toBe(false)
+    })
+
+    it('tokenVersionのない古いJWTはバージョン0として扱う', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 0 })
+
+      const { validateUserSession } = await import('@/lib/user-session')
+
+      expect(await validateUserSession({ id: 'user-1' })).toBe(true)
+      expect(mockPrisma.userDevice.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('ユーザーが削除されている場合は無効', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(null)
+
+      const { validateUserSession } = await import('@/lib/user-session')
+
+      expect(await validateUserSession({ id: 'user-1', tokenVersion: 0 })).toBe(false)
+    })
+
+    it('デバイスからログアウトさせた場合は無効', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 0 })
+      mockPrisma.userDevice.findUnique.mockResolvedValueOnce({
+        sessionVersion: 1,
+        lastSeenAt: new Date(),
+      })
+
+      const { validateUserSession } = await import('@/lib/user-session')
+      const result = await validateUserSession({
+        id: 'user-1',
+        tokenVersion: 0,
+        deviceId: 'device-1',
+        deviceSessionVersion: 0,
+      })
+
+      expect(result).toBe(false)
+    })
+
+    it('有効なセッションでは最終アクセスを一定間隔で更新する', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 0 })
+      mockPrisma.userDevice.findUnique.mockResolvedValueOnce({
+        sessionVersion: 0,
+        lastSeenAt: new Date(Date.now() - 10 * 60 * 1000),
+      })
+
+      const { validateUserSession } = await import('@/lib/user-session')
+      const result = await validateUserSession({
+        id: 'user-1',
+        tokenVersion: 0,
+        deviceId: 'device-1',
+        deviceSessionVersion: 0,
+      })
+
+      expect(result).toBe(true)
+      expect(mockPrisma.userDevice.update).toHaveBeenCalledWith({
+        where: { id: 'device-1' },
+        data: { lastSeenAt: expect.any(Date) },
+      })
+    })
+
+    it('最終アクセスが新しい場合は更新しない', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ tokenVersion: 0 })
+      mockPrisma.userDevice.findUnique.mockResolvedValueOnce({
+        sessionVersion: 0,
+        lastSeenAt: new Date(),
+      })
+
+      const { validateUserSession } = await import('@/lib/user-session')
+
+      expect(
+        await validateUserSession({
+          id: 'user-1',
+          tokenVersion: 0,
+          deviceId: 'device-1',
+          deviceSessionVersion: 0,
+        })
+      ).toBe(true)
+      expect(mockPrisma.userDevice.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+import { crc32, inflateRawSync } from 'zlib'
+import { createZip } from '@/lib/zip'
+
+/**
+ * セントラルディレクトリからエントリを読み出す
+ */
+function readEntries(zip: Buffer) {
+  const end = zip.length - 22
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50)
+
+  const count = zip.readUInt16LE(end + 10)
+  let cursor = zip.readUInt32LE(end + 16)
+  const entries = []
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(cursor)).toBe(0x02014b50)
+    const flags = zip.readUInt16LE(cursor + 8)
+    const method = zip.readUInt16LE(cursor + 10)
+    const checksum = zip.readUInt32LE(cursor + 16)
+    const compressedSize = zip.readUInt32LE(cursor + 20)
+    const nameLength = zip.readUInt16LE(cursor + 28)
+    const localOffset = zip.readUInt32LE(cursor + 42)
+    const name = zip.subarray(cursor + 46, cursor + 46 + nameLength).toString('utf8')
+
+    const localNameLength = zip.readUInt16LE(localOffset + 26)
+    const bodyStart = localOffset + 30 + localNameLength
+    const body = zip.subarray(bodyStart, bodyStart + compressedSize)
+    const data = method === 8 ? inflateRawSync(body) : body
+
+    entries.push({ name, flags, method, checksum, data })
+    cursor += 46 + nameLength
+  }
+
+  return entries
+}
+
+describe('createZip', () => {
+  it('ファイルを圧縮して格納し、元の内容に展開できる', () => {
+    const json = JSON.stringify({ nickname: '盆栽太郎', posts: ['a', 'b'] })
+    const zip = createZip([{ path: 'profile.json', data: json }])
+
+    const [entry] = readEntries(zip)
+    expect(entry.name).toBe('profile.json')
+    expect(entry.method).toBe(8)
+    expect(entry.data.toString('utf8')).toBe(json)
+    expect(entry.checksum).toBe(crc32(Buffer.from(json)))
+  })
+
+  it('compress: false のファイルは無圧縮で格納する', () => {
+    const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10])
+    const zip = createZip([{ path: 'media/photo.jpg', data: image, compress: false }])
+
+    const [entry] = readEntries(zip)
+    expect(entry.method).toBe(0)
+    expect(entry.data.equals(image)).toBe(true)
+  })
+
+  it('日本語のファイル名をUTF-8フラグ付きで格納する', () => {
+    const zip = createZip([
+      { path: 'README.txt', data: 'readme' },
+      { path: 'media/盆栽/黒松.jpg', data: Buffer.from('x'), compress: false },
+    ])
+
+    const entries = readEntries(zip)
+    expect(entries.map((e) => e.name)).toEqual(['README.txt', 'media/盆栽/黒松.jpg'])
+    expect(entries.every((e) => (e.flags & 0x0800) !== 0)).toBe(true)
+  })
+
+  it('空のアーカイブを作成できる', () => {
+    const zip = createZip([])
+
+    expect(zip.length).toBe(22)
+    expect(readEntries(zip)).toEqual([])
+  })
+
+  it('パスが重複する場合はエラーを投げる', () => {
+    expect(() =>
+      createZip([
+        { path: 'posts.json', data: '[]' },
+        { path: 'posts.json', data: '[]' },
+      ])
+    ).toThrow('Duplicate path in ZIP archive: posts.json')
+  })
+})
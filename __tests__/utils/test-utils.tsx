@@ -130,6 +130,8 @@ export const mockPost = {
   userId: mockUser.id,
   /** 投稿の本文（ハッシュタグを含む） */
   content: 'テスト投稿の内容 #テスト',
+  /** 公開範囲 */
+  audience: 'public',
   /** 投稿作成日時 */
   createdAt: new Date('2024-01-01'),
   /** 最終更新日時 */
@@ -263,6 +265,10 @@ export const mockConversation = {
   createdAt: new Date('2024-01-01'),
   /** 最終更新日時（最新メッセージの日時） */
   updatedAt: new Date('2024-01-01'),
+  /** グループ会話かどうか */
+  isGroup: false,
+  /** グループ名（1対1の会話ではnull） */
+  title: null,
   /** 会話の参加者リスト */
   participants: [
     {
@@ -498,6 +504,8 @@ export const mockMessage = {
   conversationId: 'conversation-1',
   /** 送信者のユーザーID */
   senderId: mockUser.id,
+  /** メッセージ種別（'text' | 'system'） */
+  type: 'text',
   /** メッセージ本文 */
   content: 'テストメッセージです',
   /** 既読フラグ */
@@ -1020,10 +1028,46 @@ export const createMockPrismaClient = () => ({
     findFirst: jest.fn(),   // 条件に合う最初の1件を検索
     create: jest.fn(),      // 新規作成
     update: jest.fn(),      // 更新
+    updateMany: jest.fn(),  // 条件に合う複数件を更新
     delete: jest.fn(),      // 削除
     count: jest.fn(),       // 件数カウント
   },
 
+  /**
+   * accountテーブルのモック
+   * ソーシャルログイン（OAuth/OIDC）の連携
+   */
+  account: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    delete: jest.fn(),
+  },
+
+  /**
+   * passkeyテーブルのモック
+   * パスキー（WebAuthn）の認証器
+   */
+  passkey: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+
+  /**
+   * userDeviceテーブルのモック
+   * ログインしたデバイスとセッション
+   */
+  userDevice: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+
   // ============================================================
   // 投稿関連テーブル
   // ============================================================
@@ -1153,6 +1197,69 @@ export const createMockPrismaClient = () => ({
     delete: jest.fn(),
   },
 
+  /**
+   * closeFriendテーブルのモック
+   * 親しい友達リスト
+   */
+  closeFriend: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+
+  /**
+   * userListテーブルのモック
+   * リスト（選んだユーザーのタイムライン）
+   */
+  userList: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+
+  /**
+   * userListMemberテーブルのモック
+   * リストのメンバー
+   */
+  userListMember: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+
+  /**
+   * userListFollowテーブルのモック
+   * リストのフォロー
+   */
+  userListFollow: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+
+  /**
+   * savedSearchテーブルのモック
+   * 保存した検索
+   */
+  savedSearch: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+
   /**
    * followRequestテーブルのモック
    * フォローリクエスト（非公開アカウント向け）
@@ -1177,6 +1284,7 @@ export const createMockPrismaClient = () => ({
    */
   genre: {
     findMany: jest.fn(),
+    count: jest.fn(),
   },
 
   // ============================================================
@@ -1311,6 +1419,18 @@ export const createMockPrismaClient = () => ({
     count: jest.fn(),
   },
 
+  /**
+   * securityEventテーブルのモック
+   * セキュリティイベント（ログイン失敗・2段階認証の変更など）
+   */
+  securityEvent: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    groupBy: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+
   // ============================================================
   // メッセージ関連テーブル
   // ============================================================
@@ -1357,6 +1477,14 @@ export const createMockPrismaClient = () => ({
     count: jest.fn(),
   },
 
+  /**
+   * messageMediaテーブルのモック
+   * DMの添付画像
+   */
+  messageMedia: {
+    count: jest.fn(),
+  },
+
   // ============================================================
   // 下書き・予約投稿関連テーブル
   // ============================================================
@@ -1451,6 +1579,7 @@ export const createMockPrismaClient = () => ({
     findFirst: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
@@ -1469,6 +1598,69 @@ export const createMockPrismaClient = () => ({
     count: jest.fn(),
   },
 
+  /**
+   * bonsaiCareTaskテーブルのモック
+   * 盆栽のお手入れ予定
+   */
+  bonsaiCareTask: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+    count: jest.fn(),
+  },
+
+  /**
+   * bonsaiSpeciesテーブルのモック
+   * 樹種マスタ（樹種図鑑）
+   */
+  bonsaiSpecies: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+  },
+
+  /**
+   * dataExportテーブルのモック
+   * データのエクスポートの申し込み
+   */
+  dataExport: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+
+  /**
+   * dataExportPartテーブルのモック
+   * データのエクスポートのZIP（パートごと）
+   */
+  dataExportPart: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    count: jest.fn(),
+  },
+
+  /**
+   * bonsaiTransferテーブルのモック
+   * 盆栽の譲渡（来歴）
+   */
+  bonsaiTransfer: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+  },
+
   // ============================================================
   // ハッシュタグ関連テーブル
   // ============================================================
@@ -1502,6 +1694,16 @@ export const createMockPrismaClient = () => ({
     deleteMany: jest.fn(),
   },
 
+  /**
+   * trendingHashtagテーブルのモック
+   * 定期ジョブで集計したトレンドハッシュタグ
+   */
+  trendingHashtag: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+
   // ============================================================
   // パスワードリセット関連テーブル
   // ============================================================
@@ -1518,6 +1720,31 @@ export const createMockPrismaClient = () => ({
     deleteMany: jest.fn(),
   },
 
+  // ============================================================
+  // メールアドレスの確認関連テーブル
+  // ============================================================
+
+  /**
+   * verificationTokenテーブルのモック
+   * メールアドレスの確認・変更のトークン
+   */
+  verificationToken: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+
+  /**
+   * emailChangeRequestテーブルのモック
+   * メールアドレスの変更申請
+   */
+  emailChangeRequest: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+
   // ============================================================
   // 分析関連テーブル
   // ============================================================
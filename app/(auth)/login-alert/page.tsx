@@ -0,0 +1,63 @@
+/**
+ * @file 心当たりがないログインの報告ページ
+ * @description ログインの通知メールの「心当たりがない」リンクからアクセスするページ
+ *
+ * 機能概要:
+ * - URLのトークンが有効か確認し、報告ボタンを表示する
+ * - ボタンで報告すると、すべてのデバイスからログアウトさせ、
+ *   パスワードを再設定するまでパスワードでのログインを止める
+ * - パスワードの再設定ページへ案内する
+ *
+ * @remarks
+ * 通知メールは乗っ取られたアカウントとは別の端末で開かれることがあるため、ログインは不要です。
+ * メールのリンクは事前に読み込まれることがあるため、ページの表示ではトークンを使用済みにしません。
+ */
+
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoginAlertConfirmForm } from '@/components/auth/LoginAlertConfirmForm'
+import { checkLoginAlertToken } from '@/lib/actions/login-alert'
+
+export const metadata = {
+  title: 'アカウントの保護 - BON-LOG',
+}
+
+interface LoginAlertPageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+/**
+ * 心当たりがないログインの報告ページのメインコンポーネント
+ *
+ * @param searchParams - URLのクエリパラメータ（token: 通知メールのトークン）
+ * @returns 報告フォームまたはエラーのJSX要素
+ */
+export default async function LoginAlertPage({ searchParams }: LoginAlertPageProps) {
+  const { token } = await searchParams
+  const result = token
+    ? await checkLoginAlertToken(token)
+    : { error: 'リンクが無効または期限切れです' }
+  const error = 'error' in result ? result.error : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-center">アカウントの保護</CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4 text-center">
+        {error || !token ? (
+          <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+            {error}
+          </div>
+        ) : (
+          <LoginAlertConfirmForm token={token} />
+        )}
+
+        <Link href="/password-reset" className="text-sm text-primary hover:underline">
+          パスワードを再設定する
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
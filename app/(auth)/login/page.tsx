@@ -5,6 +5,7 @@
  * 機能概要:
  * - ログイン済みユーザーの自動リダイレクト（フィードページへ）
  * - ログインフォームの表示
+ * - ソーシャルログインボタンの表示（?error= のエラー表示を含む）
  * - 和風デザインのUIレイアウト
  *
  * @remarks
@@ -17,6 +18,12 @@
 // ユーザー入力の処理とNextAuth.jsによる認証処理を担当
 import { LoginForm } from '@/components/auth/LoginForm'
 
+// ソーシャルログインボタン（Client Component）
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons'
+
+// 環境変数で有効になっているソーシャルログインのプロバイダー
+import { getEnabledSocialProviders } from '@/lib/social-login'
+
 // NextAuth.js認証ヘルパー関数
 // サーバーサイドでセッション情報を取得するために使用
 import { auth } from '@/lib/auth'
@@ -33,9 +40,14 @@ import { redirect } from 'next/navigation'
  * 2. ログイン済みの場合はフィードページへリダイレクト
  * 3. 未ログインの場合はログインフォームを表示
  *
+ * @param props.searchParams - ソーシャルログインのエラーコード（error）
  * @returns ログインページのJSX要素
  */
-export default async function LoginPage() {
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>
+}) {
   // ログイン済みの場合はフィードにリダイレクト
   // auth()はサーバーサイドでセッション情報を取得する非同期関数
   const session = await auth()
@@ -45,6 +57,8 @@ export default async function LoginPage() {
     redirect('/feed')
   }
 
+  const { error } = await searchParams
+
   return (
     // パディングを設定したコンテナ（レスポンシブ対応）
     <div className="p-6 sm:p-8">
@@ -57,6 +71,9 @@ export default async function LoginPage() {
       {/* ログインフォームコンポーネント */}
       {/* メールアドレス・パスワード入力と認証処理を担当 */}
       <LoginForm />
+
+      {/* ソーシャルログイン（有効なプロバイダーがある場合のみ表示） */}
+      <SocialLoginButtons providers={getEnabledSocialProviders()} errorCode={error} />
     </div>
   )
 }
@@ -5,6 +5,7 @@
  * 機能概要:
  * - ユーザー登録フォームの表示
  * - メールアドレス、パスワード、ニックネームの入力
+ * - ソーシャルログインボタンの表示
  * - 和風デザインのUIレイアウト
  *
  * @remarks
@@ -18,6 +19,12 @@
 // ユーザー入力の処理、バリデーション、アカウント作成処理を担当
 import { RegisterForm } from '@/components/auth/RegisterForm'
 
+// ソーシャルログインボタン（初回ログイン時にアカウントを作成）
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons'
+
+// 環境変数で有効になっているソーシャルログインのプロバイダー
+import { getEnabledSocialProviders } from '@/lib/social-login'
+
 /**
  * 新規登録ページのメインコンポーネント
  *
@@ -44,6 +51,9 @@ export default function RegisterPage() {
       {/* 新規登録フォームコンポーネント */}
       {/* ニックネーム、メールアドレス、パスワード入力とアカウント作成処理を担当 */}
       <RegisterForm />
+
+      {/* ソーシャルログイン（有効なプロバイダーがある場合のみ表示） */}
+      <SocialLoginButtons providers={getEnabledSocialProviders()} />
     </div>
   )
 }
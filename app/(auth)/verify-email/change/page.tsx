@@ -0,0 +1,65 @@
+/**
+ * @file メールアドレス変更の確認ページ
+ * @description メールアドレス変更の確認メールのリンクからアクセスするページ
+ *
+ * 機能概要:
+ * - URLのトークンを検証し、変更前・変更後どちらのアドレスで確認したかを記録
+ * - 両方のアドレスで確認が済んでいればメールアドレスを変更
+ * - 確認の結果（変更完了・もう一方の確認待ち・リンクが無効）を表示
+ *
+ * @remarks
+ * 変更前のアドレスに届いたリンクは別の端末で開かれることがあるため、ログインは不要です。
+ */
+
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { confirmEmailChange } from '@/lib/actions/email-verification'
+
+export const metadata = {
+  title: 'メールアドレス変更の確認 - BON-LOG',
+}
+
+interface ConfirmEmailChangePageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+/**
+ * メールアドレス変更の確認ページのメインコンポーネント
+ *
+ * @param searchParams - URLのクエリパラメータ（token: 確認トークン）
+ * @returns 確認結果のJSX要素
+ */
+export default async function ConfirmEmailChangePage({ searchParams }: ConfirmEmailChangePageProps) {
+  const { token } = await searchParams
+  const result = token
+    ? await confirmEmailChange(token)
+    : { error: '確認リンクが無効または期限切れです' }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-center">メールアドレス変更の確認</CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4 text-center">
+        {'error' in result ? (
+          <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+            {result.error}
+          </div>
+        ) : result.completed ? (
+          <p className="text-sm">
+            メールアドレスを変更しました。次回から新しいメールアドレスでログインしてください。
+          </p>
+        ) : (
+          <p className="text-sm">
+            確認しました。もう一方のメールアドレスに届いたリンクでも確認すると、変更が完了します。
+          </p>
+        )}
+
+        <Link href="/settings/account" className="text-sm text-primary hover:underline">
+          アカウント設定を開く
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
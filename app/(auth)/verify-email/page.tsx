@@ -1,54 +1,65 @@
 /**
- * @file メール認証ページ（非推奨・リダイレクト用）
- * @description 以前はSupabaseのメール認証確認に使用されていたページ
+ * @file メールアドレス確認ページ
+ * @description 確認メールのリンクからアクセスし、登録したメールアドレスを確認済みにするページ
  *
  * 機能概要:
- * - ログインページへの自動リダイレクト
- * - 後方互換性のためにファイルを維持
+ * - URLのトークンを検証してメールアドレスを確認済みにする
+ * - 確認の結果（成功・リンクが無効）を表示
  *
  * @remarks
- * このページは以下の理由により現在は使用されていません:
- *
- * 1. 認証システムの変更:
- *    元々はSupabaseの認証機能を使用しており、ユーザー登録後に
- *    メール認証が必要でした。現在はNextAuth.jsに移行しています。
- *
- * 2. 仕様変更:
- *    現在の仕様ではメール認証は不要となっています。
- *    ユーザーは登録後すぐにログインして利用を開始できます。
- *
- * 3. 後方互換性:
- *    古いメールリンクからこのページにアクセスするユーザーがいる
- *    可能性があるため、ファイル自体は削除せずにリダイレクト処理を
- *    維持しています。
- *
- * @deprecated このページは非推奨です。メール認証機能はNextAuth.jsへの移行により不要になりました。
+ * メールアドレスの確認が済むまで、投稿とメッセージは利用できません。
+ * リンクは別のブラウザで開かれることがあるため、ログインは不要です。
+ * 確認メールはアカウント設定（/settings/account）から再送できます。
  */
 
-// このページはSupabaseのメール認証用でしたが、NextAuth.jsへの移行により不要になりました
-// 仕様上メール認証は不要のため、ログインページにリダイレクトします
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { verifyEmail } from '@/lib/actions/email-verification'
 
-// Next.jsのリダイレクト関数
-// サーバーサイドでのページ遷移を実行するために使用
-import { redirect } from 'next/navigation'
+export const metadata = {
+  title: 'メールアドレスの確認 - BON-LOG',
+}
+
+interface VerifyEmailPageProps {
+  searchParams: Promise<{ token?: string }>
+}
 
 /**
- * メール認証ページコンポーネント（リダイレクト専用）
+ * メールアドレス確認ページのメインコンポーネント
  *
- * 処理内容:
- * - ログインページ（/login）へ即座にリダイレクト
- * - このページのコンテンツは表示されない
- *
- * @remarks
- * redirect()関数はサーバーサイドで実行され、
- * HTTPリダイレクトレスポンスを返します。
- * そのため、このコンポーネントからはJSXが返されることはありません。
- *
- * @deprecated このページは非推奨です。
- * @returns なし（リダイレクトにより到達しない）
+ * @param searchParams - URLのクエリパラメータ（token: 確認トークン）
+ * @returns 確認結果のJSX要素
  */
-export default function VerifyEmailPage() {
-  // ログインページへリダイレクト
-  // このページにアクセスしたユーザーは自動的にログインページに転送される
-  redirect('/login')
+export default async function VerifyEmailPage({ searchParams }: VerifyEmailPageProps) {
+  const { token } = await searchParams
+  const result = token ? await verifyEmail(token) : { error: '確認リンクが無効または期限切れです' }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-center">メールアドレスの確認</CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4 text-center">
+        {result.success ? (
+          <p className="text-sm">
+            メールアドレスを確認しました。投稿やメッセージを利用できます。
+          </p>
+        ) : (
+          <>
+            <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+              {result.error}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              確認メールはアカウント設定から再送できます。
+            </p>
+          </>
+        )}
+
+        <Link href="/feed" className="text-sm text-primary hover:underline">
+          BON-LOGを開く
+        </Link>
+      </CardContent>
+    </Card>
+  )
 }
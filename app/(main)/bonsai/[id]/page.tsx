@@ -3,7 +3,10 @@
  * @description 特定の盆栽の詳細情報と成長記録を表示するページ
  *              - 盆栽の基本情報（名前、樹種、説明、入手日）の表示
  *              - 成長記録のタイムライン表示
+ *              - 計測記録の成長グラフと、記録画像のビフォーアフター比較
+ *              - 歴代の所有者の来歴表示と、オーナーには譲渡の申し込み機能を提供
  *              - オーナーには編集、削除、成長記録追加機能を提供
+ *              - オーナーにはお手入れ予定（水やり・施肥など）の管理機能を提供
  *              - 関連する投稿もタイムラインに統合表示
  */
 
@@ -19,6 +22,12 @@ import { getBonsai } from '@/lib/actions/bonsai'
 // 盆栽に関連する投稿を取得するServer Action
 import { getPostsByBonsai } from '@/lib/actions/post'
 
+// お手入れ予定を取得するServer Action
+import { getCareTasks } from '@/lib/actions/care-task'
+
+// 来歴と申し込み中の譲渡を取得するServer Action
+import { getBonsaiProvenance, getPendingBonsaiTransfer } from '@/lib/actions/bonsai-transfer'
+
 // Next.js のLink コンポーネント - ナビゲーション用
 import Link from 'next/link'
 
@@ -34,6 +43,21 @@ import { BonsaiActions } from '@/components/bonsai/BonsaiActions'
 // 盆栽タイムラインコンポーネント - 成長記録と投稿の時系列表示
 import { BonsaiTimeline } from '@/components/bonsai/BonsaiTimeline'
 
+// お手入れ予定一覧コンポーネント - 予定の表示、完了、追加
+import { CareTaskList } from '@/components/bonsai/CareTaskList'
+
+// 成長グラフコンポーネント - 樹高・幹径・根張りの推移
+import { BonsaiGrowthChart } from '@/components/bonsai/BonsaiGrowthChart'
+
+// ビフォーアフター比較コンポーネント - 記録画像2枚の比較と投稿での共有
+import { BonsaiBeforeAfter } from '@/components/bonsai/BonsaiBeforeAfter'
+
+// 来歴コンポーネント - 歴代の所有者と譲渡の履歴
+import { BonsaiProvenance } from '@/components/bonsai/BonsaiProvenance'
+
+// 譲渡パネルコンポーネント - 譲渡の申し込みと取り消し
+import { BonsaiTransferPanel } from '@/components/bonsai/BonsaiTransferPanel'
+
 /**
  * ページプロパティの型定義
  * Next.js 15以降ではparamsはPromiseとして渡される
@@ -107,6 +131,8 @@ function CalendarIcon({ className }: { className?: string }) {
  * - 盆栽詳細と関連投稿を並列で取得
  * - 盆栽が見つからない場合は404ページを表示
  * - オーナーには編集、削除、成長記録追加機能を表示
+ * - 計測記録があれば成長グラフ、記録画像が2枚以上あればビフォーアフターを表示
+ * - 譲渡の履歴があれば来歴を表示し、オーナーには譲渡パネルを表示
  *
  * @param params - ルートパラメータ（id）
  * @returns 盆栽詳細ページのJSX
@@ -118,10 +144,11 @@ export default async function BonsaiDetailPage({ params }: Props) {
   // 現在のセッション情報を取得（オーナー判定用）
   const session = await auth()
 
-  // 盆栽詳細と関連投稿を並列で取得（パフォーマンス最適化）
-  const [result, postsResult] = await Promise.all([
+  // 盆栽詳細と関連投稿、来歴を並列で取得（パフォーマンス最適化）
+  const [result, postsResult, provenanceResult] = await Promise.all([
     getBonsai(id),
     getPostsByBonsai(id),
+    getBonsaiProvenance(id),
   ])
 
   // 盆栽が見つからない場合は404ページを表示
@@ -136,9 +163,25 @@ export default async function BonsaiDetailPage({ params }: Props) {
   // 現在のユーザーがオーナーかどうかを判定
   const isOwner = session?.user?.id === bonsai.userId
 
+  // お手入れ予定と申し込み中の譲渡はオーナー本人のみ取得
+  const [careTasks, pendingTransfer] = isOwner
+    ? await Promise.all([
+        getCareTasks(id).then((r) => r.tasks || []),
+        getPendingBonsaiTransfer(id).then((r) => r.transfer),
+      ])
+    : [[], null]
+
   // 最新の成長記録画像を取得（メイン画像として表示）
   const latestImage = bonsai.records?.[0]?.images?.[0]?.url
 
+  // 計測記録の有無（成長グラフの表示判定）
+  const hasMeasurements = bonsai.records.some((record) => record.type === 'measurement')
+
+  // ビフォーアフター比較の候補となる全ての記録画像
+  const comparisonImages = bonsai.records.flatMap((record) =>
+    record.images.map((image) => ({ id: image.id, url: image.url, recordAt: record.recordAt }))
+  )
+
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       {/* ヘッダーと基本情報カード */}
@@ -179,9 +222,17 @@ export default async function BonsaiDetailPage({ params }: Props) {
               {/* 盆栽名 */}
               <h1 className="text-2xl font-bold">{bonsai.name}</h1>
 
-              {/* 樹種（オプション） */}
+              {/* 樹種（オプション）- 樹種図鑑に紐づく場合は樹種ページへリンク */}
               {bonsai.species && (
-                <p className="text-muted-foreground">{bonsai.species}</p>
+                <p className="text-muted-foreground">
+                  {bonsai.catalogSpecies ? (
+                    <Link href={`/species/${bonsai.catalogSpecies.slug}`} className="hover:underline">
+                      {bonsai.species}
+                    </Link>
+                  ) : (
+                    bonsai.species
+                  )}
+                </p>
               )}
             </div>
           </div>
@@ -207,6 +258,41 @@ export default async function BonsaiDetailPage({ params }: Props) {
         </div>
       </div>
 
+      {/* 成長グラフ - 計測記録がある場合のみ表示 */}
+      {hasMeasurements && (
+        <div className="bg-card rounded-lg border">
+          <h2 className="px-4 py-3 font-bold border-b">成長グラフ</h2>
+          <div className="p-4">
+            <BonsaiGrowthChart records={bonsai.records} />
+          </div>
+        </div>
+      )}
+
+      {/* ビフォーアフター - 記録画像が2枚以上ある場合のみ表示 */}
+      {comparisonImages.length >= 2 && (
+        <div className="bg-card rounded-lg border">
+          <h2 className="px-4 py-3 font-bold border-b">ビフォーアフター</h2>
+          <div className="p-4">
+            <BonsaiBeforeAfter
+              bonsaiId={id}
+              bonsaiName={bonsai.name}
+              images={comparisonImages}
+              isOwner={isOwner}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* お手入れ予定 - オーナーのみ表示 */}
+      {isOwner && (
+        <div className="bg-card rounded-lg border">
+          <h2 className="px-4 py-3 font-bold border-b">お手入れ予定</h2>
+          <div className="p-4">
+            <CareTaskList bonsaiId={id} tasks={careTasks} />
+          </div>
+        </div>
+      )}
+
       {/* 成長記録追加フォーム - オーナーのみ表示 */}
       {isOwner && (
         <div className="bg-card rounded-lg border">
@@ -217,6 +303,26 @@ export default async function BonsaiDetailPage({ params }: Props) {
         </div>
       )}
 
+      {/* 来歴 - 譲渡の履歴がある場合のみ表示 */}
+      {provenanceResult.transfers.length > 0 && (
+        <div className="bg-card rounded-lg border">
+          <h2 className="px-4 py-3 font-bold border-b">来歴</h2>
+          <div className="p-4">
+            <BonsaiProvenance createdAt={bonsai.createdAt} transfers={provenanceResult.transfers} />
+          </div>
+        </div>
+      )}
+
+      {/* 譲渡 - オーナーのみ表示 */}
+      {isOwner && (
+        <div className="bg-card rounded-lg border">
+          <h2 className="px-4 py-3 font-bold border-b">譲渡</h2>
+          <div className="p-4">
+            <BonsaiTransferPanel bonsaiId={id} pendingTransfer={pendingTransfer} />
+          </div>
+        </div>
+      )}
+
       {/* タイムラインセクション - 成長記録と投稿を時系列で表示 */}
       <div className="bg-card rounded-lg border">
         <h2 className="px-4 py-3 font-bold border-b">タイムライン</h2>
@@ -0,0 +1,126 @@
+/**
+ * @file 季節のお手入れカレンダーページコンポーネント
+ * @description 居住地域の気候と自分の盆栽の樹種から、月ごとのお手入れを表示するページ
+ *              - 認証済みユーザーのみアクセス可能
+ *              - 適期は居住地域の気候区分（寒冷地〜亜熱帯）に合わせてずらす
+ *              - 前月・翌月へ移動できる（?year=2026&month=3）
+ */
+
+// NextAuth.js の認証関数 - 現在のセッション情報を取得
+import { auth } from '@/lib/auth'
+
+// Next.js のリダイレクト関数 - 未認証ユーザーをログインページへ誘導
+import { redirect } from 'next/navigation'
+
+// Next.js のLink コンポーネント - ナビゲーション用
+import Link from 'next/link'
+
+// 月ごとのお手入れを取得するServer Action
+import { getMonthlyCareCalendar } from '@/lib/actions/care-calendar'
+
+// お手入れカレンダーの作業一覧コンポーネント
+import { CareCalendarList } from '@/components/bonsai/CareCalendarList'
+
+/**
+ * ページのメタデータ定義
+ */
+export const metadata = {
+  title: 'お手入れカレンダー - BON-LOG',
+  description: 'お住まいの地域とあなたの盆栽に合わせた季節のお手入れ',
+}
+
+/**
+ * ページコンポーネントのProps型定義
+ */
+interface PageProps {
+  searchParams: Promise<{ year?: string; month?: string }>
+}
+
+/**
+ * 季節のお手入れカレンダーページのメインコンポーネント
+ *
+ * @param props - ページのプロパティ
+ * @param props.searchParams - 表示する年・月（省略時は今月）
+ * @returns お手入れカレンダーページのJSX
+ */
+export default async function CareCalendarPage({ searchParams }: PageProps) {
+  // 現在のセッション情報を取得
+  const session = await auth()
+
+  // 未認証の場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const params = await searchParams
+  const result = await getMonthlyCareCalendar({
+    year: params.year ? Number(params.year) : undefined,
+    month: params.month ? Number(params.month) : undefined,
+  })
+
+  if ('error' in result) {
+    return (
+      <div className="max-w-2xl mx-auto p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+        {result.error}
+      </div>
+    )
+  }
+
+  // 前月・翌月のリンク先
+  const prev = result.month === 1 ? { year: result.year - 1, month: 12 } : { year: result.year, month: result.month - 1 }
+  const next = result.month === 12 ? { year: result.year + 1, month: 1 } : { year: result.year, month: result.month + 1 }
+
+  return (
+    <div className="max-w-2xl mx-auto bg-card rounded-lg border">
+      <div className="px-4 py-3 border-b flex items-center justify-between">
+        <h1 className="font-bold">お手入れカレンダー</h1>
+        <Link href="/bonsai" className="text-sm text-muted-foreground hover:text-foreground">
+          マイ盆栽に戻る
+        </Link>
+      </div>
+
+      {/* 月の切り替え */}
+      <div className="px-4 py-3 border-b flex items-center justify-between">
+        <Link
+          href={`/bonsai/calendar?year=${prev.year}&month=${prev.month}`}
+          className="text-sm text-primary hover:text-primary/80"
+        >
+          ← {prev.month}月
+        </Link>
+        <h2 className="font-bold">{result.year}年{result.month}月</h2>
+        <Link
+          href={`/bonsai/calendar?year=${next.year}&month=${next.month}`}
+          className="text-sm text-primary hover:text-primary/80"
+        >
+          {next.month}月 →
+        </Link>
+      </div>
+
+      {/* 気候区分の説明 */}
+      <div className="px-4 py-3 border-b text-sm text-muted-foreground space-y-1">
+        {result.location ? (
+          <p>
+            お住まいの地域（{result.location}）に合わせて<strong>{result.zone.label}</strong>の適期で表示しています。
+          </p>
+        ) : (
+          <p>
+            お住まいの地域が設定されていないため、<strong>{result.zone.label}</strong>（関東〜近畿の平野部）の適期で表示しています。
+            <Link href="/settings/profile" className="ml-1 text-primary hover:underline">
+              地域を設定する
+            </Link>
+          </p>
+        )}
+        {result.unlinkedBonsaiCount > 0 && (
+          <p>
+            樹種が図鑑に登録されていない盆栽が{result.unlinkedBonsaiCount}鉢あります。
+            樹種を図鑑の名前で登録するとカレンダーに表示されます。
+          </p>
+        )}
+      </div>
+
+      <div className="px-4 py-1">
+        <CareCalendarList items={result.items} />
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,9 @@
  *              - 認証済みユーザーのみアクセス可能
  *              - Server Componentとして実装し、盆栽一覧をサーバーサイドで取得
  *              - 盆栽の追加、詳細表示、管理機能への導線を提供
+ *              - 1週間以内のお手入れ予定を盆栽横断で表示
+ *              - 届いている譲渡の申し込みへの導線を表示
+ *              - 季節のお手入れカレンダーへの導線を表示
  */
 
 // NextAuth.js の認証関数 - 現在のセッション情報を取得
@@ -15,9 +18,21 @@ import { redirect } from 'next/navigation'
 // 盆栽一覧を取得するServer Action
 import { getBonsais } from '@/lib/actions/bonsai'
 
+// 近日中のお手入れ予定を取得するServer Action
+import { getUpcomingCareTasks } from '@/lib/actions/care-task'
+
+// 自分宛ての譲渡の申し込みを取得するServer Action
+import { getReceivedBonsaiTransfers } from '@/lib/actions/bonsai-transfer'
+
+// Next.js のLink コンポーネント - 譲渡の申し込み・お手入れカレンダーページへの導線
+import Link from 'next/link'
+
 // 盆栽リストのクライアントコンポーネント - グリッド表示とインタラクションを担当
 import { BonsaiListClient } from '@/components/bonsai/BonsaiListClient'
 
+// お手入れ予定一覧コンポーネント - 期日が近い予定の表示と完了
+import { CareTaskList } from '@/components/bonsai/CareTaskList'
+
 /**
  * ページのメタデータ定義
  * ブラウザのタブに表示されるタイトルと説明文を設定
@@ -34,6 +49,9 @@ export const metadata = {
  * - 認証チェックを行い、未ログインユーザーはログインページへリダイレクト
  * - ユーザーが登録した盆栽一覧をサーバーサイドで取得
  * - BonsaiListClientコンポーネントでグリッド表示
+ * - 1週間以内（期限切れ含む）のお手入れ予定を一覧の上に表示
+ * - 譲渡の申し込みが届いている場合は申し込みページへの導線を表示
+ * - 盆栽がある場合はお手入れカレンダーへの導線を表示
  *
  * @returns マイ盆栽一覧ページのJSX
  */
@@ -46,12 +64,52 @@ export default async function BonsaiListPage() {
     redirect('/login')
   }
 
-  // ユーザーの盆栽一覧を取得
-  const result = await getBonsais()
+  // ユーザーの盆栽一覧と近日中のお手入れ予定を並列で取得
+  const [result, careTasksResult, transfersResult] = await Promise.all([
+    getBonsais(),
+    getUpcomingCareTasks(),
+    getReceivedBonsaiTransfers(),
+  ])
 
   // エラー時は空配列をデフォルト値として使用
   const bonsais = result.bonsais || []
+  const upcomingTasks = careTasksResult.tasks
+  const pendingTransferCount = transfersResult.transfers.length
+
+  return (
+    <div className="space-y-6">
+      {/* 届いている譲渡の申し込み - ある場合のみ表示 */}
+      {pendingTransferCount > 0 && (
+        <Link
+          href="/bonsai/transfers"
+          className="block max-w-2xl mx-auto px-4 py-3 bg-card rounded-lg border hover:bg-muted/50 transition-colors"
+        >
+          盆栽の譲渡の申し込みが<strong>{pendingTransferCount}件</strong>届いています
+        </Link>
+      )}
+
+      {/* 季節のお手入れカレンダーへの導線 - 盆栽がある場合のみ表示 */}
+      {bonsais.length > 0 && (
+        <Link
+          href="/bonsai/calendar"
+          className="block max-w-2xl mx-auto px-4 py-3 bg-card rounded-lg border hover:bg-muted/50 transition-colors"
+        >
+          お住まいの地域に合わせた<strong>季節のお手入れカレンダー</strong>を見る
+        </Link>
+      )}
+
+      {/* 近日中のお手入れ予定 - 予定がある場合のみ表示 */}
+      {upcomingTasks.length > 0 && (
+        <div className="max-w-2xl mx-auto bg-card rounded-lg border">
+          <h2 className="px-4 py-3 font-bold border-b">1週間以内のお手入れ予定</h2>
+          <div className="p-4">
+            <CareTaskList tasks={upcomingTasks} />
+          </div>
+        </div>
+      )}
 
-  // クライアントコンポーネントに初期データを渡して表示
-  return <BonsaiListClient initialBonsais={bonsais} />
+      {/* クライアントコンポーネントに初期データを渡して表示 */}
+      <BonsaiListClient initialBonsais={bonsais} />
+    </div>
+  )
 }
@@ -0,0 +1,60 @@
+/**
+ * @file 盆栽の譲渡の申し込みページコンポーネント
+ * @description 自分宛てに届いた盆栽の譲渡の申し込みを一覧表示するページ
+ *              - 認証済みユーザーのみアクセス可能
+ *              - 受け取ると成長記録ごと盆栽が自分のコレクションに加わる
+ */
+
+// NextAuth.js の認証関数 - 現在のセッション情報を取得
+import { auth } from '@/lib/auth'
+
+// Next.js のリダイレクト関数 - 未認証ユーザーをログインページへ誘導
+import { redirect } from 'next/navigation'
+
+// Next.js のLink コンポーネント - ナビゲーション用
+import Link from 'next/link'
+
+// 自分宛ての譲渡の申し込みを取得するServer Action
+import { getReceivedBonsaiTransfers } from '@/lib/actions/bonsai-transfer'
+
+// 申し込み一覧コンポーネント - 受け取り・辞退の操作
+import { BonsaiTransferRequestList } from '@/components/bonsai/BonsaiTransferRequestList'
+
+/**
+ * ページのメタデータ定義
+ */
+export const metadata = {
+  title: '譲渡の申し込み - BON-LOG',
+  description: 'あなた宛ての盆栽の譲渡の申し込み',
+}
+
+/**
+ * 盆栽の譲渡の申し込みページのメインコンポーネント
+ *
+ * @returns 譲渡の申し込みページのJSX
+ */
+export default async function BonsaiTransfersPage() {
+  // 現在のセッション情報を取得
+  const session = await auth()
+
+  // 未認証の場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const { transfers } = await getReceivedBonsaiTransfers()
+
+  return (
+    <div className="max-w-2xl mx-auto bg-card rounded-lg border">
+      <div className="px-4 py-3 border-b flex items-center justify-between">
+        <h1 className="font-bold">譲渡の申し込み</h1>
+        <Link href="/bonsai" className="text-sm text-muted-foreground hover:text-foreground">
+          マイ盆栽に戻る
+        </Link>
+      </div>
+      <div className="px-4">
+        <BonsaiTransferRequestList transfers={transfers} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview リストの編集ページ
+ *
+ * このファイルはリストの名前・説明・公開設定を編集するページコンポーネントです。
+ * リストの削除もこのページから行います。
+ *
+ * @route /lists/[id]/edit
+ * @param {string} id - 編集対象リストのID
+ * @requires 認証必須 - 未ログインユーザーはログインページへリダイレクト
+ */
+
+// Next.jsのナビゲーションユーティリティ（404・リダイレクト用）
+import { notFound, redirect } from 'next/navigation'
+
+// NextAuth.jsの認証ヘルパー（現在のセッション取得用）
+import { auth } from '@/lib/auth'
+
+// リストの詳細取得用のServer Action
+import { getList } from '@/lib/actions/list'
+
+// リスト編集フォーム
+import { ListForm } from '@/components/list/ListForm'
+
+/**
+ * ページコンポーネントのProps型定義
+ */
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * ページのメタデータ定義
+ */
+export const metadata = {
+  title: 'リストを編集 - BON-LOG',
+}
+
+/**
+ * リストの編集ページのメインコンポーネント
+ *
+ * 作成者以外がアクセスした場合は404を表示します。
+ *
+ * @param {Props} props - ページのプロパティ
+ * @returns {Promise<JSX.Element>} レンダリングするJSX要素
+ */
+export default async function EditListPage({ params }: Props) {
+  const { id } = await params
+
+  // 現在のセッションを取得
+  const session = await auth()
+
+  // 未認証の場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const { list } = await getList(id)
+
+  // 存在しない・自分のものではないリストは404
+  if (!list || !list.isOwner) {
+    notFound()
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-4">
+      <h1 className="text-2xl font-bold mb-6">リストを編集</h1>
+      <div className="bg-card rounded-lg border p-4">
+        <ListForm list={list} />
+      </div>
+    </div>
+  )
+}
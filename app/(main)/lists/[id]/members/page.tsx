@@ -0,0 +1,89 @@
+/**
+ * @fileoverview リストのメンバーページ
+ *
+ * このファイルはリストのメンバーを一覧表示するページコンポーネントです。
+ * リストの作成者はメンバーを削除できます。
+ *
+ * @route /lists/[id]/members
+ * @param {string} id - 表示対象リストのID
+ * @requires 認証必須 - 未ログインユーザーはログインページへリダイレクト
+ */
+
+// Next.js のリンクコンポーネント（リストへ戻るリンク用）
+import Link from 'next/link'
+
+// Next.jsのナビゲーションユーティリティ（404・リダイレクト用）
+import { notFound, redirect } from 'next/navigation'
+
+// NextAuth.jsの認証ヘルパー（現在のセッション取得用）
+import { auth } from '@/lib/auth'
+
+// リストの詳細・メンバー取得用のServer Actions
+import { getList, getListMembers } from '@/lib/actions/list'
+
+// リストのメンバー一覧コンポーネント（削除機能付き）
+import { ListMemberList } from '@/components/list/ListMemberList'
+
+/**
+ * ページコンポーネントのProps型定義
+ */
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * ページのメタデータ定義
+ */
+export const metadata = {
+  title: 'リストのメンバー - BON-LOG',
+}
+
+/**
+ * リストのメンバーページのメインコンポーネント
+ *
+ * @param {Props} props - ページのプロパティ
+ * @returns {Promise<JSX.Element>} レンダリングするJSX要素
+ */
+export default async function ListMembersPage({ params }: Props) {
+  const { id } = await params
+
+  // 現在のセッションを取得
+  const session = await auth()
+
+  // 未認証の場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  // リストの詳細とメンバーを並列で取得
+  const [{ list }, { users }] = await Promise.all([
+    getList(id),
+    getListMembers(id),
+  ])
+
+  // 存在しない・閲覧できないリストは404
+  if (!list) {
+    notFound()
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 space-y-4">
+      <div>
+        <Link href={`/lists/${list.id}`} className="text-sm text-primary hover:underline">
+          ← {list.name}
+        </Link>
+        <h1 className="text-2xl font-bold mt-2">メンバー（{users.length}人）</h1>
+      </div>
+
+      {/* メンバーがいない場合の空状態メッセージ */}
+      {users.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>メンバーはまだいません</p>
+          <p className="text-sm mt-2">プロフィールページの「リストに追加」から追加できます</p>
+        </div>
+      ) : (
+        <ListMemberList users={users} listId={list.id} isOwner={list.isOwner} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview リストのタイムラインページ
+ *
+ * このファイルはリストの情報と、メンバーの投稿のタイムラインを表示するページコンポーネントです。
+ *
+ * 主な機能:
+ * - リスト名・説明・作成者・メンバー数・フォロワー数の表示
+ * - 作成者には編集リンク、他のユーザーにはフォローボタンを表示
+ * - メンバーの投稿のタイムライン（追加読み込み対応）
+ *
+ * @route /lists/[id]
+ * @param {string} id - 表示対象リストのID
+ * @requires 認証必須 - 未ログインユーザーはログインページへリダイレクト
+ */
+
+// Next.js のリンクコンポーネント（編集・メンバーページへの遷移用）
+import Link from 'next/link'
+
+// Next.jsのナビゲーションユーティリティ（404・リダイレクト用）
+import { notFound, redirect } from 'next/navigation'
+
+// NextAuth.jsの認証ヘルパー（現在のセッション取得用）
+import { auth } from '@/lib/auth'
+
+// リストの詳細・タイムライン取得用のServer Actions
+import { getList, getListTimeline } from '@/lib/actions/list'
+
+// shadcn/ui のボタンコンポーネント
+import { Button } from '@/components/ui/button'
+
+// リストのフォローボタン
+import { ListFollowButton } from '@/components/list/ListFollowButton'
+
+// リストの投稿リスト - 追加読み込みを実装
+import { ListPostList } from './ListPostList'
+
+/**
+ * ページコンポーネントのProps型定義
+ * Next.js 15以降ではparamsがPromiseとして渡される
+ */
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * ページのメタデータ定義
+ * 非公開のリスト名が漏れないよう、固定のタイトルを設定
+ */
+export const metadata = {
+  title: 'リスト - BON-LOG',
+}
+
+/**
+ * リストのタイムラインページのメインコンポーネント
+ *
+ * @param {Props} props - ページのプロパティ
+ * @returns {Promise<JSX.Element>} レンダリングするJSX要素
+ */
+export default async function ListPage({ params }: Props) {
+  const { id } = await params
+
+  // 現在のセッションを取得
+  const session = await auth()
+
+  // 未認証の場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  // リストの詳細とタイムラインの初期データを並列で取得
+  const [listResult, timelineResult] = await Promise.all([
+    getList(id),
+    getListTimeline(id),
+  ])
+
+  // 存在しない・閲覧できないリストは404
+  if (!listResult.list) {
+    notFound()
+  }
+
+  const list = listResult.list
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      {/* リスト情報 */}
+      <div className="bg-card rounded-lg border p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold">
+              {list.name}
+              {!list.isPublic && (
+                <span className="ml-2 text-xs font-normal text-muted-foreground">非公開</span>
+              )}
+            </h1>
+            {list.description && (
+              <p className="text-sm text-muted-foreground mt-1">{list.description}</p>
+            )}
+            <p className="text-sm text-muted-foreground mt-2">
+              作成:{' '}
+              <Link href={`/users/${list.owner.id}`} className="hover:underline">
+                {list.owner.nickname}さん
+              </Link>
+            </p>
+            <p className="text-sm text-muted-foreground">
+              <Link href={`/lists/${list.id}/members`} className="hover:underline">
+                {list.memberCount}人のメンバー
+              </Link>
+              ・{list.followerCount}人のフォロワー
+            </p>
+          </div>
+
+          {/* 作成者: 編集リンク / 他のユーザー: フォローボタン */}
+          {list.isOwner ? (
+            <Button variant="outline" asChild>
+              <Link href={`/lists/${list.id}/edit`}>編集</Link>
+            </Button>
+          ) : (
+            <ListFollowButton listId={list.id} initialIsFollowing={list.isFollowing} />
+          )}
+        </div>
+      </div>
+
+      {/* タイムライン */}
+      <div className="bg-card rounded-lg border overflow-hidden">
+        <ListPostList
+          listId={list.id}
+          initialPosts={timelineResult.posts}
+          initialNextCursor={timelineResult.nextCursor}
+          currentUserId={session.user.id}
+        />
+      </div>
+    </div>
+  )
+}
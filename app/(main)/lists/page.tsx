@@ -0,0 +1,141 @@
+/**
+ * @fileoverview リスト一覧ページ
+ *
+ * このファイルはログインユーザーのリストを管理するページコンポーネントです。
+ * リストは選んだユーザーの投稿だけを表示するタイムラインです。
+ *
+ * 主な機能:
+ * - リストの作成
+ * - 自分のリストの一覧表示
+ * - フォロー中の公開リストの一覧表示
+ * - 認証チェックによるアクセス制御
+ *
+ * @route /lists
+ * @requires 認証必須 - 未ログインユーザーはログインページへリダイレクト
+ */
+
+// Next.jsのメタデータ型定義（SEO設定用）
+import { Metadata } from 'next'
+
+// Next.js のリンクコンポーネント（各リストへの遷移用）
+import Link from 'next/link'
+
+// NextAuth.jsの認証ヘルパー（現在のセッション取得用）
+import { auth } from '@/lib/auth'
+
+// Next.jsのナビゲーションユーティリティ（リダイレクト用）
+import { redirect } from 'next/navigation'
+
+// 自分のリスト・フォロー中のリスト取得用のServer Action
+import { getMyLists } from '@/lib/actions/list'
+
+// リスト作成フォーム
+import { ListForm } from '@/components/list/ListForm'
+
+/**
+ * 静的メタデータの定義
+ * ページタイトルと説明の設定
+ */
+export const metadata: Metadata = {
+  title: 'リスト | BON-LOG',
+  description: 'リストの管理',
+}
+
+/**
+ * リスト一覧ページのメインコンポーネント
+ *
+ * Server Componentとして動作し、以下の処理を行います:
+ * 1. セッションの認証チェック
+ * 2. 自分のリストとフォロー中のリストを取得
+ * 3. 作成フォームとそれぞれの一覧または空状態メッセージを表示
+ *
+ * @returns {Promise<JSX.Element>} レンダリングするJSX要素
+ */
+export default async function ListsPage() {
+  // 現在のセッションを取得（認証状態の確認）
+  const session = await auth()
+
+  // 未ログインの場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const { lists, followedLists } = await getMyLists()
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold mb-2">リスト</h1>
+        <p className="text-sm text-muted-foreground">
+          選んだユーザーの投稿だけを表示するタイムラインを作れます。メンバーはプロフィールページの「リストに追加」から追加できます。
+        </p>
+      </div>
+
+      <section className="bg-card rounded-lg border p-4">
+        <h2 className="text-lg font-semibold mb-4">新しいリスト</h2>
+        <ListForm />
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-4">自分のリスト</h2>
+        {/* リストがない場合の空状態メッセージ */}
+        {lists.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>リストはまだありません</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {lists.map((list) => (
+              <li key={list.id}>
+                <Link
+                  href={`/lists/${list.id}`}
+                  className="block p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                >
+                  <p className="font-semibold">
+                    {list.name}
+                    {!list.isPublic && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">非公開</span>
+                    )}
+                  </p>
+                  {list.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-1">{list.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {list.memberCount}人のメンバー・{list.followerCount}人のフォロワー
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-4">フォロー中のリスト</h2>
+        {/* フォロー中のリストがない場合の空状態メッセージ */}
+        {followedLists.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>フォロー中のリストはありません</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {followedLists.map((list) => (
+              <li key={list.id}>
+                <Link
+                  href={`/lists/${list.id}`}
+                  className="block p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                >
+                  <p className="font-semibold">{list.name}</p>
+                  <p className="text-sm text-muted-foreground">作成: {list.owner.nickname}さん</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {list.memberCount}人のメンバー・{list.followerCount}人のフォロワー
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+/**
+ * @file グループ設定ページコンポーネント
+ * @description グループ会話のメンバー一覧と管理操作を表示するページ
+ *              - 認証済みかつグループの参加者のみアクセス可能
+ *              - 操作できる内容は参加者の役割（owner / admin / member）で変わる
+ */
+
+// Next.js のナビゲーション関数
+// - redirect: 未認証ユーザーをログインページへ誘導
+// - notFound: 会話が見つからない、またはグループでない場合に404ページを表示
+import { redirect, notFound } from 'next/navigation'
+
+// Next.js のLink コンポーネント - 会話画面へ戻るリンク用
+import Link from 'next/link'
+
+// NextAuth.js の認証関数 - 現在のセッション情報を取得
+import { auth } from '@/lib/auth'
+
+// 会話の詳細情報を取得するServer Action
+import { getConversation } from '@/lib/actions/message'
+
+// グループメンバー管理コンポーネント
+import { GroupMemberManager } from '@/components/message/GroupMemberManager'
+
+/**
+ * ページプロパティの型定義
+ */
+interface GroupMembersPageProps {
+  params: Promise<{ conversationId: string }>
+}
+
+/**
+ * ページのメタデータ定義
+ */
+export const metadata = {
+  title: 'グループ設定 - BON-LOG',
+}
+
+/**
+ * グループ設定ページのメインコンポーネント
+ *
+ * @param params - ルートパラメータ（conversationId）
+ * @returns グループ設定ページのJSX
+ */
+export default async function GroupMembersPage({ params }: GroupMembersPageProps) {
+  // 現在のセッション情報を取得
+  const session = await auth()
+
+  // 未認証の場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const { conversationId } = await params
+  const result = await getConversation(conversationId)
+
+  // 会話が見つからない、または1対1の会話の場合は404
+  if ('error' in result || !result.conversation || !result.conversation.isGroup) {
+    notFound()
+  }
+
+  const { conversation } = result
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-card rounded-lg border">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <h1 className="text-xl font-bold">グループ設定</h1>
+          <Link
+            href={`/messages/${conversationId}`}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            会話に戻る
+          </Link>
+        </div>
+
+        <div className="p-4">
+          <GroupMemberManager
+            conversationId={conversationId}
+            title={conversation.title || ''}
+            members={conversation.members}
+            currentUserId={session.user.id}
+            myRole={conversation.myRole}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
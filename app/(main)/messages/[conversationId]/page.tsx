@@ -1,9 +1,9 @@
 /**
  * @file 会話詳細ページコンポーネント
- * @description 特定のユーザーとのダイレクトメッセージ会話を表示するページ
+ * @description 特定のユーザー、またはグループとのダイレクトメッセージ会話を表示するページ
  *              - 認証済みユーザーのみアクセス可能
  *              - Server Componentとして実装し、会話とメッセージをサーバーサイドで取得
- *              - リアルタイムメッセージ表示と送信機能を提供
+ *              - リアルタイムメッセージ表示と送信機能を提供（SSEで新着・入力中・既読を反映）
  */
 
 // Next.js のナビゲーション関数
@@ -76,6 +76,13 @@ export async function generateMetadata({ params }: ConversationPageProps) {
     return { title: 'メッセージ - BON-LOG' }
   }
 
+  // グループはグループ名をタイトルに含める
+  if (result.conversation.isGroup) {
+    return {
+      title: `${result.conversation.title || 'グループ'} - BON-LOG`,
+    }
+  }
+
   // 相手のニックネームをタイトルに含める
   return {
     title: `${result.conversation.otherUser?.nickname || 'ユーザー'}とのメッセージ - BON-LOG`,
@@ -139,34 +146,47 @@ export default async function ConversationPage({ params }: ConversationPageProps
             <ArrowLeftIcon className="w-5 h-5" />
           </Link>
 
-          {/* 相手ユーザーのプロフィールへのリンク */}
-          <Link
-            href={conversation.otherUser ? `/users/${conversation.otherUser.id}` : '#'}
-            className="flex items-center gap-3 hover:opacity-80 transition-opacity"
-          >
-            {/* アバター画像 */}
-            {conversation.otherUser?.avatarUrl ? (
-              <Image
-                src={conversation.otherUser.avatarUrl}
-                alt={conversation.otherUser.nickname || ''}
-                width={40}
-                height={40}
-                className="rounded-full"
-              />
-            ) : (
-              // アバターがない場合のフォールバック（頭文字表示）
-              <div className="w-10 h-10 bg-muted rounded-full flex items-center justify-center">
-                <span className="text-muted-foreground">
-                  {conversation.otherUser?.nickname?.charAt(0) || '?'}
-                </span>
-              </div>
-            )}
-
-            {/* 相手ユーザー名 */}
-            <span className="font-medium">
-              {conversation.otherUser?.nickname || '削除されたユーザー'}
-            </span>
-          </Link>
+          {conversation.isGroup ? (
+            // グループ設定ページへのリンク（グループ名と人数）
+            <Link
+              href={`/messages/${conversationId}/members`}
+              className="flex flex-col hover:opacity-80 transition-opacity"
+            >
+              <span className="font-medium">{conversation.title || 'グループ'}</span>
+              <span className="text-xs text-muted-foreground">
+                {conversation.members.length}人のメンバー
+              </span>
+            </Link>
+          ) : (
+            // 相手ユーザーのプロフィールへのリンク
+            <Link
+              href={conversation.otherUser ? `/users/${conversation.otherUser.id}` : '#'}
+              className="flex items-center gap-3 hover:opacity-80 transition-opacity"
+            >
+              {/* アバター画像 */}
+              {conversation.otherUser?.avatarUrl ? (
+                <Image
+                  src={conversation.otherUser.avatarUrl}
+                  alt={conversation.otherUser.nickname || ''}
+                  width={40}
+                  height={40}
+                  className="rounded-full"
+                />
+              ) : (
+                // アバターがない場合のフォールバック（頭文字表示）
+                <div className="w-10 h-10 bg-muted rounded-full flex items-center justify-center">
+                  <span className="text-muted-foreground">
+                    {conversation.otherUser?.nickname?.charAt(0) || '?'}
+                  </span>
+                </div>
+              )}
+
+              {/* 相手ユーザー名 */}
+              <span className="font-medium">
+                {conversation.otherUser?.nickname || '削除されたユーザー'}
+              </span>
+            </Link>
+          )}
         </div>
 
         {/* メッセージ一覧 - スクロール可能な領域 */}
@@ -174,6 +194,8 @@ export default async function ConversationPage({ params }: ConversationPageProps
           initialMessages={messages}
           conversationId={conversationId}
           currentUserId={currentUserId}
+          isGroup={conversation.isGroup}
+          memberLastReadAts={conversation.memberLastReadAts}
         />
 
         {/* 入力フォーム - 画面下部に固定 */}
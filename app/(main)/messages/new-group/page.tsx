@@ -0,0 +1,58 @@
+/**
+ * @file グループ作成ページコンポーネント
+ * @description グループ名とメンバーを指定してグループ会話を作成するページ
+ *              - 認証済みユーザーのみアクセス可能
+ *              - 作成フォームはClient Componentで実装
+ */
+
+// Next.js のリダイレクト関数 - 未認証ユーザーをログインページへ誘導
+import { redirect } from 'next/navigation'
+
+// Next.js のLink コンポーネント - 戻るボタン用
+import Link from 'next/link'
+
+// NextAuth.js の認証関数 - 現在のセッション情報を取得
+import { auth } from '@/lib/auth'
+
+// グループ作成フォーム
+import { GroupConversationForm } from '@/components/message/GroupConversationForm'
+
+/**
+ * ページのメタデータ定義
+ */
+export const metadata = {
+  title: 'グループを作成 - BON-LOG',
+}
+
+/**
+ * グループ作成ページのメインコンポーネント
+ *
+ * @returns グループ作成ページのJSX
+ */
+export default async function NewGroupPage() {
+  // 現在のセッション情報を取得
+  const session = await auth()
+
+  // 未認証の場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-card rounded-lg border">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <h1 className="text-xl font-bold">グループを作成</h1>
+          <Link href="/messages" className="text-sm text-muted-foreground hover:underline">
+            キャンセル
+          </Link>
+        </div>
+
+        <div className="p-4">
+          <GroupConversationForm />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@
  *              - 認証済みユーザーのみアクセス可能
  *              - Server Componentとして実装し、会話一覧をサーバーサイドで取得
  *              - 未読メッセージのインジケーター表示をサポート
+ *              - グループ会話はグループ名と人数を表示し、新規作成への導線を持つ
  */
 
 // Next.js のリダイレクト関数 - 未認証ユーザーをログインページへ誘導
@@ -33,6 +34,9 @@ import { ja } from 'date-fns/locale'
 type Conversation = {
   id: string           // 会話ID
   updatedAt: Date      // 最終更新日時
+  isGroup: boolean     // グループ会話かどうか
+  title: string | null // グループ名
+  memberCount: number  // 参加人数
   otherUser?: {        // 相手ユーザーの情報
     id: string
     nickname: string | null
@@ -40,6 +44,7 @@ type Conversation = {
   } | null
   lastMessage?: {      // 最新メッセージ
     content: string
+    sharedPostId: string | null
   } | null
   hasUnread: boolean   // 未読メッセージの有無
 }
@@ -61,6 +66,26 @@ function MessageSquareIcon({ className }: { className?: string }) {
   )
 }
 
+/**
+ * グループアイコンコンポーネント
+ *
+ * @description
+ * グループ会話のアバター代わりに表示するSVGアイコン
+ *
+ * @param className - 追加のCSSクラス
+ * @returns SVGアイコンのJSX
+ */
+function UsersIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"/>
+      <circle cx="9" cy="7" r="4"/>
+      <path d="M22 21v-2a4 4 0 0 0-3-3.87"/>
+      <path d="M16 3.13a4 4 0 0 1 0 7.75"/>
+    </svg>
+  )
+}
+
 /**
  * ページのメタデータ定義
  * ブラウザのタブに表示されるタイトルを設定
@@ -95,8 +120,17 @@ export default async function MessagesPage() {
     <div className="max-w-2xl mx-auto">
       <div className="bg-card rounded-lg border">
         {/* ヘッダー */}
-        <div className="p-4 border-b">
+        <div className="p-4 border-b flex items-center justify-between">
           <h1 className="text-xl font-bold">メッセージ</h1>
+
+          {/* グループ作成ページへのリンク */}
+          <Link
+            href="/messages/new-group"
+            className="flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <UsersIcon className="w-4 h-4" />
+            グループを作成
+          </Link>
         </div>
 
         {/* 会話一覧 */}
@@ -126,8 +160,12 @@ export default async function MessagesPage() {
                 href={`/messages/${conversation.id}`}
                 className="flex items-center gap-3 p-4 hover:bg-muted/50 transition-colors"
               >
-                {/* アバター画像 */}
-                {conversation.otherUser?.avatarUrl ? (
+                {/* アバター画像（グループはアイコン表示） */}
+                {conversation.isGroup ? (
+                  <div className="w-12 h-12 bg-muted rounded-full flex items-center justify-center">
+                    <UsersIcon className="w-6 h-6 text-muted-foreground" />
+                  </div>
+                ) : conversation.otherUser?.avatarUrl ? (
                   <Image
                     src={conversation.otherUser.avatarUrl}
                     alt={conversation.otherUser.nickname || ''}
@@ -147,9 +185,11 @@ export default async function MessagesPage() {
                 {/* 会話情報 */}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between gap-2">
-                    {/* 相手ユーザー名 */}
+                    {/* 相手ユーザー名（グループはグループ名と人数） */}
                     <span className="font-medium truncate">
-                      {conversation.otherUser?.nickname || '削除されたユーザー'}
+                      {conversation.isGroup
+                        ? `${conversation.title || 'グループ'} (${conversation.memberCount})`
+                        : conversation.otherUser?.nickname || '削除されたユーザー'}
                     </span>
 
                     {/* 最終更新時刻（相対表示） */}
@@ -164,7 +204,10 @@ export default async function MessagesPage() {
                   <div className="flex items-center gap-2">
                     {/* 最新メッセージのプレビュー */}
                     <p className="text-sm text-muted-foreground truncate flex-1">
-                      {conversation.lastMessage?.content || 'メッセージなし'}
+                      {conversation.lastMessage
+                        ? conversation.lastMessage.content ||
+                          (conversation.lastMessage.sharedPostId ? '投稿を共有しました' : '画像を送信しました')
+                        : 'メッセージなし'}
                     </p>
 
                     {/* 未読インジケーター */}
@@ -82,6 +82,9 @@ type Props = {
  * - OpenGraph: 記事タイプ、画像、公開日時
  * - Twitter Card: 大きな画像付きカード形式
  *
+ * 全体公開以外の投稿は、リンクのプレビューや検索エンジンに内容が載らないよう
+ * タイトルのみを返し、インデックスさせません。
+ *
  * @param params - 動的ルートパラメータ（投稿ID）
  * @returns メタデータオブジェクト
  */
@@ -101,6 +104,14 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   const truncated = content.length > 100 ? content.slice(0, 100) + '...' : content
   const title = `${post.user.nickname}さんの投稿`
 
+  // 公開範囲が限定された投稿は内容をメタデータに含めない
+  if (post.audience !== 'public') {
+    return {
+      title,
+      robots: { index: false, follow: false },
+    }
+  }
+
   // OG画像として投稿の最初のメディアを使用（なければデフォルト画像）
   const ogImage = post.media?.[0]?.url || '/og-image.jpg'
 
@@ -165,6 +176,8 @@ export default async function PostDetailPage({ params }: Props) {
 
   const post = postResult.post
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://bon-log.com'
+  // 全体公開の投稿のみ構造化データとシェアボタンを出力する
+  const isPublicPost = post.audience === 'public'
 
   // 投稿閲覧を分析用に記録
   // 自分以外の投稿を閲覧した場合のみ記録（自己閲覧は除外）
@@ -176,18 +189,20 @@ export default async function PostDetailPage({ params }: Props) {
 
   return (
     <>
-      {/* SEO用のJSON-LD構造化データ（Article） */}
-      <ArticleJsonLd
-        headline={post.content ? (post.content.length > 100 ? post.content.slice(0, 100) + '...' : post.content) : '投稿'}
-        datePublished={post.createdAt ? new Date(post.createdAt).toISOString() : new Date().toISOString()}
-        author={{
-          name: post.user.nickname,
-          url: `${baseUrl}/users/${post.user.id}`,
-        }}
-        url={`${baseUrl}/posts/${id}`}
-        image={post.media?.[0]?.url}
-        description={post.content ? (post.content.length > 150 ? post.content.slice(0, 150) + '...' : post.content) : undefined}
-      />
+      {/* SEO用のJSON-LD構造化データ（Article、全体公開の投稿のみ） */}
+      {isPublicPost && (
+        <ArticleJsonLd
+          headline={post.content ? (post.content.length > 100 ? post.content.slice(0, 100) + '...' : post.content) : '投稿'}
+          datePublished={post.createdAt ? new Date(post.createdAt).toISOString() : new Date().toISOString()}
+          author={{
+            name: post.user.nickname,
+            url: `${baseUrl}/users/${post.user.id}`,
+          }}
+          url={`${baseUrl}/posts/${id}`}
+          image={post.media?.[0]?.url}
+          description={post.content ? (post.content.length > 150 ? post.content.slice(0, 150) + '...' : post.content) : undefined}
+        />
+      )}
     <div className="max-w-2xl mx-auto">
       <div className="bg-card rounded-lg border overflow-hidden">
         {/* ナビゲーションリンク - タイムラインへ戻る */}
@@ -202,15 +217,18 @@ export default async function PostDetailPage({ params }: Props) {
             （既に詳細ページにいるため） */}
         <PostCard post={post} currentUserId={session?.user?.id} disableNavigation={true} />
 
-        {/* シェアボタンセクション
-            Twitter(X)、Facebook、コピーリンク等のシェア機能 */}
-        <div className="border-t px-4 py-3">
-          <ShareButtons
-            url={`${process.env.NEXT_PUBLIC_APP_URL || 'https://bon-log.com'}/posts/${id}`}
-            title={`${post.user.nickname}さんの投稿 | BON-LOG`}
-            text={post.content ? (post.content.length > 100 ? post.content.slice(0, 100) + '...' : post.content) : ''}
-          />
-        </div>
+        {/* シェアボタンセクション（全体公開の投稿のみ）
+            Twitter(X)、Facebook、コピーリンク、DMで送る等のシェア機能 */}
+        {isPublicPost && (
+          <div className="border-t px-4 py-3">
+            <ShareButtons
+              url={`${process.env.NEXT_PUBLIC_APP_URL || 'https://bon-log.com'}/posts/${id}`}
+              title={`${post.user.nickname}さんの投稿 | BON-LOG`}
+              text={post.content ? (post.content.length > 100 ? post.content.slice(0, 100) + '...' : post.content) : ''}
+              postId={session?.user?.id ? id : undefined}
+            />
+          </div>
+        )}
 
         {/* 広告スペース
             Google AdSense等の広告を表示するエリア */}
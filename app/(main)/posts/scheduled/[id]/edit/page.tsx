@@ -137,6 +137,7 @@ export default async function EditScheduledPostPage({
     genreIds: scheduledPost.genres.map((g: { genreId: string }) => g.genreId),
     // メディア情報をURLと種類のみに簡略化
     media: scheduledPost.media.map((m: { url: string; type: string }) => ({ url: m.url, type: m.type })),
+    audience: scheduledPost.audience,
   }
 
   return (
@@ -21,6 +21,12 @@ import { SearchTabs } from '@/components/search/SearchTabs'
 // ジャンルフィルターコンポーネント - 投稿をジャンルで絞り込む機能
 import { GenreFilter } from '@/components/search/GenreFilter'
 
+// 検索演算子のヘルプ - from: や has: などの書式を一覧表示する
+import { SearchOperatorHelp } from '@/components/search/SearchOperatorHelp'
+
+// 検索を保存ボタン - 新着投稿を通知してもらうために検索条件を保存する
+import { SaveSearchButton } from '@/components/search/SaveSearchButton'
+
 // 検索結果表示コンポーネント群
 // - PostSearchResults: 投稿検索結果の表示
 // - UserSearchResults: ユーザー検索結果の表示
@@ -111,6 +117,8 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
       {/* 検索バー - ユーザーが検索キーワードを入力 */}
       <div className="bg-card rounded-lg border p-4">
         <SearchBar defaultValue={query} placeholder="投稿やユーザーを検索..." />
+        {/* 検索演算子のヘルプ - 投稿タブでのみ表示 */}
+        {tab === 'posts' && <SearchOperatorHelp />}
       </div>
 
       {/* タブと検索結果エリア */}
@@ -122,6 +130,19 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         {tab === 'posts' && (
           <div className="p-3 border-b flex items-center gap-2">
             <GenreFilter genres={genres} selectedGenreIds={genreIds} />
+            {/* 検索を保存 - ログイン中かつキーワード入力済みの場合のみ表示 */}
+            {session?.user?.id && query && (
+              <div className="ml-auto">
+                <SaveSearchButton query={query} genreIds={genreIds} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* ハッシュタグを保存 - タグタブでログイン中かつタグ入力済みの場合のみ表示 */}
+        {tab === 'tags' && session?.user?.id && query && (
+          <div className="p-3 border-b flex items-center justify-end">
+            <SaveSearchButton hashtag={query} />
           </div>
         )}
 
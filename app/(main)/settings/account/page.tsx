@@ -2,10 +2,14 @@
  * @fileoverview アカウント設定ページ
  *
  * このファイルはログインユーザーのアカウント設定を管理するためのページコンポーネントです。
- * プライバシー設定（公開/非公開）とアカウント削除機能を提供します。
+ * メールアドレス、プライバシー設定（公開/非公開、項目ごとの公開範囲）、データのエクスポート、アカウントの一時停止・削除機能を提供します。
  *
  * 主な機能:
+ * - メールアドレスの確認・変更
  * - アカウント公開/非公開の切り替え
+ * - 項目ごとの公開範囲とメッセージを受け付ける相手の設定
+ * - データのエクスポート（ZIPでの一括ダウンロード）
+ * - アカウントの一時停止（猶予期間内のログインで元に戻る）
  * - アカウント削除（危険な操作として明示）
  * - 認証チェックによるアクセス制御
  *
@@ -28,9 +32,25 @@ import { prisma } from '@/lib/db'
 // 公開/非公開切り替えコンポーネント
 import { PrivacyToggle } from '@/components/user/PrivacyToggle'
 
+// 項目ごとの公開範囲の設定コンポーネント
+import { PrivacySettingsSection } from '@/components/user/PrivacySettingsSection'
+
 // アカウント削除ボタンコンポーネント
 import { DeleteAccountButton } from '@/components/user/DeleteAccountButton'
 
+// アカウントの一時停止ボタンコンポーネントと猶予期間
+import { DeactivateAccountButton } from '@/components/user/DeactivateAccountButton'
+import { ACCOUNT_DEACTIVATION_GRACE_DAYS } from '@/lib/account-deactivation'
+
+// データのエクスポートコンポーネント
+import { DataExportSection } from '@/components/user/DataExportSection'
+
+// データのエクスポートの申し込みを取得するServer Action
+import { getDataExports } from '@/lib/actions/data-export'
+
+// メールアドレス設定コンポーネント
+import { EmailSettingsSection } from '@/components/user/EmailSettingsSection'
+
 /**
  * 静的メタデータの定義
  * ページタイトルの設定
@@ -44,8 +64,8 @@ export const metadata = {
  *
  * Server Componentとして動作し、以下の処理を行います:
  * 1. セッションの認証チェック
- * 2. データベースからユーザーの公開設定を取得
- * 3. プライバシー設定とアカウント削除のUIを表示
+ * 2. データベースからユーザーのメールアドレス・公開設定・項目ごとの公開範囲とデータのエクスポートの申し込みを取得
+ * 3. メールアドレス、プライバシー設定、データのエクスポート、アカウントの一時停止・削除のUIを表示
  *
  * @returns {Promise<JSX.Element>} レンダリングするJSX要素
  */
@@ -58,11 +78,25 @@ export default async function AccountSettingsPage() {
     redirect('/login')
   }
 
-  // データベースから現在のユーザー情報を取得（公開設定のみ）
-  const user = await prisma.user.findUnique({
-    where: { id: session.user.id },
-    select: { id: true, isPublic: true },  // 公開設定フラグ
-  })
+  // データベースから現在のユーザー情報（メールアドレス・公開設定）とエクスポートの申し込みを取得
+  const [user, { dataExports }] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        id: true,
+        email: true,
+        emailVerified: true,
+        isPublic: true,  // 公開設定フラグ
+        bonsaiVisibility: true,    // 盆栽コレクションの公開範囲
+        likesVisibility: true,     // いいねした投稿の公開範囲
+        followsVisibility: true,   // フォロー・フォロワー一覧の公開範囲
+        locationVisibility: true,  // 居住地域の公開範囲
+        dmPermission: true,        // メッセージを受け付ける相手
+        emailChangeRequest: { select: { newEmail: true, expires: true } },  // 申請中のメールアドレス変更
+      },
+    }),
+    getDataExports(),
+  ])
 
   // ユーザーが見つからない場合（通常はあり得ないが、安全のため）
   if (!user) {
@@ -83,18 +117,54 @@ export default async function AccountSettingsPage() {
         </div>
 
         <div className="divide-y">
+          {/* メールアドレスセクション（確認状態と変更） */}
+          <div className="p-4">
+            <h2 className="font-medium mb-2">メールアドレス</h2>
+            <EmailSettingsSection
+              email={user.email}
+              verified={!!user.emailVerified}
+              pendingEmail={
+                user.emailChangeRequest && user.emailChangeRequest.expires > new Date()
+                  ? user.emailChangeRequest.newEmail
+                  : null
+              }
+            />
+          </div>
+
           {/* 公開設定セクション */}
           <div className="p-4">
             <h2 className="font-medium mb-2">プライバシー設定</h2>
             {/* 公開/非公開の切り替えトグル（現在の設定を初期値として渡す） */}
             <PrivacyToggle initialIsPublic={user.isPublic} />
+            {/* 項目ごとの公開範囲とメッセージを受け付ける相手 */}
+            <div className="mt-6">
+              <PrivacySettingsSection
+                initialSettings={{
+                  bonsaiVisibility: user.bonsaiVisibility,
+                  likesVisibility: user.likesVisibility,
+                  followsVisibility: user.followsVisibility,
+                  locationVisibility: user.locationVisibility,
+                  dmPermission: user.dmPermission,
+                }}
+              />
+            </div>
+          </div>
+
+          {/* データのエクスポートセクション（アカウント削除の前にダウンロードできる） */}
+          <div className="p-4">
+            <h2 className="font-medium mb-2">データのエクスポート</h2>
+            <DataExportSection dataExports={dataExports} />
           </div>
 
-          {/* アカウント削除セクション（危険な操作として赤色で表示） */}
+          {/* アカウントの一時停止・削除セクション（危険な操作として赤色で表示） */}
           <div className="p-4">
             <h2 className="font-medium mb-2 text-destructive">危険な操作</h2>
-            {/* アカウント削除ボタン（確認ダイアログ付き） */}
-            <DeleteAccountButton />
+            <div className="space-y-6">
+              {/* アカウントの一時停止ボタン（削除の前に選べるよう先に表示） */}
+              <DeactivateAccountButton graceDays={ACCOUNT_DEACTIVATION_GRACE_DAYS} />
+              {/* アカウント削除ボタン（確認ダイアログ付き） */}
+              <DeleteAccountButton />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview 親しい友達リストの管理ページ
+ *
+ * このファイルはログインユーザーの親しい友達リストを管理するページコンポーネントです。
+ * 公開範囲「親しい友達」の投稿は、このリストに含まれるユーザーだけが閲覧できます。
+ *
+ * 主な機能:
+ * - 親しい友達の一覧表示と削除
+ * - フォロワーからの追加
+ * - 認証チェックによるアクセス制御
+ *
+ * @route /settings/close-friends
+ * @requires 認証必須 - 未ログインユーザーはログインページへリダイレクト
+ */
+
+// Next.jsのメタデータ型定義（SEO設定用）
+import { Metadata } from 'next'
+
+// NextAuth.jsの認証ヘルパー（現在のセッション取得用）
+import { auth } from '@/lib/auth'
+
+// Next.jsのナビゲーションユーティリティ（リダイレクト用）
+import { redirect } from 'next/navigation'
+
+// 親しい友達・追加候補取得用のServer Actions
+import { getCloseFriends, getCloseFriendCandidates } from '@/lib/actions/close-friend'
+
+// 親しい友達リスト管理コンポーネント（追加・削除機能付き）
+import { CloseFriendList } from '@/components/user/CloseFriendList'
+
+/**
+ * 静的メタデータの定義
+ * ページタイトルと説明の設定
+ */
+export const metadata: Metadata = {
+  title: '親しい友達 | BON-LOG',
+  description: '親しい友達リストの管理',
+}
+
+/**
+ * 親しい友達リスト管理ページのメインコンポーネント
+ *
+ * Server Componentとして動作し、以下の処理を行います:
+ * 1. セッションの認証チェック
+ * 2. 親しい友達と追加候補のフォロワーを並列で取得
+ * 3. それぞれの一覧または空状態メッセージを表示
+ *
+ * @returns {Promise<JSX.Element>} レンダリングするJSX要素
+ */
+export default async function CloseFriendsPage() {
+  // 現在のセッションを取得（認証状態の確認）
+  const session = await auth()
+
+  // 未ログインの場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  // 親しい友達と追加候補を並列で取得
+  const [{ users: closeFriends }, { users: candidates }] = await Promise.all([
+    getCloseFriends(),
+    getCloseFriendCandidates(),
+  ])
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold mb-2">親しい友達</h1>
+        <p className="text-sm text-muted-foreground">
+          公開範囲を「親しい友達」にした投稿は、ここに追加したユーザーだけが見られます。追加・削除は相手に通知されません。
+        </p>
+      </div>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-4">リスト（{closeFriends.length}人）</h2>
+        {/* 親しい友達がいない場合の空状態メッセージ */}
+        {closeFriends.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>親しい友達はまだいません</p>
+          </div>
+        ) : (
+          <CloseFriendList users={closeFriends} isCloseFriend />
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-4">フォロワーから追加</h2>
+        {/* 追加できるフォロワーがいない場合の空状態メッセージ */}
+        {candidates.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>追加できるフォロワーはいません</p>
+          </div>
+        ) : (
+          <CloseFriendList users={candidates} isCloseFriend={false} />
+        )}
+      </section>
+    </div>
+  )
+}
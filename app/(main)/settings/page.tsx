@@ -121,6 +121,39 @@ function UsersIcon({ className }: { className?: string }) {
   )
 }
 
+/**
+ * 星アイコンコンポーネント
+ * 親しい友達メニューのアイコンとして使用
+ *
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {string} [props.className] - 追加のCSSクラス
+ * @returns {JSX.Element} SVGアイコン要素
+ */
+function StarIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M11.525 2.295a.53.53 0 0 1 .95 0l2.31 4.679a2.123 2.123 0 0 0 1.595 1.16l5.166.756a.53.53 0 0 1 .294.904l-3.736 3.638a2.123 2.123 0 0 0-.611 1.878l.882 5.14a.53.53 0 0 1-.771.56l-4.618-2.428a2.122 2.122 0 0 0-1.973 0L6.396 21.01a.53.53 0 0 1-.77-.56l.881-5.139a2.122 2.122 0 0 0-.611-1.879L2.16 9.795a.53.53 0 0 1 .294-.906l5.165-.755a2.122 2.122 0 0 0 1.597-1.16z" />
+    </svg>
+  )
+}
+
+/**
+ * 検索アイコンコンポーネント
+ * 保存した検索メニューのアイコンとして使用
+ *
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {string} [props.className] - 追加のCSSクラス
+ * @returns {JSX.Element} SVGアイコン要素
+ */
+function SearchIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <circle cx="11" cy="11" r="8" />
+      <path d="m21 21-4.3-4.3" />
+    </svg>
+  )
+}
+
 /**
  * 静的メタデータの定義
  * ページタイトルの設定
@@ -165,6 +198,18 @@ export default function SettingsPage() {
       title: 'フォローリクエスト',
       description: '受信したフォローリクエストの確認・承認',
     },
+    {
+      href: '/settings/close-friends', // 親しい友達リスト管理ページ
+      icon: StarIcon,                  // 星アイコン
+      title: '親しい友達',
+      description: '「親しい友達」限定の投稿を見られるフォロワーの管理',
+    },
+    {
+      href: '/settings/saved-searches', // 保存した検索の管理ページ
+      icon: SearchIcon,                 // 検索アイコン
+      title: '保存した検索',
+      description: '新しい投稿をお知らせする検索条件と通知方法の管理',
+    },
     {
       href: '/settings/subscription', // プラン管理ページ
       icon: CrownIcon,                // 王冠アイコン
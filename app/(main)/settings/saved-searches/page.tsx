@@ -0,0 +1,91 @@
+/**
+ * @fileoverview 保存した検索の管理ページ
+ *
+ * このファイルはログインユーザーが保存した検索を管理するページコンポーネントです。
+ * 保存した検索に一致する新しい投稿があると、アプリ内通知または1日1回のメールで知らせます。
+ *
+ * 主な機能:
+ * - 保存した検索の一覧表示
+ * - 通知方法の変更と削除
+ * - 認証チェックによるアクセス制御
+ *
+ * @route /settings/saved-searches
+ * @requires 認証必須 - 未ログインユーザーはログインページへリダイレクト
+ */
+
+// Next.jsのメタデータ型定義（SEO設定用）
+import { Metadata } from 'next'
+
+// Next.jsのリンクコンポーネント（検索ページへの案内用）
+import Link from 'next/link'
+
+// NextAuth.jsの認証ヘルパー（現在のセッション取得用）
+import { auth } from '@/lib/auth'
+
+// Next.jsのナビゲーションユーティリティ（リダイレクト用）
+import { redirect } from 'next/navigation'
+
+// 保存した検索の取得用のServer Action
+import { getSavedSearches } from '@/lib/actions/saved-search'
+
+// 保存した検索の上限数
+import { MAX_SAVED_SEARCHES } from '@/lib/constants/saved-search'
+
+// 保存した検索の一覧コンポーネント（通知方法の変更・削除機能付き）
+import { SavedSearchList } from '@/components/search/SavedSearchList'
+
+/**
+ * 静的メタデータの定義
+ * ページタイトルと説明の設定
+ */
+export const metadata: Metadata = {
+  title: '保存した検索 | BON-LOG',
+  description: '保存した検索の管理',
+}
+
+/**
+ * 保存した検索の管理ページのメインコンポーネント
+ *
+ * Server Componentとして動作し、以下の処理を行います:
+ * 1. セッションの認証チェック
+ * 2. 保存した検索を取得
+ * 3. 一覧または空状態メッセージを表示
+ *
+ * @returns {Promise<JSX.Element>} レンダリングするJSX要素
+ */
+export default async function SavedSearchesPage() {
+  // 現在のセッションを取得（認証状態の確認）
+  const session = await auth()
+
+  // 未ログインの場合はログインページへリダイレクト
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const { searches } = await getSavedSearches()
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold mb-2">保存した検索</h1>
+        <p className="text-sm text-muted-foreground">
+          保存した検索に一致する新しい投稿があるとお知らせします。検索ページの「この検索を保存」から追加できます（最大{MAX_SAVED_SEARCHES}件）。
+        </p>
+      </div>
+
+      <section>
+        {/* 保存した検索がない場合の空状態メッセージ */}
+        {searches.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>保存した検索はまだありません</p>
+            <Link href="/search" className="text-sm text-primary hover:underline">
+              検索ページへ
+            </Link>
+          </div>
+        ) : (
+          <SavedSearchList searches={searches} />
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview デバイスとセッションのページ
+ *
+ * ログインしているデバイスの一覧と、ログアウトの操作を提供するページです。
+ * 紛失したスマートフォンなど、手元にないデバイスのセッションを無効にできます。
+ *
+ * 主な機能:
+ * - ログインしたデバイスの一覧表示（ブラウザ・OS、IPアドレス、最終アクセス）
+ * - デバイスごとのログアウト
+ * - すべてのデバイスからのログアウト
+ *
+ * @route /settings/security/devices
+ * @requires 認証必須 - 未ログインユーザーはログインページへリダイレクト
+ */
+
+// Next.jsのメタデータ型定義（SEO設定用）
+import { Metadata } from 'next'
+
+// Next.jsのナビゲーションユーティリティ（リダイレクト用）
+import { redirect } from 'next/navigation'
+
+// Next.jsのLinkコンポーネント（クライアントサイドナビゲーション用）
+import Link from 'next/link'
+
+// ログインしたデバイスを取得するServer Action
+import { getMyDevices } from '@/lib/actions/user-session'
+
+// デバイス一覧コンポーネント（ログアウト機能付き）
+import { DeviceSessionList } from '@/components/settings/DeviceSessionList'
+
+export const metadata: Metadata = {
+  title: 'デバイスとセッション - BON-LOG',
+  description: 'ログインしているデバイスを管理します',
+}
+
+export default async function DeviceSessionsPage() {
+  const result = await getMyDevices()
+
+  // 未ログインの場合はログインページへリダイレクト
+  if ('error' in result && result.error === '認証が必要です') {
+    redirect('/login')
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-card rounded-lg border">
+        <div className="px-4 py-3 border-b">
+          <Link href="/settings/security" className="text-sm text-muted-foreground hover:underline">
+            &larr; セキュリティ設定に戻る
+          </Link>
+          <h1 className="font-bold text-lg mt-1">デバイスとセッション</h1>
+        </div>
+
+        <div className="p-4">
+          {'error' in result ? (
+            <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+              {result.error}
+            </div>
+          ) : (
+            <DeviceSessionList devices={result.devices} />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
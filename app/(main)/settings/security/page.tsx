@@ -1,20 +1,30 @@
 /**
  * セキュリティ設定ページ
  *
- * 2段階認証（2FA）の設定を行うページです。
+ * 2段階認証（2FA）とソーシャルログインの連携の設定を行うページです。
+ * ログインしているデバイスの管理（/settings/security/devices）へのリンクもあります。
  *
  * @route /settings/security
  */
 
 import { Metadata } from 'next'
+import Link from 'next/link'
 import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings'
+import { SocialAccountSettings } from '@/components/settings/SocialAccountSettings'
+import { getSocialAccounts } from '@/lib/actions/social-login'
 
 export const metadata: Metadata = {
   title: 'セキュリティ設定 - BON-LOG',
   description: '2段階認証などのセキュリティ設定を管理します',
 }
 
-export default function SecuritySettingsPage() {
+interface PageProps {
+  searchParams: Promise<{ error?: string }>
+}
+
+export default async function SecuritySettingsPage({ searchParams }: PageProps) {
+  const [{ error }, socialAccounts] = await Promise.all([searchParams, getSocialAccounts()])
+
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       <div className="bg-card rounded-lg border">
@@ -23,6 +33,33 @@ export default function SecuritySettingsPage() {
           <TwoFactorSettings />
         </div>
       </div>
+
+      <Link
+        href="/settings/security/devices"
+        className="flex items-center justify-between bg-card rounded-lg border px-4 py-3 hover:bg-muted/50 transition-colors"
+      >
+        <div>
+          <h2 className="font-bold">デバイスとセッション</h2>
+          <p className="text-sm text-muted-foreground">
+            ログインしているデバイスの確認とログアウト
+          </p>
+        </div>
+        <span className="text-muted-foreground">&rarr;</span>
+      </Link>
+
+      {!('error' in socialAccounts) && (
+        <div className="bg-card rounded-lg border">
+          <h2 className="px-4 py-3 font-bold border-b">ソーシャルログイン</h2>
+          <div className="p-4">
+            <SocialAccountSettings
+              providers={socialAccounts.providers}
+              linkedProviders={socialAccounts.linkedProviders}
+              hasPassword={socialAccounts.hasPassword}
+              errorCode={error}
+            />
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,201 @@
+/**
+ * @file 樹種ページコンポーネント
+ * @description 樹種図鑑の1樹種の詳細ページ
+ *              - 和名・読み・学名・別名・分類の表示
+ *              - 季節ごとの手入れのガイド
+ *              - その樹種の公開された盆栽と、盆栽に紐づく投稿の一覧
+ */
+
+// Next.js のMetadata型 - 動的メタデータ生成用
+import { Metadata } from 'next'
+
+// Next.js のnotFound関数 - 樹種が見つからない場合に404ページを表示
+import { notFound } from 'next/navigation'
+
+// NextAuth.js の認証関数 - 投稿カードのいいね状態などに使用
+import { auth } from '@/lib/auth'
+
+// 樹種関連のServer Actions
+import { getBonsaiSpecies, getSpeciesBonsais, getSpeciesPosts } from '@/lib/actions/species'
+
+// 樹種の分類・季節の手入れの定義
+import { BONSAI_SPECIES_CARE_SEASONS, getBonsaiSpeciesCategoryLabel } from '@/lib/constants/bonsai-species'
+
+// Next.js のLink コンポーネント - ナビゲーション用
+import Link from 'next/link'
+
+// Next.js のImage コンポーネント - 盆栽画像の最適化表示用
+import Image from 'next/image'
+
+// 投稿カードコンポーネント
+import { PostCard } from '@/components/post/PostCard'
+
+/**
+ * ページプロパティの型定義
+ * Next.js 15以降ではparamsはPromiseとして渡される
+ */
+type Props = {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * ページのメタデータを動的に生成する関数
+ *
+ * @param params - ルートパラメータ（樹種のスラッグ）
+ * @returns メタデータ
+ */
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params
+  const result = await getBonsaiSpecies(slug)
+
+  if (result.error || !result.species) {
+    return { title: '樹種が見つかりません' }
+  }
+
+  return {
+    title: `${result.species.name}の育て方 - BON-LOG`,
+    description: result.species.description ?? `${result.species.name}の季節の手入れと、みんなの${result.species.name}の盆栽`,
+  }
+}
+
+/**
+ * 盆栽アイコンコンポーネント
+ *
+ * @description
+ * 盆栽画像がない場合のフォールバック表示に使用するSVGアイコン
+ *
+ * @param className - 追加のCSSクラス
+ * @returns SVGアイコンのJSX
+ */
+function TreeIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M12 3v18" />
+      <path d="M8 7a4 4 0 0 1 8 0c0 2-2 3-4 3S8 9 8 7Z" />
+      <path d="M6 12a4 4 0 0 1 12 0c0 2-3 3-6 3s-6-1-6-3Z" />
+    </svg>
+  )
+}
+
+/**
+ * 樹種ページのメインコンポーネント
+ *
+ * @param params - ルートパラメータ（樹種のスラッグ）
+ * @returns 樹種ページのJSX
+ */
+export default async function SpeciesPage({ params }: Props) {
+  const { slug } = await params
+
+  const result = await getBonsaiSpecies(slug)
+  if (result.error || !result.species) {
+    notFound()
+  }
+
+  const species = result.species
+
+  // 現在のセッション情報と、樹種の盆栽・投稿を並列で取得
+  const [session, bonsaisResult, postsResult] = await Promise.all([
+    auth(),
+    getSpeciesBonsais(species.id),
+    getSpeciesPosts(species.id),
+  ])
+
+  const bonsais = bonsaisResult.bonsais
+  const posts = postsResult.posts
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* 基本情報 */}
+      <div className="bg-card rounded-lg border">
+        <div className="px-4 py-3 border-b">
+          <Link href="/species" className="text-sm text-muted-foreground hover:text-foreground">
+            樹種図鑑
+          </Link>
+        </div>
+        <div className="p-4 space-y-2">
+          <p className="text-xs text-muted-foreground">{getBonsaiSpeciesCategoryLabel(species.category)}</p>
+          <h1 className="text-2xl font-bold">
+            {species.name}
+            <span className="ml-2 text-sm font-normal text-muted-foreground">{species.nameKana}</span>
+          </h1>
+          {species.scientificName && (
+            <p className="text-sm text-muted-foreground italic">{species.scientificName}</p>
+          )}
+          {species.aliases.length > 0 && (
+            <p className="text-sm text-muted-foreground">別名: {species.aliases.join('、')}</p>
+          )}
+          {species.description && <p className="pt-2">{species.description}</p>}
+        </div>
+      </div>
+
+      {/* 季節ごとの手入れ */}
+      <div className="bg-card rounded-lg border">
+        <h2 className="px-4 py-3 font-bold border-b">季節の手入れ</h2>
+        <dl className="divide-y">
+          {BONSAI_SPECIES_CARE_SEASONS.map((season) => (
+            <div key={season.key} className="px-4 py-3 flex gap-4">
+              <dt className="w-16 flex-shrink-0 font-medium">
+                {season.label}
+                <span className="block text-xs font-normal text-muted-foreground">{season.months}</span>
+              </dt>
+              <dd className="text-sm whitespace-pre-wrap">
+                {species[season.key] || <span className="text-muted-foreground">情報がありません</span>}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {/* みんなの盆栽 */}
+      <div className="bg-card rounded-lg border">
+        <h2 className="px-4 py-3 font-bold border-b">みんなの{species.name}</h2>
+        {bonsais.length > 0 ? (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3 p-4">
+            {bonsais.map((bonsai) => {
+              const image = bonsai.records[0]?.images[0]?.url
+              return (
+                <li key={bonsai.id}>
+                  <Link href={`/bonsai/${bonsai.id}`} className="block rounded-lg border overflow-hidden hover:border-primary/50 transition-colors">
+                    <div className="aspect-square bg-muted relative">
+                      {image ? (
+                        <Image src={image} alt={bonsai.name} fill className="object-cover" />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <TreeIcon className="w-12 h-12 text-muted-foreground" />
+                        </div>
+                      )}
+                    </div>
+                    <div className="p-2">
+                      <p className="text-sm font-medium truncate">{bonsai.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">{bonsai.user.nickname}</p>
+                    </div>
+                  </Link>
+                </li>
+              )
+            })}
+          </ul>
+        ) : (
+          <p className="p-8 text-center text-sm text-muted-foreground">
+            まだ公開されている{species.name}の盆栽はありません
+          </p>
+        )}
+      </div>
+
+      {/* 投稿 */}
+      <div className="bg-card rounded-lg border">
+        <h2 className="px-4 py-3 font-bold border-b">{species.name}の投稿</h2>
+        {posts.length > 0 ? (
+          <div className="divide-y">
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} currentUserId={session?.user?.id} />
+            ))}
+          </div>
+        ) : (
+          <p className="p-8 text-center text-sm text-muted-foreground">
+            まだ{species.name}の投稿はありません
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+/**
+ * @file 樹種図鑑ページコンポーネント
+ * @description 樹種マスタを分類（松柏・雑木・花もの・実もの）ごとに一覧表示するページ
+ *              - 各樹種の読み・学名・公開されている盆栽の数を表示
+ *              - 樹種をクリックすると手入れのガイドと盆栽・投稿の一覧へ遷移
+ */
+
+// Next.js のLink コンポーネント - 樹種ページへのナビゲーション用
+import Link from 'next/link'
+
+// 樹種一覧を取得するServer Action
+import { getBonsaiSpeciesList } from '@/lib/actions/species'
+
+// 樹種の分類の定義
+import { BONSAI_SPECIES_CATEGORIES } from '@/lib/constants/bonsai-species'
+
+/**
+ * ページのメタデータ定義
+ */
+export const metadata = {
+  title: '樹種図鑑 - BON-LOG',
+  description: '盆栽の樹種ごとの季節の手入れと、みんなの盆栽・投稿',
+}
+
+/**
+ * 樹種図鑑ページのメインコンポーネント
+ *
+ * @returns 樹種図鑑ページのJSX
+ */
+export default async function SpeciesListPage() {
+  const { species } = await getBonsaiSpeciesList()
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="bg-card rounded-lg border">
+        <div className="px-4 py-3 border-b">
+          <h1 className="font-bold">樹種図鑑</h1>
+        </div>
+        <p className="px-4 py-3 text-sm text-muted-foreground">
+          樹種ごとの季節の手入れと、その樹種の盆栽・投稿を見ることができます。
+        </p>
+      </div>
+
+      {/* 分類ごとの樹種一覧 */}
+      {BONSAI_SPECIES_CATEGORIES.map((category) => {
+        const items = species.filter((s) => s.category === category.value)
+        if (items.length === 0) return null
+
+        return (
+          <div key={category.value} className="bg-card rounded-lg border">
+            <h2 className="px-4 py-3 font-bold border-b">{category.label}</h2>
+            <ul className="divide-y">
+              {items.map((item) => (
+                <li key={item.id}>
+                  <Link
+                    href={`/species/${item.slug}`}
+                    className="flex items-center justify-between px-4 py-3 hover:bg-muted transition-colors"
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {item.name}
+                        <span className="ml-2 text-xs text-muted-foreground">{item.nameKana}</span>
+                      </p>
+                      {item.scientificName && (
+                        <p className="text-xs text-muted-foreground italic">{item.scientificName}</p>
+                      )}
+                    </div>
+                    <span className="text-sm text-muted-foreground">{item._count.bonsais}鉢</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -9,6 +9,7 @@
  * - 各フォロワーのアバター、ニックネーム、自己紹介を表示
  * - プロフィールページへの戻りリンク
  * - フォロワーがいない場合の空状態メッセージ表示
+ * - フォロー・フォロワー一覧の公開範囲（全員・フォロワーのみ・自分のみ）に応じた表示制御
  * - SEO用のメタデータ生成
  *
  * @route /users/[id]/followers
@@ -27,6 +28,12 @@ import { UserList } from '@/components/user/UserList'
 // Next.jsのLinkコンポーネント（クライアントサイドナビゲーション用）
 import Link from 'next/link'
 
+// NextAuth.jsの認証ヘルパー（閲覧者の確認用）
+import { auth } from '@/lib/auth'
+
+// 項目ごとの公開範囲の判定
+import { canViewArea, getViewerRelationship } from '@/lib/privacy'
+
 /**
  * ページコンポーネントのProps型定義
  * Next.js 15以降ではparamsがPromiseとして渡される
@@ -49,7 +56,7 @@ export async function generateMetadata({ params }: Props) {
 
   // ユーザーのニックネームを取得（メタデータ用）
   const user = await prisma.user.findUnique({
-    where: { id },
+    where: { id, deactivatedAt: null },
     select: { nickname: true },
   })
 
@@ -64,8 +71,9 @@ export async function generateMetadata({ params }: Props) {
  *
  * Server Componentとして動作し、以下の処理を行います:
  * 1. ユーザーの存在確認
- * 2. フォロワー関係のデータを取得（followingId = 対象ユーザー）
- * 3. フォロワーをUserListコンポーネントで表示
+ * 2. フォロー・フォロワー一覧の公開範囲の確認（範囲外の場合は非公開である旨を表示）
+ * 3. フォロワー関係のデータを取得（followingId = 対象ユーザー）
+ * 4. フォロワーをUserListコンポーネントで表示
  *
  * データベース構造:
  * - Follow テーブル: followerId（フォローする人）-> followingId（フォローされる人）
@@ -78,17 +86,43 @@ export default async function FollowersPage({ params }: Props) {
   // URLパラメータからユーザーIDを取得
   const { id } = await params
 
-  // ユーザーの基本情報を取得（存在確認とニックネーム表示用）
-  const user = await prisma.user.findUnique({
-    where: { id },
-    select: { id: true, nickname: true },
-  })
+  // ユーザーの基本情報を取得（存在確認とニックネーム表示用、フォロー・フォロワー一覧の公開範囲）
+  const [session, user] = await Promise.all([
+    auth(),
+    prisma.user.findUnique({
+      where: { id, deactivatedAt: null },
+      select: { id: true, nickname: true, followsVisibility: true },
+    }),
+  ])
 
-  // ユーザーが存在しない場合は404ページを表示
+  // ユーザーが存在しない・一時停止中の場合は404ページを表示
   if (!user) {
     notFound()
   }
 
+  // 閲覧者との関係から、フォロワー一覧を表示できるかを判定
+  const relationship = await getViewerRelationship(id, session?.user?.id)
+  const canView = canViewArea(user.followsVisibility, relationship)
+
+  // 公開範囲外の場合は、フォロワー一覧を取得せずに非公開である旨を表示
+  if (!canView) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-card rounded-lg border">
+          <div className="px-4 py-3 border-b">
+            <Link href={`/users/${id}`} className="text-sm text-muted-foreground hover:underline">
+              &larr; {user.nickname}のプロフィール
+            </Link>
+            <h1 className="font-bold text-lg mt-1">フォロワー</h1>
+          </div>
+          <p className="p-8 text-center text-muted-foreground">
+            フォロワー一覧は非公開です
+          </p>
+        </div>
+      </div>
+    )
+  }
+
   // 対象ユーザーをフォローしているユーザー一覧を取得
   // followingId = id は「このユーザーをフォローしている」レコード
   const followers = await prisma.follow.findMany({
@@ -9,6 +9,7 @@
  * - いいね元の投稿者情報の表示
  * - プロフィールページへの戻りリンク
  * - いいねした投稿がない場合の空状態メッセージ表示
+ * - いいねした投稿の公開範囲（全員・フォロワーのみ・自分のみ）に応じた表示制御
  * - SEO用のメタデータ生成
  *
  * @route /users/[id]/likes
@@ -24,6 +25,12 @@ import { prisma } from '@/lib/db'
 // Next.jsのLinkコンポーネント（クライアントサイドナビゲーション用）
 import Link from 'next/link'
 
+// NextAuth.jsの認証ヘルパー（閲覧者の確認用）
+import { auth } from '@/lib/auth'
+
+// 項目ごとの公開範囲の判定
+import { canViewArea, getViewerRelationship } from '@/lib/privacy'
+
 /**
  * ページコンポーネントのProps型定義
  * Next.js 15以降ではparamsがPromiseとして渡される
@@ -46,7 +53,7 @@ export async function generateMetadata({ params }: Props) {
 
   // ユーザーのニックネームを取得（メタデータ用）
   const user = await prisma.user.findUnique({
-    where: { id },
+    where: { id, deactivatedAt: null },
     select: { nickname: true },
   })
 
@@ -61,8 +68,9 @@ export async function generateMetadata({ params }: Props) {
  *
  * Server Componentとして動作し、以下の処理を行います:
  * 1. ユーザーの存在確認
- * 2. ユーザーがいいねした投稿をリレーション経由で取得
- * 3. いいねした投稿一覧または空状態メッセージを表示
+ * 2. いいねした投稿の公開範囲の確認（範囲外の場合は非公開である旨を表示）
+ * 3. ユーザーがいいねした投稿をリレーション経由で取得
+ * 4. いいねした投稿一覧または空状態メッセージを表示
  *
  * @param {Props} props - ページのプロパティ
  * @returns {Promise<JSX.Element>} レンダリングするJSX要素
@@ -71,17 +79,43 @@ export default async function UserLikesPage({ params }: Props) {
   // URLパラメータからユーザーIDを取得
   const { id } = await params
 
-  // ユーザーの基本情報を取得（存在確認とニックネーム表示用）
-  const user = await prisma.user.findUnique({
-    where: { id },
-    select: { id: true, nickname: true },
-  })
+  // ユーザーの基本情報を取得（存在確認とニックネーム表示用、いいねした投稿の公開範囲）
+  const [session, user] = await Promise.all([
+    auth(),
+    prisma.user.findUnique({
+      where: { id, deactivatedAt: null },
+      select: { id: true, nickname: true, likesVisibility: true },
+    }),
+  ])
 
-  // ユーザーが存在しない場合は404ページを表示
+  // ユーザーが存在しない・一時停止中の場合は404ページを表示
   if (!user) {
     notFound()
   }
 
+  // 閲覧者との関係から、いいねした投稿を表示できるかを判定
+  const relationship = await getViewerRelationship(id, session?.user?.id)
+  const canView = canViewArea(user.likesVisibility, relationship)
+
+  // 公開範囲外の場合は、いいねした投稿を取得せずに非公開である旨を表示
+  if (!canView) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-card rounded-lg border">
+          <div className="px-4 py-3 border-b">
+            <Link href={`/users/${id}`} className="text-sm text-muted-foreground hover:underline">
+              &larr; {user.nickname}のプロフィール
+            </Link>
+            <h1 className="font-bold text-lg mt-1">いいねした投稿</h1>
+          </div>
+          <p className="p-8 text-center text-muted-foreground">
+            いいねした投稿は非公開です
+          </p>
+        </div>
+      </div>
+    )
+  }
+
   // ユーザーのいいね一覧を取得（投稿へのいいねのみ、コメントへのいいねは除外）
   const likes = await prisma.like.findMany({
     where: {
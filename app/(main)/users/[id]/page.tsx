@@ -7,6 +7,7 @@
  * - ユーザーの基本情報（ニックネーム、自己紹介、アバター等）の表示
  * - フォロー数、フォロワー数、投稿数のカウント表示
  * - フォロー/ブロック/ミュート状態の管理
+ * - 居住地域の公開範囲（全員・フォロワーのみ・自分のみ）に応じた表示制御
  * - 最近の投稿一覧の表示（最大10件）
  * - いいね/ブックマーク状態の表示
  * - SEO用のメタデータ生成（OGP対応）
@@ -40,6 +41,9 @@ import { getFollowRequestStatus } from '@/lib/actions/follow-request'
 // ユーザープロフィールヘッダーコンポーネント（アバター、フォローボタン等）
 import { ProfileHeader } from '@/components/user/ProfileHeader'
 
+// 項目ごとの公開範囲の判定（居住地域・投稿の表示制御用）
+import { buildVisiblePostWhere, canViewArea } from '@/lib/privacy'
+
 // 投稿カードコンポーネント（個々の投稿表示用）
 import { PostCard } from '@/components/post/PostCard'
 
@@ -71,11 +75,11 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
 
   // データベースからユーザーの基本情報を取得（メタデータ用の最小限のフィールドのみ）
   const user = await prisma.user.findUnique({
-    where: { id },
+    where: { id, deactivatedAt: null },
     select: { nickname: true, bio: true, avatarUrl: true },
   })
 
-  // ユーザーが存在しない場合のフォールバック
+  // ユーザーが存在しない・一時停止中の場合のフォールバック
   if (!user) {
     return { title: 'ユーザーが見つかりません' }
   }
@@ -137,7 +141,7 @@ export default async function UserProfilePage({ params }: Props) {
 
   // ユーザー情報とカウントを取得（投稿数、フォロワー数、フォロー数）
   const user = await prisma.user.findUnique({
-    where: { id },
+    where: { id, deactivatedAt: null },
     include: {
       _count: {
         select: {
@@ -149,7 +153,7 @@ export default async function UserProfilePage({ params }: Props) {
     },
   })
 
-  // ユーザーが存在しない場合は404ページを表示
+  // ユーザーが存在しない・一時停止中の場合は404ページを表示
   if (!user) {
     notFound()
   }
@@ -250,10 +254,18 @@ export default async function UserProfilePage({ params }: Props) {
     )
   }
 
+  // 居住地域の公開範囲外の場合は居住地域を表示しない
+  const canViewLocation = canViewArea(user.locationVisibility, {
+    isOwner,
+    isFollower: isFollowing,
+    isFollowedBy: false,
+  })
+
   // 最近の投稿を取得（最大10件）
+  // 閲覧できる公開範囲の投稿のみ
   // 関連データ（ユーザー情報、メディア、ジャンル、引用/リポスト）も同時に取得
   const posts = await prisma.post.findMany({
-    where: { userId: id },
+    where: { userId: id, ...buildVisiblePostWhere(session?.user?.id) },
     include: {
       // 投稿者の基本情報
       user: {
@@ -348,7 +360,7 @@ export default async function UserProfilePage({ params }: Props) {
     <div className="max-w-2xl mx-auto space-y-6">
       {/* プロフィールヘッダー（アバター、カバー画像、フォローボタン等） */}
       <ProfileHeader
-        user={userWithCounts}
+        user={{ ...userWithCounts, location: canViewLocation ? user.location : null }}
         isOwner={isOwner}
         isFollowing={isFollowing}
         isBlocked={isBlocked}
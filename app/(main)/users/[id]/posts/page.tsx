@@ -20,6 +20,12 @@ import { notFound } from 'next/navigation'
 // Prismaデータベースクライアント（投稿データ取得用）
 import { prisma } from '@/lib/db'
 
+// 認証関数（閲覧者の取得用）
+import { auth } from '@/lib/auth'
+
+// 投稿の公開範囲の絞り込み条件（閲覧できない投稿の除外用）
+import { buildVisiblePostWhere } from '@/lib/privacy'
+
 // Next.jsのLinkコンポーネント（クライアントサイドナビゲーション用）
 import Link from 'next/link'
 
@@ -45,7 +51,7 @@ export async function generateMetadata({ params }: Props) {
 
   // ユーザーのニックネームを取得（メタデータ用）
   const user = await prisma.user.findUnique({
-    where: { id },
+    where: { id, deactivatedAt: null },
     select: { nickname: true },
   })
 
@@ -72,18 +78,19 @@ export default async function UserPostsPage({ params }: Props) {
 
   // ユーザーの基本情報を取得（存在確認とニックネーム表示用）
   const user = await prisma.user.findUnique({
-    where: { id },
+    where: { id, deactivatedAt: null },
     select: { id: true, nickname: true },
   })
 
-  // ユーザーが存在しない場合は404ページを表示
+  // ユーザーが存在しない・一時停止中の場合は404ページを表示
   if (!user) {
     notFound()
   }
 
-  // ユーザーの全投稿を新しい順で取得
+  // ユーザーの投稿のうち閲覧できる公開範囲のものを新しい順で取得
+  const session = await auth()
   const posts = await prisma.post.findMany({
-    where: { userId: id },
+    where: { userId: id, ...buildVisiblePostWhere(session?.user?.id) },
     orderBy: { createdAt: 'desc' },
   })
 
@@ -6,6 +6,8 @@
 
 // Next.jsのナビゲーションユーティリティ（リダイレクト処理用）
 import { redirect } from 'next/navigation'
+// リクエストヘッダー（権限のないアクセスのIPアドレス記録用）
+import { headers } from 'next/headers'
 // Next.jsのLinkコンポーネント（クライアントサイドナビゲーション用）
 import Link from 'next/link'
 // NextAuth.jsの認証関数とサインアウト関数
@@ -14,6 +16,8 @@ import { auth, signOut } from '@/lib/auth'
 import { isAdmin } from '@/lib/actions/admin'
 // Prismaデータベースクライアント
 import { prisma } from '@/lib/db'
+// 権限のないアクセスの記録
+import { logUnauthorizedAccess } from '@/lib/security-logger'
 
 // ビルド時の静的生成を無効化（データベース接続が必要なため）
 export const dynamic = 'force-dynamic'
@@ -280,8 +284,14 @@ export default async function AdminLayout({
   // 管理者権限をチェック
   const isAdminUser = await isAdmin()
 
-  // 管理者でない場合はフィードページへリダイレクト
+  // 管理者でない場合はセキュリティログに記録してフィードページへリダイレクト
   if (!isAdminUser) {
+    const headersList = await headers()
+    const ip =
+      headersList.get('cf-connecting-ip') ||
+      headersList.get('x-forwarded-for')?.split(',')[0].trim() ||
+      undefined
+    logUnauthorizedAccess('/admin', ip, session.user.id)
     redirect('/feed')
   }
 
@@ -2,6 +2,7 @@
  * @file 管理者用操作ログページ
  * @description 管理者による操作履歴を時系列で表示する管理者ページ。
  *              アクション種別でのフィルタリングが可能。
+ *              セキュリティログ（/admin/logs/security）へのタブを持つ。
  */
 
 // Next.jsのLinkコンポーネント（クライアントサイドナビゲーション用）
@@ -88,6 +89,16 @@ export default async function AdminLogsPage({ searchParams }: PageProps) {
         <span className="text-sm text-muted-foreground">全 {total} 件</span>
       </div>
 
+      {/* タブ */}
+      <div className="flex gap-4 border-b">
+        <span className="px-1 pb-2 text-sm font-medium border-b-2 border-primary">
+          操作ログ
+        </span>
+        <Link href="/admin/logs/security" className="px-1 pb-2 text-sm text-muted-foreground hover:text-foreground">
+          セキュリティログ
+        </Link>
+      </div>
+
       {/* フィルター */}
       <div className="bg-card rounded-lg border p-4">
         <form className="flex gap-4">
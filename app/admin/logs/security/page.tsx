@@ -0,0 +1,368 @@
+/**
+ * @file 管理者用セキュリティログページ
+ * @description ログイン・パスワードリセット・2段階認証の変更などのセキュリティイベントを
+ *              時系列で表示する管理者ページ。
+ *              イベントの種類・重大度・ユーザー・IPアドレスでのフィルタリングが可能。
+ *              ユーザーで絞り込むとそのユーザーのIPアドレスを、
+ *              IPアドレスで絞り込むとそのIPアドレスのユーザーを集計して表示する。
+ */
+
+// Next.jsのLinkコンポーネント（クライアントサイドナビゲーション用）
+import Link from 'next/link'
+// セキュリティイベント取得のServer Action
+import {
+  getSecurityEvents,
+  getSecurityEventIpsForUser,
+  getSecurityEventUsersForIp,
+} from '@/lib/actions/admin'
+// イベントの種類・重大度の定義
+import {
+  SECURITY_EVENT_SEVERITIES,
+  SECURITY_EVENT_TYPES,
+  SECURITY_EVENT_RETENTION_DAYS,
+  getSecurityEventSeverityLabel,
+  getSecurityEventTypeLabel,
+} from '@/lib/constants/security-events'
+
+/**
+ * ページメタデータの定義
+ * ブラウザのタイトルバーに表示される
+ */
+export const metadata = {
+  title: 'セキュリティログ - BON-LOG 管理',
+}
+
+/**
+ * ページコンポーネントのProps型定義
+ * URLのクエリパラメータを受け取る
+ */
+interface PageProps {
+  searchParams: Promise<{
+    /** イベントの種類フィルター */
+    type?: string
+    /** 重大度フィルター */
+    severity?: string
+    /** ユーザーIDフィルター */
+    userId?: string
+    /** IPアドレスフィルター */
+    ip?: string
+    /** 現在のページ番号 */
+    page?: string
+  }>
+}
+
+/**
+ * 重大度ごとのバッジの色
+ */
+const severityStyles: Record<string, string> = {
+  low: 'bg-muted text-muted-foreground',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+}
+
+/**
+ * フィルター条件からURLを作成する
+ *
+ * @param filters - フィルター条件（空の値は含めない）
+ * @returns セキュリティログページのURL
+ */
+function buildHref(filters: Record<string, string | number | undefined>) {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value))
+    }
+  }
+  const queryString = query.toString()
+  return queryString ? `/admin/logs/security?${queryString}` : '/admin/logs/security'
+}
+
+/**
+ * 詳細情報を1行の文字列にする
+ *
+ * @param details - イベントの詳細情報（JSON）
+ * @returns 「キー: 値」をカンマ区切りにした文字列
+ */
+function formatDetails(details: unknown) {
+  if (!details || typeof details !== 'object' || Array.isArray(details)) {
+    return ''
+  }
+  return Object.entries(details as Record<string, unknown>)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join(', ')
+}
+
+/**
+ * 管理者用セキュリティログページコンポーネント
+ * セキュリティイベントをテーブル形式で表示し、フィルタリング機能を提供する
+ *
+ * @param searchParams - URLのクエリパラメータ
+ * @returns セキュリティログページのJSX要素
+ *
+ * 処理内容:
+ * 1. クエリパラメータからフィルター条件を取得
+ * 2. ページネーション設定（1ページ50件）
+ * 3. getSecurityEventsでイベント一覧を取得
+ * 4. ユーザー・IPアドレスで絞り込んでいる場合は関連する集計を取得
+ * 5. フィルターフォーム、集計、イベントテーブル、ページネーションを表示
+ */
+export default async function AdminSecurityLogsPage({ searchParams }: PageProps) {
+  const params = await searchParams
+  const { type, severity, userId, ip } = params
+  const page = parseInt(params.page || '1')
+  const limit = 50
+  const offset = (page - 1) * limit
+
+  const [{ events, total }, userIps, ipUsers] = await Promise.all([
+    getSecurityEvents({ type, severity, userId, ip, limit, offset }),
+    userId ? getSecurityEventIpsForUser(userId) : Promise.resolve(null),
+    ip ? getSecurityEventUsersForIp(ip) : Promise.resolve(null),
+  ])
+
+  const totalPages = Math.ceil(total / limit)
+  const filters = { type, severity, userId, ip }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">セキュリティログ</h1>
+        <span className="text-sm text-muted-foreground">全 {total} 件</span>
+      </div>
+
+      {/* タブ */}
+      <div className="flex gap-4 border-b">
+        <Link href="/admin/logs" className="px-1 pb-2 text-sm text-muted-foreground hover:text-foreground">
+          操作ログ
+        </Link>
+        <span className="px-1 pb-2 text-sm font-medium border-b-2 border-primary">
+          セキュリティログ
+        </span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        セキュリティイベントは{SECURITY_EVENT_RETENTION_DAYS}日間保存されます。
+      </p>
+
+      {/* フィルター */}
+      <div className="bg-card rounded-lg border p-4">
+        <form className="flex flex-wrap gap-4">
+          <select
+            name="type"
+            defaultValue={type || ''}
+            className="px-3 py-2 border rounded-lg bg-background"
+          >
+            <option value="">全イベント</option>
+            {SECURITY_EVENT_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            name="severity"
+            defaultValue={severity || ''}
+            className="px-3 py-2 border rounded-lg bg-background"
+          >
+            <option value="">全重大度</option>
+            {SECURITY_EVENT_SEVERITIES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+
+          <input
+            type="text"
+            name="userId"
+            defaultValue={userId || ''}
+            placeholder="ユーザーID"
+            className="px-3 py-2 border rounded-lg bg-background"
+          />
+
+          <input
+            type="text"
+            name="ip"
+            defaultValue={ip || ''}
+            placeholder="IPアドレス"
+            className="px-3 py-2 border rounded-lg bg-background"
+          />
+
+          <button
+            type="submit"
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
+          >
+            フィルター
+          </button>
+
+          {(type || severity || userId || ip) && (
+            <Link
+              href="/admin/logs/security"
+              className="px-4 py-2 border rounded-lg hover:bg-muted"
+            >
+              クリア
+            </Link>
+          )}
+        </form>
+      </div>
+
+      {/* ユーザーのIPアドレス */}
+      {userIps && (
+        <div className="bg-card rounded-lg border">
+          <div className="px-4 py-3 border-b">
+            <h2 className="font-medium">このユーザーのIPアドレス</h2>
+          </div>
+          {userIps.length > 0 ? (
+            <ul className="divide-y">
+              {userIps.map((item) => (
+                <li key={item.ip} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <Link href={buildHref({ ip: item.ip })} className="font-mono hover:underline">
+                    {item.ip}
+                  </Link>
+                  <span className="text-muted-foreground">
+                    {item.count} 件
+                    {item.lastSeenAt && ` ・ 最終 ${new Date(item.lastSeenAt).toLocaleString('ja-JP')}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-3 text-sm text-muted-foreground">記録がありません</p>
+          )}
+        </div>
+      )}
+
+      {/* IPアドレスのユーザー */}
+      {ipUsers && (
+        <div className="bg-card rounded-lg border">
+          <div className="px-4 py-3 border-b">
+            <h2 className="font-medium">このIPアドレスのユーザー</h2>
+          </div>
+          {ipUsers.length > 0 ? (
+            <ul className="divide-y">
+              {ipUsers.map((item) => (
+                <li key={item.userId} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <Link href={buildHref({ userId: item.userId })} className="hover:underline">
+                    {item.user?.nickname ?? '削除済みのユーザー'}
+                  </Link>
+                  <span className="text-muted-foreground">
+                    {item.count} 件
+                    {item.lastSeenAt && ` ・ 最終 ${new Date(item.lastSeenAt).toLocaleString('ja-JP')}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-3 text-sm text-muted-foreground">記録がありません</p>
+          )}
+        </div>
+      )}
+
+      {/* イベントテーブル */}
+      <div className="bg-card rounded-lg border">
+        <table className="w-full">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="text-left px-4 py-3 text-sm font-medium">日時</th>
+              <th className="text-left px-4 py-3 text-sm font-medium">イベント</th>
+              <th className="text-left px-4 py-3 text-sm font-medium">重大度</th>
+              <th className="text-left px-4 py-3 text-sm font-medium">ユーザー</th>
+              <th className="text-left px-4 py-3 text-sm font-medium">IPアドレス</th>
+              <th className="text-left px-4 py-3 text-sm font-medium">詳細</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {events.map((event) => {
+              const details = formatDetails(event.details)
+
+              return (
+                <tr key={event.id} className="hover:bg-muted/30">
+                  <td className="px-4 py-3 text-sm text-muted-foreground whitespace-nowrap">
+                    {new Date(event.createdAt).toLocaleString('ja-JP')}
+                  </td>
+                  <td className="px-4 py-3">
+                    <Link
+                      href={buildHref({ ...filters, type: event.type })}
+                      className="px-2 py-1 text-xs bg-primary/10 text-primary rounded-full hover:underline"
+                    >
+                      {getSecurityEventTypeLabel(event.type)}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 text-xs rounded-full ${severityStyles[event.severity] || severityStyles.low}`}>
+                      {getSecurityEventSeverityLabel(event.severity)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {event.userId ? (
+                      <Link href={buildHref({ userId: event.userId })} className="hover:underline">
+                        {event.user?.nickname ?? '削除済みのユーザー'}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {event.ip ? (
+                      <Link href={buildHref({ ip: event.ip })} className="text-xs font-mono hover:underline">
+                        {event.ip}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {details ? (
+                      <span className="line-clamp-1 max-w-[240px]" title={details}>
+                        {details}
+                      </span>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+
+            {events.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                  ログが見つかりません
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ページネーション */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          {page > 1 && (
+            <Link
+              href={buildHref({ ...filters, page: page - 1 })}
+              className="px-3 py-1 border rounded hover:bg-muted"
+            >
+              前へ
+            </Link>
+          )}
+
+          <span className="px-3 py-1">
+            {page} / {totalPages}
+          </span>
+
+          {page < totalPages && (
+            <Link
+              href={buildHref({ ...filters, page: page + 1 })}
+              className="px-3 py-1 border rounded hover:bg-muted"
+            >
+              次へ
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
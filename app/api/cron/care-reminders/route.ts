@@ -0,0 +1,155 @@
+/**
+ * お手入れリマインダーのCronジョブ
+ *
+ * 期日が来た盆栽のお手入れ予定について、アプリ内通知を作成し、
+ * メール通知を希望している予定はユーザーごとにまとめてメールを送信します。
+ * Vercel Cron Jobsにより毎日7時(JST)に自動実行されます。
+ *
+ * ## 重複通知の防止
+ * 通知した予定には lastNotifiedAt を記録し、同じ期日では再通知しない。
+ * 完了や期日の変更で lastNotifiedAt はリセットされる。
+ *
+ * @module app/api/cron/care-reminders
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { verifyCronAuth } from '@/lib/cron-auth'
+import { sendCareReminderEmail } from '@/lib/email'
+import { CARE_TASK_TYPE_LABELS, type CareTaskType } from '@/lib/constants/care-task'
+
+/**
+ * 何時間先までの期日を通知対象にするか
+ * 1日1回の実行で当日分を漏れなく拾うため24時間
+ */
+const LOOKAHEAD_HOURS = 24
+
+/**
+ * 1回の実行で処理する予定の上限
+ */
+const BATCH_SIZE = 500
+
+/**
+ * GET /api/cron/care-reminders
+ *
+ * 期日が来たお手入れ予定を通知
+ */
+export async function GET(request: NextRequest) {
+  // HMAC署名ベースの認証
+  const authHeader = request.headers.get('authorization')
+  const timestampHeader = request.headers.get('x-cron-timestamp')
+
+  const authResult = verifyCronAuth(authHeader, timestampHeader)
+  if (!authResult.valid) {
+    return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const now = new Date()
+    const until = new Date(now.getTime() + LOOKAHEAD_HOURS * 60 * 60 * 1000)
+
+    // 期日が来ていて、まだ通知していない予定を取得
+    const tasks = await prisma.bonsaiCareTask.findMany({
+      where: {
+        isActive: true,
+        dueAt: { lte: until },
+        lastNotifiedAt: null,
+        user: { isSuspended: false },
+      },
+      include: {
+        bonsai: { select: { id: true, name: true } },
+        user: { select: { id: true, email: true, nickname: true } },
+      },
+      orderBy: { dueAt: 'asc' },
+      take: BATCH_SIZE,
+    })
+
+    if (tasks.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No care tasks due',
+        notifiedCount: 0,
+      })
+    }
+
+    type DueTask = typeof tasks[number]
+
+    // アプリ内通知を作成（同じ盆栽の予定は1件の通知にまとめる）
+    const notificationKeys = new Set<string>()
+    const notifications: { userId: string; actorId: string; type: string; bonsaiId: string }[] = []
+    for (const task of tasks) {
+      const key = `${task.userId}:${task.bonsaiId}`
+      if (notificationKeys.has(key)) continue
+      notificationKeys.add(key)
+      notifications.push({
+        userId: task.userId,
+        actorId: task.userId, // システム通知は自身のIDを使用
+        type: 'care_reminder',
+        bonsaiId: task.bonsaiId,
+      })
+    }
+
+    await prisma.notification.createMany({ data: notifications })
+
+    // 通知済みとして記録
+    await prisma.bonsaiCareTask.updateMany({
+      where: { id: { in: tasks.map((t: DueTask) => t.id) } },
+      data: { lastNotifiedAt: now },
+    })
+
+    // メール通知を希望している予定をユーザーごとにまとめる
+    const emailTasksByUser = new Map<string, DueTask[]>()
+    for (const task of tasks) {
+      if (!task.emailReminder) continue
+      const userTasks = emailTasksByUser.get(task.userId) ?? []
+      userTasks.push(task)
+      emailTasksByUser.set(task.userId, userTasks)
+    }
+
+    const emailResults = await Promise.allSettled(
+      Array.from(emailTasksByUser.values()).map((userTasks: DueTask[]) =>
+        sendCareReminderEmail(
+          userTasks[0].user.email,
+          userTasks[0].user.nickname,
+          userTasks.map((t: DueTask) => ({
+            bonsaiName: t.bonsai.name,
+            taskLabel: CARE_TASK_TYPE_LABELS[t.type as CareTaskType] ?? t.type,
+            dueAt: t.dueAt,
+            note: t.note,
+          }))
+        )
+      )
+    )
+
+    const emailsSent = emailResults.filter(
+      (r: PromiseSettledResult<{ success: boolean }>): r is PromiseFulfilledResult<{ success: boolean }> => r.status === 'fulfilled' && r.value.success
+    ).length
+    const emailsFailed = emailResults.length - emailsSent
+
+    console.log(
+      `Care reminders: ${tasks.length} tasks due, ${notifications.length} notifications created, ${emailsSent} emails sent, ${emailsFailed} emails failed`
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: `Notified ${tasks.length} care tasks`,
+      notifiedCount: tasks.length,
+      notificationsCreated: notifications.length,
+      emailsSent,
+      emailsFailed,
+    })
+  } catch (error) {
+    console.error('Cron job error (care-reminders):', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron設定
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
@@ -0,0 +1,54 @@
+/**
+ * 保存した検索の新着を通知するCronジョブ
+ *
+ * 通知方法が「すぐに通知」の保存した検索について、前回の判定より後の
+ * 一致する投稿を探し、新着があればアプリ内通知を作成します。
+ * Vercel Cron Jobsにより15分ごとに自動実行されます。
+ *
+ * @module app/api/cron/check-saved-searches
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronAuth } from '@/lib/cron-auth'
+import { notifySavedSearchMatches } from '@/lib/saved-search'
+
+/**
+ * GET /api/cron/check-saved-searches
+ *
+ * 保存した検索の新着をアプリ内通知で知らせる
+ */
+export async function GET(request: NextRequest) {
+  // HMAC署名ベースの認証
+  const authHeader = request.headers.get('authorization')
+  const timestampHeader = request.headers.get('x-cron-timestamp')
+
+  const authResult = verifyCronAuth(authHeader, timestampHeader)
+  if (!authResult.valid) {
+    return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { checkedCount, notifiedCount } = await notifySavedSearchMatches(new Date())
+
+    console.log(`[Cron] Checked ${checkedCount} saved searches, ${notifiedCount} notifications created`)
+
+    return NextResponse.json({
+      success: true,
+      checkedCount,
+      notifiedCount,
+    })
+  } catch (error) {
+    console.error('Cron job error (check-saved-searches):', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron設定
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
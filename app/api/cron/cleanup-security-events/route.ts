@@ -0,0 +1,58 @@
+/**
+ * 古いセキュリティイベントを削除するCronジョブ
+ *
+ * 保存期間（SECURITY_EVENT_RETENTION_DAYS）を過ぎたセキュリティイベントを
+ * データベースから削除します。
+ * Vercel Cron Jobsにより毎日3時(UTC)に自動実行されます。
+ *
+ * @module app/api/cron/cleanup-security-events
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { verifyCronAuth } from '@/lib/cron-auth'
+import { SECURITY_EVENT_RETENTION_DAYS } from '@/lib/constants/security-events'
+
+/**
+ * GET /api/cron/cleanup-security-events
+ *
+ * 保存期間を過ぎたセキュリティイベントを削除
+ */
+export async function GET(request: NextRequest) {
+  // HMAC署名ベースの認証
+  const authHeader = request.headers.get('authorization')
+  const timestampHeader = request.headers.get('x-cron-timestamp')
+
+  const authResult = verifyCronAuth(authHeader, timestampHeader)
+  if (!authResult.valid) {
+    return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const cutoffDate = new Date(Date.now() - SECURITY_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+
+    const result = await prisma.securityEvent.deleteMany({
+      where: { createdAt: { lt: cutoffDate } },
+    })
+
+    console.log(`[Cron] Deleted ${result.count} old security events`)
+
+    return NextResponse.json({
+      success: true,
+      deletedCount: result.count,
+      cutoffDate: cutoffDate.toISOString(),
+    })
+  } catch (error) {
+    console.error('Cron job error (cleanup-security-events):', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron設定
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,57 @@
+/**
+ * トレンドハッシュタグを集計するCronジョブ
+ *
+ * 直近のハッシュタグの使用数を過去の使用ペースと比べてトレンドを集計し、
+ * 集計結果を保存してトレンドハッシュタグのキャッシュを無効化します。
+ * Vercel Cron Jobsにより毎時0分に自動実行されます。
+ *
+ * @module app/api/cron/compute-trending-hashtags
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronAuth } from '@/lib/cron-auth'
+import { computeTrendingHashtags } from '@/lib/trending-hashtags'
+import { revalidateTrendingHashtagsCache } from '@/lib/cache'
+
+/**
+ * GET /api/cron/compute-trending-hashtags
+ *
+ * トレンドハッシュタグを集計して保存
+ */
+export async function GET(request: NextRequest) {
+  // HMAC署名ベースの認証
+  const authHeader = request.headers.get('authorization')
+  const timestampHeader = request.headers.get('x-cron-timestamp')
+
+  const authResult = verifyCronAuth(authHeader, timestampHeader)
+  if (!authResult.valid) {
+    return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const computedAt = new Date()
+    const count = await computeTrendingHashtags(computedAt)
+
+    revalidateTrendingHashtagsCache()
+
+    console.log(`[Cron] Computed ${count} trending hashtags`)
+
+    return NextResponse.json({
+      success: true,
+      count,
+      computedAt: computedAt.toISOString(),
+    })
+  } catch (error) {
+    console.error('Cron job error (compute-trending-hashtags):', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron設定
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,83 @@
+/**
+ * 猶予期間を過ぎた一時停止中のアカウントを削除するCronジョブ
+ *
+ * 一時停止から猶予期間（ACCOUNT_DEACTIVATION_GRACE_DAYS）を過ぎても
+ * ログインされなかったアカウントを、関連データとともに完全に削除します。
+ * Vercel Cron Jobsにより毎日4時(UTC)に自動実行されます。
+ *
+ * @module app/api/cron/delete-deactivated-accounts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { verifyCronAuth } from '@/lib/cron-auth'
+import { getDeactivationCutoff } from '@/lib/account-deactivation'
+import { deleteUserAccount } from '@/lib/account-deletion'
+
+/**
+ * 1回の実行で削除するアカウントの上限
+ * 残りは次回の実行で削除する
+ */
+const BATCH_SIZE = 50
+
+/**
+ * GET /api/cron/delete-deactivated-accounts
+ *
+ * 猶予期間を過ぎた一時停止中のアカウントを削除
+ */
+export async function GET(request: NextRequest) {
+  // HMAC署名ベースの認証
+  const authHeader = request.headers.get('authorization')
+  const timestampHeader = request.headers.get('x-cron-timestamp')
+
+  const authResult = verifyCronAuth(authHeader, timestampHeader)
+  if (!authResult.valid) {
+    return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const cutoffDate = getDeactivationCutoff()
+
+    const users = await prisma.user.findMany({
+      where: { deactivatedAt: { lt: cutoffDate } },
+      select: { id: true },
+      orderBy: { deactivatedAt: 'asc' },
+      take: BATCH_SIZE,
+    })
+
+    let deletedCount = 0
+    let failedCount = 0
+
+    // 1件の失敗で残りの削除を止めない（失敗したアカウントは次回の実行で再度削除する）
+    for (const user of users) {
+      try {
+        await deleteUserAccount(user.id)
+        deletedCount++
+      } catch (error) {
+        failedCount++
+        console.error(`[Cron] Failed to delete deactivated account ${user.id}:`, error)
+      }
+    }
+
+    console.log(`[Cron] Deleted ${deletedCount} deactivated accounts (${failedCount} failed)`)
+
+    return NextResponse.json({
+      success: true,
+      deletedCount,
+      failedCount,
+      cutoffDate: cutoffDate.toISOString(),
+    })
+  } catch (error) {
+    console.error('Cron job error (delete-deactivated-accounts):', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron設定
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,259 @@
+/**
+ * データのエクスポート処理のCronジョブ
+ *
+ * 申し込まれたデータのエクスポートについて、ユーザーのデータをZIPにまとめて
+ * 非公開ストレージに保存し、アプリ内通知とメールで準備ができたことを知らせます。
+ * Vercel Cron Jobsにより10分ごとに自動実行されます。
+ *
+ * ## 処理の流れ
+ * 1. ダウンロード期限を過ぎたZIPを削除し、expired にする
+ * 2. 長時間 processing のままのジョブ（処理中のタイムアウトなど）を failed にする
+ * 3. pending のジョブを1件だけ、1パート分処理する
+ *
+ * ## パートごとの処理
+ * ZIPは複数のパートに分けて作成する（lib/services/data-export.ts）。
+ * 1回の実行ではメモリと実行時間に収まるよう、1件のジョブの1パートだけを作成し、
+ * 残りがあれば pending に戻して次回の実行で続きを作成する。
+ * 一度も処理していないジョブ、最後に処理してから時間がたったジョブの順に処理するため、
+ * メディアの多いジョブがほかのジョブを待たせ続けることはない。
+ *
+ * ## 重複処理の防止
+ * pending → processing の更新を条件付き（updateMany）で行い、
+ * 更新できたジョブだけを処理する。
+ *
+ * @module app/api/cron/process-data-exports
+ */
+
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { verifyCronAuth } from '@/lib/cron-auth'
+import { sendDataExportReadyEmail } from '@/lib/email'
+import { uploadPrivateFile, deletePrivateFile } from '@/lib/storage'
+import {
+  buildDataExportDataPart,
+  buildDataExportMediaPart,
+  type DataExportProgress,
+} from '@/lib/services/data-export'
+import { DATA_EXPORT_RETENTION_DAYS } from '@/lib/constants/data-export'
+
+/**
+ * processing のまま放置されたジョブを失敗とみなすまでの時間（分）
+ */
+const STALE_PROCESSING_MINUTES = 30
+
+/**
+ * ジョブのパートのファイルとレコードを削除する
+ *
+ * 期限切れ・作成に失敗したジョブのファイルを残さないために使用する。
+ *
+ * @param exportIds - ジョブのID
+ */
+async function deleteExportParts(exportIds: string[]): Promise<void> {
+  if (exportIds.length === 0) return
+
+  const parts = await prisma.dataExportPart.findMany({
+    where: { dataExportId: { in: exportIds } },
+    select: { fileKey: true },
+  })
+  for (const part of parts) {
+    await deletePrivateFile(part.fileKey)
+  }
+  await prisma.dataExportPart.deleteMany({
+    where: { dataExportId: { in: exportIds } },
+  })
+}
+
+/**
+ * ジョブの次のパートを作成してストレージに保存する
+ *
+ * @param job - ジョブ（progress が null ならパート1から作成する）
+ * @returns すべてのパートを作成したか
+ */
+async function processNextPart(job: {
+  id: string
+  userId: string
+  progress: unknown
+}): Promise<boolean> {
+  const progress = job.progress as DataExportProgress | null
+  const partNumber = (await prisma.dataExportPart.count({ where: { dataExportId: job.id } })) + 1
+
+  let part: { archive: Buffer; progress: DataExportProgress; done: boolean }
+  if (progress) {
+    part = await buildDataExportMediaPart(progress)
+  } else {
+    const { archive, media } = await buildDataExportDataPart(job.userId)
+    part = { archive, progress: { media, cursor: 0, missing: [] }, done: media.length === 0 }
+  }
+  const { archive, done } = part
+
+  const key = `exports/${job.userId}/${job.id}-${partNumber}-${crypto.randomBytes(16).toString('hex')}.zip`
+  const uploadResult = await uploadPrivateFile(archive, key, 'application/zip')
+  if (!uploadResult.success || !uploadResult.key) {
+    throw new Error(uploadResult.error || 'Upload failed')
+  }
+
+  await prisma.$transaction([
+    prisma.dataExportPart.create({
+      data: { dataExportId: job.id, partNumber, fileKey: uploadResult.key, fileSize: archive.length },
+    }),
+    prisma.dataExport.update({
+      where: { id: job.id },
+      data: done
+        ? { progress: Prisma.DbNull }
+        : { status: 'pending', progress: part.progress as unknown as Prisma.InputJsonValue },
+    }),
+  ])
+
+  return done
+}
+
+/**
+ * すべてのパートを作成したジョブを完了にし、準備ができたことを知らせる
+ *
+ * @param job - ジョブ
+ */
+async function completeExport(job: { id: string; userId: string }): Promise<void> {
+  const completedAt = new Date()
+  const expiresAt = new Date(completedAt.getTime() + DATA_EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  const completed = await prisma.dataExport.update({
+    where: { id: job.id },
+    data: {
+      status: 'completed',
+      completedAt,
+      expiresAt,
+    },
+    include: { user: { select: { email: true, nickname: true } } },
+  })
+
+  await prisma.notification.create({
+    data: {
+      userId: job.userId,
+      actorId: job.userId, // システム通知は自身のIDを使用
+      type: 'data_export_ready',
+    },
+  })
+
+  await sendDataExportReadyEmail(completed.user.email, completed.user.nickname, expiresAt)
+}
+
+/**
+ * GET /api/cron/process-data-exports
+ *
+ * データのエクスポートを処理
+ */
+export async function GET(request: NextRequest) {
+  // HMAC署名ベースの認証
+  const authHeader = request.headers.get('authorization')
+  const timestampHeader = request.headers.get('x-cron-timestamp')
+
+  const authResult = verifyCronAuth(authHeader, timestampHeader)
+  if (!authResult.valid) {
+    return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const now = new Date()
+
+    // ダウンロード期限を過ぎたZIPを削除
+    const expiredExports = await prisma.dataExport.findMany({
+      where: { status: 'completed', expiresAt: { lte: now } },
+      select: { id: true },
+    })
+    const expiredIds = expiredExports.map((e) => e.id)
+    await deleteExportParts(expiredIds)
+    if (expiredIds.length > 0) {
+      await prisma.dataExport.updateMany({
+        where: { id: { in: expiredIds } },
+        data: { status: 'expired' },
+      })
+    }
+
+    // 処理中のまま止まったジョブを失敗にする
+    const staleExports = await prisma.dataExport.findMany({
+      where: {
+        status: 'processing',
+        startedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MINUTES * 60 * 1000) },
+      },
+      select: { id: true },
+    })
+    const staleIds = staleExports.map((e) => e.id)
+    if (staleIds.length > 0) {
+      await prisma.dataExport.updateMany({
+        where: { id: { in: staleIds }, status: 'processing' },
+        data: { status: 'failed', error: 'Processing timed out', progress: Prisma.DbNull },
+      })
+      await deleteExportParts(staleIds)
+    }
+
+    // 申し込み済みのジョブを1件だけ処理（未着手のもの、前回の処理が古いものの順）
+    const job = await prisma.dataExport.findFirst({
+      where: { status: 'pending' },
+      select: { id: true, userId: true, progress: true },
+      orderBy: [{ startedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+    })
+
+    let completedCount = 0
+    let failedCount = 0
+    let partCount = 0
+
+    // 他の実行と重複しないよう、pending のままの場合のみ処理を始める
+    const claimed = job
+      ? await prisma.dataExport.updateMany({
+          where: { id: job.id, status: 'pending' },
+          data: { status: 'processing', startedAt: new Date() },
+        })
+      : { count: 0 }
+
+    if (job && claimed.count > 0) {
+      try {
+        const done = await processNextPart(job)
+        partCount++
+        if (done) {
+          await completeExport(job)
+          completedCount++
+        }
+      } catch (error) {
+        console.error(`Data export failed (${job.id}):`, error)
+        await prisma.dataExport.update({
+          where: { id: job.id },
+          data: {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            progress: Prisma.DbNull,
+          },
+        })
+        await deleteExportParts([job.id])
+        failedCount++
+      }
+    }
+
+    console.log(
+      `Data exports: ${partCount} parts, ${completedCount} completed, ${failedCount} failed, ${expiredIds.length} expired, ${staleIds.length} timed out`
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${partCount} data export parts`,
+      partCount,
+      completedCount,
+      failedCount,
+      expiredCount: expiredIds.length,
+      timedOutCount: staleIds.length,
+    })
+  } catch (error) {
+    console.error('Cron job error (process-data-exports):', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron設定
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
@@ -66,6 +66,7 @@ export async function GET(request: NextRequest) {
             data: {
               userId: scheduledPost.userId,
               content: scheduledPost.content,
+              audience: scheduledPost.audience,
             },
           })
 
@@ -0,0 +1,57 @@
+/**
+ * 保存した検索の新着まとめメールのCronジョブ
+ *
+ * 通知方法が「1日1回メールでまとめて」の保存した検索について、前回の判定より後の
+ * 一致する投稿を探し、新着があった検索をユーザーごとに1通のメールにまとめて送信します。
+ * Vercel Cron Jobsにより毎日8時(JST)に自動実行されます。
+ *
+ * @module app/api/cron/saved-search-digest
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronAuth } from '@/lib/cron-auth'
+import { sendSavedSearchDigests } from '@/lib/saved-search'
+
+/**
+ * GET /api/cron/saved-search-digest
+ *
+ * 保存した検索の新着をメールでまとめて知らせる
+ */
+export async function GET(request: NextRequest) {
+  // HMAC署名ベースの認証
+  const authHeader = request.headers.get('authorization')
+  const timestampHeader = request.headers.get('x-cron-timestamp')
+
+  const authResult = verifyCronAuth(authHeader, timestampHeader)
+  if (!authResult.valid) {
+    return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { checkedCount, emailsSent, emailsFailed } = await sendSavedSearchDigests(new Date())
+
+    console.log(
+      `[Cron] Saved search digest: ${checkedCount} searches checked, ${emailsSent} emails sent, ${emailsFailed} emails failed`
+    )
+
+    return NextResponse.json({
+      success: true,
+      checkedCount,
+      emailsSent,
+      emailsFailed,
+    })
+  } catch (error) {
+    console.error('Cron job error (saved-search-digest):', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron設定
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
@@ -0,0 +1,160 @@
+/**
+ * ダイレクトメッセージのリアルタイム配信API（Server-Sent Events）
+ *
+ * 会話の参加者に対して、新着メッセージ・入力中・既読の各イベントを配信する。
+ * イベントは lib/realtime が Redis（未設定時はインメモリ）に保存したものを
+ * 一定間隔で読み出して送信する。
+ *
+ * 接続は maxDuration 内で一度閉じ、EventSource の自動再接続と
+ * Last-Event-ID ヘッダーで取りこぼしなく再開する。
+ *
+ * グループ会話では getMessages と同じく、ブロック関係にあるメンバーの
+ * メッセージ・入力中・既読イベントを配信しない。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import {
+  getConversationEventsSince,
+  getLatestConversationSequence,
+  type ConversationEvent,
+} from '@/lib/realtime'
+import { getExcludedUserIds } from '@/lib/actions/filter-helper'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60 // 60秒タイムアウト
+
+/**
+ * イベントの確認間隔（ミリ秒）
+ */
+const POLL_INTERVAL_MS = 1000
+
+/**
+ * 1接続あたりの配信時間（ミリ秒）
+ * maxDurationより短くして、タイムアウト前に正常終了させる
+ */
+const STREAM_DURATION_MS = 50 * 1000
+
+/**
+ * 接続維持用のコメントを送る間隔（ミリ秒）
+ * プロキシによるアイドル切断を防ぐ
+ */
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+
+/**
+ * クライアントの再接続待ち時間（ミリ秒）
+ */
+const RECONNECT_DELAY_MS = 1000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * イベントの送信元のユーザーID
+ * システムメッセージは参加状況の把握に必要なため対象外（null）
+ */
+function getEventActorId(event: ConversationEvent): string | null {
+  if (event.type === 'message') {
+    return event.message.type === 'system' ? null : event.message.sender.id
+  }
+  return event.userId
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: '認証が必要です' }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const { conversationId } = await params
+
+  // 会話の参加者のみ購読可能
+  const participant = await prisma.conversationParticipant.findUnique({
+    where: {
+      conversationId_userId: {
+        conversationId,
+        userId,
+      },
+    },
+    include: {
+      conversation: {
+        select: { isGroup: true },
+      },
+    },
+  })
+
+  if (!participant) {
+    return NextResponse.json({ error: 'この会話にアクセスする権限がありません' }, { status: 403 })
+  }
+
+  // グループではブロック関係にあるメンバーのイベントを除外（接続ごとに取得）
+  const excludedUserIds = new Set(
+    participant.conversation.isGroup
+      ? await getExcludedUserIds(userId, { blocked: true, blockedBy: true })
+      : []
+  )
+
+  // 再接続時はLast-Event-IDから再開、初回は最新位置から開始
+  const lastEventId = parseInt(request.headers.get('last-event-id') || '', 10)
+  let cursor = Number.isNaN(lastEventId)
+    ? await getLatestConversationSequence(conversationId)
+    : lastEventId
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now()
+      let lastHeartbeatAt = startedAt
+
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`))
+
+      try {
+        while (!request.signal.aborted && Date.now() - startedAt < STREAM_DURATION_MS) {
+          const { events, lastSeq } = await getConversationEventsSince(conversationId, cursor)
+
+          for (const { seq, event } of events) {
+            // 自分の入力中イベントは送り返さない
+            if (event.type === 'typing' && event.userId === userId) continue
+
+            const actorId = getEventActorId(event)
+            if (actorId && excludedUserIds.has(actorId)) continue
+
+            controller.enqueue(
+              encoder.encode(`id: ${seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+            )
+          }
+          cursor = lastSeq
+
+          if (Date.now() - lastHeartbeatAt >= HEARTBEAT_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(': heartbeat\n\n'))
+            lastHeartbeatAt = Date.now()
+          }
+
+          await sleep(POLL_INTERVAL_MS)
+        }
+      } catch (error) {
+        console.error('Message stream error:', error)
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // クライアント切断済みの場合は無視
+        }
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
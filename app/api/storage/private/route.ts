@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildContentDisposition, readLocalPrivateFile } from '@/lib/storage'
+
+/**
+ * ローカルストレージの非公開ファイル配信エンドポイント
+ *
+ * STORAGE_PROVIDER=local のときに getSignedFileUrl が発行する署名付きURLの配信先。
+ * クラウドストレージではプロバイダーの署名付きURLから直接ダウンロードするため使用しない。
+ *
+ * クエリ: key, expires, name, signature
+ *
+ * レスポンス:
+ * - 200: ファイル（添付ファイルとしてダウンロード）
+ * - 403: 署名が無効・期限切れ・ファイルが存在しない
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const params = {
+    key: searchParams.get('key') ?? '',
+    expires: searchParams.get('expires') ?? '',
+    name: searchParams.get('name') ?? '',
+    signature: searchParams.get('signature') ?? '',
+  }
+
+  if ((process.env.STORAGE_PROVIDER || 'local') !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const file = await readLocalPrivateFile(params)
+  if (!file) {
+    return NextResponse.json({ error: 'リンクが無効か、有効期限が切れています' }, { status: 403 })
+  }
+
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': buildContentDisposition(params.name),
+      'Cache-Control': 'private, no-store',
+    },
+  })
+}
+
+export const dynamic = 'force-dynamic'
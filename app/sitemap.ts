@@ -53,9 +53,9 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     },
   ]
 
-  // 公開ユーザーページ
+  // 公開ユーザーページ（一時停止中のユーザーは除外）
   const users = await prisma.user.findMany({
-    where: { isPublic: true, isSuspended: false },
+    where: { isPublic: true, isSuspended: false, deactivatedAt: null },
     select: { id: true, updatedAt: true },
     take: 1000,
     orderBy: { updatedAt: 'desc' },
@@ -68,10 +68,11 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.6,
   }))
 
-  // 投稿ページ（公開ユーザーの投稿のみ）
+  // 投稿ページ（公開ユーザーの全体公開の投稿のみ）
   const posts = await prisma.post.findMany({
     where: {
-      user: { isPublic: true, isSuspended: false },
+      user: { isPublic: true, isSuspended: false, deactivatedAt: null },
+      audience: 'public', // フォロワー限定などの投稿は除外
       repostPostId: null, // リポストは除外
     },
     select: { id: true, createdAt: true },
@@ -0,0 +1,98 @@
+/**
+ * 心当たりがないログインの報告フォームコンポーネント
+ *
+ * このファイルは、ログインの通知メールの「心当たりがない」リンク先の
+ * ページ (/login-alert) で、報告を確定するボタンを提供します。
+ *
+ * ## なぜボタンで確定するのか
+ * メールのリンクはセキュリティ製品やメールサービスに事前に読み込まれることがあります。
+ * ページを開いただけで報告すると、本人が何もしていないのに
+ * すべてのデバイスからログアウトされてしまうため、ボタンを押したときに報告します。
+ *
+ * @module components/auth/LoginAlertConfirmForm
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { reportUnrecognizedLogin } from '@/lib/actions/login-alert'
+
+/**
+ * LoginAlertConfirmFormのProps
+ *
+ * @property token - ログインの通知メールのリンクに含まれるトークン
+ */
+interface LoginAlertConfirmFormProps {
+  token: string
+}
+
+/**
+ * 心当たりがないログインの報告フォームコンポーネント
+ *
+ * ## 状態遷移
+ * 1. 初期状態: 説明と報告ボタンを表示
+ * 2. 送信中: ボタンを無効化
+ * 3. 成功: ログアウトしたことを表示
+ * 4. 失敗: エラーメッセージを表示
+ *
+ * @example
+ * ```tsx
+ * <LoginAlertConfirmForm token={token} />
+ * ```
+ */
+export function LoginAlertConfirmForm({ token }: LoginAlertConfirmFormProps) {
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  /**
+   * 報告ボタンの送信ハンドラ
+   *
+   * @param e - フォームのsubmitイベント
+   */
+  async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    const result = await reportUnrecognizedLogin(token)
+
+    if (result.error) {
+      setError(result.error)
+      setLoading(false)
+      return
+    }
+
+    setSuccess(true)
+    setLoading(false)
+  }
+
+  if (success) {
+    return (
+      <p className="text-sm">
+        すべてのデバイスからログアウトしました。
+        パスワードを再設定するまで、パスワードでのログインはできません。
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm">
+        心当たりがないログインの場合は、下のボタンを押してください。
+        すべてのデバイスからログアウトし、パスワードを再設定するまでパスワードでのログインを停止します。
+      </p>
+
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <Button type="submit" variant="destructive" className="w-full" disabled={loading}>
+        {loading ? '処理中...' : '心当たりがないログインを報告する'}
+      </Button>
+    </form>
+  )
+}
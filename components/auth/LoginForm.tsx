@@ -10,6 +10,8 @@
  * - NextAuth.js Credentials Providerによる認証処理
  * - ブルートフォース攻撃対策のためのレート制限チェック
  * - エラーメッセージ表示（認証失敗時）
+ * - パスキー（WebAuthn）によるパスワードなしのログイン
+ * - 2段階認証でのパスキー認証（認証コードの代わり）
  * - ログイン成功後のフィードページへのリダイレクト
  * - パスワードリセット・新規登録へのリンク
  *
@@ -140,7 +142,27 @@ import { checkLoginAllowed } from '@/lib/actions/auth'
 /**
  * 2段階認証関連のServer Actions
  */
-import { check2FARequired, verify2FAToken } from '@/lib/actions/two-factor'
+import {
+  check2FARequired,
+  verify2FAToken,
+  getPasskey2FAOptions,
+  verify2FAPasskey,
+} from '@/lib/actions/two-factor'
+
+/**
+ * パスキーでのログイン用のServer Action
+ *
+ * @see lib/actions/passkey.ts
+ */
+import { getPasskeyLoginOptions } from '@/lib/actions/passkey'
+
+/**
+ * WebAuthnのブラウザAPIラッパー
+ *
+ * navigator.credentials.get() を呼び出し、
+ * サーバーで検証できるJSON形式の結果を返す。
+ */
+import { startAuthentication } from '@simplewebauthn/browser'
 
 /**
  * デバイスフィンガープリント取得関数
@@ -152,6 +174,13 @@ import { check2FARequired, verify2FAToken } from '@/lib/actions/two-factor'
  */
 import { getFingerprintWithCache } from '@/lib/fingerprint'
 
+/**
+ * パスワードの再設定が必要なアカウントのエラーコードとメッセージ
+ *
+ * @see lib/constants/login-alert.ts
+ */
+import { PASSWORD_RESET_REQUIRED_CODE, PASSWORD_RESET_REQUIRED_MESSAGE } from '@/lib/constants/login-alert'
+
 /**
  * デバイスブラックリストチェック用Server Action
  *
@@ -372,6 +401,7 @@ export function LoginForm() {
   const [requires2FA, setRequires2FA] = useState(false)
   const [twoFactorCode, setTwoFactorCode] = useState('')
   const [pendingUserId, setPendingUserId] = useState<string | null>(null)
+  const [passkeyAvailable, setPasskeyAvailable] = useState(false)
   const [_pendingCredentials, setPendingCredentials] = useState<{ email: string; password: string } | null>(null)
 
   /**
@@ -546,11 +576,16 @@ export function LoginForm() {
         const preAuthResult = await signIn('credentials', {
           email,
           password,
+          fingerprint: fingerprint ?? '',
           redirect: false,
         })
 
         if (preAuthResult?.error) {
-          setError('メールアドレスまたはパスワードが間違っています')
+          setError(
+            preAuthResult.code === PASSWORD_RESET_REQUIRED_CODE
+              ? PASSWORD_RESET_REQUIRED_MESSAGE
+              : 'メールアドレスまたはパスワードが間違っています'
+          )
           setLoading(false)
           return
         }
@@ -558,6 +593,7 @@ export function LoginForm() {
         // パスワード認証成功、2FAステップへ
         // 注: この時点でセッションは作成されているが、2FA検証後に実際のリダイレクトを行う
         setPendingUserId(twoFactorCheck.userId)
+        setPasskeyAvailable(!!twoFactorCheck.passkeyAvailable)
         setPendingCredentials({ email, password })
         setRequires2FA(true)
         setLoading(false)
@@ -583,6 +619,7 @@ export function LoginForm() {
       const result = await signIn('credentials', {
         email,
         password,
+        fingerprint: fingerprint ?? '',  // セッションをこのデバイスに結びつける
         redirect: false,
       })
 
@@ -597,9 +634,15 @@ export function LoginForm() {
        * セキュリティ上の理由から、具体的なエラー原因
        * （メールが存在しない、パスワードが違う等）は
        * ユーザーに開示せず、汎用的なメッセージを表示。
+       * パスワードの再設定が必要なアカウントの場合のみ、再設定を案内する
+       * （パスワードが一致した場合のみ返されるコード）。
        */
       if (result?.error) {
-        setError('メールアドレスまたはパスワードが間違っています')
+        setError(
+          result.code === PASSWORD_RESET_REQUIRED_CODE
+            ? PASSWORD_RESET_REQUIRED_MESSAGE
+            : 'メールアドレスまたはパスワードが間違っています'
+        )
         setLoading(false)
         return
       }
@@ -670,6 +713,48 @@ export function LoginForm() {
     }
   }
 
+  /**
+   * 2段階認証をパスキーで検証する
+   *
+   * 認証コードを入力する代わりに、登録済みのパスキーで本人確認を行う。
+   */
+  async function handlePasskey2FA() {
+    if (!pendingUserId) {
+      setError('認証情報が見つかりません。もう一度ログインしてください。')
+      setRequires2FA(false)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const optionsResult = await getPasskey2FAOptions(pendingUserId)
+      if ('error' in optionsResult) {
+        setError(optionsResult.error)
+        setLoading(false)
+        return
+      }
+
+      const response = await startAuthentication(optionsResult.options)
+      const verifyResult = await verify2FAPasskey(pendingUserId, response)
+
+      if ('error' in verifyResult) {
+        setError(verifyResult.error)
+        setLoading(false)
+        return
+      }
+
+      router.push('/feed')
+      router.refresh()
+    } catch (err) {
+      // ユーザーがパスキーの選択をキャンセルした場合もここに来る
+      console.error('Passkey 2FA error:', err)
+      setError('パスキーで認証できませんでした。')
+      setLoading(false)
+    }
+  }
+
   /**
    * 2FAステップをキャンセルしてログインフォームに戻る
    */
@@ -677,10 +762,70 @@ export function LoginForm() {
     setRequires2FA(false)
     setTwoFactorCode('')
     setPendingUserId(null)
+    setPasskeyAvailable(false)
     setPendingCredentials(null)
     setError(null)
   }
 
+  // ------------------------------------------------------------
+  // パスキーログインハンドラ
+  // ------------------------------------------------------------
+
+  /**
+   * パスキーでログインする
+   *
+   * メールアドレスとパスワードを入力せず、端末に保存されたパスキーを選んでログインする。
+   * パスキーは生体認証・PINによるユーザー検証を伴うため、2段階認証のステップは不要。
+   */
+  async function handlePasskeyLogin() {
+    setLoading(true)
+    setError(null)
+
+    try {
+      // デバイスブラックリストチェック（フェイルオープン）
+      if (fingerprint) {
+        try {
+          if (await isDeviceBlacklisted(fingerprint)) {
+            setError('このデバイスからのログインは許可されていません')
+            setLoading(false)
+            return
+          }
+        } catch (deviceCheckError) {
+          console.error('Device blacklist check error:', deviceCheckError)
+        }
+      }
+
+      const optionsResult = await getPasskeyLoginOptions()
+      if ('error' in optionsResult) {
+        setError(optionsResult.error ?? null)
+        setLoading(false)
+        return
+      }
+
+      const response = await startAuthentication(optionsResult.options)
+
+      const result = await signIn('passkey', {
+        response: JSON.stringify(response),
+        fingerprint: fingerprint ?? '',
+        redirect: false,
+      })
+
+      if (result?.error) {
+        setError('パスキーでログインできませんでした')
+        setLoading(false)
+        return
+      }
+
+      router.push('/feed')
+      router.refresh()
+    } catch (err) {
+      // ユーザーがパスキーの選択をキャンセルした場合もここに来る
+      console.error('Passkey login error:', err)
+      setError('パスキーでログインできませんでした')
+      setLoading(false)
+    }
+  }
+
   // ------------------------------------------------------------
   // レンダリング
   // ------------------------------------------------------------
@@ -745,6 +890,17 @@ export function LoginForm() {
           >
             {loading ? '確認中...' : '確認'}
           </Button>
+          {passkeyAvailable && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handlePasskey2FA}
+              disabled={loading}
+            >
+              パスキーで認証
+            </Button>
+          )}
           <Button
             type="button"
             variant="outline"
@@ -838,6 +994,19 @@ export function LoginForm() {
         {loading ? 'ログイン中...' : 'ログイン'}
       </Button>
 
+      {/* ============================================================ */}
+      {/* パスキーでログイン */}
+      {/* ============================================================ */}
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={handlePasskeyLogin}
+        disabled={loading}
+      >
+        パスキーでログイン
+      </Button>
+
       {/* ============================================================ */}
       {/* 補助リンク（パスワードリセット・新規登録） */}
       {/* ============================================================ */}
@@ -593,6 +593,7 @@ export function RegisterForm() {
     const signInResult = await signIn('credentials', {
       email,
       password,
+      fingerprint: fingerprint ?? '',  // セッションをこのデバイスに結びつける
       redirect: false,  // クライアント側でリダイレクトを制御
     })
 
@@ -0,0 +1,125 @@
+/**
+ * ソーシャルログインボタンコンポーネント
+ *
+ * このファイルは、LINE・Google・Apple・OIDC でログインするための
+ * ボタンを提供します。初めてログインした場合はアカウントが作成されます。
+ *
+ * ## 機能概要
+ * - 有効なプロバイダーごとのログインボタン
+ * - ログイン前のデバイス確認（ブラックリスト）
+ * - ?error= で戻ってきた場合のエラー表示
+ *
+ * ## 使用場所
+ * - /login ログインページ
+ * - /register 新規登録ページ
+ *
+ * @module components/auth/SocialLoginButtons
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { useState } from 'react'
+import { signIn } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { getFingerprintWithCache } from '@/lib/fingerprint'
+import { prepareSocialSignIn } from '@/lib/actions/social-login'
+import {
+  getSocialLoginErrorMessage,
+  type SocialProviderOption,
+} from '@/lib/constants/social-login'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * SocialLoginButtonsコンポーネントのProps型定義
+ */
+interface SocialLoginButtonsProps {
+  /** 有効なプロバイダー */
+  providers: SocialProviderOption[]
+  /** リダイレクトで渡されたエラーコード */
+  errorCode?: string
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * ソーシャルログインボタンコンポーネント
+ *
+ * 有効なプロバイダーがない場合は何も表示しません。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.providers - 有効なプロバイダー
+ * @param props.errorCode - エラーコード
+ */
+export function SocialLoginButtons({ providers, errorCode }: SocialLoginButtonsProps) {
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(
+    errorCode ? getSocialLoginErrorMessage(errorCode) : null
+  )
+
+  if (providers.length === 0) {
+    return null
+  }
+
+  /**
+   * デバイスを確認してからプロバイダーのログイン画面へ移動する
+   *
+   * @param providerId - プロバイダーID
+   */
+  async function handleSignIn(providerId: string) {
+    setLoadingId(providerId)
+    setError(null)
+
+    try {
+      const fingerprint = await getFingerprintWithCache()
+      const result = await prepareSocialSignIn(fingerprint ?? undefined)
+
+      if (result.error) {
+        setError(result.error)
+        setLoadingId(null)
+        return
+      }
+
+      await signIn(providerId, { redirectTo: '/feed' })
+    } catch (err) {
+      console.error('Social login error:', err)
+      setError(getSocialLoginErrorMessage('default'))
+      setLoadingId(null)
+    }
+  }
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <div className="h-px flex-1 bg-border" />
+        または
+        <div className="h-px flex-1 bg-border" />
+      </div>
+
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => handleSignIn(provider.id)}
+          disabled={loadingId !== null}
+        >
+          {loadingId === provider.id ? '移動中...' : `${provider.label}でログイン`}
+        </Button>
+      ))}
+
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+/**
+ * @fileoverview 盆栽のビフォーアフター比較コンポーネント
+ *
+ * このファイルは成長記録の画像から2枚を選び、
+ * スライダーまたは左右並びで比較するコンポーネントを提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 比較する2枚の画像（ビフォー・アフター）の選択
+ * - スライダー表示と左右並び表示の切り替え
+ * - 比較画像を盆栽に紐づけた投稿として共有（所有者のみ）
+ *
+ * @example
+ * // 盆栽詳細ページでの使用
+ * <BonsaiBeforeAfter
+ *   bonsaiId="bonsai-123"
+ *   bonsaiName="黒松"
+ *   images={recordImages}
+ *   isOwner={true}
+ * />
+ */
+
+'use client'
+
+// React のフック: 状態管理に使用
+import { useState } from 'react'
+// Next.js のルーター: 共有後の投稿ページへの遷移に使用
+import { useRouter } from 'next/navigation'
+// Next.js の画像最適化コンポーネント
+import Image from 'next/image'
+// Server Action: 投稿を作成するサーバーサイド関数
+import { createPost } from '@/lib/actions/post'
+
+/**
+ * 比較候補の画像
+ */
+export interface BonsaiComparisonImage {
+  /** 画像ID（BonsaiRecordImage.id） */
+  id: string
+  /** 画像URL */
+  url: string
+  /** 画像が添付された記録の日時 */
+  recordAt: Date | string
+}
+
+/**
+ * BonsaiBeforeAfterコンポーネントのProps型定義
+ */
+interface BonsaiBeforeAfterProps {
+  /** 盆栽ID（共有する投稿に紐づける） */
+  bonsaiId: string
+  /** 盆栽名（共有する投稿の本文に使用） */
+  bonsaiName: string
+  /** 比較候補の画像（順不同） */
+  images: BonsaiComparisonImage[]
+  /** 現在のユーザーが盆栽の所有者かどうか（共有ボタンの表示制御） */
+  isOwner: boolean
+}
+
+/**
+ * 表示モード
+ * slider: 重ねてスライダーで比較、side: 左右に並べて比較
+ */
+type ViewMode = 'slider' | 'side'
+
+/**
+ * 記録日を表示用の文字列に整形
+ *
+ * @param date - 記録日時
+ * @returns 「2026/3/20」形式の文字列
+ */
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('ja-JP')
+}
+
+/**
+ * 盆栽のビフォーアフター比較コンポーネント
+ *
+ * 初期状態では最も古い画像をビフォー、最も新しい画像をアフターとして表示します。
+ * 画像が2枚未満の場合は何も表示しません。
+ *
+ * @param props - コンポーネントのプロパティ
+ */
+export function BonsaiBeforeAfter({ bonsaiId, bonsaiName, images, isOwner }: BonsaiBeforeAfterProps) {
+  // ルーターインスタンス: 共有後の遷移に使用
+  const router = useRouter()
+
+  /**
+   * 記録日の古い順に並べた画像
+   */
+  const sortedImages = [...images].sort(
+    (a, b) => new Date(a.recordAt).getTime() - new Date(b.recordAt).getTime()
+  )
+
+  /**
+   * ビフォー・アフターに選択中の画像ID
+   */
+  const [beforeId, setBeforeId] = useState(sortedImages[0]?.id ?? '')
+  const [afterId, setAfterId] = useState(sortedImages[sortedImages.length - 1]?.id ?? '')
+
+  /**
+   * 表示モード
+   */
+  const [mode, setMode] = useState<ViewMode>('slider')
+
+  /**
+   * スライダーの位置（0〜100%）
+   * 左側にビフォー、右側にアフターが表示される
+   */
+  const [position, setPosition] = useState(50)
+
+  /**
+   * 共有フォームの状態
+   */
+  const [showShareForm, setShowShareForm] = useState(false)
+  const [shareContent, setShareContent] = useState('')
+  const [sharing, setSharing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (sortedImages.length < 2) return null
+
+  const before = sortedImages.find((image) => image.id === beforeId) ?? sortedImages[0]
+  const after = sortedImages.find((image) => image.id === afterId) ?? sortedImages[sortedImages.length - 1]
+
+  /**
+   * 共有フォームを開く
+   * 本文の初期値に盆栽名と比較する日付を入れる
+   */
+  const openShareForm = () => {
+    setShareContent(`${bonsaiName}のビフォーアフター（${formatDate(before.recordAt)} → ${formatDate(after.recordAt)}）`)
+    setError(null)
+    setShowShareForm(true)
+  }
+
+  /**
+   * 比較画像を投稿として共有
+   *
+   * ビフォー・アフターの順に画像を添付し、盆栽に紐づけて投稿する。
+   * 成功時は作成した投稿のページへ遷移する。
+   */
+  const handleShare = async () => {
+    setSharing(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('content', shareContent.trim())
+      formData.append('mediaUrls', before.url)
+      formData.append('mediaTypes', 'image')
+      formData.append('mediaUrls', after.url)
+      formData.append('mediaTypes', 'image')
+      formData.append('bonsaiId', bonsaiId)
+
+      const result = await createPost(formData)
+      if ('error' in result && result.error) {
+        setError(result.error)
+        return
+      }
+
+      setShowShareForm(false)
+      if ('postId' in result && result.postId) {
+        router.push(`/posts/${result.postId}`)
+      }
+    } catch {
+      setError('共有に失敗しました')
+    } finally {
+      setSharing(false)
+    }
+  }
+
+  /**
+   * 画像選択のセレクトボックス
+   */
+  const renderSelect = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div className="flex-1">
+      <label htmlFor={id} className="block text-sm font-medium mb-1">{label}</label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+      >
+        {sortedImages.map((image, index) => (
+          <option key={image.id} value={image.id}>
+            {formatDate(image.recordAt)}（{index + 1}枚目）
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      {/* 比較する画像の選択 */}
+      <div className="flex gap-3">
+        {renderSelect('before-image', 'ビフォー', before.id, setBeforeId)}
+        {renderSelect('after-image', 'アフター', after.id, setAfterId)}
+      </div>
+
+      {/* 表示モードの切り替え */}
+      <div className="flex gap-2">
+        {([
+          { value: 'slider', label: 'スライダー' },
+          { value: 'side', label: '左右に並べる' },
+        ] as const).map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setMode(option.value)}
+            aria-pressed={mode === option.value}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              mode === option.value
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'hover:bg-muted'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* 比較表示 */}
+      {mode === 'slider' ? (
+        <div>
+          <div className="relative aspect-square bg-muted rounded-lg overflow-hidden">
+            {/* アフター（下層） */}
+            <Image src={after.url} alt={`アフター（${formatDate(after.recordAt)}）`} fill className="object-cover" />
+            {/* ビフォー（上層）: スライダー位置より右を切り取る */}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+              <Image src={before.url} alt={`ビフォー（${formatDate(before.recordAt)}）`} fill className="object-cover" />
+            </div>
+            {/* 境界線 */}
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }} />
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={position}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            aria-label="比較位置"
+            className="w-full mt-2"
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {[
+            { label: 'ビフォー', image: before },
+            { label: 'アフター', image: after },
+          ].map(({ label, image }) => (
+            <div key={label}>
+              <div className="relative aspect-square bg-muted rounded-lg overflow-hidden">
+                <Image src={image.url} alt={`${label}（${formatDate(image.recordAt)}）`} fill className="object-cover" />
+              </div>
+              <p className="mt-1 text-xs text-center text-muted-foreground">
+                {label}: {formatDate(image.recordAt)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 投稿として共有 - 所有者のみ */}
+      {isOwner && (
+        showShareForm ? (
+          <div className="space-y-2">
+            {error && (
+              <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+            <textarea
+              value={shareContent}
+              onChange={(e) => setShareContent(e.target.value)}
+              rows={3}
+              aria-label="投稿の本文"
+              className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowShareForm(false)}
+                disabled={sharing}
+                className="px-4 py-2 border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+              >
+                キャンセル
+              </button>
+              <button
+                type="button"
+                onClick={handleShare}
+                disabled={sharing}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {sharing ? '投稿中...' : '投稿する'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={openShareForm}
+            disabled={before.id === after.id}
+            className="w-full px-4 py-2 border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            ビフォーアフターを投稿で共有
+          </button>
+        )
+      )}
+    </div>
+  )
+}
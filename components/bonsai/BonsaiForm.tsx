@@ -8,6 +8,7 @@
  * 主な機能:
  * - 盆栽の新規登録フォーム
  * - 既存盆栽の編集フォーム（propsで既存データを受け取り）
+ * - 樹種図鑑の候補から樹種を選べるオートコンプリート
  * - バリデーションとエラーハンドリング
  * - 登録/更新後の自動ナビゲーション
  *
@@ -21,12 +22,32 @@
 
 'use client'
 
-// React のフック: コンポーネントの状態管理に使用
-import { useState } from 'react'
+// React のフック: コンポーネントの状態管理とタイマー保持に使用
+import { useState, useRef, useEffect } from 'react'
 // Next.js のルーター: ページ遷移とリフレッシュに使用
 import { useRouter } from 'next/navigation'
 // Server Actions: 盆栽の作成・更新処理を実行するサーバーサイド関数
 import { createBonsai, updateBonsai } from '@/lib/actions/bonsai'
+// Server Action: 樹種図鑑の候補検索
+import { searchBonsaiSpecies } from '@/lib/actions/species'
+// 樹種の分類の表示ラベル
+import { getBonsaiSpeciesCategoryLabel } from '@/lib/constants/bonsai-species'
+
+/**
+ * 入力から樹種の候補検索を実行するまでの待ち時間（ミリ秒）
+ */
+const SPECIES_SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * 樹種の候補
+ */
+type SpeciesOption = {
+  id: string
+  name: string
+  nameKana: string
+  scientificName: string | null
+  category: string
+}
 
 /**
  * BonsaiFormコンポーネントのProps型定義
@@ -72,6 +93,40 @@ export function BonsaiForm({ bonsai }: BonsaiFormProps) {
    */
   const [error, setError] = useState<string | null>(null)
 
+  /** 樹種の入力値と候補 */
+  const [species, setSpecies] = useState(bonsai?.species || '')
+  const [suggestions, setSuggestions] = useState<SpeciesOption[]>([])
+
+  /** 樹種の候補検索の遅延実行タイマー */
+  const speciesSearchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (speciesSearchTimerRef.current) clearTimeout(speciesSearchTimerRef.current)
+    }
+  }, [])
+
+  /**
+   * 樹種の入力変更
+   * 一定時間入力が止まってから、樹種図鑑の候補を検索する
+   */
+  const handleSpeciesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value
+    setSpecies(value)
+
+    if (speciesSearchTimerRef.current) clearTimeout(speciesSearchTimerRef.current)
+
+    if (!value.trim()) {
+      setSuggestions([])
+      return
+    }
+
+    speciesSearchTimerRef.current = setTimeout(async () => {
+      const result = await searchBonsaiSpecies(value)
+      setSuggestions(result.species)
+    }, SPECIES_SEARCH_DEBOUNCE_MS)
+  }
+
   /**
    * フォーム送信時のイベントハンドラ
    *
@@ -98,7 +153,7 @@ export function BonsaiForm({ bonsai }: BonsaiFormProps) {
     const data = {
       name: formData.get('name') as string,
       // 空文字列の場合はundefinedに変換
-      species: formData.get('species') as string || undefined,
+      species: species.trim() || undefined,
       // 日付文字列をDateオブジェクトに変換（空の場合はundefined）
       acquiredAt: formData.get('acquiredAt')
         ? new Date(formData.get('acquiredAt') as string)
@@ -164,86 +219,60 @@ export function BonsaiForm({ bonsai }: BonsaiFormProps) {
         />
       </div>
 
-      {/* 樹種選択フィールド */}
-      <div>
+      {/* 樹種入力フィールド（樹種図鑑の候補から選択、または自由入力） */}
+      <div className="relative">
         <label htmlFor="species" className="block text-sm font-medium mb-1">
           樹種
         </label>
-        <select
+        <input
+          type="text"
           id="species"
           name="species"
-          defaultValue={bonsai?.species || ''}
+          value={species}
+          onChange={handleSpeciesChange}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setSuggestions([])
+          }}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          aria-controls="species-suggestions"
+          autoComplete="off"
+          maxLength={50}
           className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
-        >
-          <option value="">選択してください</option>
-          {/* 松柏類（常緑針葉樹）のグループ */}
-          <optgroup label="松柏類">
-            <option value="黒松">黒松</option>
-            <option value="赤松">赤松</option>
-            <option value="五葉松">五葉松</option>
-            <option value="真柏">真柏</option>
-            <option value="杜松">杜松</option>
-            <option value="檜">檜</option>
-            <option value="椹">椹</option>
-            <option value="檜葉/翌檜">檜葉/翌檜</option>
-            <option value="杉">杉</option>
-            <option value="一位">一位</option>
-            <option value="キャラボク">キャラボク</option>
-            <option value="蝦夷松">蝦夷松</option>
-            <option value="落葉松">落葉松</option>
-            <option value="米栂">米栂</option>
-            <option value="樅木">樅木</option>
-            <option value="榧">榧</option>
-            <option value="槙">槙</option>
-            <option value="その他松柏類">その他松柏類</option>
-          </optgroup>
-          {/* 雑木類（落葉樹・花木・実もの等）のグループ */}
-          <optgroup label="雑木類">
-            <option value="紅葉">紅葉</option>
-            <option value="楓">楓</option>
-            <option value="匂楓">匂楓</option>
-            <option value="銀杏">銀杏</option>
-            <option value="欅">欅</option>
-            <option value="楡欅">楡欅</option>
-            <option value="梅">梅</option>
-            <option value="長寿梅/木瓜">長寿梅/木瓜</option>
-            <option value="梅擬">梅擬</option>
-            <option value="蔓梅擬/岩梅蔓">蔓梅擬/岩梅蔓</option>
-            <option value="縮緬蔓">縮緬蔓</option>
-            <option value="金豆">金豆</option>
-            <option value="ピラカンサ">ピラカンサ</option>
-            <option value="花梨">花梨</option>
-            <option value="台湾黄楊">台湾黄楊</option>
-            <option value="イボタ">イボタ</option>
-            <option value="群雀">群雀</option>
-            <option value="香丁木/白丁木">香丁木/白丁木</option>
-            <option value="真弓">真弓</option>
-            <option value="小真弓">小真弓</option>
-            <option value="ブナ">ブナ</option>
-            <option value="梔子">梔子</option>
-            <option value="グミ">グミ</option>
-            <option value="桜">桜</option>
-            <option value="皐月">皐月</option>
-            <option value="椿">椿</option>
-            <option value="山茶花">山茶花</option>
-            <option value="柿">柿</option>
-            <option value="柘榴">柘榴</option>
-            <option value="百日紅">百日紅</option>
-            <option value="姫林檎/海棠">姫林檎/海棠</option>
-            <option value="柊">柊</option>
-            <option value="針蔓柾">針蔓柾</option>
-            <option value="蔦">蔦</option>
-            <option value="イヌビワ">イヌビワ</option>
-            <option value="紫式部">紫式部</option>
-            <option value="レンギョウ">レンギョウ</option>
-            <option value="その他雑木類">その他雑木類</option>
-          </optgroup>
-          {/* 草もの（山野草・苔など）のグループ */}
-          <optgroup label="草もの">
-            <option value="山野草">山野草</option>
-            <option value="苔">苔</option>
-          </optgroup>
-        </select>
+          placeholder="例: 黒松、クロマツ"
+        />
+        {suggestions.length > 0 && (
+          <ul
+            id="species-suggestions"
+            role="listbox"
+            className="absolute z-10 mt-1 w-full bg-card border rounded-lg shadow-lg divide-y max-h-64 overflow-y-auto"
+          >
+            {suggestions.map((option) => (
+              <li key={option.id} role="option" aria-selected={option.name === species}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSpecies(option.name)
+                    setSuggestions([])
+                  }}
+                  className="w-full px-3 py-2 text-left hover:bg-muted transition-colors"
+                >
+                  <span className="text-sm">{option.name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {option.nameKana}・{getBonsaiSpeciesCategoryLabel(option.category)}
+                  </span>
+                  {option.scientificName && (
+                    <span className="block text-xs text-muted-foreground italic">{option.scientificName}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-1 text-xs text-muted-foreground">
+          樹種図鑑に載っている樹種は、別名や学名で入力しても同じ樹種として扱われます
+        </p>
       </div>
 
       {/* 入手日入力フィールド */}
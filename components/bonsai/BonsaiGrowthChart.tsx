@@ -0,0 +1,155 @@
+/**
+ * @fileoverview 盆栽の成長グラフコンポーネント
+ *
+ * このファイルは計測記録（樹高・幹径・根張り）の推移を
+ * 折れ線グラフで表示するコンポーネントを提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 指標（樹高・幹径・根張り）の切り替え
+ * - 最新の計測値と、最初の計測からの増減の表示
+ * - 計測記録が少ない場合の案内表示
+ *
+ * @example
+ * // 盆栽詳細ページでの使用
+ * <BonsaiGrowthChart records={bonsai.records} />
+ */
+
+'use client'
+
+// React のフック: 状態管理に使用
+import { useState } from 'react'
+// Rechartsのグラフコンポーネント
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+// 成長グラフのデータ作成と指標の定義
+import {
+  BONSAI_GROWTH_METRICS,
+  buildBonsaiGrowthSeries,
+  type BonsaiRecordDetails,
+} from '@/lib/constants/bonsai-record'
+
+/**
+ * BonsaiGrowthChartコンポーネントのProps型定義
+ */
+interface BonsaiGrowthChartProps {
+  /** 成長記録のリスト（計測記録以外は無視される） */
+  records: ({ type?: string; recordAt: Date | string } & BonsaiRecordDetails)[]
+}
+
+/**
+ * グラフの指標のキー
+ */
+type GrowthMetricKey = 'heightCm' | 'trunkDiameterCm' | 'nebariWidthCm'
+
+/**
+ * 数値を小数第1位までの文字列に整形
+ *
+ * @param value - 数値
+ * @returns 整形した文字列（例: 32.5）
+ */
+function formatCm(value: number): string {
+  return String(Math.round(value * 10) / 10)
+}
+
+/**
+ * 盆栽の成長グラフコンポーネント
+ *
+ * 計測記録から指標ごとの推移を表示します。
+ * グラフには2件以上の計測値が必要なため、1件以下の場合は案内を表示します。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.records - 成長記録のリスト
+ */
+export function BonsaiGrowthChart({ records }: BonsaiGrowthChartProps) {
+  /**
+   * 表示中の指標
+   */
+  const [metric, setMetric] = useState<GrowthMetricKey>('heightCm')
+
+  const series = buildBonsaiGrowthSeries(records)
+  const field = BONSAI_GROWTH_METRICS.find((m) => m.key === metric) ?? BONSAI_GROWTH_METRICS[0]
+
+  /**
+   * 選択中の指標の値がある点のみ（古い順）
+   */
+  const points = series
+    .filter((point) => point[metric] !== null)
+    .map((point) => ({
+      date: point.recordAt.toLocaleDateString('ja-JP', { year: '2-digit', month: 'numeric', day: 'numeric' }),
+      value: point[metric] as number,
+    }))
+
+  const first = points[0]
+  const latest = points[points.length - 1]
+  const diff = first && latest ? latest.value - first.value : 0
+
+  return (
+    <div className="space-y-3">
+      {/* 指標の切り替え */}
+      <div className="flex flex-wrap gap-2">
+        {BONSAI_GROWTH_METRICS.map((m) => (
+          <button
+            key={m.key}
+            type="button"
+            onClick={() => setMetric(m.key as GrowthMetricKey)}
+            aria-pressed={metric === m.key}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              metric === m.key
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'hover:bg-muted'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {/* 最新値と増減 */}
+      {latest && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">{field.label}: </span>
+          <span className="font-bold">{formatCm(latest.value)}cm</span>
+          {points.length > 1 && (
+            <span className="ml-2 text-muted-foreground">
+              （{first.date}から{diff >= 0 ? '+' : ''}{formatCm(diff)}cm）
+            </span>
+          )}
+        </p>
+      )}
+
+      {/* グラフ本体 */}
+      {points.length > 1 ? (
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 10, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="date" className="text-xs" />
+              <YAxis className="text-xs" unit="cm" width={56} />
+              <Tooltip
+                formatter={(value) => [`${value}cm`, field.label]}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+              />
+              <Line type="monotone" dataKey="value" stroke="#22c55e" strokeWidth={2} name={field.label} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          「計測」の記録が2件以上になるとグラフが表示されます
+        </p>
+      )}
+    </div>
+  )
+}
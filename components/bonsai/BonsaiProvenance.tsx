@@ -0,0 +1,121 @@
+/**
+ * @fileoverview 盆栽の来歴コンポーネント
+ *
+ * このファイルは盆栽の歴代の所有者と譲渡の履歴を
+ * 時系列で表示するコンポーネントを提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 最初の登録者と登録日の表示
+ * - 譲渡ごとの譲渡元・譲渡先・日付・経由した盆栽園・メモの表示
+ * - 退会したユーザーは「退会したユーザー」として表示
+ *
+ * 状態を持たないため、サーバーコンポーネントからそのまま使用できます。
+ *
+ * @example
+ * // 盆栽詳細ページでの使用
+ * <BonsaiProvenance createdAt={bonsai.createdAt} transfers={provenance} />
+ */
+
+// Next.js のリンクコンポーネント: ユーザー・盆栽園ページへのナビゲーション用
+import Link from 'next/link'
+
+/**
+ * 来歴に表示するユーザー
+ */
+type ProvenanceUser = { id: string; nickname: string } | null
+
+/**
+ * 来歴の1件（承諾された譲渡）
+ */
+export interface ProvenanceTransfer {
+  /** 譲渡ID */
+  id: string
+  /** 譲渡元 */
+  fromUser: ProvenanceUser
+  /** 譲渡先 */
+  toUser: ProvenanceUser
+  /** 経由した盆栽園 */
+  shop: { id: string; name: string } | null
+  /** 譲渡時のメモ */
+  note: string | null
+  /** 譲渡日（承諾日） */
+  respondedAt: Date | null
+}
+
+/**
+ * BonsaiProvenanceコンポーネントのProps型定義
+ */
+interface BonsaiProvenanceProps {
+  /** 盆栽の登録日時（最初の所有者が登録した日） */
+  createdAt: Date
+  /** 来歴（古い順） */
+  transfers: ProvenanceTransfer[]
+}
+
+/**
+ * ユーザー名（リンク付き）を表示
+ *
+ * @param user - ユーザー（退会済みの場合は null）
+ */
+function UserName({ user }: { user: ProvenanceUser }) {
+  if (!user) {
+    return <span className="text-muted-foreground">退会したユーザー</span>
+  }
+  return (
+    <Link href={`/users/${user.id}`} className="font-medium hover:underline">
+      {user.nickname}
+    </Link>
+  )
+}
+
+/**
+ * 盆栽の来歴コンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.createdAt - 盆栽の登録日時
+ * @param props.transfers - 来歴（古い順）
+ */
+export function BonsaiProvenance({ createdAt, transfers }: BonsaiProvenanceProps) {
+  if (transfers.length === 0) return null
+
+  return (
+    <ol className="border-l ml-2 space-y-4">
+      {/* 最初の登録 */}
+      <li className="relative pl-4">
+        <span className="absolute -left-1.5 top-1 w-3 h-3 bg-muted-foreground rounded-full" />
+        <p className="text-xs text-muted-foreground">{new Date(createdAt).toLocaleDateString('ja-JP')}</p>
+        <p className="text-sm">
+          <UserName user={transfers[0].fromUser} />さんが登録
+        </p>
+      </li>
+
+      {/* 譲渡の履歴 */}
+      {transfers.map((transfer) => (
+        <li key={transfer.id} className="relative pl-4">
+          <span className="absolute -left-1.5 top-1 w-3 h-3 bg-bonsai-green rounded-full" />
+          {transfer.respondedAt && (
+            <p className="text-xs text-muted-foreground">
+              {new Date(transfer.respondedAt).toLocaleDateString('ja-JP')}
+            </p>
+          )}
+          <p className="text-sm">
+            <UserName user={transfer.fromUser} />さんから<UserName user={transfer.toUser} />さんへ
+            {transfer.shop && (
+              <>
+                （
+                <Link href={`/shops/${transfer.shop.id}`} className="hover:underline">
+                  {transfer.shop.name}
+                </Link>
+                経由）
+              </>
+            )}
+          </p>
+          {transfer.note && (
+            <p className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap">{transfer.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -6,6 +6,8 @@
  *
  * @description
  * 主な機能:
+ * - 記録の種類の選択（植え替え・施肥・計測など）
+ * - 種類に応じた詳細項目の入力（用土・肥料名・樹高など）
  * - テキスト入力（成長の様子や作業内容）
  * - 画像選択・プレビュー（最大4枚まで）
  * - 画像の自動圧縮（クライアントサイド）
@@ -28,6 +30,13 @@ import { addBonsaiRecord } from '@/lib/actions/bonsai'
 import Image from 'next/image'
 // 画像圧縮ユーティリティ: クライアントサイドで画像を圧縮
 import { prepareFileForUpload, formatFileSize, MAX_IMAGE_SIZE } from '@/lib/client-image-compression'
+// 成長記録の種類と詳細項目の定義
+import {
+  BONSAI_RECORD_TYPES,
+  BONSAI_RECORD_DETAIL_FIELDS,
+  type BonsaiRecordType,
+  type BonsaiRecordDetails,
+} from '@/lib/constants/bonsai-record'
 
 /**
  * BonsaiRecordFormコンポーネントのProps型定義
@@ -94,6 +103,17 @@ export function BonsaiRecordForm({ bonsaiId }: BonsaiRecordFormProps) {
    */
   const [content, setContent] = useState('')
 
+  /**
+   * 記録の種類
+   * 'general' 以外はテキストや画像がなくても記録できる
+   */
+  const [type, setType] = useState<BonsaiRecordType>('general')
+
+  /**
+   * 詳細項目の入力内容（キー → 入力文字列）
+   */
+  const [details, setDetails] = useState<Record<string, string>>({})
+
   /**
    * 選択された画像の状態
    * file: 元のファイル、preview: プレビュー用のBlobURL
@@ -180,12 +200,29 @@ export function BonsaiRecordForm({ bonsaiId }: BonsaiRecordFormProps) {
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
 
-    // 入力検証: テキストまたは画像のいずれかが必要
-    if (!content.trim() && images.length === 0) {
+    // 入力検証: 種類のない記録はテキストまたは画像のいずれかが必要
+    if (type === 'general' && !content.trim() && images.length === 0) {
       setError('テキストまたは画像を入力してください')
       return
     }
 
+    // 詳細項目を送信用に変換（数値項目は数値に変換）
+    const recordDetails: BonsaiRecordDetails = {}
+    for (const field of BONSAI_RECORD_DETAIL_FIELDS[type]) {
+      const value = details[field.key]?.trim()
+      if (!value) continue
+      if (field.kind === 'number') {
+        const num = Number(value)
+        if (!Number.isFinite(num) || num <= 0) {
+          setError(`${field.label}は正しい数値で入力してください`)
+          return
+        }
+        ;(recordDetails as Record<string, number>)[field.key] = num
+      } else {
+        ;(recordDetails as Record<string, string>)[field.key] = value
+      }
+    }
+
     // 送信処理開始
     setLoading(true)
     setError(null)
@@ -225,7 +262,9 @@ export function BonsaiRecordForm({ bonsaiId }: BonsaiRecordFormProps) {
       // Server Actionで成長記録を保存
       const result = await addBonsaiRecord({
         bonsaiId,
+        type,
         content: content.trim() || undefined,
+        details: Object.keys(recordDetails).length > 0 ? recordDetails : undefined,
         imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
       })
 
@@ -236,6 +275,7 @@ export function BonsaiRecordForm({ bonsaiId }: BonsaiRecordFormProps) {
 
       // 成功時はフォームをリセット
       setContent('')
+      setDetails({})
       setImages([])
       // ページデータをリフレッシュして新しい記録を表示
       router.refresh()
@@ -257,6 +297,49 @@ export function BonsaiRecordForm({ bonsaiId }: BonsaiRecordFormProps) {
         </div>
       )}
 
+      {/* 記録の種類 */}
+      <div>
+        <label htmlFor="record-type" className="block text-sm font-medium mb-1">記録の種類</label>
+        <select
+          id="record-type"
+          value={type}
+          onChange={(e) => {
+            setType(e.target.value as BonsaiRecordType)
+            setDetails({})
+          }}
+          className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          {BONSAI_RECORD_TYPES.map((t) => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* 種類に応じた詳細項目 */}
+      {BONSAI_RECORD_DETAIL_FIELDS[type].length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {BONSAI_RECORD_DETAIL_FIELDS[type].map((field) => (
+            <div key={field.key}>
+              <label htmlFor={`record-${field.key}`} className="block text-sm font-medium mb-1">
+                {field.label}{field.unit && `（${field.unit}）`}
+              </label>
+              <input
+                id={`record-${field.key}`}
+                type={field.kind === 'number' ? 'number' : 'text'}
+                inputMode={field.kind === 'number' ? 'decimal' : undefined}
+                step={field.kind === 'number' ? '0.1' : undefined}
+                min={field.kind === 'number' ? '0' : undefined}
+                value={details[field.key] ?? ''}
+                onChange={(e) => setDetails((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                maxLength={field.kind === 'text' ? 100 : undefined}
+                placeholder={field.placeholder}
+                className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* テキスト入力エリア */}
       <div>
         <textarea
@@ -322,7 +405,7 @@ export function BonsaiRecordForm({ bonsaiId }: BonsaiRecordFormProps) {
         {/* 記録送信ボタン */}
         <button
           type="submit"
-          disabled={loading || (!content.trim() && images.length === 0)}
+          disabled={loading || (type === 'general' && !content.trim() && images.length === 0)}
           className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
         >
           {loading ? '保存中...' : '記録する'}
@@ -7,6 +7,8 @@
  * @description
  * 主な機能:
  * - 成長記録と投稿を日付順で統合表示
+ * - 記録の種類（植え替え・施肥など）と作業の詳細を表示
+ * - 記録の種類・投稿での絞り込みと、その種類の最終実施日の表示
  * - 成長記録には葉アイコン、投稿にはユーザーアバターを表示
  * - 画像のサムネイル表示とモーダルでの拡大表示
  * - 記録の削除機能（所有者のみ）
@@ -38,13 +40,22 @@ import { formatDistanceToNow } from 'date-fns'
 import { ja } from 'date-fns/locale'
 // Server Action: 成長記録を削除するサーバーサイド関数
 import { deleteBonsaiRecord } from '@/lib/actions/bonsai'
+// 成長記録の種類と詳細の表示用ヘルパー
+import {
+  BONSAI_RECORD_TYPES,
+  formatBonsaiRecordDetails,
+  getBonsaiRecordTypeLabel,
+  type BonsaiRecordDetails,
+} from '@/lib/constants/bonsai-record'
 
 /**
  * 成長記録データの型定義
  */
-interface BonsaiRecord {
+interface BonsaiRecord extends BonsaiRecordDetails {
   /** 記録ID */
   id: string
+  /** 記録の種類（省略時は 'general'） */
+  type?: string
   /** 記録内容（テキスト） */
   content: string | null
   /** 記録日時 */
@@ -127,6 +138,12 @@ type TimelineItem =
   | { type: 'record'; data: BonsaiRecord; date: Date }
   | { type: 'post'; data: Post; date: Date }
 
+/**
+ * タイムラインの絞り込み
+ * 'all': すべて、'post': 投稿のみ、それ以外: 指定した種類の成長記録のみ
+ */
+type TimelineFilter = 'all' | 'post' | string
+
 /**
  * BonsaiTimelineコンポーネントのProps型定義
  */
@@ -236,6 +253,11 @@ export function BonsaiTimeline({ records, posts, isOwner }: BonsaiTimelineProps)
    */
   const [selectedImage, setSelectedImage] = useState<string | null>(null)
 
+  /**
+   * タイムラインの絞り込み
+   */
+  const [filter, setFilter] = useState<TimelineFilter>('all')
+
   /**
    * 成長記録と投稿を統合し、日付順でソート
    * 新しいものが上に来るように降順ソート
@@ -255,6 +277,29 @@ export function BonsaiTimeline({ records, posts, isOwner }: BonsaiTimelineProps)
     })),
   ].sort((a, b) => b.date.getTime() - a.date.getTime())
 
+  /**
+   * 絞り込み後のタイムライン
+   */
+  const filteredItems = timelineItems.filter((item) => {
+    if (filter === 'all') return true
+    if (filter === 'post') return item.type === 'post'
+    return item.type === 'record' && (item.data.type ?? 'general') === filter
+  })
+
+  /**
+   * 記録が存在する種類のみ絞り込みボタンを表示
+   * （種類が1つしかない場合は絞り込む意味がないため、絞り込み自体を表示しない）
+   */
+  const recordTypeFilters = BONSAI_RECORD_TYPES.filter((t) =>
+    records.some((record) => (record.type ?? 'general') === t.value)
+  )
+
+  /**
+   * 選択中の種類の最終実施日（timelineItems は降順のため先頭が最新）
+   */
+  const lastRecordDate =
+    filter !== 'all' && filter !== 'post' ? filteredItems[0]?.date : undefined
+
   /**
    * 成長記録削除のイベントハンドラ
    *
@@ -296,12 +341,49 @@ export function BonsaiTimeline({ records, posts, isOwner }: BonsaiTimelineProps)
 
   return (
     <>
+      {/* 絞り込み */}
+      {recordTypeFilters.length > 1 && (
+        <div className="px-4 pt-4 flex flex-wrap items-center gap-2">
+          {[
+            { value: 'all', label: 'すべて' },
+            ...recordTypeFilters,
+            ...(posts.length > 0 ? [{ value: 'post', label: '投稿' }] : []),
+          ].map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFilter(option.value)}
+              aria-pressed={filter === option.value}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                filter === option.value
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'hover:bg-muted'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          {lastRecordDate && (
+            <span className="ml-auto text-xs text-muted-foreground">
+              最終: {lastRecordDate.toLocaleDateString('ja-JP')}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* 絞り込み結果が空の場合 */}
+      {filteredItems.length === 0 && (
+        <p className="p-8 text-center text-sm text-muted-foreground">該当する記録がありません</p>
+      )}
+
       {/* タイムラインリスト */}
       <div className="divide-y">
-        {timelineItems.map((item) => {
+        {filteredItems.map((item) => {
           if (item.type === 'record') {
             // 成長記録の表示
             const record = item.data
+            const recordType = record.type ?? 'general'
+            const detailLines = formatBonsaiRecordDetails(recordType, record)
             return (
               <div key={`record-${record.id}`} className="p-4">
                 <div className="flex items-start gap-3">
@@ -313,7 +395,7 @@ export function BonsaiTimeline({ records, posts, isOwner }: BonsaiTimelineProps)
                   <div className="flex-1 min-w-0">
                     {/* ヘッダー: ラベルと日時、削除ボタン */}
                     <div className="flex items-center gap-2 text-sm">
-                      <span className="font-medium text-bonsai-green">成長記録</span>
+                      <span className="font-medium text-bonsai-green">{getBonsaiRecordTypeLabel(recordType)}</span>
                       <span className="text-muted-foreground">
                         {/* 相対時間で表示（例: 2時間前） */}
                         {formatDistanceToNow(item.date, { addSuffix: true, locale: ja })}
@@ -331,6 +413,15 @@ export function BonsaiTimeline({ records, posts, isOwner }: BonsaiTimelineProps)
                       )}
                     </div>
 
+                    {/* 作業の詳細（用土・肥料・計測値など） */}
+                    {detailLines.length > 0 && (
+                      <ul className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                        {detailLines.map((line) => (
+                          <li key={line}>{line}</li>
+                        ))}
+                      </ul>
+                    )}
+
                     {/* 記録内容テキスト */}
                     {record.content && (
                       <p className="mt-1 text-sm whitespace-pre-wrap">{record.content}</p>
@@ -0,0 +1,327 @@
+/**
+ * @fileoverview 盆栽の譲渡パネルコンポーネント（所有者用）
+ *
+ * このファイルは盆栽を別のユーザーに譲るための
+ * 申し込みフォームと、申し込み中の状態表示を提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 譲渡先ユーザーの検索・選択
+ * - 経由した盆栽園の検索・選択（任意）
+ * - 来歴に残るメモの入力
+ * - 申し込み中の譲渡の表示と取り消し
+ *
+ * @example
+ * // 盆栽詳細ページでの使用
+ * <BonsaiTransferPanel bonsaiId="bonsai-123" pendingTransfer={pending} />
+ */
+
+'use client'
+
+// React のフック: 状態管理とタイマー保持に使用
+import { useState, useRef, useEffect } from 'react'
+// Next.js のルーター: データリフレッシュに使用
+import { useRouter } from 'next/navigation'
+// Server Actions: 譲渡の申し込み・取り消し
+import { offerBonsaiTransfer, cancelBonsaiTransfer } from '@/lib/actions/bonsai-transfer'
+// Server Action: 盆栽園の検索
+import { getShops } from '@/lib/actions/shop'
+// ユーザー検索・選択コンポーネント（グループメンバー選択と共通）
+import { GroupMemberPicker, type PickerUser } from '@/components/message/GroupMemberPicker'
+
+/**
+ * 入力から盆栽園の検索を実行するまでの待ち時間（ミリ秒）
+ */
+const SHOP_SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * 盆栽園の検索候補の最大表示件数
+ */
+const MAX_SHOP_CANDIDATES = 5
+
+/**
+ * 盆栽園の選択肢
+ */
+type ShopOption = {
+  id: string
+  name: string
+  address: string
+}
+
+/**
+ * BonsaiTransferPanelコンポーネントのProps型定義
+ */
+interface BonsaiTransferPanelProps {
+  /** 盆栽ID */
+  bonsaiId: string
+  /** 申し込み中の譲渡（なければ null） */
+  pendingTransfer: {
+    id: string
+    toUser: { id: string; nickname: string } | null
+  } | null
+}
+
+/**
+ * 盆栽の譲渡パネルコンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.bonsaiId - 盆栽ID
+ * @param props.pendingTransfer - 申し込み中の譲渡
+ */
+export function BonsaiTransferPanel({ bonsaiId, pendingTransfer }: BonsaiTransferPanelProps) {
+  // ルーターインスタンス: データリフレッシュに使用
+  const router = useRouter()
+
+  /** フォームの表示状態 */
+  const [showForm, setShowForm] = useState(false)
+
+  /** 選択中の譲渡先（1人まで） */
+  const [recipient, setRecipient] = useState<PickerUser[]>([])
+
+  /** 盆栽園の検索クエリ・検索結果・選択中の盆栽園 */
+  const [shopQuery, setShopQuery] = useState('')
+  const [shopResults, setShopResults] = useState<ShopOption[]>([])
+  const [shop, setShop] = useState<ShopOption | null>(null)
+
+  /** 来歴に残るメモ */
+  const [note, setNote] = useState('')
+
+  /** 送信中フラグとエラーメッセージ */
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /** 盆栽園検索の遅延実行タイマー */
+  const shopSearchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (shopSearchTimerRef.current) clearTimeout(shopSearchTimerRef.current)
+    }
+  }, [])
+
+  /**
+   * 盆栽園の検索クエリの変更
+   * 一定時間入力が止まってから、名前・住所で検索する
+   */
+  const handleShopQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value
+    setShopQuery(value)
+
+    if (shopSearchTimerRef.current) clearTimeout(shopSearchTimerRef.current)
+
+    if (!value.trim()) {
+      setShopResults([])
+      return
+    }
+
+    shopSearchTimerRef.current = setTimeout(async () => {
+      const result = await getShops({ search: value.trim(), sortBy: 'name' })
+      setShopResults(
+        (result.shops || []).slice(0, MAX_SHOP_CANDIDATES).map((s) => ({ id: s.id, name: s.name, address: s.address }))
+      )
+    }, SHOP_SEARCH_DEBOUNCE_MS)
+  }
+
+  /**
+   * 譲渡を申し込む
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (recipient.length === 0) {
+      setError('譲渡先のユーザーを選択してください')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await offerBonsaiTransfer(bonsaiId, {
+        toUserId: recipient[0].id,
+        shopId: shop?.id ?? null,
+        note: note.trim() || undefined,
+      })
+
+      if ('error' in result && result.error) {
+        setError(result.error)
+        return
+      }
+
+      setShowForm(false)
+      setRecipient([])
+      setShop(null)
+      setNote('')
+      router.refresh()
+    } catch {
+      setError('エラーが発生しました')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * 申し込み中の譲渡を取り消す
+   */
+  const handleCancel = async () => {
+    if (!pendingTransfer) return
+    if (!confirm('譲渡の申し込みを取り消しますか？')) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await cancelBonsaiTransfer(pendingTransfer.id)
+      if ('error' in result && result.error) {
+        setError(result.error)
+        return
+      }
+      router.refresh()
+    } catch {
+      setError('エラーが発生しました')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // 申し込み中の表示
+  if (pendingTransfer) {
+    return (
+      <div className="space-y-3">
+        {error && (
+          <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        <p className="text-sm">
+          <strong>{pendingTransfer.toUser?.nickname ?? '退会したユーザー'}</strong>
+          さんに譲渡を申し込み中です。相手が受け取ると所有者が変わります。
+        </p>
+        <button
+          type="button"
+          onClick={handleCancel}
+          disabled={loading}
+          className="px-4 py-2 border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+        >
+          申し込みを取り消す
+        </button>
+      </div>
+    )
+  }
+
+  // フォームを閉じている場合
+  if (!showForm) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          盆栽を手放すときは、成長記録ごと新しい持ち主に引き継げます。
+        </p>
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className="px-4 py-2 border rounded-lg hover:bg-muted transition-colors"
+        >
+          この盆栽を譲る
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* 譲渡先 */}
+      <div>
+        <p className="block text-sm font-medium mb-1">譲渡先</p>
+        <GroupMemberPicker
+          selected={recipient}
+          onChange={(users) => setRecipient(users.slice(-1))}
+        />
+      </div>
+
+      {/* 経由した盆栽園（任意） */}
+      <div>
+        <label htmlFor="transfer-shop" className="block text-sm font-medium mb-1">盆栽園（任意）</label>
+        {shop ? (
+          <div className="flex items-center justify-between px-3 py-2 border rounded-lg">
+            <span className="text-sm">{shop.name}</span>
+            <button
+              type="button"
+              onClick={() => setShop(null)}
+              className="text-sm text-muted-foreground hover:text-foreground"
+            >
+              解除
+            </button>
+          </div>
+        ) : (
+          <>
+            <input
+              id="transfer-shop"
+              type="text"
+              value={shopQuery}
+              onChange={handleShopQueryChange}
+              placeholder="盆栽園の名前や住所で検索"
+              className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            {shopResults.length > 0 && (
+              <ul className="mt-1 border rounded-lg divide-y">
+                {shopResults.map((option) => (
+                  <li key={option.id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setShop(option)
+                        setShopQuery('')
+                        setShopResults([])
+                      }}
+                      className="w-full px-3 py-2 text-left hover:bg-muted transition-colors"
+                    >
+                      <span className="block text-sm">{option.name}</span>
+                      <span className="block text-xs text-muted-foreground">{option.address}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* メモ */}
+      <div>
+        <label htmlFor="transfer-note" className="block text-sm font-medium mb-1">メモ（来歴に公開されます）</label>
+        <textarea
+          id="transfer-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          maxLength={200}
+          placeholder="例: 15年間培養しました"
+          className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setShowForm(false)}
+          disabled={loading}
+          className="px-4 py-2 border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+        >
+          キャンセル
+        </button>
+        <button
+          type="submit"
+          disabled={loading || recipient.length === 0}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {loading ? '送信中...' : '譲渡を申し込む'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview 届いた盆栽の譲渡の申し込み一覧コンポーネント
+ *
+ * このファイルは自分宛ての譲渡の申し込みを一覧表示し、
+ * 受け取る・辞退するの操作を提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 申し込みの表示（盆栽名・樹種・記録件数・譲渡元・盆栽園・メモ）
+ * - 受け取り（受け取った盆栽の詳細ページへ遷移）
+ * - 辞退
+ *
+ * @example
+ * // 譲渡の申し込みページでの使用
+ * <BonsaiTransferRequestList transfers={transfers} />
+ */
+
+'use client'
+
+// React のフック: 状態管理に使用
+import { useState } from 'react'
+// Next.js のリンクコンポーネント: 盆栽園・ユーザーページへのナビゲーション用
+import Link from 'next/link'
+// Next.js のルーター: 受け取り後の遷移とデータリフレッシュに使用
+import { useRouter } from 'next/navigation'
+// Server Actions: 譲渡の承諾・辞退
+import { acceptBonsaiTransfer, declineBonsaiTransfer } from '@/lib/actions/bonsai-transfer'
+
+/**
+ * 譲渡の申し込みの型定義
+ */
+export interface ReceivedBonsaiTransfer {
+  /** 申し込みID */
+  id: string
+  /** 譲渡時のメモ */
+  note: string | null
+  /** 申し込み日時 */
+  createdAt: Date
+  /** 対象の盆栽 */
+  bonsai: {
+    id: string
+    name: string
+    species: string | null
+    _count: { records: number }
+  }
+  /** 譲渡元ユーザー */
+  fromUser: { id: string; nickname: string } | null
+  /** 経由した盆栽園 */
+  shop: { id: string; name: string } | null
+}
+
+/**
+ * BonsaiTransferRequestListコンポーネントのProps型定義
+ */
+interface BonsaiTransferRequestListProps {
+  /** 自分宛ての申し込み */
+  transfers: ReceivedBonsaiTransfer[]
+}
+
+/**
+ * 届いた盆栽の譲渡の申し込み一覧コンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.transfers - 自分宛ての申し込み
+ */
+export function BonsaiTransferRequestList({ transfers }: BonsaiTransferRequestListProps) {
+  // ルーターインスタンス: 遷移とデータリフレッシュに使用
+  const router = useRouter()
+
+  /** 処理中の申し込みID */
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * 申し込みを受け取る
+   * 成功時は受け取った盆栽の詳細ページへ遷移
+   */
+  const handleAccept = async (transfer: ReceivedBonsaiTransfer) => {
+    if (!confirm(`「${transfer.bonsai.name}」を受け取りますか？`)) return
+
+    setProcessingId(transfer.id)
+    setError(null)
+
+    try {
+      const result = await acceptBonsaiTransfer(transfer.id)
+      if ('error' in result && result.error) {
+        setError(result.error)
+        return
+      }
+      router.push(`/bonsai/${transfer.bonsai.id}`)
+    } catch {
+      setError('エラーが発生しました')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  /**
+   * 申し込みを辞退する
+   */
+  const handleDecline = async (transferId: string) => {
+    if (!confirm('この申し込みを辞退しますか？')) return
+
+    setProcessingId(transferId)
+    setError(null)
+
+    try {
+      const result = await declineBonsaiTransfer(transferId)
+      if ('error' in result && result.error) {
+        setError(result.error)
+        return
+      }
+      router.refresh()
+    } catch {
+      setError('エラーが発生しました')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  if (transfers.length === 0) {
+    return (
+      <p className="p-8 text-center text-sm text-muted-foreground">
+        届いている譲渡の申し込みはありません
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y">
+        {transfers.map((transfer) => (
+          <li key={transfer.id} className="py-4 space-y-2">
+            <div>
+              <p className="font-bold">
+                {transfer.bonsai.name}
+                {transfer.bonsai.species && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">{transfer.bonsai.species}</span>
+                )}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {transfer.fromUser ? (
+                  <Link href={`/users/${transfer.fromUser.id}`} className="hover:underline">
+                    {transfer.fromUser.nickname}
+                  </Link>
+                ) : (
+                  '退会したユーザー'
+                )}
+                さんから・成長記録{transfer.bonsai._count.records}件
+                {transfer.shop && (
+                  <>
+                    ・
+                    <Link href={`/shops/${transfer.shop.id}`} className="hover:underline">
+                      {transfer.shop.name}
+                    </Link>
+                    経由
+                  </>
+                )}
+              </p>
+              {transfer.note && (
+                <p className="mt-1 text-sm whitespace-pre-wrap">{transfer.note}</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => handleAccept(transfer)}
+                disabled={processingId === transfer.id}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                受け取る
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDecline(transfer.id)}
+                disabled={processingId === transfer.id}
+                className="px-4 py-2 border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+              >
+                辞退する
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview 季節のお手入れカレンダーの作業一覧コンポーネント
+ *
+ * このファイルは、居住地域に合わせた適期と対象の盆栽をあわせて
+ * お手入れの作業を一覧表示するコンポーネントを提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 作業名・適期・対象の盆栽（盆栽詳細へのリンク）の表示
+ * - 作業のポイントの表示（compact では省略）
+ * - compact 表示では対象の盆栽を先頭の数鉢に絞って表示
+ *
+ * 状態を持たないため、サーバーコンポーネントからそのまま使用できます。
+ *
+ * @example
+ * // お手入れカレンダーページでの使用
+ * <CareCalendarList items={calendar.items} />
+ *
+ * // 右サイドバーでの使用
+ * <CareCalendarList items={weekly.items} compact />
+ */
+
+// Next.js のリンクコンポーネント: 盆栽詳細ページへのナビゲーション用
+import Link from 'next/link'
+// 適期の表示形式
+import { formatCareWindow } from '@/lib/constants/care-calendar'
+
+/**
+ * compact 表示で名前を表示する盆栽の最大数
+ */
+const COMPACT_MAX_BONSAIS = 2
+
+/**
+ * お手入れカレンダーの作業
+ */
+export interface CareCalendarItem {
+  /** 作業ID */
+  id: string
+  /** 作業名 */
+  label: string
+  /** 作業のポイント */
+  note: string
+  /** 適期の開始日 */
+  start: Date
+  /** 適期の終了日 */
+  end: Date
+  /** 対象の盆栽 */
+  bonsais: { id: string; name: string; speciesName: string }[]
+}
+
+/**
+ * CareCalendarListコンポーネントのProps型定義
+ */
+interface CareCalendarListProps {
+  /** 作業一覧 */
+  items: CareCalendarItem[]
+  /** 右サイドバー向けの簡易表示 */
+  compact?: boolean
+}
+
+/**
+ * 季節のお手入れカレンダーの作業一覧コンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.items - 作業一覧
+ * @param props.compact - 簡易表示
+ */
+export function CareCalendarList({ items, compact = false }: CareCalendarListProps) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">この時期に行う作業はありません</p>
+  }
+
+  return (
+    <ul className={compact ? 'space-y-3' : 'divide-y'}>
+      {items.map((item) => {
+        const bonsais = compact ? item.bonsais.slice(0, COMPACT_MAX_BONSAIS) : item.bonsais
+        const restCount = item.bonsais.length - bonsais.length
+
+        return (
+          <li key={item.id} className={compact ? undefined : 'py-3'}>
+            <p className="text-sm font-medium">
+              {item.label}
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                {formatCareWindow(new Date(item.start), new Date(item.end))}
+              </span>
+            </p>
+            {!compact && <p className="mt-1 text-sm text-muted-foreground">{item.note}</p>}
+            <p className="mt-1 text-xs text-muted-foreground">
+              {bonsais.map((bonsai, index) => (
+                <span key={bonsai.id}>
+                  {index > 0 && '、'}
+                  <Link href={`/bonsai/${bonsai.id}`} className="hover:underline">
+                    {bonsai.name}
+                  </Link>
+                  {!compact && `（${bonsai.speciesName}）`}
+                </span>
+              ))}
+              {restCount > 0 && ` ほか${restCount}鉢`}
+            </p>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview お手入れ予定の登録フォームコンポーネント
+ *
+ * このファイルは盆栽にお手入れ予定（水やり・施肥・針金外しなど）を
+ * 登録するためのフォームを提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 作業の種類の選択
+ * - 期日と繰り返し間隔の指定
+ * - メモの入力
+ * - メールでのお知らせの有無
+ *
+ * @example
+ * // 盆栽詳細ページでの使用
+ * <CareTaskForm bonsaiId="bonsai-123" onCreated={() => setShowForm(false)} />
+ */
+
+'use client'
+
+// React のフック: 状態管理に使用
+import { useState } from 'react'
+// Next.js のルーター: データリフレッシュに使用
+import { useRouter } from 'next/navigation'
+// Server Action: お手入れ予定を登録するサーバーサイド関数
+import { createCareTask } from '@/lib/actions/care-task'
+// お手入れ予定の定数: 作業の種類と繰り返し間隔の選択肢
+import { CARE_TASK_TYPES, CARE_TASK_INTERVALS } from '@/lib/constants/care-task'
+
+/**
+ * CareTaskFormコンポーネントのProps型定義
+ */
+interface CareTaskFormProps {
+  /** 予定を登録する対象の盆栽ID */
+  bonsaiId: string
+  /** 登録成功時のコールバック */
+  onCreated?: () => void
+}
+
+/**
+ * 今日の日付を YYYY-MM-DD 形式で取得
+ * date入力の初期値に使用
+ */
+function todayString() {
+  const now = new Date()
+  const month = String(now.getMonth() + 1).padStart(2, '0')
+  const day = String(now.getDate()).padStart(2, '0')
+  return `${now.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * お手入れ予定の登録フォームコンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.bonsaiId - 予定を登録する対象の盆栽ID
+ * @param props.onCreated - 登録成功時のコールバック
+ */
+export function CareTaskForm({ bonsaiId, onCreated }: CareTaskFormProps) {
+  // ルーターインスタンス: データリフレッシュに使用
+  const router = useRouter()
+
+  /** 送信処理中かどうか */
+  const [loading, setLoading] = useState(false)
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /** 作業の種類 */
+  const [type, setType] = useState<string>(CARE_TASK_TYPES[0].value)
+
+  /** 期日（YYYY-MM-DD） */
+  const [dueDate, setDueDate] = useState(todayString)
+
+  /** 繰り返し間隔（空文字は繰り返さない） */
+  const [intervalDays, setIntervalDays] = useState('')
+
+  /** メモ */
+  const [note, setNote] = useState('')
+
+  /** メールでも知らせるか */
+  const [emailReminder, setEmailReminder] = useState(false)
+
+  /**
+   * フォーム送信時のイベントハンドラ
+   *
+   * @param e - フォーム送信イベント
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    if (!dueDate) {
+      setError('期日を入力してください')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await createCareTask(bonsaiId, {
+        type,
+        // 日付のみの入力はローカル時刻の0時として扱う
+        dueAt: new Date(`${dueDate}T00:00:00`),
+        intervalDays: intervalDays ? Number(intervalDays) : null,
+        note: note.trim() || undefined,
+        emailReminder,
+      })
+
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+
+      // 成功時はフォームをリセット
+      setNote('')
+      setIntervalDays('')
+      setEmailReminder(false)
+      onCreated?.()
+      router.refresh()
+    } catch {
+      setError('エラーが発生しました')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {/* エラーメッセージ表示エリア */}
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {/* 作業の種類 */}
+        <div>
+          <label htmlFor="care-task-type" className="block text-sm font-medium mb-1">
+            作業
+          </label>
+          <select
+            id="care-task-type"
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {CARE_TASK_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* 期日 */}
+        <div>
+          <label htmlFor="care-task-due" className="block text-sm font-medium mb-1">
+            期日
+          </label>
+          <input
+            id="care-task-due"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+      </div>
+
+      {/* 繰り返し間隔 */}
+      <div>
+        <label htmlFor="care-task-interval" className="block text-sm font-medium mb-1">
+          繰り返し
+        </label>
+        <select
+          id="care-task-interval"
+          value={intervalDays}
+          onChange={(e) => setIntervalDays(e.target.value)}
+          className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          {CARE_TASK_INTERVALS.map((i) => (
+            <option key={i.label} value={i.value ?? ''}>
+              {i.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* メモ */}
+      <div>
+        <label htmlFor="care-task-note" className="block text-sm font-medium mb-1">
+          メモ
+        </label>
+        <input
+          id="care-task-note"
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          placeholder="例: 一の枝の食い込みに注意"
+          className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      {/* メールでのお知らせ */}
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={emailReminder}
+          onChange={(e) => setEmailReminder(e.target.checked)}
+        />
+        期日にメールでも知らせる
+      </label>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {loading ? '登録中...' : '予定を追加'}
+        </button>
+      </div>
+    </form>
+  )
+}
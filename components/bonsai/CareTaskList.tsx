@@ -0,0 +1,210 @@
+/**
+ * @fileoverview お手入れ予定一覧コンポーネント
+ *
+ * このファイルは盆栽のお手入れ予定を期日順に表示し、
+ * 完了・削除の操作を提供します。
+ *
+ * @description
+ * 主な機能:
+ * - 期日までの残り日数の表示（期限切れは強調表示）
+ * - 完了ボタン（成長記録が自動で作成され、繰り返し予定は次回期日に更新）
+ * - 削除ボタン
+ * - 盆栽IDを渡した場合は予定の追加フォームを表示
+ * - 予定に盆栽情報がある場合は盆栽名を表示（マイ盆栽一覧での横断表示用）
+ *
+ * @example
+ * // 盆栽詳細ページでの使用
+ * <CareTaskList bonsaiId={bonsai.id} tasks={tasks} />
+ *
+ * // マイ盆栽一覧での近日中の予定表示
+ * <CareTaskList tasks={upcomingTasks} />
+ */
+
+'use client'
+
+// React のフック: 状態管理と非同期処理の状態管理に使用
+import { useState, useTransition } from 'react'
+// Next.js のルーター: データリフレッシュに使用
+import { useRouter } from 'next/navigation'
+// Next.js のLink コンポーネント: 盆栽詳細への遷移
+import Link from 'next/link'
+// Server Actions: お手入れ予定の完了・削除
+import { completeCareTask, deleteCareTask } from '@/lib/actions/care-task'
+// お手入れ予定の定数とヘルパー
+import {
+  CARE_TASK_TYPE_LABELS,
+  getCareTaskIntervalLabel,
+  getDaysUntilDue,
+  getDueLabel,
+  type CareTaskType,
+} from '@/lib/constants/care-task'
+// お手入れ予定の登録フォーム
+import { CareTaskForm } from './CareTaskForm'
+
+/**
+ * お手入れ予定の型
+ */
+export interface CareTaskItem {
+  id: string
+  type: string
+  note: string | null
+  intervalDays: number | null
+  dueAt: Date | string
+  emailReminder: boolean
+  /** 予定の対象盆栽（マイ盆栽一覧での横断表示時のみ） */
+  bonsai?: {
+    id: string
+    name: string
+  }
+}
+
+/**
+ * CareTaskListコンポーネントのProps型定義
+ */
+interface CareTaskListProps {
+  /** 表示するお手入れ予定（期日順） */
+  tasks: CareTaskItem[]
+  /** 予定を追加する盆栽ID（指定時のみ追加フォームを表示） */
+  bonsaiId?: string
+}
+
+/**
+ * お手入れ予定一覧コンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.tasks - 表示するお手入れ予定
+ * @param props.bonsaiId - 予定を追加する盆栽ID
+ */
+export function CareTaskList({ tasks, bonsaiId }: CareTaskListProps) {
+  // ルーターインスタンス: データリフレッシュに使用
+  const router = useRouter()
+
+  /** 追加フォームの表示状態 */
+  const [showForm, setShowForm] = useState(false)
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /** 完了・削除の処理中かどうか */
+  const [isPending, startTransition] = useTransition()
+
+  /**
+   * 予定を完了する
+   *
+   * @param taskId - 予定ID
+   */
+  const handleComplete = (taskId: string) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await completeCareTask(taskId)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      router.refresh()
+    })
+  }
+
+  /**
+   * 予定を削除する
+   *
+   * @param taskId - 予定ID
+   */
+  const handleDelete = (taskId: string) => {
+    if (!confirm('このお手入れ予定を削除しますか？')) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await deleteCareTask(taskId)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* エラーメッセージ表示エリア */}
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* 予定一覧 */}
+      {tasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">お手入れ予定はありません</p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {tasks.map((task) => {
+            const dueAt = new Date(task.dueAt)
+            const isOverdue = getDaysUntilDue(dueAt) < 0
+            const label = CARE_TASK_TYPE_LABELS[task.type as CareTaskType] ?? task.type
+
+            return (
+              <li key={task.id} className="flex items-center gap-3 p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{label}</span>
+                    {task.bonsai && (
+                      <Link href={`/bonsai/${task.bonsai.id}`} className="text-sm text-primary hover:underline truncate">
+                        {task.bonsai.name}
+                      </Link>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <span className={isOverdue ? 'text-destructive font-medium' : ''}>
+                      {dueAt.toLocaleDateString('ja-JP')}（{getDueLabel(dueAt)}）
+                    </span>
+                    {task.intervalDays && <> ・ {getCareTaskIntervalLabel(task.intervalDays)}</>}
+                    {task.emailReminder && <> ・ メール通知</>}
+                  </p>
+                  {task.note && (
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{task.note}</p>
+                  )}
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => handleComplete(task.id)}
+                  disabled={isPending}
+                  className="px-3 py-1 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  完了
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(task.id)}
+                  disabled={isPending}
+                  className="px-3 py-1 text-sm border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+                  aria-label={`${label}の予定を削除`}
+                >
+                  削除
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {/* 予定の追加 - 盆栽詳細ページのみ */}
+      {bonsaiId && (
+        showForm ? (
+          <div className="border rounded-lg p-3">
+            <CareTaskForm bonsaiId={bonsaiId} onCreated={() => setShowForm(false)} />
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="text-sm text-primary hover:underline"
+          >
+            ＋ お手入れ予定を追加
+          </button>
+        )
+      )}
+    </div>
+  )
+}
@@ -12,6 +12,7 @@
  * - 画像の自動圧縮（クライアントサイド）
  * - アップロード進捗表示
  * - ジャンル選択（最大3つ）
+ * - 公開範囲の選択
  * - 下書き保存、投稿、削除の各アクション
  * - 大容量動画のR2直接アップロード対応
  *
@@ -73,6 +74,12 @@ import { saveDraft, publishDraft, deleteDraft } from '@/lib/actions/draft'
  */
 import { GenreSelector } from '@/components/post/GenreSelector'
 
+/**
+ * PostAudienceSelect - 公開範囲選択コンポーネント
+ * 投稿を見せる相手を選択するUI
+ */
+import { PostAudienceSelect } from '@/components/post/PostAudienceSelect'
+
 /**
  * prepareFileForUpload - アップロード前のファイル準備（圧縮等）
  * isVideoFile - ファイルが動画かどうかを判定
@@ -138,6 +145,8 @@ type Draft = {
   media: DraftMedia[]
   /** 紐づくジャンルの配列 */
   genres: DraftGenre[]
+  /** 投稿時の公開範囲 */
+  audience: string
 }
 
 /**
@@ -252,6 +261,12 @@ export function DraftEditForm({ draft, genres }: DraftEditFormProps) {
     draft.genres.map((g) => g.genreId)
   )
 
+  /**
+   * 投稿時の公開範囲を管理
+   * 初期値は下書きに保存された公開範囲
+   */
+  const [audience, setAudience] = useState(draft.audience)
+
   /**
    * 添付メディアファイルの配列を管理
    * URLと種別のオブジェクト配列
@@ -469,6 +484,7 @@ export function DraftEditForm({ draft, genres }: DraftEditFormProps) {
         content: content || undefined,
         mediaUrls: mediaFiles.map((m) => m.url),
         genreIds: selectedGenres,
+        audience,
       })
 
       if (result.error) {
@@ -504,6 +520,7 @@ export function DraftEditForm({ draft, genres }: DraftEditFormProps) {
         content: content || undefined,
         mediaUrls: mediaFiles.map((m) => m.url),
         genreIds: selectedGenres,
+        audience,
       })
 
       if (saveResult.error) {
@@ -647,6 +664,9 @@ export function DraftEditForm({ draft, genres }: DraftEditFormProps) {
         />
       </div>
 
+      {/* 公開範囲選択セクション */}
+      <PostAudienceSelect value={audience} onChange={setAudience} />
+
       {/* エラーメッセージ表示 */}
       {error && (
         <p className="text-sm text-destructive">{error}</p>
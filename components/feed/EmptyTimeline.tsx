@@ -134,13 +134,16 @@ function SearchIcon({ className }: { className?: string }) {
  * ## ユーザー体験
  * - 新規ユーザーが最初に見る可能性が高い
  * - 明確なアクション（検索ページへ誘導）を提示
+ * - onShowForYou を渡すと、フォローしていなくても投稿を見られる「おすすめ」への切り替えボタンも表示
  * - フレンドリーで親しみやすいメッセージ
  *
+ * @param onShowForYou - 「おすすめ」タブへ切り替えるコールバック（任意）
+ *
  * @example
  * ```tsx
  * // Timelineコンポーネント内での使用
  * if (allPosts.length === 0) {
- *   return <EmptyTimeline />
+ *   return <EmptyTimeline onShowForYou={() => setFeed('forYou')} />
  * }
  *
  * // Server Componentでの使用
@@ -155,7 +158,7 @@ function SearchIcon({ className }: { className?: string }) {
  * }
  * ```
  */
-export function EmptyTimeline() {
+export function EmptyTimeline({ onShowForYou }: { onShowForYou?: () => void } = {}) {
   return (
     <div className="bg-card rounded-lg border p-8 text-center">
       {/*
@@ -202,6 +205,17 @@ export function EmptyTimeline() {
           <SearchIcon className="w-4 h-4" />
           ユーザーを検索
         </Link>
+
+        {/* おすすめタブへの切り替えボタン（Timeline内で使用する場合のみ） */}
+        {onShowForYou && (
+          <button
+            type="button"
+            onClick={onShowForYou}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 border rounded-lg hover:bg-muted transition-colors"
+          >
+            おすすめの投稿を見る
+          </button>
+        )}
       </div>
     </div>
   )
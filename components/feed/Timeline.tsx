@@ -5,6 +5,7 @@
  * フィードページのメインコンテンツとして使用されます。
  *
  * ## 機能概要
+ * - 「フォロー中」と「おすすめ」のタブ切り替え
  * - 投稿一覧の表示
  * - 無限スクロール（Intersection Observer使用）
  * - ローディング状態の表示
@@ -38,10 +39,11 @@ import { useInfiniteQuery } from '@tanstack/react-query'
 import { useInView } from 'react-intersection-observer'
 
 /**
- * React useEffect Hook
- * スクロール検知時のデータフェッチに使用
+ * React Hooks
+ * - useEffect: スクロール検知時のデータフェッチに使用
+ * - useState: 表示中のタブの管理に使用
  */
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 
 /**
  * 投稿カードコンポーネント
@@ -55,9 +57,9 @@ import { PostCard } from '@/components/post/PostCard'
 import { InFeedAd } from '@/components/ads'
 
 /**
- * タイムライン取得用Server Action
+ * タイムライン・おすすめフィード取得用Server Actions
  */
-import { getTimeline } from '@/lib/actions/feed'
+import { getForYouFeed, getTimeline } from '@/lib/actions/feed'
 
 /**
  * ローディング中のスケルトン表示
@@ -85,7 +87,7 @@ type Post = any
 /**
  * Timelineコンポーネントのprops型
  *
- * @property initialPosts - SSRで取得した初期投稿データ
+ * @property initialPosts - SSRで取得した初期投稿データ（フォロー中タブ）
  * @property currentUserId - 現在のユーザーID（いいね状態の判定に使用）
  */
 type TimelineProps = {
@@ -93,6 +95,22 @@ type TimelineProps = {
   currentUserId?: string
 }
 
+/**
+ * フィードの種類
+ *
+ * - following: フォロー中のユーザーの投稿（新しい順）
+ * - forYou: おすすめの投稿（スコア順）
+ */
+type FeedType = 'following' | 'forYou'
+
+/**
+ * タブの定義
+ */
+const FEED_TABS: { id: FeedType; label: string }[] = [
+  { id: 'following', label: 'フォロー中' },
+  { id: 'forYou', label: 'おすすめ' },
+]
+
 // ============================================================
 // メインコンポーネント
 // ============================================================
@@ -100,16 +118,8 @@ type TimelineProps = {
 /**
  * タイムラインコンポーネント
  *
- * ## 機能
- * - 投稿一覧の無限スクロール表示
- * - SSRデータとクライアントデータの統合
- * - ローディングと空状態の処理
- *
- * ## 無限スクロールの仕組み
- * 1. 画面下部の監視要素（ref）がビューポートに入る
- * 2. inViewがtrueになる
- * 3. useEffectが発火してfetchNextPage()を呼び出し
- * 4. 次のページのデータが取得されてUIに追加
+ * 「フォロー中」「おすすめ」のタブを表示し、選択中のフィードを表示します。
+ * SSRで取得した初期データは「フォロー中」タブでのみ使用します。
  *
  * @param initialPosts - 初期投稿データ
  * @param currentUserId - 現在のユーザーID
@@ -125,6 +135,81 @@ type TimelineProps = {
  * ```
  */
 export function Timeline({ initialPosts, currentUserId }: TimelineProps) {
+  /**
+   * 表示中のタブ
+   */
+  const [feed, setFeed] = useState<FeedType>('following')
+
+  return (
+    <div>
+      <div className="flex border-b mb-4" role="tablist">
+        {FEED_TABS.map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            role="tab"
+            aria-selected={feed === tab.id}
+            onClick={() => setFeed(tab.id)}
+            className={`flex-1 py-3 text-sm font-medium transition-colors relative ${
+              feed === tab.id
+                ? 'text-primary'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {tab.label}
+            {feed === tab.id && (
+              <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* タブごとにクエリを分けるため key で作り直す */}
+      <TimelineFeed
+        key={feed}
+        feed={feed}
+        initialPosts={feed === 'following' ? initialPosts : undefined}
+        currentUserId={currentUserId}
+        onShowForYou={() => setFeed('forYou')}
+      />
+    </div>
+  )
+}
+
+// ============================================================
+// 内部コンポーネント
+// ============================================================
+
+/**
+ * フィード表示コンポーネント（内部使用）
+ *
+ * ## 機能
+ * - 投稿一覧の無限スクロール表示
+ * - SSRデータとクライアントデータの統合
+ * - ローディングと空状態の処理
+ *
+ * ## 無限スクロールの仕組み
+ * 1. 画面下部の監視要素（ref）がビューポートに入る
+ * 2. inViewがtrueになる
+ * 3. useEffectが発火してfetchNextPage()を呼び出し
+ * 4. 次のページのデータが取得されてUIに追加
+ *
+ * @param feed - 表示するフィードの種類
+ * @param initialPosts - 初期投稿データ（ない場合はクライアントで取得）
+ * @param currentUserId - 現在のユーザーID
+ * @param onShowForYou - 「フォロー中」が空のときに「おすすめ」へ切り替えるコールバック
+ */
+function TimelineFeed({
+  feed,
+  initialPosts,
+  currentUserId,
+  onShowForYou,
+}: {
+  feed: FeedType
+  initialPosts?: Post[]
+  currentUserId?: string
+  onShowForYou: () => void
+}) {
   // ------------------------------------------------------------
   // Hooks
   // ------------------------------------------------------------
@@ -157,14 +242,16 @@ export function Timeline({ initialPosts, currentUserId }: TimelineProps) {
      * クエリキー
      * このキーでキャッシュを識別・無効化
      */
-    queryKey: ['timeline'],
+    queryKey: ['timeline', feed],
 
     /**
      * データ取得関数
-     * pageParamにはカーソル（投稿ID）が渡される
+     * pageParamにはカーソル（フォロー中は投稿ID、おすすめは表示位置）が渡される
      */
-    queryFn: async ({ pageParam }) => {
-      const result = await getTimeline(pageParam)
+    queryFn: async ({ pageParam }): Promise<{ posts: Post[]; nextCursor?: string }> => {
+      const result = feed === 'forYou'
+        ? await getForYouFeed(pageParam)
+        : await getTimeline(pageParam)
       return result
     },
 
@@ -176,9 +263,9 @@ export function Timeline({ initialPosts, currentUserId }: TimelineProps) {
 
     /**
      * SSRで取得した初期データ
-     * ハイドレーション時に使用
+     * ハイドレーション時に使用（おすすめタブではクライアントで取得）
      */
-    initialData: {
+    initialData: initialPosts && {
       pages: [{
         posts: initialPosts,
         nextCursor: initialPosts.length >= 20 ? initialPosts[initialPosts.length - 1]?.id : undefined,
@@ -227,9 +314,18 @@ export function Timeline({ initialPosts, currentUserId }: TimelineProps) {
 
   /**
    * 投稿がない場合は空状態を表示
+   *
+   * フォロー中が空の場合は、おすすめへの切り替えを提案する
    */
   if (allPosts.length === 0) {
-    return <EmptyTimeline />
+    if (feed === 'forYou') {
+      return (
+        <div className="bg-card rounded-lg border p-8 text-center text-muted-foreground">
+          おすすめできる投稿はまだありません
+        </div>
+      )
+    }
+    return <EmptyTimeline onShowForYou={onShowForYou} />
   }
 
   // ------------------------------------------------------------
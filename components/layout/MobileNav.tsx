@@ -123,6 +123,16 @@ function UserIcon({ className }: { className?: string }) {
   )
 }
 
+/** 本アイコン（樹種図鑑用） */
+function BookOpenIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z" />
+      <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z" />
+    </svg>
+  )
+}
+
 /** マップピンアイコン（盆栽園マップ用） */
 function MapPinIcon({ className }: { className?: string }) {
   return (
@@ -154,6 +164,20 @@ function BookmarkIcon({ className }: { className?: string }) {
   )
 }
 
+/** リストアイコン */
+function ListIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <line x1="8" x2="21" y1="6" y2="6" />
+      <line x1="8" x2="21" y1="12" y2="12" />
+      <line x1="8" x2="21" y1="18" y2="18" />
+      <line x1="3" x2="3.01" y1="6" y2="6" />
+      <line x1="3" x2="3.01" y1="12" y2="12" />
+      <line x1="3" x2="3.01" y1="18" y2="18" />
+    </svg>
+  )
+}
+
 /** 設定アイコン */
 function SettingsIcon({ className }: { className?: string }) {
   return (
@@ -287,9 +311,11 @@ const baseNavItems: NavItem[] = [
  */
 const moreMenuItems: NavItem[] = [
   { href: '/bonsai', icon: BonsaiIcon, label: 'マイ盆栽' },
+  { href: '/species', icon: BookOpenIcon, label: '樹種図鑑' },
   { href: '/shops', icon: MapPinIcon, label: '盆栽園マップ' },
   { href: '/events', icon: CalendarIcon, label: 'イベント' },
   { href: '/bookmarks', icon: BookmarkIcon, label: 'ブックマーク' },
+  { href: '/lists', icon: ListIcon, label: 'リスト' },
   { href: '/settings', icon: SettingsIcon, label: '設定' },
 ]
 
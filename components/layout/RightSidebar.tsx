@@ -5,8 +5,10 @@
  * 画面右側のサイドバーを提供します。
  *
  * ## 機能概要
+ * - 今週のお手入れの表示（ログイン中かつ作業がある場合のみ）
  * - おすすめユーザーの表示（フォロワー数順）
  * - トレンドジャンルの表示（投稿数順）
+ * - トレンドハッシュタグの表示（直近の伸び順、勢いの表示付き）
  * - 広告スペースの表示
  * - フッターリンク（利用規約、プライバシー等）
  *
@@ -16,7 +18,7 @@
  *
  * ## データ取得
  * Server Componentとして動作し、サーバーサイドで
- * おすすめユーザーとトレンドジャンルを並列取得
+ * 今週のお手入れ・おすすめユーザー・トレンドジャンル・トレンドハッシュタグを並列取得
  *
  * ## 使用例
  * ```tsx
@@ -53,6 +55,23 @@ import Image from 'next/image'
  */
 import { getRecommendedUsers, getTrendingGenres } from '@/lib/actions/feed'
 
+/**
+ * Server Actions: 今週のお手入れを取得
+ * 未ログインの場合はエラーが返り、セクションを表示しない
+ */
+import { getWeeklyCareCalendar } from '@/lib/actions/care-calendar'
+
+/**
+ * Server Actions: トレンドハッシュタグを取得
+ * 定期ジョブの集計結果（キャッシュ）から取得する
+ */
+import { getTrendingHashtags } from '@/lib/actions/hashtag'
+
+/**
+ * お手入れカレンダーの作業一覧コンポーネント
+ */
+import { CareCalendarList } from '@/components/bonsai/CareCalendarList'
+
 /**
  * サイドバー広告コンポーネント
  * Google AdSenseの広告を表示
@@ -66,7 +85,7 @@ import { SidebarAd } from '@/components/ads'
 /**
  * トレンドアイコン
  *
- * トレンドジャンルセクションのヘッダーに使用する
+ * トレンドジャンル・トレンドハッシュタグセクションのヘッダーに使用する
  * 上昇矢印付きの折れ線グラフアイコン
  *
  * @param className - SVG要素に適用するCSSクラス
@@ -90,7 +109,7 @@ function TrendingIcon({ className }: { className?: string }) {
  * 右サイドバーコンポーネント（Server Component）
  *
  * デスクトップ画面で表示される固定サイドバー。
- * おすすめユーザー、トレンドジャンル、広告、フッターを含む。
+ * 今週のお手入れ、おすすめユーザー、トレンドジャンル、トレンドハッシュタグ、広告、フッターを含む。
  *
  * ## データ取得
  * Promise.allで並列にデータを取得し、パフォーマンスを最適化
@@ -111,15 +130,18 @@ export async function RightSidebar() {
   // ============================================================
 
   /**
-   * おすすめユーザーとトレンドジャンルを並列で取得
+   * 今週のお手入れ、おすすめユーザー、トレンドジャンルとトレンドハッシュタグを並列で取得
    * Promise.allを使用することでデータ取得時間を短縮
    */
-  const [usersResult, genresResult] = await Promise.all([
+  const [careResult, usersResult, genresResult, trendingHashtags] = await Promise.all([
+    getWeeklyCareCalendar(), // 今週のお手入れ（未ログイン時はエラー）
     getRecommendedUsers(5),  // 上位5名のおすすめユーザー
     getTrendingGenres(5),    // 上位5件のトレンドジャンル
+    getTrendingHashtags(5),  // 上位5件のトレンドハッシュタグ
   ])
 
   // 取得結果から配列を抽出（undefinedの場合は空配列）
+  const weeklyCareItems = 'items' in careResult ? careResult.items.slice(0, 5) : []
   const recommendedUsers = usersResult.users || []
   const trendingGenres = genresResult.genres || []
 
@@ -131,6 +153,28 @@ export async function RightSidebar() {
     // サイドバーコンテナ: xl以上で表示、スクロール可能
     <aside className="sticky top-0 h-screen w-80 border-l bg-card/95 backdrop-blur-sm hidden xl:flex flex-col p-4 overflow-y-auto shadow-washi">
 
+      {/* ============================================================ */}
+      {/* 今週のお手入れセクション: 作業がある場合のみ表示 */}
+      {/* ============================================================ */}
+      {weeklyCareItems.length > 0 && (
+        <div className="card-washi rounded p-4 mb-4">
+          <h3 className="font-medium mb-4 text-sm flex items-center gap-2">
+            <span className="w-1 h-4 bg-primary rounded-full" />
+            今週のお手入れ
+          </h3>
+
+          <CareCalendarList items={weeklyCareItems} compact />
+
+          {/* お手入れカレンダーページへのリンク */}
+          <Link
+            href="/bonsai/calendar"
+            className="block text-sm text-primary hover:text-primary/80 mt-4 transition-colors"
+          >
+            カレンダーを見る →
+          </Link>
+        </div>
+      )}
+
       {/* ============================================================ */}
       {/* おすすめユーザーセクション */}
       {/* ============================================================ */}
@@ -238,6 +282,53 @@ export async function RightSidebar() {
         )}
       </div>
 
+      {/* ============================================================ */}
+      {/* トレンドハッシュタグセクション: 集計結果がある場合のみ表示 */}
+      {/* ============================================================ */}
+      {trendingHashtags.length > 0 && (
+        <div className="card-washi rounded p-4 mt-4">
+          {/* セクションヘッダー: トレンドアイコン付き */}
+          <h3 className="font-medium mb-4 text-sm flex items-center gap-2">
+            <TrendingIcon className="w-4 h-4 text-accent" />
+            トレンドハッシュタグ
+          </h3>
+
+          <ul className="space-y-2">
+            {trendingHashtags.map((hashtag: typeof trendingHashtags[number]) => (
+              <li key={hashtag.id}>
+                {/* ハッシュタグリンク: 検索結果ページへ遷移 */}
+                <Link
+                  href={`/search?q=${encodeURIComponent(`#${hashtag.name}`)}`}
+                  className="flex items-center gap-3 hover:bg-muted/50 rounded p-2 -m-2 transition-all duration-200"
+                >
+                  {/* ハッシュタグ情報: 名前と直近24時間の投稿数 */}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">#{hashtag.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      24時間で{hashtag.recentCount}件の投稿
+                    </p>
+                  </div>
+                  {/* 勢いの表示: 新着・急上昇（伸び率）のみ */}
+                  {hashtag.trend === 'new' && (
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-accent/10 text-accent font-medium">
+                      NEW
+                    </span>
+                  )}
+                  {hashtag.trend === 'rising' && (
+                    <span
+                      className="text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary font-medium"
+                      title="過去7日間と比べた投稿ペース"
+                    >
+                      ↑{hashtag.velocity}倍
+                    </span>
+                  )}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* ============================================================ */}
       {/* 広告スペース */}
       {/* ============================================================ */}
@@ -153,6 +153,44 @@ function BookmarkIcon({ className }: { className?: string }) {
   )
 }
 
+/**
+ * リストアイコン
+ *
+ * 箇条書きの形をしたアイコン
+ * リストページへのリンクに使用
+ *
+ * @param className - 追加のCSSクラス
+ */
+function ListIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <line x1="8" x2="21" y1="6" y2="6" />
+      <line x1="8" x2="21" y1="12" y2="12" />
+      <line x1="8" x2="21" y1="18" y2="18" />
+      <line x1="3" x2="3.01" y1="6" y2="6" />
+      <line x1="3" x2="3.01" y1="12" y2="12" />
+      <line x1="3" x2="3.01" y1="18" y2="18" />
+    </svg>
+  )
+}
+
+/**
+ * 本アイコン
+ *
+ * 開いた本の形をしたアイコン
+ * 樹種図鑑へのリンクに使用
+ *
+ * @param className - 追加のCSSクラス
+ */
+function BookOpenIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z" />
+      <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z" />
+    </svg>
+  )
+}
+
 /**
  * マップピンアイコン
  *
@@ -348,7 +386,9 @@ const navItems: NavItem[] = [
   { href: '/notifications', icon: BellIcon, label: '通知' },
   { href: '/messages', icon: MessageIcon, label: 'メッセージ' },
   { href: '/bookmarks', icon: BookmarkIcon, label: 'ブックマーク' },
+  { href: '/lists', icon: ListIcon, label: 'リスト' },
   { href: '/bonsai', icon: BonsaiIcon, label: 'マイ盆栽' },
+  { href: '/species', icon: BookOpenIcon, label: '樹種図鑑' },
   { href: '/shops', icon: MapPinIcon, label: '盆栽園マップ' },
   { href: '/events', icon: CalendarIcon, label: 'イベント' },
 ]
@@ -0,0 +1,168 @@
+/**
+ * リストに追加ボタンコンポーネント
+ *
+ * このファイルは、プロフィールページからユーザーを自分のリストに
+ * 追加・削除するボタンとダイアログを提供します。
+ *
+ * ## 機能概要
+ * - ボタンを押すと自分のリスト一覧をダイアログで表示
+ * - リストごとに追加・削除を切り替え
+ * - リストがない場合はリスト一覧ページ（作成）へ案内
+ *
+ * ## 使用例
+ * ```tsx
+ * <AddToListButton userId={user.id} />
+ * ```
+ *
+ * @module components/list/AddToListButton
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { addListMember, getListsForMember, removeListMember } from '@/lib/actions/list'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 追加先のリスト
+ */
+type ListOption = Awaited<ReturnType<typeof getListsForMember>>['lists'][number]
+
+/**
+ * AddToListButtonコンポーネントのprops型定義
+ *
+ * @property userId - 追加するユーザーのID
+ */
+interface AddToListButtonProps {
+  userId: string
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * リストに追加ボタン
+ *
+ * @param userId - 追加するユーザーのID
+ */
+export function AddToListButton({ userId }: AddToListButtonProps) {
+  /** ダイアログの開閉状態 */
+  const [open, setOpen] = useState(false)
+
+  /** 自分のリスト（ダイアログを開いたときに取得） */
+  const [lists, setLists] = useState<ListOption[] | null>(null)
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /** 読み込み・更新中かどうか */
+  const [isPending, startTransition] = useTransition()
+
+  /**
+   * ダイアログを開き、リスト一覧を読み込む
+   */
+  const handleOpen = () => {
+    setOpen(true)
+    setError(null)
+
+    startTransition(async () => {
+      const result = await getListsForMember(userId)
+      setLists(result.lists)
+    })
+  }
+
+  /**
+   * リストへの追加・削除を切り替え
+   */
+  const handleToggle = (list: ListOption) => {
+    setError(null)
+
+    startTransition(async () => {
+      const result = list.hasMember
+        ? await removeListMember(list.id, userId)
+        : await addListMember(list.id, userId)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      setLists((prev) =>
+        prev?.map((l) => (l.id === list.id ? { ...l, hasMember: !l.hasMember } : l)) ?? null
+      )
+    })
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={handleOpen}>
+        リストに追加
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>リストに追加</DialogTitle>
+            <DialogDescription>追加・削除は相手に通知されません</DialogDescription>
+          </DialogHeader>
+
+          {/* エラーメッセージ表示エリア */}
+          {error && (
+            <div className="p-2 text-sm text-red-500 bg-red-50 dark:bg-red-950 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {/* リスト一覧 */}
+          {lists === null ? (
+            <p className="text-sm text-muted-foreground">読み込み中...</p>
+          ) : lists.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              まだリストがありません。
+              <Link href="/lists" className="text-primary hover:underline">
+                リストを作成
+              </Link>
+              しましょう
+            </p>
+          ) : (
+            <ul className="divide-y border rounded-lg max-h-72 overflow-y-auto">
+              {lists.map((list) => (
+                <li key={list.id} className="flex items-center justify-between gap-2 p-3">
+                  <span className="text-sm truncate">
+                    {list.name}
+                    {!list.isPublic && (
+                      <span className="ml-2 text-xs text-muted-foreground">非公開</span>
+                    )}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant={list.hasMember ? 'outline' : 'default'}
+                    disabled={isPending}
+                    onClick={() => handleToggle(list)}
+                  >
+                    {list.hasMember ? '削除' : '追加'}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
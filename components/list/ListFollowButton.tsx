@@ -0,0 +1,116 @@
+/**
+ * リストのフォローボタンコンポーネント
+ *
+ * このファイルは、公開リストをフォロー/フォロー解除するボタンを提供します。
+ * リストのページで、自分以外が作成した公開リストに表示されます。
+ *
+ * ## 機能概要
+ * - フォロー/フォロー解除のトグル
+ * - トースト通知で操作結果をフィードバック
+ *
+ * @module components/list/ListFollowButton
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * React useState Hook
+ * フォロー状態とローディング状態の管理に使用
+ */
+import { useState } from 'react'
+
+/**
+ * Next.js useRouter Hook
+ * 操作後にページをリフレッシュしてフォロワー数を更新するために使用
+ */
+import { useRouter } from 'next/navigation'
+
+/**
+ * shadcn/ui Buttonコンポーネント
+ */
+import { Button } from '@/components/ui/button'
+
+/**
+ * リストのフォロー/フォロー解除用Server Actions
+ */
+import { followList, unfollowList } from '@/lib/actions/list'
+
+/**
+ * トースト通知用カスタムHook
+ * エラーをユーザーに通知
+ */
+import { useToast } from '@/hooks/use-toast'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * ListFollowButtonコンポーネントのprops型
+ *
+ * @property listId - リストID
+ * @property initialIsFollowing - 初期のフォロー状態
+ */
+type ListFollowButtonProps = {
+  listId: string
+  initialIsFollowing: boolean
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * リストのフォローボタンコンポーネント
+ *
+ * @param listId - リストID
+ * @param initialIsFollowing - 初期のフォロー状態
+ *
+ * @example
+ * ```tsx
+ * <ListFollowButton listId={list.id} initialIsFollowing={list.isFollowing} />
+ * ```
+ */
+export function ListFollowButton({ listId, initialIsFollowing }: ListFollowButtonProps) {
+  const [isFollowing, setIsFollowing] = useState(initialIsFollowing)
+  const [loading, setLoading] = useState(false)
+
+  const router = useRouter()
+  const { toast } = useToast()
+
+  /**
+   * フォロー/フォロー解除ハンドラ
+   */
+  async function handleClick() {
+    setLoading(true)
+
+    const result = isFollowing ? await unfollowList(listId) : await followList(listId)
+
+    if (result.error) {
+      toast({
+        title: 'エラー',
+        description: result.error,
+        variant: 'destructive',
+      })
+    } else {
+      setIsFollowing(!isFollowing)
+      router.refresh()
+    }
+
+    setLoading(false)
+  }
+
+  return (
+    <Button
+      onClick={handleClick}
+      disabled={loading}
+      variant={isFollowing ? 'outline' : 'default'}
+    >
+      {isFollowing ? 'フォロー中' : 'リストをフォロー'}
+    </Button>
+  )
+}
@@ -0,0 +1,252 @@
+/**
+ * リスト作成・編集フォームコンポーネント
+ *
+ * このファイルは、リストの名前・説明・公開設定を入力するフォームを提供します。
+ * リスト一覧ページ（作成）とリスト編集ページ（編集）で使用されます。
+ *
+ * ## 機能概要
+ * - リスト名・説明・公開設定の入力
+ * - 作成時はリストのページへ移動
+ * - 編集時は保存後にリストのページへ移動
+ * - 編集時はリストの削除（確認ダイアログ付き）
+ *
+ * @module components/list/ListForm
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * React useState Hook
+ * 入力値・ローディング状態・エラーの管理に使用
+ */
+import { useState } from 'react'
+
+/**
+ * Next.js useRouter Hook
+ * 保存後のページ移動に使用
+ */
+import { useRouter } from 'next/navigation'
+
+/**
+ * shadcn/ui コンポーネント
+ */
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+
+/**
+ * リストの作成・編集・削除用Server Actions
+ */
+import { createList, deleteList, updateList } from '@/lib/actions/list'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * ListFormコンポーネントのprops型
+ *
+ * @property list - 編集するリスト（省略時は新規作成）
+ */
+type ListFormProps = {
+  list?: {
+    id: string
+    name: string
+    description: string | null
+    isPublic: boolean
+  }
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * リスト作成・編集フォームコンポーネント
+ *
+ * @param list - 編集するリスト（省略時は新規作成）
+ *
+ * @example
+ * ```tsx
+ * // 新規作成
+ * <ListForm />
+ *
+ * // 編集
+ * <ListForm list={list} />
+ * ```
+ */
+export function ListForm({ list }: ListFormProps) {
+  // ------------------------------------------------------------
+  // 状態管理
+  // ------------------------------------------------------------
+
+  const [name, setName] = useState(list?.name ?? '')
+  const [description, setDescription] = useState(list?.description ?? '')
+  const [isPublic, setIsPublic] = useState(list?.isPublic ?? false)
+
+  /**
+   * ローディング状態
+   * Server Action呼び出し中はtrueになり、ボタンが無効化される
+   */
+  const [loading, setLoading] = useState(false)
+
+  /**
+   * エラーメッセージ
+   */
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+
+  // ------------------------------------------------------------
+  // イベントハンドラ
+  // ------------------------------------------------------------
+
+  /**
+   * 保存ハンドラ
+   *
+   * 作成時は作成したリストのページへ、編集時はリストのページへ移動する
+   */
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    const data = { name, description, isPublic }
+    const result = list
+      ? await updateList(list.id, data).then((r) => ({ ...r, listId: list.id }))
+      : await createList(data)
+
+    if (result.error || !result.listId) {
+      setError(result.error ?? 'リストの保存に失敗しました')
+      setLoading(false)
+      return
+    }
+
+    router.push(`/lists/${result.listId}`)
+    router.refresh()
+  }
+
+  /**
+   * 削除ハンドラ
+   */
+  async function handleDelete() {
+    if (!list) return
+
+    setLoading(true)
+    setError(null)
+
+    const result = await deleteList(list.id)
+
+    if (result.error) {
+      setError(result.error)
+      setLoading(false)
+      return
+    }
+
+    router.push('/lists')
+    router.refresh()
+  }
+
+  // ------------------------------------------------------------
+  // レンダリング
+  // ------------------------------------------------------------
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* リスト名 */}
+      <div className="space-y-2">
+        <Label htmlFor="list-name">リスト名</Label>
+        <Input
+          id="list-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={50}
+          placeholder="例: 関西の盆栽園"
+          disabled={loading}
+        />
+      </div>
+
+      {/* 説明 */}
+      <div className="space-y-2">
+        <Label htmlFor="list-description">説明（任意）</Label>
+        <Textarea
+          id="list-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={200}
+          rows={2}
+          disabled={loading}
+        />
+      </div>
+
+      {/* 公開設定 */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="list-public">公開する</Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            {isPublic
+              ? '他のユーザーもこのリストを見てフォローできます'
+              : 'このリストは自分だけが見られます'}
+          </p>
+        </div>
+        <Switch
+          id="list-public"
+          checked={isPublic}
+          onCheckedChange={setIsPublic}
+          disabled={loading}
+        />
+      </div>
+
+      {/* エラーメッセージ（エラーがある場合のみ表示） */}
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
+      <div className="flex justify-between gap-2">
+        <Button type="submit" disabled={loading || !name.trim()}>
+          {loading ? '保存中...' : list ? '保存' : 'リストを作成'}
+        </Button>
+
+        {/* 削除ボタン: 編集時のみ */}
+        {list && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="destructive" disabled={loading}>
+                リストを削除
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>リストを削除しますか？</AlertDialogTitle>
+                <AlertDialogDescription>
+                  「{list.name}」を削除します。メンバーやフォローも削除され、元に戻せません。
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>キャンセル</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>削除する</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,221 @@
+/**
+ * リストのメンバー一覧コンポーネント
+ *
+ * このファイルは、リストのメンバーを一覧表示するコンポーネントを提供します。
+ * リストのメンバーページで使用されます。
+ *
+ * ## 機能概要
+ * - メンバーを一覧表示
+ * - 各ユーザーのアバター、ニックネーム、自己紹介を表示
+ * - リストの作成者には「削除」ボタンを提供
+ *
+ * ## コンポーネント構成
+ * - ListMemberList: メンバー一覧のコンテナ
+ * - ListMemberItem: 個々のメンバー表示（内部コンポーネント）
+ *
+ * @module components/list/ListMemberList
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * Next.js Imageコンポーネント
+ * アバター画像の最適化表示
+ */
+import Image from 'next/image'
+
+/**
+ * Next.js Linkコンポーネント
+ * ユーザープロフィールページへのリンク
+ */
+import Link from 'next/link'
+
+/**
+ * shadcn/ui Buttonコンポーネント
+ * 削除ボタンのUI
+ */
+import { Button } from '@/components/ui/button'
+
+/**
+ * リストからメンバーを削除するServer Action
+ */
+import { removeListMember } from '@/lib/actions/list'
+
+/**
+ * Next.js useRouter Hook
+ * 削除後にページをリフレッシュして一覧を更新するために使用
+ */
+import { useRouter } from 'next/navigation'
+
+/**
+ * トースト通知用カスタムHook
+ * 操作の結果（成功/エラー）をユーザーに通知
+ */
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * React useState Hook
+ * ローディング状態の管理に使用
+ */
+import { useState } from 'react'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * ユーザー情報の型
+ *
+ * @property id - ユーザーの一意識別子
+ * @property nickname - ユーザーの表示名
+ * @property avatarUrl - アバター画像のURL（nullの場合はイニシャル表示）
+ * @property bio - 自己紹介文（nullの場合は非表示）
+ */
+type User = {
+  id: string
+  nickname: string
+  avatarUrl: string | null
+  bio: string | null
+}
+
+/**
+ * ListMemberListコンポーネントのprops型
+ *
+ * @property users - 表示するメンバー配列
+ * @property listId - リストID
+ * @property isOwner - リストの作成者か（trueの場合は削除ボタンを表示）
+ */
+type ListMemberListProps = {
+  users: User[]
+  listId: string
+  isOwner: boolean
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * リストのメンバー一覧コンポーネント
+ *
+ * @param users - 表示するメンバー配列
+ * @param listId - リストID
+ * @param isOwner - リストの作成者か
+ *
+ * @example
+ * ```tsx
+ * <ListMemberList users={members} listId={list.id} isOwner={list.isOwner} />
+ * ```
+ */
+export function ListMemberList({ users, listId, isOwner }: ListMemberListProps) {
+  return (
+    <div className="space-y-4">
+      {users.map((user) => (
+        <ListMemberItem key={user.id} user={user} listId={listId} isOwner={isOwner} />
+      ))}
+    </div>
+  )
+}
+
+// ============================================================
+// 内部コンポーネント
+// ============================================================
+
+/**
+ * メンバーアイテムコンポーネント（内部使用）
+ *
+ * ## レイアウト
+ * - 左: アバター + ユーザー情報（縦並び）
+ * - 右: 削除ボタン（作成者のみ）
+ *
+ * @param user - 表示するユーザー情報
+ * @param listId - リストID
+ * @param isOwner - リストの作成者か
+ */
+function ListMemberItem({ user, listId, isOwner }: { user: User; listId: string; isOwner: boolean }) {
+  /**
+   * ローディング状態
+   * Server Action呼び出し中はtrueになり、ボタンが無効化される
+   */
+  const [loading, setLoading] = useState(false)
+
+  const router = useRouter()
+  const { toast } = useToast()
+
+  /**
+   * 削除ハンドラ
+   *
+   * 結果をトーストで通知してページをリフレッシュする
+   */
+  async function handleRemove() {
+    setLoading(true)
+
+    const result = await removeListMember(listId, user.id)
+
+    if (result.error) {
+      toast({
+        title: 'エラー',
+        description: result.error,
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: 'リストから削除しました',
+        description: `${user.nickname}さん`,
+      })
+    }
+
+    setLoading(false)
+    router.refresh()
+  }
+
+  return (
+    <div className="flex items-center justify-between p-4 border rounded-lg">
+      {/* 左側: アバターとユーザー情報 */}
+      <div className="flex items-center gap-3">
+        <Link href={`/users/${user.id}`}>
+          {user.avatarUrl ? (
+            <Image
+              src={user.avatarUrl}
+              alt={user.nickname}
+              width={48}
+              height={48}
+              className="rounded-full"
+            />
+          ) : (
+            <div className="w-12 h-12 rounded-full bg-gray-200 flex items-center justify-center">
+              <span className="text-gray-500 text-lg">
+                {user.nickname[0]?.toUpperCase()}
+              </span>
+            </div>
+          )}
+        </Link>
+
+        <div>
+          <Link href={`/users/${user.id}`}>
+            <p className="font-semibold hover:underline">{user.nickname}</p>
+          </Link>
+          {user.bio && (
+            <p className="text-sm text-gray-600 line-clamp-1">{user.bio}</p>
+          )}
+        </div>
+      </div>
+
+      {/* 右側: 削除ボタン（作成者のみ） */}
+      {isOwner && (
+        <Button
+          onClick={handleRemove}
+          disabled={loading}
+          variant="outline"
+          size="sm"
+        >
+          {loading ? '...' : '削除'}
+        </Button>
+      )}
+    </div>
+  )
+}
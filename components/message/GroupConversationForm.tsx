@@ -0,0 +1,143 @@
+/**
+ * グループ会話作成フォームコンポーネント
+ *
+ * このファイルは、グループ名とメンバーを指定して
+ * グループ会話を作成するフォームを提供します。
+ *
+ * ## 機能概要
+ * - グループ名の入力
+ * - メンバーの検索・選択（自分以外に2人以上）
+ * - 作成後は会話画面へ遷移
+ *
+ * ## 使用例
+ * ```tsx
+ * <GroupConversationForm />
+ * ```
+ *
+ * @module components/message/GroupConversationForm
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * React Hooks
+ * useState: 入力値・選択メンバー・エラーの状態管理
+ * useTransition: 作成処理中の状態管理
+ */
+import { useState, useTransition } from 'react'
+
+/**
+ * Next.js ルーター
+ * 作成後に会話画面へ遷移するために使用
+ */
+import { useRouter } from 'next/navigation'
+
+/**
+ * グループ作成用Server Action
+ */
+import { createGroupConversation } from '@/lib/actions/group-conversation'
+
+/**
+ * メンバー選択コンポーネント
+ */
+import { GroupMemberPicker, type PickerUser } from './GroupMemberPicker'
+
+/**
+ * UIコンポーネント
+ */
+import { Button } from '@/components/ui/button'
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * グループ会話作成フォーム
+ */
+export function GroupConversationForm() {
+  const router = useRouter()
+
+  /** グループ名 */
+  const [title, setTitle] = useState('')
+
+  /** 選択したメンバー */
+  const [members, setMembers] = useState<PickerUser[]>([])
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /** 作成処理中かどうか */
+  const [isPending, startTransition] = useTransition()
+
+  /**
+   * 作成ボタンの有効判定
+   * グループ名があり、自分以外に2人以上選択している場合のみ
+   */
+  const canSubmit = title.trim().length > 0 && members.length >= 2 && !isPending
+
+  /**
+   * フォーム送信処理
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit) return
+
+    setError(null)
+
+    startTransition(async () => {
+      const result = await createGroupConversation({
+        title: title.trim(),
+        memberIds: members.map((m) => m.id),
+      })
+
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+
+      router.push(`/messages/${result.conversationId}`)
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* エラーメッセージ表示エリア */}
+      {error && (
+        <div className="p-2 text-sm text-red-500 bg-red-50 dark:bg-red-950 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* グループ名 */}
+      <div className="space-y-1">
+        <label htmlFor="group-title" className="text-sm font-medium">
+          グループ名
+        </label>
+        <input
+          id="group-title"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={50}
+          placeholder="例: 関西盆栽クラブ"
+          className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      {/* メンバー選択 */}
+      <div className="space-y-1">
+        <p className="text-sm font-medium">メンバー</p>
+        <p className="text-xs text-muted-foreground">自分以外に2人以上選んでください</p>
+        <GroupMemberPicker selected={members} onChange={setMembers} />
+      </div>
+
+      <Button type="submit" disabled={!canSubmit} className="w-full">
+        {isPending ? '作成中...' : 'グループを作成'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,272 @@
+/**
+ * グループメンバー管理コンポーネント
+ *
+ * このファイルは、グループ会話の設定画面で使用する
+ * グループ名の変更・メンバー管理・退出のUIを提供します。
+ *
+ * ## 機能概要
+ * - グループ名の変更（owner / admin）
+ * - メンバーの追加（owner / admin）
+ * - メンバーの削除（owner は全員、admin は一般メンバーのみ）
+ * - 管理者の任命/解除（owner のみ）
+ * - グループからの退出（全員）
+ *
+ * 権限の最終判定はServer Action側で行い、ここでは操作の表示制御のみ行う
+ *
+ * @module components/message/GroupMemberManager
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  updateGroupTitle,
+  addGroupMembers,
+  removeGroupMember,
+  leaveGroupConversation,
+  updateGroupMemberRole,
+} from '@/lib/actions/group-conversation'
+import { GroupMemberPicker, type PickerUser } from './GroupMemberPicker'
+import { Button } from '@/components/ui/button'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 参加者の役割
+ */
+type Role = 'owner' | 'admin' | 'member'
+
+/**
+ * 役割の表示名
+ */
+const ROLE_LABELS: Record<Role, string> = {
+  owner: 'オーナー',
+  admin: '管理者',
+  member: 'メンバー',
+}
+
+/**
+ * GroupMemberManagerコンポーネントのprops型定義
+ *
+ * @property conversationId - 会話ID
+ * @property title - 現在のグループ名
+ * @property members - メンバー一覧（参加順）
+ * @property currentUserId - ログインユーザーID
+ * @property myRole - ログインユーザーの役割
+ */
+interface GroupMemberManagerProps {
+  conversationId: string
+  title: string
+  members: (PickerUser & { role: Role })[]
+  currentUserId: string
+  myRole: Role
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * グループメンバー管理コンポーネント
+ */
+export function GroupMemberManager({
+  conversationId,
+  title,
+  members,
+  currentUserId,
+  myRole,
+}: GroupMemberManagerProps) {
+  const router = useRouter()
+
+  /** 編集中のグループ名 */
+  const [titleInput, setTitleInput] = useState(title)
+
+  /** 追加するメンバー */
+  const [newMembers, setNewMembers] = useState<PickerUser[]>([])
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /** 処理中かどうか */
+  const [isPending, startTransition] = useTransition()
+
+  /** グループ名変更・メンバー追加ができるか */
+  const canManage = myRole === 'owner' || myRole === 'admin'
+
+  /**
+   * Server Actionを実行し、結果に応じて画面を更新
+   */
+  const run = (action: () => Promise<{ error?: string }>, onSuccess?: () => void) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await action()
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      onSuccess?.()
+      router.refresh()
+    })
+  }
+
+  /**
+   * 指定したメンバーを削除できるか
+   * - 自分自身は「退出」を使う
+   * - owner は全員、admin は一般メンバーのみ
+   */
+  const canRemove = (role: Role, userId: string) => {
+    if (userId === currentUserId) return false
+    if (myRole === 'owner') return role !== 'owner'
+    if (myRole === 'admin') return role === 'member'
+    return false
+  }
+
+  const handleLeave = () => {
+    if (!confirm('このグループから退出しますか？')) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await leaveGroupConversation(conversationId)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      router.push('/messages')
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* エラーメッセージ表示エリア */}
+      {error && (
+        <div className="p-2 text-sm text-red-500 bg-red-50 dark:bg-red-950 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* グループ名の変更 */}
+      {canManage && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            run(() => updateGroupTitle(conversationId, titleInput.trim()))
+          }}
+          className="space-y-1"
+        >
+          <label htmlFor="group-title" className="text-sm font-medium">
+            グループ名
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="group-title"
+              type="text"
+              value={titleInput}
+              onChange={(e) => setTitleInput(e.target.value)}
+              maxLength={50}
+              className="flex-1 px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={isPending || !titleInput.trim() || titleInput.trim() === title}
+            >
+              変更
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* メンバー一覧 */}
+      <section className="space-y-2">
+        <h2 className="text-sm font-medium">メンバー（{members.length}人）</h2>
+        <ul className="divide-y border rounded-lg">
+          {members.map((member) => (
+            <li key={member.id} className="flex items-center gap-3 p-3">
+              <div className="flex-1 min-w-0">
+                <span className="font-medium truncate">{member.nickname}</span>
+                {member.role !== 'member' && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {ROLE_LABELS[member.role]}
+                  </span>
+                )}
+              </div>
+
+              {/* 管理者の任命/解除（ownerのみ） */}
+              {myRole === 'owner' && member.role !== 'owner' && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() =>
+                    run(() =>
+                      updateGroupMemberRole(
+                        conversationId,
+                        member.id,
+                        member.role === 'admin' ? 'member' : 'admin'
+                      )
+                    )
+                  }
+                >
+                  {member.role === 'admin' ? '管理者を解除' : '管理者にする'}
+                </Button>
+              )}
+
+              {/* メンバーの削除 */}
+              {canRemove(member.role, member.id) && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => {
+                    if (!confirm(`${member.nickname}さんをグループから削除しますか？`)) return
+                    run(() => removeGroupMember(conversationId, member.id))
+                  }}
+                >
+                  削除
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {/* メンバーの追加 */}
+      {canManage && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-medium">メンバーを追加</h2>
+          <GroupMemberPicker
+            selected={newMembers}
+            onChange={setNewMembers}
+            excludeUserIds={members.map((m) => m.id)}
+          />
+          <Button
+            type="button"
+            disabled={isPending || newMembers.length === 0}
+            onClick={() =>
+              run(
+                () => addGroupMembers(conversationId, newMembers.map((m) => m.id)),
+                () => setNewMembers([])
+              )
+            }
+          >
+            追加
+          </Button>
+        </section>
+      )}
+
+      {/* 退出 */}
+      <Button type="button" variant="destructive" disabled={isPending} onClick={handleLeave}>
+        グループから退出
+      </Button>
+    </div>
+  )
+}
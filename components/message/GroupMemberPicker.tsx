@@ -0,0 +1,201 @@
+/**
+ * グループメンバー選択コンポーネント
+ *
+ * このファイルは、グループ会話の作成・メンバー追加で使用する
+ * ユーザー検索と選択のUIを提供します。
+ *
+ * ## 機能概要
+ * - ニックネームでユーザーを検索（フォロー中のユーザーを優先表示）
+ * - 選択したユーザーをチップで表示し、×で選択解除
+ * - 既存メンバーなど除外したいユーザーは候補に出さない
+ *
+ * ## 使用例
+ * ```tsx
+ * <GroupMemberPicker
+ *   selected={selectedUsers}
+ *   onChange={setSelectedUsers}
+ *   excludeUserIds={memberIds}
+ * />
+ * ```
+ *
+ * @module components/message/GroupMemberPicker
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * React Hooks
+ * useState: 検索クエリ・検索結果の状態管理
+ * useRef: 検索の遅延実行タイマーを保持
+ * useEffect: アンマウント時のタイマー解除
+ */
+import { useState, useRef, useEffect } from 'react'
+
+/**
+ * ユーザー検索用Server Action
+ * メンション候補と同じく、フォロー中のユーザーを優先して返す
+ */
+import { searchMentionUsers } from '@/lib/actions/mention'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 入力から検索を実行するまでの待ち時間（ミリ秒）
+ */
+const SEARCH_DEBOUNCE_MS = 300
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 選択対象のユーザー
+ */
+export interface PickerUser {
+  id: string
+  nickname: string
+  avatarUrl: string | null
+}
+
+/**
+ * GroupMemberPickerコンポーネントのprops型定義
+ *
+ * @property selected - 選択中のユーザー
+ * @property onChange - 選択が変わったときのコールバック
+ * @property excludeUserIds - 候補から除外するユーザーID（既存メンバーなど）
+ */
+interface GroupMemberPickerProps {
+  selected: PickerUser[]
+  onChange: (users: PickerUser[]) => void
+  excludeUserIds?: string[]
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * グループメンバー選択コンポーネント
+ *
+ * @param selected - 選択中のユーザー
+ * @param onChange - 選択変更時のコールバック
+ * @param excludeUserIds - 候補から除外するユーザーID
+ */
+export function GroupMemberPicker({ selected, onChange, excludeUserIds = [] }: GroupMemberPickerProps) {
+  /** 検索クエリ */
+  const [query, setQuery] = useState('')
+
+  /** 検索結果 */
+  const [results, setResults] = useState<PickerUser[]>([])
+
+  /** 検索の遅延実行タイマー */
+  const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (searchTimerRef.current) clearTimeout(searchTimerRef.current)
+    }
+  }, [])
+
+  /**
+   * 検索クエリの変更
+   *
+   * 入力のたびに検索しないよう、一定時間入力が止まってから検索する
+   */
+  const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value
+    setQuery(value)
+
+    if (searchTimerRef.current) clearTimeout(searchTimerRef.current)
+
+    if (!value.trim()) {
+      setResults([])
+      return
+    }
+
+    searchTimerRef.current = setTimeout(async () => {
+      const users = await searchMentionUsers(value.trim())
+      setResults(users)
+    }, SEARCH_DEBOUNCE_MS)
+  }
+
+  /**
+   * 候補から除外するユーザー（選択済み + 除外指定）
+   */
+  const hiddenIds = new Set([...excludeUserIds, ...selected.map((u) => u.id)])
+  const candidates = results.filter((u) => !hiddenIds.has(u.id))
+
+  /**
+   * ユーザーを選択
+   */
+  const handleSelect = (user: PickerUser) => {
+    onChange([...selected, user])
+    setQuery('')
+    setResults([])
+  }
+
+  /**
+   * 選択を解除
+   */
+  const handleRemove = (userId: string) => {
+    onChange(selected.filter((u) => u.id !== userId))
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* 選択済みユーザーのチップ */}
+      {selected.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {selected.map((user) => (
+            <li
+              key={user.id}
+              className="flex items-center gap-1 px-2 py-1 text-sm bg-muted rounded-full"
+            >
+              <span>{user.nickname}</span>
+              <button
+                type="button"
+                onClick={() => handleRemove(user.id)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`${user.nickname}を選択解除`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* 検索入力 */}
+      <input
+        type="text"
+        value={query}
+        onChange={handleQueryChange}
+        placeholder="ユーザーを検索"
+        className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+
+      {/* 検索結果 */}
+      {candidates.length > 0 && (
+        <ul className="border rounded-lg divide-y max-h-60 overflow-y-auto">
+          {candidates.map((user) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onClick={() => handleSelect(user)}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-muted/50 transition-colors"
+              >
+                {user.nickname}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
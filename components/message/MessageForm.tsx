@@ -11,6 +11,8 @@
  * - 文字数カウント表示（最大1000文字）
  * - 送信中のローディング状態表示
  * - エラーメッセージ表示
+ * - 入力中であることを相手にリアルタイム通知
+ * - 画像の添付（最大4枚、プレビュー・取り消し付き）
  *
  * ## 使用例
  * ```tsx
@@ -28,9 +30,9 @@
 
 /**
  * React Hooks
- * useState: 入力内容・エラーメッセージの状態管理
+ * useState: 入力内容・添付画像・エラーメッセージの状態管理
  * useTransition: 送信処理の状態管理
- * useRef: テキストエリア要素への参照
+ * useRef: テキストエリア・ファイル入力要素への参照
  * useEffect: テキストエリアの高さ自動調整
  */
 import { useState, useTransition, useRef, useEffect } from 'react'
@@ -42,9 +44,32 @@ import { useState, useTransition, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 
 /**
- * メッセージ送信用Server Action
+ * Next.js 画像最適化コンポーネント
+ * 添付画像のプレビューに使用
  */
-import { sendMessage } from '@/lib/actions/message'
+import Image from 'next/image'
+
+/**
+ * メッセージ送信・入力中通知・画像アップロード用Server Action
+ */
+import { sendMessage, sendTypingIndicator, uploadMessageImage } from '@/lib/actions/message'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 入力中通知の送信間隔（ミリ秒）
+ *
+ * キー入力ごとに送ると多すぎるため間引く
+ * 受信側の表示時間（5秒）より短くして表示が途切れないようにする
+ */
+const TYPING_NOTIFY_INTERVAL_MS = 3000
+
+/**
+ * 1メッセージに添付できる画像の最大枚数（サーバー側の制限と同じ）
+ */
+const MAX_IMAGES = 4
 
 // ============================================================
 // 内部コンポーネント
@@ -69,6 +94,22 @@ function SendIcon({ className }: { className?: string }) {
   )
 }
 
+/**
+ * 画像アイコン
+ * 画像添付ボタンに使用
+ *
+ * @param className - 追加のCSSクラス
+ */
+function ImageIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <rect width="18" height="18" x="3" y="3" rx="2" ry="2"/>
+      <circle cx="9" cy="9" r="2"/>
+      <path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21"/>
+    </svg>
+  )
+}
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -132,6 +173,33 @@ export function MessageForm({ conversationId }: MessageFormProps) {
    */
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
+  /**
+   * 最後に入力中通知を送った時刻
+   * 送信間隔の制御に使用
+   */
+  const lastTypingSentAtRef = useRef(0)
+
+  /**
+   * 添付する画像のURL（アップロード済み）
+   */
+  const [imageUrls, setImageUrls] = useState<string[]>([])
+
+  /**
+   * 画像アップロード中かどうか
+   */
+  const [isUploading, setIsUploading] = useState(false)
+
+  /**
+   * ファイル選択用input要素への参照
+   */
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  /**
+   * 送信可能かどうか
+   * 本文または画像があり、送信・アップロード中でない場合
+   */
+  const canSubmit = (!!content.trim() || imageUrls.length > 0) && !isPending && !isUploading
+
   /**
    * テキストエリアの高さを入力内容に応じて自動調整
    *
@@ -149,6 +217,24 @@ export function MessageForm({ conversationId }: MessageFormProps) {
     }
   }, [content])
 
+  /**
+   * 入力変更ハンドラ
+   *
+   * 入力内容を更新し、一定間隔で相手に入力中を通知します。
+   *
+   * @param e - 変更イベント
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setContent(e.target.value)
+
+    const now = Date.now()
+    if (e.target.value.trim() && now - lastTypingSentAtRef.current >= TYPING_NOTIFY_INTERVAL_MS) {
+      lastTypingSentAtRef.current = now
+      // 入力中通知の失敗は入力操作に影響させない
+      sendTypingIndicator(conversationId).catch(() => {})
+    }
+  }
+
   /**
    * フォーム送信ハンドラ
    *
@@ -160,8 +246,8 @@ export function MessageForm({ conversationId }: MessageFormProps) {
     // デフォルトのフォーム送信を防止
     e.preventDefault()
 
-    // 空白のみ or 送信中の場合は処理しない
-    if (!content.trim() || isPending) return
+    // 本文も画像もない or 送信中の場合は処理しない
+    if (!canSubmit) return
 
     // エラー状態をクリア
     setError(null)
@@ -169,7 +255,7 @@ export function MessageForm({ conversationId }: MessageFormProps) {
     // useTransitionで非同期処理を実行
     startTransition(async () => {
       // Server Actionでメッセージを送信
-      const result = await sendMessage(conversationId, content.trim())
+      const result = await sendMessage(conversationId, content.trim(), { imageUrls })
 
       // エラーが発生した場合
       if (result.error) {
@@ -179,6 +265,8 @@ export function MessageForm({ conversationId }: MessageFormProps) {
 
       // 成功した場合は入力欄をクリアして画面を更新
       setContent('')
+      setImageUrls([])
+      lastTypingSentAtRef.current = 0
       router.refresh()
     })
   }
@@ -200,6 +288,39 @@ export function MessageForm({ conversationId }: MessageFormProps) {
     // Enterのみは改行（デフォルト動作のまま）
   }
 
+  /**
+   * 画像選択ハンドラ
+   *
+   * 選択された画像を1枚ずつアップロードし、添付一覧に追加します。
+   * 上限枚数を超えた分は無視します。
+   *
+   * @param e - ファイル入力の変更イベント
+   */
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_IMAGES - imageUrls.length)
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setError(null)
+    setIsUploading(true)
+
+    for (const file of files) {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const result = await uploadMessageImage(formData)
+      if (result.error || !result.url) {
+        setError(result.error || 'アップロードに失敗しました')
+        break
+      }
+
+      const url = result.url
+      setImageUrls((prev) => [...prev, url])
+    }
+
+    setIsUploading(false)
+  }
+
   return (
     <div className="border-t p-4">
       {/* エラーメッセージ表示エリア */}
@@ -209,14 +330,59 @@ export function MessageForm({ conversationId }: MessageFormProps) {
         </div>
       )}
 
+      {/* 添付画像のプレビュー */}
+      {imageUrls.length > 0 && (
+        <div className="flex gap-2 mb-2">
+          {imageUrls.map((url) => (
+            <div key={url} className="relative">
+              <Image
+                src={url}
+                alt="添付画像"
+                width={64}
+                height={64}
+                className="w-16 h-16 rounded-md object-cover"
+              />
+              <button
+                type="button"
+                onClick={() => setImageUrls((prev) => prev.filter((u) => u !== url))}
+                className="absolute -top-1 -right-1 w-5 h-5 text-xs bg-background border rounded-full"
+                aria-label="添付画像を取り消す"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* メッセージ入力フォーム */}
       <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+        {/* 画像添付ボタン */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          multiple
+          onChange={handleImageSelect}
+          className="hidden"
+          aria-label="画像ファイルを選択"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isPending || isUploading || imageUrls.length >= MAX_IMAGES}
+          className="p-2.5 text-muted-foreground hover:bg-muted rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          aria-label="画像を添付"
+        >
+          <ImageIcon className="w-5 h-5" />
+        </button>
+
         {/* テキストエリアコンテナ */}
         <div className="flex-1 relative">
           <textarea
             ref={textareaRef}
             value={content}
-            onChange={(e) => setContent(e.target.value)}
+            onChange={handleChange}
             onKeyDown={handleKeyDown}
             placeholder="メッセージを入力..."
             maxLength={1000}
@@ -229,7 +395,8 @@ export function MessageForm({ conversationId }: MessageFormProps) {
         {/* 送信ボタン */}
         <button
           type="submit"
-          disabled={!content.trim() || isPending}
+          disabled={!canSubmit}
+          aria-label="送信"
           className="p-2.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           <SendIcon className="w-5 h-5" />
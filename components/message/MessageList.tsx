@@ -10,6 +10,9 @@
  * - 新着メッセージ時に自動スクロール
  * - 相手のメッセージにはアバター画像を表示
  * - メッセージが空の場合は案内メッセージを表示
+ * - SSEで新着メッセージ・入力中・既読をリアルタイム反映
+ * - グループ会話では送信者名・既読人数・システムメッセージを表示
+ * - 添付画像と共有された投稿のプレビューカードを表示
  *
  * ## 使用例
  * ```tsx
@@ -17,6 +20,8 @@
  *   initialMessages={messages}
  *   conversationId="conv-123"
  *   currentUserId="user-456"
+ *   isGroup={conversation.isGroup}
+ *   memberLastReadAts={conversation.memberLastReadAts}
  * />
  * ```
  *
@@ -31,10 +36,12 @@
 
 /**
  * React Hooks
- * useEffect: メッセージ更新時の自動スクロール処理
- * useRef: スクロール位置の参照を保持
+ * useState: 受信したメッセージ・入力中ユーザー・参加者の既読時刻の状態管理
+ * useEffect: 自動スクロール処理とリアルタイム購読
+ * useRef: スクロール位置・入力中表示タイマーの参照を保持
+ * useMemo: 初期メッセージと受信メッセージのマージ
  */
-import { useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 
 /**
  * Next.js 画像最適化コンポーネント
@@ -42,6 +49,12 @@ import { useEffect, useRef } from 'react'
  */
 import Image from 'next/image'
 
+/**
+ * Next.js リンクコンポーネント
+ * 共有された投稿の詳細ページへの遷移に使用
+ */
+import Link from 'next/link'
+
 /**
  * date-fns: 日付フォーマットユーティリティ
  * format: 日付を指定形式の文字列に変換
@@ -54,6 +67,28 @@ import { format } from 'date-fns'
  */
 import { ja } from 'date-fns/locale'
 
+/**
+ * 既読更新用Server Action
+ * 会話を開いている間に届いたメッセージを既読にする
+ */
+import { markAsRead } from '@/lib/actions/message'
+
+/**
+ * リアルタイムイベントの型
+ */
+import type { ConversationEvent } from '@/lib/realtime'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 入力中表示を消すまでの時間（ミリ秒）
+ *
+ * 入力中イベントは数秒おきに届くため、途絶えたら入力をやめたとみなす
+ */
+const TYPING_INDICATOR_TIMEOUT_MS = 5000
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -62,22 +97,43 @@ import { ja } from 'date-fns/locale'
  * メッセージオブジェクトの型定義
  *
  * @property id - メッセージの一意識別子（UUID）
+ * @property type - メッセージ種別（'text' | 'system'、省略時は 'text'）
  * @property content - メッセージ本文（テキスト）
  * @property createdAt - メッセージ送信日時
  * @property sender - 送信者情報
  * @property sender.id - 送信者のユーザーID
  * @property sender.nickname - 送信者のニックネーム（表示名）
  * @property sender.avatarUrl - 送信者のアバター画像URL（nullの場合はデフォルト表示）
+ * @property media - 添付画像
+ * @property sharedPost - 共有された投稿（削除・非表示の場合はnull）
  */
 interface Message {
   id: string
+  type?: string
   content: string
-  createdAt: Date
+  createdAt: Date | string
   sender: {
     id: string
     nickname: string
     avatarUrl: string | null
   }
+  media?: { id: string; url: string; type: string }[]
+  sharedPost?: SharedPost | null
+}
+
+/**
+ * 共有された投稿のプレビュー用データ
+ */
+interface SharedPost {
+  id: string
+  content: string | null
+  createdAt: Date | string
+  user: {
+    id: string
+    nickname: string
+    avatarUrl: string | null
+  }
+  media: { url: string; type: string }[]
 }
 
 /**
@@ -86,11 +142,64 @@ interface Message {
  * @property initialMessages - 表示するメッセージの配列（日時順にソート済み）
  * @property conversationId - 会話の一意識別子（将来的なリアルタイム更新用）
  * @property currentUserId - 現在ログイン中のユーザーID（自分/相手の判定に使用）
+ * @property isGroup - グループ会話かどうか（送信者名・既読人数の表示に使用）
+ * @property memberLastReadAts - 自分以外の参加者の既読時刻（ユーザーIDがキー）
  */
 interface MessageListProps {
   initialMessages: Message[]
   conversationId: string
   currentUserId: string
+  isGroup?: boolean
+  memberLastReadAts?: Record<string, Date | string | null>
+}
+
+/**
+ * 既読時刻のマップをDate型に正規化
+ */
+function toReadAtMap(lastReadAts: Record<string, Date | string | null>) {
+  const map: Record<string, Date> = {}
+  for (const [userId, readAt] of Object.entries(lastReadAts)) {
+    if (readAt) map[userId] = new Date(readAt)
+  }
+  return map
+}
+
+// ============================================================
+// 内部コンポーネント
+// ============================================================
+
+/**
+ * 共有された投稿のプレビューカード
+ *
+ * 投稿者・本文の冒頭・1枚目の画像を表示し、クリックで投稿詳細へ遷移する
+ *
+ * @param post - 共有された投稿
+ */
+function SharedPostCard({ post }: { post: SharedPost }) {
+  const thumbnail = post.media.find((m) => m.type === 'image')
+
+  return (
+    <Link
+      href={`/posts/${post.id}`}
+      className="block mb-1 rounded-lg border bg-card text-card-foreground overflow-hidden hover:bg-muted/50 transition-colors"
+    >
+      {thumbnail && (
+        <Image
+          src={thumbnail.url}
+          alt=""
+          width={320}
+          height={180}
+          className="w-full h-32 object-cover"
+        />
+      )}
+      <div className="p-2">
+        <p className="text-xs font-medium">{post.user.nickname}</p>
+        {post.content && (
+          <p className="text-xs text-muted-foreground line-clamp-3 break-words">{post.content}</p>
+        )}
+      </div>
+    </Link>
+  )
 }
 
 // ============================================================
@@ -104,12 +213,20 @@ interface MessageListProps {
  * 日付ごとにグループ化し、自分と相手のメッセージを視覚的に区別します。
  *
  * @param initialMessages - 表示するメッセージ配列
- * @param conversationId - 会話ID（現在は未使用だが将来のWebSocket対応用）
+ * @param conversationId - 会話ID（リアルタイム購読に使用）
  * @param currentUserId - ログインユーザーID
+ * @param isGroup - グループ会話かどうか
+ * @param memberLastReadAts - 参加者ごとの既読時刻の初期値
  *
  * @returns メッセージリストのJSX、またはメッセージがない場合は案内メッセージ
  */
-export function MessageList({ initialMessages, currentUserId }: MessageListProps) {
+export function MessageList({
+  initialMessages,
+  conversationId,
+  currentUserId,
+  isGroup = false,
+  memberLastReadAts = {},
+}: MessageListProps) {
   /**
    * メッセージ一覧の最下部を参照するref
    * 新着メッセージ時にここにスクロールする
@@ -117,15 +234,110 @@ export function MessageList({ initialMessages, currentUserId }: MessageListProps
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   /**
-   * メッセージ配列が更新されたら自動的に最下部にスクロール
+   * リアルタイムで受信したメッセージ
+   */
+  const [streamedMessages, setStreamedMessages] = useState<Message[]>([])
+
+  /**
+   * 入力中のユーザー名（nullの場合は非表示）
+   */
+  const [typingNickname, setTypingNickname] = useState<string | null>(null)
+
+  /**
+   * 参加者ごとの既読時刻（自分は含まない）
+   */
+  const [readAts, setReadAts] = useState<Record<string, Date>>(() =>
+    toReadAtMap(memberLastReadAts)
+  )
+
+  /**
+   * 入力中表示を消すタイマー
+   */
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  /**
+   * 表示するメッセージ
    *
-   * 依存配列: [initialMessages]
+   * サーバーから渡された初期値（router.refresh後に更新される）に、
+   * リアルタイムで受信したメッセージをIDで重複排除してマージする
+   */
+  const messages = useMemo(() => {
+    const initialIds = new Set(initialMessages.map((m) => m.id))
+    const streamed = streamedMessages.filter((m) => !initialIds.has(m.id))
+    return [...initialMessages, ...streamed].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    )
+  }, [initialMessages, streamedMessages])
+
+  /**
+   * リアルタイムイベントの購読
+   *
+   * ## 受信するイベント
+   * - message: 一覧に追加し、相手からのメッセージなら既読にする
+   * - typing: 入力中表示を一定時間出す
+   * - read: その参加者の既読時刻を更新
+   *
+   * EventSourceは切断時に自動で再接続し、Last-Event-IDで続きから受信する
+   */
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return
+
+    const eventSource = new EventSource(`/api/messages/${conversationId}/stream`)
+
+    const handleMessage = (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as Extract<ConversationEvent, { type: 'message' }>
+      const incoming = event.message
+
+      setStreamedMessages((prev) =>
+        prev.some((m) => m.id === incoming.id) ? prev : [...prev, incoming]
+      )
+
+      if (incoming.sender.id !== currentUserId) {
+        setTypingNickname(null)
+        markAsRead(conversationId)
+      }
+    }
+
+    const handleTyping = (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as Extract<ConversationEvent, { type: 'typing' }>
+      if (event.userId === currentUserId) return
+
+      setTypingNickname(event.nickname)
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current)
+      typingTimerRef.current = setTimeout(() => setTypingNickname(null), TYPING_INDICATOR_TIMEOUT_MS)
+    }
+
+    const handleRead = (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as Extract<ConversationEvent, { type: 'read' }>
+      if (event.userId === currentUserId) return
+
+      const readAt = new Date(event.lastReadAt)
+      setReadAts((prev) => {
+        const current = prev[event.userId]
+        return current && current > readAt ? prev : { ...prev, [event.userId]: readAt }
+      })
+    }
+
+    eventSource.addEventListener('message', handleMessage)
+    eventSource.addEventListener('typing', handleTyping)
+    eventSource.addEventListener('read', handleRead)
+
+    return () => {
+      eventSource.close()
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current)
+    }
+  }, [conversationId, currentUserId])
+
+  /**
+   * メッセージ配列や入力中表示が更新されたら自動的に最下部にスクロール
+   *
+   * 依存配列: [messages, typingNickname]
    * - 新しいメッセージが追加されるたびに実行
    * - smooth動作で滑らかにスクロール
    */
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [initialMessages])
+  }, [messages, typingNickname])
 
   /**
    * メッセージを日付ごとにグループ化する関数
@@ -171,18 +383,28 @@ export function MessageList({ initialMessages, currentUserId }: MessageListProps
   }
 
   /** 日付でグループ化されたメッセージ */
-  const messageGroups = groupMessagesByDate(initialMessages)
+  const messageGroups = groupMessagesByDate(messages)
+
+  /**
+   * 入力中インジケーター
+   */
+  const typingIndicator = typingNickname && (
+    <p className="text-xs text-muted-foreground" aria-live="polite">
+      {typingNickname}さんが入力中...
+    </p>
+  )
 
   /**
    * メッセージが0件の場合は案内メッセージを表示
    */
-  if (initialMessages.length === 0) {
+  if (messages.length === 0) {
     return (
-      <div className="flex-1 flex items-center justify-center p-4">
+      <div className="flex-1 flex flex-col items-center justify-center gap-2 p-4">
         <p className="text-muted-foreground text-center">
           メッセージはまだありません。<br />
           最初のメッセージを送ってみましょう！
         </p>
+        {typingIndicator}
       </div>
     )
   }
@@ -202,6 +424,19 @@ export function MessageList({ initialMessages, currentUserId }: MessageListProps
           {/* その日付のメッセージ一覧 */}
           <div className="space-y-3">
             {group.messages.map((message) => {
+              /**
+               * システムメッセージ（グループの作成・参加・退出など）は中央に表示
+               */
+              if (message.type === 'system') {
+                return (
+                  <div key={message.id} className="flex justify-center">
+                    <p className="text-xs text-muted-foreground text-center">
+                      {message.content}
+                    </p>
+                  </div>
+                )
+              }
+
               /**
                * 自分のメッセージかどうかを判定
                * true: 右側に表示（吹き出しが右寄せ）
@@ -209,6 +444,15 @@ export function MessageList({ initialMessages, currentUserId }: MessageListProps
                */
               const isOwn = message.sender.id === currentUserId
 
+              /**
+               * 既読人数（自分のメッセージのみ）
+               * 既読時刻がメッセージ送信時刻以降の参加者を数える
+               */
+              const createdAt = new Date(message.createdAt)
+              const readCount = isOwn
+                ? Object.values(readAts).filter((readAt) => readAt >= createdAt).length
+                : 0
+
               return (
                 <div
                   key={message.id}
@@ -245,14 +489,47 @@ export function MessageList({ initialMessages, currentUserId }: MessageListProps
                         : 'bg-muted rounded-r-lg rounded-tl-lg'
                     } px-4 py-2`}
                   >
+                    {/* 送信者名（グループの相手のメッセージのみ） */}
+                    {isGroup && !isOwn && (
+                      <p className="text-xs font-medium text-muted-foreground mb-1">
+                        {message.sender.nickname}
+                      </p>
+                    )}
+                    {/* 添付画像 */}
+                    {message.media && message.media.length > 0 && (
+                      <div className={`grid gap-1 mb-1 ${message.media.length > 1 ? 'grid-cols-2' : ''}`}>
+                        {message.media.map((media) => (
+                          <a key={media.id} href={media.url} target="_blank" rel="noopener noreferrer">
+                            <Image
+                              src={media.url}
+                              alt="添付画像"
+                              width={240}
+                              height={240}
+                              className="rounded-md w-full h-auto object-cover"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {/* 共有された投稿 */}
+                    {message.sharedPost && <SharedPostCard post={message.sharedPost} />}
+                    {/* 本文も添付もない場合は共有元の投稿が削除・非表示になったもの */}
+                    {!message.content && !message.media?.length && !message.sharedPost && (
+                      <p className="text-sm italic opacity-70">この投稿は表示できません</p>
+                    )}
                     {/* メッセージ本文（改行・長文の折り返しに対応） */}
-                    <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                    {message.content && (
+                      <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                    )}
                     {/* 送信時刻（HH:mm形式） */}
                     <p
                       className={`text-xs mt-1 ${
                         isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'
                       }`}
                     >
+                      {readCount > 0 && (
+                        <span className="mr-1">{isGroup ? `既読 ${readCount}` : '既読'}</span>
+                      )}
                       {format(new Date(message.createdAt), 'HH:mm', { locale: ja })}
                     </p>
                   </div>
@@ -262,6 +539,8 @@ export function MessageList({ initialMessages, currentUserId }: MessageListProps
           </div>
         </div>
       ))}
+      {/* 入力中インジケーター */}
+      {typingIndicator}
       {/* スクロール位置の参照用（空のdiv） */}
       <div ref={messagesEndRef} />
     </div>
@@ -0,0 +1,211 @@
+/**
+ * 投稿をDMで送るボタンコンポーネント
+ *
+ * このファイルは、投稿をダイレクトメッセージの会話に共有する
+ * ボタンとダイアログを提供します。
+ *
+ * ## 機能概要
+ * - ボタンを押すと最近の会話一覧をダイアログで表示
+ * - 一言コメントを添えて送信可能
+ * - 送信したメッセージには投稿のプレビューカードが表示される
+ *
+ * ## 使用例
+ * ```tsx
+ * <SharePostToDMButton postId={post.id} />
+ * ```
+ *
+ * @module components/message/SharePostToDMButton
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { useState, useTransition } from 'react'
+import { getConversations, sendMessage } from '@/lib/actions/message'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 送信先の会話
+ */
+type ConversationOption = Awaited<ReturnType<typeof getConversations>>['conversations'][number]
+
+/**
+ * SharePostToDMButtonコンポーネントのprops型定義
+ *
+ * @property postId - 共有する投稿のID
+ */
+interface SharePostToDMButtonProps {
+  postId: string
+}
+
+// ============================================================
+// 内部コンポーネント
+// ============================================================
+
+/**
+ * 送信アイコン（紙飛行機）
+ *
+ * @param className - 追加のCSSクラス
+ */
+function SendIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="m22 2-7 20-4-9-9-4Z"/>
+      <path d="M22 2 11 13"/>
+    </svg>
+  )
+}
+
+/**
+ * 会話の表示名
+ * グループはグループ名、1対1は相手のニックネーム
+ */
+function conversationLabel(conversation: ConversationOption) {
+  if (conversation.isGroup) {
+    return `${conversation.title || 'グループ'} (${conversation.memberCount})`
+  }
+  return conversation.otherUser?.nickname || '削除されたユーザー'
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * 投稿をDMで送るボタン
+ *
+ * @param postId - 共有する投稿のID
+ */
+export function SharePostToDMButton({ postId }: SharePostToDMButtonProps) {
+  /** ダイアログの開閉状態 */
+  const [open, setOpen] = useState(false)
+
+  /** 送信先の候補（ダイアログを開いたときに取得） */
+  const [conversations, setConversations] = useState<ConversationOption[] | null>(null)
+
+  /** 一言コメント */
+  const [comment, setComment] = useState('')
+
+  /** 送信済みの会話ID */
+  const [sentIds, setSentIds] = useState<string[]>([])
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /** 読み込み・送信中かどうか */
+  const [isPending, startTransition] = useTransition()
+
+  /**
+   * ダイアログを開き、会話一覧を読み込む
+   */
+  const handleOpen = () => {
+    setOpen(true)
+    setError(null)
+    setSentIds([])
+
+    startTransition(async () => {
+      const result = await getConversations()
+      setConversations(result.conversations)
+    })
+  }
+
+  /**
+   * 選択した会話に投稿を送信
+   */
+  const handleSend = (conversationId: string) => {
+    setError(null)
+
+    startTransition(async () => {
+      const result = await sendMessage(conversationId, comment.trim(), { sharedPostId: postId })
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      setSentIds((prev) => [...prev, conversationId])
+      setComment('')
+    })
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 px-2 gap-1"
+        onClick={handleOpen}
+        aria-label="DMで送る"
+      >
+        <SendIcon className="h-4 w-4" aria-hidden="true" />
+        <span className="text-xs">DM</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>DMで送る</DialogTitle>
+            <DialogDescription>投稿を送る会話を選んでください</DialogDescription>
+          </DialogHeader>
+
+          {/* エラーメッセージ表示エリア */}
+          {error && (
+            <div className="p-2 text-sm text-red-500 bg-red-50 dark:bg-red-950 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {/* 一言コメント */}
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={1000}
+            placeholder="メッセージを添える（任意）"
+            className="w-full px-3 py-2 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+
+          {/* 会話一覧 */}
+          {conversations === null ? (
+            <p className="text-sm text-muted-foreground">読み込み中...</p>
+          ) : conversations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              まだ会話がありません。ユーザーのプロフィールからメッセージを始めましょう
+            </p>
+          ) : (
+            <ul className="divide-y border rounded-lg max-h-72 overflow-y-auto">
+              {conversations.map((conversation) => {
+                const sent = sentIds.includes(conversation.id)
+                return (
+                  <li key={conversation.id} className="flex items-center justify-between gap-2 p-3">
+                    <span className="text-sm truncate">{conversationLabel(conversation)}</span>
+                    <Button
+                      size="sm"
+                      variant={sent ? 'outline' : 'default'}
+                      disabled={isPending || sent}
+                      onClick={() => handleSend(conversation.id)}
+                    >
+                      {sent ? '送信済み' : '送信'}
+                    </Button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -19,6 +19,13 @@
  * - quote: 引用投稿
  * - repost: リポスト
  * - reply: コメントへの返信
+ * - care_reminder: 盆栽のお手入れ予定日
+ * - bonsai_transfer: 盆栽の譲渡の申し込み
+ * - bonsai_transfer_accepted: 盆栽の譲渡の受け取り
+ * - data_export_ready: データのエクスポート完了
+ * - new_login: 新しいデバイス・IPアドレスからのログイン
+ * - login_lockout: ログイン失敗が続いたためのログイン制限
+ * - saved_search: 保存した検索に一致する新着投稿
  *
  * @module components/notification/NotificationItem
  */
@@ -57,6 +64,11 @@ import { ja } from 'date-fns/locale'
  */
 import { markAsRead } from '@/lib/actions/notification'
 
+/**
+ * 保存した検索の表示名の作成
+ */
+import { formatSavedSearchLabel } from '@/lib/constants/saved-search'
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -71,6 +83,8 @@ import { markAsRead } from '@/lib/actions/notification'
  * @property actor - 通知を発生させたユーザー
  * @property post - 関連する投稿（オプション）
  * @property comment - 関連するコメント（オプション）
+ * @property bonsai - 関連する盆栽（オプション）
+ * @property savedSearch - 関連する保存した検索（オプション）
  */
 type Notification = {
   id: string
@@ -90,6 +104,16 @@ type Notification = {
     id: string
     content: string | null
   } | null
+  bonsai?: {
+    id: string
+    name: string
+  } | null
+  savedSearch?: {
+    id: string
+    query: string
+    genreIds: string[]
+    hashtag: string | null
+  } | null
 }
 
 /**
@@ -159,6 +183,64 @@ function RepeatIcon({ className }: { className?: string }) {
   )
 }
 
+/**
+ * じょうろアイコン（お手入れリマインダー通知用）
+ *
+ * @param className - 追加のCSSクラス
+ */
+function WateringCanIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M5 10h10v8a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2Z" />
+      <path d="M15 12l5-5" />
+      <path d="M19 5l2 2" />
+      <path d="M7 10V7a3 3 0 0 1 6 0v3" />
+    </svg>
+  )
+}
+
+/**
+ * ダウンロードアイコン（データのエクスポート完了通知用）
+ *
+ * @param className - 追加のCSSクラス
+ */
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="7 10 12 15 17 10" />
+      <line x1="12" x2="12" y1="15" y2="3" />
+    </svg>
+  )
+}
+
+/**
+ * 盾アイコン（ログインの通知用）
+ *
+ * @param className - 追加のCSSクラス
+ */
+function ShieldIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+    </svg>
+  )
+}
+
+/**
+ * 検索アイコン（保存した検索の通知用）
+ *
+ * @param className - 追加のCSSクラス
+ */
+function SearchIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <circle cx="11" cy="11" r="8" />
+      <path d="m21 21-4.3-4.3" />
+    </svg>
+  )
+}
+
 /**
  * 返信アイコン（返信通知用）
  *
@@ -187,6 +269,10 @@ function ReplyIcon({ className }: { className?: string }) {
  * - フォローリクエスト: 黄色
  * - 引用/リポスト: 紫
  * - 返信: オレンジ
+ * - お手入れリマインダー: エメラルド
+ * - 盆栽の譲渡: エメラルド
+ * - データのエクスポート: プライマリ
+ * - 保存した検索: スカイ
  *
  * @param type - 通知種別
  * @returns アイコンコンポーネント
@@ -208,6 +294,18 @@ function getNotificationIcon(type: string) {
       return <RepeatIcon className="w-5 h-5 text-purple-500" />
     case 'reply':
       return <ReplyIcon className="w-5 h-5 text-orange-500" />
+    case 'care_reminder':
+      return <WateringCanIcon className="w-5 h-5 text-emerald-600" />
+    case 'bonsai_transfer':
+    case 'bonsai_transfer_accepted':
+      return <RepeatIcon className="w-5 h-5 text-emerald-600" />
+    case 'data_export_ready':
+      return <DownloadIcon className="w-5 h-5 text-primary" />
+    case 'new_login':
+    case 'login_lockout':
+      return <ShieldIcon className="w-5 h-5 text-amber-600" />
+    case 'saved_search':
+      return <SearchIcon className="w-5 h-5 text-sky-600" />
     default:
       return <MessageCircleIcon className="w-5 h-5 text-muted-foreground" />
   }
@@ -218,9 +316,11 @@ function getNotificationIcon(type: string) {
  *
  * @param type - 通知種別
  * @param actorName - 通知発生者の名前
+ * @param bonsaiName - 関連する盆栽の名前（お手入れリマインダー・譲渡用）
+ * @param savedSearchLabel - 関連する保存した検索の表示名（保存した検索用）
  * @returns メッセージのJSX
  */
-function getNotificationMessage(type: string, actorName: string) {
+function getNotificationMessage(type: string, actorName: string, bonsaiName?: string, savedSearchLabel?: string) {
   switch (type) {
     case 'like':
       return <><strong>{actorName}</strong>さんがあなたの投稿にいいねしました</>
@@ -240,6 +340,20 @@ function getNotificationMessage(type: string, actorName: string) {
       return <><strong>{actorName}</strong>さんがあなたの投稿をリポストしました</>
     case 'reply':
       return <><strong>{actorName}</strong>さんがあなたのコメントに返信しました</>
+    case 'care_reminder':
+      return <><strong>{bonsaiName ?? '盆栽'}</strong>のお手入れ予定日です</>
+    case 'bonsai_transfer':
+      return <><strong>{actorName}</strong>さんから<strong>{bonsaiName ?? '盆栽'}</strong>の譲渡の申し込みが届きました</>
+    case 'bonsai_transfer_accepted':
+      return <><strong>{actorName}</strong>さんが<strong>{bonsaiName ?? '盆栽'}</strong>を受け取りました</>
+    case 'data_export_ready':
+      return <>データのエクスポートの準備ができました</>
+    case 'new_login':
+      return <>新しいデバイスからログインがありました。心当たりがない場合はメールのリンクからアカウントを保護してください</>
+    case 'login_lockout':
+      return <>ログインの失敗が続いたため、ログインを一時的に制限しました</>
+    case 'saved_search':
+      return <>保存した検索<strong>「{savedSearchLabel ?? '検索'}」</strong>に一致する新しい投稿があります</>
     default:
       return <><strong>{actorName}</strong>さんからの通知</>
   }
@@ -249,6 +363,10 @@ function getNotificationMessage(type: string, actorName: string) {
  * 通知のリンク先を決定
  *
  * ## リンク先ロジック
+ * - お手入れリマインダー・譲渡の受け取り: 盆栽詳細ページ
+ * - 譲渡の申し込み: 譲渡の申し込みページ
+ * - データのエクスポート完了: アカウント設定ページ
+ * - ログインの通知: デバイスとセッションのページ
  * - フォロー通知: ユーザーページ
  * - コメント関連: 投稿ページ#コメントID
  * - 投稿関連: 投稿ページ
@@ -258,7 +376,35 @@ function getNotificationMessage(type: string, actorName: string) {
  * @returns リンク先URL
  */
 function getNotificationLink(notification: Notification) {
-  const { type, post, comment, actor } = notification
+  const { type, post, comment, actor, bonsai } = notification
+
+  /**
+   * お手入れリマインダーと譲渡の受け取りは盆栽詳細ページへ
+   */
+  if ((type === 'care_reminder' || type === 'bonsai_transfer_accepted') && bonsai) {
+    return `/bonsai/${bonsai.id}`
+  }
+
+  /**
+   * 譲渡の申し込みは申し込みページへ（受け取り・辞退を行う）
+   */
+  if (type === 'bonsai_transfer') {
+    return '/bonsai/transfers'
+  }
+
+  /**
+   * データのエクスポート完了はダウンロードできるアカウント設定ページへ
+   */
+  if (type === 'data_export_ready') {
+    return '/settings/account'
+  }
+
+  /**
+   * ログインの通知はログイン中のデバイスを確認できるページへ
+   */
+  if (type === 'new_login' || type === 'login_lockout') {
+    return '/settings/security/devices'
+  }
 
   /**
    * フォロー関連通知はユーザーページへ
@@ -371,7 +517,12 @@ export function NotificationItem({ notification }: NotificationItemProps) {
       {/* コンテンツ */}
       <div className="flex-1 min-w-0">
         <p className="text-sm">
-          {getNotificationMessage(notification.type, notification.actor.nickname)}
+          {getNotificationMessage(
+            notification.type,
+            notification.actor.nickname,
+            notification.bonsai?.name,
+            notification.savedSearch ? formatSavedSearchLabel(notification.savedSearch) : undefined
+          )}
         </p>
         {contentPreview && (
           <p className="text-sm text-muted-foreground mt-1 line-clamp-1">
@@ -0,0 +1,96 @@
+/**
+ * 投稿の公開範囲選択コンポーネント
+ *
+ * このファイルは、投稿ごとに見せる相手（公開範囲）を選ぶセレクトボックスを提供します。
+ * 投稿フォーム・予約投稿フォーム・下書き編集フォームで使用されます。
+ *
+ * ## 選択肢
+ * - 全体公開
+ * - フォロワーのみ
+ * - 相互フォローのみ
+ * - 自分のみ
+ *
+ * 全体公開以外の投稿は引用・リポストできないため、その旨を補足として表示します。
+ *
+ * @module components/post/PostAudienceSelect
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 投稿の公開範囲の選択肢
+ */
+import { POST_AUDIENCE_OPTIONS } from '@/lib/constants/privacy'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * PostAudienceSelectコンポーネントのprops型
+ *
+ * @property id - セレクトボックスのID（ラベルとの関連付け用）
+ * @property value - 選択中の公開範囲
+ * @property onChange - 選択変更時のコールバック
+ * @property disabled - 無効化するか
+ */
+type PostAudienceSelectProps = {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * 投稿の公開範囲選択コンポーネント
+ *
+ * @param id - セレクトボックスのID
+ * @param value - 選択中の公開範囲
+ * @param onChange - 選択変更時のコールバック
+ * @param disabled - 無効化するか
+ *
+ * @example
+ * ```tsx
+ * <PostAudienceSelect value={audience} onChange={setAudience} />
+ * ```
+ */
+export function PostAudienceSelect({
+  id = 'post-audience',
+  value,
+  onChange,
+  disabled = false,
+}: PostAudienceSelectProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label htmlFor={id} className="text-sm text-muted-foreground">
+        公開範囲
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="h-8 px-2 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+      >
+        {POST_AUDIENCE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {value !== 'public' && (
+        <span className="text-xs text-muted-foreground">
+          検索やハッシュタグでも見られる人だけに表示され、引用・リポストはできません
+        </span>
+      )}
+    </div>
+  )
+}
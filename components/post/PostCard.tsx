@@ -93,6 +93,7 @@ import { LikeButton } from './LikeButton'
 import { BookmarkButton } from './BookmarkButton'
 import { ReportButton } from '@/components/report/ReportButton'
 import { parseContentSegments, type ContentSegment } from '@/lib/mention-utils'
+import { POST_AUDIENCE_OPTIONS } from '@/lib/constants/privacy'
 
 // ============================================================
 // 型定義
@@ -171,6 +172,8 @@ type Post = {
   content: string | null
   /** 作成日時 */
   createdAt: string | Date
+  /** 公開範囲（全体公開以外の場合はラベルを表示） */
+  audience?: string
   /** 投稿者情報 */
   user: PostUser
   /** 添付メディア */
@@ -277,6 +280,19 @@ function BookmarkIcon({ className, filled }: { className?: string; filled?: bool
   )
 }
 
+/**
+ * 星アイコン
+ *
+ * 「親しい友達」限定の投稿の目印に使用。
+ */
+function StarIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+      <path d="M11.525 2.295a.53.53 0 0 1 .95 0l2.31 4.679a2.123 2.123 0 0 0 1.595 1.16l5.166.756a.53.53 0 0 1 .294.904l-3.736 3.638a2.123 2.123 0 0 0-.611 1.878l.882 5.14a.53.53 0 0 1-.771.56l-4.618-2.428a2.122 2.122 0 0 0-1.973 0L6.396 21.01a.53.53 0 0 1-.77-.56l.881-5.139a2.122 2.122 0 0 0-.611-1.879L2.16 9.795a.53.53 0 0 1 .294-.906l5.165-.755a2.122 2.122 0 0 0 1.597-1.16z" />
+    </svg>
+  )
+}
+
 /**
  * 三点リーダーアイコン（横）
  *
@@ -380,6 +396,15 @@ export function PostCard({ post, currentUserId, initialLiked, initialBookmarked,
     locale: ja,
   })
 
+  /**
+   * 公開範囲のラベル
+   *
+   * 全体公開以外の投稿のみ「フォロワーのみ」などのラベルを表示
+   */
+  const audienceLabel = post.audience && post.audience !== 'public'
+    ? POST_AUDIENCE_OPTIONS.find((option) => option.value === post.audience)?.label
+    : undefined
+
   // ------------------------------------------------------------
   // ヘルパー関数
   // ------------------------------------------------------------
@@ -488,6 +513,17 @@ export function PostCard({ post, currentUserId, initialLiked, initialBookmarked,
             {displayPost.user.nickname}
           </Link>
           <span className="text-sm text-muted-foreground flex-shrink-0">{timeAgo}</span>
+          {/* 親しい友達限定の投稿は、他の公開範囲と区別できるよう緑の星で表示 */}
+          {post.audience === 'close_friends' ? (
+            <span className="inline-flex items-center gap-1 text-xs font-medium text-white bg-green-600 rounded-full px-2 py-0.5 flex-shrink-0">
+              <StarIcon className="w-3 h-3" />
+              {audienceLabel}
+            </span>
+          ) : audienceLabel && (
+            <span className="text-xs text-muted-foreground border rounded px-1.5 py-0.5 flex-shrink-0">
+              {audienceLabel}
+            </span>
+          )}
         </div>
 
         <div className="relative flex-shrink-0" onClick={(e) => e.stopPropagation()}>
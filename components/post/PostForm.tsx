@@ -8,6 +8,7 @@
  * - テキスト入力（文字数制限付き）
  * - 画像・動画のアップロード
  * - ジャンル選択
+ * - 公開範囲の選択
  * - 下書き保存
  * - 投稿送信
  *
@@ -95,6 +96,12 @@ import { saveDraft } from '@/lib/actions/draft'
  */
 import { GenreSelector } from './GenreSelector'
 
+/**
+ * 公開範囲選択コンポーネント
+ * 投稿を見せる相手を選択
+ */
+import { PostAudienceSelect } from './PostAudienceSelect'
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -275,6 +282,11 @@ export function PostForm({ genres, limits = DEFAULT_LIMITS, draftCount = 0 }: Po
    */
   const [selectedGenres, setSelectedGenres] = useState<string[]>([])
 
+  /**
+   * 投稿の公開範囲
+   */
+  const [audience, setAudience] = useState('public')
+
   /**
    * アップロードされたメディアファイルの配列
    * 各要素は { url: 'アップロード先URL', type: 'image' | 'video' }
@@ -545,9 +557,11 @@ export function PostForm({ genres, limits = DEFAULT_LIMITS, draftCount = 0 }: Po
      * - content: 投稿テキスト
      * - genreIds: 選択されたジャンルID（複数可）
      * - mediaUrls/mediaTypes: アップロードされたメディア情報
+     * - audience: 公開範囲
      */
     const formData = new FormData()
     formData.append('content', content)
+    formData.append('audience', audience)
     selectedGenres.forEach(id => formData.append('genreIds', id))
     mediaFiles.forEach(m => {
       formData.append('mediaUrls', m.url)
@@ -575,6 +589,7 @@ export function PostForm({ genres, limits = DEFAULT_LIMITS, draftCount = 0 }: Po
       setContent('')
       setSelectedGenres([])
       setMediaFiles([])
+      setAudience('public')
       await queryClient.invalidateQueries({ queryKey: ['timeline'] })
       router.refresh()
       setLoading(false)
@@ -611,6 +626,7 @@ export function PostForm({ genres, limits = DEFAULT_LIMITS, draftCount = 0 }: Po
         content: content || undefined,
         mediaUrls: mediaFiles.map((m) => m.url),
         genreIds: selectedGenres,
+        audience,
       })
 
       if (result.error) {
@@ -624,6 +640,7 @@ export function PostForm({ genres, limits = DEFAULT_LIMITS, draftCount = 0 }: Po
         setContent('')
         setSelectedGenres([])
         setMediaFiles([])
+        setAudience('public')
         setError(null)
         router.push('/drafts')
       }
@@ -686,6 +703,11 @@ export function PostForm({ genres, limits = DEFAULT_LIMITS, draftCount = 0 }: Po
         />
       </div>
 
+      {/* 公開範囲選択 */}
+      <div className="mt-3">
+        <PostAudienceSelect value={audience} onChange={setAudience} />
+      </div>
+
       {error && (
         <p className="text-sm text-destructive mt-3">{error}</p>
       )}
@@ -8,6 +8,7 @@
  * - テキスト入力（文字数制限付き）
  * - 画像・動画のアップロード
  * - ジャンル選択
+ * - 公開範囲の選択
  * - 下書き保存
  * - 投稿送信
  * - マイ盆栽との関連付け
@@ -90,6 +91,12 @@ import { saveDraft } from '@/lib/actions/draft'
  */
 import { GenreSelector } from './GenreSelector'
 
+/**
+ * 公開範囲選択コンポーネント
+ * 投稿を見せる相手を選択
+ */
+import { PostAudienceSelect } from './PostAudienceSelect'
+
 /**
  * クライアントサイド画像圧縮ユーティリティ
  *
@@ -309,6 +316,11 @@ export function PostFormModal({ genres, limits = DEFAULT_LIMITS, isOpen, onClose
    */
   const [selectedGenres, setSelectedGenres] = useState<string[]>([])
 
+  /**
+   * 投稿の公開範囲
+   */
+  const [audience, setAudience] = useState('public')
+
   /**
    * アップロードされたメディアファイルの配列
    * 各要素は { url: 'アップロード先URL', type: 'image' | 'video' }
@@ -623,6 +635,7 @@ export function PostFormModal({ genres, limits = DEFAULT_LIMITS, isOpen, onClose
      */
     const formData = new FormData()
     formData.append('content', content)
+    formData.append('audience', audience)
     selectedGenres.forEach(id => formData.append('genreIds', id))
     mediaFiles.forEach(m => {
       formData.append('mediaUrls', m.url)
@@ -651,6 +664,7 @@ export function PostFormModal({ genres, limits = DEFAULT_LIMITS, isOpen, onClose
       setContent('')
       setSelectedGenres([])
       setMediaFiles([])
+      setAudience('public')
       await queryClient.invalidateQueries({ queryKey: ['timeline'] })
       router.refresh()
       setLoading(false)
@@ -694,6 +708,7 @@ export function PostFormModal({ genres, limits = DEFAULT_LIMITS, isOpen, onClose
     setSelectedGenres([])
     setMediaFiles([])
     setSelectedBonsaiId('')
+    setAudience('public')
     setError(null)
     setUploading(false)
     setUploadProgress(0)
@@ -739,6 +754,7 @@ export function PostFormModal({ genres, limits = DEFAULT_LIMITS, isOpen, onClose
         content: content || undefined,
         mediaUrls: mediaFiles.map((m) => m.url),
         genreIds: selectedGenres,
+        audience,
       })
 
       if (result.error) {
@@ -750,6 +766,7 @@ export function PostFormModal({ genres, limits = DEFAULT_LIMITS, isOpen, onClose
         setContent('')
         setSelectedGenres([])
         setMediaFiles([])
+        setAudience('public')
         setError(null)
         onClose()
         router.push('/drafts')
@@ -930,6 +947,11 @@ export function PostFormModal({ genres, limits = DEFAULT_LIMITS, isOpen, onClose
             />
           </div>
 
+          {/* 公開範囲選択 */}
+          <div className="mt-4">
+            <PostAudienceSelect id="post-audience-modal" value={audience} onChange={setAudience} />
+          </div>
+
           {/* エラーメッセージ */}
           {error && (
             <p className="text-sm text-destructive mt-4">{error}</p>
@@ -8,6 +8,7 @@
  * - テキスト入力（文字数制限付き）
  * - 画像・動画のアップロード
  * - ジャンル選択
+ * - 公開範囲の選択
  * - 予約日時の指定
  * - 既存の予約投稿の編集
  *
@@ -67,6 +68,11 @@ import { createScheduledPost, updateScheduledPost } from '@/lib/actions/schedule
  */
 import { GenreSelector } from './GenreSelector'
 
+/**
+ * 公開範囲選択コンポーネント
+ */
+import { PostAudienceSelect } from './PostAudienceSelect'
+
 /**
  * クライアントサイド画像圧縮ユーティリティ
  */
@@ -125,6 +131,8 @@ type ScheduledPostFormProps = {
     genreIds: string[]
     /** 添付メディア */
     media: { url: string; type: string }[]
+    /** 公開時の公開範囲 */
+    audience: string
   }
 }
 
@@ -176,6 +184,7 @@ type ScheduledPostFormProps = {
  *     scheduledAt: new Date('2024-12-01T10:00:00'),
  *     genreIds: ['genre1'],
  *     media: [],
+ *     audience: 'public',
  *   }}
  * />
  * ```
@@ -213,6 +222,12 @@ export function ScheduledPostForm({ genres, limits, editData }: ScheduledPostFor
    */
   const [mediaFiles, setMediaFiles] = useState<{ url: string; type: string }[]>(editData?.media || [])
 
+  /**
+   * 公開時の公開範囲
+   * 編集時は既存の設定で初期化
+   */
+  const [audience, setAudience] = useState(editData?.audience || 'public')
+
   /**
    * 予約日（YYYY-MM-DD形式）
    * 編集時は既存の日付で初期化
@@ -501,6 +516,7 @@ export function ScheduledPostForm({ genres, limits, editData }: ScheduledPostFor
     const formData = new FormData()
     formData.append('content', content)
     formData.append('scheduledAt', scheduledAt.toISOString())
+    formData.append('audience', audience)
     selectedGenres.forEach(id => formData.append('genreIds', id))
     mediaFiles.forEach(m => {
       formData.append('mediaUrls', m.url)
@@ -637,6 +653,9 @@ export function ScheduledPostForm({ genres, limits, editData }: ScheduledPostFor
         />
       </div>
 
+      {/* 公開範囲 */}
+      <PostAudienceSelect value={audience} onChange={setAudience} />
+
       {/* 予約日時 */}
       <div className="space-y-3 pt-4 border-t">
         <Label className="text-sm font-medium flex items-center gap-2">
@@ -9,6 +9,7 @@
  * - Facebookへのシェア
  * - LINEへのシェア
  * - URLのコピー
+ * - ダイレクトメッセージで送る（ログイン時のみ）
  *
  * ## シェア方法
  * 各SNSのシェアURLを新しいウィンドウで開く方式を採用。
@@ -35,6 +36,12 @@ import { useState } from 'react'
  */
 import { Button } from '@/components/ui/button'
 
+/**
+ * 投稿をDMで送るボタン
+ * postIdが指定された場合のみ表示
+ */
+import { SharePostToDMButton } from '@/components/message/SharePostToDMButton'
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -45,11 +52,13 @@ import { Button } from '@/components/ui/button'
  * @property url - シェア対象のURL
  * @property title - シェア時のタイトル（OGPタイトルなど）
  * @property text - シェア時のテキスト（省略時はtitleを使用）
+ * @property postId - DMで送る投稿のID（ログイン時のみ指定）
  */
 type ShareButtonsProps = {
   url: string
   title: string
   text?: string
+  postId?: string
 }
 
 // ============================================================
@@ -146,6 +155,7 @@ function CheckIcon({ className }: { className?: string }) {
  * @param url - シェア対象のURL
  * @param title - シェア時のタイトル
  * @param text - シェア時のテキスト（省略可）
+ * @param postId - DMで送る投稿のID（省略時はDMボタンを表示しない）
  *
  * @example
  * ```tsx
@@ -156,7 +166,7 @@ function CheckIcon({ className }: { className?: string }) {
  * />
  * ```
  */
-export function ShareButtons({ url, title, text }: ShareButtonsProps) {
+export function ShareButtons({ url, title, text, postId }: ShareButtonsProps) {
   // ------------------------------------------------------------
   // 状態管理
   // ------------------------------------------------------------
@@ -322,6 +332,9 @@ export function ShareButtons({ url, title, text }: ShareButtonsProps) {
           </>
         )}
       </Button>
+
+      {/* DMで送るボタン（ログイン時のみ） */}
+      {postId && <SharePostToDMButton postId={postId} />}
     </div>
   )
 }
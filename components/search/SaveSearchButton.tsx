@@ -0,0 +1,172 @@
+/**
+ * 検索を保存ボタンコンポーネント
+ *
+ * このファイルは、表示中の検索条件を保存し、
+ * 新しい投稿があったときに知らせてもらうためのボタンとダイアログを提供します。
+ *
+ * ## 機能概要
+ * - ボタンを押すと通知方法を選ぶダイアログを表示
+ * - 通知方法は「すぐに通知」「1日1回メールでまとめて」から選択
+ * - 保存後は保存した検索の管理ページへのリンクを表示
+ *
+ * ## 使用例
+ * ```tsx
+ * // キーワード + ジャンル
+ * <SaveSearchButton query="五葉松 譲ります" genreIds={['genre-1']} />
+ *
+ * // ハッシュタグ
+ * <SaveSearchButton hashtag="盆栽" />
+ * ```
+ *
+ * @module components/search/SaveSearchButton
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { saveSearch } from '@/lib/actions/saved-search'
+import { SAVED_SEARCH_NOTIFY_MODES, type SavedSearchNotifyMode } from '@/lib/constants/saved-search'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * SaveSearchButtonコンポーネントのprops型定義
+ *
+ * @property query - キーワード
+ * @property genreIds - 絞り込むジャンルIDの配列
+ * @property hashtag - ハッシュタグ（#を除く）
+ */
+interface SaveSearchButtonProps {
+  query?: string
+  genreIds?: string[]
+  hashtag?: string
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * 検索を保存ボタン
+ *
+ * @param query - キーワード
+ * @param genreIds - 絞り込むジャンルIDの配列
+ * @param hashtag - ハッシュタグ（#を除く）
+ */
+export function SaveSearchButton({ query, genreIds, hashtag }: SaveSearchButtonProps) {
+  /** ダイアログの開閉状態 */
+  const [open, setOpen] = useState(false)
+
+  /** 選択中の通知方法 */
+  const [notifyMode, setNotifyMode] = useState<SavedSearchNotifyMode>('instant')
+
+  /** 保存済みかどうか */
+  const [saved, setSaved] = useState(false)
+
+  /** エラーメッセージ */
+  const [error, setError] = useState<string | null>(null)
+
+  /** 保存中かどうか */
+  const [isPending, startTransition] = useTransition()
+
+  /**
+   * 検索条件を保存
+   */
+  const handleSave = () => {
+    setError(null)
+
+    startTransition(async () => {
+      const result = await saveSearch({ query, genreIds, hashtag, notifyMode })
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      setSaved(true)
+    })
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} disabled={saved}>
+        {saved ? '保存済み' : 'この検索を保存'}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>この検索を保存</DialogTitle>
+            <DialogDescription>
+              この条件に一致する新しい投稿があったときにお知らせします
+            </DialogDescription>
+          </DialogHeader>
+
+          {saved ? (
+            <p className="text-sm">
+              保存しました。
+              <Link href="/settings/saved-searches" className="text-primary hover:underline">
+                保存した検索
+              </Link>
+              から通知方法の変更や削除ができます。
+            </p>
+          ) : (
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium mb-2">通知方法</legend>
+              {SAVED_SEARCH_NOTIFY_MODES.map((mode) => (
+                <div key={mode.value} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    id={`notify-mode-${mode.value}`}
+                    name="notify-mode"
+                    value={mode.value}
+                    checked={notifyMode === mode.value}
+                    onChange={() => setNotifyMode(mode.value)}
+                    disabled={isPending}
+                  />
+                  <Label htmlFor={`notify-mode-${mode.value}`} className="font-normal">
+                    {mode.label}
+                  </Label>
+                </div>
+              ))}
+            </fieldset>
+          )}
+
+          {/* エラーメッセージ表示エリア */}
+          {error && (
+            <div className="p-2 text-sm text-red-500 bg-red-50 dark:bg-red-950 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            {saved ? (
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                閉じる
+              </Button>
+            ) : (
+              <Button onClick={handleSave} disabled={isPending}>
+                {isPending ? '保存中...' : '保存'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
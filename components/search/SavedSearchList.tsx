@@ -0,0 +1,236 @@
+/**
+ * 保存した検索の一覧コンポーネント
+ *
+ * このファイルは、保存した検索を一覧表示し、
+ * 通知方法の変更と削除を行うコンポーネントを提供します。
+ * 保存した検索の管理ページで使用されます。
+ *
+ * ## 機能概要
+ * - 保存した検索を一覧表示（クリックで検索ページを開く）
+ * - 通知方法の変更（すぐに通知 / 1日1回メールでまとめて）
+ * - 削除
+ *
+ * ## コンポーネント構成
+ * - SavedSearchList: 一覧のコンテナ
+ * - SavedSearchItem: 個々の検索表示（内部コンポーネント）
+ *
+ * @module components/search/SavedSearchList
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * Next.js Linkコンポーネント
+ * 検索ページへのリンク
+ */
+import Link from 'next/link'
+
+/**
+ * React useState Hook
+ * 通知方法とローディング状態の管理に使用
+ */
+import { useState } from 'react'
+
+/**
+ * Next.js useRouter Hook
+ * 削除後にページをリフレッシュして一覧を更新するために使用
+ */
+import { useRouter } from 'next/navigation'
+
+/**
+ * shadcn/ui Buttonコンポーネント
+ * 削除ボタンのUI
+ */
+import { Button } from '@/components/ui/button'
+
+/**
+ * 保存した検索の変更・削除用Server Actions
+ */
+import { deleteSavedSearch, updateSavedSearchNotifyMode } from '@/lib/actions/saved-search'
+
+/**
+ * 通知方法の選択肢
+ */
+import { SAVED_SEARCH_NOTIFY_MODES } from '@/lib/constants/saved-search'
+
+/**
+ * トースト通知用カスタムHook
+ * 操作の結果（成功/エラー）をユーザーに通知
+ */
+import { useToast } from '@/hooks/use-toast'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 保存した検索の型
+ *
+ * @property id - 保存した検索のID
+ * @property label - 表示名（キーワード・ハッシュタグ・ジャンル）
+ * @property url - 検索ページのURL
+ * @property notifyMode - 通知方法
+ */
+type SavedSearch = {
+  id: string
+  label: string
+  url: string
+  notifyMode: string
+}
+
+/**
+ * SavedSearchListコンポーネントのprops型
+ *
+ * @property searches - 表示する保存した検索の配列
+ */
+type SavedSearchListProps = {
+  searches: SavedSearch[]
+}
+
+/**
+ * 通知方法のセレクトボックスのスタイル
+ */
+const selectClassName =
+  'h-9 px-3 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50'
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * 保存した検索の一覧コンポーネント
+ *
+ * @param searches - 表示する保存した検索の配列
+ *
+ * @example
+ * ```tsx
+ * <SavedSearchList searches={searches} />
+ * ```
+ */
+export function SavedSearchList({ searches }: SavedSearchListProps) {
+  return (
+    <div className="space-y-4">
+      {searches.map((search) => (
+        <SavedSearchItem key={search.id} search={search} />
+      ))}
+    </div>
+  )
+}
+
+// ============================================================
+// 内部コンポーネント
+// ============================================================
+
+/**
+ * 保存した検索アイテムコンポーネント（内部使用）
+ *
+ * ## レイアウト
+ * - 左: 表示名（検索ページへのリンク）
+ * - 右: 通知方法のセレクトボックス + 削除ボタン
+ *
+ * @param search - 表示する保存した検索
+ */
+function SavedSearchItem({ search }: { search: SavedSearch }) {
+  /**
+   * 選択中の通知方法
+   */
+  const [notifyMode, setNotifyMode] = useState(search.notifyMode)
+
+  /**
+   * ローディング状態
+   * Server Action呼び出し中はtrueになり、操作が無効化される
+   */
+  const [loading, setLoading] = useState(false)
+
+  const router = useRouter()
+  const { toast } = useToast()
+
+  /**
+   * 通知方法の変更ハンドラ
+   *
+   * 失敗した場合は元の通知方法に戻す
+   */
+  async function handleChange(value: string) {
+    const previous = notifyMode
+    setNotifyMode(value)
+    setLoading(true)
+
+    const result = await updateSavedSearchNotifyMode(search.id, value)
+
+    if (result.error) {
+      setNotifyMode(previous)
+      toast({
+        title: 'エラー',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+
+    setLoading(false)
+  }
+
+  /**
+   * 削除ハンドラ
+   *
+   * 結果をトーストで通知してページをリフレッシュする
+   */
+  async function handleDelete() {
+    setLoading(true)
+
+    const result = await deleteSavedSearch(search.id)
+
+    if (result.error) {
+      toast({
+        title: 'エラー',
+        description: result.error,
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: '保存した検索を削除しました',
+        description: search.label,
+      })
+    }
+
+    setLoading(false)
+    router.refresh()
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border rounded-lg">
+      {/* 左側: 表示名 */}
+      <Link href={search.url} className="font-semibold hover:underline break-all">
+        {search.label}
+      </Link>
+
+      {/* 右側: 通知方法と削除ボタン */}
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <select
+          aria-label={`${search.label}の通知方法`}
+          value={notifyMode}
+          onChange={(e) => handleChange(e.target.value)}
+          disabled={loading}
+          className={selectClassName}
+        >
+          {SAVED_SEARCH_NOTIFY_MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+        <Button
+          onClick={handleDelete}
+          disabled={loading}
+          variant="outline"
+          size="sm"
+        >
+          削除
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+/**
+ * 検索演算子のヘルプコンポーネント
+ *
+ * このファイルは、投稿検索で使える演算子（from: や has: など）の
+ * 一覧を折りたたみ表示するコンポーネントを提供します。
+ * 検索ページの検索バーの下に表示されます。
+ *
+ * ## 機能概要
+ * - 「検索オプション」を開くと演算子の書式と説明を一覧表示
+ * - 演算子の定義は lib/search/query-parser の SEARCH_OPERATORS を使用
+ *
+ * ## 使用例
+ * ```tsx
+ * <SearchOperatorHelp />
+ * ```
+ *
+ * @module components/search/SearchOperatorHelp
+ */
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 検索演算子の一覧
+ */
+import { SEARCH_OPERATORS } from '@/lib/search/query-parser'
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * 検索演算子のヘルプ
+ *
+ * details 要素で折りたたむため、クライアントの状態を持たない
+ */
+export function SearchOperatorHelp() {
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+        検索オプション
+      </summary>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+        {SEARCH_OPERATORS.map((operator) => (
+          <div key={operator.syntax} className="contents">
+            <dt>
+              <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{operator.syntax}</code>
+            </dt>
+            <dd className="text-muted-foreground">{operator.description}</dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  )
+}
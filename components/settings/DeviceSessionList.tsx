@@ -0,0 +1,164 @@
+/**
+ * デバイスとセッションの一覧コンポーネント
+ *
+ * ログインしたデバイスの一覧と、ログアウトの操作UIを提供します。
+ *
+ * ## 機能概要
+ * - デバイスごとのブラウザ・OS、IPアドレス、最終アクセスの表示
+ * - 現在のデバイス・ログアウト済みのデバイスの表示
+ * - デバイスごとのログアウト
+ * - すべてのデバイスからのログアウト（現在のデバイスもログアウトしてログイン画面へ）
+ *
+ * @module components/settings/DeviceSessionList
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { signOut } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { signOutDevice, signOutEverywhere } from '@/lib/actions/user-session'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+interface DeviceSession {
+  id: string
+  /** ブラウザ・OS（例: Chrome / Android） */
+  name: string
+  ipAddress: string | null
+  lastSeenAt: Date
+  signedOut: boolean
+  current: boolean
+}
+
+interface DeviceSessionListProps {
+  devices: DeviceSession[]
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+function formatDateTime(date: Date) {
+  return new Date(date).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+export function DeviceSessionList({ devices }: DeviceSessionListProps) {
+  const router = useRouter()
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * 指定したデバイスからログアウトさせる
+   */
+  async function handleSignOutDevice(device: DeviceSession) {
+    if (!confirm(`「${device.name}」からログアウトしますか？`)) return
+
+    setLoadingId(device.id)
+    setError(null)
+
+    const result = await signOutDevice(device.id)
+    if (result.error) {
+      setError(result.error)
+    } else {
+      router.refresh()
+    }
+    setLoadingId(null)
+  }
+
+  /**
+   * すべてのデバイスからログアウトし、ログイン画面へ移動する
+   */
+  async function handleSignOutEverywhere() {
+    if (!confirm('このデバイスを含む、すべてのデバイスからログアウトしますか？')) return
+
+    setLoadingId('all')
+    setError(null)
+
+    const result = await signOutEverywhere()
+    if (result.error) {
+      setError(result.error)
+      setLoadingId(null)
+      return
+    }
+
+    await signOut({ callbackUrl: '/login' })
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        ログインしたことのあるデバイスです。心当たりのないデバイスや、
+        紛失したデバイスがある場合はログアウトさせてください。
+      </p>
+
+      {devices.length === 0 ? (
+        <p className="text-sm text-muted-foreground">記録されたデバイスはありません。</p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {devices.map((device) => (
+            <li key={device.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div>
+                <p className="font-medium">
+                  {device.name}
+                  {device.current && (
+                    <span className="ml-2 text-xs text-primary">このデバイス</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {device.ipAddress ?? 'IPアドレス不明'} ・ 最終アクセス: {formatDateTime(device.lastSeenAt)}
+                </p>
+              </div>
+              {device.signedOut ? (
+                <span className="text-xs text-muted-foreground flex-shrink-0">ログアウト済み</span>
+              ) : (
+                !device.current && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSignOutDevice(device)}
+                    disabled={loadingId !== null}
+                  >
+                    {loadingId === device.id ? 'ログアウト中...' : 'ログアウト'}
+                  </Button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="border rounded-lg p-4 border-destructive/30">
+        <h2 className="font-semibold mb-2 text-destructive">すべてのデバイスからログアウト</h2>
+        <p className="text-sm text-muted-foreground mb-3">
+          このデバイスを含め、ログイン中のすべてのセッションが無効になります。
+          パスワードが漏れた可能性がある場合は、パスワードリセットからパスワードも変更してください。
+        </p>
+        <Button
+          variant="destructive"
+          onClick={handleSignOutEverywhere}
+          disabled={loadingId !== null}
+        >
+          {loadingId === 'all' ? 'ログアウト中...' : 'すべてのデバイスからログアウト'}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+/**
+ * パスキー設定コンポーネント
+ *
+ * パスキー（WebAuthn）の登録・名前の変更・削除のUIを提供します。
+ * 2段階認証設定（TwoFactorSettings）の中に表示されます。
+ *
+ * ## 機能概要
+ * - 登録済みパスキーの一覧表示（名前・登録日・最終使用日）
+ * - 名前を付けてパスキーを追加（複数登録可能）
+ * - パスキーの名前変更・削除
+ *
+ * @module components/settings/PasskeySettings
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { startRegistration } from '@simplewebauthn/browser'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  getPasskeys,
+  getPasskeyRegistrationOptions,
+  registerPasskey,
+  renamePasskey,
+  deletePasskey,
+} from '@/lib/actions/passkey'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+interface PasskeyItem {
+  id: string
+  name: string
+  backedUp: boolean
+  lastUsedAt: Date | null
+  createdAt: Date
+}
+
+interface PasskeySettingsProps {
+  /** 2段階認証が有効か（説明文の切り替えに使用） */
+  twoFactorEnabled: boolean
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleDateString('ja-JP')
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+export function PasskeySettings({ twoFactorEnabled }: PasskeySettingsProps) {
+  const [passkeys, setPasskeys] = useState<PasskeyItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // 追加フォーム
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  // 名前変更・削除
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  // 初期状態の取得
+  useEffect(() => {
+    async function fetchInitialPasskeys() {
+      const result = await getPasskeys()
+      if ('error' in result) {
+        setError(result.error ?? null)
+      } else {
+        setPasskeys(result.passkeys)
+      }
+      setLoading(false)
+    }
+    fetchInitialPasskeys()
+  }, [])
+
+  // 追加・変更・削除後の再取得
+  const fetchPasskeys = async () => {
+    const result = await getPasskeys()
+    if (!('error' in result)) {
+      setPasskeys(result.passkeys)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setAdding(true)
+    setError(null)
+
+    const optionsResult = await getPasskeyRegistrationOptions()
+    if ('error' in optionsResult) {
+      setError(optionsResult.error ?? null)
+      setAdding(false)
+      return
+    }
+
+    let response
+    try {
+      response = await startRegistration(optionsResult.options)
+    } catch (err) {
+      // ユーザーがキャンセルした場合もここに来る
+      console.error('Passkey registration error:', err)
+      setError('パスキーを作成できませんでした')
+      setAdding(false)
+      return
+    }
+
+    const result = await registerPasskey(newName, response)
+    if (result.error) {
+      setError(result.error)
+    } else {
+      setShowAddForm(false)
+      setNewName('')
+      await fetchPasskeys()
+    }
+    setAdding(false)
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingId) return
+
+    setBusyId(editingId)
+    setError(null)
+
+    const result = await renamePasskey(editingId, editingName)
+    if (result.error) {
+      setError(result.error)
+    } else {
+      setEditingId(null)
+      await fetchPasskeys()
+    }
+    setBusyId(null)
+  }
+
+  const handleDelete = async (passkey: PasskeyItem) => {
+    if (!confirm(`「${passkey.name}」を削除しますか？`)) return
+
+    setBusyId(passkey.id)
+    setError(null)
+
+    const result = await deletePasskey(passkey.id)
+    if (result.error) {
+      setError(result.error)
+    } else {
+      await fetchPasskeys()
+    }
+    setBusyId(null)
+  }
+
+  if (loading) {
+    return (
+      <div className="border rounded-lg p-6 animate-pulse">
+        <div className="h-6 bg-muted rounded w-32 mb-4" />
+        <div className="h-12 bg-muted rounded" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="border rounded-lg p-6 space-y-4">
+      <div>
+        <h3 className="font-semibold mb-2">パスキー</h3>
+        <p className="text-sm text-muted-foreground">
+          指紋や顔認証、画面ロックでパスワードなしでログインできます。
+        </p>
+        {twoFactorEnabled && (
+          <p className="text-sm text-muted-foreground mt-1">
+            2段階認証では、認証コードの代わりにパスキーを使えます。
+          </p>
+        )}
+      </div>
+
+      {passkeys.length > 0 && (
+        <ul className="divide-y border rounded-lg">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="p-3 text-sm">
+              {editingId === passkey.id ? (
+                <form onSubmit={handleRename} className="flex items-center gap-2">
+                  <Input
+                    aria-label="パスキーの名前"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    maxLength={50}
+                  />
+                  <Button type="submit" size="sm" disabled={!editingName.trim() || busyId !== null}>
+                    保存
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                    キャンセル
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium">{passkey.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      登録日: {formatDate(passkey.createdAt)}
+                      {passkey.lastUsedAt && ` ・ 最終使用: ${formatDate(passkey.lastUsedAt)}`}
+                      {passkey.backedUp && ' ・ 同期済み'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingId(passkey.id)
+                        setEditingName(passkey.name)
+                      }}
+                      disabled={busyId !== null}
+                    >
+                      名前を変更
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(passkey)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === passkey.id ? '削除中...' : '削除'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showAddForm ? (
+        <form onSubmit={handleAdd} className="space-y-4">
+          <div>
+            <Label htmlFor="passkey-name">パスキーの名前</Label>
+            <Input
+              id="passkey-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="例: iPhone、仕事用PC"
+              maxLength={50}
+              className="mt-1"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={!newName.trim() || adding}>
+              {adding ? '登録中...' : '登録する'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setShowAddForm(false)
+                setNewName('')
+              }}
+            >
+              キャンセル
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="outline" onClick={() => setShowAddForm(true)}>
+          パスキーを追加
+        </Button>
+      )}
+
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+/**
+ * ソーシャルログイン連携設定コンポーネント
+ *
+ * LINE・Google・Apple・OIDC のアカウントとの連携・連携解除のUIを提供します。
+ *
+ * ## 機能概要
+ * - プロバイダーごとの連携状態の表示
+ * - 連携（プロバイダーのログイン画面を経由して戻ってくる）
+ * - 連携の解除（ほかにログイン方法がない場合は解除できない）
+ * - 連携に失敗して ?error= で戻ってきた場合のエラー表示
+ *
+ * @module components/settings/SocialAccountSettings
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { signIn } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { getFingerprintWithCache } from '@/lib/fingerprint'
+import { prepareSocialSignIn, unlinkSocialAccount } from '@/lib/actions/social-login'
+import {
+  getSocialLoginErrorMessage,
+  type SocialProviderOption,
+} from '@/lib/constants/social-login'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+interface SocialAccountSettingsProps {
+  /** 有効なプロバイダー */
+  providers: SocialProviderOption[]
+  /** 連携中のプロバイダーID */
+  linkedProviders: string[]
+  /** パスワードを設定済みか */
+  hasPassword: boolean
+  /** 連携に失敗した場合のエラーコード */
+  errorCode?: string
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+export function SocialAccountSettings({
+  providers,
+  linkedProviders,
+  hasPassword,
+  errorCode,
+}: SocialAccountSettingsProps) {
+  const router = useRouter()
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(
+    errorCode ? getSocialLoginErrorMessage(errorCode) : null
+  )
+
+  // パスワードも他の連携もない場合、最後の連携は解除できない
+  const canUnlink = hasPassword || linkedProviders.length > 1
+
+  /**
+   * デバイスを確認してからプロバイダーのログイン画面へ移動する
+   * ログイン中に signIn するとログイン中のアカウントに連携される
+   */
+  async function handleLink(providerId: string) {
+    setLoadingId(providerId)
+    setError(null)
+
+    try {
+      const fingerprint = await getFingerprintWithCache()
+      const result = await prepareSocialSignIn(fingerprint ?? undefined)
+
+      if (result.error) {
+        setError(result.error)
+        setLoadingId(null)
+        return
+      }
+
+      await signIn(providerId, { redirectTo: '/settings/security' })
+    } catch (err) {
+      console.error('Social link error:', err)
+      setError(getSocialLoginErrorMessage('default'))
+      setLoadingId(null)
+    }
+  }
+
+  /**
+   * 連携を解除する
+   */
+  async function handleUnlink(providerId: string) {
+    setLoadingId(providerId)
+    setError(null)
+
+    const result = await unlinkSocialAccount(providerId)
+
+    if (result.error) {
+      setError(result.error)
+    } else {
+      router.refresh()
+    }
+    setLoadingId(null)
+  }
+
+  if (providers.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        現在、連携できるサービスはありません。
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        連携したサービスのアカウントでログインできるようになります。
+      </p>
+
+      <ul className="divide-y border rounded-lg">
+        {providers.map((provider) => {
+          const linked = linkedProviders.includes(provider.id)
+          return (
+            <li key={provider.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div>
+                <p className="font-medium">{provider.label}</p>
+                <p className="text-xs text-muted-foreground">{linked ? '連携済み' : '未連携'}</p>
+              </div>
+              {linked ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleUnlink(provider.id)}
+                  disabled={loadingId !== null || !canUnlink}
+                >
+                  {loadingId === provider.id ? '解除中...' : '連携を解除'}
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => handleLink(provider.id)}
+                  disabled={loadingId !== null}
+                >
+                  {loadingId === provider.id ? '移動中...' : '連携する'}
+                </Button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      {!canUnlink && (
+        <p className="text-xs text-muted-foreground">
+          パスワードが設定されていないため、最後の連携は解除できません。
+          パスワードリセットからパスワードを設定すると解除できるようになります。
+        </p>
+      )}
+
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,7 @@
  * - バックアップコードの表示
  * - 2FAの無効化
  * - バックアップコードの再生成
+ * - パスキーの管理（PasskeySettings）
  *
  * @module components/settings/TwoFactorSettings
  */
@@ -27,6 +28,7 @@ import {
   regenerateBackupCodes,
   get2FAStatus,
 } from '@/lib/actions/two-factor'
+import { PasskeySettings } from '@/components/settings/PasskeySettings'
 
 // ============================================================
 // アイコンコンポーネント
@@ -606,6 +608,9 @@ export function TwoFactorSettings() {
           )}
         </>
       )}
+
+      {/* パスキー */}
+      {setupState === 'idle' && <PasskeySettings twoFactorEnabled={isEnabled} />}
     </div>
   )
 }
@@ -0,0 +1,232 @@
+/**
+ * 親しい友達リスト管理コンポーネント
+ *
+ * このファイルは、親しい友達リストのユーザー、または追加候補のフォロワーを
+ * 一覧表示するコンポーネントを提供します。
+ * 設定ページの親しい友達管理で使用されます。
+ *
+ * ## 機能概要
+ * - ユーザーを一覧表示
+ * - 各ユーザーのアバター、ニックネーム、自己紹介を表示
+ * - リストに含まれるユーザーには「削除」、候補には「追加」ボタンを提供
+ *
+ * ## コンポーネント構成
+ * - CloseFriendList: ユーザー一覧のコンテナ
+ * - CloseFriendItem: 個々のユーザー表示（内部コンポーネント）
+ *
+ * @module components/user/CloseFriendList
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * Next.js Imageコンポーネント
+ * アバター画像の最適化表示
+ */
+import Image from 'next/image'
+
+/**
+ * Next.js Linkコンポーネント
+ * ユーザープロフィールページへのリンク
+ */
+import Link from 'next/link'
+
+/**
+ * shadcn/ui Buttonコンポーネント
+ * 追加・削除ボタンのUI
+ */
+import { Button } from '@/components/ui/button'
+
+/**
+ * 親しい友達リストの追加・削除用Server Actions
+ */
+import { addCloseFriend, removeCloseFriend } from '@/lib/actions/close-friend'
+
+/**
+ * Next.js useRouter Hook
+ * 追加・削除後にページをリフレッシュして一覧を更新するために使用
+ */
+import { useRouter } from 'next/navigation'
+
+/**
+ * トースト通知用カスタムHook
+ * 操作の結果（成功/エラー）をユーザーに通知
+ */
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * React useState Hook
+ * ローディング状態の管理に使用
+ */
+import { useState } from 'react'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * ユーザー情報の型
+ *
+ * @property id - ユーザーの一意識別子
+ * @property nickname - ユーザーの表示名
+ * @property avatarUrl - アバター画像のURL（nullの場合はイニシャル表示）
+ * @property bio - 自己紹介文（nullの場合は非表示）
+ */
+type User = {
+  id: string
+  nickname: string
+  avatarUrl: string | null
+  bio: string | null
+}
+
+/**
+ * CloseFriendListコンポーネントのprops型
+ *
+ * @property users - 表示するユーザー配列
+ * @property isCloseFriend - 親しい友達リストのユーザーか（falseの場合は追加候補）
+ */
+type CloseFriendListProps = {
+  users: User[]
+  isCloseFriend: boolean
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * 親しい友達リスト管理コンポーネント
+ *
+ * @param users - 表示するユーザー配列
+ * @param isCloseFriend - 親しい友達リストのユーザーか
+ *
+ * @example
+ * ```tsx
+ * <CloseFriendList users={closeFriends} isCloseFriend />
+ * <CloseFriendList users={candidates} isCloseFriend={false} />
+ * ```
+ */
+export function CloseFriendList({ users, isCloseFriend }: CloseFriendListProps) {
+  return (
+    <div className="space-y-4">
+      {users.map((user) => (
+        <CloseFriendItem key={user.id} user={user} isCloseFriend={isCloseFriend} />
+      ))}
+    </div>
+  )
+}
+
+// ============================================================
+// 内部コンポーネント
+// ============================================================
+
+/**
+ * 親しい友達アイテムコンポーネント（内部使用）
+ *
+ * ## レイアウト
+ * - 左: アバター + ユーザー情報（縦並び）
+ * - 右: 追加または削除ボタン
+ *
+ * @param user - 表示するユーザー情報
+ * @param isCloseFriend - 親しい友達リストのユーザーか
+ */
+function CloseFriendItem({ user, isCloseFriend }: { user: User; isCloseFriend: boolean }) {
+  // ------------------------------------------------------------
+  // 状態管理
+  // ------------------------------------------------------------
+
+  /**
+   * ローディング状態
+   * Server Action呼び出し中はtrueになり、ボタンが無効化される
+   */
+  const [loading, setLoading] = useState(false)
+
+  const router = useRouter()
+  const { toast } = useToast()
+
+  // ------------------------------------------------------------
+  // イベントハンドラ
+  // ------------------------------------------------------------
+
+  /**
+   * 追加・削除ハンドラ
+   *
+   * リストのユーザーは削除、候補のユーザーは追加し、
+   * 結果をトーストで通知してページをリフレッシュする
+   */
+  async function handleToggle() {
+    setLoading(true)
+
+    const result = isCloseFriend
+      ? await removeCloseFriend(user.id)
+      : await addCloseFriend(user.id)
+
+    if (result.error) {
+      toast({
+        title: 'エラー',
+        description: result.error,
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: isCloseFriend ? '親しい友達から削除しました' : '親しい友達に追加しました',
+        description: `${user.nickname}さん`,
+      })
+    }
+
+    setLoading(false)
+    router.refresh()
+  }
+
+  // ------------------------------------------------------------
+  // レンダリング
+  // ------------------------------------------------------------
+
+  return (
+    <div className="flex items-center justify-between p-4 border rounded-lg">
+      {/* 左側: アバターとユーザー情報 */}
+      <div className="flex items-center gap-3">
+        <Link href={`/users/${user.id}`}>
+          {user.avatarUrl ? (
+            <Image
+              src={user.avatarUrl}
+              alt={user.nickname}
+              width={48}
+              height={48}
+              className="rounded-full"
+            />
+          ) : (
+            <div className="w-12 h-12 rounded-full bg-gray-200 flex items-center justify-center">
+              <span className="text-gray-500 text-lg">
+                {user.nickname[0]?.toUpperCase()}
+              </span>
+            </div>
+          )}
+        </Link>
+
+        <div>
+          <Link href={`/users/${user.id}`}>
+            <p className="font-semibold hover:underline">{user.nickname}</p>
+          </Link>
+          {user.bio && (
+            <p className="text-sm text-gray-600 line-clamp-1">{user.bio}</p>
+          )}
+        </div>
+      </div>
+
+      {/* 右側: 追加・削除ボタン */}
+      <Button
+        onClick={handleToggle}
+        disabled={loading}
+        variant={isCloseFriend ? 'outline' : 'default'}
+        size="sm"
+      >
+        {loading ? '...' : isCloseFriend ? '削除' : '追加'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+/**
+ * データのエクスポートコンポーネント
+ *
+ * このファイルは、アカウントデータの一括ダウンロード（エクスポート）を
+ * 申し込み、準備ができたZIPをダウンロードするためのセクションを提供します。
+ *
+ * ## 機能概要
+ * - エクスポートの申し込み
+ * - 最近の申し込みの処理状況・ダウンロード期限の表示
+ * - ダウンロード（押すたびに期限の短い署名付きURLを発行して遷移）
+ *   データが多く複数のパートに分かれている場合は、パートごとにダウンロードする
+ *
+ * ## 使用場所
+ * - /settings/account アカウント設定ページ
+ *
+ * @module components/user/DataExportSection
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { requestDataExport, getDataExportDownloadUrl } from '@/lib/actions/data-export'
+import {
+  DATA_EXPORT_RETENTION_DAYS,
+  getDataExportStatusLabel,
+} from '@/lib/constants/data-export'
+import { formatFileSize } from '@/lib/client-image-compression'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * データのエクスポートの申し込み
+ */
+interface DataExportItem {
+  id: string
+  status: string
+  completedAt: Date | null
+  expiresAt: Date | null
+  createdAt: Date
+  parts: { partNumber: number; fileSize: number }[]
+}
+
+/**
+ * DataExportSectionコンポーネントのProps型定義
+ */
+interface DataExportSectionProps {
+  /** 最近の申し込み（新しい順） */
+  dataExports: DataExportItem[]
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * データのエクスポートコンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.dataExports - 最近の申し込み
+ */
+export function DataExportSection({ dataExports }: DataExportSectionProps) {
+  const router = useRouter()
+  const [requesting, setRequesting] = useState(false)
+  const [downloadingKey, setDownloadingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [requested, setRequested] = useState(false)
+
+  /**
+   * エクスポートを申し込む
+   */
+  async function handleRequest() {
+    setRequesting(true)
+    setError(null)
+
+    const result = await requestDataExport()
+
+    if (result.error) {
+      setError(result.error)
+    } else {
+      setRequested(true)
+      router.refresh()
+    }
+    setRequesting(false)
+  }
+
+  /**
+   * 署名付きURLを発行してダウンロードする
+   *
+   * @param exportId - 申し込みのID
+   * @param partNumber - パートの番号
+   */
+  async function handleDownload(exportId: string, partNumber: number) {
+    setDownloadingKey(`${exportId}:${partNumber}`)
+    setError(null)
+
+    const result = await getDataExportDownloadUrl(exportId, partNumber)
+
+    if (result.error || !result.url) {
+      setError(result.error ?? 'ダウンロードURLの発行に失敗しました')
+    } else {
+      window.location.assign(result.url)
+    }
+    setDownloadingKey(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        プロフィール、投稿、コメント、盆栽の成長記録、下書き、DMなどのデータと画像を
+        ZIPファイルにまとめてダウンロードできます。準備ができたら通知とメールでお知らせします。
+        ダウンロードできる期間は{DATA_EXPORT_RETENTION_DAYS}日間です。
+      </p>
+
+      <Button variant="outline" onClick={handleRequest} disabled={requesting}>
+        {requesting ? '申し込み中...' : 'データのエクスポートを申し込む'}
+      </Button>
+
+      {requested && (
+        <p className="text-sm text-muted-foreground">
+          申し込みを受け付けました。準備ができたらお知らせします。
+        </p>
+      )}
+
+      {dataExports.length > 0 && (
+        <ul className="divide-y border rounded-lg">
+          {dataExports.map((dataExport) => (
+            <li key={dataExport.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div>
+                <p>
+                  {new Date(dataExport.createdAt).toLocaleDateString('ja-JP')}の申し込み
+                  <span className="ml-2 text-muted-foreground">
+                    {getDataExportStatusLabel(dataExport.status)}
+                  </span>
+                </p>
+                {dataExport.status === 'completed' && dataExport.expiresAt && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(dataExport.parts.reduce((sum, part) => sum + part.fileSize, 0))}・
+                    {new Date(dataExport.expiresAt).toLocaleDateString('ja-JP')}までダウンロードできます
+                  </p>
+                )}
+                {dataExport.status === 'completed' && dataExport.parts.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    {dataExport.parts.length}個のファイルに分かれています。すべて同じフォルダに展開してください
+                  </p>
+                )}
+              </div>
+              {dataExport.status === 'completed' && (
+                <div className="flex flex-wrap justify-end gap-2">
+                  {dataExport.parts.map((part) => {
+                    const key = `${dataExport.id}:${part.partNumber}`
+                    const label = dataExport.parts.length > 1 ? `パート${part.partNumber}` : 'ダウンロード'
+                    return (
+                      <Button
+                        key={part.partNumber}
+                        size="sm"
+                        onClick={() => handleDownload(dataExport.id, part.partNumber)}
+                        disabled={downloadingKey === key}
+                      >
+                        {downloadingKey === key ? '準備中...' : label}
+                      </Button>
+                    )
+                  })}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+/**
+ * アカウントの一時停止ボタンコンポーネント
+ *
+ * このファイルは、ユーザーが自分のアカウントを一時停止するためのボタンを提供します。
+ * 設定ページの危険ゾーンセクションで、アカウント削除の前に表示されます。
+ *
+ * ## 機能概要
+ * - アカウントの一時停止の確認ダイアログ表示
+ * - Server Actionを使用したアカウントの一時停止
+ * - 一時停止後の自動ログアウト
+ * - エラーハンドリングとメッセージ表示
+ *
+ * ## 一時停止中の状態
+ * - プロフィール・投稿・盆栽・レビューが誰にも表示されない
+ * - 有料会員の課金が止まる
+ * - 猶予期間内にログインすると元に戻る
+ * - 猶予期間を過ぎるとアカウントが削除される
+ *
+ * ## 使用場所
+ * - /settings/account アカウント設定ページ
+ *
+ * @module components/user/DeactivateAccountButton
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * React useState Hook
+ * ローディング状態とエラー状態の管理に使用
+ */
+import { useState } from 'react'
+
+/**
+ * NextAuth.js signOut関数
+ * 一時停止後にユーザーをログアウトさせるために使用
+ */
+import { signOut } from 'next-auth/react'
+
+/**
+ * shadcn/ui Buttonコンポーネント
+ * 一時停止ボタンに使用
+ */
+import { Button } from '@/components/ui/button'
+
+/**
+ * shadcn/ui AlertDialogコンポーネント群
+ * 一時停止の確認ダイアログのUI
+ */
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+
+/**
+ * アカウントの一時停止用Server Action
+ */
+import { deactivateAccount } from '@/lib/actions/user'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * DeactivateAccountButtonのProps
+ */
+interface DeactivateAccountButtonProps {
+  /** 一時停止から削除までの猶予期間（日数） */
+  graceDays: number
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * アカウントの一時停止ボタンコンポーネント
+ *
+ * ## 機能
+ * - 「アカウントを一時停止」ボタンをクリックすると確認ダイアログを表示
+ * - 確認ダイアログで「一時停止する」をクリックするとアカウントを一時停止
+ * - 一時停止後は自動的にログアウトしてトップページへリダイレクト
+ * - エラー発生時はエラーメッセージを表示
+ *
+ * @param graceDays - 一時停止から削除までの猶予期間（日数）
+ *
+ * @example
+ * ```tsx
+ * <DeactivateAccountButton graceDays={ACCOUNT_DEACTIVATION_GRACE_DAYS} />
+ * ```
+ */
+export function DeactivateAccountButton({ graceDays }: DeactivateAccountButtonProps) {
+  // ------------------------------------------------------------
+  // 状態管理
+  // ------------------------------------------------------------
+
+  /**
+   * ローディング状態
+   * 一時停止の処理中はtrueになり、一時停止ボタンが無効化される
+   */
+  const [loading, setLoading] = useState(false)
+
+  /**
+   * エラー状態
+   * Server Actionがエラーを返した場合にエラーメッセージを格納
+   */
+  const [error, setError] = useState<string | null>(null)
+
+  // ------------------------------------------------------------
+  // イベントハンドラ
+  // ------------------------------------------------------------
+
+  /**
+   * アカウントの一時停止ハンドラ
+   *
+   * ## 処理フロー
+   * 1. ローディング開始、エラーをクリア
+   * 2. Server Actionを呼び出してアカウントを一時停止
+   * 3. エラー時: エラーメッセージを表示
+   * 4. 成功時: signOutを呼び出してログアウトし、トップページへリダイレクト
+   */
+  async function handleDeactivate() {
+    setLoading(true)
+    setError(null)
+
+    const result = await deactivateAccount()
+
+    if (result.error) {
+      setError(result.error)
+      setLoading(false)
+    } else {
+      await signOut({ callbackUrl: '/' })
+    }
+  }
+
+  // ------------------------------------------------------------
+  // レンダリング
+  // ------------------------------------------------------------
+
+  return (
+    <div className="space-y-3">
+      {/* 一時停止の影響を説明するテキスト */}
+      <p className="text-sm text-muted-foreground">
+        アカウントを一時停止すると、プロフィール・投稿・盆栽・レビューが誰にも表示されなくなり、有料会員の課金も止まります。
+        {graceDays}日以内にログインすると元に戻ります。{graceDays}日を過ぎるとアカウントは削除されます。
+      </p>
+
+      {/* 確認ダイアログ付きの一時停止ボタン */}
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline">アカウントを一時停止</Button>
+        </AlertDialogTrigger>
+
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>アカウントを一時停止しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              すべてのデバイスからログアウトします。{graceDays}日以内にログインしない場合、アカウントは完全に削除されます。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeactivate} disabled={loading}>
+              {loading ? '一時停止中...' : '一時停止する'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* エラーメッセージ（エラーがある場合のみ表示） */}
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -172,6 +172,7 @@ export function DeleteAccountButton() {
       {/* 削除の影響を説明するテキスト */}
       <p className="text-sm text-muted-foreground">
         アカウントを削除すると、すべての投稿、コメント、いいねなどのデータが完全に削除されます。この操作は取り消せません。
+        必要なデータは削除の前にエクスポートしてください。
       </p>
 
       {/* 確認ダイアログ付きの削除ボタン */}
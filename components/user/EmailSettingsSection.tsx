@@ -0,0 +1,175 @@
+/**
+ * メールアドレス設定コンポーネント
+ *
+ * このファイルは、メールアドレスの確認状態の表示と、
+ * メールアドレスの変更を申請するためのセクションを提供します。
+ *
+ * ## 機能概要
+ * - 現在のメールアドレスと確認状態の表示
+ * - 確認メールの再送（未確認の場合）
+ * - メールアドレスの変更申請（変更前・変更後の両方のアドレスで確認）
+ * - 申請中の変更の取り消し
+ *
+ * ## 使用場所
+ * - /settings/account アカウント設定ページ
+ *
+ * @module components/user/EmailSettingsSection
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  cancelEmailChange,
+  requestEmailChange,
+  resendVerificationEmail,
+} from '@/lib/actions/email-verification'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * EmailSettingsSectionコンポーネントのProps型定義
+ */
+interface EmailSettingsSectionProps {
+  /** 現在のメールアドレス */
+  email: string
+  /** メールアドレスが確認済みか */
+  verified: boolean
+  /** 変更を申請中のメールアドレス */
+  pendingEmail: string | null
+}
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * メールアドレス設定コンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ */
+export function EmailSettingsSection({ email, verified, pendingEmail }: EmailSettingsSectionProps) {
+  const router = useRouter()
+  const [newEmail, setNewEmail] = useState('')
+  const [loading, setLoading] = useState<'resend' | 'change' | 'cancel' | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * 確認メールを再送する
+   */
+  async function handleResend() {
+    setLoading('resend')
+    setError(null)
+    setMessage(null)
+
+    const result = await resendVerificationEmail()
+    if (result.error) {
+      setError(result.error)
+    } else {
+      setMessage('確認メールを送信しました。メールのリンクから確認を完了してください。')
+    }
+    setLoading(null)
+  }
+
+  /**
+   * メールアドレスの変更を申請する
+   */
+  async function handleChange(e: React.FormEvent) {
+    e.preventDefault()
+    setLoading('change')
+    setError(null)
+    setMessage(null)
+
+    const result = await requestEmailChange(newEmail)
+    if (result.error) {
+      setError(result.error)
+    } else {
+      setNewEmail('')
+      setMessage('確認メールを送信しました。現在と新しいメールアドレスの両方のリンクで確認すると変更が完了します。')
+      router.refresh()
+    }
+    setLoading(null)
+  }
+
+  /**
+   * 申請中の変更を取り消す
+   */
+  async function handleCancel() {
+    setLoading('cancel')
+    setError(null)
+    setMessage(null)
+
+    const result = await cancelEmailChange()
+    if (result.error) {
+      setError(result.error)
+    } else {
+      router.refresh()
+    }
+    setLoading(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm">
+        <span>{email}</span>
+        {verified ? (
+          <span className="ml-2 text-xs text-primary">確認済み</span>
+        ) : (
+          <span className="ml-2 text-xs text-destructive">未確認</span>
+        )}
+      </div>
+
+      {!verified && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            メールアドレスの確認が済むまで、投稿とメッセージは利用できません。
+          </p>
+          <Button variant="outline" size="sm" onClick={handleResend} disabled={loading !== null}>
+            {loading === 'resend' ? '送信中...' : '確認メールを再送'}
+          </Button>
+        </div>
+      )}
+
+      {pendingEmail && (
+        <div className="flex items-center justify-between gap-3 p-3 border rounded-lg text-sm">
+          <p>
+            <span className="font-medium">{pendingEmail}</span> への変更を確認待ちです
+          </p>
+          <Button variant="ghost" size="sm" onClick={handleCancel} disabled={loading !== null}>
+            {loading === 'cancel' ? '取り消し中...' : '取り消す'}
+          </Button>
+        </div>
+      )}
+
+      <form onSubmit={handleChange} className="flex gap-2">
+        <Input
+          type="email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+          placeholder="新しいメールアドレス"
+          aria-label="新しいメールアドレス"
+          required
+        />
+        <Button type="submit" variant="outline" disabled={loading !== null || !newEmail}>
+          {loading === 'change' ? '送信中...' : '変更する'}
+        </Button>
+      </form>
+
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+/**
+ * 項目ごとの公開範囲の設定コンポーネント
+ *
+ * このファイルは、盆栽コレクション・いいねした投稿・フォロー・フォロワー一覧・居住地域の
+ * 公開範囲と、メッセージを受け付ける相手を選ぶフォームを提供します。
+ * 設定ページのプライバシー設定セクションで、公開/非公開の切り替えの下に表示されます。
+ *
+ * ## 機能概要
+ * - 項目ごとに公開範囲（全員・フォロワーのみ・自分のみ）を選択
+ * - メッセージを受け付ける相手（全員・フォロワーのみ・相互フォローのみ・受け付けない）を選択
+ * - 選択を変更するとServer Actionを使用してすぐに保存
+ *
+ * ## 使用場所
+ * - /settings/account アカウント設定ページ
+ *
+ * @module components/user/PrivacySettingsSection
+ */
+
+'use client'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * React useState Hook
+ * 選択中の値、保存中の項目、エラー状態の管理に使用
+ */
+import { useState } from 'react'
+
+/**
+ * Next.js useRouter Hook
+ * 設定変更後にページをリフレッシュして最新状態を反映するために使用
+ */
+import { useRouter } from 'next/navigation'
+
+/**
+ * shadcn/ui Labelコンポーネント
+ * フォーム要素のラベル表示
+ */
+import { Label } from '@/components/ui/label'
+
+/**
+ * 項目ごとの公開範囲の更新用Server Action
+ */
+import { updatePrivacySettings } from '@/lib/actions/user'
+
+/**
+ * 公開範囲を設定できる項目と選択肢の定義
+ */
+import {
+  DM_PERMISSION_OPTIONS,
+  PRIVACY_AREAS,
+  VISIBILITY_OPTIONS,
+} from '@/lib/constants/privacy'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 項目ごとの公開範囲とメッセージを受け付ける相手の設定値
+ */
+type PrivacySettings = {
+  bonsaiVisibility: string
+  likesVisibility: string
+  followsVisibility: string
+  locationVisibility: string
+  dmPermission: string
+}
+
+/**
+ * PrivacySettingsSectionコンポーネントのprops型
+ *
+ * @property initialSettings - 現在の設定値
+ */
+type PrivacySettingsSectionProps = {
+  initialSettings: PrivacySettings
+}
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * セレクトボックスのスタイル
+ */
+const selectClassName =
+  'h-9 px-3 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50'
+
+// ============================================================
+// メインコンポーネント
+// ============================================================
+
+/**
+ * 項目ごとの公開範囲の設定コンポーネント
+ *
+ * ## 機能
+ * - 項目ごとのセレクトボックスで公開範囲を選択
+ * - 選択を変更するとその項目だけをServer Actionで保存
+ * - 保存中はその項目のセレクトボックスを無効化
+ * - エラー時は選択を元に戻してエラーメッセージを表示
+ *
+ * @param initialSettings - 現在の設定値
+ *
+ * @example
+ * ```tsx
+ * <PrivacySettingsSection
+ *   initialSettings={{
+ *     bonsaiVisibility: user.bonsaiVisibility,
+ *     likesVisibility: user.likesVisibility,
+ *     followsVisibility: user.followsVisibility,
+ *     locationVisibility: user.locationVisibility,
+ *     dmPermission: user.dmPermission,
+ *   }}
+ * />
+ * ```
+ */
+export function PrivacySettingsSection({ initialSettings }: PrivacySettingsSectionProps) {
+  // ------------------------------------------------------------
+  // 状態管理
+  // ------------------------------------------------------------
+
+  /**
+   * 選択中の設定値
+   */
+  const [settings, setSettings] = useState<PrivacySettings>(initialSettings)
+
+  /**
+   * 保存中の項目
+   * 保存中の項目のセレクトボックスは無効化される
+   */
+  const [savingKey, setSavingKey] = useState<keyof PrivacySettings | null>(null)
+
+  /**
+   * エラー状態
+   * Server Actionがエラーを返した場合にエラーメッセージを格納
+   */
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Next.jsルーター
+   * 設定変更後にページをリフレッシュするために使用
+   */
+  const router = useRouter()
+
+  // ------------------------------------------------------------
+  // イベントハンドラ
+  // ------------------------------------------------------------
+
+  /**
+   * 選択の変更ハンドラ
+   *
+   * ## 処理フロー
+   * 1. 選択を先に反映し、保存中の項目を記録
+   * 2. Server Actionを呼び出して変更した項目だけを保存
+   * 3. 成功時: ページをリフレッシュ
+   * 4. エラー時: 選択を元に戻してエラーメッセージを表示
+   *
+   * @param key - 変更した項目
+   * @param value - 新しい値
+   */
+  async function handleChange(key: keyof PrivacySettings, value: string) {
+    const previous = settings[key]
+
+    setSettings((current) => ({ ...current, [key]: value }))
+    setSavingKey(key)
+    setError(null)
+
+    const result = await updatePrivacySettings({ [key]: value })
+
+    if (result.error) {
+      setSettings((current) => ({ ...current, [key]: previous }))
+      setError(result.error)
+    } else {
+      router.refresh()
+    }
+
+    setSavingKey(null)
+  }
+
+  // ------------------------------------------------------------
+  // レンダリング
+  // ------------------------------------------------------------
+
+  return (
+    <div className="space-y-3">
+      {/* 説明文 */}
+      <p className="text-sm text-muted-foreground">
+        項目ごとに見せる相手を選べます。投稿は公開のまま、盆栽コレクションだけを非公開にすることもできます。
+      </p>
+
+      {/* 項目ごとの公開範囲 */}
+      {PRIVACY_AREAS.map((area) => (
+        <div key={area.key} className="flex items-center justify-between gap-4">
+          <Label htmlFor={`privacy-${area.key}`}>{area.label}</Label>
+          <select
+            id={`privacy-${area.key}`}
+            value={settings[area.key]}
+            onChange={(e) => handleChange(area.key, e.target.value)}
+            disabled={savingKey === area.key}
+            className={selectClassName}
+          >
+            {VISIBILITY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      {/* メッセージを受け付ける相手 */}
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="privacy-dmPermission">メッセージを受け付ける相手</Label>
+        <select
+          id="privacy-dmPermission"
+          value={settings.dmPermission}
+          onChange={(e) => handleChange('dmPermission', e.target.value)}
+          disabled={savingKey === 'dmPermission'}
+          className={selectClassName}
+        >
+          {DM_PERMISSION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* エラーメッセージ（エラーがある場合のみ表示） */}
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+    </div>
+  )
+}
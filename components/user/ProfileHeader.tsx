@@ -61,6 +61,12 @@ import { BlockButton } from './BlockButton'
  */
 import { MuteButton } from './MuteButton'
 
+/**
+ * リストに追加ボタンコンポーネント
+ * 他ユーザーを自分のリストに追加/削除する
+ */
+import { AddToListButton } from '@/components/list/AddToListButton'
+
 /**
  * メッセージボタンコンポーネント
  * 他ユーザーにダイレクトメッセージを送信する
@@ -393,6 +399,7 @@ export function ProfileHeader({ user, isOwner, isFollowing, isBlocked, isMuted,
                 isPublic={user.isPublic}
                 initialHasRequest={hasFollowRequest ?? false}
               />
+              <AddToListButton userId={user.id} />
               <MuteButton
                 userId={user.id}
                 nickname={user.nickname}
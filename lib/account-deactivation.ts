@@ -0,0 +1,138 @@
+/**
+ * アカウントの一時停止
+ *
+ * アカウントを削除せずに利用を止め、あとから元に戻せるようにします。
+ *
+ * ## 一時停止中のアカウント
+ * - プロフィール・投稿・盆栽・レビューを誰にも表示しない
+ *   （lib/actions/filter-helper の getExcludedUserIds の deactivated オプション）
+ * - すべてのデバイスからログアウトする
+ * - 有料会員の課金を止める（Stripeのサブスクリプションの請求を一時停止）
+ *
+ * ## 元に戻す・削除する
+ * - 猶予期間内にログインすると、課金を再開してから一時停止を解除する（lib/user-session）
+ * - 猶予期間を過ぎたアカウントはログインできず、Cronジョブが完全に削除する
+ *   （/api/cron/delete-deactivated-accounts）
+ *
+ * @module lib/account-deactivation
+ */
+
+import { prisma } from '@/lib/db'
+import { stripe } from '@/lib/stripe'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 一時停止から削除までの猶予期間（日数）
+ */
+export const ACCOUNT_DEACTIVATION_GRACE_DAYS = 30
+
+// ============================================================
+// 猶予期間
+// ============================================================
+
+/**
+ * 一時停止したアカウントが削除される日時を求める
+ *
+ * @param deactivatedAt - 一時停止した日時
+ * @returns 削除される日時
+ */
+export function getAccountDeletionDate(deactivatedAt: Date): Date {
+  return new Date(deactivatedAt.getTime() + ACCOUNT_DEACTIVATION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * 猶予期間を過ぎたとみなす一時停止日時の境界を求める
+ *
+ * この日時より前に一時停止したアカウントは削除の対象です。
+ *
+ * @param now - 基準の日時
+ * @returns 境界の日時
+ */
+export function getDeactivationCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - ACCOUNT_DEACTIVATION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * 一時停止の猶予期間を過ぎたか判定する
+ *
+ * 猶予期間を過ぎたアカウントは削除を待つだけのため、
+ * Cronジョブが削除する前でもログインさせない。
+ *
+ * @param deactivatedAt - 一時停止した日時（一時停止中でなければ null）
+ * @param now - 基準の日時
+ * @returns 猶予期間を過ぎていれば true
+ */
+export function isDeactivationExpired(deactivatedAt: Date | null, now: Date = new Date()): boolean {
+  return deactivatedAt !== null && deactivatedAt < getDeactivationCutoff(now)
+}
+
+// ============================================================
+// 課金の一時停止・再開
+// ============================================================
+
+/**
+ * サブスクリプションの請求を一時停止する
+ *
+ * 請求書は作成されますが、支払いは求めずに無効にします（pause_collection: void）。
+ * サブスクリプション自体は有効なままのため、会員の状態は変わりません。
+ *
+ * @param subscriptionId - StripeのサブスクリプションID
+ */
+export async function pauseSubscriptionBilling(subscriptionId: string): Promise<void> {
+  await stripe.subscriptions.update(subscriptionId, {
+    pause_collection: { behavior: 'void' },
+  })
+}
+
+/**
+ * サブスクリプションの請求を再開する
+ *
+ * @param subscriptionId - StripeのサブスクリプションID
+ */
+export async function resumeSubscriptionBilling(subscriptionId: string): Promise<void> {
+  await stripe.subscriptions.update(subscriptionId, {
+    pause_collection: '',
+  })
+}
+
+// ============================================================
+// 一時停止の解除
+// ============================================================
+
+/**
+ * 一時停止中のアカウントであれば元に戻す
+ *
+ * ログイン時に呼び出します。一時停止中でなければ何もしません。
+ * 猶予期間を過ぎたアカウントは元に戻しません（削除の対象のまま）。
+ *
+ * 課金を再開できた場合のみ一時停止を解除します。
+ * 再開に失敗した場合は例外を投げ、一時停止中のまま次回のログインで再度試みます
+ * （解除だけが成功すると、請求が止まったまま有料会員の機能を使えてしまうため）。
+ *
+ * @param userId - ユーザーID
+ * @returns 一時停止を解除した場合は true
+ */
+export async function reactivateAccount(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { deactivatedAt: true, stripeSubscriptionId: true },
+  })
+
+  if (!user?.deactivatedAt || isDeactivationExpired(user.deactivatedAt)) {
+    return false
+  }
+
+  if (user.stripeSubscriptionId) {
+    await resumeSubscriptionBilling(user.stripeSubscriptionId)
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deactivatedAt: null },
+  })
+
+  return true
+}
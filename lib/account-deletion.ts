@@ -0,0 +1,84 @@
+/**
+ * アカウントの削除
+ *
+ * ユーザーとその関連データを完全に削除します。
+ *
+ * ## 呼び出し元
+ * - アカウントの削除（lib/actions/user の deleteAccount）
+ * - 一時停止の猶予期間を過ぎたアカウントの削除（/api/cron/delete-deactivated-accounts）
+ *
+ * Server Actions から直接呼び出せないよう、'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/account-deletion
+ */
+
+import { prisma } from '@/lib/db'
+import { deletePrivateFile } from '@/lib/storage'
+import { stripe } from '@/lib/stripe'
+
+/**
+ * ユーザーとその関連データを削除する
+ *
+ * ## 削除される関連データ
+ * Prismaのカスケード削除により、投稿・コメント・いいね・ブックマーク・
+ * フォロー関係・通知などが削除されます。
+ *
+ * 有料会員のサブスクリプションは、課金が続かないよう先に解約します。
+ * データのエクスポートで作成したZIPはストレージ上のファイルのため、
+ * ユーザーの削除後に個別に削除します。
+ *
+ * @param userId - 削除するユーザーのID
+ * @throws サブスクリプションの解約またはデータベースの削除に失敗した場合
+ */
+export async function deleteUserAccount(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { stripeSubscriptionId: true },
+  })
+
+  if (user?.stripeSubscriptionId) {
+    await stripe.subscriptions.cancel(user.stripeSubscriptionId)
+  }
+
+  // ユーザーの削除でレコードが消える前に、エクスポートしたZIPのキーを控えておく
+  const dataExportParts = await prisma.dataExportPart.findMany({
+    where: { dataExport: { userId } },
+    select: { fileKey: true },
+  })
+
+  await prisma.$transaction(async (tx) => {
+    // UserAnalytics を明示的に削除（リレーションが後から追加されたため）
+    await tx.userAnalytics.deleteMany({
+      where: { userId },
+    })
+
+    // メッセージ関連
+    await tx.message.deleteMany({
+      where: { senderId: userId },
+    })
+
+    await tx.conversationParticipant.deleteMany({
+      where: { userId },
+    })
+
+    // 通知関連（actor として送った通知も削除）
+    await tx.notification.deleteMany({
+      where: {
+        OR: [
+          { userId },
+          { actorId: userId },
+        ],
+      },
+    })
+
+    // ユーザーを削除（カスケード削除で残りのデータも削除される）
+    await tx.user.delete({
+      where: { id: userId },
+    })
+  })
+
+  // ファイルの削除に失敗してもアカウントの削除は完了しているため、結果は待つだけにする
+  await Promise.allSettled(
+    dataExportParts.map((part) => deletePrivateFile(part.fileKey))
+  )
+}
@@ -47,6 +47,12 @@ import { auth } from '@/lib/auth'
  */
 import { revalidatePath } from 'next/cache'
 
+/**
+ * セキュリティログ関数
+ * 管理者でないユーザーによる操作を記録するために使用
+ */
+import { logUnauthorizedAccess } from '@/lib/security-logger'
+
 // ============================================================
 // 内部関数：権限チェック
 // ============================================================
@@ -95,6 +101,7 @@ async function checkAdminPermission() {
   })
 
   if (!adminUser) {
+    logUnauthorizedAccess('admin_action', undefined, session.user.id)
     throw new Error('管理者権限が必要です')
   }
 
@@ -848,6 +855,144 @@ export async function getAdminLogs(options?: {
   return { logs, total }
 }
 
+// ============================================================
+// セキュリティログ
+// ============================================================
+
+/**
+ * セキュリティイベント一覧を取得
+ *
+ * ## 機能概要
+ * ログイン・パスワードリセット・2段階認証の変更などのセキュリティイベントを
+ * 新しい順で取得します（lib/security-logger.ts が保存したもの）。
+ *
+ * ## パラメータ
+ * @param options.type - イベントの種類でフィルター
+ * @param options.severity - 重大度でフィルター
+ * @param options.userId - ユーザーでフィルター
+ * @param options.ip - IPアドレスでフィルター
+ * @param options.limit - 取得件数（デフォルト: 50）
+ * @param options.offset - オフセット（ページネーション用）
+ *
+ * ## 戻り値
+ * @returns { events, total } - イベント一覧（ユーザーのニックネーム付き）と総件数
+ *
+ * ## ユーザー情報
+ * ユーザーの削除後も記録を残すため userId はリレーションにしていません。
+ * ニックネームは別に取得し、削除済みのユーザーは user: null になります。
+ */
+export async function getSecurityEvents(options?: {
+  type?: string
+  severity?: string
+  userId?: string
+  ip?: string
+  limit?: number
+  offset?: number
+}) {
+  await checkAdminPermission()
+
+  const { type, severity, userId, ip, limit = 50, offset = 0 } = options || {}
+
+  const where = {
+    ...(type && { type }),
+    ...(severity && { severity }),
+    ...(userId && { userId }),
+    ...(ip && { ip }),
+  }
+
+  const [events, total] = await Promise.all([
+    prisma.securityEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.securityEvent.count({ where }),
+  ])
+
+  const userIds = [...new Set(events.map((event) => event.userId).filter((id): id is string => !!id))]
+  const users = userIds.length > 0
+    ? await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, nickname: true },
+      })
+    : []
+  const userMap = new Map(users.map((user) => [user.id, user]))
+
+  return {
+    events: events.map((event) => ({
+      ...event,
+      user: event.userId ? userMap.get(event.userId) ?? null : null,
+    })),
+    total,
+  }
+}
+
+/**
+ * ユーザーのセキュリティイベントが記録されたIPアドレスを集計
+ *
+ * ## 用途
+ * セキュリティログをユーザーで絞り込んだときに、
+ * そのユーザーがどのIPアドレスからアクセスしていたかを確認するために使用します。
+ *
+ * @param userId - ユーザーID
+ * @returns IPアドレスごとのイベント数と最終日時（多い順に最大20件）
+ */
+export async function getSecurityEventIpsForUser(userId: string) {
+  await checkAdminPermission()
+
+  const groups = await prisma.securityEvent.groupBy({
+    by: ['ip'],
+    where: { userId, ip: { not: null } },
+    _count: { _all: true },
+    _max: { createdAt: true },
+    orderBy: { _count: { ip: 'desc' } },
+    take: 20,
+  })
+
+  return groups.map((group) => ({
+    ip: group.ip as string,
+    count: group._count._all,
+    lastSeenAt: group._max.createdAt,
+  }))
+}
+
+/**
+ * IPアドレスからセキュリティイベントが記録されたユーザーを集計
+ *
+ * ## 用途
+ * セキュリティログをIPアドレスで絞り込んだときに、
+ * 同じIPアドレスから複数のアカウントが狙われていないかを確認するために使用します。
+ *
+ * @param ip - IPアドレス
+ * @returns ユーザーごとのイベント数と最終日時（多い順に最大20件）
+ */
+export async function getSecurityEventUsersForIp(ip: string) {
+  await checkAdminPermission()
+
+  const groups = await prisma.securityEvent.groupBy({
+    by: ['userId'],
+    where: { ip, userId: { not: null } },
+    _count: { _all: true },
+    _max: { createdAt: true },
+    orderBy: { _count: { userId: 'desc' } },
+    take: 20,
+  })
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: groups.map((group) => group.userId as string) } },
+    select: { id: true, nickname: true },
+  })
+  const userMap = new Map(users.map((user) => [user.id, user]))
+
+  return groups.map((group) => ({
+    userId: group.userId as string,
+    user: userMap.get(group.userId as string) ?? null,
+    count: group._count._all,
+    lastSeenAt: group._max.createdAt,
+  }))
+}
+
 // ============================================================
 // 権限チェック（ページ用）
 // ============================================================
@@ -7,7 +7,7 @@
  * ## 機能概要
  * - ログイン試行のレート制限
  * - ログイン失敗の記録
- * - ユーザー登録
+ * - ユーザー登録（メールアドレスの確認メールを送信）
  * - パスワードリセット（メール送信・実行・トークン検証）
  *
  * ## セキュリティ機能
@@ -103,6 +103,7 @@ import {
   logRegisterSuccess,
   logPasswordResetRequest,
   logPasswordResetSuccess,
+  logRateLimitExceeded,
 } from '@/lib/security-logger'
 
 /**
@@ -117,6 +118,18 @@ import { rateLimit } from '@/lib/rate-limit'
  */
 import { isEmailBlacklisted, isDeviceBlacklisted } from '@/lib/actions/blacklist'
 
+/**
+ * メールアドレスの確認メール送信関数
+ * 登録直後の確認に使用
+ */
+import { sendEmailVerification } from '@/lib/email-verification'
+
+/**
+ * ログインの通知関数
+ * ログイン制限時に持ち主へ知らせるために使用
+ */
+import { notifyLoginLockout } from '@/lib/login-alert'
+
 // ============================================================
 // IPアドレス取得（内部関数）
 // ============================================================
@@ -287,6 +300,15 @@ export async function recordLoginFailure(email: string) {
    */
   if (!result.allowed) {
     logLoginLockout(sanitizedEmail, ip)
+
+    /**
+     * アカウントの持ち主に通知（失敗してもログイン画面の応答は変えない）
+     */
+    try {
+      await notifyLoginLockout(sanitizedEmail, ip === 'unknown' ? null : ip)
+    } catch (error) {
+      logger.error('Login lockout alert error:', error)
+    }
   }
 
   return {
@@ -338,7 +360,12 @@ export async function clearLoginAttempts(email: string) {
  * 1. メールアドレスの重複チェック
  * 2. パスワードのハッシュ化
  * 3. ユーザー作成
- * 4. セキュリティログに記録
+ * 4. メールアドレスの確認メールを送信
+ * 5. セキュリティログに記録
+ *
+ * ## メールアドレスの確認
+ * 確認が済むまで投稿とメッセージは利用できません。
+ * 確認メールの送信に失敗しても登録は完了し、アカウント設定から再送できます。
  *
  * ## パスワードハッシュ化
  * bcryptを使用し、ソルトラウンド10で安全にハッシュ化
@@ -443,6 +470,19 @@ export async function registerUser(data: {
     },
   })
 
+  // ------------------------------------------------------------
+  // メールアドレスの確認メールを送信
+  // ------------------------------------------------------------
+
+  try {
+    const sent = await sendEmailVerification(user)
+    if (!sent) {
+      logger.error('Failed to send verification email:', user.id)
+    }
+  } catch (error) {
+    logger.error('Send verification email error:', error)
+  }
+
   // ------------------------------------------------------------
   // セキュリティログに記録
   // ------------------------------------------------------------
@@ -508,6 +548,7 @@ export async function requestPasswordReset(email: string) {
   })
 
   if (!rateLimitResult.success) {
+    logRateLimitExceeded('password_reset', ip)
     return { error: 'パスワードリセットの要求が多すぎます。しばらく経ってからお試しください。' }
   }
 
@@ -724,12 +765,14 @@ export async function resetPassword(data: {
 
   /**
    * 新しいパスワードをハッシュ化
+   *
+   * 「心当たりがないログイン」の報告で止めていたパスワードでのログインも再開する
    */
   const hashedPassword = await bcrypt.hash(newPassword, 10)
 
   await prisma.user.update({
     where: { id: user.id },
-    data: { password: hashedPassword },
+    data: { password: hashedPassword, passwordResetRequired: false },
   })
 
   // ------------------------------------------------------------
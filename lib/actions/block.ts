@@ -11,7 +11,7 @@
  * - ブロック状態の確認
  *
  * ## ブロックの効果
- * 1. 相互フォローが解除される
+ * 1. 相互フォローと親しい友達リストへの登録が解除される
  * 2. 相手の投稿がタイムラインに表示されない
  * 3. 相手の検索結果に表示されない
  * 4. 相手からの通知を受け取らない
@@ -142,6 +142,40 @@ export async function blockUser(targetUserId: string) {
           ],
         },
       }),
+      /**
+       * 親しい友達リストから双方向に削除
+       *
+       * フォロー解除と同様に、ブロック後は限定公開の投稿も見られないようにする
+       */
+      prisma.closeFriend.deleteMany({
+        where: {
+          OR: [
+            { userId: session.user.id, friendId: targetUserId },
+            { userId: targetUserId, friendId: session.user.id },
+          ],
+        },
+      }),
+      /**
+       * お互いのリストから双方向に削除
+       *
+       * 相手のリストのメンバー・フォロワーからも外す
+       */
+      prisma.userListMember.deleteMany({
+        where: {
+          OR: [
+            { list: { ownerId: session.user.id }, userId: targetUserId },
+            { list: { ownerId: targetUserId }, userId: session.user.id },
+          ],
+        },
+      }),
+      prisma.userListFollow.deleteMany({
+        where: {
+          OR: [
+            { list: { ownerId: session.user.id }, userId: targetUserId },
+            { list: { ownerId: targetUserId }, userId: session.user.id },
+          ],
+        },
+      }),
       /**
        * ブロックレコード作成
        */
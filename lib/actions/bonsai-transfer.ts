@@ -0,0 +1,520 @@
+/**
+ * 盆栽の譲渡機能のServer Actions
+ *
+ * このファイルは、盆栽の所有者を別のユーザーに変更する
+ * 譲渡（申し込み・承諾・辞退・取り消し）と、来歴の取得を提供します。
+ *
+ * ## 譲渡のフロー
+ * 1. 所有者が譲渡先のユーザー（と任意で経由した盆栽園）を指定して申し込む
+ * 2. BonsaiTransfer レコードが作成され（status: pending）、譲渡先に通知が届く
+ * 3. 譲渡先が承諾すると Bonsai.userId が譲渡先に変わる
+ *    - 成長記録（BonsaiRecord）は盆栽に紐づいているため、そのまま引き継がれる
+ *    - お手入れ予定は前の所有者のものなので削除する
+ * 4. 譲渡先が辞退、または所有者が取り消すと、申し込みは終了する
+ *
+ * ## 来歴
+ * 承諾された譲渡の履歴（前の所有者・日付・盆栽園）は、
+ * 盆栽詳細ページで誰でも閲覧できます。
+ *
+ * @module lib/actions/bonsai-transfer
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * Next.jsのキャッシュ再検証関数
+ * 譲渡後に盆栽ページを更新するために使用
+ */
+import { revalidatePath } from 'next/cache'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+/**
+ * ユーザー単位のレート制限
+ * 譲渡の申し込みの連続送信を防ぐために使用
+ */
+import { checkUserRateLimit } from '@/lib/rate-limit'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 譲渡メモの最大文字数
+ */
+const MAX_NOTE_LENGTH = 200
+
+/**
+ * 来歴・申し込みで表示するユーザー情報
+ */
+const transferUserSelect = { id: true, nickname: true, avatarUrl: true } as const
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * 2人のユーザー間にブロック関係があるかを確認
+ *
+ * @param userIdA - ユーザーA
+ * @param userIdB - ユーザーB
+ * @returns どちらかがブロックしている場合は true
+ */
+async function isBlockedBetween(userIdA: string, userIdB: string): Promise<boolean> {
+  const block = await prisma.block.findFirst({
+    where: {
+      OR: [
+        { blockerId: userIdA, blockedId: userIdB },
+        { blockerId: userIdB, blockedId: userIdA },
+      ],
+    },
+  })
+  return !!block
+}
+
+// ============================================================
+// 譲渡の申し込み
+// ============================================================
+
+/**
+ * 盆栽の譲渡を申し込む
+ *
+ * ## 処理フロー
+ * 1. 認証・レート制限チェック
+ * 2. 盆栽の所有者であることを確認
+ * 3. 譲渡先の確認（自分以外・存在する・停止されていない・ブロック関係がない）
+ * 4. 申し込み中の譲渡がないことを確認（1つの盆栽につき1件まで）
+ * 5. 盆栽園の確認（指定時のみ）
+ * 6. 申し込みを作成し、譲渡先に通知
+ *
+ * @param bonsaiId - 譲渡する盆栽のID
+ * @param data - 譲渡先ユーザーID、経由した盆栽園ID、メモ
+ * @returns 作成した申し込み、または { error: string }
+ *
+ * @example
+ * ```typescript
+ * await offerBonsaiTransfer('bonsai-123', { toUserId: 'user-456', shopId: 'shop-1' })
+ * ```
+ */
+export async function offerBonsaiTransfer(
+  bonsaiId: string,
+  data: { toUserId: string; shopId?: string | null; note?: string }
+) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const currentUserId = session.user.id
+
+  if (data.toUserId === currentUserId) {
+    return { error: '自分自身には譲渡できません' }
+  }
+
+  const note = data.note?.trim() || null
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return { error: `メモは${MAX_NOTE_LENGTH}文字以内で入力してください` }
+  }
+
+  const rateLimitResult = await checkUserRateLimit(currentUserId, 'engagement')
+  if (!rateLimitResult.success) {
+    return { error: '操作が多すぎます。しばらく待ってから再試行してください' }
+  }
+
+  try {
+    // ------------------------------------------------------------
+    // 所有者チェック
+    // ------------------------------------------------------------
+
+    const bonsai = await prisma.bonsai.findFirst({
+      where: { id: bonsaiId, userId: currentUserId },
+    })
+
+    if (!bonsai) {
+      return { error: '盆栽が見つかりません' }
+    }
+
+    // ------------------------------------------------------------
+    // 譲渡先の確認
+    // ------------------------------------------------------------
+
+    const recipient = await prisma.user.findUnique({
+      where: { id: data.toUserId },
+      select: { id: true, isSuspended: true },
+    })
+
+    if (!recipient || recipient.isSuspended) {
+      return { error: '譲渡先のユーザーが見つかりません' }
+    }
+
+    if (await isBlockedBetween(currentUserId, recipient.id)) {
+      return { error: 'このユーザーには譲渡を申し込めません' }
+    }
+
+    // ------------------------------------------------------------
+    // 申し込み中の譲渡の確認
+    // ------------------------------------------------------------
+
+    const pending = await prisma.bonsaiTransfer.findFirst({
+      where: { bonsaiId, status: 'pending' },
+    })
+
+    if (pending) {
+      return { error: 'この盆栽は既に譲渡を申し込み中です' }
+    }
+
+    // ------------------------------------------------------------
+    // 盆栽園の確認
+    // ------------------------------------------------------------
+
+    if (data.shopId) {
+      const shop = await prisma.bonsaiShop.findFirst({
+        where: { id: data.shopId, isHidden: false },
+        select: { id: true },
+      })
+      if (!shop) {
+        return { error: '盆栽園が見つかりません' }
+      }
+    }
+
+    // ------------------------------------------------------------
+    // 申し込みの作成と通知
+    // ------------------------------------------------------------
+
+    const transfer = await prisma.bonsaiTransfer.create({
+      data: {
+        bonsaiId,
+        fromUserId: currentUserId,
+        toUserId: recipient.id,
+        shopId: data.shopId || null,
+        note,
+      },
+    })
+
+    await prisma.notification.create({
+      data: {
+        userId: recipient.id,
+        actorId: currentUserId,
+        type: 'bonsai_transfer',
+        bonsaiId,
+      },
+    })
+
+    revalidatePath(`/bonsai/${bonsaiId}`)
+
+    return { transfer }
+  } catch (error) {
+    logger.error('Offer bonsai transfer error:', error)
+    return { error: '譲渡の申し込みに失敗しました' }
+  }
+}
+
+// ============================================================
+// 譲渡の承諾
+// ============================================================
+
+/**
+ * 承諾のトランザクション中に申し込みが無効になっていたことを表すエラー
+ *
+ * トランザクションをロールバックするために投げる。
+ */
+class InvalidTransferError extends Error {}
+
+/**
+ * 盆栽の譲渡を承諾する
+ *
+ * ## 処理内容（トランザクション）
+ * - 申し込みを承諾済みにする
+ * - 盆栽の所有者を自分に変更し、入手日を承諾日にする
+ * - 前の所有者のお手入れ予定を削除する
+ * - 前の所有者に通知する
+ *
+ * 申し込み後に所有者が変わっていた場合（別の経路で譲渡済みなど）は承諾できない。
+ * 確認から更新までの間に取り消し・辞退や所有者の変更があった場合も、
+ * トランザクション内の条件付き更新で検出してロールバックする。
+ *
+ * @param transferId - 申し込みID
+ * @returns 成功時は { success: true, bonsaiId }、失敗時は { error: string }
+ */
+export async function acceptBonsaiTransfer(transferId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const currentUserId = session.user.id
+
+  try {
+    const transfer = await prisma.bonsaiTransfer.findFirst({
+      where: { id: transferId, toUserId: currentUserId, status: 'pending' },
+      include: { bonsai: { select: { id: true, userId: true } } },
+    })
+
+    if (!transfer) {
+      return { error: '譲渡の申し込みが見つかりません' }
+    }
+
+    if (!transfer.fromUserId || transfer.bonsai.userId !== transfer.fromUserId) {
+      return { error: 'この申し込みは無効になっています' }
+    }
+
+    const now = new Date()
+
+    const fromUserId = transfer.fromUserId
+
+    await prisma.$transaction(async (tx) => {
+      // 確認後に取り消し・辞退された申し込みや、所有者が変わった盆栽は更新しない
+      const accepted = await tx.bonsaiTransfer.updateMany({
+        where: { id: transferId, toUserId: currentUserId, status: 'pending' },
+        data: { status: 'accepted', respondedAt: now },
+      })
+      if (accepted.count === 0) {
+        throw new InvalidTransferError()
+      }
+
+      const moved = await tx.bonsai.updateMany({
+        where: { id: transfer.bonsaiId, userId: fromUserId },
+        data: { userId: currentUserId, acquiredAt: now },
+      })
+      if (moved.count === 0) {
+        throw new InvalidTransferError()
+      }
+
+      await tx.bonsaiCareTask.deleteMany({
+        where: { bonsaiId: transfer.bonsaiId },
+      })
+      await tx.notification.create({
+        data: {
+          userId: fromUserId,
+          actorId: currentUserId,
+          type: 'bonsai_transfer_accepted',
+          bonsaiId: transfer.bonsaiId,
+        },
+      })
+    })
+
+    revalidatePath('/bonsai')
+    revalidatePath('/bonsai/transfers')
+    revalidatePath(`/bonsai/${transfer.bonsaiId}`)
+
+    return { success: true, bonsaiId: transfer.bonsaiId }
+  } catch (error) {
+    if (error instanceof InvalidTransferError) {
+      return { error: 'この申し込みは無効になっています' }
+    }
+    logger.error('Accept bonsai transfer error:', error)
+    return { error: '譲渡の承諾に失敗しました' }
+  }
+}
+
+// ============================================================
+// 譲渡の辞退
+// ============================================================
+
+/**
+ * 盆栽の譲渡を辞退する
+ *
+ * フォローリクエストの拒否と同様、申し込んだ側には通知しない。
+ *
+ * @param transferId - 申し込みID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function declineBonsaiTransfer(transferId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const transfer = await prisma.bonsaiTransfer.findFirst({
+      where: { id: transferId, toUserId: session.user.id, status: 'pending' },
+    })
+
+    if (!transfer) {
+      return { error: '譲渡の申し込みが見つかりません' }
+    }
+
+    await prisma.bonsaiTransfer.update({
+      where: { id: transferId },
+      data: { status: 'declined', respondedAt: new Date() },
+    })
+
+    revalidatePath('/bonsai/transfers')
+    revalidatePath(`/bonsai/${transfer.bonsaiId}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Decline bonsai transfer error:', error)
+    return { error: '譲渡の辞退に失敗しました' }
+  }
+}
+
+// ============================================================
+// 譲渡の取り消し
+// ============================================================
+
+/**
+ * 申し込んだ譲渡を取り消す
+ *
+ * 譲渡先に届いた申し込みの通知も削除する。
+ *
+ * @param transferId - 申し込みID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function cancelBonsaiTransfer(transferId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const transfer = await prisma.bonsaiTransfer.findFirst({
+      where: { id: transferId, fromUserId: session.user.id, status: 'pending' },
+    })
+
+    if (!transfer) {
+      return { error: '譲渡の申し込みが見つかりません' }
+    }
+
+    await prisma.$transaction([
+      prisma.bonsaiTransfer.update({
+        where: { id: transferId },
+        data: { status: 'cancelled', respondedAt: new Date() },
+      }),
+      prisma.notification.deleteMany({
+        where: {
+          userId: transfer.toUserId ?? undefined,
+          actorId: session.user.id,
+          type: 'bonsai_transfer',
+          bonsaiId: transfer.bonsaiId,
+        },
+      }),
+    ])
+
+    revalidatePath(`/bonsai/${transfer.bonsaiId}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Cancel bonsai transfer error:', error)
+    return { error: '譲渡の取り消しに失敗しました' }
+  }
+}
+
+// ============================================================
+// 申し込みの取得
+// ============================================================
+
+/**
+ * 盆栽の申し込み中の譲渡を取得（所有者用）
+ *
+ * @param bonsaiId - 盆栽ID
+ * @returns 申し込み中の譲渡（譲渡先の情報付き）、なければ null
+ */
+export async function getPendingBonsaiTransfer(bonsaiId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { transfer: null }
+  }
+
+  try {
+    const transfer = await prisma.bonsaiTransfer.findFirst({
+      where: { bonsaiId, fromUserId: session.user.id, status: 'pending' },
+      include: { toUser: { select: transferUserSelect } },
+    })
+
+    return { transfer }
+  } catch (error) {
+    logger.error('Get pending bonsai transfer error:', error)
+    return { transfer: null }
+  }
+}
+
+/**
+ * 自分宛ての申し込み中の譲渡一覧を取得
+ *
+ * @returns 申し込み一覧（盆栽・譲渡元・盆栽園の情報付き、新しい順）
+ */
+export async function getReceivedBonsaiTransfers() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { transfers: [] }
+  }
+
+  try {
+    const transfers = await prisma.bonsaiTransfer.findMany({
+      where: { toUserId: session.user.id, status: 'pending' },
+      include: {
+        bonsai: {
+          select: {
+            id: true,
+            name: true,
+            species: true,
+            _count: { select: { records: true } },
+          },
+        },
+        fromUser: { select: transferUserSelect },
+        shop: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return { transfers }
+  } catch (error) {
+    logger.error('Get received bonsai transfers error:', error)
+    return { transfers: [] }
+  }
+}
+
+// ============================================================
+// 来歴の取得
+// ============================================================
+
+/**
+ * 盆栽の来歴（承諾された譲渡の履歴）を取得
+ *
+ * 来歴は公開情報のため、認証なしで取得できる。
+ *
+ * @param bonsaiId - 盆栽ID
+ * @returns 来歴（古い順、譲渡元・譲渡先・盆栽園の情報付き）
+ */
+export async function getBonsaiProvenance(bonsaiId: string) {
+  try {
+    const transfers = await prisma.bonsaiTransfer.findMany({
+      where: { bonsaiId, status: 'accepted' },
+      include: {
+        fromUser: { select: transferUserSelect },
+        toUser: { select: transferUserSelect },
+        shop: { select: { id: true, name: true } },
+      },
+      orderBy: { respondedAt: 'asc' },
+    })
+
+    return { transfers }
+  } catch (error) {
+    logger.error('Get bonsai provenance error:', error)
+    return { transfers: [] }
+  }
+}
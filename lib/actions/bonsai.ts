@@ -11,14 +11,19 @@
  * - 成長記録の追加・更新・削除
  * - 盆栽タイムラインの取得
  *
+ * ## 公開範囲
+ * 盆栽コレクションは所有者の公開範囲（User.bonsaiVisibility）に従って表示します。
+ * 公開範囲外の盆栽は、一覧・詳細・タイムラインのいずれにも表示されません。
+ *
  * ## 盆栽管理とは
  * ユーザーが所有する盆栽を登録し、
  * 成長記録（写真・メモ）を時系列で管理する機能です。
  *
  * ## データ構造
  * - Bonsai: 盆栽本体（名前、樹種、入手日など）
- * - BonsaiRecord: 成長記録（日付、内容、画像）
+ * - BonsaiRecord: 成長記録（種類、日付、内容、作業の詳細、画像）
  * - BonsaiRecordImage: 記録に添付された画像
+ * - BonsaiSpecies: 樹種マスタ（自由記述の樹種から名前・別名で照合）
  *
  * @module lib/actions/bonsai
  */
@@ -60,6 +65,46 @@ import logger from '@/lib/logger'
 import { rateLimit, RATE_LIMITS } from '@/lib/rate-limit'
 import { headers } from 'next/headers'
 
+/**
+ * セキュリティログ関数
+ * レート制限の超過を記録
+ */
+import { logRateLimitExceeded } from '@/lib/security-logger'
+
+/**
+ * 成長記録の種類と詳細項目の定義
+ */
+import {
+  BONSAI_RECORD_DETAIL_FIELDS,
+  BONSAI_RECORD_DETAIL_KEYS,
+  isBonsaiRecordType,
+  type BonsaiRecordDetails,
+} from '@/lib/constants/bonsai-record'
+
+/**
+ * 樹種名の照合候補の作成（表記揺れの吸収）
+ */
+import { buildSpeciesNameVariants, toHiragana } from '@/lib/constants/bonsai-species'
+
+/**
+ * 盆栽コレクションの公開範囲による絞り込み
+ */
+import { buildVisibleUserWhere } from '@/lib/privacy'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 詳細項目（テキスト）の最大文字数
+ */
+const MAX_DETAIL_TEXT_LENGTH = 100
+
+/**
+ * 詳細項目（計測値）の上限（cm）
+ */
+const MAX_MEASUREMENT_CM = 1000
+
 // ============================================================
 // ヘルパー関数
 // ============================================================
@@ -79,6 +124,77 @@ async function getClientIpFromHeaders(): Promise<string> {
   return 'unknown'
 }
 
+/**
+ * 記録の種類に応じて詳細項目を検証・整形
+ *
+ * 記録の種類で使わない項目は null にする。
+ * 種類を変更した際に、前の種類の詳細が残らないようにするため。
+ *
+ * @param type - 記録の種類
+ * @param details - 入力された詳細
+ * @returns 保存用のデータ、または { error: string }
+ */
+function buildRecordDetailData(
+  type: string,
+  details: BonsaiRecordDetails = {}
+): { data: Required<BonsaiRecordDetails> } | { error: string } {
+  if (!isBonsaiRecordType(type)) {
+    return { error: '記録の種類が不正です' }
+  }
+
+  const data = Object.fromEntries(
+    BONSAI_RECORD_DETAIL_KEYS.map((key) => [key, null])
+  ) as Required<BonsaiRecordDetails>
+
+  for (const field of BONSAI_RECORD_DETAIL_FIELDS[type]) {
+    const value = details[field.key]
+    if (value === undefined || value === null || value === '') continue
+
+    if (field.kind === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > MAX_MEASUREMENT_CM) {
+        return { error: `${field.label}は正しい数値で入力してください` }
+      }
+      ;(data as Record<string, number | string | null>)[field.key] = value
+    } else {
+      const text = String(value).trim()
+      if (text.length > MAX_DETAIL_TEXT_LENGTH) {
+        return { error: `${field.label}は${MAX_DETAIL_TEXT_LENGTH}文字以内で入力してください` }
+      }
+      ;(data as Record<string, number | string | null>)[field.key] = text || null
+    }
+  }
+
+  return { data }
+}
+
+/**
+ * 自由記述の樹種名を樹種マスタと照合
+ *
+ * 和名・読み・別名はひらがな・カタカナの両方の表記で、学名は大文字小文字を
+ * 区別せずに照合する。一致する樹種がない場合は null（自由記述のみ保存）。
+ *
+ * @param species - 樹種名（自由記述）
+ * @returns 樹種マスタのID、または null
+ */
+async function resolveSpeciesId(species: string | null | undefined): Promise<string | null> {
+  const variants = buildSpeciesNameVariants(species ?? '')
+  if (variants.length === 0) return null
+
+  const matched = await prisma.bonsaiSpecies.findFirst({
+    where: {
+      OR: [
+        { name: { in: variants } },
+        { nameKana: { in: variants } },
+        { scientificName: { equals: variants[0], mode: 'insensitive' } },
+        { aliases: { hasSome: variants } },
+      ],
+    },
+    select: { id: true },
+  })
+
+  return matched?.id ?? null
+}
+
 // ============================================================
 // 盆栽一覧取得
 // ============================================================
@@ -89,6 +205,7 @@ async function getClientIpFromHeaders(): Promise<string> {
  * ## 機能概要
  * 指定されたユーザーの盆栽一覧を取得します。
  * ユーザーIDを省略した場合は現在のユーザーの盆栽を取得。
+ * 他のユーザーの盆栽は、盆栽コレクションの公開範囲内の場合のみ取得します。
  *
  * ## 取得内容
  * - 盆栽基本情報
@@ -129,8 +246,17 @@ export async function getBonsais(userId?: string) {
     // 盆栽一覧を取得
     // ------------------------------------------------------------
 
+    /**
+     * 一時停止中のユーザーの盆栽と、公開範囲外の盆栽は表示しない
+     */
     const bonsais = await prisma.bonsai.findMany({
-      where: { userId: targetUserId },
+      where: {
+        userId: targetUserId,
+        user: {
+          deactivatedAt: null,
+          ...buildVisibleUserWhere('bonsaiVisibility', session?.user?.id),
+        },
+      },
       include: {
         /**
          * 最新の成長記録を1件取得
@@ -174,6 +300,7 @@ export async function getBonsais(userId?: string) {
  *
  * ## 機能概要
  * 指定された盆栽IDの詳細情報を取得します。
+ * 所有者の盆栽コレクションの公開範囲外の場合は、見つからないものとして扱います。
  *
  * ## 取得内容
  * - 盆栽基本情報（名前、樹種、入手日、説明）
@@ -193,13 +320,24 @@ export async function getBonsais(userId?: string) {
  * ```
  */
 export async function getBonsai(bonsaiId: string) {
+  const session = await auth()
+
   try {
     // ------------------------------------------------------------
     // 盆栽詳細を取得
     // ------------------------------------------------------------
 
+    /**
+     * 一時停止中のユーザーの盆栽と、公開範囲外の盆栽は表示しない
+     */
     const bonsai = await prisma.bonsai.findUnique({
-      where: { id: bonsaiId },
+      where: {
+        id: bonsaiId,
+        user: {
+          deactivatedAt: null,
+          ...buildVisibleUserWhere('bonsaiVisibility', session?.user?.id),
+        },
+      },
       include: {
         /**
          * 所有者情報
@@ -207,6 +345,12 @@ export async function getBonsai(bonsaiId: string) {
         user: {
           select: { id: true, nickname: true, avatarUrl: true },
         },
+        /**
+         * 樹種マスタ（樹種図鑑へのリンク用）
+         */
+        catalogSpecies: {
+          select: { id: true, slug: true, name: true },
+        },
         /**
          * 全成長記録（新しい順）
          */
@@ -253,6 +397,8 @@ export async function getBonsai(bonsaiId: string) {
  * - acquiredAt: 入手日（任意）
  * - description: 説明（任意）
  *
+ * 樹種は樹種マスタの名前・読み・学名・別名と照合し、一致すれば紐付ける
+ *
  * @param data - 盆栽データ
  * @returns 作成された盆栽、または { error: string }
  *
@@ -290,6 +436,7 @@ export async function createBonsai(data: {
         userId: session.user.id,
         name: data.name,
         species: data.species,
+        speciesId: await resolveSpeciesId(data.species),
         acquiredAt: data.acquiredAt,
         description: data.description,
       },
@@ -320,6 +467,8 @@ export async function createBonsai(data: {
  * ## 所有者チェック
  * 自分の盆栽のみ更新可能
  *
+ * 樹種を変更した場合は樹種マスタと照合し直す
+ *
  * @param bonsaiId - 盆栽ID
  * @param data - 更新データ
  * @returns 更新された盆栽、または { error: string }
@@ -376,6 +525,7 @@ export async function updateBonsai(
       data: {
         name: data.name,
         species: data.species,
+        speciesId: data.species !== undefined ? await resolveSpeciesId(data.species) : undefined,
         acquiredAt: data.acquiredAt,
         description: data.description,
       },
@@ -476,8 +626,10 @@ export async function deleteBonsai(bonsaiId: string) {
  * 盆栽に新しい成長記録を追加します。
  *
  * ## 記録内容
+ * - type: 記録の種類（省略時は 'general'）
  * - content: 記録テキスト
  * - recordAt: 記録日時
+ * - details: 作業の詳細（用土・肥料・計測値など、種類に応じた項目のみ保存）
  * - imageUrls: 添付画像のURL配列
  *
  * ## 所有者チェック
@@ -494,12 +646,21 @@ export async function deleteBonsai(bonsaiId: string) {
  *   recordAt: new Date(),
  *   imageUrls: ['/uploads/photo1.jpg', '/uploads/photo2.jpg'],
  * })
+ *
+ * // 植え替えの記録
+ * await addBonsaiRecord({
+ *   bonsaiId: 'bonsai-123',
+ *   type: 'repotting',
+ *   details: { soilMix: '赤玉土7・桐生砂3', potSize: '5号' },
+ * })
  * ```
  */
 export async function addBonsaiRecord(data: {
   bonsaiId: string
+  type?: string
   content?: string
   recordAt?: Date
+  details?: BonsaiRecordDetails
   imageUrls?: string[]
 }) {
   // ------------------------------------------------------------
@@ -510,6 +671,15 @@ export async function addBonsaiRecord(data: {
     return { error: '認証が必要です' }
   }
 
+  // ------------------------------------------------------------
+  // 記録の種類と詳細の検証
+  // ------------------------------------------------------------
+  const type = data.type || 'general'
+  const detailResult = buildRecordDetailData(type, data.details)
+  if ('error' in detailResult) {
+    return { error: detailResult.error }
+  }
+
   try {
     // ------------------------------------------------------------
     // 盆栽の所有者確認
@@ -533,7 +703,9 @@ export async function addBonsaiRecord(data: {
     const record = await prisma.bonsaiRecord.create({
       data: {
         bonsaiId: data.bonsaiId,
+        type,
         content: data.content,
+        ...detailResult.data,
         /**
          * recordAt が指定されていなければ現在日時
          */
@@ -580,6 +752,10 @@ export async function addBonsaiRecord(data: {
  * ## 画像の更新
  * 画像URLが指定された場合、既存の画像を削除して新規作成
  *
+ * ## 種類・詳細の更新
+ * type または details が指定された場合、詳細項目を種類に合わせて再設定
+ * （種類を変更すると、前の種類の詳細はクリアされる）
+ *
  * ## 所有者チェック
  * 自分の盆栽の記録のみ更新可能
  *
@@ -598,8 +774,10 @@ export async function addBonsaiRecord(data: {
 export async function updateBonsaiRecord(
   recordId: string,
   data: {
+    type?: string
     content?: string
     recordAt?: Date
+    details?: BonsaiRecordDetails
     imageUrls?: string[]
   }
 ) {
@@ -628,6 +806,27 @@ export async function updateBonsaiRecord(
       return { error: '成長記録が見つかりません' }
     }
 
+    // ------------------------------------------------------------
+    // 記録の種類と詳細の検証
+    // ------------------------------------------------------------
+
+    /**
+     * 種類のみ変更した場合も詳細を種類に合わせるため、
+     * details 未指定時は既存の値を引き継いで再構築する
+     */
+    let detailData: Required<BonsaiRecordDetails> | undefined
+    if (data.type !== undefined || data.details !== undefined) {
+      const type = data.type ?? existing.type
+      const currentDetails = Object.fromEntries(
+        BONSAI_RECORD_DETAIL_KEYS.map((key) => [key, existing[key]])
+      ) as BonsaiRecordDetails
+      const detailResult = buildRecordDetailData(type, data.details ?? currentDetails)
+      if ('error' in detailResult) {
+        return { error: detailResult.error }
+      }
+      detailData = detailResult.data
+    }
+
     // ------------------------------------------------------------
     // 画像を削除して再作成
     // ------------------------------------------------------------
@@ -646,8 +845,10 @@ export async function updateBonsaiRecord(
     const record = await prisma.bonsaiRecord.update({
       where: { id: recordId },
       data: {
+        type: data.type,
         content: data.content,
         recordAt: data.recordAt,
+        ...detailData,
         /**
          * 新しい画像を作成
          */
@@ -780,6 +981,7 @@ export async function deleteBonsaiRecord(recordId: string) {
  */
 export async function getBonsaiTimeline(options: { cursor?: string; limit?: number } = {}) {
   const { cursor, limit = 20 } = options
+  const session = await auth()
 
   try {
     // ------------------------------------------------------------
@@ -787,6 +989,17 @@ export async function getBonsaiTimeline(options: { cursor?: string; limit?: numb
     // ------------------------------------------------------------
 
     const records = await prisma.bonsaiRecord.findMany({
+      /**
+       * 一時停止中のユーザーの盆栽と、公開範囲外の盆栽の記録を除外
+       */
+      where: {
+        bonsai: {
+          user: {
+            deactivatedAt: null,
+            ...buildVisibleUserWhere('bonsaiVisibility', session?.user?.id),
+          },
+        },
+      },
       take: limit,
       /**
        * カーソルベースページネーション
@@ -862,6 +1075,7 @@ export async function getBonsaiRecords(
   options: { cursor?: string; limit?: number } = {}
 ) {
   const { cursor, limit = 20 } = options
+  const session = await auth()
 
   try {
     // ------------------------------------------------------------
@@ -869,7 +1083,13 @@ export async function getBonsaiRecords(
     // ------------------------------------------------------------
 
     const records = await prisma.bonsaiRecord.findMany({
-      where: { bonsaiId },
+      /**
+       * 公開範囲外の盆栽の記録は取得しない
+       */
+      where: {
+        bonsaiId,
+        bonsai: { user: buildVisibleUserWhere('bonsaiVisibility', session?.user?.id) },
+      },
       take: limit,
       /**
        * カーソルベースページネーション
@@ -917,6 +1137,7 @@ export async function getBonsaiRecords(
  * ## 検索対象
  * - 盆栽の名前（name）
  * - 樹種（species）
+ * - 樹種マスタの和名・読み・学名・別名（「クロマツ」で「黒松」の盆栽も見つかる）
  * - 説明（description）
  *
  * ## セキュリティ
@@ -946,6 +1167,7 @@ export async function searchBonsais(query: string) {
   const clientIp = await getClientIpFromHeaders()
   const rateLimitResult = await rateLimit(`search:bonsai:${clientIp}`, RATE_LIMITS.search)
   if (!rateLimitResult.success) {
+    logRateLimitExceeded('search', clientIp, session.user.id)
     return {
       bonsais: [],
       error: '検索リクエストが多すぎます。しばらく待ってから再試行してください',
@@ -987,6 +1209,16 @@ export async function searchBonsais(query: string) {
               mode: 'insensitive',
             },
           },
+          {
+            catalogSpecies: {
+              OR: [
+                { name: { contains: trimmedQuery } },
+                { nameKana: { contains: toHiragana(trimmedQuery) } },
+                { scientificName: { contains: trimmedQuery, mode: 'insensitive' } },
+                { aliases: { hasSome: buildSpeciesNameVariants(trimmedQuery) } },
+              ],
+            },
+          },
           {
             description: {
               contains: trimmedQuery,
@@ -0,0 +1,189 @@
+/**
+ * 季節のお手入れカレンダー機能のServer Actions
+ *
+ * このファイルは、ユーザーの居住地域と自分の盆栽の樹種から、
+ * 月ごと・今週のお手入れ（作業と対象の盆栽）を求める処理を提供します。
+ *
+ * ## 仕組み
+ * 1. User.location から気候区分（寒冷地〜亜熱帯）を求める
+ *    - 未設定・海外の場合は温暖地として扱う
+ * 2. 樹種マスタに紐づく自分の盆栽を取得する
+ * 3. 樹種の分類・樹種ごとの作業の適期を気候区分でずらし、期間に重なる作業を返す
+ *
+ * 作業の定義と適期の計算は lib/constants/care-calendar.ts を参照。
+ *
+ * @module lib/actions/care-calendar
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+/**
+ * お手入れカレンダーの作業定義と適期の計算
+ */
+import {
+  DEFAULT_CARE_CLIMATE_ZONE,
+  getCareClimateZone,
+  getCareEntriesInPeriod,
+  isCareEntryForSpecies,
+} from '@/lib/constants/care-calendar'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 「今週」とする日数（今日を含む）
+ */
+const WEEK_DAYS = 7
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * 期間に行うお手入れを、対象の盆栽とあわせて取得
+ *
+ * @param userId - ユーザーID
+ * @param from - 期間の開始日
+ * @param to - 期間の終了日
+ * @returns 気候区分・作業一覧・樹種が未登録の盆栽の数
+ */
+async function buildCareCalendar(userId: string, from: Date, to: Date) {
+  const [user, bonsais] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { location: true },
+    }),
+    prisma.bonsai.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        name: true,
+        catalogSpecies: { select: { slug: true, name: true, category: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ])
+
+  const matchedZone = getCareClimateZone(user?.location)
+  const zone = matchedZone ?? DEFAULT_CARE_CLIMATE_ZONE
+
+  // 樹種マスタに紐づく盆栽のみカレンダーの対象にする
+  const linkedBonsais = bonsais.flatMap((bonsai) =>
+    bonsai.catalogSpecies ? [{ id: bonsai.id, name: bonsai.name, species: bonsai.catalogSpecies }] : []
+  )
+
+  const items = getCareEntriesInPeriod(
+    from,
+    to,
+    zone,
+    linkedBonsais.map((b) => b.species)
+  ).map(({ entry, start, end }) => ({
+    id: entry.id,
+    label: entry.label,
+    recordType: entry.recordType,
+    note: entry.note,
+    start,
+    end,
+    bonsais: linkedBonsais
+      .filter((b) => isCareEntryForSpecies(entry, b.species))
+      .map((b) => ({ id: b.id, name: b.name, speciesName: b.species.name })),
+  }))
+
+  return {
+    zone: { value: zone.value, label: zone.label },
+    location: matchedZone ? user?.location ?? null : null,
+    items,
+    unlinkedBonsaiCount: bonsais.length - linkedBonsais.length,
+  }
+}
+
+// ============================================================
+// 月ごとのお手入れ
+// ============================================================
+
+/**
+ * 指定した月のお手入れカレンダーを取得
+ *
+ * @param options - 年・月（省略時は今月）
+ * @returns 気候区分・作業一覧、または { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await getMonthlyCareCalendar({ year: 2026, month: 3 })
+ * // result.items: [{ label: '植え替え', start, end, bonsais: [...] }, ...]
+ * ```
+ */
+export async function getMonthlyCareCalendar(options: { year?: number; month?: number } = {}) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const now = new Date()
+  const year = options.year ?? now.getFullYear()
+  const month = options.month ?? now.getMonth() + 1
+
+  if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+    return { error: '月の指定が不正です' }
+  }
+
+  try {
+    const from = new Date(year, month - 1, 1)
+    const to = new Date(year, month, 0)
+    const calendar = await buildCareCalendar(session.user.id, from, to)
+    return { year, month, ...calendar }
+  } catch (error) {
+    logger.error('Get monthly care calendar error:', error)
+    return { error: 'お手入れカレンダーの取得に失敗しました' }
+  }
+}
+
+// ============================================================
+// 今週のお手入れ
+// ============================================================
+
+/**
+ * 今週（今日から7日間）のお手入れを取得
+ *
+ * 右サイドバーの「今週のお手入れ」カードで使用します。
+ *
+ * @returns 気候区分・作業一覧、または { error: string }
+ */
+export async function getWeeklyCareCalendar() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const from = new Date()
+    const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + WEEK_DAYS - 1)
+    return await buildCareCalendar(session.user.id, from, to)
+  } catch (error) {
+    logger.error('Get weekly care calendar error:', error)
+    return { error: 'お手入れカレンダーの取得に失敗しました' }
+  }
+}
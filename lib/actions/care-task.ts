@@ -0,0 +1,522 @@
+/**
+ * 盆栽のお手入れ予定機能のServer Actions
+ *
+ * このファイルは、盆栽ごとのお手入れ予定（ケアタスク）に関する
+ * サーバーサイドの処理を提供します。
+ *
+ * ## 機能概要
+ * - お手入れ予定の一覧取得（盆栽ごと / 近日中の全予定）
+ * - お手入れ予定の登録・更新・削除
+ * - お手入れ予定の完了（成長記録の自動作成と次回期日の設定）
+ *
+ * ## 通知
+ * 期日が来た予定は Cron ジョブ（/api/cron/care-reminders）が
+ * アプリ内通知と、希望者にはメールで知らせます。
+ *
+ * @module lib/actions/care-task
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * Next.jsのキャッシュ再検証関数
+ * 予定の変更後に盆栽ページを更新するために使用
+ */
+import { revalidatePath } from 'next/cache'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+/**
+ * お手入れ予定の定数とヘルパー
+ */
+import {
+  CARE_TASK_RECORD_TYPES,
+  CARE_TASK_TYPE_LABELS,
+  MAX_CARE_TASK_INTERVAL_DAYS,
+  MAX_CARE_TASKS_PER_BONSAI,
+  calculateNextDueAt,
+  isCareTaskType,
+  type CareTaskType,
+} from '@/lib/constants/care-task'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * メモの最大文字数
+ */
+const MAX_NOTE_LENGTH = 500
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * お手入れ予定の入力データ
+ *
+ * @property type - 作業種別
+ * @property dueAt - 期日
+ * @property intervalDays - 繰り返し間隔（日数）、null は1回のみ
+ * @property note - メモ
+ * @property emailReminder - 期日にメールでも知らせるか
+ */
+type CareTaskInput = {
+  type: string
+  dueAt: Date
+  intervalDays?: number | null
+  note?: string
+  emailReminder?: boolean
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * 入力データを検証
+ *
+ * @param data - 検証するデータ（更新時は一部のみ）
+ * @returns エラーメッセージ、問題なければ null
+ */
+function validateCareTaskInput(data: Partial<CareTaskInput>): string | null {
+  if (data.type !== undefined && !isCareTaskType(data.type)) {
+    return '作業の種類が不正です'
+  }
+
+  if (data.dueAt !== undefined && (!(data.dueAt instanceof Date) || isNaN(data.dueAt.getTime()))) {
+    return '期日を正しく入力してください'
+  }
+
+  if (data.intervalDays !== undefined && data.intervalDays !== null) {
+    if (
+      !Number.isInteger(data.intervalDays) ||
+      data.intervalDays < 1 ||
+      data.intervalDays > MAX_CARE_TASK_INTERVAL_DAYS
+    ) {
+      return `繰り返し間隔は1〜${MAX_CARE_TASK_INTERVAL_DAYS}日で指定してください`
+    }
+  }
+
+  if (data.note && data.note.length > MAX_NOTE_LENGTH) {
+    return `メモは${MAX_NOTE_LENGTH}文字以内で入力してください`
+  }
+
+  return null
+}
+
+/**
+ * 自分のお手入れ予定を取得
+ *
+ * @param taskId - 予定ID
+ * @param userId - ログインユーザーID
+ * @returns 予定、見つからないか他人の予定の場合は null
+ */
+async function findOwnCareTask(taskId: string, userId: string) {
+  return prisma.bonsaiCareTask.findFirst({
+    where: { id: taskId, userId },
+  })
+}
+
+// ============================================================
+// お手入れ予定一覧取得
+// ============================================================
+
+/**
+ * 盆栽のお手入れ予定を取得
+ *
+ * ## 機能概要
+ * 指定した盆栽の有効なお手入れ予定を期日の近い順に取得します。
+ * お手入れ予定は所有者本人のみ閲覧できます。
+ *
+ * @param bonsaiId - 盆栽ID
+ * @returns 予定一覧、または { error: string }
+ *
+ * @example
+ * ```typescript
+ * const { tasks } = await getCareTasks('bonsai-123')
+ * ```
+ */
+export async function getCareTasks(bonsaiId: string) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const tasks = await prisma.bonsaiCareTask.findMany({
+      where: {
+        bonsaiId,
+        userId: session.user.id,
+        isActive: true,
+      },
+      orderBy: { dueAt: 'asc' },
+    })
+
+    return { tasks }
+  } catch (error) {
+    logger.error('Get care tasks error:', error)
+    return { error: 'お手入れ予定の取得に失敗しました' }
+  }
+}
+
+/**
+ * 近日中のお手入れ予定を取得
+ *
+ * ## 機能概要
+ * 自分の全盆栽について、期限切れのものを含めて
+ * 指定日数以内に期日が来る予定を取得します。
+ * 盆栽一覧ページの「お手入れ予定」に使用します。
+ *
+ * @param days - 何日先までの予定を取得するか（デフォルト: 7日）
+ * @returns 予定一覧（盆栽情報付き）
+ *
+ * @example
+ * ```typescript
+ * const { tasks } = await getUpcomingCareTasks()
+ * ```
+ */
+export async function getUpcomingCareTasks(days: number = 7) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { tasks: [] }
+  }
+
+  try {
+    const until = new Date()
+    until.setHours(23, 59, 59, 999)
+    until.setDate(until.getDate() + days)
+
+    const tasks = await prisma.bonsaiCareTask.findMany({
+      where: {
+        userId: session.user.id,
+        isActive: true,
+        dueAt: { lte: until },
+      },
+      include: {
+        bonsai: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { dueAt: 'asc' },
+      take: 50,
+    })
+
+    return { tasks }
+  } catch (error) {
+    logger.error('Get upcoming care tasks error:', error)
+    return { tasks: [] }
+  }
+}
+
+// ============================================================
+// お手入れ予定登録
+// ============================================================
+
+/**
+ * お手入れ予定を登録
+ *
+ * ## 機能概要
+ * 自分の盆栽にお手入れ予定を追加します。
+ *
+ * ## 制限
+ * - 1盆栽あたり20件まで
+ * - 繰り返し間隔は1〜365日
+ *
+ * @param bonsaiId - 盆栽ID
+ * @param data - 予定データ
+ * @returns 作成された予定、または { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await createCareTask('bonsai-123', {
+ *   type: 'wire_removal',
+ *   dueAt: new Date('2026-11-01'),
+ *   note: '一の枝の食い込みに注意',
+ *   emailReminder: true,
+ * })
+ * ```
+ */
+export async function createCareTask(bonsaiId: string, data: CareTaskInput) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  // ------------------------------------------------------------
+  // バリデーション
+  // ------------------------------------------------------------
+  const validationError = validateCareTaskInput(data)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  try {
+    // ------------------------------------------------------------
+    // 盆栽の所有者確認
+    // ------------------------------------------------------------
+
+    const bonsai = await prisma.bonsai.findFirst({
+      where: { id: bonsaiId, userId: session.user.id },
+    })
+
+    if (!bonsai) {
+      return { error: '盆栽が見つかりません' }
+    }
+
+    // ------------------------------------------------------------
+    // 件数制限チェック
+    // ------------------------------------------------------------
+
+    const taskCount = await prisma.bonsaiCareTask.count({
+      where: { bonsaiId, isActive: true },
+    })
+
+    if (taskCount >= MAX_CARE_TASKS_PER_BONSAI) {
+      return { error: `お手入れ予定は1つの盆栽につき${MAX_CARE_TASKS_PER_BONSAI}件までです` }
+    }
+
+    // ------------------------------------------------------------
+    // 予定を作成
+    // ------------------------------------------------------------
+
+    const task = await prisma.bonsaiCareTask.create({
+      data: {
+        bonsaiId,
+        userId: session.user.id,
+        type: data.type,
+        dueAt: data.dueAt,
+        intervalDays: data.intervalDays ?? null,
+        note: data.note?.trim() || null,
+        emailReminder: data.emailReminder ?? false,
+      },
+    })
+
+    revalidatePath(`/bonsai/${bonsaiId}`)
+    return { task }
+  } catch (error) {
+    logger.error('Create care task error:', error)
+    return { error: 'お手入れ予定の登録に失敗しました' }
+  }
+}
+
+// ============================================================
+// お手入れ予定更新
+// ============================================================
+
+/**
+ * お手入れ予定を更新
+ *
+ * ## 機能概要
+ * 期日・繰り返し間隔・メモ・メール通知の設定を変更します。
+ * 期日を変更した場合は、新しい期日で改めて通知されます。
+ *
+ * @param taskId - 予定ID
+ * @param data - 更新データ
+ * @returns 更新された予定、または { error: string }
+ *
+ * @example
+ * ```typescript
+ * await updateCareTask('task-123', { dueAt: new Date('2026-11-08') })
+ * ```
+ */
+export async function updateCareTask(taskId: string, data: Partial<CareTaskInput>) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  // ------------------------------------------------------------
+  // バリデーション
+  // ------------------------------------------------------------
+  const validationError = validateCareTaskInput(data)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  try {
+    const existing = await findOwnCareTask(taskId, session.user.id)
+    if (!existing) {
+      return { error: 'お手入れ予定が見つかりません' }
+    }
+
+    const task = await prisma.bonsaiCareTask.update({
+      where: { id: taskId },
+      data: {
+        type: data.type,
+        dueAt: data.dueAt,
+        intervalDays: data.intervalDays,
+        note: data.note !== undefined ? data.note.trim() || null : undefined,
+        emailReminder: data.emailReminder,
+        /**
+         * 期日を変更した場合は通知済みフラグをリセット
+         */
+        ...(data.dueAt && { lastNotifiedAt: null }),
+      },
+    })
+
+    revalidatePath(`/bonsai/${existing.bonsaiId}`)
+    return { task }
+  } catch (error) {
+    logger.error('Update care task error:', error)
+    return { error: 'お手入れ予定の更新に失敗しました' }
+  }
+}
+
+// ============================================================
+// お手入れ予定削除
+// ============================================================
+
+/**
+ * お手入れ予定を削除
+ *
+ * @param taskId - 予定ID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await deleteCareTask('task-123')
+ * ```
+ */
+export async function deleteCareTask(taskId: string) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const existing = await findOwnCareTask(taskId, session.user.id)
+    if (!existing) {
+      return { error: 'お手入れ予定が見つかりません' }
+    }
+
+    await prisma.bonsaiCareTask.delete({ where: { id: taskId } })
+
+    revalidatePath(`/bonsai/${existing.bonsaiId}`)
+    return { success: true }
+  } catch (error) {
+    logger.error('Delete care task error:', error)
+    return { error: 'お手入れ予定の削除に失敗しました' }
+  }
+}
+
+// ============================================================
+// お手入れ予定完了
+// ============================================================
+
+/**
+ * お手入れ予定を完了
+ *
+ * ## 機能概要
+ * 予定を完了し、作業内容を成長記録として自動で残します。
+ *
+ * ## 完了後の扱い
+ * - 繰り返し予定: 完了日から intervalDays 日後を次回期日に設定
+ * - 1回のみの予定: 無効化（一覧から消える）
+ *
+ * @param taskId - 予定ID
+ * @param options - comment: 成長記録に添えるコメント
+ * @returns 作成された成長記録と次回期日、または { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await completeCareTask('task-123', { comment: '液肥を1000倍で' })
+ * if (result.nextDueAt) {
+ *   toast.success(`次回: ${result.nextDueAt.toLocaleDateString('ja-JP')}`)
+ * }
+ * ```
+ */
+export async function completeCareTask(taskId: string, options: { comment?: string } = {}) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  if (options.comment && options.comment.length > MAX_NOTE_LENGTH) {
+    return { error: `コメントは${MAX_NOTE_LENGTH}文字以内で入力してください` }
+  }
+
+  try {
+    const existing = await findOwnCareTask(taskId, session.user.id)
+    if (!existing || !existing.isActive) {
+      return { error: 'お手入れ予定が見つかりません' }
+    }
+
+    // ------------------------------------------------------------
+    // 成長記録の作成と予定の更新
+    // ------------------------------------------------------------
+
+    const now = new Date()
+    const nextDueAt = calculateNextDueAt(now, existing.intervalDays)
+
+    /**
+     * 成長記録の本文
+     * 「【水やり】」のように作業種別を先頭に付け、コメントかメモを続ける
+     */
+    const label = CARE_TASK_TYPE_LABELS[existing.type as CareTaskType] ?? existing.type
+    const detail = options.comment?.trim() || existing.note
+    const content = detail ? `【${label}】${detail}` : `【${label}】`
+
+    const [record] = await prisma.$transaction([
+      prisma.bonsaiRecord.create({
+        data: {
+          bonsaiId: existing.bonsaiId,
+          type: CARE_TASK_RECORD_TYPES[existing.type as CareTaskType] ?? 'general',
+          content,
+          recordAt: now,
+        },
+      }),
+      prisma.bonsaiCareTask.update({
+        where: { id: taskId },
+        data: nextDueAt
+          ? { dueAt: nextDueAt, lastCompletedAt: now, lastNotifiedAt: null }
+          : { isActive: false, lastCompletedAt: now },
+      }),
+    ])
+
+    revalidatePath(`/bonsai/${existing.bonsaiId}`)
+    revalidatePath('/bonsai')
+    return { record, nextDueAt }
+  } catch (error) {
+    logger.error('Complete care task error:', error)
+    return { error: 'お手入れ予定の完了に失敗しました' }
+  }
+}
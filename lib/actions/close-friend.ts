@@ -0,0 +1,296 @@
+/**
+ * 親しい友達リストのServer Actions
+ *
+ * このファイルは、投稿の公開範囲「親しい友達」で使用する
+ * 親しい友達リストの管理に関するサーバーサイドの処理を提供します。
+ *
+ * ## 機能概要
+ * - 親しい友達リストへの追加
+ * - 親しい友達リストからの削除
+ * - 親しい友達の一覧取得
+ * - 追加候補（フォロワー）の一覧取得
+ *
+ * ## 親しい友達リストの仕様
+ * - 自分をフォローしているユーザーのみ追加できる
+ * - 相手に追加・削除は通知されない
+ * - ブロックすると双方向のリストから削除される
+ *
+ * @module lib/actions/close-friend
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Next.jsのキャッシュ再検証関数
+ * リスト変更後に設定ページを更新するために使用
+ */
+import { revalidatePath } from 'next/cache'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 親しい友達リストに登録できる最大人数
+ */
+const MAX_CLOSE_FRIENDS = 100
+
+// ============================================================
+// 親しい友達の追加
+// ============================================================
+
+/**
+ * 親しい友達リストにユーザーを追加
+ *
+ * ## 処理フロー
+ * 1. 認証チェック
+ * 2. 自分自身の追加を防止
+ * 3. 相手が自分をフォローしているか確認
+ * 4. 登録済み・上限のチェック
+ * 5. リストに追加
+ *
+ * @param friendId - 追加するユーザーのID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await addCloseFriend('user-123')
+ * ```
+ */
+export async function addCloseFriend(friendId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  if (session.user.id === friendId) {
+    return { error: '自分自身を追加できません' }
+  }
+
+  try {
+    /**
+     * フォロワーのみ追加できる
+     *
+     * 親しい友達はフォロワーの中から選ぶ
+     */
+    const follow = await prisma.follow.findUnique({
+      where: {
+        followerId_followingId: {
+          followerId: friendId,
+          followingId: session.user.id,
+        },
+      },
+    })
+
+    if (!follow) {
+      return { error: 'フォロワーのみ親しい友達に追加できます' }
+    }
+
+    const existing = await prisma.closeFriend.findUnique({
+      where: { userId_friendId: { userId: session.user.id, friendId } },
+    })
+
+    if (existing) {
+      return { error: '既に親しい友達に追加されています' }
+    }
+
+    const count = await prisma.closeFriend.count({
+      where: { userId: session.user.id },
+    })
+
+    if (count >= MAX_CLOSE_FRIENDS) {
+      return { error: `親しい友達は${MAX_CLOSE_FRIENDS}人まで追加できます` }
+    }
+
+    await prisma.closeFriend.create({
+      data: {
+        userId: session.user.id,
+        friendId,
+      },
+    })
+
+    revalidatePath('/settings/close-friends')
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Add close friend error:', error)
+    return { error: '親しい友達の追加に失敗しました' }
+  }
+}
+
+// ============================================================
+// 親しい友達の削除
+// ============================================================
+
+/**
+ * 親しい友達リストからユーザーを削除
+ *
+ * 削除したユーザーは、それ以降「親しい友達」の投稿を閲覧できなくなります。
+ *
+ * @param friendId - 削除するユーザーのID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await removeCloseFriend('user-123')
+ * ```
+ */
+export async function removeCloseFriend(friendId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    await prisma.closeFriend.deleteMany({
+      where: { userId: session.user.id, friendId },
+    })
+
+    revalidatePath('/settings/close-friends')
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Remove close friend error:', error)
+    return { error: '親しい友達の削除に失敗しました' }
+  }
+}
+
+// ============================================================
+// 親しい友達一覧取得
+// ============================================================
+
+/**
+ * 親しい友達の一覧を取得
+ *
+ * ## 用途
+ * - 設定画面の「親しい友達」ページ
+ *
+ * @returns 親しい友達のユーザー一覧
+ *
+ * @example
+ * ```typescript
+ * const { users } = await getCloseFriends()
+ * ```
+ */
+export async function getCloseFriends() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', users: [] }
+  }
+
+  try {
+    const closeFriends = await prisma.closeFriend.findMany({
+      where: { userId: session.user.id },
+      include: {
+        friend: {
+          select: {
+            id: true,
+            nickname: true,
+            avatarUrl: true,
+            bio: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_CLOSE_FRIENDS,
+    })
+
+    return {
+      users: closeFriends.map((c: typeof closeFriends[number]) => c.friend),
+    }
+  } catch (error) {
+    logger.error('Get close friends error:', error)
+    return { error: '親しい友達の取得に失敗しました', users: [] }
+  }
+}
+
+// ============================================================
+// 追加候補の取得
+// ============================================================
+
+/**
+ * 親しい友達の追加候補を取得
+ *
+ * ## 機能概要
+ * 自分をフォローしているユーザーのうち、
+ * まだ親しい友達リストに含まれていないユーザーを取得します。
+ *
+ * ## ページネーション
+ * カーソルベースのページネーションを採用
+ * カーソルは followerId を使用
+ *
+ * @param cursor - ページネーション用カーソル
+ * @param limit - 取得件数（デフォルト: 20）
+ * @returns 追加候補のユーザー一覧と次のカーソル
+ *
+ * @example
+ * ```typescript
+ * const { users, nextCursor } = await getCloseFriendCandidates()
+ * ```
+ */
+export async function getCloseFriendCandidates(cursor?: string, limit = 20) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', users: [] }
+  }
+
+  try {
+    /**
+     * 自分をフォローしていて、まだリストに含まれていないユーザー
+     */
+    const follows = await prisma.follow.findMany({
+      where: {
+        followingId: session.user.id,
+        follower: {
+          closeFriendOf: { none: { userId: session.user.id } },
+        },
+      },
+      include: {
+        follower: {
+          select: {
+            id: true,
+            nickname: true,
+            avatarUrl: true,
+            bio: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      ...(cursor && {
+        cursor: { followerId_followingId: { followerId: cursor, followingId: session.user.id } },
+        skip: 1,
+      }),
+    })
+
+    return {
+      users: follows.map((f: typeof follows[number]) => f.follower),
+      nextCursor: follows.length === limit ? follows[follows.length - 1]?.followerId : undefined,
+    }
+  } catch (error) {
+    logger.error('Get close friend candidates error:', error)
+    return { error: '追加候補の取得に失敗しました', users: [] }
+  }
+}
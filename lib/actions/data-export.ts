@@ -0,0 +1,222 @@
+/**
+ * データのエクスポート機能のServer Actions
+ *
+ * このファイルは、アカウントデータの一括ダウンロード（エクスポート）の
+ * 申し込み・状況の取得・ダウンロードURLの発行を提供します。
+ *
+ * ## エクスポートのフロー
+ * 1. ユーザーが申し込むと DataExport レコードが作成される（status: pending）
+ * 2. Cronジョブ（/api/cron/process-data-exports）がZIPを作成し、非公開ストレージに保存する
+ *    （データが多い場合は複数のパートに分け、実行のたびに1パートずつ作成する）
+ * 3. 準備ができたらアプリ内通知とメールで知らせる（status: completed）
+ * 4. ダウンロードのたびに期限の短い署名付きURLを発行する
+ * 5. ダウンロード期限を過ぎるとZIPは削除される（status: expired）
+ *
+ * ZIPの内容は lib/services/data-export.ts を参照。
+ *
+ * @module lib/actions/data-export
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * Next.jsのキャッシュ再検証関数
+ * 申し込み後にアカウント設定ページを更新するために使用
+ */
+import { revalidatePath } from 'next/cache'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+/**
+ * 署名付きURLの発行
+ */
+import { getSignedFileUrl } from '@/lib/storage'
+
+/**
+ * 申し込み間隔・ダウンロードURLの有効期限
+ */
+import {
+  DATA_EXPORT_COOLDOWN_HOURS,
+  DATA_EXPORT_LINK_EXPIRES_SECONDS,
+} from '@/lib/constants/data-export'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 一覧に表示する申し込みの件数
+ */
+const LIST_LIMIT = 5
+
+/**
+ * 一覧で返す項目（ストレージのキー・エラーの詳細は返さない）
+ */
+const dataExportSelect = {
+  id: true,
+  status: true,
+  completedAt: true,
+  expiresAt: true,
+  createdAt: true,
+  parts: {
+    select: { partNumber: true, fileSize: true },
+    orderBy: { partNumber: 'asc' },
+  },
+} as const
+
+// ============================================================
+// 申し込み
+// ============================================================
+
+/**
+ * データのエクスポートを申し込む
+ *
+ * 準備中の申し込みがある場合や、前回の申し込みから
+ * DATA_EXPORT_COOLDOWN_HOURS 時間たっていない場合は申し込めません。
+ *
+ * @returns 成功時は { success: true, dataExport }、失敗時は { error: string }
+ */
+export async function requestDataExport() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const userId = session.user.id
+
+  try {
+    const latest = await prisma.dataExport.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: { status: true, createdAt: true },
+    })
+
+    if (latest && (latest.status === 'pending' || latest.status === 'processing')) {
+      return { error: 'データのエクスポートはすでに準備中です' }
+    }
+
+    const cooldownMs = DATA_EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000
+    // 作成に失敗した場合はすぐに申し込み直せる
+    if (latest && latest.status !== 'failed' && Date.now() - latest.createdAt.getTime() < cooldownMs) {
+      return { error: `データのエクスポートは${DATA_EXPORT_COOLDOWN_HOURS}時間に1回まで申し込めます` }
+    }
+
+    const dataExport = await prisma.dataExport.create({
+      data: { userId },
+      select: dataExportSelect,
+    })
+
+    revalidatePath('/settings/account')
+    return { success: true, dataExport }
+  } catch (error) {
+    logger.error('Request data export error:', error)
+    return { error: 'データのエクスポートの申し込みに失敗しました' }
+  }
+}
+
+// ============================================================
+// 状況の取得
+// ============================================================
+
+/**
+ * 自分のデータのエクスポートの申し込みを新しい順に取得
+ *
+ * @returns { dataExports }（未ログイン・エラー時は空配列）
+ */
+export async function getDataExports() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { dataExports: [] }
+  }
+
+  try {
+    const dataExports = await prisma.dataExport.findMany({
+      where: { userId: session.user.id },
+      select: dataExportSelect,
+      orderBy: { createdAt: 'desc' },
+      take: LIST_LIMIT,
+    })
+    return { dataExports }
+  } catch (error) {
+    logger.error('Get data exports error:', error)
+    return { dataExports: [] }
+  }
+}
+
+// ============================================================
+// ダウンロード
+// ============================================================
+
+/**
+ * エクスポートしたZIPの署名付きダウンロードURLを発行
+ *
+ * URLの有効期限は DATA_EXPORT_LINK_EXPIRES_SECONDS 秒。
+ * 本人の、ダウンロード期限内の申し込みのみ発行します。
+ *
+ * @param exportId - 申し込みのID
+ * @param partNumber - パートの番号（1から）
+ * @returns 成功時は { url }、失敗時は { error: string }
+ */
+export async function getDataExportDownloadUrl(exportId: string, partNumber: number = 1) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const dataExport = await prisma.dataExport.findFirst({
+      where: {
+        id: exportId,
+        userId: session.user.id,
+        status: 'completed',
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        completedAt: true,
+        parts: { select: { partNumber: true, fileKey: true } },
+      },
+    })
+
+    const part = dataExport?.parts.find((p) => p.partNumber === partNumber)
+    if (!dataExport || !part) {
+      return { error: 'ダウンロードできるデータが見つかりません' }
+    }
+
+    const date = (dataExport.completedAt ?? new Date()).toISOString().slice(0, 10).replace(/-/g, '')
+    const suffix = dataExport.parts.length > 1 ? `-part${partNumber}` : ''
+    const result = await getSignedFileUrl(
+      part.fileKey,
+      DATA_EXPORT_LINK_EXPIRES_SECONDS,
+      `bon-log-export-${date}${suffix}.zip`
+    )
+
+    if (!result.success || !result.url) {
+      return { error: 'ダウンロードURLの発行に失敗しました' }
+    }
+
+    return { url: result.url }
+  } catch (error) {
+    logger.error('Get data export download URL error:', error)
+    return { error: 'ダウンロードURLの発行に失敗しました' }
+  }
+}
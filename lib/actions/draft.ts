@@ -54,6 +54,11 @@ import { revalidatePath } from 'next/cache'
  */
 import logger from '@/lib/logger'
 
+/**
+ * 投稿の公開範囲の検証
+ */
+import { isPostAudience } from '@/lib/privacy'
+
 // ============================================================
 // 下書き一覧取得
 // ============================================================
@@ -176,6 +181,7 @@ export async function getDraftCount(): Promise<number> {
  *   content: '投稿の本文',
  *   mediaUrls: ['/uploads/image.jpg'],
  *   genreIds: ['genre-1', 'genre-2'],
+ *   audience: 'followers',
  * })
  *
  * // 既存の更新
@@ -190,6 +196,7 @@ export async function saveDraft(data: {
   content?: string
   mediaUrls?: string[]
   genreIds?: string[]
+  audience?: string
 }) {
   // ------------------------------------------------------------
   // 認証チェック
@@ -199,6 +206,13 @@ export async function saveDraft(data: {
     return { error: '認証が必要です' }
   }
 
+  /**
+   * 公開範囲のチェック（省略時は変更しない）
+   */
+  if (data.audience !== undefined && !isPostAudience(data.audience)) {
+    return { error: '公開範囲が正しくありません' }
+  }
+
   try {
     // ------------------------------------------------------------
     // 既存の下書きを更新
@@ -233,6 +247,7 @@ export async function saveDraft(data: {
         where: { id: data.id },
         data: {
           content: data.content,
+          audience: data.audience,
           /**
            * ネストした create でメディアを作成
            */
@@ -271,6 +286,7 @@ export async function saveDraft(data: {
       data: {
         userId: session.user.id,
         content: data.content,
+        audience: data.audience,
         /**
          * ネストした create でメディアを同時作成
          */
@@ -370,6 +386,7 @@ export async function publishDraft(draftId: string) {
       data: {
         userId: session.user.id,
         content: draft.content,
+        audience: draft.audience,
         /**
          * メディアをコピー
          */
@@ -0,0 +1,344 @@
+/**
+ * メールアドレスの確認・変更関連のServer Actions
+ *
+ * 登録したメールアドレスの確認と、メールアドレスの変更を提供します。
+ *
+ * ## 機能概要
+ * - 確認メールの再送
+ * - 確認リンクによるメールアドレスの確認
+ * - メールアドレスの変更申請・確認・取り消し
+ *
+ * ## メールアドレスの変更
+ * 変更前と変更後の両方のアドレスに確認メールを送り、
+ * 両方のリンクで確認が済んだときに User.email を変更します。
+ * 変更時にもブラックリストと重複を確認し直します。
+ *
+ * @module lib/actions/email-verification
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/db'
+import { auth } from '@/lib/auth'
+import logger from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { logRateLimitExceeded } from '@/lib/security-logger'
+import { sendEmailChangeConfirmationEmail } from '@/lib/email'
+import { isEmailBlacklisted } from '@/lib/actions/blacklist'
+import {
+  VERIFICATION_TOKEN_TTL_MS,
+  buildVerificationUrl,
+  consumeVerificationToken,
+  issueVerificationToken,
+  sendEmailVerification,
+} from '@/lib/email-verification'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * メールアドレスの形式
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * 確認メールの送信回数の制限（1時間に3回まで）
+ */
+const EMAIL_SEND_RATE_LIMIT = {
+  windowMs: 60 * 60 * 1000,
+  maxRequests: 3,
+}
+
+// ============================================================
+// メールアドレスの確認
+// ============================================================
+
+/**
+ * 確認メールを再送する
+ *
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function resendVerificationEmail() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, email: true, nickname: true, emailVerified: true },
+  })
+
+  if (!user) {
+    return { error: 'ユーザーが見つかりません' }
+  }
+
+  if (user.emailVerified) {
+    return { error: 'メールアドレスは確認済みです' }
+  }
+
+  const rateLimitResult = await rateLimit(`verify-email:${user.id}`, EMAIL_SEND_RATE_LIMIT)
+  if (!rateLimitResult.success) {
+    logRateLimitExceeded('verify_email', undefined, user.id)
+    return { error: '確認メールの送信が多すぎます。しばらく経ってからお試しください。' }
+  }
+
+  try {
+    const sent = await sendEmailVerification(user)
+    if (!sent) {
+      return { error: 'メールの送信に失敗しました。しばらく経ってからお試しください。' }
+    }
+    return { success: true }
+  } catch (error) {
+    logger.error('Resend verification email error:', error)
+    return { error: 'メールの送信に失敗しました。しばらく経ってからお試しください。' }
+  }
+}
+
+/**
+ * 確認リンクのトークンでメールアドレスを確認済みにする
+ *
+ * メールのリンクは別のブラウザで開かれることがあるため、ログインは不要です。
+ *
+ * @param token - 確認メールのリンクに含まれるトークン
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function verifyEmail(token: string) {
+  try {
+    const verified = await consumeVerificationToken(token, ['verify-email'])
+    if (!verified) {
+      return { error: '確認リンクが無効または期限切れです' }
+    }
+
+    await prisma.user.update({
+      where: { id: verified.subjectId },
+      data: { emailVerified: new Date() },
+    })
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Verify email error:', error)
+    return { error: 'メールアドレスの確認に失敗しました' }
+  }
+}
+
+// ============================================================
+// メールアドレスの変更
+// ============================================================
+
+/**
+ * メールアドレスの変更を申請する
+ *
+ * 変更前と変更後の両方のアドレスに確認メールを送信します。
+ * 申請中の変更がある場合は置き換えます。
+ *
+ * @param newEmail - 変更後のメールアドレス
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function requestEmailChange(newEmail: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const email = newEmail?.trim() ?? ''
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: '有効なメールアドレスを入力してください' }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, email: true, nickname: true },
+  })
+
+  if (!user) {
+    return { error: 'ユーザーが見つかりません' }
+  }
+
+  if (email.toLowerCase() === user.email.toLowerCase()) {
+    return { error: '現在と同じメールアドレスです' }
+  }
+
+  if (await isEmailBlacklisted(email)) {
+    return { error: 'このメールアドレスは利用できません' }
+  }
+
+  const existingUser = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    select: { id: true },
+  })
+  if (existingUser) {
+    return { error: 'このメールアドレスは既に登録されています' }
+  }
+
+  const rateLimitResult = await rateLimit(`email-change:${user.id}`, EMAIL_SEND_RATE_LIMIT)
+  if (!rateLimitResult.success) {
+    logRateLimitExceeded('email_change', undefined, user.id)
+    return { error: 'メールアドレスの変更の申請が多すぎます。しばらく経ってからお試しください。' }
+  }
+
+  try {
+    const request = await prisma.emailChangeRequest.upsert({
+      where: { userId: user.id },
+      create: {
+        userId: user.id,
+        newEmail: email,
+        expires: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+      },
+      update: {
+        newEmail: email,
+        oldConfirmedAt: null,
+        newConfirmedAt: null,
+        expires: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+      },
+    })
+
+    const [oldToken, newToken] = await Promise.all([
+      issueVerificationToken('email-change-old', request.id),
+      issueVerificationToken('email-change-new', request.id),
+    ])
+
+    const results = await Promise.all([
+      sendEmailChangeConfirmationEmail(
+        user.email,
+        user.nickname,
+        buildVerificationUrl('/verify-email/change', oldToken),
+        email,
+        'current'
+      ),
+      sendEmailChangeConfirmationEmail(
+        email,
+        user.nickname,
+        buildVerificationUrl('/verify-email/change', newToken),
+        email,
+        'new'
+      ),
+    ])
+
+    if (results.some((result) => !result.success)) {
+      return { error: 'メールの送信に失敗しました。しばらく経ってからお試しください。' }
+    }
+
+    revalidatePath('/settings/account')
+    return { success: true }
+  } catch (error) {
+    logger.error('Request email change error:', error)
+    return { error: 'メールアドレスの変更の申請に失敗しました' }
+  }
+}
+
+/**
+ * メールアドレスの変更を確認する
+ *
+ * 変更前・変更後のどちらかのリンクで確認した状態を記録し、
+ * 両方の確認が済んだらメールアドレスを変更します。
+ * ログインは不要です（変更前のアドレスのリンクは別の端末で開かれることがあるため）。
+ *
+ * @param token - 確認メールのリンクに含まれるトークン
+ * @returns 成功時は { success: true, completed }（completed: 変更が完了したか）、失敗時は { error: string }
+ */
+export async function confirmEmailChange(token: string) {
+  try {
+    const verified = await consumeVerificationToken(token, ['email-change-old', 'email-change-new'])
+    if (!verified) {
+      return { error: '確認リンクが無効または期限切れです' }
+    }
+
+    const pending = await prisma.emailChangeRequest.findUnique({
+      where: { id: verified.subjectId },
+    })
+    if (!pending || pending.expires < new Date()) {
+      return { error: '確認リンクが無効または期限切れです' }
+    }
+
+    const request = await prisma.emailChangeRequest.update({
+      where: { id: pending.id },
+      data:
+        verified.purpose === 'email-change-old'
+          ? { oldConfirmedAt: new Date() }
+          : { newConfirmedAt: new Date() },
+    })
+
+    if (!request.oldConfirmedAt || !request.newConfirmedAt) {
+      return { success: true, completed: false }
+    }
+
+    // ------------------------------------------------------------
+    // 両方の確認が済んだのでメールアドレスを変更
+    // ------------------------------------------------------------
+
+    /**
+     * 申請後にブラックリストへ登録された・他のユーザーが登録した場合は変更しない
+     */
+    const blacklisted = await isEmailBlacklisted(request.newEmail)
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: request.newEmail, mode: 'insensitive' } },
+      select: { id: true },
+    })
+
+    if (blacklisted || existingUser) {
+      await prisma.emailChangeRequest.delete({ where: { id: request.id } })
+      return {
+        error: blacklisted
+          ? 'このメールアドレスは利用できません'
+          : 'このメールアドレスは既に登録されています',
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: request.userId },
+        data: { email: request.newEmail, emailVerified: new Date() },
+      }),
+      prisma.emailChangeRequest.delete({ where: { id: request.id } }),
+      prisma.verificationToken.deleteMany({
+        where: { identifier: `verify-email:${request.userId}` },
+      }),
+    ])
+
+    return { success: true, completed: true }
+  } catch (error) {
+    logger.error('Confirm email change error:', error)
+    return { error: 'メールアドレスの変更に失敗しました' }
+  }
+}
+
+/**
+ * 申請中のメールアドレスの変更を取り消す
+ *
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function cancelEmailChange() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const request = await prisma.emailChangeRequest.findUnique({
+      where: { userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (request) {
+      await prisma.$transaction([
+        prisma.verificationToken.deleteMany({
+          where: {
+            identifier: {
+              in: [`email-change-old:${request.id}`, `email-change-new:${request.id}`],
+            },
+          },
+        }),
+        prisma.emailChangeRequest.delete({ where: { id: request.id } }),
+      ])
+    }
+
+    revalidatePath('/settings/account')
+    return { success: true }
+  } catch (error) {
+    logger.error('Cancel email change error:', error)
+    return { error: 'メールアドレスの変更の取り消しに失敗しました' }
+  }
+}
@@ -6,6 +6,7 @@
  *
  * ## 機能概要
  * - タイムライン取得（フォロー中のユーザーの投稿）
+ * - おすすめフィード取得（反応・好み・地域・新しさで並べた投稿）
  * - おすすめユーザーの取得
  * - トレンドジャンルの取得
  *
@@ -47,12 +48,23 @@ import { auth } from '@/lib/auth'
  */
 import { getExcludedUserIds } from './filter-helper'
 
+/**
+ * 投稿の公開範囲の絞り込み条件
+ * 閲覧できない公開範囲の投稿をタイムラインから除外するために使用
+ */
+import { buildVisiblePostWhere } from '@/lib/privacy'
+
 /**
  * トレンドジャンルキャッシュ取得関数
  * キャッシュされたトレンドジャンルを取得
  */
 import { getCachedTrendingGenres } from '@/lib/cache'
 
+/**
+ * おすすめフィードのスコアリング
+ */
+import { buildGenreAffinity, compareForYouRank, rankForYouCandidates, type ForYouRankKey } from '@/lib/recommendation'
+
 // ============================================================
 // タイムライン取得
 // ============================================================
@@ -130,9 +142,9 @@ export async function getTimeline(cursor?: string, limit = 20) {
      * 除外対象のユーザーIDを取得
      *
      * getExcludedUserIds の第2引数で、
-     * ブロック・ミュートのどちらを含めるか指定
+     * ブロック・ミュート・一時停止中のどれを含めるか指定
      */
-    getExcludedUserIds(currentUserId, { blocked: true, muted: true }),
+    getExcludedUserIds(currentUserId, { blocked: true, muted: true, deactivated: true }),
   ])
 
   /**
@@ -155,6 +167,7 @@ export async function getTimeline(cursor?: string, limit = 20) {
    * ## フィルタ条件
    * - userId in followingIds: フォロー中 + 自分
    * - userId notIn excludeIds: ブロック・ミュートを除外
+   * - 公開範囲: 相互フォロー限定・自分のみの投稿は見られる場合のみ
    *
    * ## notIn の条件付き適用
    * excludeIds.length > 0 の場合のみ notIn を適用
@@ -166,6 +179,7 @@ export async function getTimeline(cursor?: string, limit = 20) {
         in: followingIds,
         notIn: excludeIds.length > 0 ? excludeIds : undefined,
       },
+      ...buildVisiblePostWhere(currentUserId),
     },
     include: {
       /**
@@ -327,6 +341,274 @@ export async function getTimeline(cursor?: string, limit = 20) {
   }
 }
 
+// ============================================================
+// おすすめフィード取得
+// ============================================================
+
+/**
+ * おすすめフィードの候補にする期間（日）
+ */
+const FOR_YOU_WINDOW_DAYS = 7
+
+/**
+ * おすすめフィードの候補として取得する最大件数
+ */
+const FOR_YOU_CANDIDATE_LIMIT = 300
+
+/**
+ * ジャンルの好みの算出に使う最大件数
+ */
+const FOR_YOU_AFFINITY_LIMIT = 500
+
+/**
+ * おすすめフィードのカーソル
+ *
+ * 1ページ目を並べ替えた時刻と、前のページの最後の投稿のおすすめ順での位置
+ */
+interface ForYouCursor {
+  rankedAt: Date
+  last: ForYouRankKey
+}
+
+/**
+ * おすすめフィードのカーソルを文字列にする
+ *
+ * 形式: `並べ替えた時刻:スコア:投稿日時:投稿ID`（時刻はミリ秒）
+ */
+function encodeForYouCursor({ rankedAt, last }: ForYouCursor): string {
+  return [rankedAt.getTime(), last.score, last.createdAt.getTime(), last.id].join(':')
+}
+
+/**
+ * おすすめフィードのカーソルを解析する
+ *
+ * @returns 形式が正しくない場合は null（1ページ目として扱う）
+ */
+function parseForYouCursor(cursor: string | undefined): ForYouCursor | null {
+  const parts = cursor?.split(':')
+  if (!parts || parts.length !== 4) return null
+
+  const [rankedAt, score, createdAt, id] = parts
+  const values = [Number(rankedAt), Number(score), Number(createdAt)]
+  if (!id || values.some((value) => !Number.isFinite(value))) return null
+
+  return {
+    rankedAt: new Date(values[0]),
+    last: { score: values[1], createdAt: new Date(values[2]), id },
+  }
+}
+
+/**
+ * おすすめフィードを取得
+ *
+ * ## 機能概要
+ * フォローしていないユーザーも含めた最近の投稿を、
+ * lib/recommendation のスコアの高い順で取得します。
+ * フォローがまだないユーザーでも投稿を見つけられるようにするためのフィードです。
+ *
+ * ## スコアに使う情報
+ * - 投稿へのいいね・コメント・引用の数
+ * - 自分の投稿・いいねした投稿のジャンル
+ * - 自分と投稿者の居住地域（投稿者が全員に公開している場合のみ）
+ * - 投稿からの経過時間
+ *
+ * ## 除外対象
+ * - 自分の投稿・リポスト・非表示の投稿
+ * - ブロック・ミュート・一時停止中のユーザーの投稿
+ * - 閲覧できない公開範囲の投稿
+ *
+ * ## ページネーション
+ * 前のページの最後の投稿のスコア・投稿日時・IDをカーソルにして、その続きを返します。
+ * 2ページ目以降は1ページ目と同じ時刻でスコアを計算し、その時刻より後の投稿は候補に含めないため、
+ * 新しい投稿や時間の経過で順位がずれても、同じ投稿が重複したり抜けたりしません。
+ *
+ * @param cursor - ページネーション用カーソル（前回の nextCursor）
+ * @param limit - 取得件数（デフォルト: 20）
+ * @returns おすすめ投稿一覧と次のカーソル
+ *
+ * @example
+ * ```typescript
+ * const { posts, nextCursor } = await getForYouFeed()
+ * const more = await getForYouFeed(nextCursor)
+ * ```
+ */
+export async function getForYouFeed(cursor?: string, limit = 20) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', posts: [], nextCursor: undefined }
+  }
+
+  const currentUserId = session.user.id
+  const forYouCursor = parseForYouCursor(cursor)
+  const now = forYouCursor?.rankedAt ?? new Date()
+  const since = new Date(now.getTime() - FOR_YOU_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  // ------------------------------------------------------------
+  // 閲覧者の情報と除外ユーザーを並列取得
+  // ------------------------------------------------------------
+
+  const [excludeIds, viewer, affinityGenres] = await Promise.all([
+    getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true, muted: true, deactivated: true }),
+    prisma.user.findUnique({
+      where: { id: currentUserId },
+      select: { location: true },
+    }),
+    /**
+     * 自分の投稿・いいねした投稿のジャンル
+     */
+    prisma.postGenre.findMany({
+      where: {
+        post: {
+          OR: [
+            { userId: currentUserId },
+            { likes: { some: { userId: currentUserId } } },
+          ],
+        },
+      },
+      select: { genreId: true },
+      take: FOR_YOU_AFFINITY_LIMIT,
+    }),
+  ])
+
+  // ------------------------------------------------------------
+  // 候補の投稿を取得
+  // ------------------------------------------------------------
+
+  const candidates = await prisma.post.findMany({
+    where: {
+      createdAt: { gte: since, lte: now },
+      userId: {
+        not: currentUserId,
+        notIn: excludeIds.length > 0 ? excludeIds : undefined,
+      },
+      repostPostId: null,
+      isHidden: false,
+      ...buildVisiblePostWhere(currentUserId),
+    },
+    include: {
+      /**
+       * 投稿者情報
+       *
+       * 居住地域はスコア計算のみに使い、結果には含めない
+       */
+      user: {
+        select: { id: true, nickname: true, avatarUrl: true, location: true, locationVisibility: true },
+      },
+      media: {
+        orderBy: { sortOrder: 'asc' },
+      },
+      genres: {
+        include: { genre: true },
+      },
+      _count: {
+        select: { likes: true, comments: true, quotedBy: true },
+      },
+      quotePost: {
+        include: {
+          user: {
+            select: { id: true, nickname: true, avatarUrl: true },
+          },
+          media: {
+            orderBy: { sortOrder: 'asc' },
+          },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: FOR_YOU_CANDIDATE_LIMIT,
+  })
+
+  // ------------------------------------------------------------
+  // スコアの高い順に並べ替え
+  // ------------------------------------------------------------
+
+  const ranked = rankForYouCandidates(
+    candidates.map((post: typeof candidates[number]) => ({
+      id: post.id,
+      createdAt: post.createdAt,
+      likeCount: post._count.likes,
+      commentCount: post._count.comments,
+      quoteCount: post._count.quotedBy,
+      genreIds: post.genres.map((pg: typeof post.genres[number]) => pg.genreId),
+      authorLocation: post.user.locationVisibility === 'everyone' ? post.user.location : null,
+      post,
+    })),
+    {
+      genreAffinity: buildGenreAffinity(affinityGenres.map((g: typeof affinityGenres[number]) => g.genreId)),
+      location: viewer?.location ?? null,
+    },
+    now
+  )
+
+  /**
+   * 前のページの最後の投稿より後に並ぶ投稿
+   */
+  const remaining = forYouCursor
+    ? ranked.filter((candidate) => compareForYouRank(candidate, forYouCursor.last) > 0)
+    : ranked
+  const pageCandidates = remaining.slice(0, limit)
+  const page = pageCandidates.map((candidate) => candidate.post)
+
+  // ------------------------------------------------------------
+  // 現在のユーザーのいいね/ブックマーク状態を取得
+  // ------------------------------------------------------------
+
+  let likedPostIds: Set<string> = new Set()
+  let bookmarkedPostIds: Set<string> = new Set()
+
+  if (page.length > 0) {
+    const postIds = page.map((p: typeof page[number]) => p.id)
+
+    const [userLikes, userBookmarks] = await Promise.all([
+      prisma.like.findMany({
+        where: {
+          userId: currentUserId,
+          postId: { in: postIds },
+          commentId: null,
+        },
+        select: { postId: true },
+      }),
+      prisma.bookmark.findMany({
+        where: {
+          userId: currentUserId,
+          postId: { in: postIds },
+        },
+        select: { postId: true },
+      }),
+    ])
+
+    likedPostIds = new Set(userLikes.map((l: { postId: string | null }) => l.postId).filter((id: string | null): id is string => id !== null))
+    bookmarkedPostIds = new Set(userBookmarks.map((b: { postId: string }) => b.postId))
+  }
+
+  // ------------------------------------------------------------
+  // 結果の整形と返却
+  // ------------------------------------------------------------
+
+  const formattedPosts = page.map((post: typeof page[number]) => ({
+    ...post,
+    /**
+     * 投稿者の居住地域は返さない
+     */
+    user: { id: post.user.id, nickname: post.user.nickname, avatarUrl: post.user.avatarUrl },
+    likeCount: post._count.likes,
+    commentCount: post._count.comments,
+    genres: post.genres.map((pg: typeof post.genres[number]) => pg.genre),
+    isLiked: likedPostIds.has(post.id),
+    isBookmarked: bookmarkedPostIds.has(post.id),
+  }))
+
+  return {
+    posts: formattedPosts,
+    nextCursor: remaining.length > limit
+      ? encodeForYouCursor({ rankedAt: now, last: pageCandidates[pageCandidates.length - 1] })
+      : undefined,
+  }
+}
+
 // ============================================================
 // おすすめユーザー取得
 // ============================================================
@@ -397,8 +679,9 @@ export async function getRecommendedUsers(limit = 5) {
      *
      * blocked: true → 自分がブロックしたユーザー
      * blockedBy: true → 自分をブロックしたユーザー
+     * deactivated: true → 一時停止中のユーザー
      */
-    getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true }),
+    getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true, deactivated: true }),
   ])
 
   /**
@@ -18,6 +18,7 @@
  *   - 検索: ブロック双方向（ミュートは含めない場合も）
  *   - 通知: ブロック双方向のみ
  * - オプションで柔軟に組み合わせ可能
+ * - 一時停止中のアカウントは誰に対しても除外（未ログインでも使用可能）
  *
  * ### 3. パフォーマンス最適化
  * - Promise.allで並列クエリを実行
@@ -35,6 +36,10 @@
  * - ミュートした側：相手の投稿がタイムラインに表示されない
  * - ミュートされた側：何も影響なし（気づかない）
  *
+ * ### 一時停止中のアカウント
+ * - 本人がアカウントを一時停止している間（lib/account-deactivation）
+ * - プロフィール・投稿・盆栽・レビューを誰にも表示しない
+ *
  * @module lib/actions/filter-helper
  */
 
@@ -87,6 +92,12 @@ import { prisma } from '@/lib/db'
  * - false/未指定: 含めない
  * - 使用例: タイムラインからミュートした人の投稿を除外
  *
+ * ### deactivated (一時停止中のユーザー)
+ * - true: アカウントを一時停止しているユーザーを除外リストに追加
+ * - false/未指定: 含めない
+ * - 閲覧者との関係によらないため、未ログインでも有効
+ * - 使用例: 投稿・盆栽・レビューの一覧から一時停止中のユーザーを除外
+ *
  * ## 使用例
  * ```typescript
  * // タイムライン用（ブロック双方向 + ミュート）
@@ -97,12 +108,16 @@ import { prisma } from '@/lib/db'
  *
  * // 通知用（ブロック双方向のみ）
  * getExcludedUserIds(userId, { blocked: true, blockedBy: true })
+ *
+ * // 公開ページ用（未ログインでも一時停止中のユーザーを除外）
+ * getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true, deactivated: true })
  * ```
  */
 export type FilterOptions = {
-  blocked?: boolean    // 自分がブロックしたユーザー
-  blockedBy?: boolean  // 自分をブロックしたユーザー
-  muted?: boolean      // 自分がミュートしたユーザー
+  blocked?: boolean     // 自分がブロックしたユーザー
+  blockedBy?: boolean   // 自分をブロックしたユーザー
+  muted?: boolean       // 自分がミュートしたユーザー
+  deactivated?: boolean // 一時停止中のユーザー
 }
 
 // ============================================================
@@ -117,7 +132,7 @@ export type FilterOptions = {
  * ユーザーIDの配列を返します。
  *
  * ## パラメータ
- * @param userId - 現在のユーザーID（フィルタリングの基準）
+ * @param userId - 現在のユーザーID（フィルタリングの基準、未ログインの場合は undefined）
  * @param options - フィルターオプション（どの種類のユーザーを除外するか）
  *
  * ## 戻り値
@@ -149,7 +164,7 @@ export type FilterOptions = {
  * ```
  */
 export async function getExcludedUserIds(
-  userId: string,
+  userId: string | undefined,
   options: FilterOptions = {}
 ): Promise<string[]> {
   /**
@@ -161,7 +176,14 @@ export async function getExcludedUserIds(
    * ## デフォルト値の指定
    * `blocked = false` は、optionsにblockedが含まれない場合はfalseを使用
    */
-  const { blocked = false, blockedBy = false, muted = false } = options
+  const { deactivated = false } = options
+
+  /**
+   * ブロック・ミュートは閲覧者との関係のため、未ログインの場合は対象外
+   */
+  const blocked = !!userId && !!options.blocked
+  const blockedBy = !!userId && !!options.blockedBy
+  const muted = !!userId && !!options.muted
 
   /**
    * 早期リターン（Early Return）
@@ -169,7 +191,7 @@ export async function getExcludedUserIds(
    * すべてのオプションがfalseの場合、DBクエリを実行する必要がないため
    * 即座に空配列を返す。これによりパフォーマンスが向上。
    */
-  if (!blocked && !blockedBy && !muted) {
+  if (!blocked && !blockedBy && !muted && !deactivated) {
     return []
   }
 
@@ -237,6 +259,20 @@ export async function getExcludedUserIds(
     )
   }
 
+  /**
+   * 一時停止中のユーザーのクエリ構築
+   *
+   * 閲覧者との関係によらず、一時停止しているユーザーをすべて取得
+   */
+  if (deactivated) {
+    queries.push(
+      prisma.user.findMany({
+        where: { deactivatedAt: { not: null } },
+        select: { id: true },
+      })
+    )
+  }
+
   /**
    * 並列クエリ実行
    *
@@ -275,7 +311,7 @@ export async function getExcludedUserIds(
    * - ブロックとミュートの両方の結果を同じ形式で処理可能に
    */
   for (const items of results) {
-    for (const item of items as Array<{ blockerId?: string; blockedId?: string; mutedId?: string }>) {
+    for (const item of items as Array<{ blockerId?: string; blockedId?: string; mutedId?: string; id?: string }>) {
       /**
        * ブロック結果の処理
        *
@@ -301,6 +337,13 @@ export async function getExcludedUserIds(
       if ('mutedId' in item && item.mutedId) {
         excludedIds.add(item.mutedId)
       }
+
+      /**
+       * 一時停止中のユーザーの結果の処理
+       */
+      if ('id' in item && item.id) {
+        excludedIds.add(item.id)
+      }
     }
   }
 
@@ -311,7 +354,9 @@ export async function getExcludedUserIds(
    * - blockedByの場合、自分のIDがblockedIdとして含まれる可能性がある
    * - 自分自身をフィルタリングしてしまうと、自分の投稿が見えなくなる
    */
-  excludedIds.delete(userId)
+  if (userId) {
+    excludedIds.delete(userId)
+  }
 
   /**
    * SetをArrayに変換して返却
@@ -394,3 +439,30 @@ export async function getMutedUserIds(userId: string): Promise<string[]> {
    */
   return mutes.map((m: { mutedId: string }) => m.mutedId)
 }
+
+/**
+ * 一時停止中のユーザーIDのみを取得（シンプルなケース用）
+ *
+ * ## 用途
+ * 閲覧者によらない一覧（ハッシュタグ・レビューなど）から、
+ * アカウントを一時停止しているユーザーを除外する場合に使用
+ *
+ * ## 戻り値
+ * @returns Promise<string[]> - 一時停止中のユーザーIDの配列
+ *
+ * ## 使用例
+ * ```typescript
+ * const deactivatedIds = await getDeactivatedUserIds()
+ * const reviews = await prisma.shopReview.findMany({
+ *   where: { userId: { notIn: deactivatedIds } },
+ * })
+ * ```
+ */
+export async function getDeactivatedUserIds(): Promise<string[]> {
+  const users = await prisma.user.findMany({
+    where: { deactivatedAt: { not: null } },  // 一時停止中のユーザー
+    select: { id: true },                     // ユーザーIDのみ取得
+  })
+
+  return users.map((u: { id: string }) => u.id)
+}
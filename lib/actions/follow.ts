@@ -56,6 +56,11 @@ import { recordNewFollower } from './analytics'
  */
 import { checkUserRateLimit } from '@/lib/rate-limit'
 
+/**
+ * フォロー・フォロワー一覧の公開範囲の判定
+ */
+import { canViewUserArea } from '@/lib/privacy'
+
 // ============================================================
 // フォロートグル
 // ============================================================
@@ -308,6 +313,7 @@ export async function getFollowStatus(userId: string) {
  *
  * ## 機能概要
  * 指定されたユーザーのフォロワー一覧を取得します。
+ * フォロー・フォロワー一覧の公開範囲（User.followsVisibility）外の場合は取得しません。
  *
  * ## 用途
  * - プロフィールページの「フォロワー」タブ
@@ -343,6 +349,13 @@ export async function getFollowers(userId: string, cursor?: string, limit = 20)
     }
   }
 
+  /**
+   * フォロー・フォロワー一覧の公開範囲外の場合は取得しない
+   */
+  if (!(await canViewUserArea(userId, 'followsVisibility', session?.user?.id))) {
+    return { users: [], nextCursor: undefined, error: 'フォロワー一覧は非公開です' }
+  }
+
   /**
    * フォロー関係を取得
    *
@@ -414,6 +427,7 @@ export async function getFollowers(userId: string, cursor?: string, limit = 20)
  *
  * ## 機能概要
  * 指定されたユーザーがフォローしているユーザーの一覧を取得します。
+ * フォロー・フォロワー一覧の公開範囲（User.followsVisibility）外の場合は取得しません。
  *
  * ## 用途
  * - プロフィールページの「フォロー中」タブ
@@ -449,6 +463,13 @@ export async function getFollowing(userId: string, cursor?: string, limit = 20)
     }
   }
 
+  /**
+   * フォロー・フォロワー一覧の公開範囲外の場合は取得しない
+   */
+  if (!(await canViewUserArea(userId, 'followsVisibility', session?.user?.id))) {
+    return { users: [], nextCursor: undefined, error: 'フォロー中のユーザー一覧は非公開です' }
+  }
+
   /**
    * フォロー関係を取得
    *
@@ -0,0 +1,723 @@
+/**
+ * グループ会話（グループDM）のServer Actions
+ *
+ * このファイルは、3人以上で1つのスレッドを共有するグループ会話の
+ * 作成・メンバー管理に関するサーバーサイドの処理を提供します。
+ * メッセージの送受信自体は lib/actions/message.ts を共通で使用します。
+ *
+ * ## 機能概要
+ * - グループの作成（グループ名 + メンバー）
+ * - グループ名の変更
+ * - メンバーの追加/削除
+ * - グループからの退出
+ * - 管理者の任命/解除
+ *
+ * ## 役割（ConversationRole）
+ * | 役割   | 名前変更 | メンバー追加 | メンバー削除       | 管理者の任命 |
+ * |--------|----------|--------------|--------------------|--------------|
+ * | owner  | ○        | ○            | ○（全員）          | ○            |
+ * | admin  | ○        | ○            | ○（一般メンバーのみ）| ×            |
+ * | member | ×        | ×            | ×                  | ×            |
+ *
+ * ## システムメッセージ
+ * メンバー変更などの操作は type: 'system' のメッセージとして会話に残り、
+ * リアルタイム配信で参加者の画面にも即時反映されます。
+ *
+ * ## セキュリティ
+ * - ブロック関係（双方向）にあるユーザー同士を同じグループに入れない
+ * - 停止中のユーザーは追加できない
+ * - 操作はすべて参加者の役割で認可する
+ *
+ * @module lib/actions/group-conversation
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+import { prisma } from '@/lib/db'
+import { auth } from '@/lib/auth'
+import { revalidatePath } from 'next/cache'
+import { publishConversationEvent } from '@/lib/realtime'
+import { EMAIL_NOT_VERIFIED_ERROR, isEmailVerified } from '@/lib/email-verification'
+import { canSendMessage } from '@/lib/privacy'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * グループ名の最大文字数
+ */
+const GROUP_TITLE_MAX_LENGTH = 50
+
+/**
+ * グループの最大人数（自分を含む）
+ */
+const GROUP_MAX_MEMBERS = 50
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 変更可能な役割
+ *
+ * ownerは作成者またはオーナー退出時の引き継ぎでのみ設定される
+ */
+type AssignableRole = 'admin' | 'member'
+
+// ============================================================
+// 内部ヘルパー
+// ============================================================
+
+/**
+ * グループ会話の参加情報を取得
+ *
+ * 1対1の会話や参加していない会話の場合はnullを返す
+ *
+ * @param conversationId - 会話ID
+ * @param userId - ユーザーID
+ */
+async function getGroupParticipant(conversationId: string, userId: string) {
+  const participant = await prisma.conversationParticipant.findUnique({
+    where: {
+      conversationId_userId: {
+        conversationId,
+        userId,
+      },
+    },
+    include: {
+      conversation: {
+        select: { id: true, isGroup: true, title: true },
+      },
+      user: {
+        select: { id: true, nickname: true },
+      },
+    },
+  })
+
+  if (!participant || !participant.conversation.isGroup) {
+    return null
+  }
+
+  return participant
+}
+
+/**
+ * 指定したユーザー同士にブロック関係があるか確認
+ *
+ * groupA と groupB の間で、どちらの方向でもブロックがあればtrue
+ *
+ * @param groupA - ユーザーIDの配列
+ * @param groupB - ユーザーIDの配列
+ */
+async function hasBlockBetween(groupA: string[], groupB: string[]) {
+  const block = await prisma.block.findFirst({
+    where: {
+      OR: [
+        { blockerId: { in: groupA }, blockedId: { in: groupB } },
+        { blockerId: { in: groupB }, blockedId: { in: groupA } },
+      ],
+    },
+  })
+
+  return !!block
+}
+
+/**
+ * システムメッセージを作成して配信
+ *
+ * ## 副作用
+ * - 会話のupdatedAtを更新（一覧でソートに使用）
+ * - リアルタイムで参加者の画面に反映
+ *
+ * @param conversationId - 会話ID
+ * @param actorId - 操作したユーザーID（送信者として記録）
+ * @param content - お知らせ本文
+ */
+async function createSystemMessage(conversationId: string, actorId: string, content: string) {
+  const message = await prisma.message.create({
+    data: {
+      conversationId,
+      senderId: actorId,
+      type: 'system',
+      content,
+    },
+    include: {
+      sender: {
+        select: { id: true, nickname: true, avatarUrl: true },
+      },
+    },
+  })
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { updatedAt: new Date() },
+  })
+
+  await publishConversationEvent(conversationId, {
+    type: 'message',
+    message: {
+      id: message.id,
+      type: 'system',
+      content: message.content,
+      createdAt: message.createdAt.toISOString(),
+      sender: message.sender,
+    },
+  })
+}
+
+/**
+ * 追加対象のユーザーを検証
+ *
+ * ## チェック内容
+ * - 存在し、停止・一時停止（退会手続き中）されていないこと
+ * - 既存メンバー（existingIds）とのブロック関係がないこと
+ * - 追加する側（actorId）から見て、各ユーザーの「メッセージを受け付ける相手」の設定を満たすこと
+ *
+ * @param actorId - メンバーを追加するユーザーID
+ * @param userIds - 追加するユーザーIDの配列（重複・自分自身は除去済み）
+ * @param existingIds - 既存メンバーのユーザーID
+ * @returns 成功時: { users }, 失敗時: { error }
+ */
+async function validateNewMembers(actorId: string, userIds: string[], existingIds: string[]) {
+  const users = await prisma.user.findMany({
+    where: {
+      id: { in: userIds },
+      isSuspended: false,
+      deactivatedAt: null,
+    },
+    select: { id: true, nickname: true, dmPermission: true },
+  })
+
+  if (users.length !== userIds.length) {
+    return { error: '追加できないユーザーが含まれています' }
+  }
+
+  /**
+   * 追加するユーザー同士、および既存メンバーとのブロック関係をチェック
+   */
+  const allIds = [...existingIds, ...userIds]
+  if (await hasBlockBetween(userIds, allIds)) {
+    return { error: 'ブロック関係にあるユーザーは同じグループに参加できません' }
+  }
+
+  /**
+   * 1対1のメッセージと同じく、相手の設定に対して追加する側がメッセージを送れるかをチェック
+   * 全員から受け付けるユーザーのみの場合はフォロー関係を取得しない
+   */
+  if (users.some((user: typeof users[number]) => user.dmPermission !== 'everyone')) {
+    const follows = await prisma.follow.findMany({
+      where: {
+        OR: [
+          { followerId: actorId, followingId: { in: userIds } },
+          { followerId: { in: userIds }, followingId: actorId },
+        ],
+      },
+      select: { followerId: true, followingId: true },
+    })
+
+    type FollowRow = typeof follows[number]
+    const followingIds = new Set(
+      follows.filter((f: FollowRow) => f.followerId === actorId).map((f: FollowRow) => f.followingId)
+    )
+    const followerIds = new Set(
+      follows.filter((f: FollowRow) => f.followingId === actorId).map((f: FollowRow) => f.followerId)
+    )
+
+    const rejectingUser = users.find(
+      (user: typeof users[number]) =>
+        !canSendMessage(user.dmPermission, {
+          isOwner: false,
+          isFollower: followingIds.has(user.id),
+          isFollowedBy: followerIds.has(user.id),
+        })
+    )
+    if (rejectingUser) {
+      return { error: `${rejectingUser.nickname}さんはメッセージを受け付けていません` }
+    }
+  }
+
+  return { users }
+}
+
+/**
+ * メッセージ画面のキャッシュを再検証
+ */
+function revalidateConversation(conversationId: string) {
+  revalidatePath(`/messages/${conversationId}`)
+  revalidatePath(`/messages/${conversationId}/members`)
+  revalidatePath('/messages')
+}
+
+// ============================================================
+// グループ作成
+// ============================================================
+
+/**
+ * グループ会話を作成
+ *
+ * ## 処理フロー
+ * 1. 認証チェック
+ * 2. グループ名・メンバー数のバリデーション
+ * 3. メンバーの検証（存在・停止・ブロック・メッセージを受け付ける相手の設定）
+ * 4. 会話と参加者を作成（作成者はowner）
+ * 5. システムメッセージと通知を作成
+ *
+ * @param data.title - グループ名
+ * @param data.memberIds - 招待するユーザーIDの配列（自分は含めない）
+ * @returns 成功時: { conversationId }, 失敗時: { error }
+ *
+ * @example
+ * ```typescript
+ * const result = await createGroupConversation({
+ *   title: '関西盆栽クラブ',
+ *   memberIds: ['user-1', 'user-2'],
+ * })
+ * if (result.conversationId) {
+ *   router.push(`/messages/${result.conversationId}`)
+ * }
+ * ```
+ */
+export async function createGroupConversation(data: { title: string; memberIds: string[] }) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  if (!(await isEmailVerified(session.user.id))) {
+    return { error: EMAIL_NOT_VERIFIED_ERROR }
+  }
+
+  const currentUserId = session.user.id
+
+  // ------------------------------------------------------------
+  // バリデーション
+  // ------------------------------------------------------------
+
+  const title = data.title?.trim()
+  if (!title) {
+    return { error: 'グループ名を入力してください' }
+  }
+
+  if (title.length > GROUP_TITLE_MAX_LENGTH) {
+    return { error: `グループ名は${GROUP_TITLE_MAX_LENGTH}文字以内で入力してください` }
+  }
+
+  /**
+   * 重複と自分自身を除去
+   */
+  const memberIds = [...new Set(data.memberIds)].filter((id) => id !== currentUserId)
+
+  if (memberIds.length < 2) {
+    return { error: 'グループには自分以外に2人以上のメンバーを選んでください' }
+  }
+
+  if (memberIds.length + 1 > GROUP_MAX_MEMBERS) {
+    return { error: `グループの人数は${GROUP_MAX_MEMBERS}人までです` }
+  }
+
+  const validation = await validateNewMembers(currentUserId, memberIds, [currentUserId])
+  if ('error' in validation) {
+    return { error: validation.error }
+  }
+
+  // ------------------------------------------------------------
+  // 会話の作成
+  // ------------------------------------------------------------
+
+  const conversation = await prisma.conversation.create({
+    data: {
+      isGroup: true,
+      title,
+      participants: {
+        create: [
+          { userId: currentUserId, role: 'owner', lastReadAt: new Date() },
+          ...memberIds.map((userId) => ({ userId, role: 'member' as const })),
+        ],
+      },
+    },
+  })
+
+  const creator = await prisma.user.findUnique({
+    where: { id: currentUserId },
+    select: { nickname: true },
+  })
+
+  await createSystemMessage(
+    conversation.id,
+    currentUserId,
+    `${creator?.nickname ?? 'ユーザー'}さんがグループ「${title}」を作成しました`
+  )
+
+  /**
+   * 招待されたメンバーに通知
+   */
+  await prisma.notification.createMany({
+    data: memberIds.map((userId) => ({
+      userId,
+      actorId: currentUserId,
+      type: 'message',
+    })),
+  })
+
+  revalidatePath('/messages')
+
+  return { conversationId: conversation.id }
+}
+
+// ============================================================
+// グループ名の変更
+// ============================================================
+
+/**
+ * グループ名を変更
+ *
+ * owner / admin のみ実行可能
+ *
+ * @param conversationId - 会話ID
+ * @param title - 新しいグループ名
+ * @returns 成功/失敗の結果
+ */
+export async function updateGroupTitle(conversationId: string, title: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const trimmed = title?.trim()
+  if (!trimmed) {
+    return { error: 'グループ名を入力してください' }
+  }
+
+  if (trimmed.length > GROUP_TITLE_MAX_LENGTH) {
+    return { error: `グループ名は${GROUP_TITLE_MAX_LENGTH}文字以内で入力してください` }
+  }
+
+  const actor = await getGroupParticipant(conversationId, session.user.id)
+  if (!actor) {
+    return { error: 'この会話にアクセスする権限がありません' }
+  }
+
+  if (actor.role === 'member') {
+    return { error: 'グループ名を変更する権限がありません' }
+  }
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { title: trimmed },
+  })
+
+  await createSystemMessage(
+    conversationId,
+    session.user.id,
+    `${actor.user.nickname}さんがグループ名を「${trimmed}」に変更しました`
+  )
+
+  revalidateConversation(conversationId)
+  return { success: true }
+}
+
+// ============================================================
+// メンバー追加
+// ============================================================
+
+/**
+ * グループにメンバーを追加
+ *
+ * owner / admin のみ実行可能
+ *
+ * @param conversationId - 会話ID
+ * @param userIds - 追加するユーザーIDの配列
+ * @returns 成功時: { success, addedCount }, 失敗時: { error }
+ */
+export async function addGroupMembers(conversationId: string, userIds: string[]) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  if (!(await isEmailVerified(session.user.id))) {
+    return { error: EMAIL_NOT_VERIFIED_ERROR }
+  }
+
+  const actor = await getGroupParticipant(conversationId, session.user.id)
+  if (!actor) {
+    return { error: 'この会話にアクセスする権限がありません' }
+  }
+
+  if (actor.role === 'member') {
+    return { error: 'メンバーを追加する権限がありません' }
+  }
+
+  const participants = await prisma.conversationParticipant.findMany({
+    where: { conversationId },
+    select: { userId: true },
+  })
+  const existingIds = participants.map((p: typeof participants[number]) => p.userId)
+
+  /**
+   * 既存メンバーと重複を除去
+   */
+  const newIds = [...new Set(userIds)].filter((id) => !existingIds.includes(id))
+
+  if (newIds.length === 0) {
+    return { error: '追加するメンバーを選んでください' }
+  }
+
+  if (existingIds.length + newIds.length > GROUP_MAX_MEMBERS) {
+    return { error: `グループの人数は${GROUP_MAX_MEMBERS}人までです` }
+  }
+
+  const validation = await validateNewMembers(session.user.id, newIds, existingIds)
+  if ('error' in validation) {
+    return { error: validation.error }
+  }
+
+  await prisma.conversationParticipant.createMany({
+    data: newIds.map((userId) => ({ conversationId, userId, role: 'member' as const })),
+  })
+
+  const names = validation.users.map((u: typeof validation.users[number]) => `${u.nickname}さん`).join('、')
+  await createSystemMessage(
+    conversationId,
+    session.user.id,
+    `${actor.user.nickname}さんが${names}を追加しました`
+  )
+
+  await prisma.notification.createMany({
+    data: newIds.map((userId) => ({
+      userId,
+      actorId: session.user.id,
+      type: 'message',
+    })),
+  })
+
+  revalidateConversation(conversationId)
+  return { success: true, addedCount: newIds.length }
+}
+
+// ============================================================
+// メンバー削除
+// ============================================================
+
+/**
+ * グループからメンバーを削除
+ *
+ * ## 権限
+ * - owner: owner以外の全員を削除可能
+ * - admin: 一般メンバーのみ削除可能
+ * - 自分自身の削除は leaveGroupConversation を使う
+ *
+ * @param conversationId - 会話ID
+ * @param userId - 削除するユーザーID
+ * @returns 成功/失敗の結果
+ */
+export async function removeGroupMember(conversationId: string, userId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  if (userId === session.user.id) {
+    return { error: '自分自身を削除することはできません' }
+  }
+
+  const actor = await getGroupParticipant(conversationId, session.user.id)
+  if (!actor) {
+    return { error: 'この会話にアクセスする権限がありません' }
+  }
+
+  const target = await getGroupParticipant(conversationId, userId)
+  if (!target) {
+    return { error: 'メンバーが見つかりません' }
+  }
+
+  const canRemove =
+    (actor.role === 'owner' && target.role !== 'owner') ||
+    (actor.role === 'admin' && target.role === 'member')
+
+  if (!canRemove) {
+    return { error: 'このメンバーを削除する権限がありません' }
+  }
+
+  await prisma.conversationParticipant.delete({
+    where: {
+      conversationId_userId: {
+        conversationId,
+        userId,
+      },
+    },
+  })
+
+  await createSystemMessage(
+    conversationId,
+    session.user.id,
+    `${actor.user.nickname}さんが${target.user.nickname}さんをグループから削除しました`
+  )
+
+  revalidateConversation(conversationId)
+  return { success: true }
+}
+
+// ============================================================
+// グループからの退出
+// ============================================================
+
+/**
+ * グループから退出
+ *
+ * ## オーナーが退出する場合
+ * 参加日時が最も古い管理者（いなければ一般メンバー）にオーナーを引き継ぐ
+ *
+ * ## 最後の1人が退出する場合
+ * 会話ごと削除する
+ *
+ * @param conversationId - 会話ID
+ * @returns 成功/失敗の結果
+ */
+export async function leaveGroupConversation(conversationId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const actor = await getGroupParticipant(conversationId, session.user.id)
+  if (!actor) {
+    return { error: 'この会話にアクセスする権限がありません' }
+  }
+
+  await prisma.conversationParticipant.delete({
+    where: {
+      conversationId_userId: {
+        conversationId,
+        userId: session.user.id,
+      },
+    },
+  })
+
+  const remaining = await prisma.conversationParticipant.findMany({
+    where: { conversationId },
+    include: {
+      user: {
+        select: { nickname: true },
+      },
+    },
+    orderBy: { joinedAt: 'asc' },
+  })
+
+  /**
+   * 誰もいなくなった場合は会話を削除
+   */
+  if (remaining.length === 0) {
+    await prisma.conversation.delete({
+      where: { id: conversationId },
+    })
+    revalidatePath('/messages')
+    return { success: true }
+  }
+
+  await createSystemMessage(
+    conversationId,
+    session.user.id,
+    `${actor.user.nickname}さんがグループから退出しました`
+  )
+
+  /**
+   * オーナーの引き継ぎ
+   */
+  if (actor.role === 'owner') {
+    const successor =
+      remaining.find((p: typeof remaining[number]) => p.role === 'admin') ?? remaining[0]
+
+    await prisma.conversationParticipant.update({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId: successor.userId,
+        },
+      },
+      data: { role: 'owner' },
+    })
+
+    await createSystemMessage(
+      conversationId,
+      successor.userId,
+      `${successor.user.nickname}さんが新しいオーナーになりました`
+    )
+  }
+
+  revalidateConversation(conversationId)
+  return { success: true }
+}
+
+// ============================================================
+// 役割の変更
+// ============================================================
+
+/**
+ * メンバーの役割を変更（管理者の任命/解除）
+ *
+ * ownerのみ実行可能
+ *
+ * @param conversationId - 会話ID
+ * @param userId - 対象ユーザーID
+ * @param role - 新しい役割（'admin' または 'member'）
+ * @returns 成功/失敗の結果
+ */
+export async function updateGroupMemberRole(
+  conversationId: string,
+  userId: string,
+  role: AssignableRole
+) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  if (role !== 'admin' && role !== 'member') {
+    return { error: '無効な役割です' }
+  }
+
+  const actor = await getGroupParticipant(conversationId, session.user.id)
+  if (!actor) {
+    return { error: 'この会話にアクセスする権限がありません' }
+  }
+
+  if (actor.role !== 'owner') {
+    return { error: '役割を変更する権限がありません' }
+  }
+
+  const target = await getGroupParticipant(conversationId, userId)
+  if (!target || target.role === 'owner') {
+    return { error: 'メンバーが見つかりません' }
+  }
+
+  if (target.role === role) {
+    return { success: true }
+  }
+
+  await prisma.conversationParticipant.update({
+    where: {
+      conversationId_userId: {
+        conversationId,
+        userId,
+      },
+    },
+    data: { role },
+  })
+
+  await createSystemMessage(
+    conversationId,
+    session.user.id,
+    role === 'admin'
+      ? `${actor.user.nickname}さんが${target.user.nickname}さんを管理者にしました`
+      : `${actor.user.nickname}さんが${target.user.nickname}さんを管理者から外しました`
+  )
+
+  revalidateConversation(conversationId)
+  return { success: true }
+}
@@ -39,6 +39,24 @@
  */
 import { prisma } from '@/lib/db'
 
+/**
+ * 認証関数
+ * 閲覧者の取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * 投稿の公開範囲の絞り込み条件
+ * 閲覧できない公開範囲の投稿をハッシュタグの投稿一覧から除外するために使用
+ */
+import { buildVisiblePostWhere } from '@/lib/privacy'
+
+/**
+ * トレンドハッシュタグのキャッシュ
+ * 定期ジョブの集計結果を取得するために使用
+ */
+import { getCachedTrendingHashtags } from '@/lib/cache'
+
 /**
  * ロガー
  * エラーログの記録に使用
@@ -274,17 +292,20 @@ export async function detachHashtagsFromPost(postId: string) {
  * トレンドハッシュタグを取得
  *
  * ## 機能概要
- * 現在最も多く使われているハッシュタグを取得します。
+ * 直近で使われるペースが上がっているハッシュタグを取得します。
+ * 累計の使用回数（count）ではなく、定期ジョブが集計した
+ * 直近24時間の使用数と過去7日間の使用ペースの比較結果を使用します。
+ * 集計方法は lib/trending-hashtags を参照してください。
  *
  * ## 用途
- * - サイドバーの「トレンド」セクション
+ * - サイドバーの「トレンドハッシュタグ」セクション
  * - 検索ページのおすすめタグ
  *
  * ## 並び順
- * count の多い順（人気順）
+ * トレンドスコアの高い順
  *
  * @param limit - 取得件数（デフォルト: 10）
- * @returns ハッシュタグ配列
+ * @returns ハッシュタグ配列（直近の使用数・伸び率・勢いを含む）
  *
  * @example
  * ```typescript
@@ -294,8 +315,8 @@ export async function detachHashtagsFromPost(postId: string) {
  *   <div>
  *     <h3>トレンド</h3>
  *     {hashtags.map(tag => (
- *       <Link key={tag.id} href={`/search?tag=${tag.name}`}>
- *         #{tag.name} ({tag.count})
+ *       <Link key={tag.id} href={`/search?q=${encodeURIComponent(`#${tag.name}`)}`}>
+ *         #{tag.name} ({tag.recentCount})
  *       </Link>
  *     ))}
  *   </div>
@@ -305,20 +326,10 @@ export async function detachHashtagsFromPost(postId: string) {
 export async function getTrendingHashtags(limit: number = 10) {
   try {
     // ------------------------------------------------------------
-    // トレンドハッシュタグを取得
+    // 集計済みのトレンドハッシュタグを取得
     // ------------------------------------------------------------
 
-    const hashtags = await prisma.hashtag.findMany({
-      /**
-       * count > 0 のハッシュタグのみ
-       */
-      where: { count: { gt: 0 } },
-      /**
-       * 使用回数の多い順
-       */
-      orderBy: { count: 'desc' },
-      take: limit,
-    })
+    const { hashtags } = await getCachedTrendingHashtags(limit)
 
     return hashtags
   } catch (error) {
@@ -360,6 +371,7 @@ export async function getPostsByHashtag(
   options: { cursor?: string; limit?: number } = {}
 ) {
   const { limit = 20 } = options
+  const session = await auth()
 
   // ------------------------------------------------------------
   // 投稿を検索
@@ -373,10 +385,12 @@ export async function getPostsByHashtag(
   const posts = await prisma.post.findMany({
     where: {
       isHidden: false,  // 非表示でない投稿のみ
+      user: { deactivatedAt: null },  // 一時停止中のユーザーの投稿を除外
       content: {
         contains: `#${hashtagName}`,
         mode: 'insensitive',  // 大文字小文字を区別しない
       },
+      ...buildVisiblePostWhere(session?.user?.id),  // 閲覧できる公開範囲の投稿のみ
     },
     include: {
       /**
@@ -66,6 +66,11 @@ import logger from '@/lib/logger'
  */
 import { checkUserRateLimit } from '@/lib/rate-limit'
 
+/**
+ * いいねした投稿の公開範囲の判定
+ */
+import { buildVisiblePostWhere, canViewUserArea } from '@/lib/privacy'
+
 // ============================================================
 // 投稿いいねトグル
 // ============================================================
@@ -450,6 +455,7 @@ export async function getPostLikeStatus(postId: string) {
  *
  * ## 機能概要
  * 指定されたユーザーがいいねした投稿を新しい順で取得します。
+ * いいねした投稿の公開範囲（User.likesVisibility）外の場合は取得しません。
  *
  * ## 用途
  * - ユーザープロフィールの「いいね」タブ
@@ -485,6 +491,17 @@ export async function getLikedPosts(userId: string, cursor?: string, limit = 20)
   const currentUserId = session?.user?.id
 
   try {
+    // ------------------------------------------------------------
+    // 公開範囲のチェック
+    // ------------------------------------------------------------
+
+    /**
+     * いいねした投稿の公開範囲外の場合は取得しない
+     */
+    if (!(await canViewUserArea(userId, 'likesVisibility', currentUserId))) {
+      return { posts: [], nextCursor: undefined, error: 'いいねした投稿は非公開です' }
+    }
+
     // ------------------------------------------------------------
     // いいね一覧を取得
     // ------------------------------------------------------------
@@ -496,6 +513,7 @@ export async function getLikedPosts(userId: string, cursor?: string, limit = 20)
      * - userId: 指定されたユーザーのいいね
      * - postId: { not: null } - 投稿へのいいね
      * - commentId: null - コメントへのいいねは除外
+     * - post: 閲覧者が見られる公開範囲の投稿のみ
      *
      * ## include
      * post を include して、いいねと投稿を結合
@@ -505,6 +523,7 @@ export async function getLikedPosts(userId: string, cursor?: string, limit = 20)
         userId,
         postId: { not: null },
         commentId: null,
+        post: buildVisiblePostWhere(currentUserId),
       },
       include: {
         /**
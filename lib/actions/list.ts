@@ -0,0 +1,896 @@
+/**
+ * リストのServer Actions
+ *
+ * このファイルは、選んだユーザーの投稿だけを表示する「リスト」に関する
+ * サーバーサイドの処理を提供します。
+ *
+ * ## 機能概要
+ * - リストの作成・編集・削除
+ * - メンバーの追加・削除（プロフィールページから）
+ * - 自分のリスト・フォロー中のリストの一覧取得
+ * - リストのタイムライン取得
+ * - 公開リストのフォロー・フォロー解除
+ *
+ * ## リストの仕様
+ * - 非公開のリストは作成者のみ閲覧できる
+ * - 公開リストは他のユーザーも閲覧・フォローできる
+ * - 公開リストを非公開に変更すると、フォローは解除される
+ * - メンバーに追加・削除されても通知されない
+ * - ブロックすると、お互いのリストのメンバー・フォロワーから外れる
+ *
+ * ## タイムラインのロジック
+ * 1. リストのメンバーの投稿を取得
+ * 2. ブロック（双方向）・ミュート・一時停止中のユーザーの投稿を除外
+ * 3. 閲覧できない公開範囲の投稿を除外
+ * 4. 新しい投稿から順に表示
+ *
+ * @module lib/actions/list
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Next.jsのキャッシュ再検証関数
+ * リスト変更後にページを更新するために使用
+ */
+import { revalidatePath } from 'next/cache'
+
+/**
+ * 除外ユーザーID取得関数
+ * ブロック・ミュートしているユーザーを除外するために使用
+ */
+import { getExcludedUserIds } from './filter-helper'
+
+/**
+ * 投稿の公開範囲の絞り込み条件
+ * 閲覧できない公開範囲の投稿をタイムラインから除外するために使用
+ */
+import { buildVisiblePostWhere } from '@/lib/privacy'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * リスト名の最大文字数
+ */
+const LIST_NAME_MAX_LENGTH = 50
+
+/**
+ * リストの説明の最大文字数
+ */
+const LIST_DESCRIPTION_MAX_LENGTH = 200
+
+/**
+ * 1人が作成できるリストの上限
+ */
+const MAX_LISTS = 20
+
+/**
+ * 1つのリストに追加できるメンバーの上限
+ */
+const MAX_LIST_MEMBERS = 500
+
+// ============================================================
+// 内部ヘルパー
+// ============================================================
+
+/**
+ * リストの入力値を検証
+ *
+ * @param data - リスト名・説明
+ * @returns 検証済みの値、またはエラーメッセージ
+ */
+function validateListInput(data: { name: string; description?: string }) {
+  const name = data.name?.trim()
+  if (!name) {
+    return { error: 'リスト名を入力してください' }
+  }
+
+  if (name.length > LIST_NAME_MAX_LENGTH) {
+    return { error: `リスト名は${LIST_NAME_MAX_LENGTH}文字以内で入力してください` }
+  }
+
+  const description = data.description?.trim() || null
+  if (description && description.length > LIST_DESCRIPTION_MAX_LENGTH) {
+    return { error: `説明は${LIST_DESCRIPTION_MAX_LENGTH}文字以内で入力してください` }
+  }
+
+  return { name, description }
+}
+
+/**
+ * 閲覧できるリストを取得
+ *
+ * 自分のリスト、またはブロック関係にない作成者の公開リストのみを返す
+ *
+ * @param listId - リストID
+ * @param viewerId - 閲覧者のユーザーID
+ */
+async function findViewableList(listId: string, viewerId: string) {
+  return prisma.userList.findFirst({
+    where: {
+      id: listId,
+      OR: [
+        { ownerId: viewerId },
+        {
+          isPublic: true,
+          owner: {
+            deactivatedAt: null,
+            blockedBy: { none: { blockerId: viewerId } },
+            blocking: { none: { blockedId: viewerId } },
+          },
+        },
+      ],
+    },
+  })
+}
+
+// ============================================================
+// リストの作成・編集・削除
+// ============================================================
+
+/**
+ * リストを作成
+ *
+ * @param data - リスト名・説明・公開するか
+ * @returns 成功時は { listId }、失敗時は { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await createList({ name: '関西の盆栽園', isPublic: true })
+ * ```
+ */
+export async function createList(data: { name: string; description?: string; isPublic?: boolean }) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const input = validateListInput(data)
+  if ('error' in input) {
+    return { error: input.error }
+  }
+
+  try {
+    const count = await prisma.userList.count({
+      where: { ownerId: session.user.id },
+    })
+
+    if (count >= MAX_LISTS) {
+      return { error: `リストは${MAX_LISTS}個まで作成できます` }
+    }
+
+    const list = await prisma.userList.create({
+      data: {
+        ownerId: session.user.id,
+        name: input.name,
+        description: input.description,
+        isPublic: data.isPublic ?? false,
+      },
+    })
+
+    revalidatePath('/lists')
+
+    return { listId: list.id }
+  } catch (error) {
+    logger.error('Create list error:', error)
+    return { error: 'リストの作成に失敗しました' }
+  }
+}
+
+/**
+ * リストを編集
+ *
+ * 公開リストを非公開に変更した場合、他のユーザーのフォローは解除されます。
+ *
+ * @param listId - リストID
+ * @param data - リスト名・説明・公開するか
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function updateList(
+  listId: string,
+  data: { name: string; description?: string; isPublic: boolean }
+) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const input = validateListInput(data)
+  if ('error' in input) {
+    return { error: input.error }
+  }
+
+  try {
+    const list = await prisma.userList.findUnique({
+      where: { id: listId },
+      select: { ownerId: true },
+    })
+
+    if (!list || list.ownerId !== session.user.id) {
+      return { error: 'リストが見つかりません' }
+    }
+
+    await prisma.$transaction([
+      prisma.userList.update({
+        where: { id: listId },
+        data: {
+          name: input.name,
+          description: input.description,
+          isPublic: data.isPublic,
+        },
+      }),
+      /**
+       * 非公開にした場合はフォローを解除
+       */
+      ...(data.isPublic ? [] : [prisma.userListFollow.deleteMany({ where: { listId } })]),
+    ])
+
+    revalidatePath('/lists')
+    revalidatePath(`/lists/${listId}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Update list error:', error)
+    return { error: 'リストの更新に失敗しました' }
+  }
+}
+
+/**
+ * リストを削除
+ *
+ * メンバーとフォローも合わせて削除されます（onDelete: Cascade）。
+ *
+ * @param listId - リストID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function deleteList(listId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const list = await prisma.userList.findUnique({
+      where: { id: listId },
+      select: { ownerId: true },
+    })
+
+    if (!list || list.ownerId !== session.user.id) {
+      return { error: 'リストが見つかりません' }
+    }
+
+    await prisma.userList.delete({
+      where: { id: listId },
+    })
+
+    revalidatePath('/lists')
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Delete list error:', error)
+    return { error: 'リストの削除に失敗しました' }
+  }
+}
+
+// ============================================================
+// リスト一覧取得
+// ============================================================
+
+/**
+ * 自分のリストとフォロー中のリストを取得
+ *
+ * ## 用途
+ * - リスト一覧ページ
+ *
+ * @returns 自分のリストとフォロー中のリスト
+ *
+ * @example
+ * ```typescript
+ * const { lists, followedLists } = await getMyLists()
+ * ```
+ */
+export async function getMyLists() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', lists: [], followedLists: [] }
+  }
+
+  try {
+    const [lists, follows] = await Promise.all([
+      prisma.userList.findMany({
+        where: { ownerId: session.user.id },
+        include: {
+          _count: { select: { members: true, follows: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_LISTS,
+      }),
+      /**
+       * フォロー中のリスト
+       *
+       * 非公開に変更されたリストのフォローは解除されるが、念のため公開リストに限定
+       */
+      prisma.userListFollow.findMany({
+        where: {
+          userId: session.user.id,
+          list: { isPublic: true, owner: { deactivatedAt: null } },
+        },
+        include: {
+          list: {
+            include: {
+              owner: { select: { id: true, nickname: true, avatarUrl: true } },
+              _count: { select: { members: true, follows: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ])
+
+    return {
+      lists: lists.map((list: typeof lists[number]) => ({
+        id: list.id,
+        name: list.name,
+        description: list.description,
+        isPublic: list.isPublic,
+        memberCount: list._count.members,
+        followerCount: list._count.follows,
+      })),
+      followedLists: follows.map((follow: typeof follows[number]) => ({
+        id: follow.list.id,
+        name: follow.list.name,
+        description: follow.list.description,
+        isPublic: follow.list.isPublic,
+        owner: follow.list.owner,
+        memberCount: follow.list._count.members,
+        followerCount: follow.list._count.follows,
+      })),
+    }
+  } catch (error) {
+    logger.error('Get my lists error:', error)
+    return { error: 'リストの取得に失敗しました', lists: [], followedLists: [] }
+  }
+}
+
+/**
+ * 自分のリストと、指定したユーザーが含まれているかを取得
+ *
+ * ## 用途
+ * - プロフィールページの「リストに追加」ダイアログ
+ *
+ * @param userId - メンバーかどうかを確認するユーザーのID
+ * @returns 自分のリスト一覧（hasMember 付き）
+ */
+export async function getListsForMember(userId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', lists: [] }
+  }
+
+  try {
+    const lists = await prisma.userList.findMany({
+      where: { ownerId: session.user.id },
+      include: {
+        members: {
+          where: { userId },
+          select: { userId: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_LISTS,
+    })
+
+    return {
+      lists: lists.map((list: typeof lists[number]) => ({
+        id: list.id,
+        name: list.name,
+        isPublic: list.isPublic,
+        hasMember: list.members.length > 0,
+      })),
+    }
+  } catch (error) {
+    logger.error('Get lists for member error:', error)
+    return { error: 'リストの取得に失敗しました', lists: [] }
+  }
+}
+
+/**
+ * リストの詳細を取得
+ *
+ * 非公開のリストは作成者のみ取得できます。
+ *
+ * @param listId - リストID
+ * @returns リストの詳細（作成者・人数・自分のリストか・フォロー中か）
+ */
+export async function getList(listId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const viewable = await findViewableList(listId, session.user.id)
+    if (!viewable) {
+      return { error: 'リストが見つかりません' }
+    }
+
+    const [list, follow] = await Promise.all([
+      prisma.userList.findUnique({
+        where: { id: listId },
+        include: {
+          owner: { select: { id: true, nickname: true, avatarUrl: true } },
+          _count: { select: { members: true, follows: true } },
+        },
+      }),
+      prisma.userListFollow.findUnique({
+        where: { listId_userId: { listId, userId: session.user.id } },
+      }),
+    ])
+
+    if (!list) {
+      return { error: 'リストが見つかりません' }
+    }
+
+    return {
+      list: {
+        id: list.id,
+        name: list.name,
+        description: list.description,
+        isPublic: list.isPublic,
+        owner: list.owner,
+        memberCount: list._count.members,
+        followerCount: list._count.follows,
+        isOwner: list.ownerId === session.user.id,
+        isFollowing: !!follow,
+      },
+    }
+  } catch (error) {
+    logger.error('Get list error:', error)
+    return { error: 'リストの取得に失敗しました' }
+  }
+}
+
+/**
+ * リストのメンバーを取得
+ *
+ * @param listId - リストID
+ * @returns メンバーのユーザー一覧（追加した日時の新しい順）
+ */
+export async function getListMembers(listId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', users: [] }
+  }
+
+  try {
+    const list = await findViewableList(listId, session.user.id)
+    if (!list) {
+      return { error: 'リストが見つかりません', users: [] }
+    }
+
+    const members = await prisma.userListMember.findMany({
+      where: {
+        listId,
+        user: { deactivatedAt: null },
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            nickname: true,
+            avatarUrl: true,
+            bio: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_LIST_MEMBERS,
+    })
+
+    return {
+      users: members.map((m: typeof members[number]) => m.user),
+    }
+  } catch (error) {
+    logger.error('Get list members error:', error)
+    return { error: 'メンバーの取得に失敗しました', users: [] }
+  }
+}
+
+// ============================================================
+// メンバーの追加・削除
+// ============================================================
+
+/**
+ * リストにメンバーを追加
+ *
+ * ## 処理フロー
+ * 1. 認証チェック
+ * 2. 自分のリストか確認
+ * 3. 相手が存在し、ブロック関係にないか確認
+ * 4. 登録済み・上限のチェック
+ * 5. メンバーに追加
+ *
+ * @param listId - リストID
+ * @param userId - 追加するユーザーのID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function addListMember(listId: string, userId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const currentUserId = session.user.id
+
+  try {
+    const list = await prisma.userList.findUnique({
+      where: { id: listId },
+      select: { ownerId: true },
+    })
+
+    if (!list || list.ownerId !== currentUserId) {
+      return { error: 'リストが見つかりません' }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId, deactivatedAt: null },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return { error: 'ユーザーが見つかりません' }
+    }
+
+    /**
+     * ブロック関係（双方向）にあるユーザーは追加できない
+     */
+    const block = await prisma.block.findFirst({
+      where: {
+        OR: [
+          { blockerId: currentUserId, blockedId: userId },
+          { blockerId: userId, blockedId: currentUserId },
+        ],
+      },
+    })
+
+    if (block) {
+      return { error: 'このユーザーはリストに追加できません' }
+    }
+
+    const existing = await prisma.userListMember.findUnique({
+      where: { listId_userId: { listId, userId } },
+    })
+
+    if (existing) {
+      return { error: '既にリストに追加されています' }
+    }
+
+    const count = await prisma.userListMember.count({
+      where: { listId },
+    })
+
+    if (count >= MAX_LIST_MEMBERS) {
+      return { error: `リストには${MAX_LIST_MEMBERS}人まで追加できます` }
+    }
+
+    await prisma.userListMember.create({
+      data: { listId, userId },
+    })
+
+    revalidatePath(`/lists/${listId}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Add list member error:', error)
+    return { error: 'リストへの追加に失敗しました' }
+  }
+}
+
+/**
+ * リストからメンバーを削除
+ *
+ * @param listId - リストID
+ * @param userId - 削除するユーザーのID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function removeListMember(listId: string, userId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const list = await prisma.userList.findUnique({
+      where: { id: listId },
+      select: { ownerId: true },
+    })
+
+    if (!list || list.ownerId !== session.user.id) {
+      return { error: 'リストが見つかりません' }
+    }
+
+    await prisma.userListMember.deleteMany({
+      where: { listId, userId },
+    })
+
+    revalidatePath(`/lists/${listId}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Remove list member error:', error)
+    return { error: 'リストからの削除に失敗しました' }
+  }
+}
+
+// ============================================================
+// リストのフォロー
+// ============================================================
+
+/**
+ * 公開リストをフォロー
+ *
+ * 自分のリストはフォローできません。
+ *
+ * @param listId - リストID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function followList(listId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const list = await findViewableList(listId, session.user.id)
+    if (!list || !list.isPublic) {
+      return { error: 'リストが見つかりません' }
+    }
+
+    if (list.ownerId === session.user.id) {
+      return { error: '自分のリストはフォローできません' }
+    }
+
+    const existing = await prisma.userListFollow.findUnique({
+      where: { listId_userId: { listId, userId: session.user.id } },
+    })
+
+    if (existing) {
+      return { error: '既にフォローしています' }
+    }
+
+    await prisma.userListFollow.create({
+      data: { listId, userId: session.user.id },
+    })
+
+    revalidatePath('/lists')
+    revalidatePath(`/lists/${listId}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Follow list error:', error)
+    return { error: 'リストのフォローに失敗しました' }
+  }
+}
+
+/**
+ * リストのフォローを解除
+ *
+ * @param listId - リストID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function unfollowList(listId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    await prisma.userListFollow.deleteMany({
+      where: { listId, userId: session.user.id },
+    })
+
+    revalidatePath('/lists')
+    revalidatePath(`/lists/${listId}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Unfollow list error:', error)
+    return { error: 'リストのフォロー解除に失敗しました' }
+  }
+}
+
+// ============================================================
+// リストのタイムライン取得
+// ============================================================
+
+/**
+ * リストのタイムラインを取得
+ *
+ * ## 機能概要
+ * リストのメンバーの投稿を新しい順で取得します。
+ * 絞り込みはフォロー中のタイムライン（getTimeline）と同じです。
+ *
+ * ## 除外対象
+ * - ブロック（双方向）・ミュート・一時停止中のユーザーの投稿
+ * - 閲覧できない公開範囲の投稿
+ *
+ * ## ページネーション
+ * カーソルベースのページネーションを採用
+ *
+ * @param listId - リストID
+ * @param cursor - ページネーション用カーソル
+ * @param limit - 取得件数（デフォルト: 20）
+ * @returns タイムライン投稿一覧と次のカーソル
+ *
+ * @example
+ * ```typescript
+ * const { posts, nextCursor } = await getListTimeline('list-123')
+ *
+ * // 追加読み込み
+ * const more = await getListTimeline('list-123', nextCursor)
+ * ```
+ */
+export async function getListTimeline(listId: string, cursor?: string, limit = 20) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', posts: [], nextCursor: undefined }
+  }
+
+  const currentUserId = session.user.id
+
+  try {
+    const list = await findViewableList(listId, currentUserId)
+    if (!list) {
+      return { error: 'リストが見つかりません', posts: [], nextCursor: undefined }
+    }
+
+    // ------------------------------------------------------------
+    // メンバーと除外ユーザーを並列取得
+    // ------------------------------------------------------------
+
+    const [members, excludeIds] = await Promise.all([
+      prisma.userListMember.findMany({
+        where: { listId },
+        select: { userId: true },
+      }),
+      getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true, muted: true, deactivated: true }),
+    ])
+
+    const memberIds = members.map((m: typeof members[number]) => m.userId)
+
+    if (memberIds.length === 0) {
+      return { posts: [], nextCursor: undefined }
+    }
+
+    // ------------------------------------------------------------
+    // タイムライン取得
+    // ------------------------------------------------------------
+
+    const posts = await prisma.post.findMany({
+      where: {
+        userId: {
+          in: memberIds,
+          notIn: excludeIds.length > 0 ? excludeIds : undefined,
+        },
+        ...buildVisiblePostWhere(currentUserId),
+      },
+      include: {
+        user: {
+          select: { id: true, nickname: true, avatarUrl: true },
+        },
+        media: {
+          orderBy: { sortOrder: 'asc' },
+        },
+        genres: {
+          include: { genre: true },
+        },
+        _count: {
+          select: { likes: true, comments: true },
+        },
+        quotePost: {
+          include: {
+            user: {
+              select: { id: true, nickname: true, avatarUrl: true },
+            },
+            media: {
+              orderBy: { sortOrder: 'asc' },
+            },
+          },
+        },
+        repostPost: {
+          include: {
+            user: {
+              select: { id: true, nickname: true, avatarUrl: true },
+            },
+            media: {
+              orderBy: { sortOrder: 'asc' },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      ...(cursor && {
+        cursor: { id: cursor },
+        skip: 1,
+      }),
+    })
+
+    // ------------------------------------------------------------
+    // 現在のユーザーのいいね/ブックマーク状態を取得
+    // ------------------------------------------------------------
+
+    let likedPostIds: Set<string> = new Set()
+    let bookmarkedPostIds: Set<string> = new Set()
+
+    if (posts.length > 0) {
+      const postIds = posts.map((p: typeof posts[number]) => p.id)
+
+      const [userLikes, userBookmarks] = await Promise.all([
+        prisma.like.findMany({
+          where: {
+            userId: currentUserId,
+            postId: { in: postIds },
+            commentId: null, // 投稿へのいいねのみ
+          },
+          select: { postId: true },
+        }),
+        prisma.bookmark.findMany({
+          where: {
+            userId: currentUserId,
+            postId: { in: postIds },
+          },
+          select: { postId: true },
+        }),
+      ])
+
+      likedPostIds = new Set(userLikes.map((l: { postId: string | null }) => l.postId).filter((id: string | null): id is string => id !== null))
+      bookmarkedPostIds = new Set(userBookmarks.map((b: { postId: string }) => b.postId))
+    }
+
+    // ------------------------------------------------------------
+    // 結果の整形と返却
+    // ------------------------------------------------------------
+
+    const formattedPosts = posts.map((post: typeof posts[number]) => ({
+      ...post,
+      likeCount: post._count.likes,
+      commentCount: post._count.comments,
+      genres: post.genres.map((pg: typeof post.genres[number]) => pg.genre),
+      isLiked: likedPostIds.has(post.id),
+      isBookmarked: bookmarkedPostIds.has(post.id),
+    }))
+
+    return {
+      posts: formattedPosts,
+      nextCursor: posts.length === limit ? posts[posts.length - 1]?.id : undefined,
+    }
+  } catch (error) {
+    logger.error('Get list timeline error:', error)
+    return { error: 'タイムラインの取得に失敗しました', posts: [], nextCursor: undefined }
+  }
+}
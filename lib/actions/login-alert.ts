@@ -0,0 +1,89 @@
+/**
+ * ログインの通知関連のServer Actions
+ *
+ * ログインの通知メールの「心当たりがない」リンクの処理を提供します。
+ *
+ * メールのリンクはセキュリティ製品などに事前に読み込まれることがあるため、
+ * リンク先のページではトークンを確認するだけにし、ボタンを押したときに報告します。
+ *
+ * ## 心当たりがないログインの報告
+ * - すべてのデバイスからログアウトさせる（tokenVersion を増やす）
+ * - パスワードを再設定するまで、パスワードでのログインを止める（passwordResetRequired）
+ *
+ * パスワードの再設定（lib/actions/auth.ts の resetPassword）で
+ * パスワードでのログインを再開します。
+ *
+ * @module lib/actions/login-alert
+ */
+
+'use server'
+
+import { prisma } from '@/lib/db'
+import logger from '@/lib/logger'
+import { logSuspiciousActivity } from '@/lib/security-logger'
+import { consumeVerificationToken, findVerificationToken } from '@/lib/email-verification'
+
+/**
+ * 「心当たりがない」リンクのトークンが有効か確認する
+ *
+ * トークンは使用済みにしない（報告ページの表示用）
+ *
+ * @param token - ログインの通知メールのリンクに含まれるトークン
+ * @returns 有効な場合は { success: true }、無効な場合は { error: string }
+ */
+export async function checkLoginAlertToken(token: string) {
+  try {
+    const verified = await findVerificationToken(token, ['login-alert'])
+    if (!verified) {
+      return { error: 'リンクが無効または期限切れです' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Check login alert token error:', error)
+    return { error: 'リンクの確認に失敗しました' }
+  }
+}
+
+/**
+ * 心当たりがないログインを報告し、アカウントを保護する
+ *
+ * メールのリンクは乗っ取られたアカウントとは別の端末で開かれるため、ログインは不要です。
+ *
+ * @param token - ログインの通知メールのリンクに含まれるトークン
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function reportUnrecognizedLogin(token: string) {
+  try {
+    const verified = await consumeVerificationToken(token, ['login-alert'])
+    if (!verified) {
+      return { error: 'リンクが無効または期限切れです' }
+    }
+
+    const userId = verified.subjectId
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          tokenVersion: { increment: 1 },
+          passwordResetRequired: true,
+        },
+      }),
+      prisma.userDevice.updateMany({
+        where: { userId, signedOutAt: null },
+        data: { signedOutAt: new Date() },
+      }),
+      prisma.verificationToken.deleteMany({
+        where: { identifier: `login-alert:${userId}` },
+      }),
+    ])
+
+    logSuspiciousActivity('Unrecognized login reported by account owner', undefined, userId)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Report unrecognized login error:', error)
+    return { error: 'アカウントの保護に失敗しました' }
+  }
+}
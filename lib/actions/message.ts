@@ -12,14 +12,24 @@
  * - 未読メッセージ数の取得
  * - 既読管理
  * - メッセージの削除
+ * - 入力中インジケーターの配信
+ *
+ * ## リアルタイム配信
+ * 新着メッセージ・入力中・既読の各イベントは lib/realtime を通じて
+ * 会話ごとのイベントストリームに配信され、
+ * /api/messages/[conversationId]/stream（SSE）から MessageList に届きます。
  *
  * ## データ構造
- * - Conversation: 会話（2人のユーザー間）
- * - ConversationParticipant: 会話の参加者
- * - Message: 個々のメッセージ
+ * - Conversation: 会話（2人のユーザー間、またはグループ）
+ * - ConversationParticipant: 会話の参加者（グループでは役割を持つ）
+ * - Message: 個々のメッセージ（type: 'text' | 'system'）
+ *
+ * グループの作成・メンバー管理は lib/actions/group-conversation.ts を参照
  *
  * ## セキュリティ
  * - ブロックしているユーザーとはメッセージ不可
+ * - 相手が設定したメッセージを受け付ける相手（User.dmPermission）以外からは会話を開始できない
+ * - グループではブロック関係にあるユーザーのメッセージを表示しない
  * - 会話の参加者のみがメッセージを閲覧可能
  * - 1日のメッセージ送信数制限あり
  *
@@ -50,6 +60,48 @@ import { auth } from '@/lib/auth'
  */
 import { revalidatePath } from 'next/cache'
 
+/**
+ * リアルタイムイベント配信
+ * 新着メッセージ・入力中・既読を会話の参加者に即時配信するために使用
+ */
+import { publishConversationEvent } from '@/lib/realtime'
+
+/**
+ * フィルターヘルパー
+ * グループ会話でブロック関係にあるユーザーのメッセージを除外するために使用
+ */
+import { getExcludedUserIds } from './filter-helper'
+
+/**
+ * レート制限
+ * 画像アップロードの連続実行・1日の上限を制限するために使用
+ */
+import { checkUserRateLimit, checkDailyLimit } from '@/lib/rate-limit'
+
+/**
+ * ファイル検証
+ * シグネチャ検証でMIMEタイプ偽装を防止
+ */
+import { validateImageFile, generateSafeFileName } from '@/lib/file-validation'
+
+/**
+ * ロガー
+ * 添付画像の削除失敗を記録するために使用
+ */
+import logger from '@/lib/logger'
+
+/**
+ * メールアドレスの確認チェック
+ * メールアドレスが未確認のユーザーはメッセージを送れない
+ */
+import { EMAIL_NOT_VERIFIED_ERROR, isEmailVerified } from '@/lib/email-verification'
+
+/**
+ * メッセージを受け付ける相手の判定
+ * 相手の設定（全員・フォロワーのみ・相互フォローのみ・受け付けない）に従って会話の開始を制限する
+ */
+import { canSendMessage, getViewerRelationship } from '@/lib/privacy'
+
 // ============================================================
 // 定数
 // ============================================================
@@ -61,6 +113,79 @@ import { revalidatePath } from 'next/cache'
  */
 const DAILY_MESSAGE_LIMIT = 100
 
+/**
+ * 1メッセージに添付できる画像の最大枚数
+ */
+const MAX_MESSAGE_IMAGES = 4
+
+/**
+ * 添付画像の最大サイズ（4MB）
+ */
+const MAX_MESSAGE_IMAGE_SIZE = 4 * 1024 * 1024
+
+/**
+ * 添付画像の保存先フォルダ
+ *
+ * 送信者ごとに message-images/{userId} に保存する。
+ * 送信時に添付URLが送信者本人のフォルダのものか確認し、
+ * 外部URLや他のユーザーの画像を添付できないようにする
+ */
+const MESSAGE_IMAGE_FOLDER = 'message-images'
+
+/**
+ * ユーザーの添付画像の保存先フォルダ
+ *
+ * @param userId - 送信者のユーザーID
+ */
+function getMessageImageFolder(userId: string): string {
+  return `${MESSAGE_IMAGE_FOLDER}/${userId}`
+}
+
+/**
+ * 添付画像のURLがユーザー本人のアップロードしたものか判定
+ *
+ * 設定されたストレージの公開URLで、かつ本人のフォルダ内のファイルのみ許可する。
+ *
+ * @param url - 添付画像のURL
+ * @param userId - 送信者のユーザーID
+ */
+async function isOwnMessageImageUrl(url: unknown, userId: string): Promise<boolean> {
+  if (typeof url !== 'string') return false
+
+  const { getStorageKey } = await import('@/lib/storage')
+  const key = getStorageKey(url)
+  return !!key && key.startsWith(`${getMessageImageFolder(userId)}/`)
+}
+
+/**
+ * メッセージ取得時に含める添付情報
+ *
+ * - media: 添付画像（表示順）
+ * - sharedPost: 共有された投稿のプレビュー用データ
+ */
+const messageAttachmentInclude = {
+  media: {
+    select: { id: true, url: true, type: true },
+    orderBy: { sortOrder: 'asc' as const },
+  },
+  sharedPost: {
+    select: {
+      id: true,
+      content: true,
+      createdAt: true,
+      isHidden: true,
+      user: {
+        select: { id: true, nickname: true, avatarUrl: true },
+      },
+      media: {
+        select: { url: true, type: true },
+        orderBy: { sortOrder: 'asc' as const },
+        take: 1,
+      },
+    },
+  },
+}
+
 // ============================================================
 // 会話管理
 // ============================================================
@@ -76,8 +201,9 @@ const DAILY_MESSAGE_LIMIT = 100
  * 1. 認証チェック
  * 2. 自分自身へのメッセージ防止
  * 3. ブロック関係のチェック
- * 4. 既存会話の検索
- * 5. 新規会話の作成（必要な場合）
+ * 4. メッセージを受け付ける相手のチェック
+ * 5. 既存会話の検索
+ * 6. 新規会話の作成（必要な場合）
  *
  * @param targetUserId - メッセージを送りたい相手のユーザーID
  * @returns 成功時: { conversationId }, 失敗時: { error }
@@ -110,6 +236,13 @@ export async function getOrCreateConversation(targetUserId: string) {
     return { error: '自分自身にメッセージを送ることはできません' }
   }
 
+  /**
+   * メールアドレスの確認チェック
+   */
+  if (!(await isEmailVerified(session.user.id))) {
+    return { error: EMAIL_NOT_VERIFIED_ERROR }
+  }
+
   // ------------------------------------------------------------
   // ブロックチェック
   // ------------------------------------------------------------
@@ -135,20 +268,50 @@ export async function getOrCreateConversation(targetUserId: string) {
     return { error: 'このユーザーにはメッセージを送れません' }
   }
 
+  // ------------------------------------------------------------
+  // メッセージを受け付ける相手のチェック
+  // ------------------------------------------------------------
+
+  /**
+   * 相手が設定した「メッセージを受け付ける相手」に自分が含まれるかをチェック
+   *
+   * - everyone: 全員
+   * - followers: 相手をフォローしているユーザーのみ
+   * - mutual: 相互フォローのユーザーのみ
+   * - nobody: 受け付けない
+   *
+   * 既存の会話がある場合も、設定が変わった後は会話を開けないようにするため、
+   * 既存会話の検索より前にチェックする
+   */
+  const targetUser = await prisma.user.findUnique({
+    where: { id: targetUserId },
+    select: { dmPermission: true },
+  })
+
+  if (!targetUser) {
+    return { error: 'ユーザーが見つかりません' }
+  }
+
+  const relationship = await getViewerRelationship(targetUserId, session.user.id)
+  if (!canSendMessage(targetUser.dmPermission, relationship)) {
+    return { error: 'このユーザーはメッセージを受け付けていません' }
+  }
+
   // ------------------------------------------------------------
   // 既存会話の検索
   // ------------------------------------------------------------
 
   /**
-   * 両方のユーザーが参加している会話を検索
+   * 両方のユーザーが参加している1対1の会話を検索
    *
    * AND条件で:
    * - 自分が参加者に含まれる
    * - 相手が参加者に含まれる
-   * の両方を満たす会話を探す
+   * の両方を満たす会話を探す（グループ会話は除外）
    */
   const existingConversation = await prisma.conversation.findFirst({
     where: {
+      isGroup: false,
       AND: [
         { participants: { some: { userId: session.user.id } } },
         { participants: { some: { userId: targetUserId } } },
@@ -195,16 +358,19 @@ export async function getOrCreateConversation(targetUserId: string) {
  * 指定した会話にメッセージを送信します。
  *
  * ## バリデーション
- * - 空メッセージは不可
+ * - 本文・画像・共有投稿のいずれかが必要
  * - 1000文字以内
+ * - 画像は4枚まで（uploadMessageImage でアップロードしたもののみ）
+ * - 共有する投稿は非表示でなく、投稿者とブロック関係がないこと
  * - 1日100件まで
  *
  * ## 副作用
  * - 会話のupdatedAtを更新（一覧でソートに使用）
- * - 相手に通知を作成
+ * - 相手（グループでは自分以外の全員）に通知を作成
  *
  * @param conversationId - 会話ID
  * @param content - メッセージ内容
+ * @param attachments - 添付（画像URL・共有する投稿ID）
  * @returns 成功時: { success, message }, 失敗時: { error }
  *
  * @example
@@ -214,9 +380,16 @@ export async function getOrCreateConversation(targetUserId: string) {
  *   // メッセージ一覧に追加
  *   setMessages(prev => [...prev, result.message])
  * }
+ *
+ * // 投稿をDMで共有
+ * await sendMessage(conversationId, '', { sharedPostId: post.id })
  * ```
  */
-export async function sendMessage(conversationId: string, content: string) {
+export async function sendMessage(
+  conversationId: string,
+  content: string,
+  attachments: { imageUrls?: string[]; sharedPostId?: string } = {}
+) {
   // ------------------------------------------------------------
   // 認証チェック
   // ------------------------------------------------------------
@@ -226,24 +399,57 @@ export async function sendMessage(conversationId: string, content: string) {
     return { error: '認証が必要です' }
   }
 
+  if (!(await isEmailVerified(session.user.id))) {
+    return { error: EMAIL_NOT_VERIFIED_ERROR }
+  }
+
   // ------------------------------------------------------------
   // バリデーション
   // ------------------------------------------------------------
 
+  const imageUrls = attachments.imageUrls ?? []
+  const sharedPostId = attachments.sharedPostId
+
   /**
    * 空メッセージチェック
+   * 画像や共有投稿があれば本文は省略可能
    */
-  if (!content || content.trim().length === 0) {
+  const hasAttachment = imageUrls.length > 0 || !!sharedPostId
+  if ((!content || content.trim().length === 0) && !hasAttachment) {
     return { error: 'メッセージを入力してください' }
   }
 
   /**
    * 文字数制限チェック
    */
-  if (content.length > 1000) {
+  if (content && content.length > 1000) {
     return { error: 'メッセージは1000文字以内で入力してください' }
   }
 
+  /**
+   * 添付画像チェック
+   * 枚数と、送信者本人がDM用にアップロードしたものかを確認
+   * 1枚の画像は1つのメッセージにのみ添付できる（削除時にファイルごと消すため）
+   */
+  if (imageUrls.length > MAX_MESSAGE_IMAGES) {
+    return { error: `画像は${MAX_MESSAGE_IMAGES}枚まで添付できます` }
+  }
+
+  if (imageUrls.length > 0) {
+    const senderId = session.user.id
+    const ownership = await Promise.all(imageUrls.map((url) => isOwnMessageImageUrl(url, senderId)))
+    if (ownership.includes(false) || new Set(imageUrls).size !== imageUrls.length) {
+      return { error: '無効な画像が含まれています' }
+    }
+
+    const attachedCount = await prisma.messageMedia.count({
+      where: { url: { in: imageUrls } },
+    })
+    if (attachedCount > 0) {
+      return { error: '無効な画像が含まれています' }
+    }
+  }
+
   // ------------------------------------------------------------
   // 会話参加者チェック
   // ------------------------------------------------------------
@@ -261,12 +467,19 @@ export async function sendMessage(conversationId: string, content: string) {
         userId: session.user.id,
       },
     },
+    include: {
+      conversation: {
+        select: { isGroup: true },
+      },
+    },
   })
 
   if (!participant) {
     return { error: 'この会話にアクセスする権限がありません' }
   }
 
+  const isGroup = participant.conversation.isGroup
+
   // ------------------------------------------------------------
   // 日次制限チェック
   // ------------------------------------------------------------
@@ -296,16 +509,20 @@ export async function sendMessage(conversationId: string, content: string) {
   // ------------------------------------------------------------
 
   /**
-   * 相手の参加者を取得
+   * 相手の参加者を取得（1対1の会話のみ）
    *
    * 自分以外の参加者を検索
+   * グループではブロック関係のメンバーのメッセージを閲覧側で非表示にするため、
+   * 送信自体は制限しない
    */
-  const otherParticipant = await prisma.conversationParticipant.findFirst({
-    where: {
-      conversationId,
-      userId: { not: session.user.id },
-    },
-  })
+  const otherParticipant = isGroup
+    ? null
+    : await prisma.conversationParticipant.findFirst({
+        where: {
+          conversationId,
+          userId: { not: session.user.id },
+        },
+      })
 
   /**
    * 送信時にも再度ブロック関係をチェック
@@ -326,6 +543,42 @@ export async function sendMessage(conversationId: string, content: string) {
     }
   }
 
+  // ------------------------------------------------------------
+  // 共有する投稿のチェック
+  // ------------------------------------------------------------
+
+  if (sharedPostId) {
+    const post = await prisma.post.findUnique({
+      where: { id: sharedPostId },
+      select: { id: true, userId: true, isHidden: true, audience: true },
+    })
+
+    /**
+     * 全体公開以外の投稿は、相手が閲覧できるとは限らないため共有不可
+     */
+    if (!post || post.isHidden || post.audience !== 'public') {
+      return { error: 'この投稿は共有できません' }
+    }
+
+    /**
+     * 投稿者とブロック関係にある場合は共有不可
+     */
+    if (post.userId !== session.user.id) {
+      const blocked = await prisma.block.findFirst({
+        where: {
+          OR: [
+            { blockerId: session.user.id, blockedId: post.userId },
+            { blockerId: post.userId, blockedId: session.user.id },
+          ],
+        },
+      })
+
+      if (blocked) {
+        return { error: 'この投稿は共有できません' }
+      }
+    }
+  }
+
   // ------------------------------------------------------------
   // メッセージ作成
   // ------------------------------------------------------------
@@ -333,18 +586,29 @@ export async function sendMessage(conversationId: string, content: string) {
   /**
    * メッセージをデータベースに保存
    *
-   * includeで送信者情報も返す（UI表示用）
+   * includeで送信者情報・添付も返す（UI表示用）
    */
   const message = await prisma.message.create({
     data: {
       conversationId,
       senderId: session.user.id,
-      content: content.trim(),
+      content: content?.trim() ?? '',
+      sharedPostId: sharedPostId ?? null,
+      ...(imageUrls.length > 0 && {
+        media: {
+          create: imageUrls.map((url, index) => ({
+            url,
+            type: 'image',
+            sortOrder: index,
+          })),
+        },
+      }),
     },
     include: {
       sender: {
         select: { id: true, nickname: true, avatarUrl: true },
       },
+      ...messageAttachmentInclude,
     },
   })
 
@@ -361,11 +625,55 @@ export async function sendMessage(conversationId: string, content: string) {
     data: { updatedAt: new Date() },
   })
 
+  // ------------------------------------------------------------
+  // リアルタイム配信
+  // ------------------------------------------------------------
+
+  /**
+   * 会話を開いている参加者の画面に新着メッセージを即時反映
+   */
+  await publishConversationEvent(conversationId, {
+    type: 'message',
+    message: {
+      id: message.id,
+      type: message.type,
+      content: message.content,
+      createdAt: message.createdAt.toISOString(),
+      sender: message.sender,
+      media: message.media,
+      sharedPost: message.sharedPost && {
+        ...message.sharedPost,
+        createdAt: message.sharedPost.createdAt.toISOString(),
+      },
+    },
+  })
+
   // ------------------------------------------------------------
   // 相手に通知を作成
   // ------------------------------------------------------------
 
-  if (otherParticipant) {
+  if (isGroup) {
+    /**
+     * グループでは自分以外の全メンバーに通知
+     */
+    const members = await prisma.conversationParticipant.findMany({
+      where: {
+        conversationId,
+        userId: { not: session.user.id },
+      },
+      select: { userId: true },
+    })
+
+    if (members.length > 0) {
+      await prisma.notification.createMany({
+        data: members.map((m: typeof members[number]) => ({
+          userId: m.userId,
+          actorId: session.user.id,
+          type: 'message',
+        })),
+      })
+    }
+  } else if (otherParticipant) {
     /**
      * メッセージ通知を作成
      *
@@ -508,7 +816,13 @@ export async function getConversations() {
     return {
       id: conv.id,
       updatedAt: conv.updatedAt,
-      otherUser: otherParticipant?.user || null,
+      isGroup: conv.isGroup,
+      title: conv.title,
+      memberCount: conv.participants.length,
+      /**
+       * グループでは特定の相手がいないためnull
+       */
+      otherUser: conv.isGroup ? null : otherParticipant?.user || null,
       lastMessage: lastMessage || null,
       hasUnread: unreadCount > 0,
     }
@@ -598,10 +912,31 @@ export async function getConversation(conversationId: string) {
     (p: typeof conversation.participants[number]) => p.userId !== session.user.id
   )
 
+  /**
+   * 参加者ごとの既読時刻
+   * 自分のメッセージに「既読」を表示するために使用（自分は除く）
+   */
+  const memberLastReadAts: Record<string, Date | null> = {}
+  for (const p of conversation.participants) {
+    if (p.userId !== session.user.id) {
+      memberLastReadAts[p.userId] = p.lastReadAt
+    }
+  }
+
   return {
     conversation: {
       id: conversation.id,
-      otherUser: otherParticipant?.user || null,
+      isGroup: conversation.isGroup,
+      title: conversation.title,
+      otherUser: conversation.isGroup ? null : otherParticipant?.user || null,
+      /**
+       * グループのメンバー一覧（役割付き、参加順）
+       */
+      members: [...conversation.participants]
+        .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())
+        .map((p) => ({ ...p.user, role: p.role })),
+      myRole: participant.role,
+      memberLastReadAts,
     },
   }
 }
@@ -659,6 +994,11 @@ export async function getMessages(conversationId: string, cursor?: string, limit
         userId: session.user.id,
       },
     },
+    include: {
+      conversation: {
+        select: { isGroup: true },
+      },
+    },
   })
 
   if (!participant) {
@@ -669,17 +1009,34 @@ export async function getMessages(conversationId: string, cursor?: string, limit
   // メッセージ取得
   // ------------------------------------------------------------
 
+  /**
+   * グループではブロック関係にあるユーザーのメッセージを除外
+   * （システムメッセージは参加状況の把握に必要なため常に表示）
+   */
+  const excludedUserIds = participant.conversation.isGroup
+    ? await getExcludedUserIds(session.user.id, { blocked: true, blockedBy: true })
+    : []
+
   /**
    * メッセージを取得（カーソルページネーション）
    *
    * 新しい順で取得（後で古い順に並べ替える）
    */
   const messages = await prisma.message.findMany({
-    where: { conversationId },
+    where: {
+      conversationId,
+      ...(excludedUserIds.length > 0 && {
+        OR: [
+          { senderId: { notIn: excludedUserIds } },
+          { type: 'system' },
+        ],
+      }),
+    },
     include: {
       sender: {
         select: { id: true, nickname: true, avatarUrl: true },
       },
+      ...messageAttachmentInclude,
     },
     orderBy: { createdAt: 'desc' },
     take: limit,
@@ -689,6 +1046,27 @@ export async function getMessages(conversationId: string, cursor?: string, limit
     }),
   })
 
+  /**
+   * 共有された投稿のうち、非表示になったものや
+   * 投稿者とブロック関係にあるものはプレビューを表示しない
+   */
+  const hasSharedPost = messages.some((m: typeof messages[number]) => m.sharedPost)
+  const sharedPostExcludedIds = hasSharedPost
+    ? new Set(
+        participant.conversation.isGroup
+          ? excludedUserIds
+          : await getExcludedUserIds(session.user.id, { blocked: true, blockedBy: true })
+      )
+    : new Set<string>()
+
+  const visibleMessages = messages.map((m: typeof messages[number]) => ({
+    ...m,
+    sharedPost:
+      m.sharedPost && !m.sharedPost.isHidden && !sharedPostExcludedIds.has(m.sharedPost.user.id)
+        ? m.sharedPost
+        : null,
+  }))
+
   // ------------------------------------------------------------
   // 既読時刻を更新
   // ------------------------------------------------------------
@@ -696,6 +1074,7 @@ export async function getMessages(conversationId: string, cursor?: string, limit
   /**
    * メッセージを取得したタイミングで既読に
    */
+  const lastReadAt = new Date()
   await prisma.conversationParticipant.update({
     where: {
       conversationId_userId: {
@@ -703,7 +1082,16 @@ export async function getMessages(conversationId: string, cursor?: string, limit
         userId: session.user.id,
       },
     },
-    data: { lastReadAt: new Date() },
+    data: { lastReadAt },
+  })
+
+  /**
+   * 相手の画面に既読を反映
+   */
+  await publishConversationEvent(conversationId, {
+    type: 'read',
+    userId: session.user.id,
+    lastReadAt: lastReadAt.toISOString(),
   })
 
   return {
@@ -713,13 +1101,13 @@ export async function getMessages(conversationId: string, cursor?: string, limit
      * reverse()で配列を逆順に
      * チャットUIでは古いメッセージが上に表示されるため
      */
-    messages: messages.reverse(),
+    messages: visibleMessages.reverse(),
     /**
      * 次のページのカーソル
      *
      * 逆順なので最初の要素（元々は最後＝最古のメッセージ）のIDを返す
      */
-    nextCursor: messages.length === limit ? messages[0]?.id : undefined,
+    nextCursor: visibleMessages.length === limit ? visibleMessages[0]?.id : undefined,
     /**
      * 現在のユーザーID
      *
@@ -845,6 +1233,7 @@ export async function markAsRead(conversationId: string) {
   /**
    * 既読時刻を更新
    */
+  const lastReadAt = new Date()
   await prisma.conversationParticipant.update({
     where: {
       conversationId_userId: {
@@ -852,13 +1241,80 @@ export async function markAsRead(conversationId: string) {
         userId: session.user.id,
       },
     },
-    data: { lastReadAt: new Date() },
+    data: { lastReadAt },
+  })
+
+  /**
+   * 相手の画面に既読を反映
+   */
+  await publishConversationEvent(conversationId, {
+    type: 'read',
+    userId: session.user.id,
+    lastReadAt: lastReadAt.toISOString(),
   })
 
   revalidatePath('/messages')
   return { success: true }
 }
 
+// ============================================================
+// 入力中インジケーター
+// ============================================================
+
+/**
+ * 入力中であることを会話の参加者に通知
+ *
+ * ## 機能概要
+ * メッセージ入力欄で文字を入力している間、クライアントから数秒おきに呼び出します。
+ * DBには保存せず、リアルタイムイベントとしてのみ配信します。
+ *
+ * @param conversationId - 会話ID
+ * @returns 成功/失敗の結果
+ *
+ * @example
+ * ```typescript
+ * // 入力のたびに呼ぶと多すぎるので間引いて呼び出す
+ * if (Date.now() - lastSentAt > 3000) {
+ *   sendTypingIndicator(conversationId)
+ * }
+ * ```
+ */
+export async function sendTypingIndicator(conversationId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  /**
+   * 参加者チェック（表示名も同時に取得）
+   */
+  const participant = await prisma.conversationParticipant.findUnique({
+    where: {
+      conversationId_userId: {
+        conversationId,
+        userId: session.user.id,
+      },
+    },
+    include: {
+      user: {
+        select: { nickname: true },
+      },
+    },
+  })
+
+  if (!participant) {
+    return { error: 'この会話にアクセスする権限がありません' }
+  }
+
+  await publishConversationEvent(conversationId, {
+    type: 'typing',
+    userId: session.user.id,
+    nickname: participant.user.nickname,
+  })
+
+  return { success: true }
+}
+
 // ============================================================
 // メッセージ削除
 // ============================================================
@@ -869,6 +1325,7 @@ export async function markAsRead(conversationId: string) {
  * ## 機能概要
  * 自分が送信したメッセージを削除します。
  * 他のユーザーのメッセージは削除できません。
+ * 添付画像はストレージからも削除します。
  *
  * @param messageId - 削除するメッセージのID
  * @returns 成功/失敗の結果
@@ -906,6 +1363,10 @@ export async function deleteMessage(messageId: string) {
       id: true,
       senderId: true,
       conversationId: true,
+      type: true,
+      media: {
+        select: { url: true },
+      },
     },
   })
 
@@ -915,8 +1376,9 @@ export async function deleteMessage(messageId: string) {
 
   /**
    * 自分が送信したメッセージのみ削除可能
+   * システムメッセージ（グループの参加・退出など）は削除できない
    */
-  if (message.senderId !== session.user.id) {
+  if (message.senderId !== session.user.id || message.type === 'system') {
     return { error: 'このメッセージを削除する権限がありません' }
   }
 
@@ -928,7 +1390,141 @@ export async function deleteMessage(messageId: string) {
     where: { id: messageId },
   })
 
+  // ------------------------------------------------------------
+  // 添付画像の削除
+  // ------------------------------------------------------------
+
+  /**
+   * DBのレコードはカスケード削除されるため、ストレージ上のファイルのみ削除
+   * 送信者本人のフォルダ内のファイル以外は削除しない
+   * 削除に失敗してもメッセージの削除自体は成功として扱う
+   */
+  if (message.media.length > 0) {
+    const { deleteFile } = await import('@/lib/storage')
+
+    for (const media of message.media) {
+      if (!(await isOwnMessageImageUrl(media.url, session.user.id))) {
+        logger.warn('Skipped deleting message media outside sender folder:', media.url)
+        continue
+      }
+
+      const result = await deleteFile(media.url).catch((error: unknown) => ({
+        success: false,
+        error: String(error),
+      }))
+      if (!result.success) {
+        logger.warn('Failed to delete message media:', media.url, result.error)
+      }
+    }
+  }
+
   revalidatePath(`/messages/${message.conversationId}`)
   revalidatePath('/messages')
   return { success: true }
 }
+
+// ============================================================
+// 添付画像アップロード
+// ============================================================
+
+/**
+ * メッセージに添付する画像をアップロード
+ *
+ * ## 機能概要
+ * 画像をストレージにアップロードし、URLを返します。
+ * 返されたURLを sendMessage の attachments.imageUrls に渡して送信します。
+ *
+ * ## バリデーション
+ * - 画像のみ（動画は不可）
+ * - 4MB以下
+ * - ファイルシグネチャの検証（MIMEタイプ偽装の防止）
+ * - レート制限・1日のアップロード上限
+ *
+ * @param formData - 'file' フィールドに画像ファイルを含むFormData
+ * @returns 成功時: { success, url }, 失敗時: { error }
+ *
+ * @example
+ * ```typescript
+ * const formData = new FormData()
+ * formData.append('file', imageFile)
+ *
+ * const result = await uploadMessageImage(formData)
+ * if (result.url) {
+ *   setImageUrls(prev => [...prev, result.url])
+ * }
+ * ```
+ */
+export async function uploadMessageImage(formData: FormData) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  // ------------------------------------------------------------
+  // レート制限チェック
+  // ------------------------------------------------------------
+
+  const rateLimitResult = await checkUserRateLimit(session.user.id, 'upload')
+  if (!rateLimitResult.success) {
+    return { error: 'アップロードが多すぎます。しばらく待ってから再試行してください' }
+  }
+
+  const dailyLimitResult = await checkDailyLimit(session.user.id, 'upload')
+  if (!dailyLimitResult.allowed) {
+    return { error: `1日のアップロード上限（${dailyLimitResult.limit}回）に達しました` }
+  }
+
+  // ------------------------------------------------------------
+  // ファイル検証
+  // ------------------------------------------------------------
+
+  const file = formData.get('file') as File | null
+  if (!file) {
+    return { error: 'ファイルが選択されていません' }
+  }
+
+  if (!file.type.startsWith('image/')) {
+    return { error: '画像ファイルを選択してください' }
+  }
+
+  if (file.size > MAX_MESSAGE_IMAGE_SIZE) {
+    return { error: '画像は4MB以下にしてください' }
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer())
+
+  /**
+   * ファイルシグネチャを検証
+   */
+  const validation = validateImageFile(buffer, file.type)
+  if (!validation.valid) {
+    return { error: validation.error }
+  }
+
+  // ------------------------------------------------------------
+  // ストレージにアップロード
+  // ------------------------------------------------------------
+
+  /**
+   * ストレージモジュールを動的インポート
+   * コード分割のため、必要な時のみロード
+   */
+  const { uploadFile } = await import('@/lib/storage')
+
+  const result = await uploadFile(
+    buffer,
+    generateSafeFileName(file.name, file.type),
+    file.type,
+    getMessageImageFolder(session.user.id)
+  )
+
+  if (!result.success || !result.url) {
+    return { error: result.error || 'アップロードに失敗しました' }
+  }
+
+  return { success: true, url: result.url }
+}
@@ -75,13 +75,18 @@ import { getMutedUserIds } from './filter-helper'
  * - 'comment_like': コメントへのいいね通知
  * - 'follow_request': フォローリクエスト通知（非公開アカウント用）
  * - 'follow_request_approved': フォローリクエスト承認通知
+ * - 'care_reminder': お手入れ予定日の通知（Cronジョブが作成）
+ * - 'saved_search': 保存した検索に一致する新着投稿の通知（Cronジョブが作成）
+ * - 'data_export_ready': データのエクスポート完了の通知（Cronジョブが作成）
+ * - 'new_login': 新しいデバイス・IPアドレスからのログインの通知（lib/login-alert）
+ * - 'login_lockout': ログイン制限の通知（lib/login-alert）
  *
  * ## 使用例
  * ```typescript
  * const type: NotificationType = 'like'
  * ```
  */
-export type NotificationType = 'like' | 'comment' | 'follow' | 'quote' | 'reply' | 'comment_like' | 'follow_request' | 'follow_request_approved'
+export type NotificationType = 'like' | 'comment' | 'follow' | 'quote' | 'reply' | 'comment_like' | 'follow_request' | 'follow_request_approved' | 'care_reminder' | 'bonsai_transfer' | 'bonsai_transfer_accepted' | 'data_export_ready' | 'new_login' | 'login_lockout' | 'saved_search'
 
 // ============================================================
 // 通知一覧取得
@@ -151,6 +156,8 @@ export async function getNotifications(cursor?: string, limit = 20) {
    * - actor: 通知のトリガーとなったユーザー
    * - post: 関連する投稿（いいね、コメント通知など）
    * - comment: 関連するコメント（返信、コメントいいね通知など）
+   * - bonsai: 関連する盆栽（お手入れリマインダー通知）
+   * - savedSearch: 関連する保存した検索（保存した検索の新着通知）
    */
   const notifications = await prisma.notification.findMany({
     where: {
@@ -184,6 +191,20 @@ export async function getNotifications(cursor?: string, limit = 20) {
       comment: {
         select: { id: true, content: true },
       },
+      /**
+       * 関連する盆栽
+       * お手入れリマインダー通知で使用
+       */
+      bonsai: {
+        select: { id: true, name: true },
+      },
+      /**
+       * 関連する保存した検索
+       * 保存した検索の新着通知で使用
+       */
+      savedSearch: {
+        select: { id: true, query: true, genreIds: true, hashtag: true },
+      },
     },
     /**
      * 新しい通知から順に表示
@@ -0,0 +1,262 @@
+/**
+ * パスキー（WebAuthn）Server Actions
+ *
+ * パスキーの登録・名前の変更・削除と、
+ * パスワードなしのログインに使う認証オプションの取得を提供します。
+ *
+ * ## 機能概要
+ * - 登録済みパスキーの一覧取得
+ * - パスキーの登録（名前を付けて複数登録可能）
+ * - パスキーの名前変更・削除
+ * - ログイン用の認証オプション取得
+ *
+ * ログインそのものは next-auth/react の signIn('passkey') で行います
+ * （lib/auth.ts の passkey プロバイダーを参照）。
+ *
+ * @module lib/actions/passkey
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/db'
+import { auth } from '@/lib/auth'
+import logger from '@/lib/logger'
+import {
+  createRegistrationOptions,
+  verifyRegistration,
+  createAuthenticationOptions,
+  MAX_PASSKEYS_PER_USER,
+  type PasskeyRegistrationResponse,
+} from '@/lib/passkey'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * パスキー名の最大文字数
+ */
+const PASSKEY_NAME_MAX_LENGTH = 50
+
+// ============================================================
+// 一覧取得
+// ============================================================
+
+/**
+ * 登録済みのパスキーを取得する
+ *
+ * @returns パスキーの一覧
+ */
+export async function getPasskeys() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const passkeys = await prisma.passkey.findMany({
+    where: { userId: session.user.id },
+    select: {
+      id: true,
+      name: true,
+      deviceType: true,
+      backedUp: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return { passkeys }
+}
+
+// ============================================================
+// 登録
+// ============================================================
+
+/**
+ * パスキー登録用のオプションを取得する
+ *
+ * @returns startRegistration に渡すオプション
+ */
+export async function getPasskeyRegistrationOptions() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      id: true,
+      email: true,
+      nickname: true,
+      _count: { select: { passkeys: true } },
+    },
+  })
+
+  if (!user) {
+    return { error: 'ユーザーが見つかりません' }
+  }
+
+  if (user._count.passkeys >= MAX_PASSKEYS_PER_USER) {
+    return { error: `パスキーは${MAX_PASSKEYS_PER_USER}個まで登録できます` }
+  }
+
+  const options = await createRegistrationOptions(user)
+  return { options }
+}
+
+/**
+ * パスキーを登録する
+ *
+ * @param name - パスキーの名前（例: iPhone）
+ * @param response - startRegistration の戻り値
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function registerPasskey(name: string, response: PasskeyRegistrationResponse) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const trimmedName = name.trim()
+  if (!trimmedName) {
+    return { error: '名前を入力してください' }
+  }
+  if (trimmedName.length > PASSKEY_NAME_MAX_LENGTH) {
+    return { error: `名前は${PASSKEY_NAME_MAX_LENGTH}文字以内で入力してください` }
+  }
+
+  try {
+    const credential = await verifyRegistration(response)
+    if (!credential) {
+      return { error: 'パスキーを確認できませんでした。もう一度お試しください。' }
+    }
+
+    const existing = await prisma.passkey.findUnique({
+      where: { credentialId: credential.credentialId },
+      select: { id: true },
+    })
+    if (existing) {
+      return { error: 'このパスキーは既に登録されています' }
+    }
+
+    await prisma.passkey.create({
+      data: {
+        userId: session.user.id,
+        name: trimmedName,
+        ...credential,
+      },
+    })
+
+    revalidatePath('/settings/security')
+    return { success: true }
+  } catch (error) {
+    logger.error('Register passkey error:', error)
+    return { error: 'パスキーの登録に失敗しました' }
+  }
+}
+
+// ============================================================
+// 名前変更・削除
+// ============================================================
+
+/**
+ * パスキーの名前を変更する
+ *
+ * @param passkeyId - パスキーID
+ * @param name - 新しい名前
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function renamePasskey(passkeyId: string, name: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const trimmedName = name.trim()
+  if (!trimmedName) {
+    return { error: '名前を入力してください' }
+  }
+  if (trimmedName.length > PASSKEY_NAME_MAX_LENGTH) {
+    return { error: `名前は${PASSKEY_NAME_MAX_LENGTH}文字以内で入力してください` }
+  }
+
+  const passkey = await prisma.passkey.findUnique({
+    where: { id: passkeyId },
+    select: { userId: true },
+  })
+
+  if (!passkey || passkey.userId !== session.user.id) {
+    return { error: 'パスキーが見つかりません' }
+  }
+
+  await prisma.passkey.update({
+    where: { id: passkeyId },
+    data: { name: trimmedName },
+  })
+
+  revalidatePath('/settings/security')
+  return { success: true }
+}
+
+/**
+ * パスキーを削除する
+ *
+ * パスワードもソーシャルログインの連携もない場合、
+ * 最後のパスキーはログインできなくなるため削除できません。
+ *
+ * @param passkeyId - パスキーID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function deletePasskey(passkeyId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      password: true,
+      passkeys: { select: { id: true } },
+      _count: { select: { accounts: true } },
+    },
+  })
+
+  if (!user || !user.passkeys.some((p) => p.id === passkeyId)) {
+    return { error: 'パスキーが見つかりません' }
+  }
+
+  if (!user.password && user._count.accounts === 0 && user.passkeys.length <= 1) {
+    return { error: 'ほかにログインする方法がないため削除できません' }
+  }
+
+  await prisma.passkey.delete({ where: { id: passkeyId } })
+
+  revalidatePath('/settings/security')
+  return { success: true }
+}
+
+// ============================================================
+// ログイン
+// ============================================================
+
+/**
+ * パスワードなしのログインに使う認証オプションを取得する
+ *
+ * 認証器に保存されたパスキーからユーザーに選んでもらうため、
+ * メールアドレスの入力は不要です。
+ *
+ * @returns startAuthentication に渡すオプション
+ */
+export async function getPasskeyLoginOptions() {
+  try {
+    const options = await createAuthenticationOptions('login')
+    return { options }
+  } catch (error) {
+    logger.error('Get passkey login options error:', error)
+    return { error: 'パスキーでのログインを開始できませんでした' }
+  }
+}
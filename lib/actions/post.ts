@@ -106,6 +106,13 @@ import { attachHashtagsToPost, detachHashtagsFromPost } from './hashtag'
  */
 import { notifyMentionedUsers } from './mention'
 
+/**
+ * getDeactivatedUserIds: 一時停止中のユーザーIDの取得
+ *
+ * 一時停止中のユーザーの投稿を一覧から除外するために使用。
+ */
+import { getDeactivatedUserIds } from './filter-helper'
+
 /**
  * logger: ロギングユーティリティ
  *
@@ -113,6 +120,20 @@ import { notifyMentionedUsers } from './mention'
  */
 import logger from '@/lib/logger'
 
+/**
+ * isEmailVerified: メールアドレスの確認チェック
+ *
+ * メールアドレスが未確認のユーザーは投稿できない。
+ */
+import { EMAIL_NOT_VERIFIED_ERROR, isEmailVerified } from '@/lib/email-verification'
+
+/**
+ * 投稿の公開範囲の検証・判定
+ *
+ * フォロワー限定などの投稿が、閲覧できないユーザーや引用・リポストに漏れないようにする。
+ */
+import { buildVisiblePostWhere, canViewPost, getViewerRelationship, isCloseFriendOf, isPostAudience } from '@/lib/privacy'
+
 // ============================================================
 // 投稿作成
 // ============================================================
@@ -130,6 +151,7 @@ import logger from '@/lib/logger'
  *   - genreIds: 選択されたジャンルIDの配列
  *   - mediaUrls: アップロード済みメディアのURL配列
  *   - mediaTypes: メディアの種類（'image' | 'video'）配列
+ *   - audience: 公開範囲（'public' | 'followers' | 'mutuals' | 'close_friends' | 'private'、省略時は 'public'）
  *
  * ## 戻り値
  * @returns Promise<{ success: true, postId: string } | { error: string }>
@@ -189,6 +211,15 @@ export async function createPost(formData: FormData) {
     return { error: 'アカウントが停止されています' }
   }
 
+  /**
+   * メールアドレスの確認チェック
+   *
+   * 未確認のアカウントは投稿不可
+   */
+  if (!(await isEmailVerified(session.user.id))) {
+    return { error: EMAIL_NOT_VERIFIED_ERROR }
+  }
+
   /**
    * レート制限チェック
    *
@@ -211,6 +242,14 @@ export async function createPost(formData: FormData) {
   const mediaUrls = formData.getAll('mediaUrls') as string[]
   const mediaTypes = formData.getAll('mediaTypes') as string[]
   const bonsaiId = (formData.get('bonsaiId') as string) || null
+  const audience = formData.get('audience') || 'public'
+
+  /**
+   * バリデーション: 公開範囲
+   */
+  if (!isPostAudience(audience)) {
+    return { error: '公開範囲が正しくありません' }
+  }
 
   /**
    * 会員種別に応じた制限を取得
@@ -295,6 +334,7 @@ export async function createPost(formData: FormData) {
         userId: session.user.id,
         content: content || null,
         bonsaiId: bonsaiId || null,
+        audience,
         media: mediaUrls.length > 0 ? {
           create: mediaUrls.map((url: string, index: number) => ({
             url,
@@ -353,12 +393,14 @@ export async function createPost(formData: FormData) {
  * ## パラメータ
  * @param formData - フォームデータ
  *   - content: 引用コメント（必須）
- * @param quotePostId - 引用元の投稿ID
+ *   - audience: 引用投稿の公開範囲（省略時は 'public'）
+ * @param quotePostId - 引用元の投稿ID（全体公開の投稿のみ）
  *
  * ## 戻り値
  * @returns Promise<{ success: true, postId: string } | { error: string }>
  *
  * ## 引用投稿の特徴
+ * - 全体公開の投稿のみ引用できる
  * - 引用元の投稿がカード形式で表示される
  * - 自分のコメントを追加できる
  * - 引用元の投稿者に通知が送られる
@@ -388,6 +430,13 @@ export async function createQuotePost(formData: FormData, quotePostId: string) {
     return { error: 'アカウントが停止されています' }
   }
 
+  /**
+   * メールアドレスの確認チェック
+   */
+  if (!(await isEmailVerified(session.user.id))) {
+    return { error: EMAIL_NOT_VERIFIED_ERROR }
+  }
+
   /**
    * レート制限チェック
    */
@@ -398,6 +447,14 @@ export async function createQuotePost(formData: FormData, quotePostId: string) {
 
   const rawContent = formData.get('content') as string
   const content = sanitizePostContent(rawContent)
+  const audience = formData.get('audience') || 'public'
+
+  /**
+   * 公開範囲のチェック
+   */
+  if (!isPostAudience(audience)) {
+    return { error: '公開範囲が正しくありません' }
+  }
 
   /**
    * 引用コメントは必須
@@ -433,6 +490,22 @@ export async function createQuotePost(formData: FormData, quotePostId: string) {
     return { error: `1日の投稿上限（${limits.maxDailyPosts}件）に達しました` }
   }
 
+  /**
+   * 引用元の投稿の確認
+   *
+   * 全体公開以外の投稿は、引用すると閲覧できないユーザーに内容が漏れるため引用できない
+   */
+  const quotePost = await prisma.post.findUnique({
+    where: { id: quotePostId },
+    select: { userId: true, audience: true, isHidden: true },
+  })
+  if (!quotePost || quotePost.isHidden) {
+    return { error: '引用元の投稿が見つかりません' }
+  }
+  if (quotePost.audience !== 'public') {
+    return { error: '公開範囲が限定された投稿は引用できません' }
+  }
+
   try {
     /**
      * 引用投稿を作成
@@ -444,6 +517,7 @@ export async function createQuotePost(formData: FormData, quotePostId: string) {
         userId: session.user.id,
         content,
         quotePostId,
+        audience,
       },
     })
 
@@ -462,12 +536,7 @@ export async function createQuotePost(formData: FormData, quotePostId: string) {
      *
      * 自分自身の投稿を引用した場合は通知しない
      */
-    const quotePost = await prisma.post.findUnique({
-      where: { id: quotePostId },
-      select: { userId: true },
-    })
-
-    if (quotePost && quotePost.userId !== session.user.id) {
+    if (quotePost.userId !== session.user.id) {
       await prisma.notification.create({
         data: {
           userId: quotePost.userId,
@@ -506,6 +575,7 @@ export async function createQuotePost(formData: FormData, quotePostId: string) {
  *
  * ## リポストの特徴
  * - コメントなしで投稿を共有
+ * - 全体公開の投稿のみリポストできる
  * - 自分のタイムラインに表示される
  * - リポスト元の投稿者に通知される（実行時のみ）
  * - 再度実行すると解除される
@@ -586,6 +656,23 @@ export async function createRepost(postId: string) {
       return { error: `1日の投稿上限（${limits.maxDailyPosts}件）に達しました` }
     }
 
+    /**
+     * リポスト元の投稿の確認
+     *
+     * 全体公開以外の投稿は、リポストすると閲覧できないユーザーに内容が漏れるためリポストできない
+     * （リポスト済みの解除は公開範囲に関係なく行える）
+     */
+    const repostPost = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { userId: true, audience: true, isHidden: true },
+    })
+    if (!repostPost || repostPost.isHidden) {
+      return { error: 'リポスト元の投稿が見つかりません' }
+    }
+    if (repostPost.audience !== 'public') {
+      return { error: '公開範囲が限定された投稿はリポストできません' }
+    }
+
     /**
      * リポスト作成
      *
@@ -604,12 +691,7 @@ export async function createRepost(postId: string) {
      * リポスト時のみ通知（解除時は通知しない）
      * 自分自身の投稿をリポストした場合は通知しない
      */
-    const repostPost = await prisma.post.findUnique({
-      where: { id: postId },
-      select: { userId: true },
-    })
-
-    if (repostPost && repostPost.userId !== session.user.id) {
+    if (repostPost.userId !== session.user.id) {
       /**
        * 重複通知の防止
        *
@@ -736,8 +818,12 @@ export async function deletePost(postId: string) {
  * ## 戻り値
  * @returns Promise<{ post: PostWithDetails } | { error: string }>
  *
+ * ## 公開範囲
+ * フォロワー限定・相互フォロー限定・自分のみの投稿は、閲覧できるユーザー以外には
+ * 見つからない投稿として扱います。
+ *
  * ## 取得されるデータ
- * - 投稿の基本情報（ID、内容、作成日時等）
+ * - 投稿の基本情報（ID、内容、作成日時、公開範囲等）
  * - 投稿者情報（ニックネーム、アバター）
  * - メディア（画像、動画）
  * - ジャンル
@@ -765,9 +851,10 @@ export async function getPost(postId: string) {
    *
    * include で関連データも同時に取得
    * isHidden: false で非表示投稿を除外
+   * user.deactivatedAt: null で一時停止中のユーザーの投稿を除外
    */
   const post = await prisma.post.findUnique({
-    where: { id: postId, isHidden: false },
+    where: { id: postId, isHidden: false, user: { deactivatedAt: null } },
     include: {
       /**
        * 投稿者情報
@@ -837,6 +924,21 @@ export async function getPost(postId: string) {
     return { error: '投稿が見つかりません' }
   }
 
+  /**
+   * 公開範囲のチェック
+   *
+   * 閲覧できない投稿は、存在を知られないよう見つからない場合と同じエラーを返す
+   */
+  if (post.audience !== 'public') {
+    const relationship = await getViewerRelationship(post.userId, currentUserId)
+    if (post.audience === 'close_friends') {
+      relationship.isCloseFriend = await isCloseFriendOf(post.userId, currentUserId)
+    }
+    if (!canViewPost(post.audience, relationship)) {
+      return { error: '投稿が見つかりません' }
+    }
+  }
+
   /**
    * 現在のユーザーがいいね/ブックマークしているかチェック
    *
@@ -978,9 +1080,13 @@ export async function getPosts(cursor?: string, limit = 20) {
   /**
    * 除外対象のユーザーID
    *
-   * ブロック + ミュートしているユーザー
+   * ブロック + ミュートしているユーザー + 一時停止中のユーザー
    */
-  const excludedUserIds = [...blockedUserIds, ...mutedUserIds]
+  const excludedUserIds = [
+    ...blockedUserIds,
+    ...mutedUserIds,
+    ...(await getDeactivatedUserIds()),
+  ]
 
   /**
    * 投稿を取得
@@ -993,13 +1099,23 @@ export async function getPosts(cursor?: string, limit = 20) {
        *
        * in: 指定したユーザーの投稿のみ
        * notIn: 除外するユーザーの投稿を除く
+       *
+       * 未ログイン時は一時停止中のユーザーの投稿のみを除く
        */
-      ...(currentUserId && {
+      ...(currentUserId ? {
         userId: {
           in: userIdsToShow,
           notIn: excludedUserIds.length > 0 ? excludedUserIds : undefined,
         },
+      } : excludedUserIds.length > 0 && {
+        userId: { notIn: excludedUserIds },
       }),
+      /**
+       * 公開範囲のフィルタリング
+       *
+       * 閲覧できる公開範囲の投稿のみ（未ログイン時は全体公開のみ）
+       */
+      ...buildVisiblePostWhere(currentUserId),
     },
     include: {
       user: {
@@ -1342,8 +1458,13 @@ export async function getPostsByBonsai(
   limit = 20
 ) {
   try {
+    const session = await auth()
+
+    /**
+     * 閲覧できる公開範囲の投稿のみ取得
+     */
     const posts = await prisma.post.findMany({
-      where: { bonsaiId },
+      where: { bonsaiId, ...buildVisiblePostWhere(session?.user?.id) },
       take: limit,
       ...(cursor && {
         cursor: { id: cursor },
@@ -524,7 +524,7 @@ export async function getReviews(shopId: string, cursor?: string, limit = 10) {
    * レビューを取得（カーソルページネーション）
    *
    * ## クエリの解説
-   * - where: 対象店舗のレビューのみ
+   * - where: 対象店舗のレビューのみ（一時停止中のユーザーのレビューを除く）
    * - include: ユーザー情報と画像を含める
    * - orderBy: 新しい順
    * - take: limit件取得
@@ -532,7 +532,7 @@ export async function getReviews(shopId: string, cursor?: string, limit = 10) {
    * - skip: カーソル自体をスキップ
    */
   const reviews = await prisma.shopReview.findMany({
-    where: { shopId },
+    where: { shopId, user: { deactivatedAt: null } },
     include: {
       /**
        * 投稿者の情報を取得
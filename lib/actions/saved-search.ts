@@ -0,0 +1,299 @@
+/**
+ * 保存した検索のServer Actions
+ *
+ * このファイルは、検索条件を保存して新着投稿を知らせる
+ * 「保存した検索」に関するサーバーサイドの処理を提供します。
+ *
+ * ## 機能概要
+ * - 検索条件（キーワード・ジャンル・ハッシュタグ）の保存
+ * - 保存した検索の一覧取得
+ * - 通知方法の変更
+ * - 保存した検索の削除
+ *
+ * ## 新着の通知
+ * 新着の判定と通知は定期ジョブ（lib/saved-search）で行います。
+ * 保存した時点より後の投稿が新着の対象になります。
+ *
+ * @module lib/actions/saved-search
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Next.jsのキャッシュ再検証関数
+ * 保存した検索の変更後にページを更新するために使用
+ */
+import { revalidatePath } from 'next/cache'
+
+/**
+ * 保存した検索の定数・ヘルパー
+ */
+import {
+  MAX_SAVED_SEARCHES,
+  SAVED_SEARCH_QUERY_MAX_LENGTH,
+  buildSavedSearchUrl,
+  formatSavedSearchLabel,
+  isSavedSearchNotifyMode,
+} from '@/lib/constants/saved-search'
+
+/**
+ * ロガー
+ */
+import logger from '@/lib/logger'
+
+// ============================================================
+// 内部ヘルパー
+// ============================================================
+
+/**
+ * 検索条件を正規化
+ *
+ * - キーワード: 前後の空白を除去し、連続する空白を1つにまとめる
+ * - ハッシュタグ: 先頭の # を除き小文字にそろえる（hashtags テーブルと同じ表記）
+ * - ジャンル: 重複を除いて並べ替える（同じ条件の判定のため）
+ *
+ * @param data - 入力された検索条件
+ * @returns 正規化した検索条件、またはエラーメッセージ
+ */
+function normalizeSearchInput(data: { query?: string; genreIds?: string[]; hashtag?: string | null }) {
+  const query = (data.query ?? '').replace(/\s+/g, ' ').trim()
+  const hashtag = (data.hashtag ?? '').trim().replace(/^#+/, '').toLowerCase() || null
+  const genreIds = Array.from(new Set(data.genreIds ?? [])).sort()
+
+  if (!query && !hashtag) {
+    return { error: 'キーワードまたはハッシュタグを指定してください' }
+  }
+
+  if (query.length > SAVED_SEARCH_QUERY_MAX_LENGTH) {
+    return { error: `キーワードは${SAVED_SEARCH_QUERY_MAX_LENGTH}文字以内で入力してください` }
+  }
+
+  return { query, hashtag, genreIds }
+}
+
+// ============================================================
+// 保存・変更・削除
+// ============================================================
+
+/**
+ * 検索条件を保存
+ *
+ * ## 処理フロー
+ * 1. 認証チェック
+ * 2. 検索条件の正規化とバリデーション
+ * 3. ジャンルの存在チェック
+ * 4. 保存数の上限・同じ条件の重複チェック
+ * 5. 保存（保存した時点より後の投稿が新着の対象）
+ *
+ * @param data - キーワード・ジャンルID・ハッシュタグ・通知方法
+ * @returns 成功時は { savedSearchId }、失敗時は { error: string }
+ *
+ * @example
+ * ```typescript
+ * const result = await saveSearch({ query: '五葉松 譲ります', notifyMode: 'instant' })
+ * ```
+ */
+export async function saveSearch(data: {
+  query?: string
+  genreIds?: string[]
+  hashtag?: string | null
+  notifyMode?: string
+}) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const input = normalizeSearchInput(data)
+  if ('error' in input) {
+    return { error: input.error }
+  }
+
+  const notifyMode = data.notifyMode ?? 'instant'
+  if (!isSavedSearchNotifyMode(notifyMode)) {
+    return { error: '通知方法が正しくありません' }
+  }
+
+  try {
+    if (input.genreIds.length > 0) {
+      const genreCount = await prisma.genre.count({
+        where: { id: { in: input.genreIds }, type: 'post' },
+      })
+      if (genreCount !== input.genreIds.length) {
+        return { error: 'ジャンルが見つかりません' }
+      }
+    }
+
+    const count = await prisma.savedSearch.count({
+      where: { userId: session.user.id },
+    })
+
+    if (count >= MAX_SAVED_SEARCHES) {
+      return { error: `検索は${MAX_SAVED_SEARCHES}件まで保存できます` }
+    }
+
+    const existing = await prisma.savedSearch.findFirst({
+      where: {
+        userId: session.user.id,
+        query: input.query,
+        hashtag: input.hashtag,
+        genreIds: { equals: input.genreIds },
+      },
+    })
+
+    if (existing) {
+      return { error: 'この検索は既に保存されています' }
+    }
+
+    const savedSearch = await prisma.savedSearch.create({
+      data: {
+        userId: session.user.id,
+        query: input.query,
+        hashtag: input.hashtag,
+        genreIds: input.genreIds,
+        notifyMode,
+      },
+    })
+
+    revalidatePath('/settings/saved-searches')
+
+    return { savedSearchId: savedSearch.id }
+  } catch (error) {
+    logger.error('Save search error:', error)
+    return { error: '検索の保存に失敗しました' }
+  }
+}
+
+/**
+ * 保存した検索の通知方法を変更
+ *
+ * @param savedSearchId - 保存した検索のID
+ * @param notifyMode - 通知方法（'instant' | 'daily'）
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function updateSavedSearchNotifyMode(savedSearchId: string, notifyMode: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  if (!isSavedSearchNotifyMode(notifyMode)) {
+    return { error: '通知方法が正しくありません' }
+  }
+
+  try {
+    const result = await prisma.savedSearch.updateMany({
+      where: { id: savedSearchId, userId: session.user.id },
+      data: { notifyMode },
+    })
+
+    if (result.count === 0) {
+      return { error: '保存した検索が見つかりません' }
+    }
+
+    revalidatePath('/settings/saved-searches')
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Update saved search error:', error)
+    return { error: '通知方法の変更に失敗しました' }
+  }
+}
+
+/**
+ * 保存した検索を削除
+ *
+ * 関連する通知も削除されます。
+ *
+ * @param savedSearchId - 保存した検索のID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function deleteSavedSearch(savedSearchId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const result = await prisma.savedSearch.deleteMany({
+      where: { id: savedSearchId, userId: session.user.id },
+    })
+
+    if (result.count === 0) {
+      return { error: '保存した検索が見つかりません' }
+    }
+
+    revalidatePath('/settings/saved-searches')
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Delete saved search error:', error)
+    return { error: '保存した検索の削除に失敗しました' }
+  }
+}
+
+// ============================================================
+// 一覧取得
+// ============================================================
+
+/**
+ * 保存した検索の一覧を取得
+ *
+ * 表示名と検索ページのURLを付けて、新しい順で返します。
+ *
+ * @returns 保存した検索の配列
+ */
+export async function getSavedSearches() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です', searches: [] }
+  }
+
+  try {
+    const searches = await prisma.savedSearch.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const genreIds = Array.from(new Set(searches.flatMap((s: typeof searches[number]) => s.genreIds)))
+    const genres = genreIds.length > 0
+      ? await prisma.genre.findMany({
+          where: { id: { in: genreIds } },
+          select: { id: true, name: true },
+        })
+      : []
+    const genreNames = new Map<string, string>(genres.map((g: { id: string; name: string }) => [g.id, g.name]))
+
+    return {
+      searches: searches.map((search: typeof searches[number]) => ({
+        id: search.id,
+        label: formatSavedSearchLabel(
+          search,
+          search.genreIds.map((id: string) => genreNames.get(id)).filter((name: string | undefined): name is string => !!name)
+        ),
+        url: buildSavedSearchUrl(search),
+        notifyMode: search.notifyMode,
+        createdAt: search.createdAt,
+      })),
+    }
+  } catch (error) {
+    logger.error('Get saved searches error:', error)
+    return { error: '保存した検索の取得に失敗しました', searches: [] }
+  }
+}
@@ -69,6 +69,17 @@ import { revalidatePath } from 'next/cache'
  */
 import logger from '@/lib/logger'
 
+/**
+ * メールアドレスの確認チェック
+ * メールアドレスが未確認のユーザーは予約投稿も作成できない
+ */
+import { EMAIL_NOT_VERIFIED_ERROR, isEmailVerified } from '@/lib/email-verification'
+
+/**
+ * 投稿の公開範囲の検証
+ */
+import { isPostAudience } from '@/lib/privacy'
+
 // ============================================================
 // 予約投稿作成
 // ============================================================
@@ -87,6 +98,7 @@ import logger from '@/lib/logger'
  * - コンテンツ: テキストまたはメディアが必須
  * - 投稿文字数: 会員種別の上限内
  * - ジャンル: 最大3つ
+ * - 公開範囲: 全体公開・フォロワーのみ・相互フォローのみ・自分のみ
  * - 画像・動画: 会員種別の上限内
  * - 予約件数: 最大10件
  *
@@ -98,6 +110,7 @@ import logger from '@/lib/logger'
  * const formData = new FormData()
  * formData.set('content', '予約投稿の本文')
  * formData.set('scheduledAt', '2024-12-25T10:00:00')
+ * formData.set('audience', 'followers')
  *
  * const result = await createScheduledPost(formData)
  * ```
@@ -120,6 +133,14 @@ export async function createScheduledPost(formData: FormData) {
     return { error: '予約投稿は有料会員限定の機能です' }
   }
 
+  // ------------------------------------------------------------
+  // メールアドレスの確認チェック
+  // ------------------------------------------------------------
+
+  if (!(await isEmailVerified(session.user.id))) {
+    return { error: EMAIL_NOT_VERIFIED_ERROR }
+  }
+
   // ------------------------------------------------------------
   // フォームデータの取得
   // ------------------------------------------------------------
@@ -129,6 +150,7 @@ export async function createScheduledPost(formData: FormData) {
   const genreIds = formData.getAll('genreIds') as string[]
   const mediaUrls = formData.getAll('mediaUrls') as string[]
   const mediaTypes = formData.getAll('mediaTypes') as string[]
+  const audience = formData.get('audience') || 'public'
 
   // ------------------------------------------------------------
   // 予約日時のバリデーション
@@ -164,6 +186,13 @@ export async function createScheduledPost(formData: FormData) {
     return { error: 'テキストまたはメディアを入力してください' }
   }
 
+  /**
+   * 公開時の公開範囲チェック
+   */
+  if (!isPostAudience(audience)) {
+    return { error: '公開範囲が正しくありません' }
+  }
+
   // ------------------------------------------------------------
   // 会員種別の制限チェック
   // ------------------------------------------------------------
@@ -227,6 +256,7 @@ export async function createScheduledPost(formData: FormData) {
     data: {
       userId: session.user.id,
       content: content || null,
+      audience,
       scheduledAt,
       /**
        * メディアをネストで作成
@@ -499,6 +529,7 @@ export async function updateScheduledPost(id: string, formData: FormData) {
   const genreIds = formData.getAll('genreIds') as string[]
   const mediaUrls = formData.getAll('mediaUrls') as string[]
   const mediaTypes = formData.getAll('mediaTypes') as string[]
+  const audience = formData.get('audience') || 'public'
 
   if (!scheduledAtStr) {
     return { error: '予約日時を指定してください' }
@@ -520,6 +551,10 @@ export async function updateScheduledPost(id: string, formData: FormData) {
     return { error: 'テキストまたはメディアを入力してください' }
   }
 
+  if (!isPostAudience(audience)) {
+    return { error: '公開範囲が正しくありません' }
+  }
+
   const limits = await getMembershipLimits(session.user.id)
 
   if (content && content.length > limits.maxPostLength) {
@@ -559,6 +594,7 @@ export async function updateScheduledPost(id: string, formData: FormData) {
       where: { id },
       data: {
         content: content || null,
+        audience,
         scheduledAt,
         media: mediaUrls.length > 0 ? {
           create: mediaUrls.map((url: string, index: number) => ({
@@ -813,6 +849,7 @@ export async function publishScheduledPosts() {
         data: {
           userId: scheduled.userId,
           content: scheduled.content,
+          audience: scheduled.audience,
           /**
            * メディアをコピー
            */
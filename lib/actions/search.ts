@@ -5,7 +5,7 @@
  * サーバーサイドの処理を提供します。
  *
  * ## 機能概要
- * - 投稿検索（キーワード、ジャンルフィルタ）
+ * - 投稿検索（キーワード、ジャンルフィルタ、from: などの検索演算子）
  * - ユーザー検索（ニックネーム、自己紹介）
  * - ハッシュタグ検索
  * - 人気タグ取得
@@ -53,12 +53,24 @@ import { auth } from '@/lib/auth'
  */
 import { fulltextSearchPosts, fulltextSearchUsers, getSearchMode } from '@/lib/search/fulltext'
 
+/**
+ * 検索クエリの解析
+ * 演算子を含む検索かどうかの判定に使用
+ */
+import { isPlainKeywordQuery, parseSearchQuery } from '@/lib/search/query-parser'
+
 /**
  * 除外ユーザーID取得関数
  * ブロック/ミュートしているユーザーを除外するために使用
  */
 import { getExcludedUserIds } from './filter-helper'
 
+/**
+ * 投稿の公開範囲の絞り込み条件
+ * フォロワー限定などの投稿を閲覧できないユーザーの検索結果から除外するために使用
+ */
+import { buildVisiblePostWhere } from '@/lib/privacy'
+
 /**
  * キャッシュ関数
  *
@@ -73,6 +85,7 @@ import { getCachedGenres, getCachedPopularTags } from '@/lib/cache'
  * 検索はDB負荷が高いため、レート制限を適用
  */
 import { rateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { logRateLimitExceeded } from '@/lib/security-logger'
 import { headers } from 'next/headers'
 
 // ============================================================
@@ -106,6 +119,11 @@ async function getClientIpFromHeaders(): Promise<string> {
  * キーワードとジャンルで投稿を検索します。
  * 検索モードに応じて全文検索またはLIKE検索を使用します。
  *
+ * ## 検索演算子
+ * 複数のキーワード（AND）、"フレーズ"、-除外、from:@ニックネーム、since: / until:、
+ * has:image / has:video、min_likes:、region: / pref:、species: を指定できます。
+ * 書式は lib/search/query-parser を参照してください。
+ *
  * ## 検索対象
  * - 投稿の本文（content）
  *
@@ -116,11 +134,11 @@ async function getClientIpFromHeaders(): Promise<string> {
  *
  * ## 検索モードによる処理の違い
  *
- * ### 全文検索モード（bigm/trgm）
+ * ### 全文検索モード（bigm/trgm）、または演算子・複数キーワードを含む検索
  * 1. fulltextSearchPosts() でIDを取得
  * 2. IDで投稿を取得（検索順序を維持）
  *
- * ### LIKE検索モード
+ * ### LIKE検索モードでキーワード1つの検索
  * - Prisma の contains + mode: 'insensitive' を使用
  * - 大文字小文字を区別しない検索
  *
@@ -153,6 +171,7 @@ export async function searchPosts(
   const clientIp = await getClientIpFromHeaders()
   const rateLimitResult = await rateLimit(`search:${clientIp}`, RATE_LIMITS.search)
   if (!rateLimitResult.success) {
+    logRateLimitExceeded('search', clientIp)
     return { posts: [], nextCursor: undefined, error: '検索リクエストが多すぎます。しばらく待ってから再試行してください' }
   }
 
@@ -164,15 +183,19 @@ export async function searchPosts(
   // ------------------------------------------------------------
 
   /**
-   * ブロック/ミュートしているユーザーを除外
+   * ブロック/ミュートしているユーザーと一時停止中のユーザーを除外
    *
    * - blocked: 自分がブロックしたユーザー
    * - blockedBy: 自分をブロックしたユーザー
    * - muted: 自分がミュートしたユーザー
+   * - deactivated: 一時停止中のユーザー（未ログインでも除外）
    */
-  const excludedUserIds = currentUserId
-    ? await getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true, muted: true })
-    : []
+  const excludedUserIds = await getExcludedUserIds(currentUserId, {
+    blocked: true,
+    blockedBy: true,
+    muted: true,
+    deactivated: true,
+  })
 
   /**
    * 現在の検索モードを取得
@@ -180,6 +203,15 @@ export async function searchPosts(
    */
   const searchMode = getSearchMode()
 
+  /**
+   * 検索クエリを解析
+   *
+   * LIKE検索モードでも、演算子や複数のキーワードを含む検索は
+   * fulltextSearchPosts（LIKEモードの生SQL）で実行する
+   */
+  const parsedQuery = parseSearchQuery(query)
+  const useFulltextSearch = searchMode === 'bigm' || searchMode === 'trgm' || !isPlainKeywordQuery(parsedQuery)
+
   // ------------------------------------------------------------
   // 共通のinclude設定
   // ------------------------------------------------------------
@@ -204,10 +236,10 @@ export async function searchPosts(
   } as const
 
   // ============================================================
-  // 全文検索モード（bigm/trgm）
+  // 全文検索モード（bigm/trgm）・演算子を含む検索
   // ============================================================
 
-  if (query && (searchMode === 'bigm' || searchMode === 'trgm')) {
+  if (query && useFulltextSearch) {
     // ------------------------------------------------------------
     // 全文検索でIDを取得
     // ------------------------------------------------------------
@@ -220,6 +252,7 @@ export async function searchPosts(
      */
     const postIds = await fulltextSearchPosts(query, {
       excludedUserIds,
+      viewerId: currentUserId,
       genreIds,
       cursor,
       limit,
@@ -238,10 +271,14 @@ export async function searchPosts(
 
     /**
      * 全文検索で取得したIDで投稿を取得
+     *
+     * 全文検索側でも公開範囲で絞り込んでいるが、
+     * 念のためここでも閲覧できない投稿を除外する
      */
     const fetchedPosts = await prisma.post.findMany({
       where: {
         id: { in: postIds },
+        ...buildVisiblePostWhere(currentUserId),
       },
       include: postInclude,
     })
@@ -364,6 +401,11 @@ export async function searchPosts(
               },
             }
           : {},
+        /**
+         * 投稿の公開範囲条件
+         * 閲覧者が見られる投稿のみ
+         */
+        buildVisiblePostWhere(currentUserId),
       ],
     },
     include: postInclude,
@@ -461,6 +503,7 @@ export async function searchUsers(query: string, cursor?: string, limit = 20) {
   const clientIp = await getClientIpFromHeaders()
   const rateLimitResult = await rateLimit(`search:${clientIp}`, RATE_LIMITS.search)
   if (!rateLimitResult.success) {
+    logRateLimitExceeded('search', clientIp)
     return { users: [], nextCursor: undefined, error: '検索リクエストが多すぎます。しばらく待ってから再試行してください' }
   }
 
@@ -476,12 +519,15 @@ export async function searchUsers(query: string, cursor?: string, limit = 20) {
    *
    * - blocked: 自分がブロックしたユーザー
    * - blockedBy: 自分をブロックしたユーザー
+   * - deactivated: 一時停止中のユーザー（未ログインでも除外）
    *
    * ※ミュートは検索結果から除外しない（フォロー状態は維持されるため）
    */
-  const excludedUserIds = currentUserId
-    ? await getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true })
-    : []
+  const excludedUserIds = await getExcludedUserIds(currentUserId, {
+    blocked: true,
+    blockedBy: true,
+    deactivated: true,
+  })
 
   const searchMode = getSearchMode()
 
@@ -659,6 +705,7 @@ export async function searchByTag(tag: string, cursor?: string, limit = 20) {
   const clientIp = await getClientIpFromHeaders()
   const rateLimitResult = await rateLimit(`search:${clientIp}`, RATE_LIMITS.search)
   if (!rateLimitResult.success) {
+    logRateLimitExceeded('search', clientIp)
     return { posts: [], nextCursor: undefined, error: '検索リクエストが多すぎます。しばらく待ってから再試行してください' }
   }
 
@@ -669,9 +716,12 @@ export async function searchByTag(tag: string, cursor?: string, limit = 20) {
   // 除外ユーザーの取得
   // ------------------------------------------------------------
 
-  const excludedUserIds = currentUserId
-    ? await getExcludedUserIds(currentUserId, { blocked: true, blockedBy: true, muted: true })
-    : []
+  const excludedUserIds = await getExcludedUserIds(currentUserId, {
+    blocked: true,
+    blockedBy: true,
+    muted: true,
+    deactivated: true,
+  })
 
   // ------------------------------------------------------------
   // ハッシュタグを含む投稿を検索
@@ -698,6 +748,7 @@ export async function searchByTag(tag: string, cursor?: string, limit = 20) {
               },
             }
           : {},
+        buildVisiblePostWhere(currentUserId),
       ],
     },
     include: {
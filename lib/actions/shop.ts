@@ -175,10 +175,10 @@ export async function getShops(options?: {
       /**
        * レビュー情報（評価計算用）
        *
-       * 非表示レビューを除外
+       * 非表示レビューと一時停止中のユーザーのレビューを除外
        */
       reviews: {
-        where: { isHidden: false },
+        where: { isHidden: false, user: { deactivatedAt: null } },
         select: { rating: true },
       },
     },
@@ -345,10 +345,10 @@ export async function getShop(shopId: string) {
       /**
        * レビュー一覧
        *
-       * 非表示レビューを除外し、新しい順に並べる
+       * 非表示レビューと一時停止中のユーザーのレビューを除外し、新しい順に並べる
        */
       reviews: {
-        where: { isHidden: false },
+        where: { isHidden: false, user: { deactivatedAt: null } },
         include: {
           user: {
             select: { id: true, nickname: true, avatarUrl: true },
@@ -0,0 +1,190 @@
+/**
+ * ソーシャルログイン関連のServer Actions
+ *
+ * このファイルは、ソーシャルログイン（LINE・Google・Apple・OIDC）の
+ * ログイン前の確認と、アカウント連携の管理を提供します。
+ *
+ * ## 機能概要
+ * - ログイン前のデバイス確認（フィンガープリントをCookieに保存）
+ * - 連携中のアカウントの取得
+ * - 連携の解除
+ *
+ * 連携そのものは、ログイン中に next-auth/react の signIn を呼ぶと
+ * Auth.js が行います（lib/social-login.ts を参照）。
+ *
+ * @module lib/actions/social-login
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * Cookie操作
+ * フィンガープリントの一時保存に使用
+ */
+import { cookies } from 'next/headers'
+
+/**
+ * Next.jsのキャッシュ再検証関数
+ * 連携解除後にセキュリティ設定ページを更新するために使用
+ */
+import { revalidatePath } from 'next/cache'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+/**
+ * デバイスのブラックリストチェック
+ */
+import { isDeviceBlacklisted } from '@/lib/actions/blacklist'
+
+/**
+ * 有効なプロバイダーの取得
+ */
+import { getEnabledSocialProviders } from '@/lib/social-login'
+
+/**
+ * フィンガープリントCookieの設定
+ */
+import {
+  SOCIAL_LOGIN_DEVICE_COOKIE,
+  SOCIAL_LOGIN_DEVICE_COOKIE_MAX_AGE,
+} from '@/lib/constants/social-login'
+
+// ============================================================
+// ログイン前の確認
+// ============================================================
+
+/**
+ * ソーシャルログインの前にデバイスを確認
+ *
+ * ## 機能概要
+ * ブラックリストに登録されたデバイスならエラーを返します。
+ * 外部サイトから戻ったあとのサインイン時にも確認できるよう、
+ * フィンガープリントを短時間だけCookieに保存します。
+ *
+ * @param fingerprint - デバイスフィンガープリント（取得できない場合は省略）
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function prepareSocialSignIn(fingerprint?: string) {
+  if (!fingerprint) {
+    return { success: true }
+  }
+
+  if (await isDeviceBlacklisted(fingerprint)) {
+    return { error: 'このデバイスからのログインは許可されていません' }
+  }
+
+  const cookieStore = await cookies()
+  cookieStore.set(SOCIAL_LOGIN_DEVICE_COOKIE, fingerprint, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: SOCIAL_LOGIN_DEVICE_COOKIE_MAX_AGE,
+    path: '/',
+  })
+
+  return { success: true }
+}
+
+// ============================================================
+// 連携の管理
+// ============================================================
+
+/**
+ * ソーシャルログインの連携状況を取得
+ *
+ * @returns 有効なプロバイダー、連携中のプロバイダー、パスワードを設定済みか
+ */
+export async function getSocialAccounts() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        password: true,
+        accounts: { select: { provider: true } },
+      },
+    })
+
+    if (!user) {
+      return { error: 'ユーザーが見つかりません' }
+    }
+
+    return {
+      providers: getEnabledSocialProviders(),
+      linkedProviders: user.accounts.map((account) => account.provider),
+      hasPassword: !!user.password,
+    }
+  } catch (error) {
+    logger.error('Get social accounts error:', error)
+    return { error: '連携状況の取得に失敗しました' }
+  }
+}
+
+/**
+ * ソーシャルログインの連携を解除
+ *
+ * パスワードが未設定で、ほかに連携しているアカウントもない場合は
+ * ログインできなくなるため解除できません。
+ *
+ * @param provider - プロバイダーID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function unlinkSocialAccount(provider: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        password: true,
+        accounts: { select: { id: true, provider: true } },
+      },
+    })
+
+    const account = user?.accounts.find((a) => a.provider === provider)
+    if (!user || !account) {
+      return { error: '連携しているアカウントが見つかりません' }
+    }
+
+    if (!user.password && user.accounts.length <= 1) {
+      return {
+        error: 'ほかにログインする方法がないため解除できません。パスワードリセットからパスワードを設定してください。',
+      }
+    }
+
+    await prisma.account.delete({ where: { id: account.id } })
+
+    revalidatePath('/settings/security')
+    return { success: true }
+  } catch (error) {
+    logger.error('Unlink social account error:', error)
+    return { error: '連携の解除に失敗しました' }
+  }
+}
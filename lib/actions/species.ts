@@ -0,0 +1,355 @@
+/**
+ * 樹種図鑑機能のServer Actions
+ *
+ * このファイルは、樹種マスタ（BonsaiSpecies）の検索と、
+ * 樹種ごとの公開された盆栽・投稿の取得を提供します。
+ *
+ * ## 機能概要
+ * - 樹種の候補検索（盆栽登録フォームのオートコンプリート用）
+ * - 樹種一覧の取得（樹種図鑑）
+ * - 樹種の詳細（季節ごとの手入れ）の取得
+ * - 樹種ごとの公開された盆栽・投稿の取得
+ *
+ * ## 公開範囲
+ * 樹種ページには、公開アカウント（isPublic）の盆栽と、
+ * その盆栽に紐づく投稿のみを表示します。
+ * 盆栽は、盆栽コレクションを全員に公開しているユーザーのもののみを表示します（User.bonsaiVisibility）。
+ * ログイン中はブロック・ミュートしたユーザーを除外します。
+ *
+ * @module lib/actions/species
+ */
+
+'use server'
+
+// ============================================================
+// インポート
+// ============================================================
+
+/**
+ * 認証関数
+ * NextAuth.jsのセッション取得に使用
+ */
+import { auth } from '@/lib/auth'
+
+/**
+ * Prismaクライアント
+ * データベース操作に使用
+ */
+import { prisma } from '@/lib/db'
+
+/**
+ * ロガー
+ * エラーログの記録に使用
+ */
+import logger from '@/lib/logger'
+
+/**
+ * ブロック/ミュートフィルタリングヘルパー
+ * 樹種ページの盆栽・投稿から除外するユーザーの取得に使用
+ */
+import { getExcludedUserIds } from './filter-helper'
+
+/**
+ * 樹種名の照合候補の作成（表記揺れの吸収）
+ */
+import { buildSpeciesNameVariants, toHiragana } from '@/lib/constants/bonsai-species'
+
+/**
+ * 投稿の公開範囲の絞り込み条件
+ * 閲覧できない公開範囲の投稿を樹種ページから除外するために使用
+ */
+import { buildVisiblePostWhere } from '@/lib/privacy'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 候補検索の最大件数
+ */
+const MAX_SPECIES_SUGGESTIONS = 8
+
+/**
+ * 候補検索のキーワードの最大文字数
+ */
+const MAX_SPECIES_QUERY_LENGTH = 50
+
+/**
+ * 一覧・候補で返す樹種の項目
+ */
+const speciesSummarySelect = {
+  id: true,
+  slug: true,
+  name: true,
+  nameKana: true,
+  scientificName: true,
+  category: true,
+} as const
+
+// ============================================================
+// 樹種の候補検索
+// ============================================================
+
+/**
+ * 樹種の候補を検索（オートコンプリート用）
+ *
+ * ## 検索対象
+ * - 和名・学名（部分一致）
+ * - 読み（カタカナで入力してもひらがなの読みと部分一致）
+ * - 別名（完全一致）
+ *
+ * @param query - 検索キーワード
+ * @returns 樹種の候補
+ *
+ * @example
+ * ```typescript
+ * const { species } = await searchBonsaiSpecies('クロ')
+ * // [{ name: '黒松', nameKana: 'くろまつ', ... }]
+ * ```
+ */
+export async function searchBonsaiSpecies(query: string) {
+  const trimmedQuery = query.trim()
+  if (!trimmedQuery || trimmedQuery.length > MAX_SPECIES_QUERY_LENGTH) {
+    return { species: [] }
+  }
+
+  try {
+    const species = await prisma.bonsaiSpecies.findMany({
+      where: {
+        OR: [
+          { name: { contains: trimmedQuery } },
+          { nameKana: { contains: toHiragana(trimmedQuery) } },
+          { scientificName: { contains: trimmedQuery, mode: 'insensitive' } },
+          { aliases: { hasSome: buildSpeciesNameVariants(trimmedQuery) } },
+        ],
+      },
+      select: speciesSummarySelect,
+      orderBy: { sortOrder: 'asc' },
+      take: MAX_SPECIES_SUGGESTIONS,
+    })
+
+    return { species }
+  } catch (error) {
+    logger.error('Search bonsai species error:', error)
+    return { species: [] }
+  }
+}
+
+// ============================================================
+// 樹種一覧取得
+// ============================================================
+
+/**
+ * 樹種一覧を取得（樹種図鑑）
+ *
+ * 公開された盆栽の数（一時停止中のユーザーの盆栽を除く）とあわせて、表示順に返します。
+ *
+ * @returns 樹種一覧
+ */
+export async function getBonsaiSpeciesList() {
+  try {
+    const species = await prisma.bonsaiSpecies.findMany({
+      select: {
+        ...speciesSummarySelect,
+        _count: {
+          select: {
+            bonsais: { where: { user: { isPublic: true, isSuspended: false, deactivatedAt: null, bonsaiVisibility: 'everyone' } } },
+          },
+        },
+      },
+      orderBy: { sortOrder: 'asc' },
+    })
+
+    return { species }
+  } catch (error) {
+    logger.error('Get bonsai species list error:', error)
+    return { species: [] }
+  }
+}
+
+// ============================================================
+// 樹種詳細取得
+// ============================================================
+
+/**
+ * 樹種の詳細を取得
+ *
+ * @param slug - 樹種のスラッグ（例: kuromatsu）
+ * @returns 樹種、または { error: string }
+ */
+export async function getBonsaiSpecies(slug: string) {
+  try {
+    const species = await prisma.bonsaiSpecies.findUnique({
+      where: { slug },
+    })
+
+    if (!species) {
+      return { error: '樹種が見つかりません' }
+    }
+
+    return { species }
+  } catch (error) {
+    logger.error('Get bonsai species error:', error)
+    return { error: '樹種の取得に失敗しました' }
+  }
+}
+
+// ============================================================
+// 樹種ごとの盆栽取得
+// ============================================================
+
+/**
+ * 樹種に紐づく公開された盆栽を取得
+ *
+ * ## 取得条件
+ * - 所有者が公開アカウントで、停止されていない
+ * - ログイン中はブロック（双方向）したユーザーを除外
+ *
+ * @param speciesId - 樹種ID
+ * @param limit - 取得件数（デフォルト: 12）
+ * @returns 盆栽一覧（最新の記録画像1枚付き）
+ */
+export async function getSpeciesBonsais(speciesId: string, limit = 12) {
+  const session = await auth()
+  const currentUserId = session?.user?.id
+
+  try {
+    const excludedUserIds = await getExcludedUserIds(currentUserId, {
+      blocked: true,
+      blockedBy: true,
+      deactivated: true,
+    })
+
+    const bonsais = await prisma.bonsai.findMany({
+      where: {
+        speciesId,
+        user: { isPublic: true, isSuspended: false, bonsaiVisibility: 'everyone' },
+        ...(excludedUserIds.length > 0 && { userId: { notIn: excludedUserIds } }),
+      },
+      include: {
+        user: { select: { id: true, nickname: true, avatarUrl: true } },
+        records: {
+          where: { images: { some: {} } },
+          orderBy: { recordAt: 'desc' },
+          take: 1,
+          include: {
+            images: { orderBy: { sortOrder: 'asc' }, take: 1 },
+          },
+        },
+        _count: { select: { records: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    })
+
+    return { bonsais }
+  } catch (error) {
+    logger.error('Get species bonsais error:', error)
+    return { bonsais: [] }
+  }
+}
+
+// ============================================================
+// 樹種ごとの投稿取得
+// ============================================================
+
+/**
+ * 樹種に紐づく投稿を取得
+ *
+ * その樹種の盆栽に紐づけられた投稿を新しい順に返します。
+ *
+ * ## 取得条件
+ * - 非表示でない投稿
+ * - 投稿者が公開アカウントで、停止されていない
+ * - 閲覧できる公開範囲の投稿のみ
+ * - ログイン中はブロック（双方向）・ミュートしたユーザーを除外
+ *
+ * @param speciesId - 樹種ID
+ * @param options - オプション（cursor, limit）
+ * @returns 投稿一覧（PostCard 用に整形済み）と次のカーソル
+ */
+export async function getSpeciesPosts(
+  speciesId: string,
+  options: { cursor?: string; limit?: number } = {}
+) {
+  const { cursor, limit = 20 } = options
+  const session = await auth()
+  const currentUserId = session?.user?.id
+
+  try {
+    const excludedUserIds = await getExcludedUserIds(currentUserId, {
+      blocked: true,
+      blockedBy: true,
+      muted: true,
+      deactivated: true,
+    })
+
+    const posts = await prisma.post.findMany({
+      where: {
+        isHidden: false,
+        bonsai: { speciesId },
+        user: { isPublic: true, isSuspended: false },
+        ...(excludedUserIds.length > 0 && { userId: { notIn: excludedUserIds } }),
+        ...buildVisiblePostWhere(currentUserId),
+      },
+      include: {
+        user: { select: { id: true, nickname: true, avatarUrl: true } },
+        media: { orderBy: { sortOrder: 'asc' } },
+        genres: { include: { genre: true } },
+        _count: { select: { likes: true, comments: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      ...(cursor && {
+        cursor: { id: cursor },
+        skip: 1,
+      }),
+    })
+
+    // ------------------------------------------------------------
+    // いいね/ブックマーク状態の取得
+    // ------------------------------------------------------------
+
+    let likedPostIds: Set<string> = new Set()
+    let bookmarkedPostIds: Set<string> = new Set()
+
+    if (currentUserId && posts.length > 0) {
+      const postIds = posts.map((p) => p.id)
+
+      const [userLikes, userBookmarks] = await Promise.all([
+        prisma.like.findMany({
+          where: { userId: currentUserId, postId: { in: postIds }, commentId: null },
+          select: { postId: true },
+        }),
+        prisma.bookmark.findMany({
+          where: { userId: currentUserId, postId: { in: postIds } },
+          select: { postId: true },
+        }),
+      ])
+
+      likedPostIds = new Set(userLikes.map((l) => l.postId).filter((id): id is string => id !== null))
+      bookmarkedPostIds = new Set(userBookmarks.map((b) => b.postId))
+    }
+
+    // ------------------------------------------------------------
+    // 結果の整形と返却
+    // ------------------------------------------------------------
+
+    const formattedPosts = posts.map((post) => ({
+      ...post,
+      likeCount: post._count.likes,
+      commentCount: post._count.comments,
+      genres: post.genres.map((pg) => pg.genre),
+      isLiked: likedPostIds.has(post.id),
+      isBookmarked: bookmarkedPostIds.has(post.id),
+    }))
+
+    return {
+      posts: formattedPosts,
+      nextCursor: posts.length === limit ? posts[posts.length - 1]?.id : undefined,
+    }
+  } catch (error) {
+    logger.error('Get species posts error:', error)
+    return { posts: [], nextCursor: undefined }
+  }
+}
@@ -8,7 +8,7 @@
  * - 2FAセットアップ（QRコード生成）
  * - 2FA有効化（TOTP検証後）
  * - 2FA無効化（パスワード検証後）
- * - ログイン時の2FA検証
+ * - ログイン時の2FA検証（TOTP・バックアップコード・パスキー）
  * - バックアップコード再生成
  *
  * ## セキュリティ
@@ -38,6 +38,12 @@ import {
   detectCodeType,
   formatTOTPCode,
 } from '@/lib/two-factor'
+import {
+  createAuthenticationOptions,
+  verifyAuthentication,
+  type PasskeyAuthenticationResponse,
+} from '@/lib/passkey'
+import { logTwoFactorChange } from '@/lib/security-logger'
 
 // ============================================================
 // 型定義
@@ -70,6 +76,23 @@ type Disable2FAResult = { success: true } | { error: string }
  */
 type Verify2FAResult = { success: true } | { error: string }
 
+/**
+ * 2FA用パスキー認証オプション取得の結果
+ */
+type GetPasskey2FAOptionsResult =
+  | { options: Awaited<ReturnType<typeof createAuthenticationOptions>> }
+  | { error: string }
+
+/**
+ * 2FA必要性チェックの結果
+ */
+type Check2FARequiredResult = {
+  required: boolean
+  userId?: string
+  /** TOTPの代わりにパスキーで認証できるか */
+  passkeyAvailable?: boolean
+}
+
 /**
  * バックアップコード再生成の結果
  */
@@ -224,6 +247,8 @@ export async function enable2FA(
     },
   })
 
+  logTwoFactorChange(session.user.id, 'enabled')
+
   return { success: true }
 }
 
@@ -289,6 +314,8 @@ export async function disable2FA(password: string): Promise<Disable2FAResult> {
     },
   })
 
+  logTwoFactorChange(session.user.id, 'disabled')
+
   return { success: true }
 }
 
@@ -371,6 +398,54 @@ export async function verify2FAToken(
   }
 }
 
+/**
+ * ログイン時の2FAに使うパスキーの認証オプションを取得する
+ *
+ * 6桁のコードの代わりに、登録済みのパスキーで認証できます。
+ *
+ * @param userId - ユーザーID
+ * @returns startAuthentication に渡すオプション
+ */
+export async function getPasskey2FAOptions(
+  userId: string
+): Promise<GetPasskey2FAOptionsResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, _count: { select: { passkeys: true } } },
+  })
+
+  if (!user || !user.twoFactorEnabled) {
+    return { error: '2段階認証が有効ではありません' }
+  }
+
+  if (user._count.passkeys === 0) {
+    return { error: 'パスキーが登録されていません' }
+  }
+
+  const options = await createAuthenticationOptions('2fa', userId)
+  return { options }
+}
+
+/**
+ * ログイン時の2FAをパスキーで検証する
+ *
+ * @param userId - ユーザーID
+ * @param response - startAuthentication の戻り値
+ * @returns 検証結果
+ */
+export async function verify2FAPasskey(
+  userId: string,
+  response: PasskeyAuthenticationResponse
+): Promise<Verify2FAResult> {
+  const verifiedUserId = await verifyAuthentication('2fa', response, userId)
+
+  if (!verifiedUserId) {
+    return { error: 'パスキーで認証できませんでした' }
+  }
+
+  return { success: true }
+}
+
 // ============================================================
 // バックアップコード再生成
 // ============================================================
@@ -435,6 +510,8 @@ export async function regenerateBackupCodes(
     data: { twoFactorBackupCodes: hashedBackupCodes },
   })
 
+  logTwoFactorChange(session.user.id, 'backup_codes_regenerated')
+
   return { success: true, backupCodes: newBackupCodes }
 }
 
@@ -490,9 +567,10 @@ export async function get2FAStatus(): Promise<Get2FAStatusResult> {
  * ユーザーに2FAが必要かどうかをチェックする
  *
  * ログイン処理中に呼び出し、2FAが有効なユーザーかを確認します。
+ * パスキーを登録している場合は、TOTPの代わりにパスキーで認証できます。
  *
  * @param email - ユーザーのメールアドレス
- * @returns 2FAが必要かどうかとユーザーID
+ * @returns 2FAが必要かどうか、ユーザーID、パスキーで認証できるか
  *
  * @example
  * ```typescript
@@ -504,10 +582,10 @@ export async function get2FAStatus(): Promise<Get2FAStatusResult> {
  */
 export async function check2FARequired(
   email: string
-): Promise<{ required: boolean; userId?: string }> {
+): Promise<Check2FARequiredResult> {
   const user = await prisma.user.findUnique({
     where: { email },
-    select: { id: true, twoFactorEnabled: true },
+    select: { id: true, twoFactorEnabled: true, _count: { select: { passkeys: true } } },
   })
 
   if (!user) {
@@ -516,7 +594,7 @@ export async function check2FARequired(
   }
 
   if (user.twoFactorEnabled) {
-    return { required: true, userId: user.id }
+    return { required: true, userId: user.id, passkeyAvailable: user._count.passkeys > 0 }
   }
 
   return { required: false }
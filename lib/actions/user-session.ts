@@ -0,0 +1,150 @@
+/**
+ * デバイスとセッション関連のServer Actions
+ *
+ * ログインしているデバイスの一覧と、
+ * デバイスごと・すべてのデバイスからのログアウトを提供します。
+ *
+ * ## 機能概要
+ * - ログインしたデバイスの一覧取得（ブラウザ・OS、IPアドレス、最終アクセス）
+ * - 指定したデバイスからのログアウト
+ * - すべてのデバイスからのログアウト
+ *
+ * ログアウトさせたセッションは、次のリクエストの jwt コールバックで無効になります
+ * （lib/user-session.ts を参照）。
+ *
+ * @module lib/actions/user-session
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/db'
+import { auth } from '@/lib/auth'
+import logger from '@/lib/logger'
+import { describeUserAgent } from '@/lib/user-session'
+
+// ============================================================
+// デバイス一覧
+// ============================================================
+
+/**
+ * ログインしたデバイスの一覧を取得する
+ *
+ * 最終アクセスが新しい順に返します。
+ *
+ * @returns デバイスの一覧（current: 現在のデバイス、signedOut: ログアウト済み）
+ */
+export async function getMyDevices() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const devices = await prisma.userDevice.findMany({
+      where: { userId: session.user.id },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        lastSeenAt: true,
+        createdAt: true,
+        signedOutAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    })
+
+    return {
+      devices: devices.map((device) => ({
+        id: device.id,
+        name: describeUserAgent(device.userAgent),
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
+        lastSeenAt: device.lastSeenAt,
+        createdAt: device.createdAt,
+        signedOut: !!device.signedOutAt,
+        current: device.id === session.deviceId,
+      })),
+    }
+  } catch (error) {
+    logger.error('Get my devices error:', error)
+    return { error: 'デバイスの取得に失敗しました' }
+  }
+}
+
+// ============================================================
+// ログアウト
+// ============================================================
+
+/**
+ * 指定したデバイスからログアウトさせる
+ *
+ * デバイスの sessionVersion を増やし、そのデバイスで発行済みのJWTを無効にします。
+ *
+ * @param deviceId - デバイスID
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function signOutDevice(deviceId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    const device = await prisma.userDevice.findUnique({
+      where: { id: deviceId },
+      select: { userId: true },
+    })
+
+    if (!device || device.userId !== session.user.id) {
+      return { error: 'デバイスが見つかりません' }
+    }
+
+    await prisma.userDevice.update({
+      where: { id: deviceId },
+      data: {
+        sessionVersion: { increment: 1 },
+        signedOutAt: new Date(),
+      },
+    })
+
+    revalidatePath('/settings/security/devices')
+    return { success: true }
+  } catch (error) {
+    logger.error('Sign out device error:', error)
+    return { error: 'ログアウトに失敗しました' }
+  }
+}
+
+/**
+ * すべてのデバイスからログアウトさせる
+ *
+ * ユーザーの tokenVersion を増やし、発行済みのJWTをすべて無効にします。
+ * 現在のデバイスもログアウトされるため、呼び出し元でログイン画面へ移動してください。
+ *
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function signOutEverywhere() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: session.user.id },
+        data: { tokenVersion: { increment: 1 } },
+      }),
+      prisma.userDevice.updateMany({
+        where: { userId: session.user.id, signedOutAt: null },
+        data: { signedOutAt: new Date() },
+      }),
+    ])
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Sign out everywhere error:', error)
+    return { error: 'ログアウトに失敗しました' }
+  }
+}
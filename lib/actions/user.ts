@@ -7,9 +7,10 @@
  * ## 機能概要
  * - ユーザー情報の取得
  * - プロフィール更新
- * - プライバシー設定の更新
+ * - プライバシー設定の更新（公開/非公開アカウント、項目ごとの公開範囲、メッセージを受け付ける相手）
  * - アバター画像のアップロード
  * - ヘッダー画像のアップロード
+ * - アカウントの一時停止
  * - アカウント削除
  * - フォロワー/フォロー中一覧の取得
  *
@@ -18,7 +19,7 @@
  * - 盆栽歴: 開始年月
  * - 画像: アバター、ヘッダー
  * - 統計: 投稿数、フォロワー数、フォロー中数
- * - 設定: 公開/非公開アカウント
+ * - 設定: 公開/非公開アカウント、項目ごとの公開範囲
  *
  * @module lib/actions/user
  */
@@ -59,12 +60,31 @@ import { z } from 'zod'
  */
 import { uploadFile } from '@/lib/storage'
 
+/**
+ * アカウントの一時停止・削除
+ * 課金の一時停止と、関連データを含むユーザーの削除に使用
+ */
+import { pauseSubscriptionBilling } from '@/lib/account-deactivation'
+import { deleteUserAccount } from '@/lib/account-deletion'
+
 /**
  * ファイル検証関数
  * シグネチャ検証でMIMEタイプ偽装を防止
  */
 import { validateImageFile, generateSafeFileName } from '@/lib/file-validation'
 
+/**
+ * 項目ごとの公開範囲
+ * 選択肢の定義と、閲覧者が項目を見られるかの判定に使用
+ */
+import {
+  DM_PERMISSION_OPTIONS,
+  VISIBILITY_OPTIONS,
+  type DmPermission,
+  type Visibility,
+} from '@/lib/constants/privacy'
+import { canViewArea, canViewUserArea, getViewerRelationship } from '@/lib/privacy'
+
 // ============================================================
 // バリデーションスキーマ
 // ============================================================
@@ -92,6 +112,32 @@ const profileSchema = z.object({
   birthDate: z.string().nullable().optional(),
 })
 
+/**
+ * 項目ごとの公開範囲のバリデーションスキーマ
+ *
+ * ## フィールド（いずれも任意、省略した項目は変更しない）
+ * - bonsaiVisibility: 盆栽コレクション
+ * - likesVisibility: いいねした投稿
+ * - followsVisibility: フォロー・フォロワー一覧
+ * - locationVisibility: 居住地域
+ * - dmPermission: メッセージを受け付ける相手
+ */
+const visibilitySchema = z.enum(
+  VISIBILITY_OPTIONS.map((option) => option.value) as [Visibility, ...Visibility[]],
+  { message: '公開範囲が正しくありません' }
+)
+
+const privacySettingsSchema = z.object({
+  bonsaiVisibility: visibilitySchema.optional(),
+  likesVisibility: visibilitySchema.optional(),
+  followsVisibility: visibilitySchema.optional(),
+  locationVisibility: visibilitySchema.optional(),
+  dmPermission: z.enum(
+    DM_PERMISSION_OPTIONS.map((option) => option.value) as [DmPermission, ...DmPermission[]],
+    { message: 'メッセージを受け付ける相手が正しくありません' }
+  ).optional(),
+})
+
 // ============================================================
 // ユーザー情報取得
 // ============================================================
@@ -111,6 +157,7 @@ const profileSchema = z.object({
  *
  * ## 認証
  * 認証不要（公開情報として取得可能）
+ * 居住地域は、居住地域の公開範囲外の場合は null にして返す
  *
  * @param userId - 取得対象のユーザーID
  * @returns ユーザー情報、または { error: string }
@@ -151,13 +198,21 @@ export async function getUser(userId: string) {
   })
 
   // ------------------------------------------------------------
-  // ユーザーが見つからない場合
+  // ユーザーが見つからない・一時停止中の場合
   // ------------------------------------------------------------
 
-  if (!user) {
+  if (!user || user.deactivatedAt) {
     return { error: 'ユーザーが見つかりません' }
   }
 
+  // ------------------------------------------------------------
+  // 居住地域の公開範囲のチェック
+  // ------------------------------------------------------------
+
+  const session = await auth()
+  const relationship = await getViewerRelationship(userId, session?.user?.id)
+  const canViewLocation = canViewArea(user.locationVisibility, relationship)
+
   // ------------------------------------------------------------
   // 結果の整形と返却
   // ------------------------------------------------------------
@@ -168,6 +223,7 @@ export async function getUser(userId: string) {
   return {
     user: {
       ...user,
+      location: canViewLocation ? user.location : null,
       postsCount: user._count.posts,
       followersCount: user._count.followers,
       followingCount: user._count.following,
@@ -400,6 +456,77 @@ export async function updatePrivacy(isPublic: boolean) {
   return { success: true }
 }
 
+/**
+ * 項目ごとの公開範囲とメッセージを受け付ける相手を更新
+ *
+ * ## 機能概要
+ * アカウント全体の公開/非公開（isPublic）とは別に、
+ * 項目ごとに見せる相手を設定します。
+ * 例えば、投稿は公開のまま盆栽コレクションだけを非公開にできます。
+ *
+ * ## 公開範囲（盆栽コレクション・いいねした投稿・フォロー・フォロワー一覧・居住地域）
+ * - everyone: 全員
+ * - followers: フォロワーのみ
+ * - only_me: 自分のみ
+ *
+ * ## メッセージを受け付ける相手
+ * - everyone: 全員
+ * - followers: フォロワーのみ
+ * - mutual: 相互フォローのみ
+ * - nobody: 受け付けない
+ *
+ * @param settings - 変更する項目と値（省略した項目は変更しない）
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ *
+ * @example
+ * ```typescript
+ * // 盆栽コレクションを自分のみに公開
+ * const result = await updatePrivacySettings({ bonsaiVisibility: 'only_me' })
+ * ```
+ */
+export async function updatePrivacySettings(settings: {
+  bonsaiVisibility?: string
+  likesVisibility?: string
+  followsVisibility?: string
+  locationVisibility?: string
+  dmPermission?: string
+}) {
+  // ------------------------------------------------------------
+  // 認証チェック
+  // ------------------------------------------------------------
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  // ------------------------------------------------------------
+  // バリデーション
+  // ------------------------------------------------------------
+
+  const result = privacySettingsSchema.safeParse(settings)
+
+  if (!result.success) {
+    return { error: result.error.issues[0].message }
+  }
+
+  // ------------------------------------------------------------
+  // データベース更新
+  // ------------------------------------------------------------
+
+  await prisma.user.update({
+    where: { id: session.user.id },
+    data: result.data,
+  })
+
+  // ------------------------------------------------------------
+  // キャッシュ再検証と結果返却
+  // ------------------------------------------------------------
+
+  revalidatePath(`/users/${session.user.id}`)
+  revalidatePath('/settings/account')
+  return { success: true }
+}
+
 // ============================================================
 // アバター画像アップロード
 // ============================================================
@@ -679,6 +806,80 @@ export async function uploadHeader(formData: FormData) {
   return { success: true, url: result.url }
 }
 
+// ============================================================
+// アカウントの一時停止
+// ============================================================
+
+/**
+ * アカウントを一時停止
+ *
+ * ## 機能概要
+ * アカウントを削除せずに利用を止めます。
+ *
+ * ## 一時停止中
+ * - プロフィール・投稿・盆栽・レビューを誰にも表示しない
+ * - すべてのデバイスからログアウトする
+ * - 有料会員の課金を止める
+ *
+ * ## 元に戻す
+ * 猶予期間内にログインすると元に戻ります。
+ * 猶予期間を過ぎると、アカウントは完全に削除されます（lib/account-deactivation）。
+ *
+ * @returns 成功時は { success: true }、失敗時は { error: string }
+ */
+export async function deactivateAccount() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { error: '認証が必要です' }
+  }
+
+  const userId = session.user.id
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { deactivatedAt: true, stripeSubscriptionId: true },
+    })
+
+    if (!user) {
+      return { error: 'ユーザーが見つかりません' }
+    }
+
+    if (user.deactivatedAt) {
+      return { error: 'アカウントはすでに一時停止しています' }
+    }
+
+    // 課金を止められなかった場合は一時停止しない
+    if (user.stripeSubscriptionId) {
+      await pauseSubscriptionBilling(user.stripeSubscriptionId)
+    }
+
+    /**
+     * 一時停止と同時にすべてのデバイスからログアウトさせる
+     */
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          deactivatedAt: new Date(),
+          tokenVersion: { increment: 1 },
+        },
+      }),
+      prisma.userDevice.updateMany({
+        where: { userId, signedOutAt: null },
+        data: { signedOutAt: new Date() },
+      }),
+    ])
+
+    revalidatePath(`/users/${userId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Account deactivation error:', error)
+    return { error: 'アカウントの一時停止に失敗しました' }
+  }
+}
+
 // ============================================================
 // アカウント削除
 // ============================================================
@@ -698,8 +899,12 @@ export async function uploadHeader(formData: FormData) {
  * - フォロー関係
  * - 通知
  *
+ * 有料会員のサブスクリプションは解約し、
+ * データのエクスポートで作成したZIPも削除します（lib/account-deletion）。
+ *
  * ## 注意
  * この操作は取り消せません。
+ * あとで戻せるようにしたい場合はアカウントの一時停止（deactivateAccount）を使います。
  *
  * @returns 成功時は { success: true }、失敗時は { error: string }
  *
@@ -728,40 +933,11 @@ export async function deleteAccount() {
   const userId = session.user.id
 
   // ------------------------------------------------------------
-  // トランザクションで全データを削除
+  // 全データを削除
   // ------------------------------------------------------------
 
   try {
-    await prisma.$transaction(async (tx) => {
-      // UserAnalytics を明示的に削除（リレーションが後から追加されたため）
-      await tx.userAnalytics.deleteMany({
-        where: { userId },
-      })
-
-      // メッセージ関連
-      await tx.message.deleteMany({
-        where: { senderId: userId },
-      })
-
-      await tx.conversationParticipant.deleteMany({
-        where: { userId },
-      })
-
-      // 通知関連（actor として送った通知も削除）
-      await tx.notification.deleteMany({
-        where: {
-          OR: [
-            { userId },
-            { actorId: userId },
-          ],
-        },
-      })
-
-      // ユーザーを削除（カスケード削除で残りのデータも削除される）
-      await tx.user.delete({
-        where: { id: userId },
-      })
-    })
+    await deleteUserAccount(userId)
 
     return { success: true }
   } catch (error) {
@@ -779,6 +955,7 @@ export async function deleteAccount() {
  *
  * ## 機能概要
  * 指定されたユーザーのフォロワー一覧を取得します。
+ * フォロー・フォロワー一覧の公開範囲（User.followsVisibility）外の場合は取得しません。
  *
  * ## 用途
  * - プロフィールページの「フォロワー」タブ
@@ -804,6 +981,14 @@ export async function deleteAccount() {
  * ```
  */
 export async function getFollowers(userId: string, cursor?: string) {
+  /**
+   * フォロー・フォロワー一覧の公開範囲外の場合は取得しない
+   */
+  const session = await auth()
+  if (!(await canViewUserArea(userId, 'followsVisibility', session?.user?.id))) {
+    return { followers: [], error: 'フォロワー一覧は非公開です' }
+  }
+
   /**
    * フォロー関係を取得
    *
@@ -857,6 +1042,7 @@ export async function getFollowers(userId: string, cursor?: string) {
  *
  * ## 機能概要
  * 指定されたユーザーがフォローしているユーザーの一覧を取得します。
+ * フォロー・フォロワー一覧の公開範囲（User.followsVisibility）外の場合は取得しません。
  *
  * ## 用途
  * - プロフィールページの「フォロー中」タブ
@@ -883,6 +1069,14 @@ export async function getFollowers(userId: string, cursor?: string) {
  * ```
  */
 export async function getFollowing(userId: string, cursor?: string) {
+  /**
+   * フォロー・フォロワー一覧の公開範囲外の場合は取得しない
+   */
+  const session = await auth()
+  if (!(await canViewUserArea(userId, 'followsVisibility', session?.user?.id))) {
+    return { following: [], error: 'フォロー中のユーザー一覧は非公開です' }
+  }
+
   /**
    * フォロー関係を取得
    *
@@ -65,7 +65,7 @@ import type { NextAuthConfig } from "next-auth";
  * - 一覧性が高い
  * - コードの意図が明確
  */
-const publicPaths = ['/', '/login', '/register', '/password-reset', '/verify-email']
+const publicPaths = ['/', '/login', '/register', '/password-reset', '/verify-email', '/login-alert']
 
 // ============================================================
 // 設定オブジェクト
@@ -2,7 +2,7 @@
  * 認証設定メインファイル
  *
  * このファイルは、NextAuth.js（Auth.js v5）を使用したユーザー認証機能を提供します。
- * メール/パスワードによるログイン、セッション管理、ユーザー登録を担当します。
+ * メール/パスワードとソーシャルログインによるログイン、セッション管理、ユーザー登録を担当します。
  *
  * ## NextAuth.jsとは？
  * Next.js向けの認証ライブラリ。以下の機能を提供：
@@ -13,6 +13,8 @@
  *
  * ## このアプリの認証方式
  * - Credentials Provider: メールアドレス + パスワード
+ * - Passkey Provider: パスキー（WebAuthn）によるパスワードなしのログイン
+ * - OAuth/OIDC Provider: LINE・Google・Apple・任意のOIDC（lib/social-login.ts）
  * - JWT (JSON Web Token): セッション管理
  * - Prisma Adapter: ユーザーデータをPostgreSQLに保存
  *
@@ -34,7 +36,7 @@
  *
  * 認証設定を受け取り、認証に必要な全ての関数をエクスポート
  */
-import NextAuth from 'next-auth'
+import NextAuth, { CredentialsSignin } from 'next-auth'
 
 /**
  * PrismaAdapter: NextAuth.jsとPrismaを連携するアダプター
@@ -113,6 +115,44 @@ import { z } from 'zod'
  */
 import { authConfig } from '@/lib/auth.config' // インポート
 
+/**
+ * ソーシャルログイン
+ * プロバイダー設定・ユーザー作成・サインイン時のチェック
+ */
+import {
+  buildSocialProviders,
+  createSocialUser,
+  checkSocialSignIn,
+  isProfileEmailVerified,
+  markSocialEmailVerified,
+} from '@/lib/social-login'
+
+/**
+ * パスキー認証
+ * パスワードなしのログインでの認証レスポンスの検証
+ */
+import { verifyAuthentication } from '@/lib/passkey'
+
+/**
+ * アカウントの一時停止
+ * 猶予期間を過ぎた一時停止中のアカウントのチェック
+ */
+import { isDeactivationExpired } from '@/lib/account-deactivation'
+
+/**
+ * ログインセッション管理
+ * デバイスとの結びつけと、ログアウトしたセッションの無効化
+ */
+import { startUserSession, validateUserSession } from '@/lib/user-session'
+
+/**
+ * Cookie操作
+ * ソーシャルログイン時のフィンガープリントの取得に使用
+ */
+import { cookies } from 'next/headers'
+import { SOCIAL_LOGIN_DEVICE_COOKIE } from '@/lib/constants/social-login'
+import { PASSWORD_RESET_REQUIRED_CODE } from '@/lib/constants/login-alert'
+
 // ============================================================
 // バリデーションスキーマ
 // ============================================================
@@ -138,6 +178,27 @@ const loginSchema = z.object({
   password: z.string().min(8, 'パスワードは8文字以上である必要があります'),
 })
 
+/**
+ * ログインフォームから送られたデバイスフィンガープリントを取り出す
+ *
+ * セッションをデバイスに結びつけるために使用（lib/user-session.ts）
+ * 取得できなかった場合は undefined
+ */
+function getCredentialFingerprint(credentials: Partial<Record<string, unknown>> | undefined) {
+  const fingerprint = credentials?.fingerprint
+  return typeof fingerprint === 'string' && fingerprint ? fingerprint : undefined
+}
+
+/**
+ * パスワードの再設定が必要なアカウントのログインエラー
+ *
+ * signIn の結果の code で判定し、ログインフォームで再設定を案内する
+ * （パスワードの誤りではないため、ログイン失敗としては数えない）
+ */
+class PasswordResetRequiredError extends CredentialsSignin {
+  code = PASSWORD_RESET_REQUIRED_CODE
+}
+
 // ============================================================
 // NextAuth設定とエクスポート
 // ============================================================
@@ -180,8 +241,14 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
    *
    * NextAuth.jsがデータベースにアクセスするために使用
    * ユーザー作成時にPrismaを通じてDBに保存
+   *
+   * ソーシャルログインで作成するユーザーは name/image を
+   * nickname/avatarUrl に変換するため createUser を差し替える
    */
-  adapter: PrismaAdapter(prisma),
+  adapter: {
+    ...PrismaAdapter(prisma),
+    createUser: createSocialUser,
+  },
 
   /**
    * セッション戦略
@@ -207,6 +274,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
    * 認証プロバイダー
    *
    * Credentials Provider を使用してメール/パスワード認証を実装
+   * 環境変数を設定したソーシャルログインのプロバイダーを追加
    */
   providers: [
     CredentialsProvider({
@@ -257,6 +325,8 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
          * findUnique: 一意な条件でレコードを取得
          * email はユニーク制約があるため使用可能
          * isSuspended: アカウント停止状態のチェック用
+         * passwordResetRequired: パスワードの再設定が必要かのチェック用
+         * deactivatedAt: 一時停止の猶予期間のチェック用
          */
         const user = await prisma.user.findUnique({
           where: { email },
@@ -267,6 +337,8 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             nickname: true,
             avatarUrl: true,
             isSuspended: true,
+            passwordResetRequired: true,
+            deactivatedAt: true,
           },
         })
 
@@ -287,6 +359,14 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
          */
         if (user.isSuspended) return null
 
+        /**
+         * 一時停止の猶予期間のチェック
+         *
+         * 猶予期間を過ぎたアカウントは削除の対象のため、
+         * Cronジョブが削除する前でもログインで元に戻さない（lib/account-deactivation.ts）
+         */
+        if (isDeactivationExpired(user.deactivatedAt)) return null
+
         /**
          * パスワードの検証
          *
@@ -298,6 +378,16 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         const passwordMatch = await bcrypt.compare(password, user.password)
         if (!passwordMatch) return null
 
+        /**
+         * パスワードの再設定が必要かのチェック
+         *
+         * 「心当たりがないログイン」が報告されたアカウントは、パスワードが
+         * 漏れている可能性があるため、再設定するまでパスワードでのログイン不可
+         * （lib/actions/login-alert.ts）
+         * パスワードが一致した場合のみ再設定を案内し、アカウントの状態を第三者に知らせない
+         */
+        if (user.passwordResetRequired) throw new PasswordResetRequiredError()
+
         /**
          * 認証成功時のユーザーオブジェクト
          *
@@ -312,9 +402,65 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           email: user.email,
           name: user.nickname,
           image: user.avatarUrl,
+          fingerprint: getCredentialFingerprint(credentials),
+        }
+      },
+    }),
+    /**
+     * パスキーでのログイン
+     *
+     * ## 処理フロー
+     * 1. startAuthentication の戻り値（JSON文字列）を受け取る
+     * 2. Cookieのチャレンジと保存済みの公開鍵で検証（lib/passkey.ts）
+     * 3. アカウント停止・一時停止の猶予期間のチェック
+     *
+     * パスキーはユーザー検証（生体認証・PIN）を必須にしているため、
+     * 2段階認証を有効にしていても追加のコード入力は求めない
+     */
+    CredentialsProvider({
+      id: 'passkey',
+      name: 'passkey',
+      credentials: {
+        response: { type: 'text' },
+        fingerprint: { type: 'text' },
+      },
+      async authorize(credentials) {
+        if (typeof credentials?.response !== 'string') return null
+
+        let response
+        try {
+          response = JSON.parse(credentials.response)
+        } catch {
+          return null
+        }
+
+        const userId = await verifyAuthentication('login', response)
+        if (!userId) return null
+
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: {
+            id: true,
+            email: true,
+            nickname: true,
+            avatarUrl: true,
+            isSuspended: true,
+            deactivatedAt: true,
+          },
+        })
+
+        if (!user || user.isSuspended || isDeactivationExpired(user.deactivatedAt)) return null
+
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.nickname,
+          image: user.avatarUrl,
+          fingerprint: getCredentialFingerprint(credentials),
         }
       },
     }),
+    ...buildSocialProviders(),
   ],
 
   /**
@@ -324,6 +470,36 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
    * セッションにカスタムデータを追加するために使用
    */
   callbacks: {
+    /**
+     * サインインコールバック
+     *
+     * ## 役割
+     * ソーシャルログインのとき、ブラックリスト・アカウント停止・
+     * 既存アカウントとの連携をチェックする（lib/social-login.ts）
+     *
+     * ## 戻り値
+     * - true: サインインを許可
+     * - 文字列: 拒否してエラーコード付きのURLへリダイレクト
+     *
+     * メール/パスワードのチェックは authorize 関数で行う
+     */
+    async signIn({ account, profile, user }) {
+      if (!account || account.type === 'credentials') {
+        return true
+      }
+
+      // ログイン中ならアカウント連携として扱う
+      const session = await auth()
+
+      return checkSocialSignIn({
+        provider: account.provider,
+        providerAccountId: account.providerAccountId,
+        email: user.email,
+        emailVerified: isProfileEmailVerified(profile),
+        currentUserId: session?.user?.id,
+      })
+    },
+
     /**
      * JWTコールバック
      *
@@ -336,12 +512,26 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
      * @param user - authorize関数から返されたユーザー（初回サインイン時のみ）
      *
      * ## 処理
-     * 初回サインイン時にユーザーIDをトークンに追加
+     * 初回サインイン時にユーザーIDとセッション情報（デバイス）をトークンに追加
+     * 2回目以降は、ログアウトさせたセッションでないかをDBと照合する
+     *
+     * ## 戻り値
+     * null を返すとセッションが無効になり、未ログインとして扱われる
      */
     async jwt({ token, user }) {
       // 初回サインイン時のみuserが存在
-      if (user) {
+      if (user?.id) {
         token.id = user.id
+
+        // ソーシャルログインはフィンガープリントをCookieで受け取る
+        const fingerprint =
+          user.fingerprint ?? (await cookies()).get(SOCIAL_LOGIN_DEVICE_COOKIE)?.value
+        Object.assign(token, await startUserSession(user.id, fingerprint))
+        return token
+      }
+
+      if (!(await validateUserSession(token))) {
+        return null
       }
       return token
     },
@@ -366,9 +556,31 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       if (session.user && token.id) {
         session.user.id = token.id as string
       }
+      // 「デバイスとセッション」で現在のデバイスを表示するために使用
+      session.deviceId = token.deviceId
       return session
     },
   },
+
+  /**
+   * イベント
+   *
+   * サインイン後に呼び出され、結果には影響しない処理を行う
+   */
+  events: {
+    /**
+     * サインイン後のイベント
+     *
+     * ソーシャルログインで、プロバイダーが確認済みのメールアドレスを
+     * アカウントでも確認済みにする（新規作成時は emailVerified が null のため）
+     */
+    async signIn({ user, account, profile }) {
+      if (!account || account.type === 'credentials') {
+        return
+      }
+      await markSocialEmailVerified(user.id, profile)
+    },
+  },
 })
 
 // ============================================================
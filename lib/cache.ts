@@ -28,6 +28,7 @@
  * - ジャンル一覧: 1時間（3600秒）- 変更頻度が非常に低い
  * - トレンドジャンル: 5分（300秒）- 適度に新鮮さを保つ
  * - 人気タグ: 5分（300秒）- 適度に新鮮さを保つ
+ * - トレンドハッシュタグ: 1時間（3600秒）- 定期ジョブの集計後にタグで即時無効化
  *
  * @module lib/cache
  */
@@ -83,6 +84,13 @@ import { unstable_cache, revalidateTag } from 'next/cache'
  */
 import { prisma } from '@/lib/db'
 
+/**
+ * getTrendDirection: トレンドの勢い（新着・急上昇など）の判定
+ *
+ * 集計結果の伸び率から、サイドバーに表示する勢いを判定するために使用。
+ */
+import { getTrendDirection } from '@/lib/trending-hashtags'
+
 // ============================================================
 // キャッシュタグ定義
 // ============================================================
@@ -113,11 +121,13 @@ import { prisma } from '@/lib/db'
  * - GENRES: ジャンルマスタデータのキャッシュ
  * - TRENDING_GENRES: トレンドジャンル（投稿数ベース）のキャッシュ
  * - POPULAR_TAGS: 人気ハッシュタグのキャッシュ
+ * - TRENDING_HASHTAGS: トレンドハッシュタグ（定期ジョブの集計結果）のキャッシュ
  */
 export const CACHE_TAGS = {
   GENRES: 'genres',
   TRENDING_GENRES: 'trending-genres',
   POPULAR_TAGS: 'popular-tags',
+  TRENDING_HASHTAGS: 'trending-hashtags',
 } as const
 
 // ============================================================
@@ -400,6 +410,7 @@ export const getCachedPopularTags = unstable_cache(
      * - isHidden: false - 非表示の投稿を除外
      * - createdAt: { gte: oneWeekAgo } - 1週間以内の投稿
      * - content: { contains: '#' } - #を含む投稿のみ
+     * - audience: 'public' - 全体公開の投稿のみ（全ユーザー共通のキャッシュのため）
      * - select: { content: true } - 本文のみ取得（パフォーマンス最適化）
      */
     const posts = await prisma.post.findMany({
@@ -409,6 +420,7 @@ export const getCachedPopularTags = unstable_cache(
         content: {
           contains: '#',
         },
+        audience: 'public',
       },
       select: {
         content: true,
@@ -474,6 +486,61 @@ export const getCachedPopularTags = unstable_cache(
   }
 )
 
+/**
+ * トレンドハッシュタグを取得（キャッシュあり）
+ *
+ * ## 機能概要
+ * 定期ジョブ（app/api/cron/compute-trending-hashtags）が集計した
+ * トレンドハッシュタグをスコア順に取得
+ *
+ * ## キャッシュ設定
+ * - revalidate: 3600秒（1時間）
+ * - 集計は毎時実行され、集計後に revalidateTrendingHashtagsCache() で即時無効化される
+ *
+ * ## パラメータ
+ * @param limit - 取得するタグ数（デフォルト: 10）
+ *
+ * ## 戻り値の構造
+ * ```typescript
+ * {
+ *   hashtags: [
+ *     { id: '1', name: '紅葉', recentCount: 12, velocity: 8.4, trend: 'rising' },
+ *     { id: '2', name: '盆栽', recentCount: 30, velocity: 1.1, trend: 'steady' },
+ *     // ...
+ *   ]
+ * }
+ * ```
+ *
+ * ## 数値の丸め
+ * 使用数は同じユーザーの連投を減衰させた小数のため、表示用に丸めて返す
+ */
+export const getCachedTrendingHashtags = unstable_cache(
+  async (limit = 10) => {
+    const trending = await prisma.trendingHashtag.findMany({
+      orderBy: [{ score: 'desc' }, { hashtagId: 'asc' }],
+      take: limit,
+      include: {
+        hashtag: { select: { name: true } },
+      },
+    })
+
+    return {
+      hashtags: trending.map((t: typeof trending[number]) => ({
+        id: t.hashtagId,
+        name: t.hashtag.name,
+        recentCount: Math.round(t.recentCount),
+        velocity: Math.round(t.velocity * 10) / 10,  // 小数第1位まで
+        trend: getTrendDirection(t.velocity, t.baselineCount),
+      })),
+    }
+  },
+  ['trending-hashtags'],  // キャッシュキー
+  {
+    revalidate: 3600, // 1時間（3600秒）
+    tags: [CACHE_TAGS.TRENDING_HASHTAGS],
+  }
+)
+
 // ============================================================
 // キャッシュ無効化関数
 // ============================================================
@@ -535,3 +602,19 @@ export function revalidateTrendingGenresCache() {
 export function revalidatePopularTagsCache() {
   revalidateTag(CACHE_TAGS.POPULAR_TAGS, { expire: 0 })
 }
+
+/**
+ * トレンドハッシュタグキャッシュを無効化
+ *
+ * ## 使用シーン
+ * - 定期ジョブでトレンドハッシュタグを集計した後
+ *
+ * ## 使用例
+ * ```typescript
+ * await computeTrendingHashtags()
+ * revalidateTrendingHashtagsCache()
+ * ```
+ */
+export function revalidateTrendingHashtagsCache() {
+  revalidateTag(CACHE_TAGS.TRENDING_HASHTAGS, { expire: 0 })
+}
@@ -0,0 +1,222 @@
+/**
+ * 盆栽の成長記録の種類の定数定義
+ *
+ * このファイルは、成長記録（BonsaiRecord）の種類と、
+ * 種類ごとに記録する作業の詳細項目を定義します。
+ *
+ * ## 記録の種類とは
+ * 自由記述だけでは「最後に植え替えたのはいつか」「施肥の頻度」などを
+ * 後から集計できないため、作業ごとに種類と詳細項目を持たせています。
+ * 種類を指定しない記録（従来の記録を含む）は 'general' として扱います。
+ *
+ * @module lib/constants/bonsai-record
+ */
+
+// ============================================================
+// 記録の種類
+// ============================================================
+
+/**
+ * 成長記録の種類
+ *
+ * ## 各種類の説明
+ * - general: 自由記述の成長記録（従来の記録）
+ * - repotting: 植え替え（用土の配合・鉢のサイズ）
+ * - wiring: 針金かけ（針金の太さ）
+ * - pruning: 剪定・芽摘み
+ * - fertilizing: 施肥（肥料名・量）
+ * - treatment: 消毒・薬剤散布（薬剤名）
+ * - measurement: 計測（樹高・幹径・根張り）
+ */
+export const BONSAI_RECORD_TYPES = [
+  { value: 'general', label: '成長記録' },
+  { value: 'repotting', label: '植え替え' },
+  { value: 'wiring', label: '針金かけ' },
+  { value: 'pruning', label: '剪定' },
+  { value: 'fertilizing', label: '施肥' },
+  { value: 'treatment', label: '消毒' },
+  { value: 'measurement', label: '計測' },
+] as const
+
+/**
+ * 記録の種類の型
+ */
+export type BonsaiRecordType = typeof BONSAI_RECORD_TYPES[number]['value']
+
+/**
+ * 記録の種類の表示ラベル
+ */
+export const BONSAI_RECORD_TYPE_LABELS: Record<BonsaiRecordType, string> = Object.fromEntries(
+  BONSAI_RECORD_TYPES.map((t) => [t.value, t.label])
+) as Record<BonsaiRecordType, string>
+
+/**
+ * 有効な記録の種類かどうかを判定
+ *
+ * @param value - 判定する値
+ * @returns 記録の種類として有効な場合は true
+ */
+export function isBonsaiRecordType(value: string): value is BonsaiRecordType {
+  return BONSAI_RECORD_TYPES.some((t) => t.value === value)
+}
+
+/**
+ * 記録の種類の表示ラベルを取得
+ * 未知の種類は「成長記録」として扱う
+ *
+ * @param type - 記録の種類
+ * @returns 表示ラベル
+ */
+export function getBonsaiRecordTypeLabel(type: string): string {
+  return isBonsaiRecordType(type) ? BONSAI_RECORD_TYPE_LABELS[type] : BONSAI_RECORD_TYPE_LABELS.general
+}
+
+// ============================================================
+// 詳細項目
+// ============================================================
+
+/**
+ * 記録の詳細項目
+ *
+ * テキスト項目は文字列、計測項目はcm単位の数値
+ */
+export type BonsaiRecordDetails = {
+  soilMix?: string | null
+  potSize?: string | null
+  wireGauge?: string | null
+  fertilizerProduct?: string | null
+  fertilizerAmount?: string | null
+  treatmentChemical?: string | null
+  heightCm?: number | null
+  trunkDiameterCm?: number | null
+  nebariWidthCm?: number | null
+}
+
+/**
+ * 詳細項目のキー
+ */
+export type BonsaiRecordDetailKey = keyof BonsaiRecordDetails
+
+/**
+ * 詳細項目の定義
+ *
+ * @property key - 項目のキー
+ * @property label - 表示ラベル
+ * @property kind - 入力の種類（text: 文字列、number: 数値）
+ * @property unit - 単位（数値項目のみ）
+ * @property placeholder - 入力例
+ */
+export type BonsaiRecordDetailField = {
+  key: BonsaiRecordDetailKey
+  label: string
+  kind: 'text' | 'number'
+  unit?: string
+  placeholder?: string
+}
+
+/**
+ * 記録の種類ごとの詳細項目
+ */
+export const BONSAI_RECORD_DETAIL_FIELDS: Record<BonsaiRecordType, BonsaiRecordDetailField[]> = {
+  general: [],
+  repotting: [
+    { key: 'soilMix', label: '用土', kind: 'text', placeholder: '例: 赤玉土7・桐生砂3' },
+    { key: 'potSize', label: '鉢', kind: 'text', placeholder: '例: 5号 楕円' },
+  ],
+  wiring: [
+    { key: 'wireGauge', label: '針金', kind: 'text', placeholder: '例: アルミ 2.0mm' },
+  ],
+  pruning: [],
+  fertilizing: [
+    { key: 'fertilizerProduct', label: '肥料', kind: 'text', placeholder: '例: 玉肥' },
+    { key: 'fertilizerAmount', label: '量', kind: 'text', placeholder: '例: 4個' },
+  ],
+  treatment: [
+    { key: 'treatmentChemical', label: '薬剤', kind: 'text', placeholder: '例: 石灰硫黄合剤 7倍' },
+  ],
+  measurement: [
+    { key: 'heightCm', label: '樹高', kind: 'number', unit: 'cm' },
+    { key: 'trunkDiameterCm', label: '幹径', kind: 'number', unit: 'cm' },
+    { key: 'nebariWidthCm', label: '根張り', kind: 'number', unit: 'cm' },
+  ],
+}
+
+/**
+ * 全ての詳細項目のキー
+ * 種類を変更した際に、使わなくなった項目をクリアするために使用
+ */
+export const BONSAI_RECORD_DETAIL_KEYS: BonsaiRecordDetailKey[] = [
+  'soilMix',
+  'potSize',
+  'wireGauge',
+  'fertilizerProduct',
+  'fertilizerAmount',
+  'treatmentChemical',
+  'heightCm',
+  'trunkDiameterCm',
+  'nebariWidthCm',
+]
+
+/**
+ * 記録の詳細を表示用の文字列に整形
+ *
+ * @param type - 記録の種類
+ * @param details - 記録の詳細
+ * @returns 「用土: 赤玉土7・桐生砂3」のような文字列の配列（値がある項目のみ）
+ *
+ * @example
+ * ```typescript
+ * formatBonsaiRecordDetails('measurement', { heightCm: 32.5 })
+ * // => ['樹高: 32.5cm']
+ * ```
+ */
+export function formatBonsaiRecordDetails(type: string, details: BonsaiRecordDetails): string[] {
+  if (!isBonsaiRecordType(type)) return []
+
+  return BONSAI_RECORD_DETAIL_FIELDS[type]
+    .filter((field) => details[field.key] !== null && details[field.key] !== undefined && details[field.key] !== '')
+    .map((field) => `${field.label}: ${details[field.key]}${field.unit ?? ''}`)
+}
+
+// ============================================================
+// 成長グラフ
+// ============================================================
+
+/**
+ * 成長グラフの指標（計測記録の数値項目）
+ */
+export const BONSAI_GROWTH_METRICS = BONSAI_RECORD_DETAIL_FIELDS.measurement
+
+/**
+ * 成長グラフの1点分のデータ
+ */
+export type BonsaiGrowthPoint = {
+  /** 記録日時 */
+  recordAt: Date
+  heightCm: number | null
+  trunkDiameterCm: number | null
+  nebariWidthCm: number | null
+}
+
+/**
+ * 計測記録から成長グラフのデータを作成
+ *
+ * 計測値が1つもない記録は除外し、記録日の古い順に並べる。
+ *
+ * @param records - 成長記録の配列（順不同）
+ * @returns グラフ用のデータ（古い順）
+ */
+export function buildBonsaiGrowthSeries(
+  records: ({ type?: string; recordAt: Date | string } & BonsaiRecordDetails)[]
+): BonsaiGrowthPoint[] {
+  return records
+    .filter((record) => record.type === 'measurement')
+    .map((record) => ({
+      recordAt: new Date(record.recordAt),
+      heightCm: record.heightCm ?? null,
+      trunkDiameterCm: record.trunkDiameterCm ?? null,
+      nebariWidthCm: record.nebariWidthCm ?? null,
+    }))
+    .filter((point) => point.heightCm !== null || point.trunkDiameterCm !== null || point.nebariWidthCm !== null)
+    .sort((a, b) => a.recordAt.getTime() - b.recordAt.getTime())
+}
@@ -0,0 +1,132 @@
+/**
+ * 樹種マスタ（樹種図鑑）の定数定義
+ *
+ * このファイルは、樹種の分類と季節ごとの手入れの項目、
+ * 自由記述の樹種名を樹種マスタと照合するための表記の正規化を定義します。
+ *
+ * ## 樹種の照合とは
+ * 盆栽の樹種は自由記述のため「黒松」「クロマツ」「くろまつ」のような
+ * 表記揺れがあります。全角・半角とひらがな・カタカナの違いを吸収した
+ * 候補を作り、樹種マスタの名前・読み・学名・別名と照合します。
+ *
+ * @module lib/constants/bonsai-species
+ */
+
+// ============================================================
+// 分類
+// ============================================================
+
+/**
+ * 樹種の分類
+ *
+ * ## 各分類の説明
+ * - conifer: 松柏（松・真柏などの常緑針葉樹）
+ * - deciduous: 雑木（紅葉・欅などの落葉樹）
+ * - flowering: 花もの（梅・皐月など花を楽しむ樹種）
+ * - fruiting: 実もの（梅擬・姫林檎など実を楽しむ樹種）
+ */
+export const BONSAI_SPECIES_CATEGORIES = [
+  { value: 'conifer', label: '松柏' },
+  { value: 'deciduous', label: '雑木' },
+  { value: 'flowering', label: '花もの' },
+  { value: 'fruiting', label: '実もの' },
+] as const
+
+/**
+ * 樹種の分類の型
+ */
+export type BonsaiSpeciesCategory = typeof BONSAI_SPECIES_CATEGORIES[number]['value']
+
+/**
+ * 樹種の分類の表示ラベルを取得
+ * 未知の分類はそのまま返す
+ *
+ * @param category - 樹種の分類
+ * @returns 表示ラベル
+ */
+export function getBonsaiSpeciesCategoryLabel(category: string): string {
+  return BONSAI_SPECIES_CATEGORIES.find((c) => c.value === category)?.label ?? category
+}
+
+// ============================================================
+// 季節ごとの手入れ
+// ============================================================
+
+/**
+ * 季節ごとの手入れの項目
+ *
+ * key は BonsaiSpecies のカラム名に対応
+ */
+export const BONSAI_SPECIES_CARE_SEASONS = [
+  { key: 'careSpring', label: '春', months: '3〜5月' },
+  { key: 'careSummer', label: '夏', months: '6〜8月' },
+  { key: 'careAutumn', label: '秋', months: '9〜11月' },
+  { key: 'careWinter', label: '冬', months: '12〜2月' },
+] as const
+
+/**
+ * 季節ごとの手入れの項目キーの型
+ */
+export type BonsaiSpeciesCareKey = typeof BONSAI_SPECIES_CARE_SEASONS[number]['key']
+
+// ============================================================
+// 表記の正規化
+// ============================================================
+
+/**
+ * カタカナ（ァ〜ヶ）とひらがな（ぁ〜ゖ）の文字コードの差
+ */
+const KANA_OFFSET = 0x60
+
+/**
+ * カタカナをひらがなに変換
+ *
+ * @param text - 変換する文字列
+ * @returns ひらがなに変換した文字列
+ */
+export function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - KANA_OFFSET))
+}
+
+/**
+ * ひらがなをカタカナに変換
+ *
+ * @param text - 変換する文字列
+ * @returns カタカナに変換した文字列
+ */
+export function toKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) + KANA_OFFSET))
+}
+
+/**
+ * 樹種名を照合用に正規化
+ *
+ * 全角英数字・半角カタカナを NFKC で揃え、前後と連続する空白を整理する
+ *
+ * @param text - 樹種名
+ * @returns 正規化した樹種名
+ */
+export function normalizeSpeciesName(text: string): string {
+  return text.normalize('NFKC').trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * 樹種名の照合候補を作成
+ *
+ * 正規化した表記と、そのひらがな・カタカナ表記を重複なく返す。
+ * 空文字の場合は空配列を返す。
+ *
+ * @param text - 樹種名
+ * @returns 照合候補
+ *
+ * @example
+ * ```typescript
+ * buildSpeciesNameVariants(' クロマツ ')
+ * // ['クロマツ', 'くろまつ']
+ * ```
+ */
+export function buildSpeciesNameVariants(text: string): string[] {
+  const normalized = normalizeSpeciesName(text)
+  if (!normalized) return []
+  return Array.from(new Set([normalized, toHiragana(normalized), toKatakana(normalized)]))
+}
@@ -0,0 +1,439 @@
+/**
+ * 季節のお手入れカレンダーの定数定義
+ *
+ * このファイルは、樹種の分類・樹種ごとの作業の適期と、
+ * 居住地域の気候による適期のずれを定義します。
+ *
+ * ## 適期のずれとは
+ * 作業の適期（植え替え・芽切りなど）は気候によって変わります。
+ * 下の CARE_CALENDAR_ENTRIES は関東〜近畿の平野部（温暖地）を基準にしており、
+ * 北海道では春の作業が遅く・秋冬の作業が早く、九州では逆になります。
+ * 居住地域（User.location）から気候区分を求め、週単位で適期をずらします。
+ *
+ * Server Actions とクライアントコンポーネントの両方から使用するため、
+ * 'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/constants/care-calendar
+ */
+
+import { REGIONS, getRegionByPrefecture, type Region } from '@/lib/constants/prefectures'
+import type { BonsaiSpeciesCategory } from '@/lib/constants/bonsai-species'
+import type { BonsaiRecordType } from '@/lib/constants/bonsai-record'
+
+// ============================================================
+// 気候区分
+// ============================================================
+
+/**
+ * 気候区分
+ *
+ * offsetWeeks は温暖地を基準にした春の作業の遅れ（週）。
+ * 秋冬の作業は逆向きにずれる（寒冷地では早まる）。
+ */
+export const CARE_CLIMATE_ZONES = [
+  { value: 'cold', label: '寒冷地', offsetWeeks: 4 },
+  { value: 'cool', label: '冷涼地', offsetWeeks: 2 },
+  { value: 'temperate', label: '温暖地', offsetWeeks: 0 },
+  { value: 'warm', label: '暖地', offsetWeeks: -2 },
+  { value: 'subtropical', label: '亜熱帯', offsetWeeks: -4 },
+] as const
+
+/**
+ * 気候区分の型
+ */
+export type CareClimateZone = typeof CARE_CLIMATE_ZONES[number]
+
+/**
+ * 居住地域が未設定・海外などで判定できない場合の気候区分（温暖地）
+ */
+export const DEFAULT_CARE_CLIMATE_ZONE: CareClimateZone = CARE_CLIMATE_ZONES[2]
+
+/**
+ * 地方ブロックごとの気候区分
+ */
+const REGION_CLIMATE_ZONES: Record<Region, CareClimateZone['value']> = {
+  '北海道': 'cold',
+  '東北': 'cool',
+  '関東': 'temperate',
+  '中部': 'temperate',
+  '近畿': 'temperate',
+  '中国': 'temperate',
+  '四国': 'warm',
+  '九州・沖縄': 'warm',
+}
+
+/**
+ * 地方ブロックと異なる気候区分の都道府県・地域
+ *
+ * 中部のうち日本海側と内陸（北陸・甲信越）は冷涼地、沖縄は亜熱帯。
+ * 居住地域の選択肢にある「北陸」「甲信越」「東海」「九州」「沖縄」もここで扱う。
+ */
+const AREA_CLIMATE_ZONES: Record<string, CareClimateZone['value']> = {
+  '新潟県': 'cool',
+  '富山県': 'cool',
+  '石川県': 'cool',
+  '福井県': 'cool',
+  '山梨県': 'cool',
+  '長野県': 'cool',
+  '沖縄県': 'subtropical',
+  '北陸': 'cool',
+  '甲信越': 'cool',
+  '東海': 'temperate',
+  '九州': 'warm',
+  '沖縄': 'subtropical',
+}
+
+/**
+ * 居住地域から気候区分を取得
+ *
+ * 都道府県・地方ブロック・居住地域の選択肢の地域名に対応。
+ * 海外や未設定の場合は null を返す。
+ *
+ * @param location - 居住地域（User.location）
+ * @returns 気候区分、または null
+ *
+ * @example
+ * ```typescript
+ * getCareClimateZone('札幌市')   // null（都道府県・地方名ではない）
+ * getCareClimateZone('北海道')   // 寒冷地
+ * getCareClimateZone('福岡県')   // 暖地
+ * ```
+ */
+export function getCareClimateZone(location: string | null | undefined): CareClimateZone | null {
+  if (!location) return null
+
+  // 都道府県・地域ごとの例外 → 地方ブロック名 → 都道府県の属する地方ブロックの順に判定
+  const region = location in REGIONS ? (location as Region) : getRegionByPrefecture(location)
+  const value = AREA_CLIMATE_ZONES[location] ?? (region ? REGION_CLIMATE_ZONES[region] : undefined)
+
+  return CARE_CLIMATE_ZONES.find((zone) => zone.value === value) ?? null
+}
+
+// ============================================================
+// 作業の適期
+// ============================================================
+
+/**
+ * 月日（[月, 日]）
+ */
+type MonthDay = readonly [number, number]
+
+/**
+ * お手入れカレンダーの作業
+ */
+export interface CareCalendarEntry {
+  /** 作業ID */
+  id: string
+  /** 作業名 */
+  label: string
+  /** 対応する成長記録の種類 */
+  recordType: BonsaiRecordType
+  /** 対象の樹種の分類（species と併用不可） */
+  categories?: readonly BonsaiSpeciesCategory[]
+  /** 対象の樹種（スラッグ） */
+  species?: readonly string[]
+  /** 分類で対象にした中から除く樹種（スラッグ） */
+  excludeSpecies?: readonly string[]
+  /** 温暖地での適期の開始 */
+  start: MonthDay
+  /** 温暖地での適期の終了（開始より前なら翌年） */
+  end: MonthDay
+  /** 気候によるずれの向き（1: 春の作業、-1: 秋冬の作業） */
+  shift: 1 | -1
+  /** 作業のポイント */
+  note: string
+}
+
+/**
+ * すべての分類
+ */
+const ALL_CATEGORIES = ['conifer', 'deciduous', 'flowering', 'fruiting'] as const
+
+/**
+ * お手入れカレンダーの作業一覧（温暖地基準）
+ */
+export const CARE_CALENDAR_ENTRIES: readonly CareCalendarEntry[] = [
+  // 植え替え
+  {
+    id: 'repotting',
+    label: '植え替え',
+    recordType: 'repotting',
+    categories: ALL_CATEGORIES,
+    excludeSpecies: ['ume', 'satsuki', 'sarusuberi', 'kinzu'],
+    start: [3, 1],
+    end: [4, 10],
+    shift: 1,
+    note: '芽が動き出す前が適期。根の張り具合を見て2〜3年に1回行う。',
+  },
+  {
+    id: 'repotting-late',
+    label: '植え替え',
+    recordType: 'repotting',
+    species: ['sarusuberi', 'kinzu'],
+    start: [4, 1],
+    end: [4, 30],
+    shift: 1,
+    note: '芽出しの遅い樹種は、暖かくなってから植え替える。',
+  },
+  {
+    id: 'ume-after-flower',
+    label: '花後の剪定・植え替え',
+    recordType: 'pruning',
+    species: ['ume'],
+    start: [2, 20],
+    end: [3, 31],
+    shift: 1,
+    note: '花が終わったらすぐに枝を切り戻し、植え替えも済ませる。',
+  },
+  {
+    id: 'sakura-after-flower',
+    label: '花後の剪定',
+    recordType: 'pruning',
+    species: ['sakura'],
+    start: [4, 10],
+    end: [5, 10],
+    shift: 1,
+    note: '7月頃に翌年の花芽ができるので、剪定は花後すぐに行う。',
+  },
+  {
+    id: 'satsuki-after-flower',
+    label: '花後の剪定・植え替え',
+    recordType: 'pruning',
+    species: ['satsuki'],
+    start: [6, 1],
+    end: [7, 10],
+    shift: 1,
+    note: '花がらを摘み、7月上旬までに剪定と植え替えを済ませる。',
+  },
+  // 芽摘み・芽切り・葉刈り
+  {
+    id: 'pinching-conifer',
+    label: '芽摘み',
+    recordType: 'pruning',
+    categories: ['conifer'],
+    excludeSpecies: ['kuromatsu', 'akamatsu'],
+    start: [4, 15],
+    end: [5, 31],
+    shift: 1,
+    note: '伸びた新芽を指で摘み、長さを揃えて葉を密にする。',
+  },
+  {
+    id: 'pinching-deciduous',
+    label: '芽摘み',
+    recordType: 'pruning',
+    categories: ['deciduous'],
+    start: [4, 1],
+    end: [5, 15],
+    shift: 1,
+    note: '新芽が開いたら1〜2節残して摘み、枝数を増やす。',
+  },
+  {
+    id: 'candle-cutting',
+    label: '芽切り',
+    recordType: 'pruning',
+    species: ['kuromatsu', 'akamatsu'],
+    start: [6, 15],
+    end: [7, 10],
+    shift: 1,
+    note: '春に伸びた新芽を元から切り、二番芽で葉を短く揃える。弱い枝は残す。',
+  },
+  {
+    id: 'leaf-cutting',
+    label: '葉刈り',
+    recordType: 'pruning',
+    categories: ['deciduous'],
+    start: [6, 1],
+    end: [6, 30],
+    shift: 1,
+    note: '葉を切って小葉と小枝を増やす。樹勢の弱い樹には行わない。',
+  },
+  // 剪定・針金かけ
+  {
+    id: 'winter-pruning',
+    label: '落葉後の剪定',
+    recordType: 'pruning',
+    categories: ['deciduous', 'fruiting'],
+    start: [12, 1],
+    end: [2, 20],
+    shift: -1,
+    note: '枝ぶりが見やすい時期。実ものは花芽を残して切る。',
+  },
+  {
+    id: 'wiring-conifer',
+    label: '針金かけ',
+    recordType: 'wiring',
+    categories: ['conifer'],
+    start: [11, 1],
+    end: [2, 28],
+    shift: -1,
+    note: '古葉を取ってから針金をかける。食い込む前に外す。',
+  },
+  // 施肥
+  {
+    id: 'fertilizing-spring',
+    label: '春の施肥',
+    recordType: 'fertilizing',
+    categories: ALL_CATEGORIES,
+    start: [4, 10],
+    end: [5, 31],
+    shift: 1,
+    note: '新芽が固まってから置き肥をする。花ものは花後から。',
+  },
+  {
+    id: 'fertilizing-autumn',
+    label: '秋の施肥',
+    recordType: 'fertilizing',
+    categories: ALL_CATEGORIES,
+    start: [9, 10],
+    end: [10, 31],
+    shift: -1,
+    note: '冬越しと翌春の芽吹きに備えて樹勢をつける。',
+  },
+  // 消毒
+  {
+    id: 'pest-control-spring',
+    label: '春の消毒',
+    recordType: 'treatment',
+    categories: ALL_CATEGORIES,
+    start: [4, 15],
+    end: [6, 15],
+    shift: 1,
+    note: 'アブラムシ・ハダニが出始める。新芽の裏をよく確認する。',
+  },
+  {
+    id: 'pest-control-winter',
+    label: '冬の消毒',
+    recordType: 'treatment',
+    categories: ALL_CATEGORIES,
+    start: [12, 15],
+    end: [2, 10],
+    shift: -1,
+    note: '休眠期に石灰硫黄合剤などで越冬している病害虫を防ぐ。',
+  },
+  // 季節の管理
+  {
+    id: 'summer-care',
+    label: '夏の水やりと日除け',
+    recordType: 'general',
+    categories: ALL_CATEGORIES,
+    start: [7, 1],
+    end: [8, 31],
+    shift: 1,
+    note: '朝夕2回の水やり。西日と葉焼けに注意する。',
+  },
+  {
+    id: 'winter-protection',
+    label: '冬越し',
+    recordType: 'general',
+    categories: ALL_CATEGORIES,
+    start: [12, 1],
+    end: [2, 28],
+    shift: -1,
+    note: '寒風と凍結を避ける。水やりは控えめにし、乾かしすぎない。',
+  },
+]
+
+// ============================================================
+// 適期の計算
+// ============================================================
+
+/**
+ * 1日のミリ秒数
+ */
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * カレンダーの対象とする樹種
+ */
+export interface CareCalendarSpecies {
+  /** 樹種のスラッグ */
+  slug: string
+  /** 樹種の分類 */
+  category: string
+}
+
+/**
+ * 作業が樹種に当てはまるかどうかを判定
+ *
+ * @param entry - 作業
+ * @param species - 樹種
+ * @returns 当てはまる場合は true
+ */
+export function isCareEntryForSpecies(entry: CareCalendarEntry, species: CareCalendarSpecies): boolean {
+  if (entry.excludeSpecies?.includes(species.slug)) return false
+  if (entry.species) return entry.species.includes(species.slug)
+  return (entry.categories as readonly string[] | undefined)?.includes(species.category) ?? false
+}
+
+/**
+ * 気候区分でずらした作業の適期を取得
+ *
+ * @param entry - 作業
+ * @param zone - 気候区分
+ * @param year - 適期が始まる年
+ * @returns 適期の開始日と終了日（終了日の終わりまでを含む）
+ */
+export function getCareWindow(
+  entry: CareCalendarEntry,
+  zone: CareClimateZone,
+  year: number
+): { start: Date; end: Date } {
+  const shiftMs = entry.shift * zone.offsetWeeks * 7 * MS_PER_DAY
+  const start = new Date(year, entry.start[0] - 1, entry.start[1])
+  const endYear = entry.end[0] < entry.start[0] ? year + 1 : year
+  const end = new Date(endYear, entry.end[0] - 1, entry.end[1])
+  return {
+    start: new Date(start.getTime() + shiftMs),
+    end: new Date(end.getTime() + shiftMs),
+  }
+}
+
+/**
+ * 期間に重なる作業を取得
+ *
+ * 樹種のいずれかに当てはまり、気候区分でずらした適期が
+ * 期間 [from, to] と重なる作業を、適期の開始日順に返す。
+ *
+ * @param from - 期間の開始日
+ * @param to - 期間の終了日
+ * @param zone - 気候区分
+ * @param species - 対象の樹種
+ * @returns 作業と適期の一覧
+ */
+export function getCareEntriesInPeriod(
+  from: Date,
+  to: Date,
+  zone: CareClimateZone,
+  species: readonly CareCalendarSpecies[]
+): { entry: CareCalendarEntry; start: Date; end: Date }[] {
+  const fromDay = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  const toDay = new Date(to.getFullYear(), to.getMonth(), to.getDate())
+  const results: { entry: CareCalendarEntry; start: Date; end: Date }[] = []
+
+  for (const entry of CARE_CALENDAR_ENTRIES) {
+    if (!species.some((s) => isCareEntryForSpecies(entry, s))) continue
+
+    // 年をまたぐ適期や気候によるずれに備えて、前年・当年の適期を確認
+    for (const year of [fromDay.getFullYear() - 1, fromDay.getFullYear(), toDay.getFullYear()]) {
+      const window = getCareWindow(entry, zone, year)
+      if (window.start <= toDay && window.end >= fromDay) {
+        results.push({ entry, ...window })
+        break
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * 適期を「3月1日〜4月10日」の形式で表示
+ *
+ * @param start - 適期の開始日
+ * @param end - 適期の終了日
+ * @returns 表示用の文字列
+ */
+export function formatCareWindow(start: Date, end: Date): string {
+  const format = (date: Date) => `${date.getMonth() + 1}月${date.getDate()}日`
+  return `${format(start)}〜${format(end)}`
+}
@@ -0,0 +1,177 @@
+/**
+ * 盆栽のお手入れ予定の定数定義
+ *
+ * このファイルは、お手入れ予定（ケアタスク）に関する
+ * 作業種別、繰り返し間隔の選択肢、期日計算のヘルパーを提供します。
+ *
+ * ## お手入れ予定とは
+ * 盆栽ごとに水やり・施肥・針金外しなどの作業予定を登録し、
+ * 期日が来たら通知で知らせる機能です。
+ * 完了すると成長記録（BonsaiRecord）が自動で作成され、
+ * 繰り返し予定の場合は次回の期日が設定されます。
+ *
+ * Server Actions とクライアントコンポーネントの両方から使用するため、
+ * 'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/constants/care-task
+ */
+
+// ============================================================
+// 作業種別の定義
+// ============================================================
+
+/**
+ * お手入れの作業種別
+ *
+ * ## 各種別の説明
+ * - watering: 水やり
+ * - fertilizing: 施肥（置き肥・液肥）
+ * - repotting: 植え替え
+ * - wire_removal: 針金外し（食い込みによる傷を防ぐ）
+ * - pruning: 剪定・芽摘み
+ * - pest_control: 病害虫の防除・消毒
+ */
+export const CARE_TASK_TYPES = [
+  { value: 'watering', label: '水やり' },
+  { value: 'fertilizing', label: '施肥' },
+  { value: 'repotting', label: '植え替え' },
+  { value: 'wire_removal', label: '針金外し' },
+  { value: 'pruning', label: '剪定' },
+  { value: 'pest_control', label: '病害虫防除' },
+] as const
+
+/**
+ * 作業種別の型
+ */
+export type CareTaskType = typeof CARE_TASK_TYPES[number]['value']
+
+/**
+ * 作業種別の表示ラベル
+ */
+export const CARE_TASK_TYPE_LABELS: Record<CareTaskType, string> = Object.fromEntries(
+  CARE_TASK_TYPES.map((t) => [t.value, t.label])
+) as Record<CareTaskType, string>
+
+/**
+ * 有効な作業種別かどうかを判定
+ *
+ * @param value - 判定する値
+ * @returns 作業種別として有効な場合は true
+ */
+export function isCareTaskType(value: string): value is CareTaskType {
+  return CARE_TASK_TYPES.some((t) => t.value === value)
+}
+
+/**
+ * 作業種別ごとの成長記録の種類
+ *
+ * 予定を完了した際に作成する成長記録の種類（BonsaiRecord.type）。
+ * 水やりは対応する種類がないため、通常の成長記録として扱う。
+ */
+export const CARE_TASK_RECORD_TYPES: Record<CareTaskType, string> = {
+  watering: 'general',
+  fertilizing: 'fertilizing',
+  repotting: 'repotting',
+  wire_removal: 'wiring',
+  pruning: 'pruning',
+  pest_control: 'treatment',
+}
+
+// ============================================================
+// 繰り返し間隔
+// ============================================================
+
+/**
+ * 繰り返し間隔の選択肢（日数）
+ *
+ * value が null の場合は繰り返さない（1回のみ）
+ */
+export const CARE_TASK_INTERVALS = [
+  { value: null, label: '繰り返さない' },
+  { value: 1, label: '毎日' },
+  { value: 3, label: '3日ごと' },
+  { value: 7, label: '毎週' },
+  { value: 14, label: '2週間ごと' },
+  { value: 30, label: '毎月' },
+  { value: 90, label: '3ヶ月ごと' },
+  { value: 365, label: '毎年' },
+] as const
+
+/**
+ * 繰り返し間隔の上限（日数）
+ */
+export const MAX_CARE_TASK_INTERVAL_DAYS = 365
+
+/**
+ * 1盆栽あたりのお手入れ予定の上限
+ */
+export const MAX_CARE_TASKS_PER_BONSAI = 20
+
+/**
+ * 繰り返し間隔の表示ラベルを取得
+ *
+ * @param intervalDays - 繰り返し間隔（日数）
+ * @returns 「毎週」「10日ごと」などのラベル
+ */
+export function getCareTaskIntervalLabel(intervalDays: number | null): string {
+  const preset = CARE_TASK_INTERVALS.find((i) => i.value === intervalDays)
+  if (preset) return preset.label
+  return `${intervalDays}日ごと`
+}
+
+// ============================================================
+// 期日の計算
+// ============================================================
+
+/**
+ * 1日のミリ秒数
+ */
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 完了後の次回期日を計算
+ *
+ * 繰り返し予定は完了日から intervalDays 日後を次回期日とする。
+ * 遅れて完了した場合も、完了日を起点にすることで
+ * 間隔が詰まりすぎないようにする。
+ *
+ * @param completedAt - 完了日時
+ * @param intervalDays - 繰り返し間隔（日数）、null は繰り返さない
+ * @returns 次回期日、繰り返さない場合は null
+ */
+export function calculateNextDueAt(completedAt: Date, intervalDays: number | null): Date | null {
+  if (!intervalDays) return null
+  return new Date(completedAt.getTime() + intervalDays * DAY_MS)
+}
+
+/**
+ * 期日までの残り日数を計算
+ *
+ * 日付単位で比較し、当日は 0、期限切れは負の値を返す
+ *
+ * @param dueAt - 期日
+ * @param now - 基準日時（省略時は現在）
+ * @returns 残り日数
+ */
+export function getDaysUntilDue(dueAt: Date, now: Date = new Date()): number {
+  const due = new Date(dueAt)
+  due.setHours(0, 0, 0, 0)
+  const today = new Date(now)
+  today.setHours(0, 0, 0, 0)
+  return Math.round((due.getTime() - today.getTime()) / DAY_MS)
+}
+
+/**
+ * 期日の状態を表すラベルを取得
+ *
+ * @param dueAt - 期日
+ * @param now - 基準日時（省略時は現在）
+ * @returns 「今日」「明日」「3日後」「2日遅れ」など
+ */
+export function getDueLabel(dueAt: Date, now: Date = new Date()): string {
+  const days = getDaysUntilDue(dueAt, now)
+  if (days === 0) return '今日'
+  if (days === 1) return '明日'
+  if (days > 0) return `${days}日後`
+  return `${-days}日遅れ`
+}
@@ -0,0 +1,74 @@
+/**
+ * データのエクスポートの定数定義
+ *
+ * このファイルは、アカウントデータの一括ダウンロード（エクスポート）に関する
+ * 処理状況の表示ラベル、申し込み間隔、ダウンロード期限を定義します。
+ *
+ * ## データのエクスポートとは
+ * 投稿・コメント・盆栽の成長記録・DMなど自分のデータを、
+ * JSONと元の画像ファイルをまとめたZIPとしてダウンロードできる機能です。
+ * 申し込みはCronジョブが非同期に処理し、準備ができたら通知とメールで知らせます。
+ *
+ * Server Actions とクライアントコンポーネントの両方から使用するため、
+ * 'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/constants/data-export
+ */
+
+// ============================================================
+// 処理状況
+// ============================================================
+
+/**
+ * エクスポートの処理状況
+ *
+ * - pending: 申し込み済み（処理待ち）
+ * - processing: 作成中
+ * - completed: ダウンロード可能
+ * - failed: 作成に失敗
+ * - expired: ダウンロード期限切れ（ファイルは削除済み）
+ */
+export const DATA_EXPORT_STATUSES = [
+  { value: 'pending', label: '準備中' },
+  { value: 'processing', label: '作成中' },
+  { value: 'completed', label: 'ダウンロードできます' },
+  { value: 'failed', label: '作成に失敗しました' },
+  { value: 'expired', label: 'ダウンロード期限切れ' },
+] as const
+
+/**
+ * 処理状況の型
+ */
+export type DataExportStatus = typeof DATA_EXPORT_STATUSES[number]['value']
+
+/**
+ * 処理状況の表示ラベルを取得
+ *
+ * @param status - 処理状況
+ * @returns 表示ラベル（未知の値はそのまま返す）
+ */
+export function getDataExportStatusLabel(status: string): string {
+  return DATA_EXPORT_STATUSES.find((s) => s.value === status)?.label ?? status
+}
+
+// ============================================================
+// 期限・間隔
+// ============================================================
+
+/**
+ * 次の申し込みまでに空ける時間（時間）
+ * ZIPの作成は重い処理のため、1日1回までとする
+ */
+export const DATA_EXPORT_COOLDOWN_HOURS = 24
+
+/**
+ * 作成したZIPをダウンロードできる日数
+ * 期限を過ぎたファイルはCronジョブが削除する
+ */
+export const DATA_EXPORT_RETENTION_DAYS = 7
+
+/**
+ * 署名付きダウンロードURLの有効期限（秒）
+ * ダウンロードボタンを押すたびに発行するため短くする
+ */
+export const DATA_EXPORT_LINK_EXPIRES_SECONDS = 15 * 60
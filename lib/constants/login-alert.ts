@@ -0,0 +1,25 @@
+/**
+ * ログインの通知の定数定義
+ *
+ * このファイルは、「心当たりがないログイン」の報告後に
+ * パスワードでのログインを止めたアカウントのエラーコードとメッセージを定義します。
+ *
+ * 報告の処理は lib/actions/login-alert.ts、ログイン時のチェックは lib/auth.ts にあります。
+ * ここにはログインフォーム（クライアントコンポーネント）からも使う値だけを置いています。
+ *
+ * @module lib/constants/login-alert
+ */
+
+/**
+ * パスワードの再設定が必要なアカウントのエラーコード
+ *
+ * Credentials の authorize から CredentialsSignin の code として返し、
+ * signIn の結果の code で判定する
+ */
+export const PASSWORD_RESET_REQUIRED_CODE = 'password_reset_required'
+
+/**
+ * パスワードの再設定が必要なアカウントのエラーメッセージ
+ */
+export const PASSWORD_RESET_REQUIRED_MESSAGE =
+  'アカウントを保護するため、パスワードでのログインを停止しています。パスワードリセットからパスワードを再設定してください。'
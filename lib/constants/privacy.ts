@@ -0,0 +1,114 @@
+/**
+ * 項目ごとの公開範囲の定数定義
+ *
+ * このファイルは、ユーザーが項目ごとに設定できる公開範囲と、
+ * メッセージを受け付ける相手の選択肢・表示ラベルを定義します。
+ *
+ * ## 公開範囲を設定できる項目
+ * - 盆栽コレクション（User.bonsaiVisibility）
+ * - いいねした投稿（User.likesVisibility、/users/[id]/likes）
+ * - フォロー・フォロワー一覧（User.followsVisibility）
+ * - 居住地域（User.locationVisibility）
+ *
+ * あわせて、投稿ごとの公開範囲（Post.audience）の選択肢もここで定義します。
+ *
+ * アカウント全体の公開・非公開（User.isPublic）とは独立しています。
+ * 投稿は公開のまま、盆栽コレクションだけを非公開にするといった使い方ができます。
+ *
+ * 設定画面（クライアント）と閲覧可否の判定（lib/privacy.ts）の両方から使用するため、
+ * 'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/constants/privacy
+ */
+
+// ============================================================
+// 公開範囲
+// ============================================================
+
+/**
+ * 公開範囲の選択肢
+ *
+ * - everyone: 全員に公開
+ * - followers: 自分をフォローしているユーザーのみ
+ * - only_me: 自分のみ
+ */
+export const VISIBILITY_OPTIONS = [
+  { value: 'everyone', label: '全員' },
+  { value: 'followers', label: 'フォロワーのみ' },
+  { value: 'only_me', label: '自分のみ' },
+] as const
+
+/**
+ * 公開範囲の型
+ */
+export type Visibility = typeof VISIBILITY_OPTIONS[number]['value']
+
+/**
+ * 公開範囲を設定できる項目
+ *
+ * key は User モデルのフィールド名です。
+ */
+export const PRIVACY_AREAS = [
+  { key: 'bonsaiVisibility', label: '盆栽コレクション' },
+  { key: 'likesVisibility', label: 'いいねした投稿' },
+  { key: 'followsVisibility', label: 'フォロー・フォロワー一覧' },
+  { key: 'locationVisibility', label: '居住地域' },
+] as const
+
+/**
+ * 公開範囲を設定できる項目の型
+ */
+export type PrivacyArea = typeof PRIVACY_AREAS[number]['key']
+
+// ============================================================
+// メッセージを受け付ける相手
+// ============================================================
+
+/**
+ * メッセージを受け付ける相手の選択肢
+ *
+ * - everyone: 全員
+ * - followers: 自分をフォローしているユーザーのみ
+ * - mutual: 相互フォローのユーザーのみ
+ * - nobody: 受け付けない
+ */
+export const DM_PERMISSION_OPTIONS = [
+  { value: 'everyone', label: '全員' },
+  { value: 'followers', label: 'フォロワーのみ' },
+  { value: 'mutual', label: '相互フォローのみ' },
+  { value: 'nobody', label: '受け付けない' },
+] as const
+
+/**
+ * メッセージを受け付ける相手の型
+ */
+export type DmPermission = typeof DM_PERMISSION_OPTIONS[number]['value']
+
+// ============================================================
+// 投稿の公開範囲
+// ============================================================
+
+/**
+ * 投稿ごとの公開範囲の選択肢
+ *
+ * - public: 全体に公開
+ * - followers: 投稿者をフォローしているユーザーのみ
+ * - mutuals: 投稿者と相互フォローのユーザーのみ
+ * - close_friends: 投稿者の親しい友達リストに含まれるユーザーのみ
+ * - private: 投稿者本人のみ
+ *
+ * 全体公開以外の投稿は、検索やハッシュタグでも閲覧できるユーザーにだけ表示され、
+ * 引用・リポストやOGP・構造化データの対象にはなりません。
+ */
+export const POST_AUDIENCE_OPTIONS = [
+  { value: 'public', label: '全体公開' },
+  { value: 'followers', label: 'フォロワーのみ' },
+  { value: 'mutuals', label: '相互フォローのみ' },
+  { value: 'close_friends', label: '親しい友達' },
+  { value: 'private', label: '自分のみ' },
+] as const
+
+/**
+ * 投稿の公開範囲の型
+ */
+export type PostAudience = typeof POST_AUDIENCE_OPTIONS[number]['value']
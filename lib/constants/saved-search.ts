@@ -0,0 +1,129 @@
+/**
+ * 保存した検索の定数定義
+ *
+ * このファイルは、保存した検索（キーワード・ジャンル・ハッシュタグの組み合わせ）に関する
+ * 通知方法の選択肢、上限、表示・リンク用のヘルパーを提供します。
+ *
+ * ## 保存した検索とは
+ * 検索条件を保存しておき、条件に一致する新しい投稿があったときに
+ * アプリ内通知、または1日1回のメールのまとめで知らせる機能です。
+ * 新着の判定は定期ジョブ（app/api/cron/check-saved-searches・saved-search-digest）で行います。
+ *
+ * Server Actions とクライアントコンポーネントの両方から使用するため、
+ * 'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/constants/saved-search
+ */
+
+// ============================================================
+// 通知方法の定義
+// ============================================================
+
+/**
+ * 新着投稿の通知方法
+ *
+ * ## 各方法の説明
+ * - instant: 見つかり次第アプリ内通知（定期ジョブの間隔ごと）
+ * - daily: 1日1回、メールでまとめて知らせる
+ */
+export const SAVED_SEARCH_NOTIFY_MODES = [
+  { value: 'instant', label: 'すぐに通知' },
+  { value: 'daily', label: '1日1回メールでまとめて' },
+] as const
+
+/**
+ * 通知方法の型
+ */
+export type SavedSearchNotifyMode = typeof SAVED_SEARCH_NOTIFY_MODES[number]['value']
+
+/**
+ * 通知方法として有効な値か判定
+ *
+ * @param value - 判定する値
+ */
+export function isSavedSearchNotifyMode(value: string): value is SavedSearchNotifyMode {
+  return SAVED_SEARCH_NOTIFY_MODES.some((mode) => mode.value === value)
+}
+
+// ============================================================
+// 上限
+// ============================================================
+
+/**
+ * 1ユーザーが保存できる検索の上限数
+ */
+export const MAX_SAVED_SEARCHES = 20
+
+/**
+ * キーワードの最大文字数
+ */
+export const SAVED_SEARCH_QUERY_MAX_LENGTH = 100
+
+// ============================================================
+// 表示・リンク用ヘルパー
+// ============================================================
+
+/**
+ * 保存した検索の条件
+ *
+ * @property query - キーワード（空文字の場合はキーワードなし）
+ * @property genreIds - 絞り込むジャンルIDの配列
+ * @property hashtag - #を除いたハッシュタグ
+ */
+export type SavedSearchCondition = {
+  query: string
+  genreIds: string[]
+  hashtag: string | null
+}
+
+/**
+ * 保存した検索の表示名を作成
+ *
+ * キーワードとハッシュタグを空白区切りで並べ、ジャンルは名前を括弧で添える
+ *
+ * @param search - 保存した検索の条件
+ * @param genreNames - ジャンル名（省略時はジャンルを表示しない）
+ * @returns 表示名（例: 「五葉松 譲ります #盆栽（松柏類）」）
+ *
+ * @example
+ * ```typescript
+ * formatSavedSearchLabel({ query: '五葉松', genreIds: [], hashtag: '譲ります' })
+ * // => '五葉松 #譲ります'
+ * ```
+ */
+export function formatSavedSearchLabel(search: SavedSearchCondition, genreNames: string[] = []): string {
+  const terms = [search.query.trim(), search.hashtag ? `#${search.hashtag}` : ''].filter(Boolean)
+  const label = terms.join(' ')
+
+  if (genreNames.length === 0) {
+    return label
+  }
+
+  return `${label}（${genreNames.join('・')}）`
+}
+
+/**
+ * 保存した検索を検索ページで開くURLを作成
+ *
+ * キーワードがある場合は投稿タブ（ハッシュタグはキーワードに含める）、
+ * ハッシュタグのみの場合はタグタブを開く
+ *
+ * @param search - 保存した検索の条件
+ * @returns 検索ページのURL
+ */
+export function buildSavedSearchUrl(search: SavedSearchCondition): string {
+  const params = new URLSearchParams()
+
+  if (!search.query.trim() && search.hashtag) {
+    params.set('tab', 'tags')
+    params.set('q', search.hashtag)
+    return `/search?${params.toString()}`
+  }
+
+  params.set('q', [search.query.trim(), search.hashtag ? `#${search.hashtag}` : ''].filter(Boolean).join(' '))
+  for (const genreId of search.genreIds) {
+    params.append('genre', genreId)
+  }
+
+  return `/search?${params.toString()}`
+}
@@ -0,0 +1,88 @@
+/**
+ * セキュリティイベントの定数定義
+ *
+ * このファイルは、データベースに保存するセキュリティイベント（SecurityEvent）の
+ * 種類・重大度の表示ラベルと保存期間を定義します。
+ *
+ * ## セキュリティイベントとは
+ * ログインの成功・失敗、ロック、パスワードリセット、2段階認証の変更、
+ * レート制限の超過、権限のないアクセスなどの記録です（lib/security-logger.ts）。
+ * 管理画面の「セキュリティログ」（/admin/logs/security）で確認できます。
+ *
+ * セキュリティログ（Node.js）と管理画面の両方から使用するため、
+ * 'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/constants/security-events
+ */
+
+// ============================================================
+// イベントの種類
+// ============================================================
+
+/**
+ * セキュリティイベントの種類
+ */
+export const SECURITY_EVENT_TYPES = [
+  { value: 'LOGIN_SUCCESS', label: 'ログイン成功' },
+  { value: 'LOGIN_FAILURE', label: 'ログイン失敗' },
+  { value: 'LOGIN_LOCKOUT', label: 'ログイン制限' },
+  { value: 'REGISTER_SUCCESS', label: '新規登録' },
+  { value: 'REGISTER_FAILURE', label: '新規登録失敗' },
+  { value: 'PASSWORD_RESET_REQUEST', label: 'パスワードリセット要求' },
+  { value: 'PASSWORD_RESET_SUCCESS', label: 'パスワードリセット完了' },
+  { value: 'TWO_FACTOR_CHANGE', label: '2段階認証の変更' },
+  { value: 'ADMIN_ACTION', label: '管理者の操作' },
+  { value: 'SUSPICIOUS_ACTIVITY', label: '不審なアクティビティ' },
+  { value: 'RATE_LIMIT_EXCEEDED', label: 'レート制限超過' },
+  { value: 'INVALID_INPUT', label: '不正な入力' },
+  { value: 'UNAUTHORIZED_ACCESS', label: '権限のないアクセス' },
+] as const
+
+/**
+ * イベントの種類の表示ラベルを取得
+ *
+ * @param type - イベントの種類
+ * @returns 表示ラベル（未知の値はそのまま返す）
+ */
+export function getSecurityEventTypeLabel(type: string): string {
+  return SECURITY_EVENT_TYPES.find((t) => t.value === type)?.label ?? type
+}
+
+// ============================================================
+// 重大度
+// ============================================================
+
+/**
+ * セキュリティイベントの重大度
+ */
+export const SECURITY_EVENT_SEVERITIES = [
+  { value: 'low', label: '情報' },
+  { value: 'medium', label: '注意' },
+  { value: 'high', label: '警告' },
+  { value: 'critical', label: '緊急' },
+] as const
+
+/**
+ * 重大度の型
+ */
+export type SecurityEventSeverity = typeof SECURITY_EVENT_SEVERITIES[number]['value']
+
+/**
+ * 重大度の表示ラベルを取得
+ *
+ * @param severity - 重大度
+ * @returns 表示ラベル（未知の値はそのまま返す）
+ */
+export function getSecurityEventSeverityLabel(severity: string): string {
+  return SECURITY_EVENT_SEVERITIES.find((s) => s.value === severity)?.label ?? severity
+}
+
+// ============================================================
+// 保存期間
+// ============================================================
+
+/**
+ * セキュリティイベントを保存する日数
+ * 期限を過ぎたイベントはCronジョブが削除する
+ */
+export const SECURITY_EVENT_RETENTION_DAYS = 180
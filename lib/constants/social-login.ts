@@ -0,0 +1,109 @@
+/**
+ * ソーシャルログインの定数定義
+ *
+ * このファイルは、LINE・Google・Apple・OIDC によるソーシャルログインの
+ * プロバイダーの表示名とエラーメッセージを定義します。
+ *
+ * ## ソーシャルログインとは
+ * 外部サービスのアカウントで BON-LOG にログインできる機能です。
+ * 既存のメールアドレスのアカウントには、ログイン後に
+ * セキュリティ設定（/settings/security）から連携できます。
+ *
+ * プロバイダーの有効・無効は環境変数で決まるため、
+ * 設定の読み込みとサインイン時のチェックは lib/social-login.ts にあります。
+ * ここにはクライアントコンポーネントからも使う値だけを置いています。
+ *
+ * @module lib/constants/social-login
+ */
+
+// ============================================================
+// プロバイダー
+// ============================================================
+
+/**
+ * 対応しているプロバイダー
+ *
+ * - line: LINEログイン（OIDC）
+ * - google: Googleログイン（OIDC）
+ * - apple: Appleでサインイン（OIDC）
+ * - oidc: 任意の OpenID Connect プロバイダー（開発時のモックOIDCサーバーなど）
+ */
+export const SOCIAL_PROVIDERS = [
+  { id: 'line', label: 'LINE' },
+  { id: 'google', label: 'Google' },
+  { id: 'apple', label: 'Apple' },
+  { id: 'oidc', label: 'OpenID Connect' },
+] as const
+
+/**
+ * プロバイダーIDの型
+ */
+export type SocialProviderId = typeof SOCIAL_PROVIDERS[number]['id']
+
+/**
+ * 画面に表示するプロバイダー
+ */
+export interface SocialProviderOption {
+  id: string
+  label: string
+}
+
+/**
+ * プロバイダーの表示名を取得
+ *
+ * @param provider - プロバイダーID
+ * @returns 表示名（未知の値はそのまま返す）
+ */
+export function getSocialProviderLabel(provider: string): string {
+  return SOCIAL_PROVIDERS.find((p) => p.id === provider)?.label ?? provider
+}
+
+// ============================================================
+// サインイン前のデバイス確認
+// ============================================================
+
+/**
+ * デバイスフィンガープリントを一時的に保存するCookie名
+ *
+ * ソーシャルログインは外部サイトを経由するため、ログイン前に
+ * フィンガープリントをCookieに保存し、サインイン時のチェックで使用する
+ */
+export const SOCIAL_LOGIN_DEVICE_COOKIE = 'bonlog.social-login-device'
+
+/**
+ * フィンガープリントCookieの有効期間（秒）
+ */
+export const SOCIAL_LOGIN_DEVICE_COOKIE_MAX_AGE = 10 * 60
+
+// ============================================================
+// エラーメッセージ
+// ============================================================
+
+/**
+ * エラーコードごとのメッセージ
+ *
+ * サインイン時のチェックで拒否した場合や Auth.js のエラーは、
+ * /login または /settings/security に ?error=コード としてリダイレクトされる
+ */
+const SOCIAL_LOGIN_ERROR_MESSAGES: Record<string, string> = {
+  OAuthAccountNotLinked:
+    'このメールアドレスはすでに登録されています。メールアドレスとパスワードでログインしてから、セキュリティ設定で連携してください。',
+  AccountAlreadyLinked: 'このアカウントはすでに別のユーザーと連携されています',
+  AccountSuspended: 'このアカウントは停止されています',
+  AccountDeactivationExpired: '一時停止から猶予期間が過ぎたため、このアカウントは削除されます',
+  EmailBlocked: 'このメールアドレスは利用できません',
+  DeviceBlocked: 'このデバイスからのログインは許可されていません',
+  EmailRequired:
+    'メールアドレスを取得できませんでした。連携先でメールアドレスの提供を許可してください。',
+  AccessDenied: 'ログインがキャンセルされました',
+}
+
+/**
+ * ソーシャルログインのエラーメッセージを取得
+ *
+ * @param code - エラーコード（?error= の値）
+ * @returns 表示するメッセージ（未知のコードは汎用メッセージ）
+ */
+export function getSocialLoginErrorMessage(code: string): string {
+  return SOCIAL_LOGIN_ERROR_MESSAGES[code] ?? 'ソーシャルログインに失敗しました。もう一度お試しください。'
+}
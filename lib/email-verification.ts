@@ -0,0 +1,208 @@
+/**
+ * メールアドレスの確認
+ *
+ * 登録したメールアドレスの確認と、メールアドレス変更時の確認に使う
+ * トークン（VerificationToken）の発行・検証を提供します。
+ *
+ * ## トークンの種類（identifier）
+ * - verify-email:<userId> … 登録したメールアドレスの確認
+ * - email-change-old:<申請ID> … メールアドレス変更（変更前のアドレスでの確認）
+ * - email-change-new:<申請ID> … メールアドレス変更（変更後のアドレスでの確認）
+ * - login-alert:<userId> … ログインの通知の「心当たりがない」リンク（lib/login-alert）
+ *
+ * トークンはSHA-256でハッシュ化して保存し、メールのリンクには元のトークンを含めます。
+ * 一度使ったトークンは削除します。
+ *
+ * ## 確認が必要な機能
+ * メールアドレスが未確認のユーザーは、投稿とメッセージを利用できません（isEmailVerified）。
+ *
+ * @module lib/email-verification
+ */
+
+import crypto from 'crypto'
+import { prisma } from '@/lib/db'
+import { sendVerificationEmail } from '@/lib/email'
+
+// ============================================================
+// 定数・型定義
+// ============================================================
+
+/**
+ * 確認リンクの有効期間（24時間）
+ */
+export const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * メールアドレスが未確認のユーザーが投稿・メッセージを利用しようとしたときのエラー
+ */
+export const EMAIL_NOT_VERIFIED_ERROR =
+  'メールアドレスの確認が必要です。アカウント設定から確認メールを再送できます'
+
+/**
+ * トークンの用途
+ */
+export type VerificationPurpose =
+  | 'verify-email'
+  | 'email-change-old'
+  | 'email-change-new'
+  | 'login-alert'
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * トークンをハッシュ化する（DBにはハッシュのみ保存する）
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * 確認リンクのURLを作成する
+ *
+ * @param path - 確認ページのパス（例: /verify-email）
+ * @param token - トークン
+ */
+export function buildVerificationUrl(path: string, token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${baseUrl}${path}?token=${token}`
+}
+
+// ============================================================
+// トークン
+// ============================================================
+
+/**
+ * 確認トークンを発行する
+ *
+ * 同じ用途・対象の発行済みトークンは削除し、最新のリンクだけを有効にします。
+ * keepExisting を指定すると発行済みのトークンも有効なまま残します
+ * （ログインの通知のように、以前のメールのリンクも使えるべき場合）。
+ *
+ * @param purpose - トークンの用途
+ * @param subjectId - 対象のID（ユーザーIDまたはメールアドレス変更の申請ID）
+ * @param options - 有効期間（省略時は24時間）と、発行済みのトークンを残すか
+ * @returns メールのリンクに含めるトークン（ハッシュ化前）
+ */
+export async function issueVerificationToken(
+  purpose: VerificationPurpose,
+  subjectId: string,
+  options: { ttlMs?: number; keepExisting?: boolean } = {}
+): Promise<string> {
+  const identifier = `${purpose}:${subjectId}`
+  const token = crypto.randomBytes(32).toString('hex')
+
+  if (!options.keepExisting) {
+    await prisma.verificationToken.deleteMany({ where: { identifier } })
+  }
+  await prisma.verificationToken.create({
+    data: {
+      identifier,
+      token: hashToken(token),
+      expires: new Date(Date.now() + (options.ttlMs ?? VERIFICATION_TOKEN_TTL_MS)),
+    },
+  })
+
+  return token
+}
+
+/**
+ * 確認トークンが有効か確認する（使用済みにはしない）
+ *
+ * メールのリンク先のページを開いただけでは処理を行わず、
+ * ボタンで確定させる場合に使用します（リンクの事前読み込みで処理されないように）。
+ *
+ * @param token - メールのリンクに含まれていたトークン
+ * @param purposes - 受け付ける用途
+ * @returns 有効な場合は用途と対象のID、無効な場合は null
+ */
+export async function findVerificationToken(
+  token: string,
+  purposes: VerificationPurpose[]
+): Promise<{ purpose: VerificationPurpose; subjectId: string } | null> {
+  if (!token) return null
+
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: hashToken(token) },
+  })
+  if (!record || record.expires < new Date()) return null
+
+  const separator = record.identifier.indexOf(':')
+  const purpose = record.identifier.slice(0, separator) as VerificationPurpose
+  if (separator < 0 || !purposes.includes(purpose)) return null
+
+  return { purpose, subjectId: record.identifier.slice(separator + 1) }
+}
+
+/**
+ * 確認トークンを検証して使用済みにする
+ *
+ * 期限切れのトークンも削除します。
+ * 削除できた場合のみ有効とするため、同じトークンを同時に使っても一度しか成功しません。
+ *
+ * @param token - メールのリンクに含まれていたトークン
+ * @param purposes - 受け付ける用途
+ * @returns 有効な場合は用途と対象のID、無効な場合は null
+ */
+export async function consumeVerificationToken(
+  token: string,
+  purposes: VerificationPurpose[]
+): Promise<{ purpose: VerificationPurpose; subjectId: string } | null> {
+  if (!token) return null
+
+  const hashedToken = hashToken(token)
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: hashedToken },
+  })
+  if (!record) return null
+
+  const separator = record.identifier.indexOf(':')
+  const purpose = record.identifier.slice(0, separator) as VerificationPurpose
+  const subjectId = record.identifier.slice(separator + 1)
+  if (separator < 0 || !purposes.includes(purpose)) return null
+
+  const { count } = await prisma.verificationToken.deleteMany({
+    where: { token: hashedToken },
+  })
+  if (count === 0 || record.expires < new Date()) return null
+
+  return { purpose, subjectId }
+}
+
+// ============================================================
+// メールアドレスの確認
+// ============================================================
+
+/**
+ * メールアドレスの確認メールを送信する
+ *
+ * @param user - 送信先のユーザー
+ * @returns 送信に成功したか
+ */
+export async function sendEmailVerification(user: {
+  id: string
+  email: string
+  nickname: string
+}): Promise<boolean> {
+  const token = await issueVerificationToken('verify-email', user.id)
+  const result = await sendVerificationEmail(
+    user.email,
+    user.nickname,
+    buildVerificationUrl('/verify-email', token)
+  )
+  return result.success
+}
+
+/**
+ * ユーザーのメールアドレスが確認済みか
+ *
+ * @param userId - ユーザーID
+ */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerified: true },
+  })
+  return !!user?.emailVerified
+}
@@ -42,6 +42,13 @@
  */
 import logger from '@/lib/logger'
 
+/**
+ * sanitizeText: HTMLエスケープ
+ *
+ * ユーザー入力（盆栽名など）をメール本文に埋め込む際に使用
+ */
+import { sanitizeText } from '@/lib/sanitize'
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -779,3 +786,658 @@ BON-LOG
     text,
   })
 }
+
+/**
+ * お手入れリマインダーメール
+ *
+ * ## 機能概要
+ * 期日が来た盆栽のお手入れ予定をまとめて知らせます。
+ * 予定ごとではなくユーザーごとに1通にまとめて送信します。
+ *
+ * ## パラメータ
+ * @param email - 送信先メールアドレス
+ * @param nickname - ユーザーのニックネーム
+ * @param tasks - 期日が来た予定（盆栽名・作業名・期日）
+ *
+ * ## 戻り値
+ * @returns Promise<EmailResult> - 送信結果
+ *
+ * ## セキュリティ
+ * 盆栽名・メモはユーザー入力のため、HTMLエスケープして埋め込む
+ */
+export async function sendCareReminderEmail(
+  email: string,
+  nickname: string,
+  tasks: { bonsaiName: string; taskLabel: string; dueAt: Date; note?: string | null }[]
+): Promise<EmailResult> {
+  const bonsaiUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://bon-log.com'}/bonsai`
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('ja-JP', { month: 'long', day: 'numeric' })
+
+  const taskRows = tasks
+    .map(
+      (task) => `
+      <li style="margin-bottom: 8px;">
+        <strong>${sanitizeText(task.bonsaiName)}</strong> - ${task.taskLabel}（${formatDate(task.dueAt)}）
+        ${task.note ? `<br><span style="color: #666; font-size: 14px;">${sanitizeText(task.note)}</span>` : ''}
+      </li>`
+    )
+    .join('')
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>お手入れの予定日です</title>
+</head>
+<body style="font-family: 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2d5016 0%, #4a7c23 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: #fff; margin: 0; font-size: 24px;">BON-LOG</h1>
+    <p style="color: #e8f5e9; margin: 10px 0 0 0; font-size: 14px;">盆栽愛好家のためのSNS</p>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 8px 8px;">
+    <h2 style="color: #2d5016; margin-top: 0;">${sanitizeText(nickname)}さん、お手入れの予定日です</h2>
+
+    <p>次の盆栽のお手入れ予定日になりました。</p>
+
+    <ul style="padding-left: 20px;">
+      ${taskRows}
+    </ul>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${bonsaiUrl}" style="display: inline-block; background: #4a7c23; color: #fff; text-decoration: none; padding: 15px 30px; border-radius: 6px; font-weight: bold;">マイ盆栽を開く</a>
+    </div>
+
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+
+    <p style="color: #999; font-size: 12px;">
+      メールでのお知らせは、各盆栽のお手入れ予定の設定から停止できます。
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p>このメールはBON-LOGから自動送信されています。</p>
+  </div>
+</body>
+</html>
+`
+
+  const text = `
+BON-LOG - お手入れの予定日です
+
+${nickname}さん
+
+次の盆栽のお手入れ予定日になりました。
+
+${tasks
+  .map((task) => `- ${task.bonsaiName} - ${task.taskLabel}（${formatDate(task.dueAt)}）${task.note ? `\n  ${task.note}` : ''}`)
+  .join('\n')}
+
+マイ盆栽を開く: ${bonsaiUrl}
+
+メールでのお知らせは、各盆栽のお手入れ予定の設定から停止できます。
+
+---
+BON-LOG
+盆栽愛好家のためのSNS
+`
+
+  return sendEmail({
+    to: email,
+    subject: `【BON-LOG】お手入れの予定日です（${tasks.length}件）`,
+    html,
+    text,
+  })
+}
+
+/**
+ * 保存した検索の新着まとめメール
+ *
+ * ## 機能概要
+ * 保存した検索（通知方法「1日1回メールでまとめて」）に一致する新しい投稿を、
+ * ユーザーごとに1日1通にまとめて知らせます。
+ *
+ * ## パラメータ
+ * @param email - 送信先メールアドレス
+ * @param nickname - ユーザーのニックネーム
+ * @param searches - 新着があった検索（表示名・検索ページのパス・件数・投稿の抜粋）
+ *
+ * ## 戻り値
+ * @returns Promise<EmailResult> - 送信結果
+ *
+ * ## セキュリティ
+ * 検索条件・投稿の本文・ニックネームはユーザー入力のため、HTMLエスケープして埋め込む
+ */
+export async function sendSavedSearchDigestEmail(
+  email: string,
+  nickname: string,
+  searches: {
+    label: string
+    path: string
+    count: number
+    hasMore: boolean
+    posts: { id: string; authorName: string; excerpt: string }[]
+  }[]
+): Promise<EmailResult> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://bon-log.com'
+  const settingsUrl = `${appUrl}/settings/saved-searches`
+
+  const formatCount = (search: { count: number; hasMore: boolean }) =>
+    `${search.count}件${search.hasMore ? '以上' : ''}`
+
+  const searchSections = searches
+    .map(
+      (search) => `
+      <div style="margin-bottom: 24px;">
+        <h3 style="margin: 0 0 8px 0; font-size: 16px;">
+          <a href="${appUrl}${search.path}" style="color: #2d5016;">${sanitizeText(search.label)}</a>
+          <span style="color: #666; font-size: 14px; font-weight: normal;">（新着${formatCount(search)}）</span>
+        </h3>
+        <ul style="padding-left: 20px; margin: 0;">
+          ${search.posts
+            .map(
+              (post) => `
+          <li style="margin-bottom: 8px;">
+            <a href="${appUrl}/posts/${post.id}" style="color: #333;">${sanitizeText(post.excerpt)}</a>
+            <br><span style="color: #666; font-size: 14px;">${sanitizeText(post.authorName)}さん</span>
+          </li>`
+            )
+            .join('')}
+        </ul>
+      </div>`
+    )
+    .join('')
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>保存した検索に新しい投稿があります</title>
+</head>
+<body style="font-family: 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2d5016 0%, #4a7c23 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: #fff; margin: 0; font-size: 24px;">BON-LOG</h1>
+    <p style="color: #e8f5e9; margin: 10px 0 0 0; font-size: 14px;">盆栽愛好家のためのSNS</p>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 8px 8px;">
+    <h2 style="color: #2d5016; margin-top: 0;">${sanitizeText(nickname)}さん、保存した検索に新しい投稿があります</h2>
+
+    <p>保存した検索に一致する投稿が新しく見つかりました。</p>
+
+    ${searchSections}
+
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+
+    <p style="color: #999; font-size: 12px;">
+      通知方法の変更や検索の削除は<a href="${settingsUrl}" style="color: #999;">保存した検索の設定</a>から行えます。
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p>このメールはBON-LOGから自動送信されています。</p>
+  </div>
+</body>
+</html>
+`
+
+  const text = `
+BON-LOG - 保存した検索に新しい投稿があります
+
+${nickname}さん
+
+保存した検索に一致する投稿が新しく見つかりました。
+
+${searches
+  .map(
+    (search) =>
+      `■ ${search.label}（新着${formatCount(search)}）\n${appUrl}${search.path}\n${search.posts
+        .map((post) => `- ${post.excerpt}（${post.authorName}さん）\n  ${appUrl}/posts/${post.id}`)
+        .join('\n')}`
+  )
+  .join('\n\n')}
+
+通知方法の変更や検索の削除: ${settingsUrl}
+
+---
+BON-LOG
+盆栽愛好家のためのSNS
+`
+
+  return sendEmail({
+    to: email,
+    subject: `【BON-LOG】保存した検索に新しい投稿があります（${searches.length}件）`,
+    html,
+    text,
+  })
+}
+
+/**
+ * データのエクスポート完了メール
+ *
+ * ## 機能概要
+ * 申し込まれたデータのエクスポート（ZIP）の準備ができたことを知らせます。
+ * ダウンロードはアカウント設定ページから行うため、メールには署名付きURLを含めません。
+ *
+ * ## パラメータ
+ * @param email - 送信先メールアドレス
+ * @param nickname - ユーザーのニックネーム
+ * @param expiresAt - ダウンロード期限
+ *
+ * ## 戻り値
+ * @returns Promise<EmailResult> - 送信結果
+ */
+export async function sendDataExportReadyEmail(
+  email: string,
+  nickname: string,
+  expiresAt: Date
+): Promise<EmailResult> {
+  const settingsUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://bon-log.com'}/settings/account`
+
+  const formattedDate = expiresAt.toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>データのエクスポートの準備ができました</title>
+</head>
+<body style="font-family: 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2d5016 0%, #4a7c23 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: #fff; margin: 0; font-size: 24px;">BON-LOG</h1>
+    <p style="color: #e8f5e9; margin: 10px 0 0 0; font-size: 14px;">盆栽愛好家のためのSNS</p>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 8px 8px;">
+    <h2 style="color: #2d5016; margin-top: 0;">${sanitizeText(nickname)}さん、データのエクスポートの準備ができました</h2>
+
+    <p>お申し込みいただいたデータ（投稿・盆栽の成長記録・画像など）をZIPファイルにまとめました。</p>
+    <p>アカウント設定ページからダウンロードしてください。</p>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${settingsUrl}" style="display: inline-block; background: #4a7c23; color: #fff; text-decoration: none; padding: 15px 30px; border-radius: 6px; font-weight: bold;">アカウント設定を開く</a>
+    </div>
+
+    <div style="background: #f5f5f5; padding: 15px; border-radius: 6px; margin: 20px 0;">
+      <p style="margin: 0;"><strong>ダウンロード期限:</strong> ${formattedDate}</p>
+    </div>
+
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+
+    <p style="color: #999; font-size: 12px;">
+      このお申し込みに心当たりがない場合は、パスワードを変更してください。
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p>このメールはBON-LOGから自動送信されています。</p>
+  </div>
+</body>
+</html>
+`
+
+  const text = `
+BON-LOG - データのエクスポートの準備ができました
+
+${nickname}さん
+
+お申し込みいただいたデータ（投稿・盆栽の成長記録・画像など）をZIPファイルにまとめました。
+アカウント設定ページからダウンロードしてください。
+
+アカウント設定: ${settingsUrl}
+
+ダウンロード期限: ${formattedDate}
+
+このお申し込みに心当たりがない場合は、パスワードを変更してください。
+
+---
+BON-LOG
+盆栽愛好家のためのSNS
+`
+
+  return sendEmail({
+    to: email,
+    subject: '【BON-LOG】データのエクスポートの準備ができました',
+    html,
+    text,
+  })
+}
+
+/**
+ * メールアドレスの確認メール
+ *
+ * ## 機能概要
+ * 登録したメールアドレスが本人のものか確認するためのリンクを送信します。
+ * 確認が済むまで投稿とメッセージは利用できません。
+ *
+ * ## パラメータ
+ * @param email - 送信先メールアドレス
+ * @param nickname - ユーザーのニックネーム
+ * @param verifyUrl - 確認用URL
+ *
+ * ## 戻り値
+ * @returns Promise<EmailResult> - 送信結果
+ */
+export async function sendVerificationEmail(
+  email: string,
+  nickname: string,
+  verifyUrl: string
+): Promise<EmailResult> {
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>メールアドレスの確認</title>
+</head>
+<body style="font-family: 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2d5016 0%, #4a7c23 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: #fff; margin: 0; font-size: 24px;">BON-LOG</h1>
+    <p style="color: #e8f5e9; margin: 10px 0 0 0; font-size: 14px;">盆栽愛好家のためのSNS</p>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 8px 8px;">
+    <h2 style="color: #2d5016; margin-top: 0;">${sanitizeText(nickname)}さん、メールアドレスを確認してください</h2>
+
+    <p>BON-LOGにご登録いただきありがとうございます。</p>
+    <p>下記のボタンをクリックして、メールアドレスの確認を完了してください。確認が完了すると、投稿やメッセージを利用できるようになります。</p>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${verifyUrl}" style="display: inline-block; background: #4a7c23; color: #fff; text-decoration: none; padding: 15px 30px; border-radius: 6px; font-weight: bold;">メールアドレスを確認する</a>
+    </div>
+
+    <p style="color: #666; font-size: 14px;">
+      このリンクは<strong>24時間</strong>で有効期限が切れます。<br>
+      お心当たりがない場合は、このメールを無視してください。
+    </p>
+
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+
+    <p style="color: #999; font-size: 12px;">
+      ボタンが機能しない場合は、以下のURLをブラウザに貼り付けてください：<br>
+      <a href="${verifyUrl}" style="color: #4a7c23; word-break: break-all;">${verifyUrl}</a>
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p>このメールはBON-LOGから自動送信されています。</p>
+  </div>
+</body>
+</html>
+`
+
+  const text = `
+BON-LOG - メールアドレスの確認
+
+${nickname}さん
+
+BON-LOGにご登録いただきありがとうございます。
+下記のURLにアクセスして、メールアドレスの確認を完了してください。
+確認が完了すると、投稿やメッセージを利用できるようになります。
+
+${verifyUrl}
+
+このリンクは24時間で有効期限が切れます。
+お心当たりがない場合は、このメールを無視してください。
+
+---
+BON-LOG
+盆栽愛好家のためのSNS
+`
+
+  return sendEmail({
+    to: email,
+    subject: '【BON-LOG】メールアドレスの確認',
+    html,
+    text,
+  })
+}
+
+/**
+ * メールアドレス変更の確認メール
+ *
+ * ## 機能概要
+ * メールアドレスの変更を申請したときに、変更前と変更後の両方のアドレスへ送信します。
+ * 両方のリンクで確認が済むとメールアドレスが変更されます。
+ *
+ * ## パラメータ
+ * @param email - 送信先メールアドレス（変更前または変更後）
+ * @param nickname - ユーザーのニックネーム
+ * @param confirmUrl - 確認用URL
+ * @param newEmail - 変更後のメールアドレス
+ * @param target - 送信先が変更前のアドレス（current）か変更後のアドレス（new）か
+ *
+ * ## 戻り値
+ * @returns Promise<EmailResult> - 送信結果
+ */
+export async function sendEmailChangeConfirmationEmail(
+  email: string,
+  nickname: string,
+  confirmUrl: string,
+  newEmail: string,
+  target: 'current' | 'new'
+): Promise<EmailResult> {
+  /**
+   * 変更前のアドレスには、心当たりがない場合の案内を加える
+   * （アカウントを乗っ取られた可能性があるため）
+   */
+  const lead =
+    target === 'current'
+      ? 'このメールアドレスから、下記のメールアドレスへの変更が申請されました。'
+      : 'BON-LOGのアカウントのメールアドレスを、このメールアドレスへ変更する申請がありました。'
+  const notice =
+    target === 'current'
+      ? 'お心当たりがない場合は、リンクを開かずにパスワードを変更してください。'
+      : 'お心当たりがない場合は、このメールを無視してください。'
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>メールアドレス変更の確認</title>
+</head>
+<body style="font-family: 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2d5016 0%, #4a7c23 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: #fff; margin: 0; font-size: 24px;">BON-LOG</h1>
+    <p style="color: #e8f5e9; margin: 10px 0 0 0; font-size: 14px;">盆栽愛好家のためのSNS</p>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 8px 8px;">
+    <h2 style="color: #2d5016; margin-top: 0;">${sanitizeText(nickname)}さん、メールアドレス変更の確認</h2>
+
+    <p>${lead}</p>
+
+    <div style="background: #f5f5f5; padding: 15px; border-radius: 6px; margin: 20px 0;">
+      <p style="margin: 0;"><strong>変更後のメールアドレス:</strong> ${sanitizeText(newEmail)}</p>
+    </div>
+
+    <p>変更前と変更後の両方のメールアドレスに届いたリンクで確認すると、変更が完了します。</p>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${confirmUrl}" style="display: inline-block; background: #4a7c23; color: #fff; text-decoration: none; padding: 15px 30px; border-radius: 6px; font-weight: bold;">変更を確認する</a>
+    </div>
+
+    <p style="color: #666; font-size: 14px;">
+      このリンクは<strong>24時間</strong>で有効期限が切れます。<br>
+      ${notice}
+    </p>
+
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+
+    <p style="color: #999; font-size: 12px;">
+      ボタンが機能しない場合は、以下のURLをブラウザに貼り付けてください：<br>
+      <a href="${confirmUrl}" style="color: #4a7c23; word-break: break-all;">${confirmUrl}</a>
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p>このメールはBON-LOGから自動送信されています。</p>
+  </div>
+</body>
+</html>
+`
+
+  const text = `
+BON-LOG - メールアドレス変更の確認
+
+${nickname}さん
+
+${lead}
+
+変更後のメールアドレス: ${newEmail}
+
+変更前と変更後の両方のメールアドレスに届いたリンクで確認すると、変更が完了します。
+
+${confirmUrl}
+
+このリンクは24時間で有効期限が切れます。
+${notice}
+
+---
+BON-LOG
+盆栽愛好家のためのSNS
+`
+
+  return sendEmail({
+    to: email,
+    subject: '【BON-LOG】メールアドレス変更の確認',
+    html,
+    text,
+  })
+}
+
+/**
+ * ログインの通知メール
+ *
+ * ## 機能概要
+ * 新しいデバイス・IPアドレスからのログインや、ログイン失敗が続いて
+ * ログインを制限したことをアカウントの持ち主に知らせます。
+ * 心当たりがない場合のリンクを開くと、すべてのデバイスからログアウトし、
+ * パスワードのリセットが必要になります。
+ *
+ * ## パラメータ
+ * @param email - 送信先メールアドレス
+ * @param nickname - ユーザーのニックネーム
+ * @param alert - 通知の種類と、ログインしたIPアドレス・デバイス・日時
+ * @param notMeUrl - 「心当たりがない」場合のURL
+ *
+ * ## 戻り値
+ * @returns Promise<EmailResult> - 送信結果
+ */
+export async function sendLoginAlertEmail(
+  email: string,
+  nickname: string,
+  alert: {
+    type: 'new_login' | 'login_lockout'
+    ipAddress: string | null
+    device: string | null
+    occurredAt: Date
+  },
+  notMeUrl: string
+): Promise<EmailResult> {
+  const title =
+    alert.type === 'new_login' ? '新しいデバイスからのログイン' : 'ログインを一時的に制限しました'
+  const lead =
+    alert.type === 'new_login'
+      ? 'これまでと異なるデバイスまたは場所から、BON-LOGのアカウントにログインがありました。'
+      : 'パスワードの誤りが続いたため、BON-LOGのアカウントへのログインを一時的に制限しました。'
+
+  const occurredAt = alert.occurredAt.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })
+  const details = [
+    `日時: ${occurredAt}`,
+    `IPアドレス: ${alert.ipAddress ?? '不明'}`,
+    ...(alert.device ? [`デバイス: ${alert.device}`] : []),
+  ]
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="font-family: 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2d5016 0%, #4a7c23 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: #fff; margin: 0; font-size: 24px;">BON-LOG</h1>
+    <p style="color: #e8f5e9; margin: 10px 0 0 0; font-size: 14px;">盆栽愛好家のためのSNS</p>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 8px 8px;">
+    <h2 style="color: #2d5016; margin-top: 0;">${sanitizeText(nickname)}さん、${title}</h2>
+
+    <p>${lead}</p>
+
+    <div style="background: #f5f5f5; padding: 15px; border-radius: 6px; margin: 20px 0;">
+      ${details.map((line) => `<p style="margin: 0;">${sanitizeText(line)}</p>`).join('\n      ')}
+    </div>
+
+    <p>ご自身による操作であれば、対応は不要です。</p>
+    <p>お心当たりがない場合は、下のボタンからすべてのデバイスをログアウトさせ、パスワードを再設定してください。</p>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${notMeUrl}" style="display: inline-block; background: #c62828; color: #fff; text-decoration: none; padding: 15px 30px; border-radius: 6px; font-weight: bold;">心当たりがない</a>
+    </div>
+
+    <p style="color: #666; font-size: 14px;">
+      このリンクは<strong>7日間</strong>有効です。
+    </p>
+
+    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+
+    <p style="color: #999; font-size: 12px;">
+      ボタンが機能しない場合は、以下のURLをブラウザに貼り付けてください：<br>
+      <a href="${notMeUrl}" style="color: #4a7c23; word-break: break-all;">${notMeUrl}</a>
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p>このメールはBON-LOGから自動送信されています。</p>
+  </div>
+</body>
+</html>
+`
+
+  const text = `
+BON-LOG - ${title}
+
+${nickname}さん
+
+${lead}
+
+${details.join('\n')}
+
+ご自身による操作であれば、対応は不要です。
+お心当たりがない場合は、以下のURLからすべてのデバイスをログアウトさせ、パスワードを再設定してください。
+
+${notMeUrl}
+
+このリンクは7日間有効です。
+
+---
+BON-LOG
+盆栽愛好家のためのSNS
+`
+
+  return sendEmail({
+    to: email,
+    subject: `【BON-LOG】${title}`,
+    html,
+    text,
+  })
+}
@@ -0,0 +1,172 @@
+/**
+ * ログインの通知
+ *
+ * アカウントへのログインに関する出来事を、持ち主にメールとアプリ内通知で知らせます。
+ *
+ * ## 通知する出来事
+ * - new_login … これまでと異なるデバイス（フィンガープリント）またはIPアドレスからのログイン
+ * - login_lockout … ログイン失敗が続いてログインを制限した（lib/login-tracker）
+ *
+ * ## 心当たりがない場合
+ * メールには「心当たりがない」リンク（login-alert トークン）を含めます。
+ * リンクを開くとすべてのデバイスからログアウトし、パスワードを再設定するまで
+ * パスワードでのログインを止めます（lib/actions/login-alert）。
+ *
+ * 通知の失敗でログインを妨げないよう、呼び出し元では例外を握りつぶします。
+ *
+ * @module lib/login-alert
+ */
+
+import { prisma } from '@/lib/db'
+import { sendLoginAlertEmail } from '@/lib/email'
+import { rateLimit } from '@/lib/rate-limit'
+import { buildVerificationUrl, issueVerificationToken } from '@/lib/email-verification'
+
+// ============================================================
+// 定数・型定義
+// ============================================================
+
+/**
+ * 「心当たりがない」リンクの有効期間（7日間）
+ */
+export const LOGIN_ALERT_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * ロックの通知の間隔（ロック中の失敗のたびに通知しない）
+ */
+const LOCKOUT_ALERT_RATE_LIMIT = {
+  windowMs: 30 * 60 * 1000,
+  maxRequests: 1,
+}
+
+/**
+ * ログインの通知の種類（Notification.type）
+ */
+export type LoginAlertType = 'new_login' | 'login_lockout'
+
+/**
+ * ログインしたデバイス・場所
+ */
+export interface LoginContext {
+  /** デバイスフィンガープリント */
+  fingerprint?: string | null
+  /** IPアドレス */
+  ipAddress: string | null
+  /** デバイスの表示名（例: "Chrome / Android"） */
+  device?: string | null
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * メールとアプリ内通知を送る
+ *
+ * 通知はシステム通知として、自身のIDを actorId に使います。
+ */
+async function sendLoginAlert(
+  user: { id: string; email: string; nickname: string },
+  type: LoginAlertType,
+  context: LoginContext
+): Promise<void> {
+  const token = await issueVerificationToken('login-alert', user.id, {
+    ttlMs: LOGIN_ALERT_TOKEN_TTL_MS,
+    keepExisting: true,
+  })
+
+  await prisma.notification.create({
+    data: {
+      userId: user.id,
+      actorId: user.id,
+      type,
+    },
+  })
+
+  await sendLoginAlertEmail(
+    user.email,
+    user.nickname,
+    {
+      type,
+      ipAddress: context.ipAddress,
+      device: context.device ?? null,
+      occurredAt: new Date(),
+    },
+    buildVerificationUrl('/login-alert', token)
+  )
+}
+
+// ============================================================
+// 通知
+// ============================================================
+
+/**
+ * 新しいデバイス・IPアドレスからのログインであれば通知する
+ *
+ * 記録済みのデバイス（UserDevice）のフィンガープリント・IPアドレスと比べます。
+ * デバイスの記録がない（初めてのログイン）場合は通知しません。
+ * デバイスを記録する前に呼び出してください。
+ *
+ * @param userId - ログインしたユーザーのID
+ * @param context - ログインしたデバイス・場所
+ * @returns 通知した場合は true
+ */
+export async function notifyIfNewLogin(userId: string, context: LoginContext): Promise<boolean> {
+  const knownDevices = await prisma.userDevice.findMany({
+    where: { userId },
+    select: { fingerprint: true, ipAddress: true },
+  })
+
+  if (knownDevices.length === 0) {
+    return false
+  }
+
+  const isNewDevice =
+    !!context.fingerprint &&
+    !knownDevices.some((device) => device.fingerprint === context.fingerprint)
+  const isNewIp =
+    !!context.ipAddress && !knownDevices.some((device) => device.ipAddress === context.ipAddress)
+
+  if (!isNewDevice && !isNewIp) {
+    return false
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, nickname: true },
+  })
+  if (!user) {
+    return false
+  }
+
+  await sendLoginAlert(user, 'new_login', context)
+  return true
+}
+
+/**
+ * ログインを制限したことを通知する
+ *
+ * 登録されていないメールアドレスの場合は何もしません。
+ * ロック中に失敗が続いても、通知は30分に1回までです。
+ *
+ * @param email - ログインに使われたメールアドレス
+ * @param ipAddress - ログインを試みたIPアドレス
+ * @returns 通知した場合は true
+ */
+export async function notifyLoginLockout(email: string, ipAddress: string | null): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, nickname: true },
+  })
+  if (!user) {
+    return false
+  }
+
+  const rateLimitResult = await rateLimit(`login-alert:lockout:${user.id}`, LOCKOUT_ALERT_RATE_LIMIT)
+  if (!rateLimitResult.success) {
+    return false
+  }
+
+  await sendLoginAlert(user, 'login_lockout', { ipAddress })
+  return true
+}
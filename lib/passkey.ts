@@ -0,0 +1,337 @@
+/**
+ * パスキー（WebAuthn）ユーティリティ
+ *
+ * パスキーの登録・認証に使うオプションの生成と、
+ * ブラウザから返されたレスポンスの検証機能を提供します。
+ *
+ * ## 機能概要
+ * - 登録用オプションの生成・登録レスポンスの検証
+ * - 認証用オプションの生成・認証レスポンスの検証
+ * - チャレンジの一時保存（Redis、httpOnly Cookie にはランダムなIDのみ）
+ *
+ * ## セキュリティ
+ * - チャレンジはサーバー側に用途ごとに保存し、検証時に破棄（使い回し不可）
+ * - Cookieにはチャレンジ自体を置かないため、クライアントが任意のチャレンジを指定できない
+ * - ユーザー検証（生体認証・PIN）を必須にする
+ * - 署名カウンターを保存し、認証のたびに更新
+ *
+ * @module lib/passkey
+ */
+
+import crypto from 'crypto'
+import { cookies } from 'next/headers'
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type VerifyRegistrationResponseOpts,
+  type VerifyAuthenticationResponseOpts,
+} from '@simplewebauthn/server'
+import { isoBase64URL } from '@simplewebauthn/server/helpers'
+import { prisma } from '@/lib/db'
+import { getRedisClient } from '@/lib/redis'
+
+// ============================================================
+// 定数・型定義
+// ============================================================
+
+/**
+ * 依存するパーティ（RP）の表示名
+ */
+const RP_NAME = 'BON-LOG'
+
+/**
+ * チャレンジのIDを保存するCookie
+ */
+const CHALLENGE_COOKIE = 'bonlog.webauthn-challenge'
+const CHALLENGE_MAX_AGE = 5 * 60 // 5分
+
+/**
+ * チャレンジを保存するRedisキーのプレフィックス
+ */
+const CHALLENGE_KEY_PREFIX = 'webauthn-challenge:'
+
+/**
+ * 1ユーザーが登録できるパスキーの上限
+ */
+export const MAX_PASSKEYS_PER_USER = 10
+
+/**
+ * チャレンジの用途
+ * - register: パスキーの登録
+ * - login: パスワードなしのログイン
+ * - 2fa: 2段階認証
+ */
+export type PasskeyChallengePurpose = 'register' | 'login' | '2fa'
+
+/**
+ * ブラウザから返されるレスポンス（startRegistration / startAuthentication の戻り値）
+ */
+export type PasskeyRegistrationResponse = VerifyRegistrationResponseOpts['response']
+export type PasskeyAuthenticationResponse = VerifyAuthenticationResponseOpts['response']
+
+/**
+ * 対応する通信方式
+ */
+type PasskeyTransport = NonNullable<PasskeyRegistrationResponse['response']['transports']>[number]
+
+// ============================================================
+// RP設定
+// ============================================================
+
+/**
+ * RPのIDとオリジンを取得する
+ *
+ * NEXT_PUBLIC_APP_URL のホスト名をRP IDとして使います。
+ * パスキーはRP IDに紐づくため、本番のドメインを変えると使えなくなります。
+ *
+ * @returns RP ID とオリジン
+ */
+export function getRelyingParty(): { rpID: string; origin: string } {
+  const url = new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000')
+  return { rpID: url.hostname, origin: url.origin }
+}
+
+// ============================================================
+// チャレンジ
+// ============================================================
+
+/**
+ * チャレンジを保存する
+ *
+ * チャレンジはRedisに有効期限付きで保存し、Cookieには推測できないIDのみを置く。
+ *
+ * @param purpose - チャレンジの用途
+ * @param challenge - オプションに含まれるチャレンジ
+ */
+async function saveChallenge(purpose: PasskeyChallengePurpose, challenge: string) {
+  const challengeId = crypto.randomBytes(32).toString('base64url')
+  await getRedisClient().set(`${CHALLENGE_KEY_PREFIX}${challengeId}`, `${purpose}:${challenge}`, {
+    ex: CHALLENGE_MAX_AGE,
+  })
+
+  const cookieStore = await cookies()
+  cookieStore.set(CHALLENGE_COOKIE, challengeId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: CHALLENGE_MAX_AGE,
+    path: '/',
+  })
+}
+
+/**
+ * 保存したチャレンジを取り出して破棄する
+ *
+ * Redisから取得と同時に削除するため、同じチャレンジは1回しか使えない。
+ *
+ * @param purpose - チャレンジの用途
+ * @returns 用途が一致するチャレンジ（なければnull）
+ */
+export async function consumeChallenge(purpose: PasskeyChallengePurpose): Promise<string | null> {
+  const cookieStore = await cookies()
+  const challengeId = cookieStore.get(CHALLENGE_COOKIE)?.value
+  cookieStore.delete(CHALLENGE_COOKIE)
+
+  if (!challengeId) {
+    return null
+  }
+
+  const value = await getRedisClient().getdel(`${CHALLENGE_KEY_PREFIX}${challengeId}`)
+  if (!value?.startsWith(`${purpose}:`)) {
+    return null
+  }
+  return value.slice(purpose.length + 1)
+}
+
+// ============================================================
+// 登録
+// ============================================================
+
+/**
+ * パスキー登録用のオプションを生成する
+ *
+ * 登録済みのパスキーは excludeCredentials に含め、
+ * 同じ認証器を二重に登録しないようにします。
+ *
+ * @param user - 登録するユーザー
+ * @returns startRegistration に渡すオプション
+ */
+export async function createRegistrationOptions(user: {
+  id: string
+  email: string
+  nickname: string
+}) {
+  const { rpID } = getRelyingParty()
+
+  const passkeys = await prisma.passkey.findMany({
+    where: { userId: user.id },
+    select: { credentialId: true, transports: true },
+  })
+
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID,
+    userID: user.id,
+    userName: user.email,
+    userDisplayName: user.nickname,
+    attestationType: 'none',
+    excludeCredentials: passkeys.map((passkey) => ({
+      id: isoBase64URL.toBuffer(passkey.credentialId),
+      type: 'public-key' as const,
+      transports: passkey.transports as PasskeyTransport[],
+    })),
+    authenticatorSelection: {
+      residentKey: 'required',
+      userVerification: 'required',
+    },
+  })
+
+  await saveChallenge('register', options.challenge)
+  return options
+}
+
+/**
+ * パスキーの登録レスポンスを検証する
+ *
+ * @param response - startRegistration の戻り値
+ * @returns 保存する認証器の情報（検証に失敗した場合はnull）
+ */
+export async function verifyRegistration(response: PasskeyRegistrationResponse) {
+  const expectedChallenge = await consumeChallenge('register')
+  if (!expectedChallenge) {
+    return null
+  }
+
+  const { rpID, origin } = getRelyingParty()
+
+  try {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: true,
+    })
+
+    if (!verified || !registrationInfo) {
+      return null
+    }
+
+    return {
+      credentialId: isoBase64URL.fromBuffer(registrationInfo.credentialID),
+      publicKey: Buffer.from(registrationInfo.credentialPublicKey),
+      counter: registrationInfo.counter,
+      transports: response.response.transports ?? [],
+      deviceType: registrationInfo.credentialDeviceType,
+      backedUp: registrationInfo.credentialBackedUp,
+    }
+  } catch {
+    return null
+  }
+}
+
+// ============================================================
+// 認証
+// ============================================================
+
+/**
+ * パスキー認証用のオプションを生成する
+ *
+ * userId を省略した場合は allowCredentials を空にし、
+ * 認証器に保存されたパスキーからユーザーに選んでもらいます。
+ *
+ * @param purpose - login（パスワードなしのログイン）または 2fa
+ * @param userId - 2段階認証の対象ユーザー
+ * @returns startAuthentication に渡すオプション
+ */
+export async function createAuthenticationOptions(
+  purpose: Exclude<PasskeyChallengePurpose, 'register'>,
+  userId?: string
+) {
+  const { rpID } = getRelyingParty()
+
+  const passkeys = userId
+    ? await prisma.passkey.findMany({
+        where: { userId },
+        select: { credentialId: true, transports: true },
+      })
+    : []
+
+  const options = await generateAuthenticationOptions({
+    rpID,
+    userVerification: 'required',
+    allowCredentials: passkeys.map((passkey) => ({
+      id: isoBase64URL.toBuffer(passkey.credentialId),
+      type: 'public-key' as const,
+      transports: passkey.transports as PasskeyTransport[],
+    })),
+  })
+
+  await saveChallenge(purpose, options.challenge)
+  return options
+}
+
+/**
+ * パスキーの認証レスポンスを検証する
+ *
+ * 成功した場合は署名カウンターと最終使用日時を更新します。
+ *
+ * @param purpose - login（パスワードなしのログイン）または 2fa
+ * @param response - startAuthentication の戻り値
+ * @param userId - 2段階認証の対象ユーザー（指定した場合は本人のパスキーのみ受け付ける）
+ * @returns 認証したユーザーのID（失敗した場合はnull）
+ */
+export async function verifyAuthentication(
+  purpose: Exclude<PasskeyChallengePurpose, 'register'>,
+  response: PasskeyAuthenticationResponse,
+  userId?: string
+): Promise<string | null> {
+  const expectedChallenge = await consumeChallenge(purpose)
+  if (!expectedChallenge) {
+    return null
+  }
+
+  const passkey = await prisma.passkey.findUnique({
+    where: { credentialId: response.id },
+  })
+
+  if (!passkey || (userId && passkey.userId !== userId)) {
+    return null
+  }
+
+  const { rpID, origin } = getRelyingParty()
+
+  try {
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      authenticator: {
+        credentialID: isoBase64URL.toBuffer(passkey.credentialId),
+        credentialPublicKey: new Uint8Array(passkey.publicKey),
+        counter: passkey.counter,
+        transports: passkey.transports as PasskeyTransport[],
+      },
+      requireUserVerification: true,
+    })
+
+    if (!verified) {
+      return null
+    }
+
+    await prisma.passkey.update({
+      where: { id: passkey.id },
+      data: {
+        counter: authenticationInfo.newCounter,
+        lastUsedAt: new Date(),
+      },
+    })
+
+    return passkey.userId
+  } catch {
+    return null
+  }
+}
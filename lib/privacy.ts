@@ -0,0 +1,278 @@
+/**
+ * 項目ごとの公開範囲の判定
+ *
+ * ユーザーが項目ごとに設定した公開範囲（lib/constants/privacy.ts）をもとに、
+ * 閲覧者がその項目を見られるか、メッセージを送れるかを判定します。
+ *
+ * ## 判定に使う関係
+ * - 本人: すべての項目を閲覧できる
+ * - フォロワー: 閲覧者が相手をフォローしている
+ * - 相互フォロー: 閲覧者と相手が互いにフォローしている
+ * - 親しい友達: 相手の親しい友達リストに閲覧者が含まれている（投稿の公開範囲のみ）
+ *
+ * ## 使用箇所
+ * - 盆栽コレクション（lib/actions/bonsai）
+ * - いいねした投稿・フォロー・フォロワー一覧・居住地域（/users/[id] 配下のページ、lib/actions の like・follow・user）
+ * - メッセージの開始（lib/actions/message の getOrCreateConversation）
+ * - 投稿ごとの公開範囲（lib/actions の post・feed・search・hashtag、lib/search/fulltext）
+ *
+ * Server Actions から直接呼び出せないよう、'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/privacy
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { POST_AUDIENCE_OPTIONS } from '@/lib/constants/privacy'
+import type { PostAudience, PrivacyArea } from '@/lib/constants/privacy'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 閲覧者から見た相手ユーザーとの関係
+ */
+export interface ViewerRelationship {
+  /** 閲覧者が本人か */
+  isOwner: boolean
+  /** 閲覧者が相手をフォローしているか */
+  isFollower: boolean
+  /** 相手が閲覧者をフォローしているか */
+  isFollowedBy: boolean
+  /** 閲覧者が相手の親しい友達リストに含まれているか（投稿の公開範囲の判定時のみ取得） */
+  isCloseFriend?: boolean
+}
+
+// ============================================================
+// 関係の取得
+// ============================================================
+
+/**
+ * 閲覧者から見た相手ユーザーとの関係を取得
+ *
+ * 未ログインの閲覧者は、本人でもフォロワーでもないものとして扱います。
+ *
+ * @param ownerId - 相手ユーザーのID
+ * @param viewerId - 閲覧者のユーザーID（未ログインの場合は省略）
+ * @returns 閲覧者から見た関係
+ */
+export async function getViewerRelationship(
+  ownerId: string,
+  viewerId?: string | null
+): Promise<ViewerRelationship> {
+  if (!viewerId) {
+    return { isOwner: false, isFollower: false, isFollowedBy: false }
+  }
+
+  if (viewerId === ownerId) {
+    return { isOwner: true, isFollower: false, isFollowedBy: false }
+  }
+
+  const [following, followedBy] = await Promise.all([
+    prisma.follow.findUnique({
+      where: { followerId_followingId: { followerId: viewerId, followingId: ownerId } },
+    }),
+    prisma.follow.findUnique({
+      where: { followerId_followingId: { followerId: ownerId, followingId: viewerId } },
+    }),
+  ])
+
+  return { isOwner: false, isFollower: !!following, isFollowedBy: !!followedBy }
+}
+
+/**
+ * 閲覧者が相手の親しい友達リストに含まれているかを確認
+ *
+ * @param ownerId - リストを持つユーザーのID
+ * @param viewerId - 閲覧者のユーザーID（未ログインの場合は省略）
+ * @returns 含まれている場合は true
+ */
+export async function isCloseFriendOf(
+  ownerId: string,
+  viewerId?: string | null
+): Promise<boolean> {
+  if (!viewerId || viewerId === ownerId) {
+    return false
+  }
+
+  const closeFriend = await prisma.closeFriend.findUnique({
+    where: { userId_friendId: { userId: ownerId, friendId: viewerId } },
+  })
+
+  return !!closeFriend
+}
+
+// ============================================================
+// 判定
+// ============================================================
+
+/**
+ * 公開範囲に対して閲覧できるかを判定
+ *
+ * 未知の公開範囲は「自分のみ」として扱います。
+ *
+ * @param visibility - 項目の公開範囲
+ * @param relationship - 閲覧者から見た関係
+ * @returns 閲覧できる場合は true
+ */
+export function canViewArea(visibility: string, relationship: ViewerRelationship): boolean {
+  if (relationship.isOwner || visibility === 'everyone') {
+    return true
+  }
+  if (visibility === 'followers') {
+    return relationship.isFollower
+  }
+  return false
+}
+
+/**
+ * メッセージを受け付ける相手の設定に対して、メッセージを送れるかを判定
+ *
+ * 未知の設定は「受け付けない」として扱います。
+ *
+ * @param permission - 相手のメッセージを受け付ける相手の設定
+ * @param relationship - 送信者から見た相手との関係
+ * @returns メッセージを送れる場合は true
+ */
+export function canSendMessage(permission: string, relationship: ViewerRelationship): boolean {
+  switch (permission) {
+    case 'everyone':
+      return true
+    case 'followers':
+      return relationship.isFollower
+    case 'mutual':
+      return relationship.isFollower && relationship.isFollowedBy
+    default:
+      return false
+  }
+}
+
+/**
+ * 閲覧者が項目を見られるユーザーに絞り込む条件を作成
+ *
+ * 複数のユーザーのデータを一覧で取得するときに、
+ * リレーションの条件（例: `bonsai.findMany({ where: { user: ... } })`）として使用します。
+ *
+ * @param area - 公開範囲を設定できる項目
+ * @param viewerId - 閲覧者のユーザーID（未ログインの場合は省略）
+ * @returns ユーザーの絞り込み条件
+ */
+export function buildVisibleUserWhere(
+  area: PrivacyArea,
+  viewerId?: string | null
+): Prisma.UserWhereInput {
+  if (!viewerId) {
+    return { [area]: 'everyone' }
+  }
+
+  return {
+    OR: [
+      { id: viewerId },
+      { [area]: 'everyone' },
+      { [area]: 'followers', followers: { some: { followerId: viewerId } } },
+    ],
+  }
+}
+
+/**
+ * 投稿の公開範囲として正しい値かを判定
+ *
+ * フォームから受け取った値の検証に使用します。
+ *
+ * @param value - 検証する値
+ * @returns 投稿の公開範囲の選択肢に含まれる場合は true
+ */
+export function isPostAudience(value: unknown): value is PostAudience {
+  return POST_AUDIENCE_OPTIONS.some((option) => option.value === value)
+}
+
+/**
+ * 投稿の公開範囲に対して閲覧できるかを判定
+ *
+ * 未知の公開範囲は「自分のみ」として扱います。
+ *
+ * @param audience - 投稿の公開範囲
+ * @param relationship - 閲覧者から見た投稿者との関係
+ * @returns 閲覧できる場合は true
+ */
+export function canViewPost(audience: string, relationship: ViewerRelationship): boolean {
+  if (relationship.isOwner || audience === 'public') {
+    return true
+  }
+  switch (audience) {
+    case 'followers':
+      return relationship.isFollower
+    case 'mutuals':
+      return relationship.isFollower && relationship.isFollowedBy
+    case 'close_friends':
+      return relationship.isCloseFriend ?? false
+    default:
+      return false
+  }
+}
+
+/**
+ * 閲覧者が見られる投稿に絞り込む条件を作成
+ *
+ * 投稿の一覧を取得するときに `post.findMany({ where: { AND: [..., buildVisiblePostWhere(viewerId)] } })`
+ * のように他の条件と組み合わせて使用します。
+ *
+ * @param viewerId - 閲覧者のユーザーID（未ログインの場合は省略）
+ * @returns 投稿の絞り込み条件
+ */
+export function buildVisiblePostWhere(viewerId?: string | null): Prisma.PostWhereInput {
+  if (!viewerId) {
+    return { audience: 'public' }
+  }
+
+  return {
+    OR: [
+      { audience: 'public' },
+      { userId: viewerId },
+      { audience: 'followers', user: { followers: { some: { followerId: viewerId } } } },
+      {
+        audience: 'mutuals',
+        user: {
+          followers: { some: { followerId: viewerId } },
+          following: { some: { followingId: viewerId } },
+        },
+      },
+      { audience: 'close_friends', user: { closeFriends: { some: { friendId: viewerId } } } },
+    ],
+  }
+}
+
+/**
+ * 閲覧者がユーザーの項目を見られるかを判定
+ *
+ * ユーザーの公開範囲と閲覧者との関係をまとめて取得して判定します。
+ * ユーザーが存在しない場合は閲覧できないものとして扱います。
+ *
+ * @param ownerId - 項目を持つユーザーのID
+ * @param area - 公開範囲を設定できる項目
+ * @param viewerId - 閲覧者のユーザーID（未ログインの場合は省略）
+ * @returns 閲覧できる場合は true
+ */
+export async function canViewUserArea(
+  ownerId: string,
+  area: PrivacyArea,
+  viewerId?: string | null
+): Promise<boolean> {
+  const owner = await prisma.user.findUnique({
+    where: { id: ownerId },
+    select: {
+      bonsaiVisibility: true,
+      likesVisibility: true,
+      followsVisibility: true,
+      locationVisibility: true,
+    },
+  })
+
+  if (!owner) {
+    return false
+  }
+
+  const relationship = await getViewerRelationship(ownerId, viewerId)
+  return canViewArea(owner[area], relationship)
+}
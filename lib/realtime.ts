@@ -0,0 +1,314 @@
+/**
+ * リアルタイムイベント配信ユーティリティ
+ *
+ * このファイルは、ダイレクトメッセージのリアルタイム配信に使用する
+ * 会話単位のイベントストリームを提供します。
+ *
+ * ## 仕組み
+ * Upstash RedisはHTTP REST APIのためPub/Subの常時接続が使えません。
+ * そのため、会話ごとに「連番カウンター + 短命なイベントキー」を保存し、
+ * SSEエンドポイントが一定間隔でカウンターを確認して新着イベントを配信します。
+ *
+ * ```
+ * realtime:conv:{conversationId}:seq          → 最新の連番（INCR）
+ * realtime:conv:{conversationId}:event:{seq}  → イベント本体（JSON、TTL付き）
+ * ```
+ *
+ * ## 配信されるイベント
+ * - message: 新着メッセージ
+ * - typing: 入力中インジケーター
+ * - read: 既読時刻（ConversationParticipant.lastReadAt）の更新
+ *
+ * ## フォールバック
+ * Redis未設定時は lib/redis のインメモリストアが使われるため、
+ * ローカル開発（単一プロセス）でもそのまま動作します。
+ *
+ * @module lib/realtime
+ */
+
+// ============================================================
+// インポート部分
+// ============================================================
+
+/**
+ * getRedisClient: Redisクライアント取得関数
+ *
+ * イベントと連番カウンターの保存に使用
+ * Redisが設定されていない場合はインメモリストアにフォールバック
+ */
+import { getRedisClient } from './redis'
+
+/**
+ * logger: 環境対応ロギングユーティリティ
+ *
+ * 配信失敗時のログ出力に使用
+ */
+import logger from '@/lib/logger'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * イベント本体の保持期間（秒）
+ *
+ * SSEの再接続（Last-Event-ID）で取りこぼしを補える程度の長さ
+ */
+const EVENT_TTL_SECONDS = 120
+
+/**
+ * 連番カウンターの保持期間（秒）
+ *
+ * 会話が1日動かなければカウンターも破棄する
+ */
+const SEQUENCE_TTL_SECONDS = 60 * 60 * 24
+
+/**
+ * 1回のポーリングで取得する最大イベント数
+ */
+const MAX_EVENTS_PER_POLL = 50
+
+/**
+ * 本体が未保存の連番を待つ時間（ミリ秒）
+ *
+ * 連番の発行（INCR）から本体の保存までの間に読み出された連番は、
+ * これより後の連番のイベントがこの時間より古くなるまで「保存中」として待つ
+ */
+const PENDING_EVENT_GRACE_MS = 5 * 1000
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * リアルタイム配信されるメッセージのペイロード
+ *
+ * getMessages の返却形式と揃えているため、
+ * クライアントはそのまま MessageList に追加できる
+ */
+export interface RealtimeMessagePayload {
+  id: string
+  type: string
+  content: string
+  createdAt: string
+  sender: {
+    id: string
+    nickname: string
+    avatarUrl: string | null
+  }
+  /** 添付画像（システムメッセージでは省略） */
+  media?: { id: string; url: string; type: string }[]
+  /** 共有された投稿のプレビュー */
+  sharedPost?: {
+    id: string
+    content: string | null
+    createdAt: string
+    user: {
+      id: string
+      nickname: string
+      avatarUrl: string | null
+    }
+    media: { url: string; type: string }[]
+  } | null
+}
+
+/**
+ * 会話イベント
+ *
+ * ## type
+ * - message: 新着メッセージ
+ * - typing: 入力中（userIdのユーザーが入力している）
+ * - read: userIdのユーザーがlastReadAtまで既読にした
+ */
+export type ConversationEvent =
+  | { type: 'message'; message: RealtimeMessagePayload }
+  | { type: 'typing'; userId: string; nickname: string }
+  | { type: 'read'; userId: string; lastReadAt: string }
+
+/**
+ * Redisに保存するイベント本体
+ *
+ * publishedAt は取りこぼし判定（PENDING_EVENT_GRACE_MS）に使用する
+ */
+interface StoredConversationEvent {
+  publishedAt: number
+  event: ConversationEvent
+}
+
+/**
+ * 連番付きの会話イベント
+ *
+ * seqはSSEのidとして使用し、再接続時の再開位置になる
+ */
+export interface SequencedConversationEvent {
+  seq: number
+  event: ConversationEvent
+}
+
+// ============================================================
+// キー生成
+// ============================================================
+
+/**
+ * 連番カウンターのキー
+ */
+function sequenceKey(conversationId: string) {
+  return `realtime:conv:${conversationId}:seq`
+}
+
+/**
+ * イベント本体のキー
+ */
+function eventKey(conversationId: string, seq: number) {
+  return `realtime:conv:${conversationId}:event:${seq}`
+}
+
+// ============================================================
+// 配信
+// ============================================================
+
+/**
+ * 会話にイベントを配信
+ *
+ * ## 処理フロー
+ * 1. 連番カウンターをインクリメント
+ * 2. イベント本体を連番のキーに保存（TTL付き）
+ *
+ * 1と2の間に読み出された場合、その連番は本体がないため、
+ * getConversationEventsSince は保存されるまで読み進めずに待つ
+ *
+ * ## エラー処理
+ * リアルタイム配信はあくまで補助機能のため、失敗しても例外は投げない。
+ * メッセージ自体はDBに保存済みなので、リロードすれば表示される。
+ *
+ * @param conversationId - 会話ID
+ * @param event - 配信するイベント
+ *
+ * @example
+ * ```typescript
+ * await publishConversationEvent(conversationId, {
+ *   type: 'typing',
+ *   userId: session.user.id,
+ *   nickname: user.nickname,
+ * })
+ * ```
+ */
+export async function publishConversationEvent(
+  conversationId: string,
+  event: ConversationEvent
+): Promise<void> {
+  const redis = getRedisClient()
+
+  try {
+    const seq = await redis.incr(sequenceKey(conversationId))
+    await redis.expire(sequenceKey(conversationId), SEQUENCE_TTL_SECONDS)
+    const stored: StoredConversationEvent = { publishedAt: Date.now(), event }
+    await redis.set(eventKey(conversationId, seq), JSON.stringify(stored), {
+      ex: EVENT_TTL_SECONDS,
+    })
+  } catch (error) {
+    logger.error('Realtime publish error:', error)
+  }
+}
+
+// ============================================================
+// 購読
+// ============================================================
+
+/**
+ * 会話の最新連番を取得
+ *
+ * SSE接続開始時に「ここから先のイベントを配信する」位置として使用
+ *
+ * @param conversationId - 会話ID
+ * @returns 最新の連番（イベントがなければ0）
+ */
+export async function getLatestConversationSequence(conversationId: string): Promise<number> {
+  const redis = getRedisClient()
+
+  try {
+    const current = await redis.get(sequenceKey(conversationId))
+    return current ? parseInt(current, 10) || 0 : 0
+  } catch (error) {
+    logger.error('Realtime sequence error:', error)
+    return 0
+  }
+}
+
+/**
+ * 指定した連番より後のイベントを取得
+ *
+ * ## 取りこぼしについて
+ * - 本体がまだ保存されていない連番があれば、その手前までを返して次回読み直す
+ * - ただし、より後の連番のイベントが PENDING_EVENT_GRACE_MS より古い場合は、
+ *   本体が失われた（TTL切れ・保存失敗）ものとしてスキップする
+ * - カウンターが期限切れでリセットされた場合（afterSeq > 最新連番）は先頭から読み直す
+ *
+ * @param conversationId - 会話ID
+ * @param afterSeq - 最後に受信した連番
+ * @returns 新着イベントと、次回のポーリングで使う連番
+ *
+ * @example
+ * ```typescript
+ * let cursor = await getLatestConversationSequence(conversationId)
+ * const { events, lastSeq } = await getConversationEventsSince(conversationId, cursor)
+ * cursor = lastSeq
+ * ```
+ */
+export async function getConversationEventsSince(
+  conversationId: string,
+  afterSeq: number
+): Promise<{ events: SequencedConversationEvent[]; lastSeq: number }> {
+  const latest = await getLatestConversationSequence(conversationId)
+
+  /**
+   * カウンターがリセットされている場合は0から読み直す
+   */
+  const from = latest < afterSeq ? 0 : afterSeq
+
+  if (latest === from) {
+    return { events: [], lastSeq: latest }
+  }
+
+  const redis = getRedisClient()
+  const start = Math.max(from + 1, latest - MAX_EVENTS_PER_POLL + 1)
+  const events: (SequencedConversationEvent & { publishedAt: number })[] = []
+  const missingSeqs: number[] = []
+
+  for (let seq = start; seq <= latest; seq++) {
+    try {
+      const raw = await redis.get(eventKey(conversationId, seq))
+      if (!raw) {
+        missingSeqs.push(seq)
+        continue
+      }
+      /**
+       * Upstash SDKはJSON文字列を自動でパースして返す場合があるため両方に対応
+       */
+      const stored = (typeof raw === 'string' ? JSON.parse(raw) : raw) as StoredConversationEvent
+      events.push({ seq, event: stored.event, publishedAt: stored.publishedAt })
+    } catch (error) {
+      logger.error('Realtime event read error:', error)
+      missingSeqs.push(seq)
+    }
+  }
+
+  /**
+   * 本体のない連番のうち、保存中の可能性があるものの手前で止める
+   *
+   * 連番は発行順のため、後の連番のイベントが十分古ければ、
+   * それより前の連番の保存はすでに終わっている（失われた）と判断できる
+   */
+  const settledBefore = Date.now() - PENDING_EVENT_GRACE_MS
+  const settledSeq = Math.max(
+    0,
+    ...events.filter((e) => e.publishedAt <= settledBefore).map((e) => e.seq)
+  )
+  const pendingSeq = missingSeqs.find((seq) => seq > settledSeq)
+  const lastSeq = pendingSeq !== undefined ? pendingSeq - 1 : latest
+
+  return {
+    events: events.filter((e) => e.seq <= lastSeq).map(({ seq, event }) => ({ seq, event })),
+    lastSeq,
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * 「おすすめ」フィードのスコアリング
+ *
+ * このファイルは、おすすめフィード（lib/actions/feed の getForYouFeed）で
+ * 候補の投稿を並べ替えるためのスコア計算を提供します。
+ *
+ * ## スコアの構成
+ * - 反応: いいね・コメント・引用の数（対数で頭打ちにする）
+ * - ジャンルの好み: 閲覧者が投稿・いいねした投稿のジャンルとの一致度
+ * - 地域の近さ: 閲覧者と投稿者の居住地域（同じ都道府県 > 同じ地方）
+ * - 新しさ: 投稿からの経過時間で半減していく係数
+ *
+ * スコア = (1 + 反応 + ジャンルの好み + 地域の近さ) × 新しさ
+ *
+ * 現在時刻を引数で受け取る純粋な関数として定義しているため、
+ * 同じ入力に対して常に同じ順序を返します。
+ *
+ * @module lib/recommendation
+ */
+
+import { extractPrefecture, getRegionByPrefecture } from '@/lib/prefectures'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * スコアの重み
+ */
+export const FOR_YOU_WEIGHTS = {
+  /** 反応（いいね・コメント・引用）の重み */
+  engagement: 1,
+  /** ジャンルの好みの重み */
+  genre: 2,
+  /** 地域の近さの重み */
+  region: 1,
+} as const
+
+/**
+ * 反応の種類ごとの重み
+ *
+ * 手間のかかる反応ほど関心が高いものとして扱う
+ */
+const ENGAGEMENT_WEIGHTS = {
+  like: 1,
+  comment: 2,
+  quote: 3,
+} as const
+
+/**
+ * 新しさが半分になるまでの時間（時間）
+ */
+export const FRESHNESS_HALF_LIFE_HOURS = 24
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * スコア計算に使う投稿の情報
+ */
+export interface ForYouCandidate {
+  id: string
+  createdAt: Date
+  likeCount: number
+  commentCount: number
+  quoteCount: number
+  genreIds: string[]
+  /** 投稿者の居住地域（全員に公開している場合のみ。非公開の場合は null） */
+  authorLocation: string | null
+}
+
+/**
+ * おすすめ順での位置を決める値
+ *
+ * おすすめフィードのカーソルとして、前のページの最後の投稿の値を使います。
+ */
+export interface ForYouRankKey {
+  id: string
+  createdAt: Date
+  /** おすすめスコア */
+  score: number
+}
+
+/**
+ * スコア計算に使う閲覧者の情報
+ */
+export interface ForYouViewer {
+  /** ジャンルIDごとの好み（0〜1） */
+  genreAffinity: Map<string, number>
+  /** 閲覧者の居住地域 */
+  location: string | null
+}
+
+// ============================================================
+// 閲覧者の情報の作成
+// ============================================================
+
+/**
+ * ジャンルの出現回数から好みを作成
+ *
+ * 最も多いジャンルを 1 として正規化します。
+ *
+ * @param genreIds - 閲覧者が投稿・いいねした投稿のジャンルID（重複あり）
+ * @returns ジャンルIDごとの好み（0〜1）
+ */
+export function buildGenreAffinity(genreIds: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const genreId of genreIds) {
+    counts.set(genreId, (counts.get(genreId) ?? 0) + 1)
+  }
+
+  const max = Math.max(0, ...counts.values())
+  const affinity = new Map<string, number>()
+  for (const [genreId, count] of counts) {
+    affinity.set(genreId, count / max)
+  }
+  return affinity
+}
+
+// ============================================================
+// スコアの要素
+// ============================================================
+
+/**
+ * 反応のスコアを計算
+ *
+ * 反応の多い投稿ばかりが上位に固まらないよう、対数で頭打ちにします。
+ *
+ * @param candidate - 投稿の情報
+ * @returns 反応のスコア（0以上）
+ */
+export function engagementScore(candidate: ForYouCandidate): number {
+  const weighted =
+    candidate.likeCount * ENGAGEMENT_WEIGHTS.like +
+    candidate.commentCount * ENGAGEMENT_WEIGHTS.comment +
+    candidate.quoteCount * ENGAGEMENT_WEIGHTS.quote
+  return Math.log1p(weighted)
+}
+
+/**
+ * ジャンルの好みのスコアを計算
+ *
+ * 投稿のジャンルのうち、閲覧者の好みが最も高いものを採用します。
+ *
+ * @param candidate - 投稿の情報
+ * @param viewer - 閲覧者の情報
+ * @returns ジャンルの好みのスコア（0〜1）
+ */
+export function genreScore(candidate: ForYouCandidate, viewer: ForYouViewer): number {
+  let best = 0
+  for (const genreId of candidate.genreIds) {
+    best = Math.max(best, viewer.genreAffinity.get(genreId) ?? 0)
+  }
+  return best
+}
+
+/**
+ * 地域の近さのスコアを計算
+ *
+ * - 同じ都道府県: 1
+ * - 同じ地方: 0.5
+ * - それ以外・不明: 0
+ *
+ * @param candidate - 投稿の情報
+ * @param viewer - 閲覧者の情報
+ * @returns 地域の近さのスコア（0〜1）
+ */
+export function regionScore(candidate: ForYouCandidate, viewer: ForYouViewer): number {
+  if (!candidate.authorLocation || !viewer.location) {
+    return 0
+  }
+
+  const authorPrefecture = extractPrefecture(candidate.authorLocation)
+  const viewerPrefecture = extractPrefecture(viewer.location)
+  if (!authorPrefecture || !viewerPrefecture) {
+    return 0
+  }
+
+  if (authorPrefecture === viewerPrefecture) {
+    return 1
+  }
+
+  const authorRegion = getRegionByPrefecture(authorPrefecture)
+  const viewerRegion = getRegionByPrefecture(viewerPrefecture)
+  return authorRegion && authorRegion.id === viewerRegion?.id ? 0.5 : 0
+}
+
+/**
+ * 新しさの係数を計算
+ *
+ * 投稿直後を 1 とし、FRESHNESS_HALF_LIFE_HOURS ごとに半分になります。
+ *
+ * @param candidate - 投稿の情報
+ * @param now - 現在時刻
+ * @returns 新しさの係数（0〜1）
+ */
+export function freshnessFactor(candidate: ForYouCandidate, now: Date): number {
+  const ageHours = Math.max(0, now.getTime() - candidate.createdAt.getTime()) / (60 * 60 * 1000)
+  return Math.pow(0.5, ageHours / FRESHNESS_HALF_LIFE_HOURS)
+}
+
+// ============================================================
+// スコア計算と並べ替え
+// ============================================================
+
+/**
+ * 投稿のおすすめスコアを計算
+ *
+ * @param candidate - 投稿の情報
+ * @param viewer - 閲覧者の情報
+ * @param now - 現在時刻
+ * @returns おすすめスコア
+ */
+export function scoreForYouCandidate(
+  candidate: ForYouCandidate,
+  viewer: ForYouViewer,
+  now: Date
+): number {
+  const base =
+    1 +
+    FOR_YOU_WEIGHTS.engagement * engagementScore(candidate) +
+    FOR_YOU_WEIGHTS.genre * genreScore(candidate, viewer) +
+    FOR_YOU_WEIGHTS.region * regionScore(candidate, viewer)
+  return base * freshnessFactor(candidate, now)
+}
+
+/**
+ * おすすめ順で2つの投稿を比較
+ *
+ * スコアの高い順、スコアが同じ場合は新しい順、さらに同じ場合はIDの降順です。
+ *
+ * @param a - 比較する投稿
+ * @param b - 比較する投稿
+ * @returns a が先なら負の数、b が先なら正の数、同じ位置なら 0
+ */
+export function compareForYouRank(a: ForYouRankKey, b: ForYouRankKey): number {
+  return (
+    b.score - a.score ||
+    b.createdAt.getTime() - a.createdAt.getTime() ||
+    (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+  )
+}
+
+/**
+ * 投稿をおすすめスコアの高い順に並べ替え
+ *
+ * 並び順は compareForYouRank のとおりで、同じ入力に対して常に同じ順序になります。
+ *
+ * @param candidates - 並べ替える投稿
+ * @param viewer - 閲覧者の情報
+ * @param now - 現在時刻
+ * @returns スコアを付けて並べ替えた新しい配列
+ */
+export function rankForYouCandidates<T extends ForYouCandidate>(
+  candidates: T[],
+  viewer: ForYouViewer,
+  now: Date
+): Array<T & { score: number }> {
+  return candidates
+    .map((candidate) => ({ ...candidate, score: scoreForYouCandidate(candidate, viewer, now) }))
+    .sort(compareForYouRank)
+}
@@ -60,6 +60,7 @@ import logger from '@/lib/logger'
  * - get: キーに対応する値を取得
  * - set: キーと値をセット（TTL指定可能）
  * - del: キーを削除
+ * - getdel: 値を取得して削除（1回限りのトークンに使用）
  * - incr: 値をインクリメント（1増やす）
  * - expire: 有効期限を設定
  * - ttl: 残りの有効期限を取得
@@ -86,6 +87,14 @@ interface RedisLikeStore {
    */
   del(key: string): Promise<void>
 
+  /**
+   * 値を取得して同時に削除
+   * 同じ値を2回取得できないため、1回限りのトークンに使用する
+   * @param key - 取得するキー
+   * @returns 値（存在しない場合はnull）
+   */
+  getdel(key: string): Promise<string | null>
+
   /**
    * 値を1増やす（カウンターに使用）
    * @param key - インクリメントするキー
@@ -204,6 +213,18 @@ class InMemoryStore implements RedisLikeStore {
     this.store.delete(key)
   }
 
+  /**
+   * 値を取得して削除
+   *
+   * 取得と削除の間に await を挟まないため、同じ値を2回返すことはない
+   */
+  async getdel(key: string): Promise<string | null> {
+    const entry = this.store.get(key)
+    this.store.delete(key)
+    if (!entry || (entry.expiresAt && entry.expiresAt < Date.now())) return null
+    return entry.value
+  }
+
   /**
    * 値をインクリメント
    *
@@ -315,6 +336,15 @@ class UpstashRedisStore implements RedisLikeStore {
     await this.client.del(key)
   }
 
+  /**
+   * 値を取得して削除（GETDELコマンド）
+   *
+   * 取得と削除をアトミックに行う
+   */
+  async getdel(key: string): Promise<string | null> {
+    return await this.client.getdel<string>(key)
+  }
+
   /**
    * 値をインクリメント（INCRコマンド）
    * キーが存在しない場合は0から開始
@@ -0,0 +1,289 @@
+/**
+ * 保存した検索の新着判定
+ *
+ * このファイルは、保存した検索に一致する新しい投稿を探し、
+ * アプリ内通知またはメールのまとめで知らせる処理を提供します。
+ * 処理は定期ジョブから実行されます。
+ * - app/api/cron/check-saved-searches: 通知方法「すぐに通知」の検索（15分ごと）
+ * - app/api/cron/saved-search-digest: 通知方法「1日1回メールでまとめて」の検索（毎朝）
+ *
+ * ## 新着の判定
+ * 検索ごとに lastCheckedAt を記録し、前回の判定より後に投稿されたものを新着とみなす。
+ * 検索は通常の投稿検索と同じ lib/search/fulltext の fulltextSearchPosts で行うため、
+ * 検索モード（bigm/trgm/like）によらず検索ページと同じ結果になります。
+ *
+ * ## 除外する投稿
+ * - 自分の投稿
+ * - ブロック（双方向）・ミュート・一時停止中のユーザーの投稿
+ * - 保存したユーザーが閲覧できない公開範囲の投稿
+ *
+ * @module lib/saved-search
+ */
+
+import { prisma } from '@/lib/db'
+import { sendSavedSearchDigestEmail } from '@/lib/email'
+import { fulltextSearchPosts } from '@/lib/search/fulltext'
+import { getExcludedUserIds } from '@/lib/actions/filter-helper'
+import { buildSavedSearchUrl, formatSavedSearchLabel } from '@/lib/constants/saved-search'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 1回の実行で処理する検索の上限
+ */
+export const SAVED_SEARCH_BATCH_SIZE = 200
+
+/**
+ * 1回の判定で取得する新着投稿の上限
+ *
+ * 通知・メールでは件数と一部の投稿のみを示すため、全件は数えない
+ */
+export const SAVED_SEARCH_MATCH_LIMIT = 20
+
+/**
+ * まとめメールで検索ごとに抜粋を載せる投稿数
+ */
+export const DIGEST_POSTS_PER_SEARCH = 3
+
+/**
+ * まとめメールに載せる本文の抜粋の文字数
+ */
+const EXCERPT_LENGTH = 80
+
+/**
+ * 対象ユーザーの条件
+ *
+ * 利用停止中・一時停止中のユーザーの検索は判定しない
+ */
+const activeUserWhere = { isSuspended: false, deactivatedAt: null }
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * 新着判定に使う保存した検索
+ */
+export type SavedSearchTarget = {
+  id: string
+  userId: string
+  query: string
+  genreIds: string[]
+  hashtag: string | null
+  lastCheckedAt: Date
+}
+
+// ============================================================
+// 新着判定
+// ============================================================
+
+/**
+ * 保存した検索に一致する新着投稿を取得
+ *
+ * @param search - 保存した検索
+ * @param until - この日時以前の投稿までを対象にする（判定の実行日時）
+ * @returns 新着投稿のIDの配列（最大 SAVED_SEARCH_MATCH_LIMIT 件）
+ */
+export async function findNewSavedSearchMatches(search: SavedSearchTarget, until: Date): Promise<string[]> {
+  const excludedUserIds = await getExcludedUserIds(search.userId, {
+    blocked: true,
+    blockedBy: true,
+    muted: true,
+    deactivated: true,
+  })
+
+  return fulltextSearchPosts(search.query, {
+    excludedUserIds: [...excludedUserIds, search.userId],
+    viewerId: search.userId,
+    genreIds: search.genreIds,
+    hashtag: search.hashtag ?? undefined,
+    createdAfter: search.lastCheckedAt,
+    createdBefore: until,
+    limit: SAVED_SEARCH_MATCH_LIMIT,
+  })
+}
+
+// ============================================================
+// アプリ内通知（すぐに通知）
+// ============================================================
+
+/**
+ * 「すぐに通知」の保存した検索の新着をアプリ内通知で知らせる
+ *
+ * 新着があった検索ごとに、最新の投稿を示す通知を1件作成します。
+ *
+ * @param now - 判定の実行日時
+ * @returns 判定した検索数と作成した通知数
+ */
+export async function notifySavedSearchMatches(now: Date): Promise<{ checkedCount: number; notifiedCount: number }> {
+  const searches = await prisma.savedSearch.findMany({
+    where: {
+      notifyMode: 'instant',
+      lastCheckedAt: { lt: now },
+      user: activeUserWhere,
+    },
+    orderBy: { lastCheckedAt: 'asc' },
+    take: SAVED_SEARCH_BATCH_SIZE,
+  })
+
+  if (searches.length === 0) {
+    return { checkedCount: 0, notifiedCount: 0 }
+  }
+
+  const notifications: { userId: string; actorId: string; type: string; postId: string; savedSearchId: string }[] = []
+
+  for (const search of searches) {
+    const postIds = await findNewSavedSearchMatches(search, now)
+    if (postIds.length === 0) continue
+
+    // 全文検索は関連度順の場合があるため、最新の投稿を改めて取得
+    const latest = await prisma.post.findFirst({
+      where: { id: { in: postIds } },
+      select: { id: true, userId: true },
+      orderBy: { createdAt: 'desc' },
+    })
+    if (!latest) continue
+
+    notifications.push({
+      userId: search.userId,
+      actorId: latest.userId,
+      type: 'saved_search',
+      postId: latest.id,
+      savedSearchId: search.id,
+    })
+  }
+
+  if (notifications.length > 0) {
+    await prisma.notification.createMany({ data: notifications })
+  }
+
+  await prisma.savedSearch.updateMany({
+    where: { id: { in: searches.map((s: typeof searches[number]) => s.id) } },
+    data: { lastCheckedAt: now },
+  })
+
+  return { checkedCount: searches.length, notifiedCount: notifications.length }
+}
+
+// ============================================================
+// メールのまとめ（1日1回）
+// ============================================================
+
+/**
+ * 「1日1回メールでまとめて」の保存した検索の新着をメールで知らせる
+ *
+ * 新着があった検索をユーザーごとにまとめ、1通のメールで送信します。
+ *
+ * @param now - 判定の実行日時
+ * @returns 判定した検索数と送信結果
+ */
+export async function sendSavedSearchDigests(
+  now: Date
+): Promise<{ checkedCount: number; emailsSent: number; emailsFailed: number }> {
+  const searches = await prisma.savedSearch.findMany({
+    where: {
+      notifyMode: 'daily',
+      lastCheckedAt: { lt: now },
+      user: activeUserWhere,
+    },
+    include: {
+      user: { select: { email: true, nickname: true } },
+    },
+    orderBy: { lastCheckedAt: 'asc' },
+    take: SAVED_SEARCH_BATCH_SIZE,
+  })
+
+  if (searches.length === 0) {
+    return { checkedCount: 0, emailsSent: 0, emailsFailed: 0 }
+  }
+
+  type DigestTarget = typeof searches[number]
+  type DigestSearch = Parameters<typeof sendSavedSearchDigestEmail>[2][number]
+
+  // 表示名に使うジャンル名をまとめて取得
+  const genreIds = Array.from(new Set(searches.flatMap((s: DigestTarget) => s.genreIds)))
+  const genres = genreIds.length > 0
+    ? await prisma.genre.findMany({
+        where: { id: { in: genreIds } },
+        select: { id: true, name: true },
+      })
+    : []
+  const genreNames = new Map<string, string>(genres.map((g: { id: string; name: string }) => [g.id, g.name]))
+
+  // 新着があった検索をユーザーごとにまとめる
+  const digests = new Map<string, { email: string; nickname: string; searches: DigestSearch[] }>()
+
+  for (const search of searches) {
+    const postIds = await findNewSavedSearchMatches(search, now)
+    if (postIds.length === 0) continue
+
+    const posts = await prisma.post.findMany({
+      where: { id: { in: postIds } },
+      select: {
+        id: true,
+        content: true,
+        user: { select: { nickname: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: DIGEST_POSTS_PER_SEARCH,
+    })
+
+    const digest = digests.get(search.userId) ?? {
+      email: search.user.email,
+      nickname: search.user.nickname,
+      searches: [],
+    }
+    digest.searches.push({
+      label: formatSavedSearchLabel(
+        search,
+        search.genreIds.map((id: string) => genreNames.get(id)).filter((name: string | undefined): name is string => !!name)
+      ),
+      path: buildSavedSearchUrl(search),
+      count: postIds.length,
+      hasMore: postIds.length >= SAVED_SEARCH_MATCH_LIMIT,
+      posts: posts.map((post: typeof posts[number]) => ({
+        id: post.id,
+        authorName: post.user.nickname,
+        excerpt: toExcerpt(post.content),
+      })),
+    })
+    digests.set(search.userId, digest)
+  }
+
+  const emailResults = await Promise.allSettled(
+    Array.from(digests.values()).map((digest) =>
+      sendSavedSearchDigestEmail(digest.email, digest.nickname, digest.searches)
+    )
+  )
+
+  await prisma.savedSearch.updateMany({
+    where: { id: { in: searches.map((s: DigestTarget) => s.id) } },
+    data: { lastCheckedAt: now },
+  })
+
+  const emailsSent = emailResults.filter(
+    (r: PromiseSettledResult<{ success: boolean }>): r is PromiseFulfilledResult<{ success: boolean }> => r.status === 'fulfilled' && r.value.success
+  ).length
+
+  return {
+    checkedCount: searches.length,
+    emailsSent,
+    emailsFailed: emailResults.length - emailsSent,
+  }
+}
+
+/**
+ * 投稿の本文からメールに載せる抜粋を作成
+ *
+ * @param content - 投稿の本文
+ * @returns 改行を詰めて EXCERPT_LENGTH 文字に切り詰めた抜粋
+ */
+function toExcerpt(content: string | null): string {
+  const text = (content ?? '').replace(/\s+/g, ' ').trim()
+  if (!text) {
+    return '（画像のみの投稿）'
+  }
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text
+}
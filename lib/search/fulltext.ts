@@ -69,6 +69,13 @@ import { Prisma } from '@prisma/client'
  */
 import logger from '@/lib/logger'
 
+/**
+ * 検索クエリの解析
+ *
+ * キーワード・フレーズ・除外キーワードと from: などの絞り込み条件に分解する。
+ */
+import { hasSearchFilters, hasSearchKeywords, parseSearchQuery, type ParsedSearchQuery } from '@/lib/search/query-parser'
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -358,20 +365,213 @@ export async function createSearchIndexes(): Promise<{ success: boolean; message
 // 投稿検索
 // ============================================================
 
+/**
+ * 閲覧者が見られる投稿に絞り込むSQL条件を作成
+ *
+ * lib/privacy の buildVisiblePostWhere と同じ条件を生のSQLで表現します。
+ * 全体公開の投稿、本人の投稿、フォロー中のユーザーのフォロワー限定投稿、
+ * 相互フォローのユーザーの相互フォロー限定投稿、親しい友達リストに含まれている
+ * ユーザーの親しい友達限定投稿に絞り込みます。
+ *
+ * @param viewerId - 閲覧者のユーザーID（未ログインの場合は省略）
+ * @returns `AND (...)` から始まるSQL断片
+ */
+function visiblePostCondition(viewerId?: string): Prisma.Sql {
+  if (!viewerId) {
+    return Prisma.sql`AND p.audience = 'public'`
+  }
+
+  return Prisma.sql`
+    AND (
+      p.audience = 'public'
+      OR p.user_id = ${viewerId}
+      OR (p.audience = 'followers' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = ${viewerId} AND f.following_id = p.user_id
+      ))
+      OR (p.audience = 'mutuals' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = ${viewerId} AND f.following_id = p.user_id
+      ) AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = p.user_id AND f.following_id = ${viewerId}
+      ))
+      OR (p.audience = 'close_friends' AND EXISTS (
+        SELECT 1 FROM close_friends cf
+        WHERE cf.user_id = p.user_id AND cf.friend_id = ${viewerId}
+      ))
+    )
+  `
+}
+
+/**
+ * ハッシュタグ・投稿日時で絞り込むSQL条件を作成
+ *
+ * 保存した検索の新着判定（lib/saved-search）で使用します。
+ * ハッシュタグは本文の部分一致ではなく post_hashtags で判定します。
+ *
+ * @param hashtag - #を除いたハッシュタグ
+ * @param createdAfter - この日時より後の投稿に絞り込む
+ * @param createdBefore - この日時以前の投稿に絞り込む
+ * @returns `AND ...` から始まるSQL断片（条件がない場合は空）
+ */
+function postFilterCondition(hashtag?: string, createdAfter?: Date, createdBefore?: Date): Prisma.Sql {
+  const conditions: Prisma.Sql[] = []
+
+  if (hashtag) {
+    conditions.push(Prisma.sql`
+      AND EXISTS (
+        SELECT 1 FROM post_hashtags ph
+        JOIN hashtags h ON h.id = ph.hashtag_id
+        WHERE ph.post_id = p.id AND h.name = ${hashtag.toLowerCase()}
+      )
+    `)
+  }
+  if (createdAfter) {
+    conditions.push(Prisma.sql`AND p.created_at > ${createdAfter}`)
+  }
+  if (createdBefore) {
+    conditions.push(Prisma.sql`AND p.created_at <= ${createdBefore}`)
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' ') : Prisma.empty
+}
+
+/**
+ * 検索クエリのキーワードのSQL条件を作成
+ *
+ * キーワードはすべて含む（AND）、フレーズは空白を含めてそのまま含む、
+ * 除外キーワードは含まない投稿に絞り込みます。
+ * 一致の判定は検索モードに合わせます。
+ * - bigm: LIKE（インデックスが効く）
+ * - trgm: キーワードは類似度（%）または ILIKE、フレーズ・除外は ILIKE
+ * - like: ILIKE
+ *
+ * @param parsedQuery - 解析した検索クエリ
+ * @param mode - 検索モード
+ * @returns `AND ...` から始まるSQL断片（条件がない場合は空）
+ */
+function keywordCondition(parsedQuery: ParsedSearchQuery, mode: SearchMode): Prisma.Sql {
+  const conditions: Prisma.Sql[] = []
+
+  /**
+   * LIKE のワイルドカード（% _）とエスケープ文字（\）をエスケープ
+   *
+   * 値はバインド変数として渡すため、SQLとしてのエスケープは不要。
+   * `100%` のような検索を、ワイルドカードではなく文字どおりに一致させる。
+   */
+  const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&')
+
+  for (const term of parsedQuery.terms) {
+    const pattern = escapeLike(term)
+    if (mode === 'bigm') {
+      conditions.push(Prisma.sql`AND p.content LIKE '%' || ${pattern} || '%'`)
+    } else if (mode === 'trgm') {
+      conditions.push(Prisma.sql`AND (p.content % ${term} OR p.content ILIKE '%' || ${pattern} || '%')`)
+    } else {
+      conditions.push(Prisma.sql`AND p.content ILIKE '%' || ${pattern} || '%'`)
+    }
+  }
+
+  for (const phrase of parsedQuery.phrases.map(escapeLike)) {
+    conditions.push(mode === 'bigm'
+      ? Prisma.sql`AND p.content LIKE '%' || ${phrase} || '%'`
+      : Prisma.sql`AND p.content ILIKE '%' || ${phrase} || '%'`)
+  }
+
+  // 本文のない投稿（画像のみ）は除外キーワードを含まない扱い
+  for (const term of parsedQuery.excludedTerms.map(escapeLike)) {
+    conditions.push(mode === 'bigm'
+      ? Prisma.sql`AND COALESCE(p.content, '') NOT LIKE '%' || ${term} || '%'`
+      : Prisma.sql`AND COALESCE(p.content, '') NOT ILIKE '%' || ${term} || '%'`)
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' ') : Prisma.empty
+}
+
+/**
+ * 検索クエリの絞り込み条件（from: や has: など）のSQL条件を作成
+ *
+ * 検索モードによらず同じ条件です。
+ * 投稿者の居住地域は、居住地域を全員に公開しているユーザーのみ対象にします。
+ *
+ * @param parsedQuery - 解析した検索クエリ
+ * @returns `AND ...` から始まるSQL断片（条件がない場合は空）
+ */
+function searchFilterCondition(parsedQuery: ParsedSearchQuery): Prisma.Sql {
+  const { fromNickname, since, until, mediaTypes, minLikes, locations, species } = parsedQuery
+  const conditions: Prisma.Sql[] = []
+
+  if (fromNickname) {
+    conditions.push(Prisma.sql`
+      AND EXISTS (
+        SELECT 1 FROM users u
+        WHERE u.id = p.user_id AND lower(u.nickname) = lower(${fromNickname})
+      )
+    `)
+  }
+  if (since) {
+    conditions.push(Prisma.sql`AND p.created_at >= ${since}`)
+  }
+  if (until) {
+    conditions.push(Prisma.sql`AND p.created_at < ${until}`)
+  }
+  for (const mediaType of mediaTypes) {
+    conditions.push(Prisma.sql`
+      AND EXISTS (
+        SELECT 1 FROM post_media pm
+        WHERE pm.post_id = p.id AND pm.type = ${mediaType}
+      )
+    `)
+  }
+  if (minLikes !== null) {
+    conditions.push(Prisma.sql`AND (SELECT COUNT(*) FROM likes l WHERE l.post_id = p.id) >= ${minLikes}`)
+  }
+  if (locations.length > 0) {
+    conditions.push(Prisma.sql`
+      AND EXISTS (
+        SELECT 1 FROM users u
+        WHERE u.id = p.user_id
+        AND u.location_visibility = 'everyone'
+        AND u.location IN (${Prisma.join(locations)})
+      )
+    `)
+  }
+  if (species) {
+    conditions.push(Prisma.sql`
+      AND EXISTS (
+        SELECT 1 FROM bonsais b
+        LEFT JOIN bonsai_species s ON s.id = b.species_id
+        WHERE b.id = p.bonsai_id
+        AND (b.species = ${species} OR s.name = ${species} OR s.slug = ${species} OR ${species} = ANY(s.aliases))
+      )
+    `)
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' ') : Prisma.empty
+}
+
 /**
  * 全文検索クエリを実行（投稿検索）
  *
  * ## 機能概要
  * 投稿の本文を全文検索し、マッチする投稿のIDを返します。
+ * 検索クエリは lib/search/query-parser で解析し、
+ * フレーズ・除外キーワード・from: などの演算子も条件に含めます。
  *
  * ## パラメータ
- * @param query - 検索クエリ文字列
+ * @param query - 検索クエリ文字列（演算子を含められる）
  * @param options - 検索オプション
  *   - excludedUserIds: 除外するユーザーIDの配列（ブロック/ミュート用）
+ *   - viewerId: 閲覧者のユーザーID（投稿の公開範囲の判定用）
  *   - genreIds: フィルタするジャンルIDの配列
+ *   - hashtag: フィルタするハッシュタグ（#を除く）
+ *   - createdAfter / createdBefore: 投稿日時の範囲
  *   - cursor: ページネーション用カーソル
  *   - limit: 取得件数（デフォルト: 20）
  *
+ * キーワードが空でも hashtag を指定した場合は、そのハッシュタグの投稿を返します。
+ *
  * ## 戻り値
  * @returns Promise<string[]> - マッチした投稿IDの配列
  *
@@ -411,7 +611,11 @@ export async function fulltextSearchPosts(
   query: string,
   options: {
     excludedUserIds?: string[]
+    viewerId?: string
     genreIds?: string[]
+    hashtag?: string
+    createdAfter?: Date
+    createdBefore?: Date
     cursor?: string
     limit?: number
   } = {}
@@ -419,23 +623,27 @@ export async function fulltextSearchPosts(
   /**
    * オプションのデフォルト値を設定
    */
-  const { excludedUserIds = [], genreIds = [], cursor, limit = 20 } = options
+  const { excludedUserIds = [], viewerId, genreIds = [], hashtag, createdAfter, createdBefore, cursor, limit = 20 } = options
   const mode = getSearchMode()
 
+  /**
+   * 検索クエリを解析
+   */
+  const parsedQuery = parseSearchQuery(query)
+
   /**
    * 空のクエリの場合は空配列を返す
+   *
+   * キーワード・絞り込み条件・ハッシュタグのいずれもない場合（除外キーワードのみを含む）
    */
-  if (!query || query.trim() === '') {
+  if (!hasSearchKeywords(parsedQuery) && !hasSearchFilters(parsedQuery) && !hashtag) {
     return []
   }
 
   /**
-   * シングルクォートをエスケープ
-   *
-   * SQLインジェクション対策。
-   * 'を''に置換することでSQL内で安全に使用可能。
+   * 類似度の計算に使うキーワード（trgmモードの並べ替え用）
    */
-  const escapedQuery = query.replace(/'/g, "''")
+  const similarityText = [...parsedQuery.terms, ...parsedQuery.phrases].join(' ')
 
   try {
     let postIds: { id: string }[]
@@ -451,8 +659,9 @@ export async function fulltextSearchPosts(
         SELECT p.id
         FROM posts p
         WHERE p.is_hidden = false
-        AND p.content LIKE '%' || ${escapedQuery} || '%'
+        ${keywordCondition(parsedQuery, 'bigm')}
         ${excludedUserIds.length > 0 ? Prisma.sql`AND p.user_id NOT IN (${Prisma.join(excludedUserIds)})` : Prisma.empty}
+        ${visiblePostCondition(viewerId)}
         ${genreIds.length > 0 ? Prisma.sql`
           AND EXISTS (
             SELECT 1 FROM post_genres pg
@@ -460,6 +669,8 @@ export async function fulltextSearchPosts(
             AND pg.genre_id IN (${Prisma.join(genreIds)})
           )
         ` : Prisma.empty}
+        ${postFilterCondition(hashtag, createdAfter, createdBefore)}
+        ${searchFilterCondition(parsedQuery)}
         ${cursor ? Prisma.sql`AND p.id < ${cursor}` : Prisma.empty}
         ORDER BY p.created_at DESC
         LIMIT ${limit}
@@ -471,13 +682,15 @@ export async function fulltextSearchPosts(
        * %演算子: 類似度が閾値を超えるかチェック
        * similarity(): 0〜1の類似度スコアを計算
        * 類似度順でソートすることで関連性の高い結果を上位に
+       * （キーワードがない場合は新しい順）
        */
       postIds = await prisma.$queryRaw<{ id: string }[]>`
         SELECT p.id
         FROM posts p
         WHERE p.is_hidden = false
-        AND (p.content % ${escapedQuery} OR p.content ILIKE '%' || ${escapedQuery} || '%')
+        ${keywordCondition(parsedQuery, 'trgm')}
         ${excludedUserIds.length > 0 ? Prisma.sql`AND p.user_id NOT IN (${Prisma.join(excludedUserIds)})` : Prisma.empty}
+        ${visiblePostCondition(viewerId)}
         ${genreIds.length > 0 ? Prisma.sql`
           AND EXISTS (
             SELECT 1 FROM post_genres pg
@@ -485,8 +698,10 @@ export async function fulltextSearchPosts(
             AND pg.genre_id IN (${Prisma.join(genreIds)})
           )
         ` : Prisma.empty}
+        ${postFilterCondition(hashtag, createdAfter, createdBefore)}
+        ${searchFilterCondition(parsedQuery)}
         ${cursor ? Prisma.sql`AND p.id < ${cursor}` : Prisma.empty}
-        ORDER BY similarity(p.content, ${escapedQuery}) DESC, p.created_at DESC
+        ${similarityText ? Prisma.sql`ORDER BY similarity(p.content, ${similarityText}) DESC, p.created_at DESC` : Prisma.sql`ORDER BY p.created_at DESC`}
         LIMIT ${limit}
       `
     } else {
@@ -500,8 +715,9 @@ export async function fulltextSearchPosts(
         SELECT p.id
         FROM posts p
         WHERE p.is_hidden = false
-        AND p.content ILIKE '%' || ${escapedQuery} || '%'
+        ${keywordCondition(parsedQuery, 'like')}
         ${excludedUserIds.length > 0 ? Prisma.sql`AND p.user_id NOT IN (${Prisma.join(excludedUserIds)})` : Prisma.empty}
+        ${visiblePostCondition(viewerId)}
         ${genreIds.length > 0 ? Prisma.sql`
           AND EXISTS (
             SELECT 1 FROM post_genres pg
@@ -509,6 +725,8 @@ export async function fulltextSearchPosts(
             AND pg.genre_id IN (${Prisma.join(genreIds)})
           )
         ` : Prisma.empty}
+        ${postFilterCondition(hashtag, createdAfter, createdBefore)}
+        ${searchFilterCondition(parsedQuery)}
         ${cursor ? Prisma.sql`AND p.id < ${cursor}` : Prisma.empty}
         ORDER BY p.created_at DESC
         LIMIT ${limit}
@@ -546,20 +764,25 @@ async function fulltextSearchPostsWithLike(
   query: string,
   options: {
     excludedUserIds?: string[]
+    viewerId?: string
     genreIds?: string[]
+    hashtag?: string
+    createdAfter?: Date
+    createdBefore?: Date
     cursor?: string
     limit?: number
   } = {}
 ): Promise<string[]> {
-  const { excludedUserIds = [], genreIds = [], cursor, limit = 20 } = options
-  const escapedQuery = query.replace(/'/g, "''")
+  const { excludedUserIds = [], viewerId, genreIds = [], hashtag, createdAfter, createdBefore, cursor, limit = 20 } = options
+  const parsedQuery = parseSearchQuery(query)
 
   const postIds = await prisma.$queryRaw<{ id: string }[]>`
     SELECT p.id
     FROM posts p
     WHERE p.is_hidden = false
-    AND p.content ILIKE '%' || ${escapedQuery} || '%'
+    ${keywordCondition(parsedQuery, 'like')}
     ${excludedUserIds.length > 0 ? Prisma.sql`AND p.user_id NOT IN (${Prisma.join(excludedUserIds)})` : Prisma.empty}
+    ${visiblePostCondition(viewerId)}
     ${genreIds.length > 0 ? Prisma.sql`
       AND EXISTS (
         SELECT 1 FROM post_genres pg
@@ -567,6 +790,8 @@ async function fulltextSearchPostsWithLike(
         AND pg.genre_id IN (${Prisma.join(genreIds)})
       )
     ` : Prisma.empty}
+    ${postFilterCondition(hashtag, createdAfter, createdBefore)}
+    ${searchFilterCondition(parsedQuery)}
     ${cursor ? Prisma.sql`AND p.id < ${cursor}` : Prisma.empty}
     ORDER BY p.created_at DESC
     LIMIT ${limit}
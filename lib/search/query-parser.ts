@@ -0,0 +1,317 @@
+/**
+ * 投稿検索クエリの解析
+ *
+ * このファイルは、検索ボックスに入力された文字列を
+ * キーワードと絞り込み条件に分解する処理を提供します。
+ * 解析結果は lib/search/fulltext の fulltextSearchPosts が
+ * 検索モード（bigm/trgm/like）ごとのSQL条件に変換します。
+ *
+ * ## 対応する書式
+ * | 書式 | 意味 |
+ * |------|------|
+ * | `黒松 剪定` | すべてのキーワードを含む（AND） |
+ * | `"寒樹 黒松"` | 空白を含めてそのまま含む（完全一致のフレーズ） |
+ * | `-販売` / `-"苗木 販売"` | 含まない |
+ * | `from:@ニックネーム` | 指定したユーザーの投稿 |
+ * | `since:2026-01-01` / `until:2026-03-31` | 投稿日の範囲（その日を含む、日本時間） |
+ * | `has:image` / `has:video` | 画像・動画付きの投稿 |
+ * | `min_likes:10` | いいねが指定数以上の投稿 |
+ * | `region:関東` / `pref:東京都` | 投稿者の居住地域（地方・都道府県） |
+ * | `species:黒松` | 指定した樹種の盆栽に紐づく投稿 |
+ *
+ * 演算子の値が正しくない場合（`since:昨日` など）は、通常のキーワードとして扱います。
+ * 同じ演算子を複数指定した場合は、後に指定したものを優先します（has: を除く）。
+ *
+ * Server Actions とクライアントコンポーネントの両方から使用するため、
+ * 'use server' を付けない通常のモジュールとして定義しています。
+ *
+ * @module lib/search/query-parser
+ */
+
+import { PREFECTURES, REGIONS, type Region } from '@/lib/constants/prefectures'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * has: で指定できるメディアの種類（PostMedia.type と同じ値）
+ */
+export type SearchMediaType = 'image' | 'video'
+
+/**
+ * 解析した検索クエリ
+ *
+ * @property terms - 含むキーワード（AND）
+ * @property phrases - 完全一致で含むフレーズ
+ * @property excludedTerms - 含まないキーワード・フレーズ
+ * @property fromNickname - 投稿者のニックネーム
+ * @property since - この日時以降の投稿
+ * @property until - この日時より前の投稿（指定日の翌日0時）
+ * @property mediaTypes - 添付されているメディアの種類（すべて満たす）
+ * @property minLikes - いいね数の下限
+ * @property locations - 投稿者の居住地域として一致させる値
+ * @property species - 樹種（和名・別名・スラッグ・盆栽の樹種の記述）
+ */
+export type ParsedSearchQuery = {
+  terms: string[]
+  phrases: string[]
+  excludedTerms: string[]
+  fromNickname: string | null
+  since: Date | null
+  until: Date | null
+  mediaTypes: SearchMediaType[]
+  minLikes: number | null
+  locations: string[]
+  species: string | null
+}
+
+// ============================================================
+// 演算子の一覧
+// ============================================================
+
+/**
+ * 検索演算子の一覧（検索ページのヘルプ表示用）
+ */
+export const SEARCH_OPERATORS = [
+  { syntax: '"寒樹 黒松"', description: '完全一致のフレーズを含む' },
+  { syntax: '-販売', description: 'キーワードを含まない' },
+  { syntax: 'from:@ニックネーム', description: '指定したユーザーの投稿' },
+  { syntax: 'since:2026-01-01', description: '指定日以降の投稿' },
+  { syntax: 'until:2026-03-31', description: '指定日までの投稿' },
+  { syntax: 'has:image / has:video', description: '画像・動画付きの投稿' },
+  { syntax: 'min_likes:10', description: 'いいねが指定数以上の投稿' },
+  { syntax: 'region:関東 / pref:東京都', description: '投稿者の居住地域（公開している場合のみ）' },
+  { syntax: 'species:黒松', description: '指定した樹種の盆栽に紐づく投稿' },
+] as const
+
+/**
+ * 日本時間の時差（ミリ秒）
+ *
+ * since: / until: の日付は日本時間の0時を境にする
+ */
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000
+
+/**
+ * 1日のミリ秒
+ */
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 検索クエリを字句に分割する正規表現
+ *
+ * - 1: 先頭の -（除外）
+ * - 2: 演算子名（`from:` の `from`）
+ * - 3: 引用符で囲まれた値（閉じ引用符は省略可）
+ * - 4: 空白までの値
+ */
+const TOKEN_PATTERN = /(-)?(?:([a-z_]+):)?(?:["“]([^"”]*)["”]?|(\S+))/gi
+
+// ============================================================
+// 解析
+// ============================================================
+
+/**
+ * 検索クエリを解析
+ *
+ * @param input - 検索ボックスに入力された文字列
+ * @returns 解析した検索クエリ
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('黒松 -販売 from:@盆栽太郎 has:image')
+ * // => { terms: ['黒松'], excludedTerms: ['販売'], fromNickname: '盆栽太郎', mediaTypes: ['image'], ... }
+ * ```
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    fromNickname: null,
+    since: null,
+    until: null,
+    mediaTypes: [],
+    minLikes: null,
+    locations: [],
+    species: null,
+  }
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negated, operator, quoted, bare] = match
+    const value = (quoted ?? bare ?? '').trim()
+
+    if (operator && !negated && value && applyOperator(parsed, operator.toLowerCase(), value)) {
+      continue
+    }
+
+    // 演算子として解釈できない字句はキーワードとして扱う
+    if (negated) {
+      const term = (operator ? raw.slice(1) : value).replace(/["“”]/g, '')
+      if (term) parsed.excludedTerms.push(term)
+    } else if (quoted !== undefined && !operator) {
+      if (value) parsed.phrases.push(value)
+    } else {
+      const term = raw.replace(/["“”]/g, '')
+      if (term) parsed.terms.push(term)
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * 演算子を解析結果に反映
+ *
+ * @param parsed - 解析結果（直接更新する）
+ * @param operator - 小文字の演算子名
+ * @param value - 演算子の値
+ * @returns 演算子として解釈できた場合は true
+ */
+function applyOperator(parsed: ParsedSearchQuery, operator: string, value: string): boolean {
+  switch (operator) {
+    case 'from': {
+      const nickname = value.replace(/^@/, '')
+      if (!nickname) return false
+      parsed.fromNickname = nickname
+      return true
+    }
+    case 'since': {
+      const date = parseJstDate(value)
+      if (!date) return false
+      parsed.since = date
+      return true
+    }
+    case 'until': {
+      const date = parseJstDate(value)
+      if (!date) return false
+      parsed.until = new Date(date.getTime() + DAY_MS)
+      return true
+    }
+    case 'has': {
+      const mediaType = value.toLowerCase()
+      if (mediaType !== 'image' && mediaType !== 'video') return false
+      if (!parsed.mediaTypes.includes(mediaType)) parsed.mediaTypes.push(mediaType)
+      return true
+    }
+    case 'min_likes': {
+      // 桁の大きすぎる値は SQL の比較でエラーになるため、演算子として扱わない
+      const minLikes = Number(value)
+      if (!/^\d+$/.test(value) || !Number.isSafeInteger(minLikes)) return false
+      parsed.minLikes = minLikes
+      return true
+    }
+    case 'region':
+      parsed.locations = resolveRegion(value)
+      return true
+    case 'pref':
+      parsed.locations = [resolvePrefecture(value)]
+      return true
+    case 'species':
+      parsed.species = value
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * 日付の文字列を日本時間の0時として解析
+ *
+ * @param value - `2026-01-01` または `2026/1/1` 形式の日付
+ * @returns 日本時間の0時を表す日時（存在しない日付の場合は null）
+ */
+function parseJstDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/)
+  if (!match) return null
+
+  const [year, month, day] = match.slice(1).map(Number)
+  const utc = new Date(Date.UTC(year, month - 1, day))
+  if (utc.getUTCFullYear() !== year || utc.getUTCMonth() !== month - 1 || utc.getUTCDate() !== day) {
+    return null
+  }
+
+  return new Date(utc.getTime() - JST_OFFSET_MS)
+}
+
+/**
+ * 地方名から居住地域として一致させる値を求める
+ *
+ * 居住地域には地方名（例: 関東）と都道府県名のどちらも設定できるため、
+ * 地方名とその地方の都道府県をすべて対象にする。
+ * 「九州」のように地方ブロックの一部の名前も受け付ける。
+ *
+ * @param value - 地方名
+ * @returns 居住地域の値の配列（未知の地方名はその値のみ）
+ */
+function resolveRegion(value: string): string[] {
+  const region = (Object.keys(REGIONS) as Region[]).find(
+    (name) => name === value || name.split('・').includes(value)
+  )
+  if (!region) {
+    return [value]
+  }
+
+  return Array.from(new Set([value, ...region.split('・'), ...REGIONS[region]]))
+}
+
+/**
+ * 都道府県名を正規化
+ *
+ * 「東京」「大阪」のように都府県を省略した名前も受け付ける。
+ *
+ * @param value - 都道府県名
+ * @returns 正規化した都道府県名（未知の名前はその値）
+ */
+function resolvePrefecture(value: string): string {
+  return PREFECTURES.find((name) => name === value || name.replace(/[都府県]$/, '') === value) ?? value
+}
+
+// ============================================================
+// 判定
+// ============================================================
+
+/**
+ * 含むキーワード・フレーズがあるか判定
+ *
+ * @param parsed - 解析した検索クエリ
+ */
+export function hasSearchKeywords(parsed: ParsedSearchQuery): boolean {
+  return parsed.terms.length > 0 || parsed.phrases.length > 0
+}
+
+/**
+ * キーワード以外の絞り込み条件があるか判定
+ *
+ * 除外キーワードは絞り込み条件に含めない（除外のみでは検索しない）。
+ *
+ * @param parsed - 解析した検索クエリ
+ */
+export function hasSearchFilters(parsed: ParsedSearchQuery): boolean {
+  return (
+    parsed.fromNickname !== null ||
+    parsed.since !== null ||
+    parsed.until !== null ||
+    parsed.mediaTypes.length > 0 ||
+    parsed.minLikes !== null ||
+    parsed.locations.length > 0 ||
+    parsed.species !== null
+  )
+}
+
+/**
+ * キーワード1つだけの単純な検索か判定
+ *
+ * LIKE検索モードでは、単純な検索は従来どおり Prisma の部分一致で検索し、
+ * それ以外は fulltextSearchPosts で検索する。
+ *
+ * @param parsed - 解析した検索クエリ
+ */
+export function isPlainKeywordQuery(parsed: ParsedSearchQuery): boolean {
+  return (
+    parsed.terms.length <= 1 &&
+    parsed.phrases.length === 0 &&
+    parsed.excludedTerms.length === 0 &&
+    !hasSearchFilters(parsed)
+  )
+}
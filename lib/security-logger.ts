@@ -23,9 +23,15 @@
  * - 影響範囲の調査
  * - 原因分析
  *
+ * ## データベースへの保存
+ * コンソール出力に加えて、すべてのイベントを SecurityEvent テーブルに保存します。
+ * ログのローテーション後も、管理画面のセキュリティログ（/admin/logs/security）で
+ * ユーザー・IPアドレスごとに調査できます。
+ * 保存期間を過ぎたイベントはCronジョブが削除します（lib/constants/security-events）。
+ *
  * ## 本番環境での推奨事項
- * 現在はコンソール出力ですが、本番環境では以下のサービスへの
- * 連携を推奨します：
+ * 本番環境では、コンソール出力を以下のサービスへ
+ * 連携することを推奨します：
  * - AWS CloudWatch Logs
  * - Datadog
  * - Splunk
@@ -34,6 +40,10 @@
  * @module lib/security-logger
  */
 
+import type { Prisma } from '@prisma/client'
+import { after } from 'next/server'
+import { prisma } from '@/lib/db'
+
 // ============================================================
 // 型定義
 // ============================================================
@@ -54,6 +64,9 @@
  * - PASSWORD_RESET_REQUEST: パスワードリセット要求
  * - PASSWORD_RESET_SUCCESS: パスワードリセット完了
  *
+ * ### 2段階認証関連
+ * - TWO_FACTOR_CHANGE: 2段階認証の有効化・無効化・バックアップコードの再生成
+ *
  * ### アクセス関連
  * - ADMIN_ACTION: 管理者による操作
  * - SUSPICIOUS_ACTIVITY: 不審なアクティビティ
@@ -69,6 +82,7 @@ type SecurityEventType =
   | 'REGISTER_FAILURE'
   | 'PASSWORD_RESET_REQUEST'
   | 'PASSWORD_RESET_SUCCESS'
+  | 'TWO_FACTOR_CHANGE'
   | 'ADMIN_ACTION'
   | 'SUSPICIOUS_ACTIVITY'
   | 'RATE_LIMIT_EXCEEDED'
@@ -150,6 +164,51 @@ function formatLogEntry(entry: SecurityLogEntry): string {
   })
 }
 
+/**
+ * ログをデータベースに保存する
+ *
+ * ## 機能概要
+ * ログエントリを SecurityEvent テーブルに保存します。
+ *
+ * ## パラメータ
+ * @param entry - セキュリティログエントリ
+ * @param email - ユーザーの特定に使うメールアドレス（ログイン失敗など、userId がない場合）
+ *
+ * ## ユーザーの特定
+ * ログイン失敗・ロック・パスワードリセット要求はメールアドレスしか分からないため、
+ * 登録済みのメールアドレスであればユーザーIDを補って保存します。
+ * メールアドレスそのものはマスキングしたものだけを details に残します。
+ *
+ * ## エラー処理
+ * 保存に失敗してもコンソールに出力するだけで、例外は投げません。
+ */
+async function persistLog(entry: SecurityLogEntry, email?: string): Promise<void> {
+  try {
+    let userId = entry.userId
+    if (!userId && email) {
+      const user = await prisma.user.findUnique({
+        where: { email },
+        select: { id: true },
+      })
+      userId = user?.id
+    }
+
+    await prisma.securityEvent.create({
+      data: {
+        type: entry.type,
+        severity: entry.severity,
+        userId,
+        ip: entry.ip,
+        userAgent: entry.userAgent,
+        details: entry.details as Prisma.InputJsonValue | undefined,
+        createdAt: new Date(entry.timestamp),
+      },
+    })
+  } catch (error) {
+    console.error('[SECURITY] Failed to persist security event:', error)
+  }
+}
+
 /**
  * ログを出力する内部関数
  *
@@ -168,13 +227,24 @@ function formatLogEntry(entry: SecurityLogEntry): string {
  * セキュリティログであることを明示するプレフィックス。
  * ログ検索やフィルタリング時に役立ちます。
  *
+ * ## データベースへの保存
+ * レスポンスの送信後に persistLog でデータベースに保存します（next/server の after）。
+ * そのため、リクエストの処理中（Server Action・Route Handler・Server Component）から呼び出します。
+ * email はユーザーの特定にのみ使い、コンソールには出力しません。
+ *
  * ## 本番環境での拡張
  * ここでログ管理サービスへの送信を追加することで、
  * 集中管理されたログ基盤に連携できます。
  */
-function writeLog(entry: SecurityLogEntry): void {
+function writeLog(entry: SecurityLogEntry, email?: string): void {
   const formatted = formatLogEntry(entry)
 
+  /**
+   * データベースへの保存はレスポンスの送信後に行う（ログの記録で元の処理を遅らせない）
+   * after に登録することで、サーバーレス環境でも保存が終わるまで処理が打ち切られない
+   */
+  after(() => persistLog(entry, email))
+
   /**
    * 重大度に応じてログレベルを変更
    *
@@ -263,7 +333,7 @@ export function logLoginFailure(email: string, ip?: string, reason?: string): vo
     ip,
     details: { email: maskEmail(email), reason },
     severity: 'medium',
-  })
+  }, email)
 }
 
 /**
@@ -290,7 +360,7 @@ export function logLoginLockout(email: string, ip?: string): void {
     ip,
     details: { email: maskEmail(email) },
     severity: 'high',
-  })
+  }, email)
 }
 
 /**
@@ -560,7 +630,7 @@ export function logPasswordResetRequest(email: string, ip?: string): void {
     ip,
     details: { email: maskEmail(email) },
     severity: 'low',
-  })
+  }, email)
 }
 
 /**
@@ -586,6 +656,40 @@ export function logPasswordResetSuccess(userId: string, ip?: string): void {
   })
 }
 
+// ============================================================
+// 2段階認証関連ログ関数
+// ============================================================
+
+/**
+ * 2段階認証の変更を記録
+ *
+ * ## 機能概要
+ * 2段階認証の有効化・無効化と、バックアップコードの再生成を記録します。
+ *
+ * ## パラメータ
+ * @param userId - 変更したユーザーのID
+ * @param change - 変更の内容
+ * @param ip - クライアントのIPアドレス（オプション）
+ *
+ * ## 重大度
+ * - 無効化: high（乗っ取り後に無効化される可能性があるため、警告レベル）
+ * - それ以外: medium（認証情報の変更のため、注意レベル）
+ */
+export function logTwoFactorChange(
+  userId: string,
+  change: 'enabled' | 'disabled' | 'backup_codes_regenerated',
+  ip?: string
+): void {
+  writeLog({
+    timestamp: new Date().toISOString(),
+    type: 'TWO_FACTOR_CHANGE',
+    userId,
+    ip,
+    details: { change },
+    severity: change === 'disabled' ? 'high' : 'medium',
+  })
+}
+
 // ============================================================
 // プライバシー保護ヘルパー関数
 // ============================================================
@@ -0,0 +1,525 @@
+/**
+ * データのエクスポート（アカウントデータのZIP作成）サービス
+ *
+ * このファイルは、ユーザーのデータをJSONと元のメディアファイルにまとめた
+ * ZIPアーカイブを作成する処理を提供します。
+ * Cronジョブ（/api/cron/process-data-exports）から呼び出されます。
+ *
+ * ## パートの分割
+ * 長年の成長記録などメディアが多いと、1つのZIPにまとめるとメモリと実行時間が足りなくなるため、
+ * ZIPを複数のパートに分けて、Cronジョブの1回の実行で1パートずつ作成します。
+ * - パート1: README.txt と JSON（buildDataExportDataPart）
+ * - パート2以降: メディアを DATA_EXPORT_PART_MAX_BYTES ごと（buildDataExportMediaPart）
+ *
+ * パート1の作成時に取得するメディアの一覧を決め、進み具合（DataExportProgress）として
+ * DataExport.progress に保存します。すべてのパートを同じフォルダに展開すると、
+ * JSON内のパスとメディアのファイルが揃います。
+ *
+ * ## ZIPの構成（すべてのパートを展開した状態）
+ * ```
+ * README.txt            # 構成の説明
+ * profile.json          # プロフィール
+ * posts.json            # 投稿（リポスト・引用を含む）
+ * comments.json         # コメント
+ * likes.json            # いいね
+ * bookmarks.json        # ブックマーク
+ * follows.json          # フォロー・フォロワー
+ * bonsais.json          # 盆栽と成長記録・お手入れ予定
+ * drafts.json           # 下書き
+ * scheduled_posts.json  # 予約投稿
+ * messages.json         # DM（参加している会話のメッセージ）
+ * reviews.json          # 盆栽園のレビュー
+ * payments.json         # 支払い履歴
+ * media/...             # 画像・動画の元ファイル（パート2以降）
+ * missing_media.json    # 取得できなかったメディア（最後のパート）
+ * ```
+ *
+ * JSON内のメディアは { url, file } の形で、file はZIP内のパス。
+ * ストレージの公開URL以外のメディアは file が null になる。
+ *
+ * @module lib/services/data-export
+ */
+
+import path from 'path'
+import { prisma } from '@/lib/db'
+import { downloadFile, getStorageKey } from '@/lib/storage'
+import { createZip, type ZipEntry } from '@/lib/zip'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * メディアを同時に取得する数
+ */
+const MEDIA_DOWNLOAD_CONCURRENCY = 5
+
+/**
+ * 1パートに格納するメディアの合計サイズの目安（バイト）
+ *
+ * 取得したメディアとZIPをメモリ上に持つため、実行環境のメモリに収まる大きさにする。
+ * 上限を超えた時点で次のパートに回すため、最大で同時取得数分のファイルだけ超えることがある。
+ */
+export const DATA_EXPORT_PART_MAX_BYTES = 200 * 1024 * 1024
+
+/**
+ * 1パートに格納するメディアの数の上限
+ * 小さなファイルが多い場合に、1回の実行時間に収めるため
+ */
+export const DATA_EXPORT_PART_MAX_FILES = 1000
+
+/**
+ * ZIPに同梱する説明文
+ */
+const README = `BON-LOG データのエクスポート
+
+このアーカイブには、BON-LOGのあなたのデータが含まれています。
+
+profile.json          プロフィール
+posts.json            投稿（リポスト・引用を含む）
+comments.json         コメント
+likes.json            いいね
+bookmarks.json        ブックマーク
+follows.json          フォロー・フォロワー
+bonsais.json          盆栽と成長記録・お手入れ予定
+drafts.json           下書き
+scheduled_posts.json  予約投稿
+messages.json         ダイレクトメッセージ
+reviews.json          盆栽園のレビュー
+payments.json         支払い履歴
+media/                画像・動画の元ファイル
+missing_media.json    エクスポート時に取得できなかったメディア
+
+データが多い場合は、ZIPを複数のパートに分けています。
+すべてのパートを同じフォルダに展開してください（パート1にJSON、パート2以降にメディアが含まれます）。
+
+JSON内のメディアは url（元のURL）と file（展開したフォルダ内のパス）で表しています。
+file が null のメディアは、BON-LOG以外に保存されているため含めていないものです。
+日時はすべて UTC（ISO 8601 形式）です。
+`
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * JSONに含めるメディアの参照
+ *
+ * ストレージの公開URL以外（外部URLなど）は取得せず、file は null になる。
+ */
+interface MediaRef {
+  url: string
+  file: string | null
+  [key: string]: unknown
+}
+
+/**
+ * パート2以降に格納するメディア
+ *
+ * @property url - メディアのURL
+ * @property file - ZIP内のパス
+ */
+export interface DataExportMediaFile {
+  url: string
+  file: string
+}
+
+/**
+ * エクスポートの作成の進み具合（DataExport.progress に保存する）
+ *
+ * @property media - 格納するメディア（パート1の作成時に確定）
+ * @property cursor - 次に取得するメディアの位置
+ * @property missing - 取得できなかったメディア
+ */
+export interface DataExportProgress {
+  media: DataExportMediaFile[]
+  cursor: number
+  missing: DataExportMediaFile[]
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * URLからファイルの拡張子を取得
+ *
+ * @param url - メディアのURL
+ * @returns 拡張子（例: ".jpg"）、判定できない場合は空文字
+ */
+function getMediaExtension(url: string): string {
+  try {
+    const ext = path.extname(new URL(url, 'http://localhost').pathname).toLowerCase()
+    return /^\.[a-z0-9]{1,5}$/.test(ext) ? ext : ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * メディアの参照を集めるコレクター
+ *
+ * JSONの組み立て中に ref() でメディアを登録し、
+ * files() でパート2以降に格納するメディアの一覧を取り出す。
+ */
+function createMediaCollector() {
+  const files: DataExportMediaFile[] = []
+
+  return {
+    /**
+     * メディアを登録し、JSONに含める参照を返す
+     *
+     * @param url - メディアのURL
+     * @param dir - ZIP内の保存先ディレクトリ（media/ 以下）
+     * @param name - 拡張子を除いたファイル名
+     * @param fields - 参照に含める項目（メディアの種類など）
+     */
+    ref(url: string, dir: string, name: string | number, fields: Record<string, unknown> = {}): MediaRef {
+      const file = getStorageKey(url) ? `media/${dir}/${name}${getMediaExtension(url)}` : null
+      if (file) {
+        files.push({ url, file })
+      }
+      return { ...fields, url, file }
+    },
+
+    /**
+     * 登録したメディアのうち、ストレージから取得するものの一覧
+     */
+    files(): DataExportMediaFile[] {
+      return files
+    },
+  }
+}
+
+/**
+ * JSONファイルのエントリを作成
+ */
+function jsonEntry(filePath: string, data: unknown): ZipEntry {
+  return { path: filePath, data: JSON.stringify(data, null, 2) }
+}
+
+// ============================================================
+// エクスポート関数
+// ============================================================
+
+/**
+ * ユーザーのデータをJSONにまとめたパート1のZIPを作成する
+ *
+ * パスワードハッシュ・2段階認証のシークレットなど認証情報は含めない。
+ * メディアは含めず、パート2以降に格納するメディアの一覧を返す。
+ *
+ * @param userId - ユーザーID
+ * @returns ZIPアーカイブのバイナリと、パート2以降に格納するメディア
+ * @throws ユーザーが存在しない場合
+ */
+export async function buildDataExportDataPart(
+  userId: string
+): Promise<{ archive: Buffer; media: DataExportMediaFile[] }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      emailVerified: true,
+      nickname: true,
+      avatarUrl: true,
+      headerUrl: true,
+      bio: true,
+      location: true,
+      bonsaiStartYear: true,
+      bonsaiStartMonth: true,
+      birthDate: true,
+      isPublic: true,
+      isPremium: true,
+      premiumExpiresAt: true,
+      twoFactorEnabled: true,
+      createdAt: true,
+    },
+  })
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  const [
+    posts,
+    comments,
+    likes,
+    bookmarks,
+    following,
+    followers,
+    bonsais,
+    drafts,
+    scheduledPosts,
+    conversations,
+    reviews,
+    payments,
+  ] = await Promise.all([
+    prisma.post.findMany({
+      where: { userId },
+      include: {
+        media: { orderBy: { sortOrder: 'asc' } },
+        genres: { include: { genre: { select: { name: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.comment.findMany({
+      where: { userId },
+      include: { media: { orderBy: { sortOrder: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.like.findMany({
+      where: { userId },
+      select: { postId: true, commentId: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.bookmark.findMany({
+      where: { userId },
+      select: { postId: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.follow.findMany({
+      where: { followerId: userId },
+      select: { createdAt: true, following: { select: { id: true, nickname: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.follow.findMany({
+      where: { followingId: userId },
+      select: { createdAt: true, follower: { select: { id: true, nickname: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.bonsai.findMany({
+      where: { userId },
+      include: {
+        catalogSpecies: { select: { name: true, scientificName: true } },
+        records: {
+          include: { images: { orderBy: { sortOrder: 'asc' } } },
+          orderBy: { recordAt: 'asc' },
+        },
+        careTasks: { orderBy: { dueAt: 'asc' } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.draftPost.findMany({
+      where: { userId },
+      include: {
+        media: { orderBy: { sortOrder: 'asc' } },
+        genres: { include: { genre: { select: { name: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.scheduledPost.findMany({
+      where: { userId },
+      include: {
+        media: { orderBy: { sortOrder: 'asc' } },
+        genres: { include: { genre: { select: { name: true } } } },
+      },
+      orderBy: { scheduledAt: 'asc' },
+    }),
+    prisma.conversation.findMany({
+      where: { participants: { some: { userId } } },
+      include: {
+        participants: { select: { user: { select: { id: true, nickname: true } } } },
+        messages: {
+          include: {
+            sender: { select: { id: true, nickname: true } },
+            media: { orderBy: { sortOrder: 'asc' } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.shopReview.findMany({
+      where: { userId },
+      include: {
+        shop: { select: { id: true, name: true } },
+        images: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.payment.findMany({
+      where: { userId },
+      select: { amount: true, currency: true, status: true, description: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ])
+
+  const media = createMediaCollector()
+
+  const { avatarUrl, headerUrl, ...profileFields } = user
+  const profile = {
+    ...profileFields,
+    avatar: avatarUrl ? media.ref(avatarUrl, 'profile', 'avatar') : null,
+    header: headerUrl ? media.ref(headerUrl, 'profile', 'header') : null,
+  }
+
+  const files = {
+    'profile.json': profile,
+    'posts.json': posts.map((post) => ({
+      id: post.id,
+      content: post.content,
+      bonsaiId: post.bonsaiId,
+      quotePostId: post.quotePostId,
+      repostPostId: post.repostPostId,
+      genres: post.genres.map((g) => g.genre.name),
+      media: post.media.map((m, i) => media.ref(m.url, `posts/${post.id}`, i + 1, { type: m.type })),
+      isHidden: post.isHidden,
+      createdAt: post.createdAt,
+    })),
+    'comments.json': comments.map((comment) => ({
+      id: comment.id,
+      postId: comment.postId,
+      parentId: comment.parentId,
+      content: comment.content,
+      media: comment.media.map((m, i) => media.ref(m.url, `comments/${comment.id}`, i + 1, { type: m.type })),
+      createdAt: comment.createdAt,
+    })),
+    'likes.json': likes,
+    'bookmarks.json': bookmarks,
+    'follows.json': {
+      following: following.map((f) => ({ ...f.following, followedAt: f.createdAt })),
+      followers: followers.map((f) => ({ ...f.follower, followedAt: f.createdAt })),
+    },
+    'bonsais.json': bonsais.map((bonsai) => ({
+      id: bonsai.id,
+      name: bonsai.name,
+      species: bonsai.species,
+      catalogSpecies: bonsai.catalogSpecies,
+      acquiredAt: bonsai.acquiredAt,
+      description: bonsai.description,
+      createdAt: bonsai.createdAt,
+      records: bonsai.records.map((record) => ({
+        id: record.id,
+        type: record.type,
+        content: record.content,
+        recordAt: record.recordAt,
+        soilMix: record.soilMix,
+        potSize: record.potSize,
+        wireGauge: record.wireGauge,
+        fertilizerProduct: record.fertilizerProduct,
+        fertilizerAmount: record.fertilizerAmount,
+        treatmentChemical: record.treatmentChemical,
+        heightCm: record.heightCm,
+        trunkDiameterCm: record.trunkDiameterCm,
+        nebariWidthCm: record.nebariWidthCm,
+        images: record.images.map((image, i) =>
+          media.ref(image.url, `bonsais/${bonsai.id}/${record.id}`, i + 1)
+        ),
+        createdAt: record.createdAt,
+      })),
+      careTasks: bonsai.careTasks.map((task) => ({
+        type: task.type,
+        note: task.note,
+        intervalDays: task.intervalDays,
+        dueAt: task.dueAt,
+        isActive: task.isActive,
+        lastCompletedAt: task.lastCompletedAt,
+      })),
+    })),
+    'drafts.json': drafts.map((draft) => ({
+      id: draft.id,
+      content: draft.content,
+      genres: draft.genres.map((g) => g.genre.name),
+      media: draft.media.map((m, i) => media.ref(m.url, `drafts/${draft.id}`, i + 1, { type: m.type })),
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+    })),
+    'scheduled_posts.json': scheduledPosts.map((scheduled) => ({
+      id: scheduled.id,
+      content: scheduled.content,
+      scheduledAt: scheduled.scheduledAt,
+      status: scheduled.status,
+      publishedPostId: scheduled.publishedPostId,
+      genres: scheduled.genres.map((g) => g.genre.name),
+      media: scheduled.media.map((m, i) =>
+        media.ref(m.url, `scheduled_posts/${scheduled.id}`, i + 1, { type: m.type })
+      ),
+      createdAt: scheduled.createdAt,
+    })),
+    'messages.json': conversations.map((conversation) => ({
+      id: conversation.id,
+      isGroup: conversation.isGroup,
+      title: conversation.title,
+      participants: conversation.participants.map((p) => p.user),
+      messages: conversation.messages.map((message) => ({
+        id: message.id,
+        sender: message.sender,
+        type: message.type,
+        content: message.content,
+        sharedPostId: message.sharedPostId,
+        media: message.media.map((m, i) => media.ref(m.url, `messages/${message.id}`, i + 1, { type: m.type })),
+        createdAt: message.createdAt,
+      })),
+    })),
+    'reviews.json': reviews.map((review) => ({
+      id: review.id,
+      shop: review.shop,
+      rating: review.rating,
+      content: review.content,
+      images: review.images.map((image, i) => media.ref(image.url, `reviews/${review.id}`, i + 1)),
+      createdAt: review.createdAt,
+    })),
+    'payments.json': payments,
+  }
+
+  const archive = createZip([
+    { path: 'README.txt', data: README },
+    ...Object.entries(files).map(([filePath, data]) => jsonEntry(filePath, data)),
+  ])
+
+  return { archive, media: media.files() }
+}
+
+/**
+ * 次のメディアを取得してパート2以降のZIPを作成する
+ *
+ * progress.cursor の位置から、合計サイズが DATA_EXPORT_PART_MAX_BYTES を超えるか
+ * DATA_EXPORT_PART_MAX_FILES 件に達するまで取得する。
+ * 最後のパートには、取得できなかったメディアの一覧（missing_media.json）を含める。
+ *
+ * @param progress - 作成の進み具合
+ * @returns ZIPアーカイブのバイナリ、更新した進み具合、すべてのメディアを格納したか
+ */
+export async function buildDataExportMediaPart(
+  progress: DataExportProgress
+): Promise<{ archive: Buffer; progress: DataExportProgress; done: boolean }> {
+  const entries: ZipEntry[] = []
+  const missing = [...progress.missing]
+  let cursor = progress.cursor
+  let totalBytes = 0
+  let fileCount = 0
+
+  while (
+    cursor < progress.media.length &&
+    totalBytes < DATA_EXPORT_PART_MAX_BYTES &&
+    fileCount < DATA_EXPORT_PART_MAX_FILES
+  ) {
+    const batch = progress.media.slice(
+      cursor,
+      cursor + Math.min(MEDIA_DOWNLOAD_CONCURRENCY, DATA_EXPORT_PART_MAX_FILES - fileCount)
+    )
+    const downloaded = await Promise.all(batch.map((media) => downloadFile(media.url)))
+    batch.forEach((media, index) => {
+      const data = downloaded[index]
+      if (data) {
+        entries.push({ path: media.file, data, compress: false })
+        totalBytes += data.length
+      } else {
+        missing.push(media)
+      }
+    })
+    cursor += batch.length
+    fileCount += batch.length
+  }
+
+  const done = cursor >= progress.media.length
+  if (done) {
+    entries.push(jsonEntry('missing_media.json', missing))
+  }
+
+  return {
+    archive: createZip(entries),
+    progress: { media: progress.media, cursor, missing },
+    done,
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * ソーシャルログイン（OAuth/OIDC）
+ *
+ * このファイルは、LINE・Google・Apple・任意の OIDC プロバイダーによる
+ * ログインの設定と、サインイン時のチェックを提供します。
+ * lib/auth.ts の providers・adapter・signIn コールバックから使用します。
+ *
+ * ## プロバイダーの有効化
+ * 環境変数にクライアントIDとシークレットを設定したプロバイダーだけが有効になります。
+ *
+ * | プロバイダー | 環境変数 |
+ * |------------|---------|
+ * | LINE | AUTH_LINE_ID, AUTH_LINE_SECRET |
+ * | Google | AUTH_GOOGLE_ID, AUTH_GOOGLE_SECRET |
+ * | Apple | AUTH_APPLE_ID, AUTH_APPLE_SECRET |
+ * | OIDC | AUTH_OIDC_ISSUER, AUTH_OIDC_ID, AUTH_OIDC_SECRET, AUTH_OIDC_NAME（表示名・任意） |
+ *
+ * OIDC は開発時にローカルのモックOIDCサーバーで動作確認するためにも使えます。
+ * （例: AUTH_OIDC_ISSUER="http://localhost:8080/default"）
+ *
+ * ## 既存アカウントとの連携
+ * - ログイン中に連携した場合は、ログイン中のアカウントに連携する
+ * - 未ログインで、同じメールアドレスのアカウントがある場合は、
+ *   プロバイダーがメールアドレスを確認済み（email_verified）のときだけ自動で連携する
+ * - 確認されていない場合はパスワードでログインしてから連携してもらう
+ *
+ * ## サインイン時のチェック
+ * メール/パスワードでの登録・ログインと同じく、以下を確認します。
+ * - メールアドレスのブラックリスト
+ * - デバイスのブラックリスト（ログイン前にCookieへ保存したフィンガープリント）
+ * - アカウントの停止
+ *
+ * @module lib/social-login
+ */
+
+// ============================================================
+// インポート
+// ============================================================
+
+import type { Provider } from 'next-auth/providers'
+import type { AdapterUser } from 'next-auth/adapters'
+import Line from 'next-auth/providers/line'
+import Google from 'next-auth/providers/google'
+import Apple from 'next-auth/providers/apple'
+import { cookies } from 'next/headers'
+import { prisma } from '@/lib/db'
+import { sanitizeInput } from '@/lib/sanitize'
+import { isEmailBlacklisted, isDeviceBlacklisted } from '@/lib/actions/blacklist'
+import { isDeactivationExpired } from '@/lib/account-deactivation'
+import {
+  SOCIAL_PROVIDERS,
+  SOCIAL_LOGIN_DEVICE_COOKIE,
+  type SocialProviderOption,
+} from '@/lib/constants/social-login'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * ニックネームの最大文字数（プロフィール編集と同じ）
+ */
+const NICKNAME_MAX_LENGTH = 50
+
+// ============================================================
+// プロバイダー設定
+// ============================================================
+
+/**
+ * 有効なプロバイダーの設定を環境変数から読み込む
+ *
+ * @returns プロバイダーIDと設定のペア
+ */
+function getProviderCredentials() {
+  const env = process.env
+  return {
+    line: env.AUTH_LINE_ID && env.AUTH_LINE_SECRET
+      ? { clientId: env.AUTH_LINE_ID, clientSecret: env.AUTH_LINE_SECRET }
+      : null,
+    google: env.AUTH_GOOGLE_ID && env.AUTH_GOOGLE_SECRET
+      ? { clientId: env.AUTH_GOOGLE_ID, clientSecret: env.AUTH_GOOGLE_SECRET }
+      : null,
+    apple: env.AUTH_APPLE_ID && env.AUTH_APPLE_SECRET
+      ? { clientId: env.AUTH_APPLE_ID, clientSecret: env.AUTH_APPLE_SECRET }
+      : null,
+    oidc: env.AUTH_OIDC_ISSUER && env.AUTH_OIDC_ID && env.AUTH_OIDC_SECRET
+      ? { issuer: env.AUTH_OIDC_ISSUER, clientId: env.AUTH_OIDC_ID, clientSecret: env.AUTH_OIDC_SECRET }
+      : null,
+  }
+}
+
+/**
+ * 有効なプロバイダーの一覧を取得
+ *
+ * ログイン画面・セキュリティ設定のボタン表示に使用します。
+ *
+ * @returns 有効なプロバイダー（表示順）
+ */
+export function getEnabledSocialProviders(): SocialProviderOption[] {
+  const credentials = getProviderCredentials()
+  return SOCIAL_PROVIDERS
+    .filter((provider) => credentials[provider.id])
+    .map((provider) => ({
+      id: provider.id,
+      label: provider.id === 'oidc' ? process.env.AUTH_OIDC_NAME || provider.label : provider.label,
+    }))
+}
+
+/**
+ * Auth.js のプロバイダー設定を作成
+ *
+ * allowDangerousEmailAccountLinking を有効にしているが、
+ * 未確認のメールアドレスでの自動連携は checkSocialSignIn で拒否する。
+ *
+ * @returns 有効なプロバイダーの設定
+ */
+export function buildSocialProviders(): Provider[] {
+  const credentials = getProviderCredentials()
+  const providers: Provider[] = []
+
+  if (credentials.line) {
+    providers.push(Line({ ...credentials.line, allowDangerousEmailAccountLinking: true }))
+  }
+  if (credentials.google) {
+    providers.push(Google({ ...credentials.google, allowDangerousEmailAccountLinking: true }))
+  }
+  if (credentials.apple) {
+    providers.push(Apple({ ...credentials.apple, allowDangerousEmailAccountLinking: true }))
+  }
+  if (credentials.oidc) {
+    providers.push({
+      id: 'oidc',
+      name: process.env.AUTH_OIDC_NAME || 'OpenID Connect',
+      type: 'oidc',
+      ...credentials.oidc,
+      allowDangerousEmailAccountLinking: true,
+    })
+  }
+
+  return providers
+}
+
+// ============================================================
+// ユーザー作成
+// ============================================================
+
+/**
+ * プロバイダーの表示名からニックネームを作成
+ *
+ * 表示名がない場合はメールアドレスの@より前を使用します。
+ *
+ * @param name - プロバイダーの表示名
+ * @param email - メールアドレス
+ * @returns ニックネーム（50文字以内）
+ */
+export function toSocialNickname(name: string | null | undefined, email: string): string {
+  const nickname = sanitizeInput(name).trim() || email.split('@')[0]
+  return Array.from(nickname).slice(0, NICKNAME_MAX_LENGTH).join('')
+}
+
+/**
+ * ソーシャルログインで初めてログインしたユーザーを作成
+ *
+ * Prisma Adapter の createUser の代わりに使用します。
+ * User モデルは name/image ではなく nickname/avatarUrl を持つため変換する。
+ *
+ * @param user - プロバイダーのプロフィールから作られたユーザー
+ * @returns 作成したユーザー
+ */
+export async function createSocialUser(user: AdapterUser): Promise<AdapterUser> {
+  const created = await prisma.user.create({
+    data: {
+      email: user.email,
+      emailVerified: user.emailVerified,
+      nickname: toSocialNickname(user.name, user.email),
+      avatarUrl: user.image ?? null,
+    },
+  })
+
+  return {
+    id: created.id,
+    email: created.email,
+    emailVerified: created.emailVerified,
+    name: created.nickname,
+    image: created.avatarUrl,
+  }
+}
+
+// ============================================================
+// サインイン時のチェック
+// ============================================================
+
+/**
+ * プロバイダーがメールアドレスを確認済みか判定
+ *
+ * email_verified は真偽値または文字列（Apple）で返される。
+ *
+ * @param profile - プロバイダーのプロフィール
+ * @returns 確認済みなら true
+ */
+export function isProfileEmailVerified(profile: Record<string, unknown> | null | undefined): boolean {
+  const verified = profile?.email_verified
+  return verified === true || verified === 'true'
+}
+
+/**
+ * プロバイダーが確認済みのメールアドレスを、アカウントでも確認済みにする
+ *
+ * Auth.js はソーシャルログインで作成したユーザーの emailVerified を null にするため、
+ * サインイン後（events.signIn）にプロバイダーの email_verified を見て記録します。
+ * アカウントのメールアドレスと一致し、まだ確認されていない場合のみ更新する。
+ *
+ * @param userId - サインインしたユーザーID
+ * @param profile - プロバイダーのプロフィール
+ */
+export async function markSocialEmailVerified(
+  userId: string | undefined,
+  profile: Record<string, unknown> | null | undefined
+): Promise<void> {
+  const email = profile?.email
+  if (!userId || typeof email !== 'string' || !isProfileEmailVerified(profile)) {
+    return
+  }
+
+  await prisma.user.updateMany({
+    where: { id: userId, email, emailVerified: null },
+    data: { emailVerified: new Date() },
+  })
+}
+
+/**
+ * ソーシャルログインを許可するかチェック
+ *
+ * Auth.js の signIn コールバックから呼び出します。
+ * 拒否する場合はエラーコード付きのリダイレクト先を返します
+ * （ログイン中の連携は /settings/security、それ以外は /login）。
+ *
+ * @param params.provider - プロバイダーID
+ * @param params.providerAccountId - プロバイダー側のアカウントID
+ * @param params.email - プロバイダーから取得したメールアドレス
+ * @param params.emailVerified - プロバイダーがメールアドレスを確認済みか
+ * @param params.currentUserId - ログイン中のユーザーID（連携時）
+ * @returns 許可する場合は true、拒否する場合はリダイレクト先のURL
+ */
+export async function checkSocialSignIn(params: {
+  provider: string
+  providerAccountId: string
+  email: string | null | undefined
+  emailVerified: boolean
+  currentUserId: string | null | undefined
+}): Promise<true | string> {
+  const errorUrl = (code: string) =>
+    `${params.currentUserId ? '/settings/security' : '/login'}?error=${code}`
+
+  // ------------------------------------------------------------
+  // ブラックリスト
+  // ------------------------------------------------------------
+
+  const cookieStore = await cookies()
+  const fingerprint = cookieStore.get(SOCIAL_LOGIN_DEVICE_COOKIE)?.value
+  if (fingerprint && await isDeviceBlacklisted(fingerprint)) {
+    return errorUrl('DeviceBlocked')
+  }
+
+  if (params.email && await isEmailBlacklisted(params.email)) {
+    return errorUrl('EmailBlocked')
+  }
+
+  // ------------------------------------------------------------
+  // 連携済みのアカウント
+  // ------------------------------------------------------------
+
+  const linked = await prisma.account.findUnique({
+    where: {
+      provider_providerAccountId: {
+        provider: params.provider,
+        providerAccountId: params.providerAccountId,
+      },
+    },
+    select: { user: { select: { id: true, isSuspended: true, deactivatedAt: true } } },
+  })
+
+  if (params.currentUserId) {
+    // ログイン中の連携: 別のユーザーに連携済みのアカウントは連携できない
+    if (linked && linked.user.id !== params.currentUserId) {
+      return errorUrl('AccountAlreadyLinked')
+    }
+    return true
+  }
+
+  if (linked) {
+    if (linked.user.isSuspended) {
+      return errorUrl('AccountSuspended')
+    }
+    return isDeactivationExpired(linked.user.deactivatedAt) ? errorUrl('AccountDeactivationExpired') : true
+  }
+
+  // ------------------------------------------------------------
+  // 新規登録・メールアドレスでの自動連携
+  // ------------------------------------------------------------
+
+  if (!params.email) {
+    return errorUrl('EmailRequired')
+  }
+
+  const existing = await prisma.user.findUnique({
+    where: { email: params.email },
+    select: { isSuspended: true, deactivatedAt: true },
+  })
+
+  if (existing) {
+    if (existing.isSuspended) {
+      return errorUrl('AccountSuspended')
+    }
+    if (isDeactivationExpired(existing.deactivatedAt)) {
+      return errorUrl('AccountDeactivationExpired')
+    }
+    // 確認されていないメールアドレスでは既存のアカウントに連携しない
+    if (!params.emailVerified) {
+      return errorUrl('OAuthAccountNotLinked')
+    }
+  }
+
+  return true
+}
@@ -38,6 +38,17 @@
  * | supabase | Supabase Storage | STORAGE_PROVIDER=supabase |
  * | r2 | Cloudflare R2 | STORAGE_PROVIDER=r2 |
  *
+ * ## 非公開ファイル
+ * データのエクスポートなど本人だけがダウンロードできるファイルは、
+ * 公開URLを持たない非公開領域に保存し、期限付きの署名付きURLで配布します。
+ *
+ * | プロバイダー | 保存先 | 署名付きURL |
+ * |-------------|--------|-------------|
+ * | local | private-uploads ディレクトリ | /api/storage/private（HMAC署名） |
+ * | azure | 非公開コンテナ | SAS |
+ * | supabase | 非公開バケット | Signed URL API |
+ * | r2 | 非公開バケット | S3 署名付きURL |
+ *
  * @module lib/storage/index
  */
 
@@ -53,7 +64,7 @@
  * Node.js の fs/promises モジュールから非同期ファイル操作関数をインポート。
  * Promise ベースで async/await が使用可能。
  */
-import { mkdir, writeFile, unlink } from 'fs/promises'
+import { mkdir, writeFile, unlink, readFile } from 'fs/promises'
 
 /**
  * logger: 環境対応ロギングユーティリティ
@@ -125,6 +136,26 @@ export interface DeleteResult {
   error?: string
 }
 
+/**
+ * 非公開ファイルのアップロード結果の型
+ *
+ * 公開URLの代わりに、署名付きURLの発行・削除に使うキーを返す。
+ */
+export interface PrivateUploadResult {
+  success: boolean
+  key?: string
+  error?: string
+}
+
+/**
+ * 署名付きURLの発行結果の型
+ */
+export interface SignedUrlResult {
+  success: boolean
+  url?: string
+  error?: string
+}
+
 /**
  * ストレージプロバイダーのインターフェース
  *
@@ -142,6 +173,14 @@ export interface DeleteResult {
  * ## delete メソッド
  * @param url - 削除するファイルの公開URL
  *
+ * ## getKey メソッド
+ * 公開URLからファイルのキー（例: "avatars/xxx.jpg"）を取得する。
+ * このプロバイダーの公開URLでない場合や、".." を含む場合は null を返す。
+ *
+ * ## uploadPrivate / getSignedUrl / deletePrivate メソッド
+ * 非公開領域へのファイル保存、期限付きの署名付きURLの発行、削除。
+ * key は呼び出し側が決める保存先のパス（例: "exports/userId/xxx.zip"）。
+ *
  * ## 実装クラス
  * - LocalStorageProvider（開発環境）
  * - AzureBlobStorageProvider（Azure）
@@ -151,6 +190,10 @@ export interface DeleteResult {
 interface StorageProvider {
   upload(file: Buffer, filename: string, contentType: string, folder: string): Promise<UploadResult>
   delete(url: string): Promise<DeleteResult>
+  getKey(url: string): string | null
+  uploadPrivate(file: Buffer, key: string, contentType: string): Promise<PrivateUploadResult>
+  getSignedUrl(key: string, expiresInSeconds: number, downloadName: string): Promise<SignedUrlResult>
+  deletePrivate(key: string): Promise<DeleteResult>
 }
 
 // ============================================================
@@ -211,6 +254,57 @@ function getExtension(contentType: string): string {
   return map[contentType] || '.jpg'
 }
 
+/**
+ * ファイルのキーとして使える形式
+ *
+ * 英数字・ハイフン・アンダースコア・ドットからなるパスのみ許可し、
+ * ".." によるディレクトリの外への参照を防ぐ。
+ */
+const FILE_KEY_PATTERN = /^[\w-]+(\/[\w-][\w.-]*)*$/
+
+/**
+ * 非公開ファイルのキーを検証
+ *
+ * @param key - 非公開ファイルのキー
+ * @throws 不正な形式の場合
+ */
+function assertPrivateKey(key: string): void {
+  if (!FILE_KEY_PATTERN.test(key) || key.includes('..')) {
+    throw new Error('Invalid private file key')
+  }
+}
+
+/**
+ * 公開URLからファイルのキーを取得
+ *
+ * URLがベースURLで始まり、残りの部分がキーとして正しい形式の場合のみ返す。
+ * URLの解析（new URL）は ".." やエンコードされた文字を解決してしまうため、文字列のまま比較する。
+ *
+ * @param url - ファイルの公開URL
+ * @param baseUrl - プロバイダーの公開URLのベース（末尾は /）
+ * @returns ファイルのキー、または対象外のURLの場合は null
+ */
+function extractPublicKey(url: string, baseUrl: string): string | null {
+  if (typeof url !== 'string' || !url.startsWith(baseUrl)) return null
+
+  const key = url.slice(baseUrl.length)
+  if (!FILE_KEY_PATTERN.test(key) || key.includes('..')) return null
+  return key
+}
+
+/**
+ * ダウンロード時のファイル名を指定する Content-Disposition ヘッダーの値
+ *
+ * 日本語のファイル名にも対応するため RFC 5987 形式（filename*）を併記する。
+ *
+ * @param downloadName - ダウンロード時のファイル名
+ * @returns Content-Disposition ヘッダーの値
+ */
+export function buildContentDisposition(downloadName: string): string {
+  const asciiName = downloadName.replace(/[^\x20-\x7e]|"/g, '_')
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(downloadName)}`
+}
+
 // ============================================================
 // ローカルストレージプロバイダー（開発環境用）
 // ============================================================
@@ -254,6 +348,13 @@ class LocalStorageProvider implements StorageProvider {
    */
   private uploadDir: string
 
+  /**
+   * 非公開ファイルの保存先ディレクトリ
+   *
+   * public の外に置き、/api/storage/private の署名付きURL経由でのみ配信する。
+   */
+  private privateDir: string
+
   /**
    * コンストラクタ
    *
@@ -262,6 +363,7 @@ class LocalStorageProvider implements StorageProvider {
    */
   constructor() {
     this.uploadDir = path.join(process.cwd(), 'public', 'uploads')
+    this.privateDir = getLocalPrivateDir()
     logger.log('Storage provider initialized: local')
     logger.log('Upload directory:', this.uploadDir)
   }
@@ -356,11 +458,16 @@ class LocalStorageProvider implements StorageProvider {
        * URLからファイルパスを取得
        *
        * URL: /uploads/avatars/file.jpg
-       * → relativePath: avatars/file.jpg
+       * → key: avatars/file.jpg
        * → filePath: /path/to/public/uploads/avatars/file.jpg
+       *
+       * uploads ディレクトリの外を指すURLは削除しない
        */
-      const relativePath = url.replace('/uploads/', '')
-      const filePath = path.join(this.uploadDir, relativePath)
+      const key = this.getKey(url)
+      if (!key) {
+        throw new Error('Invalid local storage URL')
+      }
+      const filePath = path.join(this.uploadDir, key)
 
       /**
        * ファイル削除
@@ -383,6 +490,87 @@ class LocalStorageProvider implements StorageProvider {
       return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
     }
   }
+
+  /**
+   * 公開URL（/uploads/...）からファイルのキーを取得
+   */
+  getKey(url: string): string | null {
+    return extractPublicKey(url, '/uploads/')
+  }
+
+  /**
+   * 非公開ファイルを private-uploads ディレクトリに保存
+   */
+  async uploadPrivate(file: Buffer, key: string, _contentType: string): Promise<PrivateUploadResult> {
+    try {
+      assertPrivateKey(key)
+      const filePath = path.join(this.privateDir, key)
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(filePath, file)
+      logger.log('Local private upload success:', key)
+      return { success: true, key }
+    } catch (err) {
+      logger.error('Local private upload error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * /api/storage/private の署名付きURLを発行
+   *
+   * キー・有効期限・ファイル名を NEXTAUTH_SECRET で HMAC 署名する。
+   */
+  async getSignedUrl(key: string, expiresInSeconds: number, downloadName: string): Promise<SignedUrlResult> {
+    try {
+      assertPrivateKey(key)
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+      const params = new URLSearchParams({
+        key,
+        expires: String(expires),
+        name: downloadName,
+        signature: signLocalPrivateFile(key, expires, downloadName),
+      })
+      return { success: true, url: `/api/storage/private?${params.toString()}` }
+    } catch (err) {
+      logger.error('Local signed URL error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * 非公開ファイルを削除
+   */
+  async deletePrivate(key: string): Promise<DeleteResult> {
+    try {
+      assertPrivateKey(key)
+      await unlink(path.join(this.privateDir, key))
+      logger.log('Local private delete success:', key)
+      return { success: true }
+    } catch (err) {
+      logger.error('Local private delete error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+}
+
+/**
+ * ローカルの非公開ファイルの保存先ディレクトリ
+ */
+function getLocalPrivateDir(): string {
+  return path.join(process.cwd(), 'private-uploads')
+}
+
+/**
+ * ローカルの非公開ファイルの署名を作成
+ *
+ * @param key - 非公開ファイルのキー
+ * @param expires - 有効期限（UNIX秒）
+ * @param downloadName - ダウンロード時のファイル名
+ * @returns HMAC-SHA256 の16進数文字列
+ */
+function signLocalPrivateFile(key: string, expires: number, downloadName: string): string {
+  const secret = process.env.NEXTAUTH_SECRET || 'development-secret'
+  return crypto.createHmac('sha256', secret).update(`${key}:${expires}:${downloadName}`).digest('hex')
 }
 
 // ============================================================
@@ -423,6 +611,12 @@ class AzureBlobStorageProvider implements StorageProvider {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private containerClient: any
 
+  /**
+   * 非公開ファイル用のコンテナクライアント（匿名アクセスなし）
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private privateContainerClient: any
+
   /**
    * 初期化済みフラグ
    *
@@ -502,6 +696,9 @@ class AzureBlobStorageProvider implements StorageProvider {
      */
     const blobServiceClient = BlobServiceClient.fromConnectionString(connectionString)
     this.containerClient = blobServiceClient.getContainerClient(containerName)
+    this.privateContainerClient = blobServiceClient.getContainerClient(
+      process.env.AZURE_STORAGE_PRIVATE_CONTAINER_NAME || 'private'
+    )
 
     logger.log('Azure Blob Storage container:', containerName)
     this.initialized = true
@@ -588,25 +785,23 @@ class AzureBlobStorageProvider implements StorageProvider {
    * URL: https://account.blob.core.windows.net/container/folder/file.jpg
    * → Blob名: folder/file.jpg
    *
-   * pathname: /container/folder/file.jpg
-   * slice(2): ["folder", "file.jpg"]
-   * join('/'): "folder/file.jpg"
+   * 設定されたアカウント・コンテナ以外のURLは削除しない（getKey を参照）
    */
   async delete(url: string): Promise<DeleteResult> {
     try {
-      await this.ensureInitialized()
-
       /**
        * URLからBlob名を取得
        *
        * URL構造:
        * https://account.blob.core.windows.net/container/path/to/file.jpg
-       * pathname: /container/path/to/file.jpg
-       * split('/').slice(2): ['path', 'to', 'file.jpg']
-       * join('/'): 'path/to/file.jpg'
+       * → Blob名: 'path/to/file.jpg'
        */
-      const urlObj = new URL(url)
-      const blobName = urlObj.pathname.split('/').slice(2).join('/')
+      const blobName = this.getKey(url)
+      if (!blobName) {
+        throw new Error('Invalid Azure Blob URL')
+      }
+
+      await this.ensureInitialized()
 
       /**
        * Blobを削除
@@ -621,6 +816,84 @@ class AzureBlobStorageProvider implements StorageProvider {
       return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
     }
   }
+
+  /**
+   * 公開URLからBlob名を取得
+   *
+   * https://{アカウント名}.blob.core.windows.net/{コンテナ名}/ で始まるURLのみ対象
+   */
+  getKey(url: string): string | null {
+    const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME
+    if (!accountName) return null
+
+    const containerName = process.env.AZURE_STORAGE_CONTAINER_NAME || 'uploads'
+    return extractPublicKey(url, `https://${accountName}.blob.core.windows.net/${containerName}/`)
+  }
+
+  /**
+   * 非公開ファイルを非公開コンテナに保存
+   *
+   * コンテナは access を指定せずに作成するため、匿名アクセスはできない。
+   */
+  async uploadPrivate(file: Buffer, key: string, contentType: string): Promise<PrivateUploadResult> {
+    try {
+      assertPrivateKey(key)
+      await this.ensureInitialized()
+      await this.privateContainerClient.createIfNotExists()
+
+      const blockBlobClient = this.privateContainerClient.getBlockBlobClient(key)
+      await blockBlobClient.upload(file, file.length, {
+        blobHTTPHeaders: { blobContentType: contentType },
+      })
+
+      logger.log('Azure Blob private upload success:', key)
+      return { success: true, key }
+    } catch (err) {
+      logger.error('Azure Blob private upload error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * 読み取り専用の SAS（Shared Access Signature）付きURLを発行
+   *
+   * 接続文字列のアカウントキーで署名される。
+   */
+  async getSignedUrl(key: string, expiresInSeconds: number, downloadName: string): Promise<SignedUrlResult> {
+    try {
+      assertPrivateKey(key)
+      await this.ensureInitialized()
+      const { BlobSASPermissions } = await import('@azure/storage-blob')
+
+      const blockBlobClient = this.privateContainerClient.getBlockBlobClient(key)
+      const url = await blockBlobClient.generateSasUrl({
+        permissions: BlobSASPermissions.parse('r'),
+        expiresOn: new Date(Date.now() + expiresInSeconds * 1000),
+        contentDisposition: buildContentDisposition(downloadName),
+      })
+
+      return { success: true, url }
+    } catch (err) {
+      logger.error('Azure Blob signed URL error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * 非公開ファイルを削除
+   */
+  async deletePrivate(key: string): Promise<DeleteResult> {
+    try {
+      assertPrivateKey(key)
+      await this.ensureInitialized()
+      await this.privateContainerClient.getBlockBlobClient(key).delete()
+      logger.log('Azure Blob private delete success:', key)
+      return { success: true }
+    } catch (err) {
+      logger.error('Azure Blob private delete error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
 }
 
 // ============================================================
@@ -675,6 +948,11 @@ class SupabaseStorageProvider implements StorageProvider {
    */
   private bucket: string
 
+  /**
+   * 非公開ファイル用のバケット名（公開設定なしで作成しておく）
+   */
+  private privateBucket: string
+
   /**
    * コンストラクタ
    *
@@ -685,6 +963,7 @@ class SupabaseStorageProvider implements StorageProvider {
     this.supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
     this.supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
     this.bucket = process.env.SUPABASE_STORAGE_BUCKET || 'uploads'
+    this.privateBucket = process.env.SUPABASE_STORAGE_PRIVATE_BUCKET || 'private'
     logger.log('Storage provider initialized: supabase')
   }
 
@@ -790,16 +1069,13 @@ class SupabaseStorageProvider implements StorageProvider {
       /**
        * URLからパスを取得
        *
-       * 正規表現でURLからファイルパスを抽出:
-       * /storage/v1/object/public/bucket-name/path/to/file.jpg
-       * → pathMatch[1]: "path/to/file.jpg"
+       * {supabaseUrl}/storage/v1/object/public/bucket-name/path/to/file.jpg
+       * → filePath: "path/to/file.jpg"
        */
-      const urlObj = new URL(url)
-      const pathMatch = urlObj.pathname.match(/\/storage\/v1\/object\/public\/[^/]+\/(.+)/)
-      if (!pathMatch) {
+      const filePath = this.getKey(url)
+      if (!filePath) {
         throw new Error('Invalid Supabase storage URL')
       }
-      const filePath = pathMatch[1]
 
       /**
        * REST APIでファイルを削除
@@ -828,6 +1104,123 @@ class SupabaseStorageProvider implements StorageProvider {
       return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
     }
   }
+
+  /**
+   * 公開URLからファイルのパスを取得
+   *
+   * {supabaseUrl}/storage/v1/object/public/{バケット名}/ で始まるURLのみ対象
+   */
+  getKey(url: string): string | null {
+    if (!this.supabaseUrl) return null
+    return extractPublicKey(url, `${this.supabaseUrl}/storage/v1/object/public/${this.bucket}/`)
+  }
+
+  /**
+   * 非公開ファイルを非公開バケットに保存
+   */
+  async uploadPrivate(file: Buffer, key: string, contentType: string): Promise<PrivateUploadResult> {
+    try {
+      assertPrivateKey(key)
+      if (!this.supabaseUrl || !this.supabaseKey) {
+        throw new Error('Supabase credentials not configured')
+      }
+
+      const response = await fetch(
+        `${this.supabaseUrl}/storage/v1/object/${this.privateBucket}/${key}`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${this.supabaseKey}`,
+            'Content-Type': contentType,
+          },
+          body: new Uint8Array(file),
+        }
+      )
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Supabase private upload failed: ${error}`)
+      }
+
+      logger.log('Supabase private upload success:', key)
+      return { success: true, key }
+    } catch (err) {
+      logger.error('Supabase private upload error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * Signed URL API で署名付きURLを発行
+   *
+   * POST /storage/v1/object/sign/{bucket}/{path} が返す相対URLに
+   * download パラメータを付けてダウンロード時のファイル名を指定する。
+   */
+  async getSignedUrl(key: string, expiresInSeconds: number, downloadName: string): Promise<SignedUrlResult> {
+    try {
+      assertPrivateKey(key)
+      if (!this.supabaseUrl || !this.supabaseKey) {
+        throw new Error('Supabase credentials not configured')
+      }
+
+      const response = await fetch(
+        `${this.supabaseUrl}/storage/v1/object/sign/${this.privateBucket}/${key}`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${this.supabaseKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ expiresIn: expiresInSeconds }),
+        }
+      )
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Supabase sign failed: ${error}`)
+      }
+
+      const { signedURL } = (await response.json()) as { signedURL: string }
+      const url = `${this.supabaseUrl}/storage/v1${signedURL}&download=${encodeURIComponent(downloadName)}`
+      return { success: true, url }
+    } catch (err) {
+      logger.error('Supabase signed URL error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * 非公開ファイルを削除
+   */
+  async deletePrivate(key: string): Promise<DeleteResult> {
+    try {
+      assertPrivateKey(key)
+      if (!this.supabaseUrl || !this.supabaseKey) {
+        throw new Error('Supabase credentials not configured')
+      }
+
+      const response = await fetch(
+        `${this.supabaseUrl}/storage/v1/object/${this.privateBucket}/${key}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${this.supabaseKey}`,
+          },
+        }
+      )
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Supabase private delete failed: ${error}`)
+      }
+
+      logger.log('Supabase private delete success:', key)
+      return { success: true }
+    } catch (err) {
+      logger.error('Supabase private delete error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
 }
 
 // ============================================================
@@ -886,6 +1279,12 @@ class CloudflareR2StorageProvider implements StorageProvider {
    */
   private publicUrl: string
 
+  /**
+   * 非公開ファイル用のバケット名
+   * 公開アクセス（r2.dev・カスタムドメイン）を設定しないバケットを指定する
+   */
+  private privateBucket: string
+
   /**
    * 初期化済みフラグ
    */
@@ -900,6 +1299,7 @@ class CloudflareR2StorageProvider implements StorageProvider {
   constructor() {
     this.bucket = process.env.R2_BUCKET_NAME || 'uploads'
     this.publicUrl = process.env.R2_PUBLIC_URL || ''
+    this.privateBucket = process.env.R2_PRIVATE_BUCKET_NAME || `${this.bucket}-private`
     logger.log('Storage provider initialized: r2')
   }
 
@@ -1031,11 +1431,20 @@ class CloudflareR2StorageProvider implements StorageProvider {
    *
    * ## URLからキーを抽出
    * URL: https://cdn.example.com/folder/file.jpg
-   * pathname: /folder/file.jpg
-   * key: folder/file.jpg（先頭の/を除去）
+   * key: folder/file.jpg（公開URLの部分を除去）
    */
   async delete(url: string): Promise<DeleteResult> {
     try {
+      /**
+       * URLからキーを取得
+       *
+       * 公開URL（カスタムドメインまたはr2.dev）以外は削除しない
+       */
+      const key = this.getKey(url)
+      if (!key) {
+        throw new Error('Invalid R2 storage URL')
+      }
+
       await this.ensureInitialized()
 
       /**
@@ -1043,15 +1452,6 @@ class CloudflareR2StorageProvider implements StorageProvider {
        */
       const { DeleteObjectCommand } = await import('@aws-sdk/client-s3')
 
-      /**
-       * URLからキーを取得
-       *
-       * pathname.startsWith('/'): 先頭がスラッシュかチェック
-       * slice(1): 先頭の1文字（スラッシュ）を除去
-       */
-      const urlObj = new URL(url)
-      const key = urlObj.pathname.startsWith('/') ? urlObj.pathname.slice(1) : urlObj.pathname
-
       /**
        * 削除コマンドを作成・実行
        */
@@ -1069,6 +1469,92 @@ class CloudflareR2StorageProvider implements StorageProvider {
       return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
     }
   }
+
+  /**
+   * 公開URLからキーを取得
+   *
+   * アップロード時と同じ公開URL（カスタムドメインまたはr2.dev）で始まるURLのみ対象
+   */
+  getKey(url: string): string | null {
+    const baseUrl = this.publicUrl
+      ? `${this.publicUrl}/`
+      : `https://${this.bucket}.${process.env.R2_ACCOUNT_ID}.r2.dev/`
+    return extractPublicKey(url, baseUrl)
+  }
+
+  /**
+   * 非公開ファイルを非公開バケットに保存
+   */
+  async uploadPrivate(file: Buffer, key: string, contentType: string): Promise<PrivateUploadResult> {
+    try {
+      assertPrivateKey(key)
+      await this.ensureInitialized()
+      const { PutObjectCommand } = await import('@aws-sdk/client-s3')
+
+      await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.privateBucket,
+          Key: key,
+          Body: file,
+          ContentType: contentType,
+        })
+      )
+
+      logger.log('R2 private upload success:', key)
+      return { success: true, key }
+    } catch (err) {
+      logger.error('R2 private upload error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * S3 互換の署名付きURL（GetObject）を発行
+   */
+  async getSignedUrl(key: string, expiresInSeconds: number, downloadName: string): Promise<SignedUrlResult> {
+    try {
+      assertPrivateKey(key)
+      await this.ensureInitialized()
+      const { GetObjectCommand } = await import('@aws-sdk/client-s3')
+      const { getSignedUrl } = await import('@aws-sdk/s3-request-presigner')
+
+      const command = new GetObjectCommand({
+        Bucket: this.privateBucket,
+        Key: key,
+        ResponseContentDisposition: buildContentDisposition(downloadName),
+      })
+      const url = await getSignedUrl(this.s3Client, command, { expiresIn: expiresInSeconds })
+
+      return { success: true, url }
+    } catch (err) {
+      logger.error('R2 signed URL error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
+
+  /**
+   * 非公開ファイルを削除
+   */
+  async deletePrivate(key: string): Promise<DeleteResult> {
+    try {
+      assertPrivateKey(key)
+      await this.ensureInitialized()
+      const { DeleteObjectCommand } = await import('@aws-sdk/client-s3')
+
+      await this.s3Client.send(
+        new DeleteObjectCommand({
+          Bucket: this.privateBucket,
+          Key: key,
+        })
+      )
+
+      logger.log('R2 private delete success:', key)
+      return { success: true }
+    } catch (err) {
+      logger.error('R2 private delete error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }
 }
 
 // ============================================================
@@ -1241,3 +1727,149 @@ export async function deleteFile(url: string): Promise<DeleteResult> {
   const provider = getStorageProvider()
   return provider.delete(url)
 }
+
+/**
+ * 公開URLからファイルのキーを取得
+ *
+ * ## 機能概要
+ * 設定されたストレージプロバイダーの公開URLの場合のみ、
+ * フォルダを含むファイルのキー（例: "avatars/xxx.jpg"）を返します。
+ * クライアントから受け取ったURLが自サービスにアップロードされたものか確認するために使用します。
+ *
+ * @param url - ファイルのURL
+ * @returns ファイルのキー、または外部URL・".." を含むURLなどの場合は null
+ *
+ * @example
+ * ```typescript
+ * getStorageKey('/uploads/avatars/xxx.jpg')       // "avatars/xxx.jpg"
+ * getStorageKey('https://example.com/avatars/x') // null
+ * ```
+ */
+export function getStorageKey(url: string): string | null {
+  const provider = getStorageProvider()
+  return provider.getKey(url)
+}
+
+/**
+ * 非公開ファイルをアップロード
+ *
+ * ## 機能概要
+ * 公開URLを持たない非公開領域にファイルを保存します。
+ * ダウンロードには getSignedFileUrl で発行する署名付きURLを使用します。
+ *
+ * @param file - ファイルバッファ
+ * @param key - 保存先のパス（例: "exports/userId/xxx.zip"）
+ * @param contentType - MIMEタイプ
+ * @returns Promise<PrivateUploadResult> - 成功時は key を含む
+ */
+export async function uploadPrivateFile(
+  file: Buffer,
+  key: string,
+  contentType: string
+): Promise<PrivateUploadResult> {
+  const provider = getStorageProvider()
+  return provider.uploadPrivate(file, key, contentType)
+}
+
+/**
+ * 非公開ファイルの署名付きURLを発行
+ *
+ * ## 機能概要
+ * 有効期限付きでダウンロードできるURLを発行します。
+ * URLを知っていれば誰でもダウンロードできるため、本人にだけ渡し、期限は短くします。
+ *
+ * @param key - 非公開ファイルのキー
+ * @param expiresInSeconds - 有効期限（秒）
+ * @param downloadName - ダウンロード時のファイル名
+ * @returns Promise<SignedUrlResult> - 成功時は url を含む
+ */
+export async function getSignedFileUrl(
+  key: string,
+  expiresInSeconds: number,
+  downloadName: string
+): Promise<SignedUrlResult> {
+  const provider = getStorageProvider()
+  return provider.getSignedUrl(key, expiresInSeconds, downloadName)
+}
+
+/**
+ * 非公開ファイルを削除
+ *
+ * @param key - 非公開ファイルのキー
+ * @returns Promise<DeleteResult>
+ */
+export async function deletePrivateFile(key: string): Promise<DeleteResult> {
+  const provider = getStorageProvider()
+  return provider.deletePrivate(key)
+}
+
+/**
+ * ローカルの非公開ファイルを署名を検証して読み込み
+ *
+ * ## 機能概要
+ * ローカルプロバイダーの署名付きURL（/api/storage/private）から呼び出し、
+ * 署名と有効期限が正しい場合のみファイルの内容を返します。
+ *
+ * @param params - 署名付きURLのクエリ（key, expires, name, signature）
+ * @returns ファイルの内容、または署名が無効・期限切れ・存在しない場合は null
+ */
+export async function readLocalPrivateFile(params: {
+  key: string
+  expires: string
+  name: string
+  signature: string
+}): Promise<Buffer | null> {
+  const expires = Number(params.expires)
+  if (!Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return null
+  }
+
+  const expected = Buffer.from(signLocalPrivateFile(params.key, expires, params.name), 'hex')
+  const actual = Buffer.from(params.signature, 'hex')
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    assertPrivateKey(params.key)
+    return await readFile(path.join(getLocalPrivateDir(), params.key))
+  } catch (err) {
+    logger.error('Local private read error:', err)
+    return null
+  }
+}
+
+/**
+ * 公開ファイルの内容を取得
+ *
+ * ## 機能概要
+ * アップロード済みのファイルをURLから読み込みます。
+ * データのエクスポートで投稿画像などをアーカイブに含めるために使用します。
+ *
+ * 設定されたストレージプロバイダーの公開URLのみ対象とし、
+ * それ以外のURL（外部サイト・内部ネットワークなど）はサーバーから取得しません。
+ *
+ * - ローカル（/uploads/...）: public/uploads から読み込み
+ * - それ以外（プロバイダーの公開URL）: HTTPで取得
+ *
+ * @param url - ファイルのURL
+ * @returns ファイルの内容、または対象外のURL・取得できない場合は null
+ */
+export async function downloadFile(url: string): Promise<Buffer | null> {
+  try {
+    const provider = getStorageProvider()
+    const key = provider.getKey(url)
+    if (!key) return null
+
+    if (provider instanceof LocalStorageProvider) {
+      return await readFile(path.join(process.cwd(), 'public', 'uploads', key))
+    }
+
+    const response = await fetch(url)
+    if (!response.ok) return null
+    return Buffer.from(await response.arrayBuffer())
+  } catch (err) {
+    logger.error('Download file error:', err)
+    return null
+  }
+}
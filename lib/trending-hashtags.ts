@@ -0,0 +1,271 @@
+/**
+ * トレンドハッシュタグの集計
+ *
+ * このファイルは、直近の使用数を過去の使用ペースと比べて
+ * 「いま伸びている」ハッシュタグを集計する処理を提供します。
+ * 集計は定期ジョブ（app/api/cron/compute-trending-hashtags）で実行され、
+ * 結果は trending_hashtags テーブルに保存されて lib/cache 経由で配信されます。
+ *
+ * ## スコアの考え方
+ * - 直近の使用数: 直近 TRENDING_WINDOW_HOURS 時間の使用数
+ * - 比較期間の使用数: その前の TRENDING_BASELINE_DAYS 日間の使用数
+ * - 伸び率: 直近の1時間あたりの使用数 ÷ 比較期間の1時間あたりの使用数
+ *
+ * スコア = 直近の使用数 × log2(1 + 伸び率)
+ *
+ * 常に使われる定番のタグ（伸び率 ≒ 1）よりも、
+ * 季節のタグのように急に使われ始めたタグが上位に来やすくなります。
+ *
+ * ## スパム対策
+ * - 同じユーザーが同じタグを繰り返し使った場合、2回目以降の寄与を対数で減衰
+ * - 直近の期間に MIN_TRENDING_USERS 人以上が使ったタグのみを対象にする
+ *
+ * @module lib/trending-hashtags
+ */
+
+import { prisma } from '@/lib/db'
+
+// ============================================================
+// 定数
+// ============================================================
+
+/**
+ * 直近の期間（時間）
+ */
+export const TRENDING_WINDOW_HOURS = 24
+
+/**
+ * 比較期間（日）
+ *
+ * 直近の期間より前の、この日数の使用ペースを基準にする
+ */
+export const TRENDING_BASELINE_DAYS = 7
+
+/**
+ * トレンドの対象にするために必要な、直近の期間の使用者数
+ */
+export const MIN_TRENDING_USERS = 2
+
+/**
+ * 「急上昇」とみなす伸び率
+ */
+export const RISING_VELOCITY = 2
+
+/**
+ * 集計結果として保存するハッシュタグの上限数
+ */
+export const TRENDING_HASHTAGS_LIMIT = 50
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * ハッシュタグの使用1件分の情報
+ */
+export interface HashtagUsage {
+  hashtagId: string
+  /** 投稿者のID */
+  userId: string
+  /** 投稿日時 */
+  createdAt: Date
+}
+
+/**
+ * ハッシュタグのトレンド集計結果
+ */
+export interface TrendingHashtagScore {
+  hashtagId: string
+  score: number
+  /** 直近の期間の使用数（減衰済み） */
+  recentCount: number
+  /** 比較期間の使用数（減衰済み） */
+  baselineCount: number
+  /** 伸び率 */
+  velocity: number
+}
+
+/**
+ * トレンドの勢い
+ *
+ * - new: 比較期間には使われていなかった
+ * - rising: 伸び率が RISING_VELOCITY 以上
+ * - steady: それ以外
+ */
+export type TrendDirection = 'new' | 'rising' | 'steady'
+
+// ============================================================
+// スコアの要素
+// ============================================================
+
+/**
+ * 同じユーザーの使用回数を減衰させた使用数を計算
+ *
+ * 1回目は 1、それ以降は対数で頭打ちにします（10回使っても約3.3）。
+ *
+ * @param count - 同じユーザーが同じタグを使った回数
+ * @returns 減衰させた使用数
+ */
+export function dampenedUsage(count: number): number {
+  return count > 0 ? 1 + Math.log(count) : 0
+}
+
+/**
+ * 使用の一覧から、ユーザーごとに減衰させた使用数の合計を計算
+ *
+ * @param usages - 同じハッシュタグの使用の一覧
+ * @returns 減衰させた使用数の合計
+ */
+export function sumDampenedUsage(usages: HashtagUsage[]): number {
+  const countsByUser = new Map<string, number>()
+  for (const usage of usages) {
+    countsByUser.set(usage.userId, (countsByUser.get(usage.userId) ?? 0) + 1)
+  }
+
+  let total = 0
+  for (const count of countsByUser.values()) {
+    total += dampenedUsage(count)
+  }
+  return total
+}
+
+/**
+ * 伸び率を計算
+ *
+ * 比較期間に使われていないタグの伸び率が無限大にならないよう、
+ * 比較期間の使用数は最低でも 1 として扱います。
+ *
+ * @param recentCount - 直近の期間の使用数
+ * @param baselineCount - 比較期間の使用数
+ * @returns 伸び率
+ */
+export function computeVelocity(recentCount: number, baselineCount: number): number {
+  const recentRate = recentCount / TRENDING_WINDOW_HOURS
+  const baselineRate = Math.max(baselineCount, 1) / (TRENDING_BASELINE_DAYS * 24)
+  return recentRate / baselineRate
+}
+
+/**
+ * トレンドスコアを計算
+ *
+ * @param recentCount - 直近の期間の使用数
+ * @param velocity - 伸び率
+ * @returns トレンドスコア
+ */
+export function scoreTrendingHashtag(recentCount: number, velocity: number): number {
+  return recentCount * Math.log2(1 + velocity)
+}
+
+/**
+ * トレンドの勢いを判定
+ *
+ * @param velocity - 伸び率
+ * @param baselineCount - 比較期間の使用数
+ * @returns トレンドの勢い
+ */
+export function getTrendDirection(velocity: number, baselineCount: number): TrendDirection {
+  if (baselineCount === 0) {
+    return 'new'
+  }
+  return velocity >= RISING_VELOCITY ? 'rising' : 'steady'
+}
+
+// ============================================================
+// 集計
+// ============================================================
+
+/**
+ * ハッシュタグの使用の一覧からトレンドを集計
+ *
+ * スコアが同じ場合はハッシュタグIDの昇順で並べるため、
+ * 同じ入力に対して常に同じ順序になります。
+ *
+ * @param usages - 比較期間の開始から現在までの使用の一覧
+ * @param now - 現在時刻
+ * @returns スコアの高い順に並べた集計結果
+ */
+export function rankTrendingHashtags(usages: HashtagUsage[], now: Date): TrendingHashtagScore[] {
+  const windowStart = now.getTime() - TRENDING_WINDOW_HOURS * 60 * 60 * 1000
+
+  const usagesByHashtag = new Map<string, { recent: HashtagUsage[]; baseline: HashtagUsage[] }>()
+  for (const usage of usages) {
+    const entry = usagesByHashtag.get(usage.hashtagId) ?? { recent: [], baseline: [] }
+    if (usage.createdAt.getTime() >= windowStart) {
+      entry.recent.push(usage)
+    } else {
+      entry.baseline.push(usage)
+    }
+    usagesByHashtag.set(usage.hashtagId, entry)
+  }
+
+  const results: TrendingHashtagScore[] = []
+  for (const [hashtagId, { recent, baseline }] of usagesByHashtag) {
+    const recentUsers = new Set(recent.map((usage) => usage.userId))
+    if (recentUsers.size < MIN_TRENDING_USERS) {
+      continue
+    }
+
+    const recentCount = sumDampenedUsage(recent)
+    const baselineCount = sumDampenedUsage(baseline)
+    const velocity = computeVelocity(recentCount, baselineCount)
+
+    results.push({
+      hashtagId,
+      score: scoreTrendingHashtag(recentCount, velocity),
+      recentCount,
+      baselineCount,
+      velocity,
+    })
+  }
+
+  return results.sort((a, b) =>
+    b.score - a.score ||
+    (a.hashtagId < b.hashtagId ? -1 : a.hashtagId > b.hashtagId ? 1 : 0)
+  )
+}
+
+/**
+ * トレンドハッシュタグを集計して保存
+ *
+ * 全体公開かつ非表示でない投稿のハッシュタグを集計し、
+ * trending_hashtags テーブルの内容を置き換えます。
+ *
+ * @param now - 現在時刻
+ * @returns 保存したハッシュタグの数
+ */
+export async function computeTrendingHashtags(now: Date = new Date()): Promise<number> {
+  const baselineStart = new Date(
+    now.getTime() - (TRENDING_WINDOW_HOURS + TRENDING_BASELINE_DAYS * 24) * 60 * 60 * 1000
+  )
+
+  const postHashtags = await prisma.postHashtag.findMany({
+    where: {
+      post: {
+        createdAt: { gte: baselineStart, lte: now },
+        isHidden: false,
+        audience: 'public',
+      },
+    },
+    select: {
+      hashtagId: true,
+      post: { select: { userId: true, createdAt: true } },
+    },
+  })
+
+  const usages: HashtagUsage[] = postHashtags.map((ph: typeof postHashtags[number]) => ({
+    hashtagId: ph.hashtagId,
+    userId: ph.post.userId,
+    createdAt: ph.post.createdAt,
+  }))
+
+  const trending = rankTrendingHashtags(usages, now).slice(0, TRENDING_HASHTAGS_LIMIT)
+
+  await prisma.$transaction([
+    prisma.trendingHashtag.deleteMany({}),
+    prisma.trendingHashtag.createMany({
+      data: trending.map((t) => ({ ...t, computedAt: now })),
+    }),
+  ])
+
+  return trending.length
+}
@@ -0,0 +1,227 @@
+/**
+ * ログインセッション管理
+ *
+ * JWTセッションをデバイスと結びつけ、あとから無効にできるようにします。
+ *
+ * ## 仕組み
+ * - ユーザーの tokenVersion をJWTに保存し、増やすと全デバイスのセッションが無効になる
+ * - ログインしたデバイス（UserDevice）の sessionVersion をJWTに保存し、
+ *   増やすとそのデバイスのセッションだけが無効になる
+ * - jwt コールバック（lib/auth.ts）で毎回DBの値と照合する
+ *
+ * ## デバイスの識別
+ * ログイン時に送られたデバイスフィンガープリントを使います。
+ * フィンガープリントを取得できなかった場合はデバイスと結びつけず、
+ * 「すべてのデバイスからログアウト」でのみ無効にできます。
+ *
+ * ## ログインの通知
+ * 新しいデバイス・IPアドレスからのログインは持ち主に通知します（lib/login-alert）。
+ *
+ * ## 一時停止中のアカウント
+ * 一時停止中のアカウントはログインで元に戻します（lib/account-deactivation）。
+ *
+ * @module lib/user-session
+ */
+
+import { headers } from 'next/headers'
+import type { JWT } from 'next-auth/jwt'
+import { prisma } from '@/lib/db'
+import logger from '@/lib/logger'
+import { reactivateAccount } from '@/lib/account-deactivation'
+import { notifyIfNewLogin } from '@/lib/login-alert'
+import { logLoginSuccess } from '@/lib/security-logger'
+
+// ============================================================
+// 定数・型定義
+// ============================================================
+
+/**
+ * 最終アクセス日時を更新する間隔（毎リクエストの書き込みを避ける）
+ */
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * ログイン時にJWTへ保存するセッション情報
+ */
+export interface SessionTokenFields {
+  tokenVersion: number
+  deviceId?: string
+  deviceSessionVersion?: number
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * リクエストヘッダーからクライアントのIPアドレスとユーザーエージェントを取得する
+ */
+async function getRequestInfo(): Promise<{ ipAddress: string | null; userAgent: string | null }> {
+  const headersList = await headers()
+
+  const ipAddress =
+    headersList.get('cf-connecting-ip') ||
+    headersList.get('x-forwarded-for')?.split(',')[0].trim() ||
+    headersList.get('x-real-ip') ||
+    null
+
+  return { ipAddress, userAgent: headersList.get('user-agent') }
+}
+
+/**
+ * ユーザーエージェントから「ブラウザ / OS」の表示名を作る
+ *
+ * 一覧でデバイスを見分けるための簡易的な判定です。
+ * 判定できない場合は「不明なデバイス」を返します。
+ *
+ * @param userAgent - ユーザーエージェント
+ * @returns 表示名（例: "Chrome / Android"）
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return '不明なデバイス'
+  }
+
+  // 判定順に注意（Edge・LINEのUAにはChrome・Safariも含まれる）
+  const browser =
+    /Line\//.test(userAgent) ? 'LINE' :
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\/|FxiOS/.test(userAgent) ? 'Firefox' :
+    /Chrome\/|CriOS/.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null
+
+  if (!browser && !os) {
+    return '不明なデバイス'
+  }
+  return [browser, os].filter(Boolean).join(' / ')
+}
+
+// ============================================================
+// セッションの開始・検証
+// ============================================================
+
+/**
+ * ログイン時にセッション情報を作成する
+ *
+ * 一時停止中のアカウントを元に戻し、
+ * 新しいデバイス・IPアドレスからのログインであれば通知したうえで、
+ * フィンガープリントがあればデバイスを記録し、
+ * デバイスの現在の sessionVersion をセッションに結びつけます。
+ *
+ * @param userId - ユーザーID
+ * @param fingerprint - デバイスフィンガープリント
+ * @returns JWTに保存するセッション情報
+ */
+export async function startUserSession(
+  userId: string,
+  fingerprint?: string | null
+): Promise<SessionTokenFields> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { tokenVersion: true },
+  })
+  const tokenVersion = user?.tokenVersion ?? 0
+  const { ipAddress, userAgent } = await getRequestInfo()
+
+  logLoginSuccess(userId, ipAddress ?? undefined, userAgent ?? undefined)
+
+  /**
+   * 元に戻せなかった場合もログインは続ける（次回のログインで再度試みる）
+   */
+  try {
+    await reactivateAccount(userId)
+  } catch (error) {
+    logger.error('Account reactivation error:', error)
+  }
+
+  /**
+   * 通知に失敗してもログインは続ける
+   */
+  try {
+    await notifyIfNewLogin(userId, {
+      fingerprint,
+      ipAddress,
+      device: describeUserAgent(userAgent),
+    })
+  } catch (error) {
+    logger.error('Login alert error:', error)
+  }
+
+  if (!fingerprint) {
+    return { tokenVersion }
+  }
+
+  const device = await prisma.userDevice.upsert({
+    where: { userId_fingerprint: { userId, fingerprint } },
+    create: { userId, fingerprint, userAgent, ipAddress },
+    update: {
+      lastSeenAt: new Date(),
+      signedOutAt: null,
+      userAgent: userAgent || undefined,
+      ipAddress: ipAddress || undefined,
+    },
+    select: { id: true, sessionVersion: true },
+  })
+
+  return {
+    tokenVersion,
+    deviceId: device.id,
+    deviceSessionVersion: device.sessionVersion,
+  }
+}
+
+/**
+ * セッションが有効かどうかを確認する
+ *
+ * 「すべてのデバイスからログアウト」または「このデバイスからログアウト」
+ * のあとに発行済みのJWTが使われた場合は false を返します。
+ * この機能より前に発行されたJWT（tokenVersion なし）はバージョン0として扱います。
+ *
+ * @param token - JWT
+ * @returns 有効な場合は true
+ */
+export async function validateUserSession(token: JWT): Promise<boolean> {
+  if (!token.id) {
+    return true
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: token.id },
+    select: { tokenVersion: true },
+  })
+
+  if (!user || user.tokenVersion !== (token.tokenVersion ?? 0)) {
+    return false
+  }
+
+  if (!token.deviceId) {
+    return true
+  }
+
+  const device = await prisma.userDevice.findUnique({
+    where: { id: token.deviceId },
+    select: { sessionVersion: true, lastSeenAt: true },
+  })
+
+  if (!device || device.sessionVersion !== token.deviceSessionVersion) {
+    return false
+  }
+
+  if (Date.now() - device.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await prisma.userDevice.update({
+      where: { id: token.deviceId },
+      data: { lastSeenAt: new Date() },
+    })
+  }
+
+  return true
+}
@@ -0,0 +1,182 @@
+/**
+ * ZIPアーカイブ作成ユーティリティ
+ *
+ * このファイルは、複数のファイルを1つのZIPアーカイブにまとめる関数を提供します。
+ * データのエクスポート（JSONとメディアファイルの一括ダウンロード）で使用します。
+ *
+ * ## 対応範囲
+ * - 無圧縮（stored）と Deflate 圧縮
+ * - UTF-8 のファイル名（日本語のファイル名もそのまま扱える）
+ * - ZIP64 には対応しないため、合計4GB・65,535ファイルまで
+ *
+ * 画像などすでに圧縮された形式は再圧縮しても小さくならないため、
+ * compress: false を指定して無圧縮で格納します。
+ *
+ * @module lib/zip
+ */
+
+import { crc32, deflateRawSync } from 'zlib'
+
+// ============================================================
+// 型定義
+// ============================================================
+
+/**
+ * ZIPに格納するファイル
+ */
+export interface ZipEntry {
+  /** アーカイブ内のパス（例: posts.json, media/posts/abc.jpg） */
+  path: string
+  /** ファイルの内容（文字列は UTF-8 で格納） */
+  data: Buffer | string
+  /** Deflate で圧縮するか（デフォルト: true） */
+  compress?: boolean
+  /** 更新日時（デフォルト: 作成時点） */
+  modifiedAt?: Date
+}
+
+// ============================================================
+// 定数
+// ============================================================
+
+/** ローカルファイルヘッダーのシグネチャ */
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+
+/** セントラルディレクトリのシグネチャ */
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+
+/** セントラルディレクトリ終端レコードのシグネチャ */
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+
+/** 展開に必要なバージョン（2.0: Deflate 対応） */
+const ZIP_VERSION = 20
+
+/** 汎用フラグ: ファイル名を UTF-8 で格納 */
+const UTF8_FLAG = 0x0800
+
+/** 圧縮方式: 無圧縮 */
+const METHOD_STORED = 0
+
+/** 圧縮方式: Deflate */
+const METHOD_DEFLATE = 8
+
+/** ZIP64 を使わずに格納できる上限 */
+const MAX_ZIP_SIZE = 0xffffffff
+const MAX_ZIP_ENTRIES = 0xffff
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * 日時を MS-DOS 形式の時刻・日付に変換
+ *
+ * ZIP の日時は2秒単位・1980年以降のローカル時刻で格納する。
+ *
+ * @param date - 日時
+ * @returns DOS形式の時刻と日付
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// ============================================================
+// エクスポート関数
+// ============================================================
+
+/**
+ * ZIPアーカイブを作成
+ *
+ * @param entries - 格納するファイル
+ * @returns ZIPアーカイブのバイナリ
+ * @throws ファイル数・サイズが ZIP64 なしの上限を超えた場合、パスが重複する場合
+ *
+ * @example
+ * ```typescript
+ * const zip = createZip([
+ *   { path: 'profile.json', data: JSON.stringify(profile) },
+ *   { path: 'media/avatar.jpg', data: imageBuffer, compress: false },
+ * ])
+ * ```
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error('Too many files for a ZIP archive')
+  }
+
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  const paths = new Set<string>()
+  let offset = 0
+
+  for (const entry of entries) {
+    if (paths.has(entry.path)) {
+      throw new Error(`Duplicate path in ZIP archive: ${entry.path}`)
+    }
+    paths.add(entry.path)
+
+    const name = Buffer.from(entry.path, 'utf8')
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data
+    const compress = entry.compress ?? true
+    const body = compress ? deflateRawSync(data) : data
+    const method = compress ? METHOD_DEFLATE : METHOD_STORED
+    const checksum = crc32(data)
+    const dos = toDosDateTime(entry.modifiedAt ?? new Date())
+
+    if (offset + 30 + name.length + body.length > MAX_ZIP_SIZE) {
+      throw new Error('ZIP archive exceeds 4GB')
+    }
+
+    // ローカルファイルヘッダー
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+    local.writeUInt16LE(ZIP_VERSION, 4)
+    local.writeUInt16LE(UTF8_FLAG, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(dos.time, 10)
+    local.writeUInt16LE(dos.date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(body.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+    localParts.push(local, name, body)
+
+    // セントラルディレクトリのエントリ
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0)
+    central.writeUInt16LE(ZIP_VERSION, 4)
+    central.writeUInt16LE(ZIP_VERSION, 6)
+    central.writeUInt16LE(UTF8_FLAG, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(dos.time, 12)
+    central.writeUInt16LE(dos.date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(body.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centralParts.push(central, name)
+
+    offset += local.length + name.length + body.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  if (offset + centralDirectory.length > MAX_ZIP_SIZE) {
+    throw new Error('ZIP archive exceeds 4GB')
+  }
+
+  // セントラルディレクトリ終端レコード
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
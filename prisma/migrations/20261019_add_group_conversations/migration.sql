@@ -0,0 +1,12 @@
+-- CreateEnum: ConversationRole
+CREATE TYPE "ConversationRole" AS ENUM ('owner', 'admin', 'member');
+
+-- AlterTable: Add group columns to conversations table
+ALTER TABLE "conversations" ADD COLUMN "is_group" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "conversations" ADD COLUMN "title" TEXT;
+
+-- AlterTable: Add role column to conversation_participants table
+ALTER TABLE "conversation_participants" ADD COLUMN "role" "ConversationRole" NOT NULL DEFAULT 'member';
+
+-- AlterTable: Add type column to messages table
+ALTER TABLE "messages" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'text';
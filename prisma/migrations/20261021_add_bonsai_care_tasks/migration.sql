@@ -0,0 +1,39 @@
+-- CreateTable: bonsai_care_tasks
+CREATE TABLE "bonsai_care_tasks" (
+    "id" TEXT NOT NULL,
+    "bonsai_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "note" TEXT,
+    "interval_days" INTEGER,
+    "due_at" TIMESTAMP(3) NOT NULL,
+    "email_reminder" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_completed_at" TIMESTAMP(3),
+    "last_notified_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bonsai_care_tasks_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: Add bonsai column to notifications table
+ALTER TABLE "notifications" ADD COLUMN "bonsai_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "bonsai_care_tasks_bonsai_id_idx" ON "bonsai_care_tasks"("bonsai_id");
+
+-- CreateIndex
+CREATE INDEX "bonsai_care_tasks_user_id_due_at_idx" ON "bonsai_care_tasks"("user_id", "due_at");
+
+-- CreateIndex
+CREATE INDEX "bonsai_care_tasks_is_active_due_at_idx" ON "bonsai_care_tasks"("is_active", "due_at");
+
+-- AddForeignKey
+ALTER TABLE "bonsai_care_tasks" ADD CONSTRAINT "bonsai_care_tasks_bonsai_id_fkey" FOREIGN KEY ("bonsai_id") REFERENCES "bonsais"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bonsai_care_tasks" ADD CONSTRAINT "bonsai_care_tasks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_bonsai_id_fkey" FOREIGN KEY ("bonsai_id") REFERENCES "bonsais"("id") ON DELETE CASCADE ON UPDATE CASCADE;
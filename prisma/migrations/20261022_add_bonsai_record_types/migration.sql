@@ -0,0 +1,15 @@
+-- AlterTable: Add record type and structured details to bonsai_records
+-- 既存の記録は自由記述の 'general' として扱う
+ALTER TABLE "bonsai_records" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'general';
+ALTER TABLE "bonsai_records" ADD COLUMN "soil_mix" TEXT;
+ALTER TABLE "bonsai_records" ADD COLUMN "pot_size" TEXT;
+ALTER TABLE "bonsai_records" ADD COLUMN "wire_gauge" TEXT;
+ALTER TABLE "bonsai_records" ADD COLUMN "fertilizer_product" TEXT;
+ALTER TABLE "bonsai_records" ADD COLUMN "fertilizer_amount" TEXT;
+ALTER TABLE "bonsai_records" ADD COLUMN "treatment_chemical" TEXT;
+ALTER TABLE "bonsai_records" ADD COLUMN "height_cm" DOUBLE PRECISION;
+ALTER TABLE "bonsai_records" ADD COLUMN "trunk_diameter_cm" DOUBLE PRECISION;
+ALTER TABLE "bonsai_records" ADD COLUMN "nebari_width_cm" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "bonsai_records_bonsai_id_type_idx" ON "bonsai_records"("bonsai_id", "type");
@@ -0,0 +1,35 @@
+-- CreateTable: bonsai_transfers
+CREATE TABLE "bonsai_transfers" (
+    "id" TEXT NOT NULL,
+    "bonsai_id" TEXT NOT NULL,
+    "from_user_id" TEXT,
+    "to_user_id" TEXT,
+    "shop_id" TEXT,
+    "note" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "responded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bonsai_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bonsai_transfers_bonsai_id_status_idx" ON "bonsai_transfers"("bonsai_id", "status");
+
+-- CreateIndex
+CREATE INDEX "bonsai_transfers_to_user_id_status_idx" ON "bonsai_transfers"("to_user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "bonsai_transfers_from_user_id_idx" ON "bonsai_transfers"("from_user_id");
+
+-- AddForeignKey
+ALTER TABLE "bonsai_transfers" ADD CONSTRAINT "bonsai_transfers_bonsai_id_fkey" FOREIGN KEY ("bonsai_id") REFERENCES "bonsais"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bonsai_transfers" ADD CONSTRAINT "bonsai_transfers_from_user_id_fkey" FOREIGN KEY ("from_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bonsai_transfers" ADD CONSTRAINT "bonsai_transfers_to_user_id_fkey" FOREIGN KEY ("to_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bonsai_transfers" ADD CONSTRAINT "bonsai_transfers_shop_id_fkey" FOREIGN KEY ("shop_id") REFERENCES "bonsai_shops"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,221 @@
+-- CreateTable: bonsai_species
+CREATE TABLE "bonsai_species" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "name_kana" TEXT NOT NULL,
+    "scientific_name" TEXT,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "care_spring" TEXT,
+    "care_summer" TEXT,
+    "care_autumn" TEXT,
+    "care_winter" TEXT,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bonsai_species_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bonsai_species_slug_key" ON "bonsai_species"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bonsai_species_name_key" ON "bonsai_species"("name");
+
+-- CreateIndex
+CREATE INDEX "bonsai_species_category_sort_order_idx" ON "bonsai_species"("category", "sort_order");
+
+-- AlterTable: Add species reference to bonsais
+ALTER TABLE "bonsais" ADD COLUMN "species_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "bonsais_species_id_idx" ON "bonsais"("species_id");
+
+-- AddForeignKey
+ALTER TABLE "bonsais" ADD CONSTRAINT "bonsais_species_id_fkey" FOREIGN KEY ("species_id") REFERENCES "bonsai_species"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- InsertData: 樹種マスタの初期データ
+-- 別名には盆栽登録フォームの旧選択肢（例: 長寿梅/木瓜）とカタカナ・英名の表記を含める
+INSERT INTO "bonsai_species" ("id", "slug", "name", "name_kana", "scientific_name", "aliases", "category", "description", "care_spring", "care_summer", "care_autumn", "care_winter", "sort_order", "updated_at") VALUES
+-- 松柏
+('species-kuromatsu', 'kuromatsu', '黒松', 'くろまつ', 'Pinus thunbergii', ARRAY['クロマツ', '雄松', 'オマツ', 'Japanese black pine'], 'conifer',
+ '力強い樹皮と太く硬い葉が特徴の、松柏盆栽の代表格。日当たりを好み、丈夫で初心者にも育てやすい。',
+ '3月に植え替え（2〜3年に1回）。芽が伸びたら強弱を見て芽かきを行う。',
+ '6月下旬〜7月上旬に芽切りをして短葉を促す。水切れに注意し、朝夕の水やりを欠かさない。',
+ '芽切り後の二番芽を2本に整理する。施肥は秋にしっかり行う。',
+ '古葉を取って樹冠内に日を入れる。針金かけの適期。', 1, CURRENT_TIMESTAMP),
+('species-akamatsu', 'akamatsu', '赤松', 'あかまつ', 'Pinus densiflora', ARRAY['アカマツ', '雌松', 'メマツ', 'Japanese red pine'], 'conifer',
+ '赤みを帯びた樹皮と柔らかな葉を持ち、女性的な樹姿に仕立てられる。',
+ '3月に植え替え。黒松より樹勢が弱いため芽かきは控えめにする。',
+ '芽切りは黒松より早めの6月中旬に行い、弱い枝は残す。西日を避けて葉焼けを防ぐ。',
+ '二番芽を整理し、施肥で樹勢を回復させる。',
+ '古葉取りと針金かけを行う。寒風の当たらない場所で管理する。', 2, CURRENT_TIMESTAMP),
+('species-goyomatsu', 'goyomatsu', '五葉松', 'ごようまつ', 'Pinus parviflora', ARRAY['ゴヨウマツ', '姫小松', 'ヒメコマツ', 'Japanese white pine'], 'conifer',
+ '5本ずつ束になった短い葉が特徴。樹勢は穏やかで、長く楽しめる。',
+ '新芽が伸びたら指で芽摘みをして長さを揃える。植え替えは3〜4月。',
+ '芽切りは行わない。過湿に弱いので水やりは用土が乾いてから。',
+ '施肥を行い、翌年の芽を充実させる。',
+ '古葉を整理し、針金かけを行う。', 3, CURRENT_TIMESTAMP),
+('species-shimpaku', 'shimpaku', '真柏', 'しんぱく', 'Juniperus chinensis var. sargentii', ARRAY['シンパク', '深山柏槇', 'ミヤマビャクシン', 'Shimpaku juniper'], 'conifer',
+ '舎利・神の白さと生きた水吸いの対比を楽しむ、松柏の人気樹種。',
+ '植え替えは4月。新芽が伸び始めたら指で芽摘みを繰り返す。',
+ '芽摘みを続けて樹形を保つ。ハダニが出やすいので葉水を与える。',
+ '伸びすぎた枝を整理する。舎利に石灰硫黄合剤を塗る。',
+ '針金かけと枝の曲げの適期。凍結に注意する。', 4, CURRENT_TIMESTAMP),
+('species-toshou', 'toshou', '杜松', 'としょう', 'Juniperus rigida', ARRAY['トショウ', 'ネズ', 'ネズミサシ', 'Needle juniper'], 'conifer',
+ '鋭い針状の葉を持つ。真柏と同様に舎利を生かした樹形が好まれる。',
+ '植え替えは4月。新芽をハサミで切り詰めて葉を密にする。',
+ '蒸れに弱いので枝を透かし、風通しを良くする。',
+ '施肥で樹勢をつけ、込み合った枝を整理する。',
+ '針金かけの適期。冬場も水切れに注意する。', 5, CURRENT_TIMESTAMP),
+('species-hinoki', 'hinoki', '檜', 'ひのき', 'Chamaecyparis obtusa', ARRAY['ヒノキ', '桧', '石化檜', 'Hinoki cypress'], 'conifer',
+ '鱗状の葉が重なる繊細な葉姿。石化檜などの園芸品種も多い。',
+ '植え替えは4月。伸びた新芽を指で摘む。',
+ '強い日差しで葉が傷みやすいので、真夏は半日陰で管理する。',
+ '内側の枯れ葉を取り除き、風通しを良くする。',
+ '針金かけを行う。寒風を避ける。', 6, CURRENT_TIMESTAMP),
+('species-ichii', 'ichii', '一位', 'いちい', 'Taxus cuspidata', ARRAY['イチイ', 'アララギ', 'オンコ', 'Japanese yew'], 'conifer',
+ '濃緑の葉と赤褐色の幹が美しい。雌木は秋に赤い実をつける。',
+ '植え替えは3〜4月。新芽が伸びたら芽摘みを行う。',
+ '半日陰を好む。水切れに注意する。',
+ '伸びた枝を剪定し、樹形を整える。',
+ '針金かけの適期。', 7, CURRENT_TIMESTAMP),
+('species-kyaraboku', 'kyaraboku', 'キャラボク', 'きゃらぼく', 'Taxus cuspidata var. nana', ARRAY['伽羅木', 'Dwarf Japanese yew'], 'conifer',
+ '一位の変種で、枝が横に広がり葉が密につく。',
+ '植え替えは3〜4月。新芽を摘んで葉を密にする。',
+ '半日陰で管理し、葉水を与える。',
+ '込み合った枝を透かす。',
+ '針金かけの適期。', 8, CURRENT_TIMESTAMP),
+('species-ezomatsu', 'ezomatsu', '蝦夷松', 'えぞまつ', 'Picea jezoensis', ARRAY['エゾマツ', 'Ezo spruce'], 'conifer',
+ '寄せ植えや石付きで山の景色を表現するのに好まれる。暑さに弱い。',
+ '植え替えは4月。新芽を指で摘んで長さを揃える。',
+ '暑さに弱いため、風通しの良い半日陰で管理し葉水を与える。',
+ '施肥を行い、込み合った枝を整理する。',
+ '寒さには強い。針金かけを行う。', 9, CURRENT_TIMESTAMP),
+-- 雑木
+('species-momiji', 'momiji', '紅葉', 'もみじ', 'Acer palmatum', ARRAY['モミジ', 'イロハモミジ', '伊呂波紅葉', '山紅葉', 'Japanese maple'], 'deciduous',
+ '春の芽出し、夏の青葉、秋の紅葉、冬の寒樹と四季を通じて楽しめる雑木の代表。',
+ '芽出し前の3月に植え替え。新芽が開いたら芽摘みを行う。',
+ '6月に葉刈りをして小葉を促す。葉焼けしやすいので西日を避ける。',
+ '紅葉を楽しむ。施肥は早めに切り上げる。',
+ '落葉後に剪定と針金かけを行い、枝ぶりを整える。', 11, CURRENT_TIMESTAMP),
+('species-kaede', 'kaede', '楓', 'かえで', 'Acer buergerianum', ARRAY['カエデ', 'トウカエデ', '唐楓', 'Trident maple'], 'deciduous',
+ '三つに裂けた葉と、よく張る根張りが特徴。樹勢が強く仕立てやすい。',
+ '植え替えは3月。伸びた新芽を1〜2節残して摘む。',
+ '葉刈りで小葉を促す。水を好むので水切れに注意する。',
+ '紅葉を楽しむ。',
+ '落葉後に剪定し、徒長枝を切り戻す。', 12, CURRENT_TIMESTAMP),
+('species-keyaki', 'keyaki', '欅', 'けやき', 'Zelkova serrata', ARRAY['ケヤキ', 'Japanese zelkova'], 'deciduous',
+ '細かな枝が箒のように広がる箒立ちの樹形で知られる。',
+ '植え替えは3月。新芽を摘んで枝数を増やす。',
+ '葉刈りで小枝を増やす。水切れに注意する。',
+ '施肥を行い、樹勢をつける。',
+ '落葉後に枝先を整理し、箒立ちの樹形を整える。', 13, CURRENT_TIMESTAMP),
+('species-nirekeyaki', 'nirekeyaki', '楡欅', 'にれけやき', 'Ulmus parvifolia', ARRAY['ニレケヤキ', 'アキニレ', '秋楡', 'Chinese elm'], 'deciduous',
+ '小さな葉と細かい枝で、ミニ盆栽にも向く丈夫な樹種。',
+ '植え替えは3月。伸びた枝を切り戻す。',
+ '生育が旺盛なので、伸びた枝をこまめに剪定する。',
+ '施肥を行う。',
+ '落葉後に剪定と針金かけを行う。', 14, CURRENT_TIMESTAMP),
+('species-icho', 'icho', '銀杏', 'いちょう', 'Ginkgo biloba', ARRAY['イチョウ', 'Ginkgo'], 'deciduous',
+ '扇形の葉と秋の黄葉が美しい。乳の出た古木の風格が好まれる。',
+ '植え替えは3月。伸びた新芽を摘む。',
+ '水を好むので水切れに注意する。',
+ '黄葉を楽しむ。',
+ '落葉後に剪定する。枝の切り口から枯れ込みやすいので注意する。', 15, CURRENT_TIMESTAMP),
+('species-buna', 'buna', 'ブナ', 'ぶな', 'Fagus crenata', ARRAY['橅', '山毛欅', 'Japanese beech'], 'deciduous',
+ '白い木肌と、冬も枯れ葉を残す姿が趣深い。',
+ '植え替えは芽出し前の3月。新芽を摘む。',
+ '暑さにやや弱いので半日陰で管理する。',
+ '施肥を行う。',
+ '枯れ葉は春の芽出しまで残して鑑賞する。', 16, CURRENT_TIMESTAMP),
+-- 花もの
+('species-ume', 'ume', '梅', 'うめ', 'Prunus mume', ARRAY['ウメ', 'Japanese apricot'], 'flowering',
+ '早春に香り高い花を咲かせる。古木の荒れた幹肌も見どころ。',
+ '花後すぐに剪定し、植え替えも花後に行う。',
+ '7月頃に花芽ができるので、それ以降の剪定は控える。',
+ '施肥で翌年の花芽を充実させる。',
+ '花の時期は室内で鑑賞できるが、長く置きすぎない。', 21, CURRENT_TIMESTAMP),
+('species-satsuki', 'satsuki', '皐月', 'さつき', 'Rhododendron indicum', ARRAY['サツキ', 'サツキツツジ', '杜鵑花', 'Satsuki azalea'], 'flowering',
+ '5〜6月に咲く色とりどりの花が魅力。品種が非常に多い。',
+ '花後に花がらを摘み、剪定と植え替えを行う（鹿沼土を用いる）。',
+ '花後の剪定は7月上旬までに済ませる。乾燥に弱いので水切れに注意する。',
+ '翌年の花芽ができているので強い剪定は避ける。',
+ '針金かけの適期。凍結を避ける。', 22, CURRENT_TIMESTAMP),
+('species-sakura', 'sakura', '桜', 'さくら', 'Prunus spp.', ARRAY['サクラ', '旭山桜', 'Cherry'], 'flowering',
+ '春の花を楽しむ。旭山桜など小ぶりの品種が盆栽に向く。',
+ '花後に剪定と植え替えを行う。',
+ '7月以降は花芽ができるので剪定を控える。水切れに注意する。',
+ '施肥で花芽を充実させる。',
+ '寒さに当てて休眠させることで春の開花が揃う。', 23, CURRENT_TIMESTAMP),
+('species-chojubai', 'chojubai', '長寿梅', 'ちょうじゅばい', 'Chaenomeles japonica ''Chojubai''', ARRAY['チョウジュバイ', '長寿梅/木瓜', '木瓜', 'ボケ'], 'flowering',
+ '木瓜の矮性品種で、四季咲き性があり小品盆栽の定番。',
+ '植え替えは3月または秋。伸びた枝を切り戻す。',
+ '伸びた枝を剪定して樹形を保つ。',
+ '秋の植え替えの適期。根頭がんしゅ病に注意する。',
+ '冬にも花を咲かせることがある。', 24, CURRENT_TIMESTAMP),
+('species-sarusuberi', 'sarusuberi', '百日紅', 'さるすべり', 'Lagerstroemia indica', ARRAY['サルスベリ', 'Crape myrtle'], 'flowering',
+ '滑らかな幹肌と、夏に長く咲き続ける花が特徴。',
+ '芽出しが遅いので、植え替えは4月に行う。',
+ '花が終わったら花がらを切る。',
+ '施肥を行う。',
+ '寒さにやや弱いので、凍結しない場所で管理する。', 25, CURRENT_TIMESTAMP),
+-- 実もの
+('species-umemodoki', 'umemodoki', '梅擬', 'うめもどき', 'Ilex serrata', ARRAY['ウメモドキ', 'Japanese winterberry'], 'fruiting',
+ '秋から冬にかけて赤い実を枝いっぱいにつける。雌雄異株。',
+ '植え替えは3月。',
+ '実つきを良くするため水切れさせない。',
+ '赤い実を楽しむ。',
+ '落葉後に剪定する。実は鳥に食べられやすい。', 31, CURRENT_TIMESTAMP),
+('species-himeringo', 'himeringo', '姫林檎', 'ひめりんご', 'Malus × cerasifera', ARRAY['ヒメリンゴ', '姫林檎/海棠', 'Crab apple'], 'fruiting',
+ '春の花と秋の小さな赤い実を楽しむ。実をつけるには受粉樹が必要。',
+ '開花時に人工授粉を行う。',
+ '実がつきすぎたら摘果して樹勢を保つ。',
+ '実を楽しむ。',
+ '落葉後に剪定と植え替えを行う。', 32, CURRENT_TIMESTAMP),
+('species-rojagaki', 'rojagaki', '老爺柿', 'ろうやがき', 'Diospyros rhombifolia', ARRAY['ロウヤガキ', '老鴉柿', 'ツクバネガキ'], 'fruiting',
+ '小さな柿の実をつける。雌雄異株で、実を楽しむには雄木が必要。',
+ '植え替えは3月。花が咲いたら人工授粉を行う。',
+ '伸びた枝を切り戻す。',
+ '色づいた実を楽しむ。',
+ '落葉後に剪定する。', 33, CURRENT_TIMESTAMP),
+('species-pyracantha', 'pyracantha', 'ピラカンサ', 'ぴらかんさ', 'Pyracantha', ARRAY['ピラカンサス', 'トキワサンザシ', 'Firethorn'], 'fruiting',
+ '赤や橙の実を房状につける丈夫な樹種。',
+ '植え替えは3月。',
+ '花後に伸びた枝を剪定する。',
+ '実を楽しむ。',
+ '強い剪定は実を落とすので控える。', 34, CURRENT_TIMESTAMP),
+('species-mayumi', 'mayumi', '真弓', 'まゆみ', 'Euonymus hamiltonianus', ARRAY['マユミ', 'Spindle tree'], 'fruiting',
+ '秋に淡紅色の実が割れ、赤い種子が覗く姿が趣深い。',
+ '植え替えは3月。',
+ '伸びた枝を剪定する。',
+ '実を楽しむ。',
+ '落葉後に剪定する。', 35, CURRENT_TIMESTAMP),
+('species-karin', 'karin', '花梨', 'かりん', 'Pseudocydonia sinensis', ARRAY['カリン', 'Chinese quince'], 'fruiting',
+ 'まだら模様の幹肌と、秋の黄色い大きな実が特徴。',
+ '植え替えは3月。',
+ '伸びた枝を切り戻す。',
+ '実を楽しむ。',
+ '落葉後に剪定する。', 36, CURRENT_TIMESTAMP),
+('species-kinzu', 'kinzu', '金豆', 'きんず', 'Fortunella hindsii', ARRAY['キンズ', '豆金柑', 'マメキンカン'], 'fruiting',
+ '小さな橙色の実をつける柑橘類。寒さにやや弱い。',
+ '植え替えは4月。',
+ '夏に花が咲く。水切れに注意する。',
+ '実を楽しむ。',
+ '凍結しない場所で管理する。', 37, CURRENT_TIMESTAMP);
+
+-- UpdateData: 既存の盆栽の樹種（自由記述）を名前・読み・学名・別名で照合して紐付け
+UPDATE "bonsais" AS b
+SET "species_id" = s."id"
+FROM "bonsai_species" AS s
+WHERE b."species_id" IS NULL
+  AND b."species" IS NOT NULL
+  AND (
+    btrim(b."species") = s."name"
+    OR btrim(b."species") = s."name_kana"
+    OR lower(btrim(b."species")) = lower(s."scientific_name")
+    OR lower(btrim(b."species")) IN (SELECT lower(a) FROM unnest(s."aliases") AS a)
+  );
@@ -0,0 +1,24 @@
+-- CreateTable: data_exports
+CREATE TABLE "data_exports" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "file_key" TEXT,
+    "file_size" INTEGER,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "data_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_exports_user_id_created_at_idx" ON "data_exports"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "data_exports_status_created_at_idx" ON "data_exports"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "data_exports" ADD CONSTRAINT "data_exports_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
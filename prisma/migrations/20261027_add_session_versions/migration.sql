@@ -0,0 +1,6 @@
+-- AlterTable: users
+ALTER TABLE "users" ADD COLUMN "token_version" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable: user_devices
+ALTER TABLE "user_devices" ADD COLUMN "session_version" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "signed_out_at" TIMESTAMP(3);
@@ -0,0 +1,21 @@
+-- CreateTable: email_change_requests
+CREATE TABLE "email_change_requests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "new_email" TEXT NOT NULL,
+    "old_confirmed_at" TIMESTAMP(3),
+    "new_confirmed_at" TIMESTAMP(3),
+    "expires" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_change_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_requests_user_id_key" ON "email_change_requests"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "email_change_requests" ADD CONSTRAINT "email_change_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 確認が必須になる前に登録した既存のユーザーは確認済みとして扱う
+UPDATE "users" SET "email_verified" = "created_at" WHERE "email_verified" IS NULL;
@@ -0,0 +1,2 @@
+-- AlterTable: users
+ALTER TABLE "users" ADD COLUMN "password_reset_required" BOOLEAN NOT NULL DEFAULT false;
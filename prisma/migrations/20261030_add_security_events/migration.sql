@@ -0,0 +1,25 @@
+-- CreateTable: security_events
+CREATE TABLE "security_events" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "user_id" TEXT,
+    "ip" TEXT,
+    "user_agent" TEXT,
+    "details" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_created_at_idx" ON "security_events"("created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_created_at_idx" ON "security_events"("type", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_user_id_created_at_idx" ON "security_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_ip_created_at_idx" ON "security_events"("ip", "created_at");
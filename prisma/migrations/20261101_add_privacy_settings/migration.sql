@@ -0,0 +1,6 @@
+-- AlterTable: users
+ALTER TABLE "users" ADD COLUMN "bonsai_visibility" TEXT NOT NULL DEFAULT 'everyone',
+ADD COLUMN "likes_visibility" TEXT NOT NULL DEFAULT 'everyone',
+ADD COLUMN "follows_visibility" TEXT NOT NULL DEFAULT 'everyone',
+ADD COLUMN "location_visibility" TEXT NOT NULL DEFAULT 'everyone',
+ADD COLUMN "dm_permission" TEXT NOT NULL DEFAULT 'everyone';
@@ -0,0 +1,11 @@
+-- AlterTable: posts
+ALTER TABLE "posts" ADD COLUMN "audience" TEXT NOT NULL DEFAULT 'public';
+
+-- CreateIndex
+CREATE INDEX "posts_audience_idx" ON "posts"("audience");
+
+-- AlterTable: scheduled_posts
+ALTER TABLE "scheduled_posts" ADD COLUMN "audience" TEXT NOT NULL DEFAULT 'public';
+
+-- AlterTable: draft_posts
+ALTER TABLE "draft_posts" ADD COLUMN "audience" TEXT NOT NULL DEFAULT 'public';
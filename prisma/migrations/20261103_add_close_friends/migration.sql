@@ -0,0 +1,17 @@
+-- CreateTable: close_friends
+CREATE TABLE "close_friends" (
+    "user_id" TEXT NOT NULL,
+    "friend_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "close_friends_pkey" PRIMARY KEY ("user_id","friend_id")
+);
+
+-- CreateIndex
+CREATE INDEX "close_friends_friend_id_idx" ON "close_friends"("friend_id");
+
+-- AddForeignKey
+ALTER TABLE "close_friends" ADD CONSTRAINT "close_friends_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "close_friends" ADD CONSTRAINT "close_friends_friend_id_fkey" FOREIGN KEY ("friend_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
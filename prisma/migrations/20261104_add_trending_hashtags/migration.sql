@@ -0,0 +1,17 @@
+-- CreateTable: trending_hashtags
+CREATE TABLE "trending_hashtags" (
+    "hashtag_id" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "recent_count" DOUBLE PRECISION NOT NULL,
+    "baseline_count" DOUBLE PRECISION NOT NULL,
+    "velocity" DOUBLE PRECISION NOT NULL,
+    "computed_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trending_hashtags_pkey" PRIMARY KEY ("hashtag_id")
+);
+
+-- CreateIndex
+CREATE INDEX "trending_hashtags_score_idx" ON "trending_hashtags"("score");
+
+-- AddForeignKey
+ALTER TABLE "trending_hashtags" ADD CONSTRAINT "trending_hashtags_hashtag_id_fkey" FOREIGN KEY ("hashtag_id") REFERENCES "hashtags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable: user_lists
+CREATE TABLE "user_lists" (
+    "id" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "is_public" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable: user_list_members
+CREATE TABLE "user_list_members" (
+    "list_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_list_members_pkey" PRIMARY KEY ("list_id","user_id")
+);
+
+-- CreateTable: user_list_follows
+CREATE TABLE "user_list_follows" (
+    "list_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_list_follows_pkey" PRIMARY KEY ("list_id","user_id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_lists_owner_id_idx" ON "user_lists"("owner_id");
+
+-- CreateIndex
+CREATE INDEX "user_list_members_user_id_idx" ON "user_list_members"("user_id");
+
+-- CreateIndex
+CREATE INDEX "user_list_follows_user_id_idx" ON "user_list_follows"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_lists" ADD CONSTRAINT "user_lists_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_list_members" ADD CONSTRAINT "user_list_members_list_id_fkey" FOREIGN KEY ("list_id") REFERENCES "user_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_list_members" ADD CONSTRAINT "user_list_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_list_follows" ADD CONSTRAINT "user_list_follows_list_id_fkey" FOREIGN KEY ("list_id") REFERENCES "user_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_list_follows" ADD CONSTRAINT "user_list_follows_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
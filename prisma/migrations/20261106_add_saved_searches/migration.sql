@@ -0,0 +1,28 @@
+-- CreateTable: saved_searches
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "query" TEXT NOT NULL DEFAULT '',
+    "genre_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "hashtag" TEXT,
+    "notify_mode" TEXT NOT NULL DEFAULT 'instant',
+    "last_checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: Add saved search column to notifications table
+ALTER TABLE "notifications" ADD COLUMN "saved_search_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "saved_searches_user_id_idx" ON "saved_searches"("user_id");
+
+-- CreateIndex
+CREATE INDEX "saved_searches_notify_mode_last_checked_at_idx" ON "saved_searches"("notify_mode", "last_checked_at");
+
+-- AddForeignKey
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_saved_search_id_fkey" FOREIGN KEY ("saved_search_id") REFERENCES "saved_searches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
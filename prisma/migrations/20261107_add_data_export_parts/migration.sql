@@ -0,0 +1,28 @@
+-- CreateTable: data_export_parts
+CREATE TABLE "data_export_parts" (
+    "id" TEXT NOT NULL,
+    "data_export_id" TEXT NOT NULL,
+    "part_number" INTEGER NOT NULL,
+    "file_key" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "data_export_parts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "data_export_parts_data_export_id_part_number_key" ON "data_export_parts"("data_export_id", "part_number");
+
+-- AddForeignKey
+ALTER TABLE "data_export_parts" ADD CONSTRAINT "data_export_parts_data_export_id_fkey" FOREIGN KEY ("data_export_id") REFERENCES "data_exports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 作成済みのZIPを1つ目のパートとして移す
+INSERT INTO "data_export_parts" ("id", "data_export_id", "part_number", "file_key", "file_size")
+SELECT "id", "id", 1, "file_key", COALESCE("file_size", 0)
+FROM "data_exports"
+WHERE "file_key" IS NOT NULL;
+
+-- AlterTable: data_exports
+ALTER TABLE "data_exports" DROP COLUMN "file_key",
+DROP COLUMN "file_size",
+ADD COLUMN "progress" JSONB;
@@ -5,11 +5,21 @@ declare module 'next-auth' {
     user: {
       id: string
     } & DefaultSession['user']
+    /** ログイン中のデバイス（UserDevice）のID */
+    deviceId?: string
+  }
+
+  interface User {
+    /** ログイン時に送られたデバイスフィンガープリント（Credentials のみ） */
+    fingerprint?: string
   }
 }
 
 declare module 'next-auth/jwt' {
   interface JWT {
     id?: string
+    tokenVersion?: number
+    deviceId?: string
+    deviceSessionVersion?: number
   }
 }